@@ -0,0 +1,25 @@
+CREATE TABLE "question_bank" (
+	"id" text PRIMARY KEY NOT NULL,
+	"educator_id" text NOT NULL,
+	"question_text" text NOT NULL,
+	"options" jsonb NOT NULL,
+	"correct_answer" text NOT NULL,
+	"explanation" text,
+	"difficulty" "difficulty",
+	"blooms_level" "blooms_level",
+	"topic" text,
+	"book" text,
+	"chapter" text,
+	"tags" jsonb DEFAULT '[]'::jsonb,
+	"source_quiz_id" text,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"last_used_at" timestamp,
+	"is_archived" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "bank_item_id" text;--> statement-breakpoint
+ALTER TABLE "question_bank" ADD CONSTRAINT "question_bank_educator_id_user_id_fk" FOREIGN KEY ("educator_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_bank" ADD CONSTRAINT "question_bank_source_quiz_id_quizzes_id_fk" FOREIGN KEY ("source_quiz_id") REFERENCES "public"."quizzes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "questions" ADD CONSTRAINT "questions_bank_item_id_question_bank_id_fk" FOREIGN KEY ("bank_item_id") REFERENCES "public"."question_bank"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."question_type" AS ENUM('multiple_choice', 'true_false', 'multi_select', 'fill_blank', 'ordering', 'matching');--> statement-breakpoint
+ALTER TABLE "question_bank" ADD COLUMN "question_type" "question_type" DEFAULT 'multiple_choice' NOT NULL;--> statement-breakpoint
+ALTER TABLE "question_bank" ADD COLUMN "answer_data" jsonb;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "question_type" "question_type" DEFAULT 'multiple_choice' NOT NULL;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "answer_data" jsonb;
\ No newline at end of file
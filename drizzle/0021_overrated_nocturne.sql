@@ -0,0 +1,4 @@
+ALTER TABLE "question_responses" ADD COLUMN "points_awarded" real;--> statement-breakpoint
+ALTER TABLE "question_responses" ADD COLUMN "points_possible" real;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "points_earned" real;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "points_possible" real;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "mode" text DEFAULT 'exam' NOT NULL;
\ No newline at end of file
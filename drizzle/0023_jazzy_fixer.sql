@@ -0,0 +1,2 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "adaptive_path" jsonb;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "mastery_level" text;
\ No newline at end of file
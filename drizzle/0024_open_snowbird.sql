@@ -0,0 +1,19 @@
+CREATE TABLE "review_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"student_id" text NOT NULL,
+	"question_id" text NOT NULL,
+	"source_attempt_id" text,
+	"ease_factor" real DEFAULT 2.5 NOT NULL,
+	"interval_days" integer DEFAULT 0 NOT NULL,
+	"repetitions" integer DEFAULT 0 NOT NULL,
+	"lapses" integer DEFAULT 0 NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"last_reviewed_at" timestamp,
+	"last_review_correct" boolean,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_source_attempt_id_quiz_attempts_id_fk" FOREIGN KEY ("source_attempt_id") REFERENCES "public"."quiz_attempts"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
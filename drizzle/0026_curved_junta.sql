@@ -0,0 +1,8 @@
+CREATE TABLE "generation_callback_nonces" (
+	"id" text PRIMARY KEY NOT NULL,
+	"job_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN "callback_secret" text;--> statement-breakpoint
+ALTER TABLE "generation_callback_nonces" ADD CONSTRAINT "generation_callback_nonces_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."generation_jobs"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
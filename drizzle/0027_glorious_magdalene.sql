@@ -0,0 +1 @@
+ALTER TABLE "questions" ADD COLUMN "citations" jsonb;
\ No newline at end of file
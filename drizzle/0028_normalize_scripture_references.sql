@@ -0,0 +1,131 @@
+-- Normalize questions.book/chapter (and the question bank) to canonical English book names and
+-- plain chapter numbers, matching normalizeBookAndChapter in src/lib/scripture-reference.ts.
+-- The alias list is generated from BIBLE_BOOKS there. Unrecognized books are left as they are.
+CREATE TEMPORARY TABLE "scripture_book_aliases" ("alias" text PRIMARY KEY, "book" text NOT NULL) ON COMMIT DROP;--> statement-breakpoint
+INSERT INTO "scripture_book_aliases" ("alias", "book") VALUES
+  ('genesis', 'Genesis'), ('gen', 'Genesis'), ('ge', 'Genesis'), ('gn', 'Genesis'), ('ഉല്പത്തി', 'Genesis'), ('ஆதியாகமம்', 'Genesis'),
+  ('उत्पत्ति', 'Genesis'), ('genèse', 'Genesis'), ('genese', 'Genesis'), ('génesis', 'Genesis'), ('exodus', 'Exodus'), ('exod', 'Exodus'),
+  ('exo', 'Exodus'), ('ex', 'Exodus'), ('പുറപ്പാട്', 'Exodus'), ('யாத்திராகமம்', 'Exodus'), ('निर्गमन', 'Exodus'), ('exode', 'Exodus'),
+  ('éxodo', 'Exodus'), ('exodo', 'Exodus'), ('Éxodo', 'Exodus'), ('leviticus', 'Leviticus'), ('lev', 'Leviticus'), ('le', 'Leviticus'),
+  ('lv', 'Leviticus'), ('ലേവ്യപുസ്തകം', 'Leviticus'), ('லேவியராகமம்', 'Leviticus'), ('लैव्यव्यवस्था', 'Leviticus'), ('lévitique', 'Leviticus'), ('levitique', 'Leviticus'),
+  ('levítico', 'Leviticus'), ('levitico', 'Leviticus'), ('numbers', 'Numbers'), ('num', 'Numbers'), ('nu', 'Numbers'), ('nm', 'Numbers'),
+  ('nb', 'Numbers'), ('സംഖ്യാപുസ്തകം', 'Numbers'), ('எண்ணாகமம்', 'Numbers'), ('गिनती', 'Numbers'), ('nombres', 'Numbers'), ('números', 'Numbers'),
+  ('numeros', 'Numbers'), ('deuteronomy', 'Deuteronomy'), ('deut', 'Deuteronomy'), ('deu', 'Deuteronomy'), ('de', 'Deuteronomy'), ('dt', 'Deuteronomy'),
+  ('ആവർത്തനം', 'Deuteronomy'), ('உபாகமம்', 'Deuteronomy'), ('व्यवस्थाविवरण', 'Deuteronomy'), ('deutéronome', 'Deuteronomy'), ('deuteronome', 'Deuteronomy'), ('deuteronomio', 'Deuteronomy'),
+  ('joshua', 'Joshua'), ('josh', 'Joshua'), ('jos', 'Joshua'), ('jsh', 'Joshua'), ('യോശുവ', 'Joshua'), ('யோசுவா', 'Joshua'),
+  ('यहोशू', 'Joshua'), ('josué', 'Joshua'), ('josue', 'Joshua'), ('judges', 'Judges'), ('judg', 'Judges'), ('jdg', 'Judges'),
+  ('jg', 'Judges'), ('jdgs', 'Judges'), ('ന്യായാധിപന്മാർ', 'Judges'), ('நியாயாதிபதிகள்', 'Judges'), ('न्यायियों', 'Judges'), ('juges', 'Judges'),
+  ('jueces', 'Judges'), ('ruth', 'Ruth'), ('rth', 'Ruth'), ('ru', 'Ruth'), ('രൂത്ത്', 'Ruth'), ('ரூத்', 'Ruth'),
+  ('रूत', 'Ruth'), ('rut', 'Ruth'), ('1samuel', '1 Samuel'), ('1sam', '1 Samuel'), ('1sa', '1 Samuel'), ('1sm', '1 Samuel'),
+  ('1ശമൂവേൽ', '1 Samuel'), ('1சாமுவேல்', '1 Samuel'), ('1शमूएल', '1 Samuel'), ('2samuel', '2 Samuel'), ('2sam', '2 Samuel'), ('2sa', '2 Samuel'),
+  ('2sm', '2 Samuel'), ('2ശമൂവേൽ', '2 Samuel'), ('2சாமுவேல்', '2 Samuel'), ('2शमूएल', '2 Samuel'), ('1kings', '1 Kings'), ('1kgs', '1 Kings'),
+  ('1ki', '1 Kings'), ('1kg', '1 Kings'), ('1kin', '1 Kings'), ('1രാജാക്കന്മാർ', '1 Kings'), ('1இராஜாக்கள்', '1 Kings'), ('1राजा', '1 Kings'),
+  ('1rois', '1 Kings'), ('1reyes', '1 Kings'), ('2kings', '2 Kings'), ('2kgs', '2 Kings'), ('2ki', '2 Kings'), ('2kg', '2 Kings'),
+  ('2kin', '2 Kings'), ('2രാജാക്കന്മാർ', '2 Kings'), ('2இராஜாக்கள்', '2 Kings'), ('2राजा', '2 Kings'), ('2rois', '2 Kings'), ('2reyes', '2 Kings'),
+  ('1chronicles', '1 Chronicles'), ('1chr', '1 Chronicles'), ('1chron', '1 Chronicles'), ('1ch', '1 Chronicles'), ('1ദിനവൃത്താന്തം', '1 Chronicles'), ('1நாளாகமம்', '1 Chronicles'),
+  ('1इतिहास', '1 Chronicles'), ('1chroniques', '1 Chronicles'), ('1crónicas', '1 Chronicles'), ('1cronicas', '1 Chronicles'), ('2chronicles', '2 Chronicles'), ('2chr', '2 Chronicles'),
+  ('2chron', '2 Chronicles'), ('2ch', '2 Chronicles'), ('2ദിനവൃത്താന്തം', '2 Chronicles'), ('2நாளாகமம்', '2 Chronicles'), ('2इतिहास', '2 Chronicles'), ('2chroniques', '2 Chronicles'),
+  ('2crónicas', '2 Chronicles'), ('2cronicas', '2 Chronicles'), ('ezra', 'Ezra'), ('ezr', 'Ezra'), ('എസ്രാ', 'Ezra'), ('எஸ்றா', 'Ezra'),
+  ('एज्रा', 'Ezra'), ('esdras', 'Ezra'), ('nehemiah', 'Nehemiah'), ('neh', 'Nehemiah'), ('ne', 'Nehemiah'), ('നെഹെമ്യാവ്', 'Nehemiah'),
+  ('நெகேமியா', 'Nehemiah'), ('नहेम्याह', 'Nehemiah'), ('néhémie', 'Nehemiah'), ('nehemie', 'Nehemiah'), ('nehemías', 'Nehemiah'), ('nehemias', 'Nehemiah'),
+  ('esther', 'Esther'), ('esth', 'Esther'), ('est', 'Esther'), ('es', 'Esther'), ('എസ്ഥേർ', 'Esther'), ('எஸ்தர்', 'Esther'),
+  ('एस्तेर', 'Esther'), ('ester', 'Esther'), ('job', 'Job'), ('jb', 'Job'), ('ഇയ്യോബ്', 'Job'), ('யோபு', 'Job'),
+  ('अय्यूब', 'Job'), ('psalms', 'Psalms'), ('psalm', 'Psalms'), ('ps', 'Psalms'), ('psa', 'Psalms'), ('pss', 'Psalms'),
+  ('psm', 'Psalms'), ('സങ്കീർത്തനങ്ങൾ', 'Psalms'), ('சங்கீதம்', 'Psalms'), ('भजनसंहिता', 'Psalms'), ('psaumes', 'Psalms'), ('salmos', 'Psalms'),
+  ('സങ്കീർത്തനം', 'Psalms'), ('भजन', 'Psalms'), ('psaume', 'Psalms'), ('salmo', 'Psalms'), ('proverbs', 'Proverbs'), ('prov', 'Proverbs'),
+  ('pro', 'Proverbs'), ('prv', 'Proverbs'), ('pr', 'Proverbs'), ('സദൃശവാക്യങ്ങൾ', 'Proverbs'), ('நீதிமொழிகள்', 'Proverbs'), ('नीतिवचन', 'Proverbs'),
+  ('proverbes', 'Proverbs'), ('proverbios', 'Proverbs'), ('ecclesiastes', 'Ecclesiastes'), ('eccl', 'Ecclesiastes'), ('eccles', 'Ecclesiastes'), ('ecc', 'Ecclesiastes'),
+  ('ec', 'Ecclesiastes'), ('qoheleth', 'Ecclesiastes'), ('qoh', 'Ecclesiastes'), ('സഭാപ്രസംഗി', 'Ecclesiastes'), ('பிரசங்கி', 'Ecclesiastes'), ('सभोपदेशक', 'Ecclesiastes'),
+  ('ecclésiaste', 'Ecclesiastes'), ('ecclesiaste', 'Ecclesiastes'), ('eclesiastés', 'Ecclesiastes'), ('eclesiastes', 'Ecclesiastes'), ('songofsolomon', 'Song of Solomon'), ('songofsongs', 'Song of Solomon'),
+  ('song', 'Song of Solomon'), ('sos', 'Song of Solomon'), ('sg', 'Song of Solomon'), ('canticles', 'Song of Solomon'), ('cant', 'Song of Solomon'), ('ഉത്തമഗീതം', 'Song of Solomon'),
+  ('உன்னதப்பாட்டு', 'Song of Solomon'), ('श्रेष्ठगीत', 'Song of Solomon'), ('cantiquedescantiques', 'Song of Solomon'), ('cantares', 'Song of Solomon'), ('cantardeloscantares', 'Song of Solomon'), ('isaiah', 'Isaiah'),
+  ('isa', 'Isaiah'), ('is', 'Isaiah'), ('യെശയ്യാവ്', 'Isaiah'), ('ஏசாயா', 'Isaiah'), ('यशायाह', 'Isaiah'), ('ésaïe', 'Isaiah'),
+  ('esaie', 'Isaiah'), ('Ésaïe', 'Isaiah'), ('isaías', 'Isaiah'), ('isaias', 'Isaiah'), ('isaïe', 'Isaiah'), ('isaie', 'Isaiah'),
+  ('jeremiah', 'Jeremiah'), ('jer', 'Jeremiah'), ('je', 'Jeremiah'), ('jr', 'Jeremiah'), ('യിരെമ്യാവ്', 'Jeremiah'), ('எரேமியா', 'Jeremiah'),
+  ('यिर्मयाह', 'Jeremiah'), ('jérémie', 'Jeremiah'), ('jeremie', 'Jeremiah'), ('jeremías', 'Jeremiah'), ('jeremias', 'Jeremiah'), ('lamentations', 'Lamentations'),
+  ('lam', 'Lamentations'), ('la', 'Lamentations'), ('വിലാപങ്ങൾ', 'Lamentations'), ('புலம்பல்', 'Lamentations'), ('विलापगीत', 'Lamentations'), ('lamentaciones', 'Lamentations'),
+  ('ezekiel', 'Ezekiel'), ('ezek', 'Ezekiel'), ('eze', 'Ezekiel'), ('ezk', 'Ezekiel'), ('യെഹെസ്കേൽ', 'Ezekiel'), ('எசேக்கியேல்', 'Ezekiel'),
+  ('यहेजकेल', 'Ezekiel'), ('ézéchiel', 'Ezekiel'), ('ezechiel', 'Ezekiel'), ('Ézéchiel', 'Ezekiel'), ('ezequiel', 'Ezekiel'), ('daniel', 'Daniel'),
+  ('dan', 'Daniel'), ('da', 'Daniel'), ('dn', 'Daniel'), ('ദാനീയേൽ', 'Daniel'), ('தானியேல்', 'Daniel'), ('दानिय्येल', 'Daniel'),
+  ('hosea', 'Hosea'), ('hos', 'Hosea'), ('ho', 'Hosea'), ('ഹോശേയ', 'Hosea'), ('ஓசியா', 'Hosea'), ('होशे', 'Hosea'),
+  ('osée', 'Hosea'), ('osee', 'Hosea'), ('oseas', 'Hosea'), ('joel', 'Joel'), ('jl', 'Joel'), ('യോവേൽ', 'Joel'),
+  ('யோவேல்', 'Joel'), ('योएल', 'Joel'), ('joël', 'Joel'), ('amos', 'Amos'), ('am', 'Amos'), ('amo', 'Amos'),
+  ('ആമോസ്', 'Amos'), ('ஆமோஸ்', 'Amos'), ('आमोस', 'Amos'), ('amós', 'Amos'), ('obadiah', 'Obadiah'), ('obad', 'Obadiah'),
+  ('oba', 'Obadiah'), ('ob', 'Obadiah'), ('ഓബദ്യാവ്', 'Obadiah'), ('ஒபதியா', 'Obadiah'), ('ओबद्याह', 'Obadiah'), ('abdias', 'Obadiah'),
+  ('abdías', 'Obadiah'), ('jonah', 'Jonah'), ('jon', 'Jonah'), ('jnh', 'Jonah'), ('യോനാ', 'Jonah'), ('யோனா', 'Jonah'),
+  ('योना', 'Jonah'), ('jonas', 'Jonah'), ('jonás', 'Jonah'), ('micah', 'Micah'), ('mic', 'Micah'), ('mc', 'Micah'),
+  ('മീഖാ', 'Micah'), ('மீகா', 'Micah'), ('मीका', 'Micah'), ('michée', 'Micah'), ('michee', 'Micah'), ('miqueas', 'Micah'),
+  ('nahum', 'Nahum'), ('nah', 'Nahum'), ('na', 'Nahum'), ('നഹൂം', 'Nahum'), ('நாகூம்', 'Nahum'), ('नहूम', 'Nahum'),
+  ('nahúm', 'Nahum'), ('habakkuk', 'Habakkuk'), ('hab', 'Habakkuk'), ('hb', 'Habakkuk'), ('ഹബക്കൂക്', 'Habakkuk'), ('ஆபகூக்', 'Habakkuk'),
+  ('हबक्कूक', 'Habakkuk'), ('habacuc', 'Habakkuk'), ('zephaniah', 'Zephaniah'), ('zeph', 'Zephaniah'), ('zep', 'Zephaniah'), ('zp', 'Zephaniah'),
+  ('സെഫന്യാവ്', 'Zephaniah'), ('செப்பனியா', 'Zephaniah'), ('सपन्याह', 'Zephaniah'), ('sophonie', 'Zephaniah'), ('sofonías', 'Zephaniah'), ('sofonias', 'Zephaniah'),
+  ('haggai', 'Haggai'), ('hag', 'Haggai'), ('hg', 'Haggai'), ('ഹഗ്ഗായി', 'Haggai'), ('ஆகாய்', 'Haggai'), ('हाग्गै', 'Haggai'),
+  ('aggée', 'Haggai'), ('aggee', 'Haggai'), ('hageo', 'Haggai'), ('zechariah', 'Zechariah'), ('zech', 'Zechariah'), ('zec', 'Zechariah'),
+  ('zc', 'Zechariah'), ('സെഖര്യാവ്', 'Zechariah'), ('சகரியா', 'Zechariah'), ('जकर्याह', 'Zechariah'), ('zacharie', 'Zechariah'), ('zacarías', 'Zechariah'),
+  ('zacarias', 'Zechariah'), ('malachi', 'Malachi'), ('mal', 'Malachi'), ('ml', 'Malachi'), ('മലാഖി', 'Malachi'), ('மல்கியா', 'Malachi'),
+  ('मलाकी', 'Malachi'), ('malachie', 'Malachi'), ('malaquías', 'Malachi'), ('malaquias', 'Malachi'), ('matthew', 'Matthew'), ('matt', 'Matthew'),
+  ('mat', 'Matthew'), ('mt', 'Matthew'), ('മത്തായി', 'Matthew'), ('மத்தேயு', 'Matthew'), ('मत्ती', 'Matthew'), ('matthieu', 'Matthew'),
+  ('mateo', 'Matthew'), ('sanmateo', 'Matthew'), ('mark', 'Mark'), ('mrk', 'Mark'), ('mk', 'Mark'), ('mr', 'Mark'),
+  ('മർക്കൊസ്', 'Mark'), ('மாற்கு', 'Mark'), ('मरकुस', 'Mark'), ('marc', 'Mark'), ('marcos', 'Mark'), ('sanmarcos', 'Mark'),
+  ('luke', 'Luke'), ('luk', 'Luke'), ('lk', 'Luke'), ('ലൂക്കൊസ്', 'Luke'), ('லூக்கா', 'Luke'), ('लूका', 'Luke'),
+  ('luc', 'Luke'), ('lucas', 'Luke'), ('sanlucas', 'Luke'), ('john', 'John'), ('jhn', 'John'), ('jn', 'John'),
+  ('യോഹന്നാൻ', 'John'), ('யோவான்', 'John'), ('यूहन्ना', 'John'), ('jean', 'John'), ('juan', 'John'), ('sanjuan', 'John'),
+  ('acts', 'Acts'), ('act', 'Acts'), ('ac', 'Acts'), ('actsoftheapostles', 'Acts'), ('പ്രവൃത്തികൾ', 'Acts'), ('அப்போஸ்தலருடையநடபடிகள்', 'Acts'),
+  ('प्रेरितोंकेकाम', 'Acts'), ('actes', 'Acts'), ('hechos', 'Acts'), ('அப்போஸ்தலர்நடபடிகள்', 'Acts'), ('actesdesapôtres', 'Acts'), ('actesdesapotres', 'Acts'),
+  ('hechosdelosapóstoles', 'Acts'), ('hechosdelosapostoles', 'Acts'), ('romans', 'Romans'), ('rom', 'Romans'), ('ro', 'Romans'), ('rm', 'Romans'),
+  ('റോമർ', 'Romans'), ('ரோமர்', 'Romans'), ('रोमियों', 'Romans'), ('romains', 'Romans'), ('romanos', 'Romans'), ('1corinthians', '1 Corinthians'),
+  ('1cor', '1 Corinthians'), ('1co', '1 Corinthians'), ('1കൊരിന്ത്യർ', '1 Corinthians'), ('1கொரிந்தியர்', '1 Corinthians'), ('1कुरिन्थियों', '1 Corinthians'), ('1corinthiens', '1 Corinthians'),
+  ('1corintios', '1 Corinthians'), ('2corinthians', '2 Corinthians'), ('2cor', '2 Corinthians'), ('2co', '2 Corinthians'), ('2കൊരിന്ത്യർ', '2 Corinthians'), ('2கொரிந்தியர்', '2 Corinthians'),
+  ('2कुरिन्थियों', '2 Corinthians'), ('2corinthiens', '2 Corinthians'), ('2corintios', '2 Corinthians'), ('galatians', 'Galatians'), ('gal', 'Galatians'), ('ga', 'Galatians'),
+  ('ഗലാത്യർ', 'Galatians'), ('கலாத்தியர்', 'Galatians'), ('गलातियों', 'Galatians'), ('galates', 'Galatians'), ('gálatas', 'Galatians'), ('galatas', 'Galatians'),
+  ('ephesians', 'Ephesians'), ('eph', 'Ephesians'), ('ephes', 'Ephesians'), ('എഫെസ്യർ', 'Ephesians'), ('எபேசியர்', 'Ephesians'), ('इफिसियों', 'Ephesians'),
+  ('éphésiens', 'Ephesians'), ('ephesiens', 'Ephesians'), ('Éphésiens', 'Ephesians'), ('efesios', 'Ephesians'), ('philippians', 'Philippians'), ('phil', 'Philippians'),
+  ('php', 'Philippians'), ('pp', 'Philippians'), ('ഫിലിപ്പിയർ', 'Philippians'), ('பிலிப்பியர்', 'Philippians'), ('फिलिप्पियों', 'Philippians'), ('philippiens', 'Philippians'),
+  ('filipenses', 'Philippians'), ('colossians', 'Colossians'), ('col', 'Colossians'), ('കൊലൊസ്സ്യർ', 'Colossians'), ('கொலோசெயர்', 'Colossians'), ('कुलुस्सियों', 'Colossians'),
+  ('colossiens', 'Colossians'), ('colosenses', 'Colossians'), ('1thessalonians', '1 Thessalonians'), ('1thess', '1 Thessalonians'), ('1thes', '1 Thessalonians'), ('1th', '1 Thessalonians'),
+  ('1തെസ്സലൊനീക്യർ', '1 Thessalonians'), ('1தெசலோனிக்கேயர்', '1 Thessalonians'), ('1थिस्सलुनीकियों', '1 Thessalonians'), ('1thessaloniciens', '1 Thessalonians'), ('1tesalonicenses', '1 Thessalonians'), ('2thessalonians', '2 Thessalonians'),
+  ('2thess', '2 Thessalonians'), ('2thes', '2 Thessalonians'), ('2th', '2 Thessalonians'), ('2തെസ്സലൊനീക്യർ', '2 Thessalonians'), ('2தெசலோனிக்கேயர்', '2 Thessalonians'), ('2थिस्सलुनीकियों', '2 Thessalonians'),
+  ('2thessaloniciens', '2 Thessalonians'), ('2tesalonicenses', '2 Thessalonians'), ('1timothy', '1 Timothy'), ('1tim', '1 Timothy'), ('1ti', '1 Timothy'), ('1tm', '1 Timothy'),
+  ('1തിമൊഥെയൊസ്', '1 Timothy'), ('1தீமோத்தேயு', '1 Timothy'), ('1तीमुथियुस', '1 Timothy'), ('1timothée', '1 Timothy'), ('1timothee', '1 Timothy'), ('1timoteo', '1 Timothy'),
+  ('2timothy', '2 Timothy'), ('2tim', '2 Timothy'), ('2ti', '2 Timothy'), ('2tm', '2 Timothy'), ('2തിമൊഥെയൊസ്', '2 Timothy'), ('2தீமோத்தேயு', '2 Timothy'),
+  ('2तीमुथियुस', '2 Timothy'), ('2timothée', '2 Timothy'), ('2timothee', '2 Timothy'), ('2timoteo', '2 Timothy'), ('titus', 'Titus'), ('tit', 'Titus'),
+  ('തീത്തൊസ്', 'Titus'), ('தீத்து', 'Titus'), ('तीतुस', 'Titus'), ('tite', 'Titus'), ('tito', 'Titus'), ('philemon', 'Philemon'),
+  ('philem', 'Philemon'), ('phlm', 'Philemon'), ('phm', 'Philemon'), ('ഫിലേമോൻ', 'Philemon'), ('பிலேமோன்', 'Philemon'), ('फिलेमोन', 'Philemon'),
+  ('philémon', 'Philemon'), ('filemón', 'Philemon'), ('filemon', 'Philemon'), ('hebrews', 'Hebrews'), ('heb', 'Hebrews'), ('എബ്രായർ', 'Hebrews'),
+  ('எபிரெயர்', 'Hebrews'), ('इब्रानियों', 'Hebrews'), ('hébreux', 'Hebrews'), ('hebreux', 'Hebrews'), ('hebreos', 'Hebrews'), ('james', 'James'),
+  ('jas', 'James'), ('jm', 'James'), ('യാക്കോബ്', 'James'), ('யாக்கோபு', 'James'), ('याकूब', 'James'), ('jacques', 'James'),
+  ('santiago', 'James'), ('1peter', '1 Peter'), ('1pet', '1 Peter'), ('1pe', '1 Peter'), ('1pt', '1 Peter'), ('1പത്രൊസ്', '1 Peter'),
+  ('1பேதுரு', '1 Peter'), ('1पतरस', '1 Peter'), ('1pierre', '1 Peter'), ('1pedro', '1 Peter'), ('2peter', '2 Peter'), ('2pet', '2 Peter'),
+  ('2pe', '2 Peter'), ('2pt', '2 Peter'), ('2പത്രൊസ്', '2 Peter'), ('2பேதுரு', '2 Peter'), ('2पतरस', '2 Peter'), ('2pierre', '2 Peter'),
+  ('2pedro', '2 Peter'), ('1john', '1 John'), ('1jn', '1 John'), ('1jhn', '1 John'), ('1jo', '1 John'), ('1യോഹന്നാൻ', '1 John'),
+  ('1யோவான்', '1 John'), ('1यूहन्ना', '1 John'), ('1jean', '1 John'), ('1juan', '1 John'), ('2john', '2 John'), ('2jn', '2 John'),
+  ('2jhn', '2 John'), ('2jo', '2 John'), ('2യോഹന്നാൻ', '2 John'), ('2யோவான்', '2 John'), ('2यूहन्ना', '2 John'), ('2jean', '2 John'),
+  ('2juan', '2 John'), ('3john', '3 John'), ('3jn', '3 John'), ('3jhn', '3 John'), ('3jo', '3 John'), ('3യോഹന്നാൻ', '3 John'),
+  ('3யோவான்', '3 John'), ('3यूहन्ना', '3 John'), ('3jean', '3 John'), ('3juan', '3 John'), ('jude', 'Jude'), ('jud', 'Jude'),
+  ('jd', 'Jude'), ('യൂദാ', 'Jude'), ('யூதா', 'Jude'), ('यहूदा', 'Jude'), ('judas', 'Jude'), ('revelation', 'Revelation'),
+  ('rev', 'Revelation'), ('re', 'Revelation'), ('rv', 'Revelation'), ('revelations', 'Revelation'), ('apocalypse', 'Revelation'), ('വെളിപ്പാട്', 'Revelation'),
+  ('வெளிப்படுத்தினவிசேஷம்', 'Revelation'), ('प्रकाशितवाक्य', 'Revelation'), ('apocalipsis', 'Revelation'), ('வெளிப்படுத்தல்', 'Revelation');--> statement-breakpoint
+-- questions: chapters written into the book ("1Co 13", "John 3:16") move to the chapter column
+UPDATE "questions" SET
+  "chapter" = substring("book" from '(\d+)[\d\s:.,–-]*$'),
+  "book" = btrim(regexp_replace("book", '\s*\d+[\d\s:.,–-]*$', ''))
+WHERE coalesce(btrim("chapter"), '') = '' AND "book" ~ '[^\d\s:.,–-]\s*\d+[\d\s:.,–-]*$';--> statement-breakpoint
+UPDATE "questions" SET "chapter" = NULL WHERE btrim("chapter") = '';--> statement-breakpoint
+UPDATE "questions" SET "chapter" = regexp_replace(substring("chapter" from '\d+'), '^0+(?=\d)', '') WHERE "chapter" ~ '\d' AND "chapter" !~ '^[1-9]\d*$';--> statement-breakpoint
+UPDATE "questions" SET "book" = a."book"
+FROM "scripture_book_aliases" a
+WHERE a."alias" = regexp_replace(regexp_replace(regexp_replace(regexp_replace(lower(btrim("questions"."book")), '^(first|1st|i|premier|premiere|première|1er|1re|primera|primero|1a|1o|1º)\s+(de\s+)?', '1'), '^(second|2nd|ii|deuxieme|deuxième|seconde|2e|segunda|segundo|2a|2o|2º)\s+(de\s+)?', '2'), '^(third|3rd|iii|troisieme|troisième|3e|tercera|tercero|3a|3o|3º)\s+(de\s+)?', '3'), '[[:space:][:punct:]’]+', '', 'g')
+  AND "questions"."book" IS DISTINCT FROM a."book";--> statement-breakpoint
+UPDATE "questions" SET "chapter" = '1' WHERE "book" IN ('Obadiah', 'Philemon', '2 John', '3 John', 'Jude') AND "chapter" ~ '^\d+$' AND "chapter" <> '1';--> statement-breakpoint
+-- question_bank: chapters written into the book ("1Co 13", "John 3:16") move to the chapter column
+UPDATE "question_bank" SET
+  "chapter" = substring("book" from '(\d+)[\d\s:.,–-]*$'),
+  "book" = btrim(regexp_replace("book", '\s*\d+[\d\s:.,–-]*$', ''))
+WHERE coalesce(btrim("chapter"), '') = '' AND "book" ~ '[^\d\s:.,–-]\s*\d+[\d\s:.,–-]*$';--> statement-breakpoint
+UPDATE "question_bank" SET "chapter" = NULL WHERE btrim("chapter") = '';--> statement-breakpoint
+UPDATE "question_bank" SET "chapter" = regexp_replace(substring("chapter" from '\d+'), '^0+(?=\d)', '') WHERE "chapter" ~ '\d' AND "chapter" !~ '^[1-9]\d*$';--> statement-breakpoint
+UPDATE "question_bank" SET "book" = a."book"
+FROM "scripture_book_aliases" a
+WHERE a."alias" = regexp_replace(regexp_replace(regexp_replace(regexp_replace(lower(btrim("question_bank"."book")), '^(first|1st|i|premier|premiere|première|1er|1re|primera|primero|1a|1o|1º)\s+(de\s+)?', '1'), '^(second|2nd|ii|deuxieme|deuxième|seconde|2e|segunda|segundo|2a|2o|2º)\s+(de\s+)?', '2'), '^(third|3rd|iii|troisieme|troisième|3e|tercera|tercero|3a|3o|3º)\s+(de\s+)?', '3'), '[[:space:][:punct:]’]+', '', 'g')
+  AND "question_bank"."book" IS DISTINCT FROM a."book";--> statement-breakpoint
+UPDATE "question_bank" SET "chapter" = '1' WHERE "book" IN ('Obadiah', 'Philemon', '2 John', '3 John', 'Jude') AND "chapter" ~ '^\d+$' AND "chapter" <> '1';
@@ -0,0 +1,5 @@
+ALTER TABLE "question_bank" ADD COLUMN "response_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "question_bank" ADD COLUMN "difficulty_index" real;--> statement-breakpoint
+ALTER TABLE "question_bank" ADD COLUMN "discrimination_index" real;--> statement-breakpoint
+ALTER TABLE "question_bank" ADD COLUMN "item_flags" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+ALTER TABLE "question_bank" ADD COLUMN "stats_updated_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,46 @@
+CREATE TYPE "public"."live_session_status" AS ENUM('lobby', 'question', 'leaderboard', 'ended');--> statement-breakpoint
+CREATE TABLE "live_answers" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"participant_id" text NOT NULL,
+	"question_id" text NOT NULL,
+	"selected_answer" text NOT NULL,
+	"is_correct" boolean NOT NULL,
+	"points" integer DEFAULT 0 NOT NULL,
+	"response_time_ms" integer NOT NULL,
+	"answered_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "live_participants" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"student_id" text NOT NULL,
+	"display_name" text NOT NULL,
+	"score" integer DEFAULT 0 NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "live_sessions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"quiz_id" text NOT NULL,
+	"educator_id" text NOT NULL,
+	"join_code" text NOT NULL,
+	"status" "live_session_status" DEFAULT 'lobby' NOT NULL,
+	"question_ids" jsonb NOT NULL,
+	"current_index" integer DEFAULT -1 NOT NULL,
+	"seconds_per_question" integer DEFAULT 20 NOT NULL,
+	"question_started_at" timestamp,
+	"question_ends_at" timestamp,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "live_sessions_join_code_unique" UNIQUE("join_code")
+);
+--> statement-breakpoint
+ALTER TABLE "live_answers" ADD CONSTRAINT "live_answers_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_answers" ADD CONSTRAINT "live_answers_participant_id_live_participants_id_fk" FOREIGN KEY ("participant_id") REFERENCES "public"."live_participants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_answers" ADD CONSTRAINT "live_answers_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_participants" ADD CONSTRAINT "live_participants_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_participants" ADD CONSTRAINT "live_participants_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD CONSTRAINT "live_sessions_quiz_id_quizzes_id_fk" FOREIGN KEY ("quiz_id") REFERENCES "public"."quizzes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "live_sessions" ADD CONSTRAINT "live_sessions_educator_id_user_id_fk" FOREIGN KEY ("educator_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
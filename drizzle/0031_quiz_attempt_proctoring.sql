@@ -0,0 +1,6 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "current_question_index" integer;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "answered_count" integer;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "last_seen_at" timestamp;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "extra_time_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "force_submitted_by" text;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_force_submitted_by_user_id_fk" FOREIGN KEY ("force_submitted_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "question_translations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"question_id" text NOT NULL,
+	"quiz_id" text NOT NULL,
+	"language" text NOT NULL,
+	"question_text" text NOT NULL,
+	"options" jsonb NOT NULL,
+	"explanation" text,
+	"matches" jsonb,
+	"accepted_answers" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "translation_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"quiz_id" text NOT NULL,
+	"educator_id" text NOT NULL,
+	"language" text NOT NULL,
+	"status" "generation_job_status" DEFAULT 'pending' NOT NULL,
+	"overwrite" boolean DEFAULT false NOT NULL,
+	"total_questions" integer NOT NULL,
+	"translated_questions" integer DEFAULT 0 NOT NULL,
+	"failed_question_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"error" text,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "language" text DEFAULT 'en' NOT NULL;--> statement-breakpoint
+ALTER TABLE "question_translations" ADD CONSTRAINT "question_translations_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "question_translations" ADD CONSTRAINT "question_translations_quiz_id_quizzes_id_fk" FOREIGN KEY ("quiz_id") REFERENCES "public"."quizzes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "translation_jobs" ADD CONSTRAINT "translation_jobs_quiz_id_quizzes_id_fk" FOREIGN KEY ("quiz_id") REFERENCES "public"."quizzes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "translation_jobs" ADD CONSTRAINT "translation_jobs_educator_id_user_id_fk" FOREIGN KEY ("educator_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TYPE "public"."email_status" AS ENUM('pending', 'sending', 'sent', 'failed', 'bounced', 'suppressed');--> statement-breakpoint
+CREATE TABLE "email_suppressions" (
+	"email" text PRIMARY KEY NOT NULL,
+	"reason" text NOT NULL,
+	"detail" text,
+	"outbound_email_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "outbound_emails" (
+	"id" text PRIMARY KEY NOT NULL,
+	"to_address" text NOT NULL,
+	"subject" text NOT NULL,
+	"html" text NOT NULL,
+	"text" text,
+	"category" text DEFAULT 'transactional' NOT NULL,
+	"tracked" boolean DEFAULT false NOT NULL,
+	"status" "email_status" DEFAULT 'pending' NOT NULL,
+	"provider" text,
+	"provider_message_id" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"lease_expires_at" timestamp,
+	"last_error" text,
+	"sent_at" timestamp,
+	"bounced_at" timestamp,
+	"opened_at" timestamp,
+	"clicked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "educator_reminder_emails" ADD COLUMN "outbound_email_id" text;--> statement-breakpoint
+ALTER TABLE "email_suppressions" ADD CONSTRAINT "email_suppressions_outbound_email_id_outbound_emails_id_fk" FOREIGN KEY ("outbound_email_id") REFERENCES "public"."outbound_emails"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "educator_reminder_emails" ADD CONSTRAINT "educator_reminder_emails_outbound_email_id_outbound_emails_id_fk" FOREIGN KEY ("outbound_email_id") REFERENCES "public"."outbound_emails"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
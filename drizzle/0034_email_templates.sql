@@ -0,0 +1,15 @@
+CREATE TABLE "custom_email_templates" (
+	"id" text PRIMARY KEY NOT NULL,
+	"template_key" text NOT NULL,
+	"language" text NOT NULL,
+	"subject" text NOT NULL,
+	"header" text NOT NULL,
+	"body" text NOT NULL,
+	"footer" text NOT NULL,
+	"text" text NOT NULL,
+	"updated_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "email_language" text DEFAULT 'en' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TYPE "public"."student_notification_type" AS ENUM('quiz_assigned', 'group_added', 'quiz_reassigned', 'quiz_starting', 'results_available');--> statement-breakpoint
+CREATE TABLE "notification_preferences" (
+	"student_id" text PRIMARY KEY NOT NULL,
+	"channels" jsonb NOT NULL,
+	"daily_digest" boolean DEFAULT false NOT NULL,
+	"last_digest_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "student_notifications" (
+	"id" text PRIMARY KEY NOT NULL,
+	"student_id" text NOT NULL,
+	"type" "student_notification_type" NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"link" text,
+	"quiz_id" text,
+	"read_at" timestamp,
+	"emailed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "student_notifications" ADD CONSTRAINT "student_notifications_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "student_notifications" ADD CONSTRAINT "student_notifications_quiz_id_quizzes_id_fk" FOREIGN KEY ("quiz_id") REFERENCES "public"."quizzes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
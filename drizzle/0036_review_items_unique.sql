@@ -0,0 +1,8 @@
+-- Drop duplicate review cards left by concurrent syncs, keeping the most recently reviewed one
+DELETE FROM "review_items" AS "duplicate"
+USING "review_items" AS "kept"
+WHERE "duplicate"."student_id" = "kept"."student_id"
+  AND "duplicate"."question_id" = "kept"."question_id"
+  AND (coalesce("duplicate"."last_reviewed_at", '-infinity'), "duplicate"."created_at", "duplicate"."id")
+    < (coalesce("kept"."last_reviewed_at", '-infinity'), "kept"."created_at", "kept"."id");--> statement-breakpoint
+CREATE UNIQUE INDEX "review_items_student_question_idx" ON "review_items" USING btree ("student_id","question_id");
\ No newline at end of file
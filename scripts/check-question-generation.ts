@@ -0,0 +1,135 @@
+// Runs built-in question generation end to end with the deterministic "local" provider and checks
+// that every question it produces passes QuestionValidator. With --quiz <id> the questions are also
+// written to that quiz, read back and removed again. QuestionValidator uses AI scoring when
+// OPENAI_API_KEY is set and its basic checks otherwise; citations are always checked against the passages.
+//
+// Usage: npx tsx scripts/check-question-generation.ts [--quiz <quizId>]
+
+import { config } from "dotenv";
+import * as path from "path";
+
+// Load environment variables first; the app modules are imported in main() once they're set
+config({ path: path.resolve(__dirname, "../.env") });
+
+const quizArg = process.argv.indexOf("--quiz");
+const quizId = quizArg >= 0 ? process.argv[quizArg + 1] : undefined;
+
+if (quizArg >= 0 && !quizId) {
+  console.error("Usage: npx tsx scripts/check-question-generation.ts [--quiz <quizId>]");
+  process.exit(1);
+}
+if (!process.env.POSTGRES_URL) {
+  if (quizId) {
+    console.error("POSTGRES_URL must be set to save questions to a quiz");
+    process.exit(1);
+  }
+  // lib/db needs a connection string to load; nothing is queried without --quiz
+  process.env.POSTGRES_URL = "postgres://localhost/unused";
+}
+
+const PASSAGES = [
+  {
+    documentId: "check-document-john",
+    text: "There was a man of the Pharisees, named Nicodemus, a ruler of the Jews. " +
+      "The same came to Jesus by night, and said unto him, Rabbi, we know that thou art a teacher come from God. " +
+      "For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish, but have everlasting life.",
+  },
+  {
+    documentId: "check-document-ruth",
+    text: "And Ruth said, Intreat me not to leave thee, or to return from following after thee. " +
+      "So Naomi returned, and Ruth the Moabitess, her daughter in law, with her, which returned out of the country of Moab. " +
+      "And they came to Bethlehem in the beginning of barley harvest.",
+  },
+];
+
+function check(condition: boolean, message: string, failures: string[]) {
+  if (!condition) failures.push(message);
+}
+
+async function main() {
+  const { inArray } = await import("drizzle-orm");
+  const generator = await import("../src/lib/question-generator");
+  const { QuestionValidator } = await import("../src/lib/question-validator");
+
+  const request = generator.generationRequestFromPayload({
+    questionCount: 4,
+    difficulty: "easy",
+    bloomsLevels: ["knowledge", "comprehension"],
+    books: ["John"],
+    chapters: ["3"],
+    quizTitle: "Question generation check",
+  });
+  const passages = PASSAGES.map(passage => ({ ...passage, source: "document" as const }));
+  const sourceTexts = Object.fromEntries(PASSAGES.map(passage => [passage.documentId, passage.text]));
+  const provider = generator.getGenerationProvider("local");
+
+  const outcome = await generator.generateQuestions(request, { documentIds: [], passages, provider });
+  const failures: string[] = [];
+
+  check(
+    outcome.questions.length === request.questionCount,
+    `Expected ${request.questionCount} questions, got ${outcome.questions.length} (${outcome.rejected} rejected)`,
+    failures
+  );
+
+  const toValidate = outcome.questions.map((question, i) => ({
+    id: `check_${i}`,
+    ...question,
+    book: question.book || null,
+    chapter: question.chapter || null,
+    topic: question.topic || null,
+  }));
+  const results = await QuestionValidator.validateQuestions(toValidate);
+
+  for (const question of toValidate) {
+    const label = `Question ${question.id} ("${question.questionText.slice(0, 60)}...")`;
+    check(question.options.some(option => option.id === question.correctAnswer), `${label} has no matching correct option`, failures);
+    check(results[question.id]?.isValid === true, `${label} failed validation: ${JSON.stringify(results[question.id]?.issues)}`, failures);
+
+    const { citationIssues } = QuestionValidator.checkCitations(question, sourceTexts);
+    check(citationIssues.length === 0, `${label} has citation issues: ${citationIssues.join("; ")}`, failures);
+  }
+
+  // The local provider is meant for repeatable runs
+  const again = await generator.generateQuestions(request, { documentIds: [], passages, provider });
+  check(
+    JSON.stringify(again.questions) === JSON.stringify(outcome.questions),
+    "A second run with the same input produced different questions",
+    failures
+  );
+
+  if (quizId) {
+    const { db } = await import("../src/lib/db");
+    const { questions } = await import("../src/lib/schema");
+
+    const saved = await generator.saveGeneratedQuestions(quizId, outcome.questions);
+    try {
+      const stored = await db.select().from(questions).where(inArray(questions.id, saved.map(row => row.id)));
+      check(stored.length === outcome.questions.length, `Saved ${outcome.questions.length} questions, found ${stored.length}`, failures);
+      for (const row of stored) {
+        check(row.quizId === quizId, `Question ${row.id} was saved to quiz ${row.quizId}`, failures);
+        check(Array.isArray(row.citations) && row.citations.length > 0, `Question ${row.id} was saved without citations`, failures);
+      }
+    } finally {
+      if (saved.length > 0) {
+        await db.delete(questions).where(inArray(questions.id, saved.map(row => row.id)));
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`Question generation check failed:\n- ${failures.join("\n- ")}`);
+    process.exit(1);
+  }
+
+  console.log(
+    `Generated ${outcome.questions.length} questions from ${outcome.passages} passages with the "${outcome.provider}" provider; ` +
+    `all passed validation${quizId ? ` and were saved to quiz ${quizId} and removed again` : ""}`
+  );
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error("Question generation check failed:", error);
+  process.exit(1);
+});
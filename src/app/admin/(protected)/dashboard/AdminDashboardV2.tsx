@@ -21,7 +21,7 @@ import {
   Shield, Users, GraduationCap, BookOpen, Activity, 
   Clock, AlertTriangle, LogOut, UserCheck, UserX, 
   Eye, Settings, BarChart, UserPlus, Link, Gauge, 
-  Bell, TrendingUp, Calendar, Mail, Phone, Stethoscope
+  Bell, TrendingUp, Calendar, Mail, Phone, Stethoscope, Languages
 } from "lucide-react";
 import {
   Select,
@@ -782,6 +782,14 @@ export default function AdminDashboardV2({
               <Settings className="h-4 w-4 mr-2 text-red-600" />
               System Configuration
             </Button>
+            <Button 
+              variant="outline"
+              onClick={() => router.push("/admin/settings/languages")}
+              className="justify-start border-red-200 hover:bg-red-50"
+            >
+              <Languages className="h-4 w-4 mr-2 text-red-600" />
+              Translation Languages
+            </Button>
             <Button 
               variant="outline"
               onClick={() => router.push("/admin/documents")}
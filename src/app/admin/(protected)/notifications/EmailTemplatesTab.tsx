@@ -0,0 +1,442 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle, Eye, FileText, RotateCcw, Save, Send } from "lucide-react";
+import type { EmailTemplateContent, EmailTemplateVariable } from "@/lib/email-template-defaults";
+import type { EmailTemplateSummary, RenderedEmail } from "@/lib/email-templates";
+import type { LanguageDefinition } from "@/lib/languages";
+
+type VariableInfo = Pick<EmailTemplateVariable, "name" | "description">;
+
+interface TemplateDetails {
+  template: {
+    key: string;
+    name: string;
+    description: string;
+    localized: boolean;
+    variables: VariableInfo[];
+  };
+  brandingVariables: VariableInfo[];
+  content: EmailTemplateContent;
+  customized: boolean;
+}
+
+const HTML_FIELDS: { field: "header" | "body" | "footer"; label: string; rows: number }[] = [
+  { field: "header", label: "Header (HTML)", rows: 4 },
+  { field: "body", label: "Body (HTML)", rows: 16 },
+  { field: "footer", label: "Footer (HTML)", rows: 4 },
+];
+
+/**
+ * Edit the notification email templates, per language for the ones sent in the
+ * recipient's language, with a preview and a test send
+ */
+export default function EmailTemplatesTab() {
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [languages, setLanguages] = useState<LanguageDefinition[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [language, setLanguage] = useState("en");
+  const [details, setDetails] = useState<TemplateDetails | null>(null);
+  const [draft, setDraft] = useState<EmailTemplateContent | null>(null);
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const [showText, setShowText] = useState(false);
+  const [testTo, setTestTo] = useState("");
+  const [busy, setBusy] = useState<"load" | "preview" | "save" | "reset" | "test" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch("/api/admin/email-templates");
+        const data = await response.json();
+        if (response.ok) {
+          setTemplates(data.templates);
+          setLanguages(data.languages);
+          setSelectedKey(data.templates[0]?.key ?? null);
+        } else {
+          setError(data.error || "Failed to fetch email templates");
+        }
+      } catch {
+        setError("Error loading email templates");
+      }
+    };
+    fetchTemplates();
+  }, []);
+
+  const loadTemplate = useCallback(async (key: string, languageCode: string) => {
+    setBusy("load");
+    setError(null);
+    setPreview(null);
+    try {
+      const response = await fetch(`/api/admin/email-templates/${key}?language=${languageCode}`);
+      const data = await response.json();
+      if (response.ok) {
+        setDetails(data);
+        setDraft(data.content);
+      } else {
+        setError(data.error || "Failed to fetch email template");
+      }
+    } catch {
+      setError("Error loading email template");
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedKey) loadTemplate(selectedKey, language);
+  }, [selectedKey, language, loadTemplate]);
+
+  const selectTemplate = (template: EmailTemplateSummary) => {
+    setSuccessMessage(null);
+    setSelectedKey(template.key);
+    if (!template.localized) setLanguage("en");
+  };
+
+  const requestPreview = async () => {
+    if (!selectedKey || !draft) return;
+    setBusy("preview");
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/email-templates/${selectedKey}/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language, content: draft }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setPreview(data.email);
+      } else {
+        setError(data.error || "Failed to preview email template");
+      }
+    } catch {
+      setError("Error previewing email template");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (!selectedKey || !draft) return;
+    setBusy("save");
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/email-templates/${selectedKey}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language, content: draft }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setTemplates(data.templates);
+        setDetails(current => current && { ...current, content: draft, customized: true });
+        setSuccessMessage("Email template saved");
+      } else {
+        setError(data.error || "Failed to save email template");
+      }
+    } catch {
+      setError("Error saving email template");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const resetTemplate = async () => {
+    if (!selectedKey) return;
+    setBusy("reset");
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/email-templates/${selectedKey}?language=${language}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setTemplates(data.templates);
+        setSuccessMessage(language === "en"
+          ? "Template reset to the built-in version"
+          : "Translation removed; this email will be sent in English");
+        await loadTemplate(selectedKey, language);
+      } else {
+        setError(data.error || "Failed to reset email template");
+      }
+    } catch {
+      setError("Error resetting email template");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sendTest = async () => {
+    if (!selectedKey || !draft) return;
+    setBusy("test");
+    setError(null);
+    setSuccessMessage(null);
+    try {
+      const response = await fetch(`/api/admin/email-templates/${selectedKey}/test`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language, content: draft, to: testTo.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setSuccessMessage(data.message);
+      } else {
+        setError(data.error || data.message || "Failed to send test email");
+      }
+    } catch {
+      setError("Error sending test email");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const selectedSummary = templates.find(template => template.key === selectedKey);
+  const selectedLanguage = languages.find(option => option.code === language);
+  const dir = selectedLanguage?.direction ?? "ltr";
+  const isDirty = !!details && !!draft && JSON.stringify(details.content) !== JSON.stringify(draft);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {successMessage && (
+        <Alert className="border-green-200 bg-green-50">
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription className="text-green-800">{successMessage}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Template list */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-amber-600" />
+              Email Templates
+            </CardTitle>
+            <CardDescription>
+              Emails sent to students and educators
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {templates.map(template => (
+              <button
+                key={template.key}
+                type="button"
+                onClick={() => selectTemplate(template)}
+                className={`w-full text-start p-3 rounded-lg border transition-colors ${
+                  template.key === selectedKey
+                    ? "border-amber-400 bg-amber-50"
+                    : "border-transparent bg-gray-50 hover:bg-amber-50/50"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900">{template.name}</span>
+                  {template.customizations.length > 0 && (
+                    <Badge className="bg-amber-100 text-amber-800 border-amber-200 border">Edited</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-600 mt-1">{template.description}</p>
+                {template.localized && (
+                  <p className="text-xs text-blue-700 mt-1">
+                    🌍 Sent in the student&apos;s language
+                    {template.customizations.some(item => item.language !== "en") && (
+                      <>: {template.customizations
+                        .filter(item => item.language !== "en")
+                        .map(item => item.language)
+                        .join(", ")}</>
+                    )}
+                  </p>
+                )}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Editor */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>{details?.template.name ?? "Select a template"}</CardTitle>
+                <CardDescription>{details?.template.description}</CardDescription>
+              </div>
+              {selectedSummary?.localized && (
+                <Select value={language} onValueChange={setLanguage}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {languages.map(option => (
+                      <SelectItem key={option.code} value={option.code}>
+                        {option.name}
+                        {selectedSummary.customizations.some(item => item.language === option.code) ? " ✎" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {busy === "load" || !details || !draft ? (
+              <p className="text-center text-gray-500 py-8">Loading template...</p>
+            ) : (
+              <>
+                {language !== "en" && !details.customized && (
+                  <Alert className="border-blue-200 bg-blue-50">
+                    <AlertDescription className="text-blue-800">
+                      No {selectedLanguage?.name ?? language} version yet, so students who chose it get the
+                      English email. Translate the text below and save to add one.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div>
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input
+                    id="template-subject"
+                    dir={dir}
+                    value={draft.subject}
+                    onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  />
+                </div>
+
+                {HTML_FIELDS.map(({ field, label, rows }) => (
+                  <div key={field}>
+                    <Label htmlFor={`template-${field}`}>{label}</Label>
+                    <Textarea
+                      id={`template-${field}`}
+                      dir={dir}
+                      rows={rows}
+                      className="font-mono text-xs"
+                      value={draft[field]}
+                      onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    />
+                  </div>
+                ))}
+
+                <div>
+                  <Label htmlFor="template-text">Plain text</Label>
+                  <Textarea
+                    id="template-text"
+                    dir={dir}
+                    rows={10}
+                    className="font-mono text-xs"
+                    value={draft.text}
+                    onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                  />
+                </div>
+
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Variables</h4>
+                  <p className="text-xs text-gray-600 mb-3">
+                    Insert a value with <code>{"{{name}}"}</code>. Wrap text in{" "}
+                    <code>{"{{#name}}...{{/name}}"}</code> to show it only when the value is set, or{" "}
+                    <code>{"{{^name}}...{{/name}}"}</code> when it isn&apos;t.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+                    {[...details.template.variables, ...details.brandingVariables].map(variable => (
+                      <div key={variable.name} className="text-xs">
+                        <code className="text-amber-700">{`{{${variable.name}}}`}</code>
+                        <span className="text-gray-600"> — {variable.description}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <Button
+                    onClick={saveTemplate}
+                    disabled={busy !== null || !isDirty}
+                    className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700"
+                  >
+                    <Save className="h-4 w-4 me-2" />
+                    {busy === "save" ? "Saving..." : "Save Template"}
+                  </Button>
+                  <Button variant="outline" onClick={requestPreview} disabled={busy !== null}>
+                    <Eye className="h-4 w-4 me-2" />
+                    {busy === "preview" ? "Rendering..." : "Preview"}
+                  </Button>
+                  {details.customized && (
+                    <Button variant="outline" onClick={resetTemplate} disabled={busy !== null}>
+                      <RotateCcw className="h-4 w-4 me-2" />
+                      {language === "en" ? "Reset to Default" : "Remove Translation"}
+                    </Button>
+                  )}
+                  {isDirty && (
+                    <Button variant="ghost" onClick={() => setDraft(details.content)} disabled={busy !== null}>
+                      Discard Changes
+                    </Button>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-end gap-3 border-t pt-4">
+                  <div className="flex-1 min-w-[200px]">
+                    <Label htmlFor="template-test-to">Send a test with sample values to</Label>
+                    <Input
+                      id="template-test-to"
+                      type="email"
+                      value={testTo}
+                      onChange={(e) => setTestTo(e.target.value)}
+                      placeholder="Your admin email address"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={sendTest} disabled={busy !== null}>
+                    <Send className="h-4 w-4 me-2" />
+                    {busy === "test" ? "Sending..." : "Send Test"}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription dir={dir}>{preview.subject}</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setShowText(!showText)}>
+                {showText ? "Show HTML" : "Show Plain Text"}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {showText ? (
+              <pre dir={dir} className="whitespace-pre-wrap text-sm bg-gray-50 p-4 rounded-lg">{preview.text}</pre>
+            ) : (
+              <iframe
+                title="Email preview"
+                srcDoc={preview.html}
+                sandbox=""
+                className="w-full h-[700px] rounded-lg border bg-white"
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import {
   XCircle
 } from "lucide-react";
 import { AdminNotificationPreferences, NotificationEventType } from "@/lib/admin-notifications";
+import EmailTemplatesTab from "./EmailTemplatesTab";
 
 interface TestResult {
   type: string;
@@ -323,9 +324,10 @@ export default function AdminNotificationsPage() {
 
         {preferences && (
           <Tabs defaultValue="settings" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="settings">⚙️ Settings</TabsTrigger>
               <TabsTrigger value="events">🔔 Events</TabsTrigger>
+              <TabsTrigger value="templates">✉️ Templates</TabsTrigger>
               <TabsTrigger value="test">🧪 Test</TabsTrigger>
             </TabsList>
 
@@ -458,6 +460,11 @@ export default function AdminNotificationsPage() {
               </Card>
             </TabsContent>
 
+            {/* Templates Tab */}
+            <TabsContent value="templates">
+              <EmailTemplatesTab />
+            </TabsContent>
+
             {/* Test Tab */}
             <TabsContent value="test" className="space-y-6">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
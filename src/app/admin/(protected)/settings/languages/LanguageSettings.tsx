@@ -0,0 +1,351 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AdminPageContainer,
+  AdminPageHeader,
+  AdminSection,
+  ConfirmDialog,
+  EmptyState
+} from "@/components/admin-v2";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Languages, Save, Plus, Trash2, Edit2 } from "lucide-react";
+import { logger } from "@/lib/logger";
+import {
+  BUILT_IN_LANGUAGES,
+  LANGUAGE_SCRIPTS,
+  SCRIPT_LABELS,
+  languageAttributes,
+  type LanguageDefinition,
+  type LanguageScript,
+  type TextDirection,
+} from "@/lib/languages";
+
+interface LanguageSettingsProps {
+  languages: LanguageDefinition[];
+}
+
+const BUILT_IN_CODES = new Set(BUILT_IN_LANGUAGES.map(language => language.code));
+
+const EMPTY_LANGUAGE: LanguageDefinition = {
+  code: "",
+  name: "",
+  nativeName: "",
+  direction: "ltr",
+  script: "latin",
+  locale: "",
+  enabled: true,
+};
+
+export default function LanguageSettings({ languages: initialLanguages }: LanguageSettingsProps) {
+  const { toast } = useToast();
+  const [languages, setLanguages] = useState<LanguageDefinition[]>(initialLanguages);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // The language being edited, and its code before editing (null when adding)
+  const [editing, setEditing] = useState<{ language: LanguageDefinition; originalCode: string | null } | null>(null);
+  const [removeConfirm, setRemoveConfirm] = useState<string | null>(null);
+
+  const updateLanguages = (next: LanguageDefinition[]) => {
+    setLanguages(next);
+    setIsDirty(true);
+  };
+
+  const toggleLanguage = (code: string, enabled: boolean) => {
+    updateLanguages(languages.map(language => language.code === code ? { ...language, enabled } : language));
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing) return;
+    const { language, originalCode } = editing;
+
+    const code = language.code.trim().toLowerCase();
+    if (!/^[a-z]{2,3}$/.test(code) || code === "en") {
+      toast({
+        title: "Invalid code",
+        description: "Use the two or three letter ISO 639 code, e.g. te for Telugu",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (code !== originalCode && languages.some(existing => existing.code === code)) {
+      toast({
+        title: "Duplicate language",
+        description: `A language with the code "${code}" already exists`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!language.name.trim() || !language.nativeName.trim()) {
+      toast({
+        title: "Missing name",
+        description: "Enter both the English and the native name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = { ...language, code, locale: language.locale.trim() || code };
+    updateLanguages(
+      originalCode === null
+        ? [...languages, saved]
+        : languages.map(existing => existing.code === originalCode ? saved : existing)
+    );
+    setEditing(null);
+  };
+
+  const handleRemove = async () => {
+    if (!removeConfirm) return;
+    updateLanguages(languages.filter(language => language.code !== removeConfirm));
+    setRemoveConfirm(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/admin/settings/languages", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ languages }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save languages");
+      }
+
+      setLanguages(data.languages);
+      setIsDirty(false);
+      toast({
+        title: "Success",
+        description: "Translation languages saved",
+      });
+    } catch (error) {
+      logger.error("Error saving translation languages:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save languages",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AdminPageContainer>
+      <AdminPageHeader
+        title="Translation Languages"
+        subtitle="Choose which languages educators can translate quizzes into"
+        icon={Languages}
+        backButton={{ href: "/admin/dashboard" }}
+        actions={
+          <Button onClick={handleSave} disabled={!isDirty || isSaving} size="sm">
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : "Save Changes"}
+          </Button>
+        }
+      />
+
+      <AdminSection title="Languages" className="mb-6">
+        <div className="flex justify-between items-center mb-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Disabled languages keep their translations but are no longer offered to educators or students.
+            Built-in languages can be edited and disabled but not removed.
+          </p>
+          <Button onClick={() => setEditing({ language: EMPTY_LANGUAGE, originalCode: null })} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Language
+          </Button>
+        </div>
+
+        {languages.length === 0 ? (
+          <EmptyState
+            icon={Languages}
+            title="No languages"
+            description="Add a language to let educators translate quizzes"
+          />
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {languages.map(language => (
+              <div key={language.code} className="flex items-center gap-4 py-3">
+                <Switch
+                  checked={language.enabled}
+                  onCheckedChange={(enabled) => toggleLanguage(language.code, enabled)}
+                  aria-label={`Enable ${language.name}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 dark:text-white">{language.name}</span>
+                    <span className="text-gray-600 dark:text-gray-400" {...languageAttributes(language)}>
+                      {language.nativeName}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                    <span className="font-mono">{language.code}</span>
+                    <span>{language.locale}</span>
+                    <span>{SCRIPT_LABELS[language.script]} script</span>
+                    {language.direction === "rtl" && <Badge variant="outline">Right to left</Badge>}
+                    {!BUILT_IN_CODES.has(language.code) && <Badge variant="secondary">Custom</Badge>}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditing({ language, originalCode: language.code })}
+                  aria-label={`Edit ${language.name}`}
+                >
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+                {!BUILT_IN_CODES.has(language.code) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRemoveConfirm(language.code)}
+                    aria-label={`Remove ${language.name}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </AdminSection>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing?.originalCode === null ? "Add Language" : "Edit Language"}</DialogTitle>
+            <DialogDescription>
+              The script picks the font questions are shown in; right-to-left languages are laid out accordingly.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="grid gap-4 py-2">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="language-code">Code</Label>
+                  <Input
+                    id="language-code"
+                    value={editing.language.code}
+                    onChange={(e) => setEditing({ ...editing, language: { ...editing.language, code: e.target.value } })}
+                    placeholder="te"
+                    // Translations and attempts are stored under the code
+                    disabled={editing.originalCode !== null}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="language-locale">Locale</Label>
+                  <Input
+                    id="language-locale"
+                    value={editing.language.locale}
+                    onChange={(e) => setEditing({ ...editing, language: { ...editing.language, locale: e.target.value } })}
+                    placeholder="te-IN"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="language-name">Name</Label>
+                <Input
+                  id="language-name"
+                  value={editing.language.name}
+                  onChange={(e) => setEditing({ ...editing, language: { ...editing.language, name: e.target.value } })}
+                  placeholder="Telugu"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="language-native-name">Native name</Label>
+                <Input
+                  id="language-native-name"
+                  value={editing.language.nativeName}
+                  onChange={(e) => setEditing({ ...editing, language: { ...editing.language, nativeName: e.target.value } })}
+                  placeholder="తెలుగు"
+                  {...languageAttributes(editing.language)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Script</Label>
+                  <Select
+                    value={editing.language.script}
+                    onValueChange={(script) => setEditing({
+                      ...editing,
+                      language: { ...editing.language, script: script as LanguageScript },
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LANGUAGE_SCRIPTS.map(script => (
+                        <SelectItem key={script} value={script}>{SCRIPT_LABELS[script]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Direction</Label>
+                  <Select
+                    value={editing.language.direction}
+                    onValueChange={(direction) => setEditing({
+                      ...editing,
+                      language: { ...editing.language, direction: direction as TextDirection },
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ltr">Left to right</SelectItem>
+                      <SelectItem value="rtl">Right to left</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit}>
+              {editing?.originalCode === null ? "Add" : "Update"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!removeConfirm}
+        onOpenChange={(open) => !open && setRemoveConfirm(null)}
+        title="Remove Language"
+        description="Educators will no longer be able to translate into this language. Existing translations are kept but won't be offered to students."
+        confirmText="Remove"
+        onConfirm={handleRemove}
+        securityLevel="medium"
+      />
+    </AdminPageContainer>
+  );
+}
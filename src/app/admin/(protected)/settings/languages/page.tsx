@@ -0,0 +1,23 @@
+import { redirect } from "next/navigation";
+import { getAdminSession } from "@/lib/admin-auth";
+import { getLanguageRegistry } from "@/lib/language-registry";
+import LanguageSettings from "./LanguageSettings";
+
+
+async function getAdminData() {
+  const session = await getAdminSession();
+
+  if (!session) {
+    redirect("/admin/login");
+  }
+
+  const languages = await getLanguageRegistry();
+
+  return { languages };
+}
+
+export default async function LanguagesPage() {
+  const { languages } = await getAdminData();
+
+  return <LanguageSettings languages={languages} />;
+}
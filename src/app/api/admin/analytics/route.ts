@@ -83,7 +83,8 @@ export async function GET(req: NextRequest) {
         .where(
           and(
             gte(quizAttempts.startTime, startDate),
-            eq(quizAttempts.status, "completed")
+            eq(quizAttempts.status, "completed"),
+            eq(quizAttempts.mode, "exam")
           )
         ),
       
@@ -96,7 +97,7 @@ export async function GET(req: NextRequest) {
       })
       .from(quizAttempts)
       .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
-      .where(gte(quizAttempts.startTime, startDate))
+      .where(and(gte(quizAttempts.startTime, startDate), eq(quizAttempts.mode, "exam")))
       .groupBy(quizAttempts.quizId, quizzes.title)
       .orderBy(desc(count()))
       .limit(5)
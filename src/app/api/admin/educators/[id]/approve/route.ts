@@ -137,7 +137,7 @@ export async function POST(
 
     // Send approval email to educator
     try {
-      const approvalEmail = emailTemplates.educatorApprovalNotification(
+      const approvalEmail = await emailTemplates.educatorApprovalNotification(
         educator.name || 'Educator',
         educator.email
       );
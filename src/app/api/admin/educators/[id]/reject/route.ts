@@ -93,7 +93,7 @@ export async function POST(
 
     // Send rejection email to educator
     try {
-      const rejectionEmail = emailTemplates.educatorRejectionNotification(
+      const rejectionEmail = await emailTemplates.educatorRejectionNotification(
         educator.name || 'Educator',
         educator.email,
         reason
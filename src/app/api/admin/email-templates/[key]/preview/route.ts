@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSession } from "@/lib/admin-auth";
+import { isEmailTemplateKey } from "@/lib/email-template-defaults";
+import { previewEmailTemplate } from "@/lib/email-templates";
+import { logger } from "@/lib/logger";
+
+/**
+ * Render a template with sample values. Body: { language, content? }; without content,
+ * the template is rendered as it would be sent in that language.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ key: string }> }
+) {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/email-templates/[key]/preview/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { key } = await context.params;
+    if (!isEmailTemplateKey(key)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const email = await previewEmailTemplate(key, { language: body?.language, content: body?.content });
+    if ("error" in email) {
+      return NextResponse.json({ error: email.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ email });
+  } catch (error) {
+    logger.error("Error previewing email template:", error);
+    return NextResponse.json(
+      { error: "Failed to preview email template" },
+      { status: 500 }
+    );
+  }
+}
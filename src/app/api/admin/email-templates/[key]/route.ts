@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSession, logActivity } from "@/lib/admin-auth";
+import { EMAIL_TEMPLATE_DEFINITIONS, isEmailTemplateKey } from "@/lib/email-template-defaults";
+import {
+  BRANDING_VARIABLES,
+  getEmailTemplate,
+  listEmailTemplates,
+  parseEmailTemplateInput,
+  resetEmailTemplate,
+  saveEmailTemplate,
+} from "@/lib/email-templates";
+import { ENGLISH } from "@/lib/languages";
+import { logger } from "@/lib/logger";
+
+type RouteContext = { params: Promise<{ key: string }> };
+
+/**
+ * A template as it's sent in a language (?language=, default English), with its variables
+ * and built-in text. A language without its own version returns the English text to start from.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/email-templates/[key]/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+  logger.log(`Admin ${session.email} accessing GET src/app/api/admin/email-templates/[key]/route.ts`);
+
+  try {
+    const { key } = await context.params;
+    if (!isEmailTemplateKey(key)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const language = request.nextUrl.searchParams.get("language") || ENGLISH.code;
+    const definition = EMAIL_TEMPLATE_DEFINITIONS[key];
+    const template = await getEmailTemplate(key, language);
+
+    return NextResponse.json({
+      template: {
+        key,
+        name: definition.name,
+        description: definition.description,
+        localized: definition.localized,
+        variables: definition.variables,
+      },
+      brandingVariables: BRANDING_VARIABLES,
+      language,
+      content: template.content,
+      // Whether this language has its own edited version, rather than falling back
+      customized: template.customized && template.language === language,
+      defaultContent: definition.content,
+    });
+  } catch (error) {
+    logger.error("Error fetching email template:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch email template" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save an edited version of a template. Body: { language, content: { subject, header, body, footer, text } }
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/email-templates/[key]/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+  logger.log(`Admin ${session.email} accessing PUT src/app/api/admin/email-templates/[key]/route.ts`);
+
+  try {
+    const { key } = await context.params;
+    if (!isEmailTemplateKey(key)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = await parseEmailTemplateInput(key, { language: body?.language, content: body?.content });
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    await saveEmailTemplate(key, parsed.language.code, parsed.content, session.email);
+
+    await logActivity(
+      session.id,
+      "update_email_template",
+      "email_template",
+      `${key}:${parsed.language.code}`,
+      { updatedBy: session.email, template: key, language: parsed.language.code }
+    );
+
+    return NextResponse.json({
+      success: true,
+      templates: await listEmailTemplates(),
+    });
+  } catch (error) {
+    logger.error("Error saving email template:", error);
+    return NextResponse.json(
+      { error: "Failed to save email template" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove the edited version of a template in a language (?language=), going back to
+ * the English or built-in one
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/email-templates/[key]/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+  logger.log(`Admin ${session.email} accessing DELETE src/app/api/admin/email-templates/[key]/route.ts`);
+
+  try {
+    const { key } = await context.params;
+    if (!isEmailTemplateKey(key)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const language = request.nextUrl.searchParams.get("language") || ENGLISH.code;
+    const removed = await resetEmailTemplate(key, language);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "This template has no edited version in that language" },
+        { status: 404 }
+      );
+    }
+
+    await logActivity(
+      session.id,
+      "reset_email_template",
+      "email_template",
+      `${key}:${language}`,
+      { updatedBy: session.email, template: key, language }
+    );
+
+    return NextResponse.json({
+      success: true,
+      templates: await listEmailTemplates(),
+    });
+  } catch (error) {
+    logger.error("Error resetting email template:", error);
+    return NextResponse.json(
+      { error: "Failed to reset email template" },
+      { status: 500 }
+    );
+  }
+}
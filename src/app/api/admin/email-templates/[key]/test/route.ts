@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminSession, logActivity } from "@/lib/admin-auth";
+import { isEmailTemplateKey } from "@/lib/email-template-defaults";
+import { previewEmailTemplate } from "@/lib/email-templates";
+import { sendEmail } from "@/lib/email-service";
+import { logger } from "@/lib/logger";
+
+const TestSendSchema = z.object({
+  language: z.string().optional(),
+  content: z.unknown().optional(),
+  to: z.string().email().optional(), // Defaults to the signed-in admin
+});
+
+/**
+ * Send a template filled with sample values. Body: { language, content?, to? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ key: string }> }
+) {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/email-templates/[key]/test/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+  logger.log(`Admin ${session.email} accessing POST src/app/api/admin/email-templates/[key]/test/route.ts`);
+
+  try {
+    const { key } = await context.params;
+    if (!isEmailTemplateKey(key)) {
+      return NextResponse.json({ error: "Email template not found" }, { status: 404 });
+    }
+
+    const parsed = TestSendSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const email = await previewEmailTemplate(key, parsed.data);
+    if ("error" in email) {
+      return NextResponse.json({ error: email.error }, { status: 400 });
+    }
+
+    const to = parsed.data.to || session.email;
+    const result = await sendEmail({
+      to,
+      subject: `[Test] ${email.subject}`,
+      html: email.html,
+      text: email.text,
+      category: "template_test",
+    });
+
+    await logActivity(
+      session.id,
+      "test_email_template",
+      "email_template",
+      `${key}:${email.language}`,
+      { sentBy: session.email, to, success: result.success }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.error || "Failed to send test email" },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.queued ? `Test email to ${to} queued for retry` : `Test email sent to ${to}`,
+    });
+  } catch (error) {
+    logger.error("Error sending test email:", error);
+    return NextResponse.json(
+      { error: "Failed to send test email" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getAdminSession } from "@/lib/admin-auth";
+import { BRANDING_VARIABLES, listEmailTemplates } from "@/lib/email-templates";
+import { getEnabledLanguages } from "@/lib/language-registry";
+import { ENGLISH } from "@/lib/languages";
+import { logger } from "@/lib/logger";
+
+/**
+ * Every email template, the languages each has been edited in, and the languages
+ * localized templates can be written in
+ */
+export async function GET() {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/email-templates/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+  logger.log(`Admin ${session.email} accessing GET src/app/api/admin/email-templates/route.ts`);
+
+  try {
+    const [templates, languages] = await Promise.all([listEmailTemplates(), getEnabledLanguages()]);
+
+    return NextResponse.json({
+      templates,
+      languages: [ENGLISH, ...languages],
+      brandingVariables: BRANDING_VARIABLES,
+    });
+  } catch (error) {
+    logger.error("Error fetching email templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch email templates" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSession, logActivity } from "@/lib/admin-auth";
+import { getLanguageRegistry, parseLanguageRegistry, saveLanguageRegistry } from "@/lib/language-registry";
+import { logger } from "@/lib/logger";
+
+/**
+ * The languages quizzes can be translated into, enabled or not
+ */
+export async function GET() {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/settings/languages/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+  logger.log(`Admin ${session.email} accessing GET src/app/api/admin/settings/languages/route.ts`);
+
+  try {
+    return NextResponse.json({ languages: await getLanguageRegistry() });
+  } catch (error) {
+    logger.error("Error fetching translation languages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch translation languages" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the language list. Body: { languages: LanguageDefinition[] }
+ * Built-in languages left out are added back, so they can be disabled but not removed.
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getAdminSession();
+  if (!session) {
+    logger.warn("Unauthorized admin API access attempt to src/app/api/admin/settings/languages/route.ts");
+    return NextResponse.json(
+      { error: "Unauthorized - Admin access required" },
+      { status: 401 }
+    );
+  }
+  logger.log(`Admin ${session.email} accessing PUT src/app/api/admin/settings/languages/route.ts`);
+
+  try {
+    const body = await request.json();
+    const parsed = parseLanguageRegistry(body?.languages);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const languages = await saveLanguageRegistry(parsed.languages);
+
+    await logActivity(
+      session.id,
+      "update_translation_languages",
+      "admin_settings",
+      "translation_languages",
+      {
+        updatedBy: session.email,
+        enabled: languages.filter(language => language.enabled).map(language => language.code),
+        disabled: languages.filter(language => !language.enabled).map(language => language.code),
+      }
+    );
+
+    return NextResponse.json({ languages });
+  } catch (error) {
+    logger.error("Error saving translation languages:", error);
+    return NextResponse.json(
+      { error: "Failed to save translation languages" },
+      { status: 500 }
+    );
+  }
+}
@@ -83,7 +83,7 @@ async function testReminderSystem(educatorId?: string | null) {
 
     // Test 2: Email template generation
     try {
-      const testEmail = emailTemplates.educatorReminderEmail(
+      const testEmail = await emailTemplates.educatorReminderEmail(
         'Test Educator',
         'no_quizzes_created',
         1,
@@ -257,7 +257,7 @@ async function previewReminderEmail(educatorId?: string | null) {
   const eligibility = await educatorActivityService.checkReminderEligibility(educatorId);
   const snapshot = eligibility.activitySnapshot;
 
-  const emailContent = emailTemplates.educatorReminderEmail(
+  const emailContent = await emailTemplates.educatorReminderEmail(
     educator[0].name,
     eligibility.triggerReason || 'no_quizzes_created',
     eligibility.reminderLevel,
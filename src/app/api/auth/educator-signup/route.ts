@@ -71,7 +71,7 @@ export async function POST(req: NextRequest) {
         logger.error('Failed to create OTP:', otpResult.error);
       } else {
         // Send OTP email
-        const otpEmail = emailTemplates.otpVerification(
+        const otpEmail = await emailTemplates.otpVerification(
           name || 'Educator',
           otpResult.otp,
           10 // 10 minutes expiry
@@ -18,7 +18,7 @@ export async function POST(req: NextRequest) {
 
     // Send confirmation email to educator
     try {
-      const confirmationEmail = emailTemplates.educatorSignupPending(name || 'Educator');
+      const confirmationEmail = await emailTemplates.educatorSignupPending(name || 'Educator');
       await sendEmail({
         to: email,
         subject: confirmationEmail.subject,
@@ -61,7 +61,7 @@ export async function POST(req: NextRequest) {
 
     // Send OTP email
     try {
-      const otpEmail = emailTemplates.otpVerification(
+      const otpEmail = await emailTemplates.otpVerification(
         existingUser.name || 'Educator',
         otpResult.otp,
         10 // 10 minutes expiry
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { eq } from "drizzle-orm";
 import { educatorActivityService } from '@/lib/educator-activity-service';
 import { sendEmail, emailTemplates } from '@/lib/email-service';
+import type { SendEmailResult } from '@/lib/email-queue';
 import { db } from "@/lib/db";
 import { user } from "@/lib/schema";
 import { logger } from '@/lib/logger';
@@ -59,7 +60,7 @@ export async function GET(request: NextRequest) {
         }
 
         // Generate the reminder email
-        const emailContent = emailTemplates.educatorReminderEmail(
+        const emailContent = await emailTemplates.educatorReminderEmail(
           educator.name,
           eligibility.triggerReason!,
           eligibility.reminderLevel,
@@ -72,7 +73,7 @@ export async function GET(request: NextRequest) {
         // Check if we're in dry-run mode (for testing)
         const isDryRun = process.env.EDUCATOR_REMINDERS_DRY_RUN === 'true';
         
-        let emailResult;
+        let emailResult: SendEmailResult & { simulated?: boolean };
         if (isDryRun) {
           // In dry-run mode, just log what we would send
           logger.info('DRY RUN: Would send educator reminder email', {
@@ -92,7 +93,9 @@ export async function GET(request: NextRequest) {
             to: educator.email,
             subject: emailContent.subject,
             html: emailContent.html,
-            text: emailContent.text
+            text: emailContent.text,
+            category: 'educator_reminder',
+            track: true
           });
         }
 
@@ -104,7 +107,9 @@ export async function GET(request: NextRequest) {
             eligibility.reminderLevel,
             eligibility.triggerReason!,
             emailContent.subject,
-            eligibility.activitySnapshot
+            eligibility.activitySnapshot,
+            // Kept up to date by the email queue as the email is retried, bounces, or is opened
+            { outboundEmailId: emailResult.emailId, status: emailResult.queued ? 'pending' : 'sent' }
           );
 
           results.emailsSent++;
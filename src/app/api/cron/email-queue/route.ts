@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runEmailWorker } from '@/lib/email-queue';
+import { logger } from '@/lib/logger';
+
+
+// This should be called by a cron job every 5 minutes
+// Retries emails whose first attempt failed, with backoff, and removes finished emails
+// past their retention period
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (for security)
+    const cronSecret = request.headers.get('x-cron-secret');
+    if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await runEmailWorker();
+
+    logger.info('Email queue worker completed', result);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Email queue worker error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for flexibility
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runGenerationWorker } from '@/lib/quiz-generation-worker';
+import { logger } from '@/lib/logger';
+
+
+// This should be called by a cron job every 5 minutes
+// Retries generation jobs whose webhook dispatch failed or whose callback never arrived,
+// and removes finished jobs past their retention period
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (for security)
+    const cronSecret = request.headers.get('x-cron-secret');
+    if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await runGenerationWorker();
+
+    logger.info('Generation job worker completed', result);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Generation job worker error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for flexibility
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
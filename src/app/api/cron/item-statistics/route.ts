@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshStaleBankItemStatistics } from '@/lib/item-analysis';
+import { logger } from '@/lib/logger';
+
+
+// This should be called by a cron job every hour
+// Refreshes the ratings of question bank items used in quizzes with new exam attempts
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (for security)
+    const cronSecret = request.headers.get('x-cron-secret');
+    if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const refreshed = await refreshStaleBankItemStatistics();
+
+    logger.info('Question bank statistics refreshed', { refreshed });
+
+    return NextResponse.json({
+      success: true,
+      refreshed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Question bank statistics error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for flexibility
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
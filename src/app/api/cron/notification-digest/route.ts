@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendNotificationDigests } from '@/lib/student-notifications';
+import { logger } from '@/lib/logger';
+
+
+// This should be called by a cron job once a day
+// Emails students who turned on the daily digest a summary of their unread notifications
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (for security)
+    const cronSecret = request.headers.get('x-cron-secret');
+    if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await sendNotificationDigests();
+
+    logger.info('Notification digests completed', result);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Notification digest error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for flexibility
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -13,11 +13,96 @@ import { headers } from "next/headers";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
 import { cache } from "@/lib/distributed-cache";
+import { getAttemptPolicy, selectCountedAttempts } from "@/lib/attempt-policy";
+import { checkEducatorPermission, getPermissionMessage } from "@/lib/permissions";
+import { getExportFormat, createExportResponse, type ExportFormat, type ExportSheet } from "@/lib/data-export";
 
 // Cache configuration
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache for production performance
 const CACHE_PREFIX = 'analytics:educator:'; // Namespace for analytics cache keys
 
+interface PerformanceRow {
+  totalQuestions: number;
+  correctAnswers: number;
+  averageScore: number;
+}
+
+// Shape of the analytics payload, whether freshly computed or read back from cache
+interface AnalyticsData {
+  overall: Record<string, string | number>;
+  quizzes: { quizTitle: string; attempts: number; averageScore: number; passRate: number; averageTime: number; highestScore: number; lowestScore: number }[];
+  students: { studentName: string; studentEmail: string; quizzesAttempted: number; quizzesCompleted: number; averageScore: number; totalTimeSpent: number; lastActivity: string; trend: string }[];
+  topics: (PerformanceRow & { topic: string })[];
+  difficulty?: (PerformanceRow & { difficulty: string })[];
+  timeline: { date: string; attempts: number; averageScore: number }[];
+}
+
+const OVERALL_LABELS: Record<string, string> = {
+  totalStudents: "Total students",
+  totalQuizzes: "Total quizzes",
+  totalAttempts: "Total attempts",
+  averageScore: "Average score (%)",
+  passRate: "Pass rate (%)",
+  completionRate: "Completion rate (%)",
+  averageTimePerQuiz: "Average time per quiz (seconds)",
+  mostDifficultTopic: "Most difficult topic",
+  easiestTopic: "Easiest topic",
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function createAnalyticsExport(data: AnalyticsData, format: ExportFormat, timeRange: string) {
+  const performanceRows = <T extends PerformanceRow>(rows: T[], label: (row: T) => string) =>
+    rows.map(row => [label(row), row.totalQuestions, row.correctAnswers, round1(row.averageScore)]);
+
+  const sheets: ExportSheet[] = [
+    {
+      name: "Overview",
+      headers: ["Metric", "Value"],
+      rows: [
+        ["Time range", timeRange],
+        ...Object.entries(data.overall).map(([key, value]) => [
+          OVERALL_LABELS[key] || key,
+          typeof value === "number" ? round1(value) : value,
+        ]),
+      ],
+    },
+    {
+      name: "Quizzes",
+      headers: ["Quiz", "Attempts", "Average Score (%)", "Pass Rate (%)", "Average Time (seconds)", "Highest Score (%)", "Lowest Score (%)"],
+      rows: data.quizzes.map(q => [
+        q.quizTitle, q.attempts, round1(q.averageScore), round1(q.passRate),
+        Math.round(q.averageTime), q.highestScore, q.lowestScore,
+      ]),
+    },
+    {
+      name: "Students",
+      headers: ["Student", "Email", "Attempts", "Completed", "Average Score (%)", "Total Time (seconds)", "Last Activity", "Trend"],
+      rows: data.students.map(st => [
+        st.studentName, st.studentEmail, st.quizzesAttempted, st.quizzesCompleted,
+        round1(st.averageScore), st.totalTimeSpent, new Date(st.lastActivity), st.trend,
+      ]),
+    },
+    {
+      name: "Topics",
+      headers: ["Topic", "Questions Answered", "Correct", "Accuracy (%)"],
+      rows: performanceRows(data.topics, t => t.topic),
+    },
+    {
+      name: "Difficulty",
+      headers: ["Difficulty", "Questions Answered", "Correct", "Accuracy (%)"],
+      rows: performanceRows(data.difficulty || [], d => d.difficulty),
+    },
+    {
+      name: "Timeline",
+      headers: ["Date", "Attempts", "Average Score (%)"],
+      rows: data.timeline.map(t => [new Date(t.date), t.attempts, round1(t.averageScore)]),
+    },
+  ];
+
+  return createExportResponse(sheets, format, `analytics ${timeRange}`);
+}
+
 export async function GET(req: NextRequest) {
   const startTime = Date.now();
   
@@ -40,14 +125,26 @@ export async function GET(req: NextRequest) {
     }
     
     const educatorId = session.user.id;
+
+    // ?format=csv|xlsx downloads the same analytics as a spreadsheet
+    const exportFormat = getExportFormat(searchParams.get("format"));
+    if (exportFormat && !(await checkEducatorPermission(educatorId, "canExportData"))) {
+      return NextResponse.json(
+        { error: getPermissionMessage("canExportData") },
+        { status: 403 }
+      );
+    }
+    const respond = (data: AnalyticsData) => exportFormat
+      ? createAnalyticsExport(data, exportFormat, timeRange)
+      : NextResponse.json(data);
     
     // Check cache for production performance
     const cacheKey = `${CACHE_PREFIX}${educatorId}:${timeRange}`;
     if (useCache) {
-      const cached = await cache.get(cacheKey);
+      const cached = await cache.get<AnalyticsData>(cacheKey);
       if (cached) {
         logger.debug('Returning cached analytics data');
-        return NextResponse.json(cached);
+        return respond(cached);
       }
     }
 
@@ -72,7 +169,7 @@ export async function GET(req: NextRequest) {
     const quizIds = educatorQuizzes.map(q => q.id);
 
     if (quizIds.length === 0) {
-      return NextResponse.json({
+      return respond({
         overall: {
           totalStudents: 0,
           totalQuizzes: 0,
@@ -115,21 +212,27 @@ export async function GET(req: NextRequest) {
         and(
           inArray(quizAttempts.quizId, quizIds),
           gte(quizAttempts.endTime, dateFilter),
-          eq(quizAttempts.status, "completed")
+          eq(quizAttempts.status, "completed"),
+          eq(quizAttempts.mode, "exam")
         )
       );
 
+    // Score statistics use one counted attempt per student per quiz, picked by the
+    // quiz's score mode, so retakes don't skew averages or pass rates
+    const policyByQuiz = new Map(educatorQuizzes.map(q => [q.id, getAttemptPolicy(q.configuration)]));
+    const countedAttempts = selectCountedAttempts(attempts, quizId => policyByQuiz.get(quizId) ?? getAttemptPolicy(null));
+
     // Calculate overall statistics
     const totalAttempts = attempts.length;
     const totalStudents = new Set(attempts.map(a => a.studentId)).size;
-    const averageScore = totalAttempts > 0
-      ? attempts.reduce((sum, a) => sum + (a.score || 0), 0) / totalAttempts
+    const averageScore = countedAttempts.length > 0
+      ? countedAttempts.reduce((sum, a) => sum + (a.score || 0), 0) / countedAttempts.length
       : 0;
-    const passRate = totalAttempts > 0
-      ? (attempts.filter(a => (a.score || 0) >= 70).length / totalAttempts) * 100
+    const passRate = countedAttempts.length > 0
+      ? (countedAttempts.filter(a => (a.score || 0) >= 70).length / countedAttempts.length) * 100
       : 0;
     const completionRate = students.length > 0 && educatorQuizzes.length > 0
-      ? (totalAttempts / (students.length * educatorQuizzes.length)) * 100
+      ? (countedAttempts.length / (students.length * educatorQuizzes.length)) * 100
       : 0;
     const averageTimePerQuiz = totalAttempts > 0
       ? attempts.reduce((sum, a) => sum + (a.timeSpent || 0), 0) / totalAttempts
@@ -154,8 +257,8 @@ export async function GET(req: NextRequest) {
           };
         }
 
-        const scores = quizAttemptsList.map(a => a.score || 0);
-        const avgScore = scores.reduce((sum, s) => sum + s, 0) / attemptCount;
+        const scores = countedAttempts.filter(a => a.quizId === quiz.id).map(a => a.score || 0);
+        const avgScore = scores.reduce((sum, s) => sum + s, 0) / scores.length;
         const passCount = scores.filter(s => s >= 70).length;
         const avgTime = quizAttemptsList.reduce((sum, a) => sum + (a.timeSpent || 0), 0) / attemptCount;
 
@@ -164,7 +267,7 @@ export async function GET(req: NextRequest) {
           quizTitle: quiz.title,
           attempts: attemptCount,
           averageScore: avgScore,
-          passRate: (passCount / attemptCount) * 100,
+          passRate: (passCount / scores.length) * 100,
           averageTime: avgTime,
           highestScore: Math.max(...scores),
           lowestScore: Math.min(...scores)
@@ -184,9 +287,10 @@ export async function GET(req: NextRequest) {
     const studentPerformance = students.map((student) => {
         const studentUser = studentUserMap.get(student.studentId);
         const studentAttempts = attempts.filter(a => a.studentId === student.studentId);
-        const completedCount = studentAttempts.length;
+        const studentCounted = countedAttempts.filter(a => a.studentId === student.studentId);
+        const completedCount = studentCounted.length;
         const avgScore = completedCount > 0
-          ? studentAttempts.reduce((sum, a) => sum + (a.score || 0), 0) / completedCount
+          ? studentCounted.reduce((sum, a) => sum + (a.score || 0), 0) / completedCount
           : 0;
         const totalTime = studentAttempts.reduce((sum, a) => sum + (a.timeSpent || 0), 0);
         const lastAttempt = studentAttempts.sort((a, b) => 
@@ -209,7 +313,7 @@ export async function GET(req: NextRequest) {
           studentId: student.studentId,
           studentName: studentUser?.name || "Unknown",
           studentEmail: studentUser?.email || "",
-          quizzesAttempted: completedCount,
+          quizzesAttempted: studentAttempts.length,
           quizzesCompleted: completedCount,
           averageScore: avgScore,
           totalTimeSpent: totalTime,
@@ -366,7 +470,7 @@ export async function GET(req: NextRequest) {
     const duration = Date.now() - startTime;
     logger.info(`Analytics request completed in ${duration}ms`);
     
-    return NextResponse.json(responseData);
+    return respond(responseData);
 
   } catch (error) {
     logger.error("Error fetching analytics:", error);
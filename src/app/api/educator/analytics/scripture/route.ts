@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  fetchScriptureHeatmap,
+  fetchScriptureQuestions,
+  fetchScriptureScopeOptions,
+  timeRangeStart,
+  ScriptureScopeError,
+  type ScriptureScope,
+} from "@/lib/scripture-analytics";
+
+/**
+ * Accuracy and coverage by book and chapter.
+ * ?scope=roster|group|student with groupId or studentId, and ?timeRange=week|month|all.
+ * With ?book= (and optionally &chapter=) returns the questions behind that cell instead.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const educatorId = session.user.id;
+    const searchParams = req.nextUrl.searchParams;
+    const timeRange = searchParams.get("timeRange") || "month";
+    const since = timeRangeStart(timeRange);
+
+    let scope: ScriptureScope;
+    const scopeType = searchParams.get("scope") || "roster";
+    if (scopeType === "group" && searchParams.get("groupId")) {
+      scope = { type: "group", groupId: searchParams.get("groupId")! };
+    } else if (scopeType === "student" && searchParams.get("studentId")) {
+      scope = { type: "student", studentId: searchParams.get("studentId")! };
+    } else if (scopeType === "roster") {
+      scope = { type: "roster" };
+    } else {
+      return NextResponse.json(
+        { error: "A groupId or studentId is required for this scope" },
+        { status: 400 }
+      );
+    }
+
+    const book = searchParams.get("book");
+    if (book) {
+      const chapterParam = searchParams.get("chapter");
+      const chapter = chapterParam ? Number(chapterParam) : null;
+      if (chapter !== null && (!Number.isInteger(chapter) || chapter < 1)) {
+        return NextResponse.json({ error: "Invalid chapter" }, { status: 400 });
+      }
+
+      const questions = await fetchScriptureQuestions(educatorId, scope, since, book, chapter);
+      return NextResponse.json({ book, chapter, questions });
+    }
+
+    const [heatmap, options] = await Promise.all([
+      fetchScriptureHeatmap(educatorId, scope, since),
+      fetchScriptureScopeOptions(educatorId),
+    ]);
+
+    return NextResponse.json({ timeRange, scope, ...heatmap, options });
+  } catch (error) {
+    if (error instanceof ScriptureScopeError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    logger.error("Error fetching scripture analytics:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scripture analytics" },
+      { status: 500 }
+    );
+  }
+}
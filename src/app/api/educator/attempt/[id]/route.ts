@@ -5,6 +5,9 @@ import { db } from "@/lib/db";
 import { quizAttempts, questionResponses, questions, quizzes, user } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
+import { formatAnswer, formatCorrectAnswer } from "@/lib/question-types";
+import { getAdaptiveConfig, estimateMastery, LADDER_LEVELS } from "@/lib/adaptive-quiz";
+import { fetchQuizIntegrityReports } from "@/lib/integrity";
 
 // Type definition for question order structure
 interface QuestionOrderItem {
@@ -71,11 +74,15 @@ export async function GET(
         score: quizAttempts.score,
         totalCorrect: quizAttempts.totalCorrect,
         totalQuestions: quizAttempts.totalQuestions,
+        pointsEarned: quizAttempts.pointsEarned,
+        pointsPossible: quizAttempts.pointsPossible,
         timeSpent: quizAttempts.timeSpent,
         startTime: quizAttempts.startTime,
         endTime: quizAttempts.endTime,
         status: quizAttempts.status,
         questionOrder: quizAttempts.questionOrder,
+        adaptivePath: quizAttempts.adaptivePath,
+        masteryLevel: quizAttempts.masteryLevel,
         studentName: user.name,
         studentEmail: user.email,
       })
@@ -132,8 +139,13 @@ export async function GET(
         questionText: question.questionText,
         options: question.options,
         correctAnswer: question.correctAnswer,
+        questionType: question.questionType,
         selectedAnswer: response?.selectedAnswer || null,
+        selectedAnswerText: formatAnswer(question, response?.selectedAnswer),
+        correctAnswerText: formatCorrectAnswer(question),
         isCorrect: response?.isCorrect || false,
+        pointsAwarded: response?.pointsAwarded ?? null,
+        pointsPossible: response?.pointsPossible ?? null,
         explanation: question.explanation,
         book: question.book,
         chapter: question.chapter,
@@ -340,6 +352,13 @@ export async function GET(
     };
     
     const gradeInfo = getGrade(score);
+
+    // Adaptive attempts also get a mastery estimate and the ladder path the student took
+    const adaptiveLadder = getAdaptiveConfig(quiz?.configuration).ladder;
+    const mastery = attempt.adaptivePath ? estimateMastery(attempt.adaptivePath, adaptiveLadder) : null;
+
+    // Integrity signals are only compared across finished exam attempts
+    const integrityReports = attempt.status === "completed" ? await fetchQuizIntegrityReports(quiz) : null;
     
     return NextResponse.json({
       attemptId: attempt.id,
@@ -353,12 +372,27 @@ export async function GET(
       correctAnswers: attempt.totalCorrect || 0,
       totalQuestions: attempt.totalQuestions || 0,
       wrongAnswers: (attempt.totalQuestions || 0) - (attempt.totalCorrect || 0),
+      pointsEarned: attempt.pointsEarned,
+      pointsPossible: attempt.pointsPossible,
       timeTaken: attempt.timeSpent || 0,
       startTime: attempt.startTime,
       endTime: attempt.endTime,
       status: attempt.status,
       questions: questionsWithAnalytics,
       analytics: analytics,
+      adaptive: mastery ? {
+        ladder: adaptiveLadder,
+        masteryLevel: attempt.masteryLevel || mastery.level,
+        masteryEstimate: mastery.estimate,
+        highestLevel: mastery.highestLevel,
+        path: attempt.adaptivePath?.map(step => ({
+          questionId: step.questionId,
+          level: LADDER_LEVELS[adaptiveLadder][step.level] ?? null,
+          isCorrect: step.isCorrect,
+          timeSpent: step.timeSpent,
+        })),
+      } : null,
+      integrity: integrityReports?.get(attempt.id) ?? null,
       // Educator can always see results immediately
       resultsAvailable: true
     });
@@ -31,7 +31,13 @@ export async function GET(req: NextRequest) {
       .orderBy(desc(documents.uploadDate));
 
     return NextResponse.json({
-      documents: userDocuments,
+      // The saved text of plain-text documents is only needed server-side
+      documents: userDocuments.map(doc => {
+        if (!doc.processedData || typeof doc.processedData !== "object") return doc;
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { textContent, ...processedData } = doc.processedData as Record<string, unknown>;
+        return { ...doc, processedData };
+      }),
     });
   } catch (error) {
     // [REMOVED: Console statement for performance]
@@ -5,6 +5,7 @@ import { db } from "@/lib/db";
 import { documents } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { LightRAGService } from "@/lib/lightrag-service";
+import { readDocumentText } from "@/lib/question-generator";
 
 
 export async function POST(req: NextRequest) {
@@ -58,6 +59,9 @@ export async function POST(req: NextRequest) {
     // Generate document ID
     const documentId = crypto.randomUUID();
 
+    // Plain-text documents keep their text so the built-in question generator can work without LightRAG
+    const textContent = await readDocumentText(file);
+
     // Save initial document metadata to database
     const newDocument = await db.insert(documents).values({
       id: documentId,
@@ -138,7 +142,8 @@ export async function POST(req: NextRequest) {
               uploadedAt: new Date().toISOString(),
               processedBy: "LightRAG",
               retryCount: uploadResult.retryCount,
-              validationWarnings: validation.warnings.length > 0 ? validation.warnings : undefined
+              validationWarnings: validation.warnings.length > 0 ? validation.warnings : undefined,
+              textContent
             },
             filePath: trackId,
             processingStartedAt: finalStatus === "processing" ? new Date() : undefined,
@@ -192,7 +197,8 @@ export async function POST(req: NextRequest) {
               error: uploadResult.error || "Upload failed",
               retryCount: uploadResult.retryCount,
               validationDetails: uploadResult.validation,
-              lastAttempt: new Date().toISOString()
+              lastAttempt: new Date().toISOString(),
+              textContent
             }
           })
           .where(eq(documents.id, documentId));
@@ -171,7 +171,7 @@ export async function POST(req: NextRequest) {
             const baseUrl = shortUrl || `${process.env.NEXT_PUBLIC_APP_URL || 'https://biblequiz.textr.in'}/quiz/share/${shareCode}`;
             const quizUrl = `${baseUrl}?utm_source=email&utm_medium=assignment&utm_campaign=quiz_invite`;
             
-            const emailContent = emailTemplates.existingUserInvitation(
+            const emailContent = await emailTemplates.existingUserInvitation(
               educatorData.name || "Your Educator",
               existingUser[0].name || "Student",
               quizDetails.title,
@@ -193,7 +193,7 @@ export async function POST(req: NextRequest) {
             });
           } else {
             // Just notify about being added to class
-            const emailContent = emailTemplates.studentAddedNotification(
+            const emailContent = await emailTemplates.studentAddedNotification(
               educatorData.name || "Your Educator",
               existingUser[0].name || "Student"
             );
@@ -280,7 +280,7 @@ export async function POST(req: NextRequest) {
             invitationUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://biblequiz.textr.in'}/auth/signup?invitation=${token}`;
           }
           
-          const emailContent = emailTemplates.newUserInvitation(
+          const emailContent = await emailTemplates.newUserInvitation(
             educatorData.name || "Your Educator",
             invitationUrl,
             quizDetails?.title
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  advanceLiveSession,
+  getHostView,
+  getLiveSession,
+  LiveSessionError,
+  type LiveAction,
+} from "@/lib/live-quiz";
+
+const ACTIONS: LiveAction[] = ["start", "reveal", "next", "end"];
+
+async function loadHostedSession(sessionId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || session.user.role !== 'educator') {
+    throw new LiveSessionError("Unauthorized - Educator access required", 401);
+  }
+
+  const liveSession = await getLiveSession(sessionId);
+  if (!liveSession || liveSession.educatorId !== session.user.id) {
+    throw new LiveSessionError("Live session not found", 404);
+  }
+  return liveSession;
+}
+
+/**
+ * Host view of a live session, for the projector screen
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const liveSession = await loadHostedSession(id);
+    return NextResponse.json(await getHostView(liveSession));
+  } catch (error) {
+    if (error instanceof LiveSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error fetching live session:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch live session" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Move the session on. Body: { action: "start" | "reveal" | "next" | "end" }
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const liveSession = await loadHostedSession(id);
+
+    const body = await req.json();
+    if (!ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await advanceLiveSession(liveSession, body.action);
+    return NextResponse.json(await getHostView(updated));
+  } catch (error) {
+    if (error instanceof LiveSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error updating live session:", error);
+    return NextResponse.json(
+      { error: "Failed to update live session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { isFeatureEnabled } from "@/lib/feature-flags";
+import { createLiveSession, LiveSessionError, DEFAULT_SECONDS_PER_QUESTION } from "@/lib/live-quiz";
+
+/**
+ * Open a live session for a quiz. Body: { quizId, secondsPerQuestion? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!isFeatureEnabled("LIVE_QUIZ_HOSTING")) {
+      return NextResponse.json({ error: "Live quizzes are not enabled" }, { status: 404 });
+    }
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    if (!body.quizId || typeof body.quizId !== "string") {
+      return NextResponse.json({ error: "quizId is required" }, { status: 400 });
+    }
+
+    const seconds = Number(body.secondsPerQuestion ?? DEFAULT_SECONDS_PER_QUESTION);
+    const liveSession = await createLiveSession(
+      session.user.id,
+      body.quizId,
+      Number.isFinite(seconds) ? seconds : DEFAULT_SECONDS_PER_QUESTION
+    );
+
+    return NextResponse.json({
+      sessionId: liveSession.id,
+      joinCode: liveSession.joinCode,
+      totalQuestions: liveSession.questionIds.length,
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof LiveSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error opening live session:", error);
+    return NextResponse.json(
+      { error: "Failed to open live session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { questionBank } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { isBankDifficulty, isBankBloomsLevel } from "@/lib/question-bank";
+import { buildAnswerKey } from "@/lib/question-types";
+import { normalizeBookAndChapter } from "@/lib/scripture-reference";
+
+
+async function getEducatorBankItem(itemId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || session.user.role !== 'educator') {
+    return { error: NextResponse.json({ error: "Unauthorized - Educator access required" }, { status: 401 }) };
+  }
+
+  const [item] = await db
+    .select()
+    .from(questionBank)
+    .where(
+      and(
+        eq(questionBank.id, itemId),
+        eq(questionBank.educatorId, session.user.id)
+      )
+    );
+
+  if (!item) {
+    return { error: NextResponse.json({ error: "Question not found" }, { status: 404 }) };
+  }
+
+  return { item };
+}
+
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { item, error } = await getEducatorBankItem(id);
+    if (error) return error;
+
+    return NextResponse.json({ question: item });
+  } catch (error) {
+    logger.error("Error fetching question bank item:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch question" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { item, error } = await getEducatorBankItem(id);
+    if (error) return error;
+
+    const body = await req.json();
+    const updates: Partial<typeof questionBank.$inferInsert> = {};
+
+    if (typeof body.questionText === "string" && body.questionText.trim()) {
+      updates.questionText = body.questionText.trim();
+    }
+    if ("explanation" in body) updates.explanation = body.explanation;
+    if ("topic" in body) updates.topic = body.topic;
+    if ("book" in body || "chapter" in body) {
+      const scripture = normalizeBookAndChapter(
+        "book" in body ? body.book : item.book,
+        "chapter" in body ? body.chapter : item.chapter
+      );
+      updates.book = scripture.book;
+      updates.chapter = scripture.chapter;
+    }
+    if ("difficulty" in body) updates.difficulty = isBankDifficulty(body.difficulty) ? body.difficulty : null;
+    if ("bloomsLevel" in body) updates.bloomsLevel = isBankBloomsLevel(body.bloomsLevel) ? body.bloomsLevel : null;
+    if (Array.isArray(body.tags)) {
+      updates.tags = body.tags.filter((t: unknown) => typeof t === "string");
+    }
+    if (typeof body.isArchived === "boolean") {
+      updates.isArchived = body.isArchived;
+    }
+
+    // Re-validate the whole answer key whenever any part of it changes
+    if (["questionType", "options", "correctAnswer", "answerData"].some(key => key in body)) {
+      const answerKey = buildAnswerKey({
+        questionType: body.questionType ?? item.questionType,
+        options: body.options ?? item.options,
+        correctAnswer: body.correctAnswer ?? item.correctAnswer,
+        answerData: body.answerData ?? item.answerData,
+      });
+      if (!answerKey.valid) {
+        return NextResponse.json(
+          { error: answerKey.error },
+          { status: 400 }
+        );
+      }
+      updates.questionType = answerKey.questionType;
+      updates.options = answerKey.options;
+      updates.correctAnswer = answerKey.correctAnswer;
+      updates.answerData = answerKey.answerData;
+    }
+
+    const [updated] = await db
+      .update(questionBank)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(questionBank.id, item.id))
+      .returning();
+
+    return NextResponse.json({ success: true, question: updated });
+  } catch (error) {
+    logger.error("Error updating question bank item:", error);
+    return NextResponse.json(
+      { error: "Failed to update question" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { item, error } = await getEducatorBankItem(id);
+    if (error) return error;
+
+    // Quiz questions keep their own copy; their bank link is nulled by the FK
+    await db.delete(questionBank).where(eq(questionBank.id, item.id));
+
+    return NextResponse.json({
+      success: true,
+      message: "Question removed from your question bank"
+    });
+  } catch (error) {
+    logger.error("Error deleting question bank item:", error);
+    return NextResponse.json(
+      { error: "Failed to delete question" },
+      { status: 500 }
+    );
+  }
+}
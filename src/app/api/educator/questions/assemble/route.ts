@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and, ne, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { quizzes, questions } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { checkEducatorPermission, checkEducatorLimits, getPermissionMessage } from "@/lib/permissions";
+import { addBankItemsToQuiz } from "@/lib/question-bank";
+import { logger } from "@/lib/logger";
+
+
+/**
+ * Pull question bank items into a quiz.
+ * With a quizId the items are appended to that draft quiz,
+ * otherwise a new draft quiz is created from the selected items.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get session
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    // Require authenticated educator
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const educatorId = session.user.id;
+    const body = await req.json();
+    const {
+      quizId: existingQuizId,
+      questionIds,
+      title,
+      description = null,
+      duration = 30,
+      shuffleQuestions = false,
+      startTime,
+      timezone = "Asia/Kolkata",
+      useDeferredScheduling = true,
+    } = body;
+
+    if (!Array.isArray(questionIds) || questionIds.length === 0) {
+      return NextResponse.json(
+        { error: "Select at least one question from your question bank" },
+        { status: 400 }
+      );
+    }
+
+    // Append to an existing draft quiz
+    if (existingQuizId) {
+      const canEdit = await checkEducatorPermission(educatorId, 'canEditQuiz');
+      if (!canEdit) {
+        return NextResponse.json(
+          { error: getPermissionMessage('canEditQuiz') },
+          { status: 403 }
+        );
+      }
+
+      const [quiz] = await db
+        .select()
+        .from(quizzes)
+        .where(
+          and(
+            eq(quizzes.id, existingQuizId),
+            eq(quizzes.educatorId, educatorId)
+          )
+        );
+
+      if (!quiz) {
+        return NextResponse.json(
+          { error: "Quiz not found" },
+          { status: 404 }
+        );
+      }
+
+      if (quiz.status !== "draft") {
+        return NextResponse.json(
+          { error: "Questions can only be added to draft quizzes" },
+          { status: 400 }
+        );
+      }
+
+      const [{ count }] = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(questions)
+        .where(eq(questions.quizId, quiz.id));
+
+      const limitCheck = await checkEducatorLimits(educatorId, 'maxQuestionsPerQuiz', count + questionIds.length - 1);
+      if (!limitCheck.allowed) {
+        return NextResponse.json(
+          { error: getPermissionMessage('maxQuestionsPerQuiz'), limit: limitCheck.limit },
+          { status: 403 }
+        );
+      }
+
+      const result = await addBankItemsToQuiz(educatorId, quiz.id, questionIds);
+
+      return NextResponse.json({
+        success: true,
+        quizId: quiz.id,
+        added: result.added,
+        totalQuestions: result.totalQuestions,
+      });
+    }
+
+    // Assemble a brand new quiz
+    if (!title || typeof title !== "string" || !title.trim()) {
+      return NextResponse.json(
+        { error: "Quiz title is required" },
+        { status: 400 }
+      );
+    }
+
+    const canCreate = await checkEducatorPermission(educatorId, 'canPublishQuiz');
+    if (!canCreate) {
+      return NextResponse.json(
+        { error: getPermissionMessage('canPublishQuiz') },
+        { status: 403 }
+      );
+    }
+
+    // Check if educator has reached their quiz limit (excluding archived quizzes)
+    const currentQuizCount = await db.select({ count: quizzes.id })
+      .from(quizzes)
+      .where(and(
+        eq(quizzes.educatorId, educatorId),
+        ne(quizzes.status, "archived")
+      ));
+
+    const quizLimitCheck = await checkEducatorLimits(educatorId, 'maxQuizzes', currentQuizCount.length);
+    if (!quizLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: getPermissionMessage('maxQuizzes'),
+          currentCount: currentQuizCount.length,
+          limit: quizLimitCheck.limit
+        },
+        { status: 403 }
+      );
+    }
+
+    const questionLimitCheck = await checkEducatorLimits(educatorId, 'maxQuestionsPerQuiz', questionIds.length - 1);
+    if (!questionLimitCheck.allowed) {
+      return NextResponse.json(
+        { error: getPermissionMessage('maxQuestionsPerQuiz'), limit: questionLimitCheck.limit },
+        { status: 403 }
+      );
+    }
+
+    let actualStartTime: Date | null = null;
+    if (!useDeferredScheduling) {
+      const startTimeDate = new Date(startTime);
+      if (!startTime || isNaN(startTimeDate.getTime())) {
+        return NextResponse.json(
+          { error: "Invalid start time provided" },
+          { status: 400 }
+        );
+      }
+
+      // Ensure startTime is in the future (with 5 minute buffer)
+      const minStartTime = new Date(Date.now() + 5 * 60 * 1000);
+      if (startTimeDate < minStartTime) {
+        return NextResponse.json(
+          { error: "Quiz start time must be at least 5 minutes in the future" },
+          { status: 400 }
+        );
+      }
+      actualStartTime = startTimeDate;
+    }
+
+    const quizId = crypto.randomUUID();
+    const now = new Date();
+
+    await db.insert(quizzes).values({
+      id: quizId,
+      educatorId,
+      title: title.trim(),
+      description,
+      documentIds: [],
+      configuration: {
+        source: "question_bank",
+        bankItemIds: questionIds,
+      },
+      startTime: actualStartTime,
+      timezone,
+      duration,
+      schedulingStatus: useDeferredScheduling ? 'deferred' : 'legacy',
+      timeConfiguration: useDeferredScheduling ? null : {
+        startTime: actualStartTime?.toISOString(),
+        timezone,
+        duration,
+        configuredAt: now.toISOString(),
+        configuredBy: educatorId,
+        isLegacy: true
+      },
+      scheduledBy: useDeferredScheduling ? null : educatorId,
+      scheduledAt: useDeferredScheduling ? null : now,
+      status: "draft",
+      totalQuestions: 0,
+      shuffleQuestions,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const result = await addBankItemsToQuiz(educatorId, quizId, questionIds);
+
+    if (result.added === 0) {
+      await db.delete(quizzes).where(eq(quizzes.id, quizId));
+      return NextResponse.json(
+        { error: "None of the selected questions were found in your question bank" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      quizId,
+      added: result.added,
+      totalQuestions: result.totalQuestions,
+      requiresScheduling: useDeferredScheduling,
+    });
+  } catch (error) {
+    logger.error("Error assembling quiz from question bank:", error);
+    return NextResponse.json(
+      { error: "Failed to assemble quiz from question bank" },
+      { status: 500 }
+    );
+  }
+}
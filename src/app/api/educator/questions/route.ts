@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and } from "drizzle-orm";
+import { headers } from "next/headers";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { questionBank, quizzes } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { buildAnswerKey } from "@/lib/question-types";
+import {
+  searchQuestionBank,
+  saveQuizQuestionsToBank,
+  isBankDifficulty,
+  isBankBloomsLevel,
+} from "@/lib/question-bank";
+import { normalizeBookAndChapter } from "@/lib/scripture-reference";
+
+
+export async function GET(req: NextRequest) {
+  try {
+    // Get session
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    // Require authenticated educator
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") || "20", 10) || 20));
+
+    const { items, total } = await searchQuestionBank(
+      session.user.id,
+      {
+        search: searchParams.get("search"),
+        book: searchParams.get("book"),
+        chapter: searchParams.get("chapter"),
+        topic: searchParams.get("topic"),
+        difficulty: searchParams.get("difficulty"),
+        bloomsLevel: searchParams.get("bloomsLevel"),
+        tag: searchParams.get("tag"),
+        includeArchived: searchParams.get("includeArchived") === "true",
+      },
+      page,
+      limit
+    );
+
+    return NextResponse.json({
+      questions: items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching question bank:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch question bank" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add to the question bank, either a single hand-written question
+ * or a copy of questions from one of the educator's quizzes (fromQuizId)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get session
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    // Require authenticated educator
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const educatorId = session.user.id;
+    const body = await req.json();
+
+    if (body.fromQuizId) {
+      const [quiz] = await db
+        .select({ id: quizzes.id })
+        .from(quizzes)
+        .where(
+          and(
+            eq(quizzes.id, body.fromQuizId),
+            eq(quizzes.educatorId, educatorId)
+          )
+        );
+
+      if (!quiz) {
+        return NextResponse.json(
+          { error: "Quiz not found" },
+          { status: 404 }
+        );
+      }
+
+      const result = await saveQuizQuestionsToBank(
+        educatorId,
+        quiz.id,
+        Array.isArray(body.questionIds) ? body.questionIds : undefined
+      );
+
+      return NextResponse.json({
+        success: true,
+        saved: result.saved,
+        skipped: result.skipped,
+        questions: result.items,
+        message: result.saved > 0
+          ? `${result.saved} question${result.saved !== 1 ? 's' : ''} saved to your question bank`
+          : "These questions are already in your question bank",
+      });
+    }
+
+    const {
+      questionText,
+      options,
+      correctAnswer,
+      questionType,
+      answerData,
+      explanation = null,
+      difficulty = null,
+      bloomsLevel = null,
+      topic = null,
+      book = null,
+      chapter = null,
+      tags = [],
+    } = body;
+
+    if (!questionText || typeof questionText !== "string" || !questionText.trim()) {
+      return NextResponse.json(
+        { error: "Question text is required" },
+        { status: 400 }
+      );
+    }
+
+    const answerKey = buildAnswerKey({ questionType, options, correctAnswer, answerData });
+    if (!answerKey.valid) {
+      return NextResponse.json(
+        { error: answerKey.error },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const [item] = await db.insert(questionBank).values({
+      id: crypto.randomUUID(),
+      educatorId,
+      questionText: questionText.trim(),
+      questionType: answerKey.questionType,
+      options: answerKey.options,
+      correctAnswer: answerKey.correctAnswer,
+      answerData: answerKey.answerData,
+      explanation,
+      difficulty: isBankDifficulty(difficulty) ? difficulty : null,
+      bloomsLevel: isBankBloomsLevel(bloomsLevel) ? bloomsLevel : null,
+      topic,
+      ...normalizeBookAndChapter(book, chapter),
+      tags: Array.isArray(tags) ? tags.filter((t: unknown) => typeof t === "string") : [],
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+
+    return NextResponse.json({
+      success: true,
+      question: item,
+    });
+  } catch (error) {
+    logger.error("Error adding to question bank:", error);
+    return NextResponse.json(
+      { error: "Failed to add to question bank" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { headers } from "next/headers";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { documents } from "@/lib/schema";
 import { QuestionValidator, QuestionToValidate } from "@/lib/question-validator";
+import { normalizeCitations } from "@/lib/question-citations";
 import { auth } from "@/lib/auth";
 
+/**
+ * Saved text of the cited documents that belong to the educator, for checking quoted excerpts
+ */
+async function loadCitedSourceTexts(question: QuestionToValidate, educatorId: string): Promise<Record<string, string>> {
+  const documentIds = [...new Set((question.citations ?? []).flatMap(citation => citation.documentId ? [citation.documentId] : []))];
+  if (documentIds.length === 0) return {};
+
+  const docs = await db
+    .select({ id: documents.id, processedData: documents.processedData })
+    .from(documents)
+    .where(and(inArray(documents.id, documentIds), eq(documents.educatorId, educatorId)));
+
+  return Object.fromEntries(docs.flatMap(doc => {
+    const text = (doc.processedData as Record<string, unknown> | null)?.textContent;
+    return typeof text === "string" ? [[doc.id, text]] : [];
+  }));
+}
+
 
 export async function POST(req: NextRequest) {
   try {
@@ -19,7 +41,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { questions, single = false } = body;
+    const { questions, single = false, deep = false } = body;
 
     if (!questions || (!Array.isArray(questions) && !single)) {
       return NextResponse.json(
@@ -32,12 +54,18 @@ export async function POST(req: NextRequest) {
 
     if (single && !Array.isArray(questions)) {
       // Validate single question
-      const question = questions as QuestionToValidate;
+      const question = { ...questions, citations: normalizeCitations(questions.citations) } as QuestionToValidate;
       const result = await QuestionValidator.validateQuestion(question);
+
+      // Deep validation also checks the cited passages against the source documents
+      const deepValidation = deep
+        ? await QuestionValidator.performDeepValidation(question, await loadCitedSourceTexts(question, session.user.id))
+        : undefined;
       
       return NextResponse.json({
         success: true,
         validation: result,
+        deepValidation,
         suggestions: QuestionValidator.generateImprovementSuggestions(question, result)
       });
     } else {
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizzes, questions, quizAttempts } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getAdaptiveConfig, parseAdaptiveConfig } from "@/lib/adaptive-quiz";
+
+
+async function getEducatorQuiz(quizId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || session.user.role !== 'educator') {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      )
+    };
+  }
+
+  const [quiz] = await db
+    .select()
+    .from(quizzes)
+    .where(eq(quizzes.id, quizId));
+
+  if (!quiz || quiz.educatorId !== session.user.id) {
+    return {
+      error: NextResponse.json(
+        { error: "Quiz not found" },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { quiz };
+}
+
+async function countPoolQuestions(quizId: string) {
+  const [{ count }] = await db
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(questions)
+    .where(eq(questions.quizId, quizId));
+  return count;
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    return NextResponse.json({
+      adaptive: getAdaptiveConfig(quiz.configuration),
+      poolSize: await countPoolQuestions(quizId),
+    });
+  } catch (error) {
+    logger.error("Error fetching adaptive settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch adaptive settings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    // Attempts store the path they took through the ladder, so switching modes
+    // once students have started would leave them scored two different ways
+    const [{ started }] = await db
+      .select({ started: sql<number>`COUNT(*)::int` })
+      .from(quizAttempts)
+      .where(and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.mode, "exam")
+      ));
+
+    if (started > 0) {
+      return NextResponse.json(
+        { error: "Adaptive settings can't be changed after students have started this quiz" },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseAdaptiveConfig(body.adaptive ?? body, await countPoolQuestions(quizId));
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const configuration = (quiz.configuration && typeof quiz.configuration === "object")
+      ? quiz.configuration as Record<string, unknown>
+      : {};
+
+    await db
+      .update(quizzes)
+      .set({
+        configuration: { ...configuration, adaptive: parsed.config },
+        updatedAt: new Date(),
+      })
+      .where(eq(quizzes.id, quizId));
+
+    logger.info("Updated quiz adaptive settings", { quizId, adaptive: parsed.config });
+
+    return NextResponse.json({ success: true, adaptive: parsed.config });
+  } catch (error) {
+    logger.error("Error updating adaptive settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update adaptive settings" },
+      { status: 500 }
+    );
+  }
+}
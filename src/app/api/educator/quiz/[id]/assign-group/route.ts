@@ -5,8 +5,9 @@ import { db } from "@/lib/db";
 import { quizzes, studentGroups, groupMembers, groupEnrollments, enrollments, user } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
-import { sendEmail, emailTemplates } from "@/lib/email-service";
+import { emailTemplates } from "@/lib/email-service";
 import { calculateQuizAvailability } from "@/lib/quiz-availability";
+import { notificationId, notifyStudents } from "@/lib/student-notifications";
 
 
 export async function POST(
@@ -125,7 +126,8 @@ export async function POST(
         studentId: groupMembers.studentId,
         name: user.name,
         email: user.email,
-        timezone: user.timezone
+        timezone: user.timezone,
+        emailLanguage: user.emailLanguage
       })
       .from(groupMembers)
       .innerJoin(user, eq(groupMembers.studentId, user.id))
@@ -172,33 +174,44 @@ export async function POST(
     const newEnrollments = members.filter(m => !existingStudentIds.has(m.studentId));
 
     // Create individual enrollments for group members
-    if (newEnrollments.length > 0) {
-      const enrollmentRecords = newEnrollments.map(member => ({
-        id: crypto.randomUUID(),
-        quizId,
-        studentId: member.studentId,
-        enrolledAt: new Date(),
-        status: "enrolled" as const,
-        groupEnrollmentId: groupEnrollment[0].id
-      }));
+    const enrollmentRecords = newEnrollments.map(member => ({
+      id: crypto.randomUUID(),
+      quizId,
+      studentId: member.studentId,
+      enrolledAt: new Date(),
+      status: "enrolled" as const,
+      groupEnrollmentId: groupEnrollment[0].id
+    }));
 
+    if (enrollmentRecords.length > 0) {
       await db.insert(enrollments).values(enrollmentRecords);
     }
 
-    // Send email notifications if enabled
+    // Notify the newly enrolled members in their inbox, and by email if enabled. Members
+    // of a draft quiz are told when it's published instead.
     let notificationsSent = 0;
-    if (sendNotifications) {
+    if (quiz[0].status === "published" && newEnrollments.length > 0) {
       const educatorData = await db
         .select({ name: user.name })
         .from(user)
         .where(eq(user.id, educatorId))
         .limit(1);
+      const educatorName = educatorData[0]?.name || 'Your Educator';
+      const enrollmentIds = new Map(enrollmentRecords.map(record => [record.studentId, record.id]));
 
-      for (const member of newEnrollments) {
-        try {
-          const emailContent = emailTemplates.quizEnrollmentNotification(
+      const { emailed } = await notifyStudents(newEnrollments.map(member => ({
+        id: notificationId("group_added", enrollmentIds.get(member.studentId)!),
+        studentId: member.studentId,
+        type: "group_added" as const,
+        title: `New quiz for ${group[0].name}: "${quiz[0].title}"`,
+        message: `${educatorName} assigned a ${quiz[0].totalQuestions}-question quiz (${quiz[0].duration} minutes) to your group.`,
+        link: `/student/quiz/${quizId}`,
+        quizId,
+        email: sendNotifications ? {
+          to: member.email,
+          render: () => emailTemplates.quizEnrollmentNotification(
             member.name,
-            educatorData[0]?.name || 'Your Educator',
+            educatorName,
             quiz[0].title,
             quiz[0].description,
             quiz[0].totalQuestions,
@@ -206,20 +219,12 @@ export async function POST(
             quiz[0].startTime ? new Date(quiz[0].startTime) : null,
             group[0].name,
             undefined, // No quiz URL for group enrollments yet
-            member.timezone // Pass student's timezone for proper time display
-          );
-          
-          await sendEmail({
-            to: member.email,
-            subject: emailContent.subject,
-            html: emailContent.html,
-            text: emailContent.text
-          });
-          notificationsSent++;
-        } catch (emailError) {
-          logger.error(`Failed to send email to ${member.email}:`, emailError);
-        }
-      }
+            member.timezone, // Pass student's timezone for proper time display
+            member.emailLanguage
+          ),
+        } : null,
+      })), { queueEmails: true });
+      notificationsSent = emailed;
     }
 
     return NextResponse.json({
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizzes } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getAttemptPolicy, parseAttemptPolicy } from "@/lib/attempt-policy";
+
+
+async function getEducatorQuiz(quizId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || session.user.role !== 'educator') {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      )
+    };
+  }
+
+  const [quiz] = await db
+    .select()
+    .from(quizzes)
+    .where(eq(quizzes.id, quizId));
+
+  if (!quiz || quiz.educatorId !== session.user.id) {
+    return {
+      error: NextResponse.json(
+        { error: "Quiz not found" },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { quiz };
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    return NextResponse.json({ attemptPolicy: getAttemptPolicy(quiz.configuration) });
+  } catch (error) {
+    logger.error("Error fetching quiz attempt policy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch attempt policy" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    // Unlike scoring, the policy can change at any time: it only decides who may
+    // start another attempt and which stored score counts
+    const body = await req.json();
+    const parsed = parseAttemptPolicy(body.attemptPolicy ?? body);
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const configuration = (quiz.configuration && typeof quiz.configuration === "object")
+      ? quiz.configuration as Record<string, unknown>
+      : {};
+
+    await db
+      .update(quizzes)
+      .set({
+        configuration: { ...configuration, attemptPolicy: parsed.policy },
+        updatedAt: new Date(),
+      })
+      .where(eq(quizzes.id, quizId));
+
+    logger.info("Updated quiz attempt policy", { quizId, attemptPolicy: parsed.policy });
+
+    return NextResponse.json({ success: true, attemptPolicy: parsed.policy });
+  } catch (error) {
+    logger.error("Error updating quiz attempt policy:", error);
+    return NextResponse.json(
+      { error: "Failed to update attempt policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,10 +4,11 @@ import * as crypto from "crypto";
 import { headers } from "next/headers";
 import { db } from "@/lib/db";
 import { enrollments, educatorStudents, user, quizzes, quizShareLinks } from "@/lib/schema";
-import { sendEmail, emailTemplates } from "@/lib/email-service";
+import { emailTemplates } from "@/lib/email-service";
 import { createShortUrl, getShortUrl } from "@/lib/link-shortener";
 import { auth } from "@/lib/auth";
 import { calculateQuizAvailability } from "@/lib/quiz-availability";
+import { notificationId, notifyStudents } from "@/lib/student-notifications";
 
 
 export async function POST(
@@ -155,23 +156,20 @@ export async function POST(
         name: user.name,
         email: user.email,
         timezone: user.timezone,
+        emailLanguage: user.emailLanguage,
       })
       .from(user)
       .where(inArray(user.id, newEnrollments));
 
-    // Send email notifications if requested
+    // Get educator details
+    const [educator] = await db
+      .select({ name: user.name })
+      .from(user)
+      .where(eq(user.id, authenticatedEducatorId));
+
+    // Email links go to the quiz's share link
+    let quizUrl: string | undefined;
     if (sendNotifications && newEnrollments.length > 0) {
-      // Get educator details
-      const session = await auth.api.getSession({
-        headers: await headers()
-      });
-      
-      const educatorId = session?.user?.id || quiz[0].educatorId;
-      const [educator] = await db
-        .select()
-        .from(user)
-        .where(eq(user.id, educatorId));
-      
       // Get or create share link for this quiz
       const shareLink = await db
         .select()
@@ -208,12 +206,23 @@ export async function POST(
           shortUrl = getShortUrl(shareLink[0].shortUrl);
         }
       }
-      
-      // Send emails to all newly enrolled students
-      const emailPromises = enrolledStudentDetails.map(async (student) => {
-        const quizUrl = shortUrl || (shareCode ? `${process.env.NEXT_PUBLIC_APP_URL}/quiz/share/${shareCode}` : undefined);
-        
-        const emailContent = emailTemplates.quizEnrollmentNotification(
+
+      quizUrl = shortUrl || `${process.env.NEXT_PUBLIC_APP_URL}/quiz/share/${shareCode}`;
+    }
+
+    // Notify the newly enrolled students in their inbox, and by email if requested
+    const enrollmentIds = new Map(enrollmentRecords.map(record => [record.studentId, record.id]));
+    const { emailed } = await notifyStudents(enrolledStudentDetails.map(student => ({
+      id: notificationId("quiz_assigned", enrollmentIds.get(student.id)!),
+      studentId: student.id,
+      type: "quiz_assigned" as const,
+      title: `New quiz: "${quiz[0].title}"`,
+      message: `${educator?.name || "Your educator"} enrolled you in a ${quiz[0].totalQuestions}-question quiz (${quiz[0].duration} minutes).`,
+      link: `/student/quiz/${quizId}`,
+      quizId,
+      email: sendNotifications ? {
+        to: student.email,
+        render: () => emailTemplates.quizEnrollmentNotification(
           student.name || "Student",
           educator?.name || "Your Educator",
           quiz[0].title,
@@ -223,22 +232,11 @@ export async function POST(
           quiz[0].startTime ? new Date(quiz[0].startTime) : null,
           undefined, // No group name for individual bulk enrollments
           quizUrl,
-          student.timezone // Pass student's timezone for proper time display
-        );
-        
-        return sendEmail({
-          to: student.email,
-          subject: emailContent.subject,
-          html: emailContent.html,
-          text: emailContent.text,
-        });
-      });
-      
-      // Send emails in parallel but don't wait for them
-      Promise.all(emailPromises).catch(error => {
-        // [REMOVED: Console statement for performance]
-      });
-    }
+          student.timezone, // Pass student's timezone for proper time display
+          student.emailLanguage
+        ),
+      } : null,
+    })), { queueEmails: true });
 
     return NextResponse.json({
       success: true,
@@ -246,7 +244,8 @@ export async function POST(
       enrolledCount: newEnrollments.length,
       alreadyEnrolledCount: alreadyEnrolled.size,
       enrolledStudents: enrolledStudentDetails,
-      notificationsSent: sendNotifications
+      notificationsSent: sendNotifications,
+      emailsQueued: emailed
     });
 
   } catch (error) {
@@ -6,6 +6,8 @@ import { db } from "@/lib/db";
 import { enrollments, user, quizzes, educatorStudents } from "@/lib/schema";
 import { calculateQuizAvailability } from "@/lib/quiz-availability";
 import { auth } from "@/lib/auth";
+import { emailTemplates } from "@/lib/email-service";
+import { notificationId, notifyStudents } from "@/lib/student-notifications";
 
 
 export async function POST(
@@ -15,7 +17,7 @@ export async function POST(
   try {
     const params = await context.params;
     const quizId = params.id;
-    const { studentEmail } = await req.json();
+    const { studentEmail, sendNotifications = false } = await req.json();
 
     // Get session and verify educator
     const session = await auth.api.getSession({
@@ -152,6 +154,34 @@ export async function POST(
       status: "enrolled"
     });
 
+    // Tell the student; by email too if the educator asked for it
+    const link = `/student/quiz/${quizId}`;
+    await notifyStudents([{
+      id: notificationId("quiz_assigned", enrollmentId),
+      studentId,
+      type: "quiz_assigned",
+      title: `New quiz: "${quiz[0].title}"`,
+      message: `${session.user.name} enrolled you in a ${quiz[0].totalQuestions}-question quiz (${quiz[0].duration} minutes).`,
+      link,
+      quizId,
+      email: sendNotifications ? {
+        to: student[0].email,
+        render: () => emailTemplates.quizEnrollmentNotification(
+          student[0].name,
+          session.user.name,
+          quiz[0].title,
+          quiz[0].description,
+          quiz[0].totalQuestions,
+          quiz[0].duration,
+          quiz[0].startTime ? new Date(quiz[0].startTime) : null,
+          undefined,
+          `${process.env.NEXT_PUBLIC_APP_URL}${link}`,
+          student[0].timezone,
+          student[0].emailLanguage
+        ),
+      } : null,
+    }]);
+
     return NextResponse.json({
       success: true,
       message: `${student[0].name} has been enrolled in the quiz successfully`,
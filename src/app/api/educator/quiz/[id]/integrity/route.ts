@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizzes } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getIntegrityThresholds, parseIntegrityThresholds } from "@/lib/integrity";
+
+
+async function getEducatorQuiz(quizId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || session.user.role !== 'educator') {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      )
+    };
+  }
+
+  const [quiz] = await db
+    .select()
+    .from(quizzes)
+    .where(eq(quizzes.id, quizId));
+
+  if (!quiz || quiz.educatorId !== session.user.id) {
+    return {
+      error: NextResponse.json(
+        { error: "Quiz not found" },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { quiz };
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    return NextResponse.json({ integrity: getIntegrityThresholds(quiz.configuration) });
+  } catch (error) {
+    logger.error("Error fetching quiz integrity thresholds:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch integrity thresholds" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    // Thresholds only change how reports are read, so they can change at any time
+    const body = await req.json();
+    const parsed = parseIntegrityThresholds(body.integrity ?? body);
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const configuration = (quiz.configuration && typeof quiz.configuration === "object")
+      ? quiz.configuration as Record<string, unknown>
+      : {};
+
+    await db
+      .update(quizzes)
+      .set({
+        configuration: { ...configuration, integrity: parsed.thresholds },
+        updatedAt: new Date(),
+      })
+      .where(eq(quizzes.id, quizId));
+
+    logger.info("Updated quiz integrity thresholds", { quizId, integrity: parsed.thresholds });
+
+    return NextResponse.json({ success: true, integrity: parsed.thresholds });
+  } catch (error) {
+    logger.error("Error updating quiz integrity thresholds:", error);
+    return NextResponse.json(
+      { error: "Failed to update integrity thresholds" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  extendAttemptTime,
+  forceSubmitAttempt,
+  getProctoredQuiz,
+  getProctoringSummary,
+  ProctoringError,
+} from "@/lib/proctoring";
+
+async function loadMonitoredQuiz(quizId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || session.user.role !== 'educator') {
+    throw new ProctoringError("Unauthorized - Educator access required", 401);
+  }
+
+  const quiz = await getProctoredQuiz(quizId, session.user.id);
+  return { quiz, educatorId: session.user.id };
+}
+
+/**
+ * Live state of every enrolled student's attempt
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { quiz } = await loadMonitoredQuiz(id);
+    return NextResponse.json(await getProctoringSummary(quiz));
+  } catch (error) {
+    if (error instanceof ProctoringError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error fetching quiz monitor:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quiz monitor" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Intervene in one student's attempt.
+ * Body: { action: "extend", studentId, minutes } or { action: "force_submit", studentId }
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { quiz, educatorId } = await loadMonitoredQuiz(id);
+
+    const body = await req.json();
+    if (typeof body.studentId !== "string" || !body.studentId) {
+      return NextResponse.json({ error: "studentId is required" }, { status: 400 });
+    }
+
+    if (body.action === "extend") {
+      await extendAttemptTime(quiz, body.studentId, Number(body.minutes));
+    } else if (body.action === "force_submit") {
+      await forceSubmitAttempt(quiz, body.studentId, educatorId);
+    } else {
+      return NextResponse.json(
+        { error: "action must be one of: extend, force_submit" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await getProctoringSummary(quiz));
+  } catch (error) {
+    if (error instanceof ProctoringError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error updating quiz attempt from monitor:", error);
+    return NextResponse.json(
+      { error: "Failed to update quiz attempt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and, asc, ne } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizzes, questions, enrollments, user } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getAdaptiveConfig } from "@/lib/adaptive-quiz";
+import { getDownloadFileName } from "@/lib/data-export";
+import {
+  renderPaperQuiz,
+  isPaperDocument,
+  getVersionCopies,
+  getStudentCopies,
+  PAPER_DOCUMENT_LABELS,
+  MAX_PAPER_VERSIONS,
+  type PaperCopy,
+} from "@/lib/paper-quiz";
+
+
+/**
+ * Printable PDF of a quiz for classes without devices.
+ *
+ * ?document=quiz|answer-sheet|answer-key
+ * ?copies=master (default) | versions (&versions=2-10) | students (one per enrolled student)
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const searchParams = req.nextUrl.searchParams;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const [quiz] = await db
+      .select()
+      .from(quizzes)
+      .where(eq(quizzes.id, quizId));
+
+    if (!quiz || quiz.educatorId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Quiz not found" },
+        { status: 404 }
+      );
+    }
+
+    const document = searchParams.get("document") || "quiz";
+    if (!isPaperDocument(document)) {
+      return NextResponse.json(
+        { error: "document must be quiz, answer-sheet or answer-key" },
+        { status: 400 }
+      );
+    }
+
+    // Each adaptive attempt draws its own questions, so there is no fixed paper
+    if (getAdaptiveConfig(quiz.configuration).enabled) {
+      return NextResponse.json(
+        { error: "Adaptive quizzes can't be printed. Turn off adaptive mode to print this quiz." },
+        { status: 400 }
+      );
+    }
+
+    const quizQuestions = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.quizId, quizId))
+      .orderBy(asc(questions.orderIndex));
+
+    if (quizQuestions.length === 0) {
+      return NextResponse.json(
+        { error: "This quiz has no questions to print" },
+        { status: 400 }
+      );
+    }
+
+    let copies: PaperCopy[] = [{ label: "Master", seed: null }];
+    const copiesMode = searchParams.get("copies") || "master";
+
+    if (copiesMode === "versions") {
+      const count = parseInt(searchParams.get("versions") || "2", 10);
+      if (!Number.isInteger(count) || count < 2 || count > MAX_PAPER_VERSIONS) {
+        return NextResponse.json(
+          { error: `versions must be between 2 and ${MAX_PAPER_VERSIONS}` },
+          { status: 400 }
+        );
+      }
+      copies = getVersionCopies(quizId, count);
+    } else if (copiesMode === "students") {
+      const enrolled = await db
+        .select({ id: user.id, name: user.name })
+        .from(enrollments)
+        .innerJoin(user, eq(enrollments.studentId, user.id))
+        .where(and(
+          eq(enrollments.quizId, quizId),
+          ne(enrollments.status, "abandoned")
+        ))
+        .orderBy(asc(user.name));
+
+      // Reassignments create extra enrollments for the same student
+      const students = [...new Map(enrolled.map(s => [s.id, { id: s.id, name: s.name || "Student" }])).values()];
+      if (students.length === 0) {
+        return NextResponse.json(
+          { error: "No students are enrolled in this quiz yet" },
+          { status: 400 }
+        );
+      }
+      copies = getStudentCopies(quizId, students);
+    } else if (copiesMode !== "master") {
+      return NextResponse.json(
+        { error: "copies must be master, versions or students" },
+        { status: 400 }
+      );
+    }
+
+    const pdf = await renderPaperQuiz(quiz, quizQuestions, copies, document);
+    const fileName = getDownloadFileName(`${quiz.title} ${PAPER_DOCUMENT_LABELS[document]}`, "pdf");
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+
+  } catch (error) {
+    logger.error("Error generating printable quiz:", error);
+    return NextResponse.json(
+      { error: "Failed to generate printable quiz" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,12 @@ import { eq, and } from "drizzle-orm";
 import { headers } from "next/headers";
 import * as crypto from "crypto";
 import { db } from "@/lib/db";
-import { quizzes, quizShareLinks } from "@/lib/schema";
+import { quizzes, quizShareLinks, enrollments, groupEnrollments, studentGroups, user } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { createShortUrl } from "@/lib/link-shortener";
 import { logger } from "@/lib/logger";
+import { emailTemplates } from "@/lib/email-service";
+import { notificationId, notifyStudents } from "@/lib/student-notifications";
 
 
 export async function POST(
@@ -141,6 +143,59 @@ export async function POST(
         : null;
     }
 
+    // Students assigned while the quiz was a draft hear about it now. Group members are
+    // emailed if the educator asked for that when assigning the group.
+    const waitingStudents = await db
+      .select({
+        enrollmentId: enrollments.id,
+        studentId: enrollments.studentId,
+        name: user.name,
+        email: user.email,
+        timezone: user.timezone,
+        emailLanguage: user.emailLanguage,
+        groupName: studentGroups.name,
+        sendNotifications: groupEnrollments.sendNotifications,
+      })
+      .from(enrollments)
+      .innerJoin(user, eq(enrollments.studentId, user.id))
+      .leftJoin(groupEnrollments, eq(enrollments.groupEnrollmentId, groupEnrollments.id))
+      .leftJoin(studentGroups, eq(groupEnrollments.groupId, studentGroups.id))
+      .where(
+        and(
+          eq(enrollments.quizId, quizId),
+          eq(enrollments.status, "enrolled")
+        )
+      );
+
+    const quizUrl = shortUrl || `${process.env.NEXT_PUBLIC_APP_URL}/quiz/share/${shareCode}`;
+    await notifyStudents(waitingStudents.map(student => ({
+      id: notificationId(student.groupName ? "group_added" : "quiz_assigned", student.enrollmentId),
+      studentId: student.studentId,
+      type: student.groupName ? "group_added" as const : "quiz_assigned" as const,
+      title: student.groupName
+        ? `New quiz for ${student.groupName}: "${quiz.title}"`
+        : `New quiz: "${quiz.title}"`,
+      message: `${session.user.name} published a ${quiz.totalQuestions}-question quiz (${quiz.duration} minutes) for you.`,
+      link: `/student/quiz/${quizId}`,
+      quizId,
+      email: student.sendNotifications ? {
+        to: student.email,
+        render: () => emailTemplates.quizEnrollmentNotification(
+          student.name,
+          session.user.name,
+          quiz.title,
+          quiz.description,
+          quiz.totalQuestions,
+          quiz.duration,
+          quiz.startTime ? new Date(quiz.startTime) : null,
+          student.groupName ?? undefined,
+          quizUrl,
+          student.timezone,
+          student.emailLanguage
+        ),
+      } : null,
+    })), { queueEmails: true });
+
     return NextResponse.json({ 
       success: true,
       quiz: updatedQuiz,
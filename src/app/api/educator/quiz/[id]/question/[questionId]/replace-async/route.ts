@@ -5,6 +5,8 @@ import { headers } from "next/headers";
 import { db } from "@/lib/db";
 import { quizzes, questions, documents } from "@/lib/schema";
 import { jobStore } from "@/lib/quiz-generation-jobs";
+import { dispatchGenerationJob } from "@/lib/quiz-generation-worker";
+import { generateCallbackSecret, callbackSigningInfo } from "@/lib/generation-callback-auth";
 import { auth } from "@/lib/auth";
 import { debugLogger } from "@/lib/debug-logger";
 
@@ -104,10 +106,14 @@ export async function PUT(
     
     // Prepare webhook payload with callback URL
     const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/educator/quiz/webhook-callback-replace`;
+    // Callbacks must be signed with this job's secret or they're rejected
+    const callbackSecret = generateCallbackSecret();
     
     const webhookPayload = {
       jobId,
       callbackUrl,
+      callbackSecret,
+      callbackSigning: callbackSigningInfo(),
       quizId,
       questionId, // Include questionId for the callback to know which question to update
       documentIds: quizData.documentIds,
@@ -116,6 +122,7 @@ export async function PUT(
       topics: (config.topics as string[]) || [],
       books: customOptions.book ? [customOptions.book] : ((config.books as string[]) || []),
       chapters: customOptions.chapter ? [customOptions.chapter] : ((config.chapters as string[]) || []),
+      references: customOptions.book ? [] : ((config.references as string[]) || []),
       difficulty: customOptions.difficulty || config.difficulty || "intermediate",
       bloomsLevel: (config.bloomsLevels as string[]) || ["knowledge", "comprehension"],
       timeLimit: quizData.duration,
@@ -124,139 +131,53 @@ export async function PUT(
       isReplacement: true // Flag to indicate this is a replacement request
     };
 
-    // Create job in store BEFORE calling webhook (reusing the same job store)
-    const job = jobStore.create(jobId, quizId, {
-      ...webhookPayload,
-      questionIdToReplace: questionId,
+    // Persist the job BEFORE calling the webhook so the callback can always find it
+    await jobStore.create({
+      jobId,
+      type: 'replace',
+      quizId,
+      questionId,
       educatorId: session.user.id,  // Important for WebSocket routing
-      questionId: questionId  // For the job store
+      webhookPayload,
+      callbackSecret
     });
-    // [REMOVED: Console statement for performance]
-    
+
     debugLogger.info("Replacement job created", {
       jobId,
       quizId,
       questionId,
-      callbackUrl,
-      jobExists: !!jobStore.get(jobId)
+      callbackUrl
     });
 
-    // Check if webhook is configured
-    if (process.env.QUIZ_GENERATION_WEBHOOK_URL) {
-      // [REMOVED: Console statement for performance]
-      // [REMOVED: Console statement for performance]
-      // [REMOVED: Console statement for performance]
-      // [REMOVED: Console statement for performance]);
-      
-      try {
-        // Call webhook with short timeout - expecting immediate response
-        const webhookResponse = await fetch(process.env.QUIZ_GENERATION_WEBHOOK_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(webhookPayload),
-          signal: AbortSignal.timeout(10000), // 10 second timeout for immediate response
-        });
-
-        // [REMOVED: Console statement for performance]
-
-        if (!webhookResponse.ok) {
-          const errorText = await webhookResponse.text();
-          // [REMOVED: Console statement for performance]
-          
-          // Update job as failed
-          jobStore.update(jobId, {
-            status: 'failed',
-            error: `Webhook failed: ${webhookResponse.status} - ${errorText}`,
-            message: 'Failed to start question replacement'
-          });
-
-          return NextResponse.json({
-            success: false,
-            error: "Failed to start question replacement",
-            jobId
-          }, { status: 500 });
-        }
-
-        // Check the webhook response
-        let webhookData;
-        try {
-          webhookData = await webhookResponse.json();
-          // [REMOVED: Console statement for performance]
-        } catch (e) {
-          // If response is not JSON, treat as acknowledgment
-          // [REMOVED: Console statement for performance]`);
-          webhookData = {};
-        }
-        
-        // Check if n8n sent confirmation response (as per workflow)
-        if (webhookData.status === 'processing') {
-          // [REMOVED: Console statement for performance]
-          // This is the expected n8n response - continue with async flow
-        } else if (webhookData.success && webhookData.questionId) {
-          // n8n completed the replacement immediately (shouldn't happen with current workflow)
-          // [REMOVED: Console statement for performance]
-          
-          // Mark job as completed
-          jobStore.update(jobId, {
-            status: 'completed',
-            progress: 100,
-            message: 'Question replaced successfully'
-          });
-          
-          // Return the success response directly
-          return NextResponse.json({
-            success: true,
-            jobId,
-            questionId: webhookData.questionId,
-            message: webhookData.message || "Question replaced successfully"
-          });
-        }
-        
-        // Update job status based on webhook response
-        jobStore.update(jobId, {
-          status: 'processing',
-          progress: 10,
-          message: 'Creating new biblical study question...'
-        });
-
-        // [REMOVED: Console statement for performance]
-        
-        // Log the expected callback for debugging
-        // [REMOVED: Console statement for performance]
-        // [REMOVED: Console statement for performance]
-      } catch (fetchError) {
-        // [REMOVED: Console statement for performance]
-        
-        // Update job as failed
-        jobStore.update(jobId, {
-          status: 'failed',
-          error: 'Failed to reach question generation service',
-          message: 'Could not connect to question generation service'
-        });
-
-        return NextResponse.json({
-          success: false,
-          error: "Failed to reach question generation service",
-          jobId
-        }, { status: 500 });
-      }
-    } else {
-      // No webhook configured - use fallback
-      jobStore.update(jobId, {
-        status: 'failed',
-        error: 'No webhook configured',
-        message: 'Question generation webhook not configured'
-      });
+    // Transient webhook failures leave the job pending; the generation-jobs worker retries it
+    const { job, response: webhookData } = await dispatchGenerationJob(jobId);
 
+    if (job?.status === 'failed') {
       return NextResponse.json({
         success: false,
-        error: "Question generation webhook not configured",
+        error: job.message,
+        details: job.error,
         jobId
       }, { status: 500 });
     }
 
+    if (webhookData?.success && webhookData.questionId) {
+      // n8n completed the replacement immediately (shouldn't happen with current workflow)
+      await jobStore.update(jobId, {
+        status: 'completed',
+        progress: 100,
+        message: 'Question replaced successfully'
+      });
+
+      // Return the success response directly
+      return NextResponse.json({
+        success: true,
+        jobId,
+        questionId: webhookData.questionId,
+        message: webhookData.message || "Question replaced successfully"
+      });
+    }
+
     // Return immediately with job ID for polling
     return NextResponse.json({
       success: true,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { eq, and } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { quizzes, questions } from "@/lib/schema";
+import { bookAndChapterFromReference } from "@/lib/scripture-reference";
+import { discardQuestionTranslations } from "@/lib/quiz-translations";
 
 // Note: crypto import not needed for this endpoint as we're updating existing questions
 
@@ -142,26 +144,12 @@ export async function PUT(
       mappedBloomsLevel = newQuestionData.bloomsLevel;
     }
 
-    // Parse biblical reference more accurately - prioritize custom options
-    let parsedBook = newQuestionData.book || customOptions.book || (config.books as string[])?.[0];
-    let parsedChapter = newQuestionData.chapter || customOptions.chapter || (config.chapters as string[])?.[0];
-    
-    if (newQuestionData.biblical_reference) {
-      // Handle formats like "Proverbs 6:6-8 (NIV)" or "1 Corinthians 13:4-7"
-      const refParts = newQuestionData.biblical_reference.trim().split(/\s+/);
-      
-      // Check if it's a book with a number prefix (e.g., "1 Corinthians", "2 Kings")
-      if (refParts[0] && /^\d+$/.test(refParts[0]) && refParts[1]) {
-        parsedBook = `${refParts[0]} ${refParts[1]}`;
-        // The chapter and verse is the next part
-        parsedChapter = refParts[2]?.replace(/\(.*\)/, '').trim() || '';
-      } else {
-        parsedBook = refParts[0];
-        // Everything after the book name until any parenthesis
-        const remainingParts = refParts.slice(1).join(' ');
-        parsedChapter = remainingParts.replace(/\(.*\)/, '').trim();
-      }
-    }
+    // Parse biblical reference, e.g. "Proverbs 6:6-8 (NIV)" - prioritize custom options
+    const { book: parsedBook, chapter: parsedChapter } = bookAndChapterFromReference(
+      newQuestionData.biblical_reference,
+      newQuestionData.book || customOptions.book || (config.books as string[])?.[0],
+      newQuestionData.chapter || customOptions.chapter || (config.chapters as string[])?.[0]
+    );
 
     // Update the question in database
     const updatedQuestion = await db
@@ -175,7 +163,7 @@ export async function PUT(
         bloomsLevel: mappedBloomsLevel as "knowledge" | "comprehension" | "application" | "analysis" | "synthesis" | "evaluation",
         topic: newQuestionData.topic || newQuestionData.question_type,
         book: parsedBook,
-        chapter: parsedChapter, // Now stores full chapter:verse reference like "6:6-8"
+        chapter: parsedChapter,
       })
       .where(eq(questions.id, questionId))
       .returning();
@@ -184,6 +172,9 @@ export async function PUT(
       return NextResponse.json({ error: "Failed to update question" }, { status: 500 });
     }
 
+    // It's a different question now, so its translations no longer apply
+    await discardQuestionTranslations(questionId);
+
     return NextResponse.json({
       success: true,
       question: updatedQuestion[0],
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { eq } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { questions } from "@/lib/schema";
+import { buildAnswerKey } from "@/lib/question-types";
+import { normalizeBookAndChapter } from "@/lib/scripture-reference";
+import { discardQuestionTranslations, translatedContentChanged } from "@/lib/quiz-translations";
 
 
 export async function PUT(
@@ -13,23 +16,56 @@ export async function PUT(
     const params = await context.params;
     const { questionId } = params;
 
+    const answerKey = buildAnswerKey(body);
+    if (!answerKey.valid) {
+      return NextResponse.json(
+        { error: answerKey.error },
+        { status: 400 }
+      );
+    }
+
+    const [existing] = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.id, questionId));
+
     // Update the question
     await db
       .update(questions)
       .set({
         questionText: body.questionText,
-        options: body.options,
-        correctAnswer: body.correctAnswer,
+        questionType: answerKey.questionType,
+        options: answerKey.options,
+        correctAnswer: answerKey.correctAnswer,
+        answerData: answerKey.answerData,
         explanation: body.explanation,
         difficulty: body.difficulty,
         bloomsLevel: body.bloomsLevel,
         topic: body.topic,
-        book: body.book,
-        chapter: body.chapter
+        ...normalizeBookAndChapter(body.book, body.chapter)
       })
       .where(eq(questions.id, questionId));
 
-    return NextResponse.json({ success: true });
+    // Translations of the old wording would be shown over the new one
+    if (existing && translatedContentChanged(existing, {
+      id: questionId,
+      questionText: body.questionText,
+      options: answerKey.options,
+      explanation: body.explanation,
+      answerData: answerKey.answerData,
+    })) {
+      await discardQuestionTranslations(questionId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      question: {
+        questionType: answerKey.questionType,
+        options: answerKey.options,
+        correctAnswer: answerKey.correctAnswer,
+        answerData: answerKey.answerData,
+      },
+    });
   } catch (error) {
     // [REMOVED: Console statement for performance]
     return NextResponse.json(
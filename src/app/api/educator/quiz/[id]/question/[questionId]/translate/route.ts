@@ -3,27 +3,53 @@ import { eq, and } from "drizzle-orm";
 import { headers } from "next/headers";
 
 import { db } from "@/lib/db";
-import { questions } from "@/lib/schema";
+import { questions, quizzes } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
 import {
-  translationService, 
-  SupportedLanguage, 
-  SUPPORTED_LANGUAGES 
-} from "@/lib/translation-service";
+  deleteQuestionTranslation,
+  getQuestionTranslations,
+  ORIGINAL_LANGUAGE,
+  translateQuestion,
+} from "@/lib/quiz-translations";
+import { findEnabledLanguage, findLanguage, getEnabledLanguages } from "@/lib/language-registry";
+
+async function getEducatorSession() {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+  if (!session?.user || (session.user.role !== 'educator' && session.user.role !== 'pending_educator')) {
+    return null;
+  }
+  return session;
+}
+
+async function findEducatorQuestion(quizId: string, questionId: string, educatorId: string) {
+  const [row] = await db
+    .select({ question: questions })
+    .from(questions)
+    .innerJoin(quizzes, eq(quizzes.id, questions.quizId))
+    .where(and(
+      eq(questions.id, questionId),
+      eq(questions.quizId, quizId),
+      eq(quizzes.educatorId, educatorId)
+    ))
+    .limit(1);
+  return row?.question ?? null;
+}
 
+/**
+ * Translate a question into one language and store it alongside the original.
+ * The question itself is left as written; translating again replaces the stored translation.
+ */
 export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string; questionId: string }> }
 ) {
   try {
-    // Get session
-    const session = await auth.api.getSession({
-      headers: await headers()
-    });
-
     // Require authenticated educator
-    if (!session?.user || (session.user.role !== 'educator' && session.user.role !== 'pending_educator')) {
+    const session = await getEducatorSession();
+    if (!session) {
       return NextResponse.json(
         { error: "Unauthorized - Educator access required" },
         { status: 401 }
@@ -35,26 +61,17 @@ export async function POST(
 
     // Parse request body
     const body = await req.json();
-    const { targetLanguage } = body as { targetLanguage: SupportedLanguage };
+    const targetLanguage = await findEnabledLanguage(body.targetLanguage);
 
     // Validate language
-    if (!targetLanguage || !SUPPORTED_LANGUAGES[targetLanguage]) {
+    if (!targetLanguage) {
       return NextResponse.json(
         { error: "Invalid or unsupported language" },
         { status: 400 }
       );
     }
 
-    // Fetch the question
-    const [question] = await db
-      .select()
-      .from(questions)
-      .where(and(
-        eq(questions.id, questionId),
-        eq(questions.quizId, quizId)
-      ))
-      .limit(1);
-
+    const question = await findEducatorQuestion(quizId, questionId, session.user.id);
     if (!question) {
       return NextResponse.json(
         { error: "Question not found" },
@@ -62,83 +79,23 @@ export async function POST(
       );
     }
 
-    // Check if question belongs to the educator
-    const quizResult = await db.query.quizzes.findFirst({
-      where: (quizzes, { eq, and }) => and(
-        eq(quizzes.id, quizId),
-        eq(quizzes.educatorId, session.user.id)
-      )
-    });
-
-    if (!quizResult) {
-      return NextResponse.json(
-        { error: "Unauthorized - You don't have access to this quiz" },
-        { status: 403 }
-      );
-    }
-
     logger.log("Translating question", {
       questionId,
-      targetLanguage,
+      targetLanguage: targetLanguage.code,
       currentText: question.questionText.substring(0, 50)
     });
 
-    // Prepare options array from JSON structure
-    const options = question.options.map(opt => opt.text);
-
-    // Call translation service
-    const translatedContent = await translationService.translateQuestion({
-      questionText: question.questionText,
-      options,
-      explanation: question.explanation,
-      targetLanguage,
-      context: {
-        book: question.book,
-        chapter: question.chapter,
-        topic: question.topic
-      }
-    });
-
-    // Update the question in the database with translated content
-    const translatedOptions = question.options.map((opt, index) => ({
-      ...opt,
-      text: translatedContent.options[index] || opt.text
-    }));
-
-    const [updatedQuestion] = await db
-      .update(questions)
-      .set({
-        questionText: translatedContent.questionText,
-        options: translatedOptions,
-        explanation: translatedContent.explanation,
-        // Store metadata about translation (if the column exists)
-        // metadata: {
-        //   ...(question.metadata as object || {}),
-        //   translatedTo: targetLanguage,
-        //   translatedAt: translatedContent.translatedAt,
-        //   originalLanguage: 'en'
-        // }
-      })
-      .where(eq(questions.id, questionId))
-      .returning();
+    const translation = await translateQuestion(question, targetLanguage);
 
     logger.log("Question translated successfully", {
       questionId,
-      language: SUPPORTED_LANGUAGES[targetLanguage].name
+      language: targetLanguage.name
     });
 
     return NextResponse.json({
       success: true,
-      message: `Question translated to ${SUPPORTED_LANGUAGES[targetLanguage].name}`,
-      question: {
-        id: updatedQuestion.id,
-        questionText: updatedQuestion.questionText,
-        options: updatedQuestion.options,
-        explanation: updatedQuestion.explanation,
-        correctAnswer: updatedQuestion.correctAnswer,
-        translatedTo: targetLanguage,
-        translatedAt: translatedContent.translatedAt
-      }
+      message: `Question translated to ${targetLanguage.name}`,
+      translation
     });
 
   } catch (error) {
@@ -161,36 +118,24 @@ export async function POST(
   }
 }
 
-// GET endpoint to check translation status/history
+/**
+ * Stored translations of a question, and the languages it can be translated into
+ */
 export async function GET(
   req: NextRequest,
   context: { params: Promise<{ id: string; questionId: string }> }
 ) {
   try {
-    // Get session
-    const session = await auth.api.getSession({
-      headers: await headers()
-    });
-
-    if (!session?.user || (session.user.role !== 'educator' && session.user.role !== 'pending_educator')) {
+    const session = await getEducatorSession();
+    if (!session) {
       return NextResponse.json(
         { error: "Unauthorized" },
         { status: 401 }
       );
     }
 
-    const params = await context.params;
-    const { questionId } = params;
-
-    // Fetch question to check if it exists
-    const [question] = await db
-      .select({
-        id: questions.id
-      })
-      .from(questions)
-      .where(eq(questions.id, questionId))
-      .limit(1);
-
+    const { id: quizId, questionId } = await context.params;
+    const question = await findEducatorQuestion(quizId, questionId, session.user.id);
     if (!question) {
       return NextResponse.json(
         { error: "Question not found" },
@@ -198,18 +143,19 @@ export async function GET(
       );
     }
 
-    // Since metadata column might not exist, we'll return basic info
-    // const metadata = question.metadata as any;
-    
+    const translations = await getQuestionTranslations(questionId);
+    const languages = await getEnabledLanguages();
+
     return NextResponse.json({
-      hasTranslation: false, // We'll track this differently in future
-      translatedTo: null,
-      translatedAt: null,
-      originalLanguage: 'en',
-      supportedLanguages: Object.entries(SUPPORTED_LANGUAGES).map(([code, lang]) => ({
-        code,
+      hasTranslation: translations.length > 0,
+      originalLanguage: ORIGINAL_LANGUAGE,
+      translations,
+      supportedLanguages: languages.map(lang => ({
+        code: lang.code,
         name: lang.name,
-        nativeName: lang.nativeName
+        nativeName: lang.nativeName,
+        direction: lang.direction,
+        translated: translations.some(t => t.language === lang.code)
       }))
     });
 
@@ -220,4 +166,56 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Remove one language's translation of a question: ?language=ml
+ */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ id: string; questionId: string }> }
+) {
+  try {
+    const session = await getEducatorSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id: quizId, questionId } = await context.params;
+    // Disabled languages included, so their leftover translations can still be removed
+    const language = await findLanguage(req.nextUrl.searchParams.get("language"));
+    if (!language || language.code === ORIGINAL_LANGUAGE) {
+      return NextResponse.json(
+        { error: "Invalid or unsupported language" },
+        { status: 400 }
+      );
+    }
+
+    const question = await findEducatorQuestion(quizId, questionId, session.user.id);
+    if (!question) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await deleteQuestionTranslation(questionId, language.code);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Translation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Error deleting translation:", error);
+    return NextResponse.json(
+      { error: "Failed to delete translation" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,10 +4,11 @@ import * as crypto from "crypto";
 import { headers } from "next/headers";
 import { db } from "@/lib/db";
 import { enrollments, user, quizzes, quizAttempts, quizShareLinks } from "@/lib/schema";
-import { sendEmail, emailTemplates } from "@/lib/email-service";
+import { emailTemplates } from "@/lib/email-service";
 import { createShortUrl, getShortUrl } from "@/lib/link-shortener";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
+import { notificationId, notifyStudents } from "@/lib/student-notifications";
 
 
 export async function POST(
@@ -152,17 +153,20 @@ export async function POST(
         id: user.id,
         name: user.name,
         email: user.email,
+        timezone: user.timezone,
+        emailLanguage: user.emailLanguage,
       })
       .from(user)
       .where(inArray(user.id, toReassign.map(e => e.studentId)));
 
-    // Send email notifications if requested
+    const [educator] = await db
+      .select({ name: user.name })
+      .from(user)
+      .where(eq(user.id, educatorId));
+
+    // Email links go to the quiz's share link
+    let quizUrl: string | undefined;
     if (sendNotifications && reassignedStudentDetails.length > 0) {
-      const [educator] = await db
-        .select({ name: user.name })
-        .from(user)
-        .where(eq(user.id, educatorId));
-      
       // Get or create share link
       const shareLink = await db
         .select()
@@ -192,12 +196,25 @@ export async function POST(
         shareCode = shareLink[0].shareCode;
         shortUrl = shareLink[0].shortUrl ? getShortUrl(shareLink[0].shortUrl) : null;
       }
-      
-      // Send reassignment emails
-      const emailPromises = reassignedStudentDetails.map(async (student) => {
-        const quizUrl = shortUrl || (shareCode ? `${process.env.NEXT_PUBLIC_APP_URL}/quiz/share/${shareCode}` : undefined);
-        
-        const emailContent = emailTemplates.quizReassignmentNotification(
+
+      quizUrl = shortUrl || `${process.env.NEXT_PUBLIC_APP_URL}/quiz/share/${shareCode}`;
+    }
+
+    // Notify the students in their inbox, and by email if requested
+    const enrollmentIds = new Map(reassignmentRecords.map(record => [record.studentId, record.id]));
+    const { emailed } = await notifyStudents(reassignedStudentDetails.map(student => ({
+      id: notificationId("quiz_reassigned", enrollmentIds.get(student.id)!),
+      studentId: student.id,
+      type: "quiz_reassigned" as const,
+      title: `"${quiz[0].title}" reopened for you`,
+      message: newDeadline
+        ? `${educator?.name || "Your educator"} gave you another attempt (${reason}). Complete it by the new deadline.`
+        : `${educator?.name || "Your educator"} gave you another attempt (${reason}).`,
+      link: `/student/quiz/${quizId}`,
+      quizId,
+      email: sendNotifications ? {
+        to: student.email,
+        render: () => emailTemplates.quizReassignmentNotification(
           student.name || "Student",
           educator?.name || "Your Educator",
           quiz[0].title,
@@ -205,21 +222,12 @@ export async function POST(
           newDeadline ? new Date(newDeadline) : undefined,
           quiz[0].totalQuestions,
           quiz[0].duration,
-          quizUrl
-        );
-        
-        return sendEmail({
-          to: student.email,
-          subject: emailContent.subject,
-          html: emailContent.html,
-          text: emailContent.text,
-        });
-      });
-      
-      Promise.all(emailPromises).catch(error => {
-        logger.error("Error sending reassignment emails", error);
-      });
-    }
+          quizUrl,
+          student.timezone,
+          student.emailLanguage
+        ),
+      } : null,
+    })), { queueEmails: true });
 
     // Return summary
     return NextResponse.json({
@@ -229,7 +237,8 @@ export async function POST(
       alreadyReassignedCount: alreadyReassigned.size,
       completedCount: completedStudents.length,
       reassignedStudents: reassignedStudentDetails,
-      notificationsSent: sendNotifications
+      notificationsSent: sendNotifications,
+      emailsQueued: emailed
     });
 
   } catch (error) {
@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { eq } from "drizzle-orm";
+import { eq, and } from "drizzle-orm";
 import { headers } from "next/headers";
 import { db } from "@/lib/db";
 import { quizAttempts, quizzes, user } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
+import { getAttemptPolicy, selectCountedAttempts, SCORE_MODE_LABELS } from "@/lib/attempt-policy";
+import { checkEducatorPermission, getPermissionMessage } from "@/lib/permissions";
+import { getExportFormat, createExportResponse } from "@/lib/data-export";
+import { fetchQuizItemAnalysis, ITEM_FLAG_LABELS } from "@/lib/item-analysis";
+import { fetchQuizIntegrityReports, summarizeIntegrity, INTEGRITY_SIGNAL_LABELS } from "@/lib/integrity";
+import { findLanguage, getLanguageRegistry } from "@/lib/language-registry";
+import { ENGLISH } from "@/lib/languages";
 
 
 export async function GET(
@@ -47,53 +54,187 @@ export async function GET(
         { status: 403 }
       );
     }
+
+    // ?format=csv|xlsx downloads the results instead
+    const exportFormat = getExportFormat(req.nextUrl.searchParams.get("format"));
+    if (exportFormat && !(await checkEducatorPermission(session.user.id, "canExportData"))) {
+      return NextResponse.json(
+        { error: getPermissionMessage("canExportData") },
+        { status: 403 }
+      );
+    }
     
+    // ?language= narrows results and item analysis to attempts taken in one language
+    const language = req.nextUrl.searchParams.get("language");
+    if (language && !(await findLanguage(language))) {
+      return NextResponse.json(
+        { error: "Invalid language" },
+        { status: 400 }
+      );
+    }
+    // Names for every language attempts may have been taken in, disabled ones included
+    const languageNames = new Map(
+      [ENGLISH, ...(await getLanguageRegistry())].map(entry => [entry.code, entry.name])
+    );
+
     // Fetch all attempts for this quiz
-    const attempts = await db
+    const allAttempts = await db
       .select({
         id: quizAttempts.id,
         studentId: quizAttempts.studentId,
         score: quizAttempts.score,
         correctAnswers: quizAttempts.totalCorrect,
         totalQuestions: quizAttempts.totalQuestions,
+        pointsEarned: quizAttempts.pointsEarned,
+        pointsPossible: quizAttempts.pointsPossible,
         timeTaken: quizAttempts.timeSpent,
         completedAt: quizAttempts.endTime,
         status: quizAttempts.status,
+        language: quizAttempts.language,
         studentName: user.name,
         studentEmail: user.email,
       })
       .from(quizAttempts)
       .leftJoin(user, eq(quizAttempts.studentId, user.id))
-      .where(eq(quizAttempts.quizId, quizId));
+      // Practice attempts are the student's own and stay out of results
+      .where(and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.mode, "exam")
+      ));
+    const attempts = language ? allAttempts.filter(a => a.language === language) : allAttempts;
+
+    // How each language the quiz was taken in performed, regardless of the filter
+    const attemptsByLanguage = new Map<string, typeof allAttempts>();
+    for (const attempt of allAttempts) {
+      if (attempt.status !== "completed") continue;
+      attemptsByLanguage.set(attempt.language, [...(attemptsByLanguage.get(attempt.language) ?? []), attempt]);
+    }
+    const languageBreakdown = Array.from(
+      attemptsByLanguage,
+      ([code, languageAttempts]) => ({
+        language: code,
+        name: languageNames.get(code) ?? code,
+        attempts: languageAttempts.length,
+        averageScore: languageAttempts.reduce((sum, a) => sum + (a.score || 0), 0) / languageAttempts.length,
+        passRate: (languageAttempts.filter(a => (a.score || 0) >= 70).length / languageAttempts.length) * 100,
+        averageTime: languageAttempts.reduce((sum, a) => sum + (a.timeTaken || 0), 0) / languageAttempts.length,
+      })
+    ).sort((a, b) => b.attempts - a.attempts);
 
     // Calculate statistics
     const completedAttempts = attempts.filter(a => a.status === "completed");
+
+    // Score statistics count one attempt per student, chosen by the quiz's score mode
+    const attemptPolicy = getAttemptPolicy(quiz.configuration);
+    const countedAttempts = selectCountedAttempts(
+      completedAttempts.map(a => ({ ...a, quizId, endTime: a.completedAt })),
+      () => attemptPolicy
+    );
     
     // Using grading system instead of passing score
     
     const statistics = {
       totalAttempts: completedAttempts.length,
-      averageScore: completedAttempts.length > 0
-        ? completedAttempts.reduce((sum, a) => sum + (a.score || 0), 0) / completedAttempts.length
+      studentsCounted: countedAttempts.length,
+      scoreMode: attemptPolicy.scoreMode,
+      averageScore: countedAttempts.length > 0
+        ? countedAttempts.reduce((sum, a) => sum + (a.score || 0), 0) / countedAttempts.length
         : 0,
-      passRate: completedAttempts.length > 0
-        ? (completedAttempts.filter(a => (a.score || 0) >= 70).length / completedAttempts.length) * 100
+      passRate: countedAttempts.length > 0
+        ? (countedAttempts.filter(a => (a.score || 0) >= 70).length / countedAttempts.length) * 100
         : 0,
       averageTime: completedAttempts.length > 0
         ? completedAttempts.reduce((sum, a) => sum + (a.timeTaken || 0), 0) / completedAttempts.length
         : 0,
-      highestScore: completedAttempts.length > 0
-        ? Math.max(...completedAttempts.map(a => a.score || 0))
+      highestScore: countedAttempts.length > 0
+        ? Math.max(...countedAttempts.map(a => a.score || 0))
         : 0,
-      lowestScore: completedAttempts.length > 0
-        ? Math.min(...completedAttempts.map(a => a.score || 0))
+      lowestScore: countedAttempts.length > 0
+        ? Math.min(...countedAttempts.map(a => a.score || 0))
         : 0,
     };
 
+    const itemAnalysis = await fetchQuizItemAnalysis(quizId, language);
+
+    const integrityReports = await fetchQuizIntegrityReports(quiz);
+    const integrityRisk = (attemptId: string) => {
+      const report = integrityReports.get(attemptId);
+      return report ? summarizeIntegrity(report) : null;
+    };
+
+    if (exportFormat) {
+      const countedIds = new Set(countedAttempts.map(a => a.id));
+      return createExportResponse([
+        {
+          name: "Attempts",
+          headers: [
+            "Student", "Email", "Status", "Score (%)", "Passed", "Correct", "Questions",
+            "Points Earned", "Points Possible", "Time (seconds)", "Completed At", "Counted",
+            "Integrity Risk", "Integrity Flags", "Language",
+          ],
+          rows: attempts.map(a => [
+            a.studentName || "Unknown Student",
+            a.studentEmail || "",
+            a.status,
+            a.score ?? 0,
+            (a.score || 0) >= 70,
+            a.correctAnswers ?? 0,
+            a.totalQuestions ?? 0,
+            a.pointsEarned,
+            a.pointsPossible,
+            a.timeTaken ?? 0,
+            a.completedAt,
+            countedIds.has(a.id),
+            integrityRisk(a.id)?.riskScore ?? null,
+            integrityRisk(a.id)?.flags.map(flag => INTEGRITY_SIGNAL_LABELS[flag]).join(", ") ?? "",
+            languageNames.get(a.language) ?? a.language,
+          ]),
+        },
+        {
+          name: "Summary",
+          headers: ["Metric", "Value"],
+          rows: [
+            ["Quiz", quiz.title],
+            ["Language", language ? languageNames.get(language) ?? language : "All"],
+            ["Score that counts", SCORE_MODE_LABELS[attemptPolicy.scoreMode]],
+            ["Completed attempts", statistics.totalAttempts],
+            ["Students counted", statistics.studentsCounted],
+            ["Average score (%)", Math.round(statistics.averageScore * 10) / 10],
+            ["Pass rate (%)", Math.round(statistics.passRate * 10) / 10],
+            ["Highest score (%)", statistics.highestScore],
+            ["Lowest score (%)", statistics.lowestScore],
+            ["Average time (seconds)", Math.round(statistics.averageTime)],
+          ],
+        },
+        {
+          name: "Item Analysis",
+          headers: [
+            "#", "Question", "Responses", "Proportion Correct", "Discrimination",
+            "Omitted", "Average Time (seconds)", "Option Picks", "Flags",
+          ],
+          rows: itemAnalysis.map((item, index) => [
+            index + 1,
+            item.questionText,
+            item.responses,
+            item.difficultyIndex === null ? null : Math.round(item.difficultyIndex * 100) / 100,
+            item.discrimination === null ? null : Math.round(item.discrimination * 100) / 100,
+            item.omitted,
+            item.averageTimeSpent === null ? null : Math.round(item.averageTimeSpent),
+            item.options.map(option => `${option.text}${option.isCorrect ? " (key)" : ""}: ${option.count}`).join("; "),
+            item.flags.map(flag => ITEM_FLAG_LABELS[flag]).join(", "),
+          ]),
+        },
+      ], exportFormat, `${quiz.title} results`);
+    }
+
     return NextResponse.json({
       quizId: quiz.id,
       quizTitle: quiz.title,
+      attemptPolicy,
       statistics,
+      language: language || null,
+      languageBreakdown,
+      itemAnalysis,
       attempts: attempts.map(a => ({
         id: a.id,
         studentId: a.studentId,
@@ -103,9 +244,13 @@ export async function GET(
         isPassed: (a.score || 0) >= 70,
         correctAnswers: a.correctAnswers || 0,
         totalQuestions: a.totalQuestions || 0,
+        pointsEarned: a.pointsEarned,
+        pointsPossible: a.pointsPossible,
         timeTaken: a.timeTaken || 0,
         completedAt: a.completedAt,
         status: a.status,
+        language: a.language,
+        integrity: integrityRisk(a.id),
       })),
     });
 
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { eq } from "drizzle-orm";
+import { eq, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { quizzes, questions } from "@/lib/schema";
+import { quizzes, questions, documents } from "@/lib/schema";
 
 
 export async function GET(
@@ -33,6 +33,14 @@ export async function GET(
       .where(eq(questions.quizId, quizId))
       .orderBy(questions.orderIndex);
 
+    // Names of the quiz's documents, so citations can show which file a passage came from
+    const sourceDocuments = quiz[0].documentIds?.length
+      ? await db
+          .select({ id: documents.id, filename: documents.filename, displayName: documents.displayName })
+          .from(documents)
+          .where(inArray(documents.id, quiz[0].documentIds))
+      : [];
+
     // Ensure scheduling fields are included with safe defaults
     // These fields should already be in quiz[0] from the database,
     // but we're being explicit for safety and clarity
@@ -43,7 +51,8 @@ export async function GET(
       timeConfiguration: quiz[0].timeConfiguration || null,
       scheduledBy: quiz[0].scheduledBy || null,
       scheduledAt: quiz[0].scheduledAt || null,
-      questions: quizQuestions
+      questions: quizQuestions,
+      sourceDocuments
     };
     
     return NextResponse.json(quizData);
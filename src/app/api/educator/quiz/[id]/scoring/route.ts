@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and, sql } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizzes, quizAttempts } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getScoringConfig, parseScoringConfig } from "@/lib/quiz-scoring";
+
+
+async function getEducatorQuiz(quizId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || session.user.role !== 'educator') {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      )
+    };
+  }
+
+  const [quiz] = await db
+    .select()
+    .from(quizzes)
+    .where(eq(quizzes.id, quizId));
+
+  if (!quiz || quiz.educatorId !== session.user.id) {
+    return {
+      error: NextResponse.json(
+        { error: "Quiz not found" },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { quiz };
+}
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    return NextResponse.json({ scoring: getScoringConfig(quiz.configuration) });
+  } catch (error) {
+    logger.error("Error fetching quiz scoring:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scoring settings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+    const { quiz, error } = await getEducatorQuiz(quizId);
+    if (error) return error;
+
+    // Rescoring is never done retroactively, so lock the rules once anyone has submitted
+    const [{ completed }] = await db
+      .select({ completed: sql<number>`COUNT(*)::int` })
+      .from(quizAttempts)
+      .where(and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.status, "completed")
+      ));
+
+    if (completed > 0) {
+      return NextResponse.json(
+        { error: "Scoring can't be changed after students have submitted this quiz" },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = parseScoringConfig(body.scoring ?? body);
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const configuration = (quiz.configuration && typeof quiz.configuration === "object")
+      ? quiz.configuration as Record<string, unknown>
+      : {};
+
+    await db
+      .update(quizzes)
+      .set({
+        configuration: { ...configuration, scoring: parsed.config },
+        updatedAt: new Date(),
+      })
+      .where(eq(quizzes.id, quizId));
+
+    logger.info("Updated quiz scoring", { quizId, scoring: parsed.config });
+
+    return NextResponse.json({ success: true, scoring: parsed.config });
+  } catch (error) {
+    logger.error("Error updating quiz scoring:", error);
+    return NextResponse.json(
+      { error: "Failed to update scoring settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizzes } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  getLanguageCoverage,
+  ORIGINAL_LANGUAGE,
+  startQuizTranslationJob,
+  TranslationError,
+} from "@/lib/quiz-translations";
+import { findEnabledLanguage } from "@/lib/language-registry";
+
+async function loadTranslatableQuiz(quizId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers()
+  });
+
+  if (!session?.user || (session.user.role !== 'educator' && session.user.role !== 'pending_educator')) {
+    throw new TranslationError("Unauthorized - Educator access required", 401);
+  }
+
+  const [quiz] = await db
+    .select()
+    .from(quizzes)
+    .where(and(eq(quizzes.id, quizId), eq(quizzes.educatorId, session.user.id)))
+    .limit(1);
+  if (!quiz) {
+    throw new TranslationError("Quiz not found", 404);
+  }
+  return { quiz, educatorId: session.user.id };
+}
+
+async function coverageResponse(quizId: string) {
+  const coverage = await getLanguageCoverage(quizId);
+  return {
+    originalLanguage: ORIGINAL_LANGUAGE,
+    languages: coverage.map(entry => ({
+      code: entry.language.code,
+      name: entry.language.name,
+      nativeName: entry.language.nativeName,
+      direction: entry.language.direction,
+      translated: entry.translated,
+      total: entry.total,
+      complete: entry.complete,
+      job: entry.job && {
+        id: entry.job.id,
+        status: entry.job.status,
+        translatedQuestions: entry.job.translatedQuestions,
+        totalQuestions: entry.job.totalQuestions,
+        failedQuestionIds: entry.job.failedQuestionIds,
+        error: entry.job.error,
+        createdAt: entry.job.createdAt,
+        completedAt: entry.job.completedAt,
+      },
+    })),
+  };
+}
+
+/**
+ * How much of the quiz is translated into each language, with the latest batch job per language
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { quiz } = await loadTranslatableQuiz(id);
+    return NextResponse.json(await coverageResponse(quiz.id));
+  } catch (error) {
+    if (error instanceof TranslationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error fetching quiz translations:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quiz translations" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Translate the whole quiz into one language in the background.
+ * Body: { language, overwrite? } - without overwrite, already translated questions are kept.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const { quiz, educatorId } = await loadTranslatableQuiz(id);
+
+    const body = await req.json();
+    const language = await findEnabledLanguage(body.language);
+    if (!language) {
+      return NextResponse.json(
+        { error: "Invalid or unsupported language" },
+        { status: 400 }
+      );
+    }
+
+    await startQuizTranslationJob(quiz, educatorId, language, body.overwrite === true);
+    return NextResponse.json(await coverageResponse(quiz.id), { status: 202 });
+  } catch (error) {
+    if (error instanceof TranslationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error starting quiz translation:", error);
+    return NextResponse.json(
+      { error: "Failed to start quiz translation" },
+      { status: 500 }
+    );
+  }
+}
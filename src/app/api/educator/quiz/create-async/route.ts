@@ -7,7 +7,10 @@ import { quizzes, documents } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { checkEducatorPermission, checkEducatorLimits, getPermissionMessage } from "@/lib/permissions";
 import { jobStore } from "@/lib/quiz-generation-jobs";
+import { dispatchGenerationJob } from "@/lib/quiz-generation-worker";
+import { generateCallbackSecret, callbackSigningInfo } from "@/lib/generation-callback-auth";
 import { debugLogger } from "@/lib/debug-logger";
+import { parseScriptureReferences, formatScriptureReference, referenceScope, normalizeBookName } from "@/lib/scripture-reference";
 
 
 export async function POST(req: NextRequest) {
@@ -66,6 +69,7 @@ export async function POST(req: NextRequest) {
       topics = [],
       books = [],
       chapters = [],
+      references = [], // e.g. "John 3:1-21; Romans 5", replaces books and chapters when given
       questionCount = 10,
       startTime = new Date().toISOString(), // This should now be UTC from frontend
       timezone = "Asia/Kolkata", // User's timezone for reference
@@ -74,6 +78,20 @@ export async function POST(req: NextRequest) {
       useDeferredScheduling = false,
     } = body;
 
+    const scripture = parseScriptureReferences(
+      typeof references === "string" || Array.isArray(references) ? references : []
+    );
+    if (scripture.errors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid scripture reference: ${scripture.errors.join("; ")}` },
+        { status: 400 }
+      );
+    }
+    const passages = scripture.references.map(reference => formatScriptureReference(reference));
+    const scope = passages.length > 0
+      ? referenceScope(scripture.references)
+      : { books: Array.isArray(books) ? books.map((book: string) => normalizeBookName(book) ?? book) : books, chapters };
+
     // Validate that startTime is a valid date
     const startTimeDate = new Date(startTime);
     if (isNaN(startTimeDate.getTime())) {
@@ -163,8 +181,9 @@ export async function POST(req: NextRequest) {
         difficulty,
         bloomsLevels,
         topics,
-        books,
-        chapters,
+        books: scope.books,
+        chapters: scope.chapters,
+        references: passages,
       },
       startTime: actualStartTime,
       timezone,
@@ -191,17 +210,22 @@ export async function POST(req: NextRequest) {
 
     // Prepare webhook payload with callback URL
     const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/educator/quiz/webhook-callback`;
+    // Callbacks must be signed with this job's secret or they're rejected
+    const callbackSecret = generateCallbackSecret();
     
     const webhookPayload = {
       jobId,  // Important: Include jobId for callback
       quizId,  // Include quizId so n8n can send it back in callback
       callbackUrl,  // Important: backend service will POST results here
+      callbackSecret,
+      callbackSigning: callbackSigningInfo(),
       documentIds,
       documentMetadata,
       questionCount,
       topics,
-      books,
-      chapters,
+      books: scope.books,
+      chapters: scope.chapters,
+      references: passages,
       difficulty,
       bloomsLevel: bloomsLevels,
       timeLimit: duration,
@@ -209,172 +233,18 @@ export async function POST(req: NextRequest) {
       quizDescription: description,
     };
 
-    // Create job in store BEFORE calling webhook
-    const job = jobStore.create(jobId, quizId, webhookPayload);
-    // [REMOVED: Console statement for performance]
+    // Persist the job BEFORE calling the webhook so the callback can always find it
+    await jobStore.create({ jobId, type: 'quiz', quizId, educatorId, webhookPayload, callbackSecret });
     debugLogger.info(`Created job ${jobId} for quiz ${quizId}`, { jobId, quizId });
 
-    // Check if webhook is configured
-    if (process.env.QUIZ_GENERATION_WEBHOOK_URL) {
-      // [REMOVED: Console statement for performance]
-      // [REMOVED: Console statement for performance]
-      // [REMOVED: Console statement for performance]
-      // [REMOVED: Console statement for performance]);
-      
-      debugLogger.info("Calling webhook", {
-        url: process.env.QUIZ_GENERATION_WEBHOOK_URL,
-        callbackUrl,
-        jobId,
-        jobExists: !!jobStore.get(jobId)
-      });
-      
-      // Call the webhook with retry logic
-      let webhookResponse: Response | null = null;
-      let retryCount = 0;
-      const maxRetries = 3;
-      
-      while (retryCount < maxRetries) {
-        try {
-          // [REMOVED: Console statement for performance]
-          
-          webhookResponse = await fetch(process.env.QUIZ_GENERATION_WEBHOOK_URL, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify(webhookPayload),
-            signal: AbortSignal.timeout(15000), // 15 second timeout per attempt
-          });
-          
-          // If we got a response (even error), break the loop
-          if (webhookResponse) {
-            break;
-          }
-        } catch (fetchError) {
-          retryCount++;
-          // [REMOVED: Console statement for performance]
-          
-          if (retryCount >= maxRetries) {
-            throw fetchError;
-          }
-          
-          // Wait before retrying (exponential backoff)
-          await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
-        }
-      }
-      
-      if (!webhookResponse) {
-        throw new Error("Failed to connect to webhook after " + maxRetries + " attempts");
-      }
-      
-      try {
-
-        // [REMOVED: Console statement for performance]
-        
-        // Read response body regardless of status to check for any error messages
-        const responseText = await webhookResponse.text();
-        // [REMOVED: Console statement for performance]
-        
-        // Try to parse response as JSON
-        let responseData: unknown = null;
-        try {
-          if (responseText) {
-            responseData = JSON.parse(responseText);
-            // [REMOVED: Console statement for performance]
-          }
-        } catch (e) {
-          // [REMOVED: Console statement for performance]
-        }
-        
-        debugLogger.info("Webhook response received", {
-          status: webhookResponse.status,
-          body: responseText,
-          parsedData: responseData,
-          jobId
-        });
-
-        if (!webhookResponse.ok) {
-          // [REMOVED: Console statement for performance]
-          
-          // Check if n8n is returning an immediate error
-          const parsedResponse = responseData as Record<string, unknown>;
-          const errorMessage = String(parsedResponse?.error || parsedResponse?.message || responseText || `Webhook failed with status ${webhookResponse.status}`);
-          
-          // Update job as failed
-          jobStore.update(jobId, {
-            status: 'failed',
-            error: errorMessage,
-            message: 'Failed to start quiz generation'
-          });
-
-          return NextResponse.json({
-            success: false,
-            error: "Failed to start quiz generation",
-            details: errorMessage,
-            jobId,
-            quizId
-          }, { status: 500 });
-        }
-        
-        // Check if the response contains an error even with 200 status
-        // (n8n might return 200 with error in body)
-        const parsedResp = responseData as Record<string, unknown>;
-        if (parsedResp?.error || parsedResp?.status === 'error') {
-          // [REMOVED: Console statement for performance]
-          
-          const errorMessage = String(parsedResp.error || parsedResp.message || "Unknown error from webhook");
-          
-          // Update job as failed
-          jobStore.update(jobId, {
-            status: 'failed',
-            error: errorMessage,
-            message: 'Quiz generation failed'
-          });
-          
-          // Don't return error to client, let polling handle it
-          // [REMOVED: Console statement for performance]
-        } else {
-          // Update job as processing only if no error
-          jobStore.update(jobId, {
-            status: 'processing',
-            progress: 10,
-            message: 'Biblical quiz generation in progress...'
-          });
-
-          // [REMOVED: Console statement for performance]
-        }
-        
-        // Log the expected callback for debugging
-        // [REMOVED: Console statement for performance]
-        // [REMOVED: Console statement for performance]
-      } catch (fetchError) {
-        // [REMOVED: Console statement for performance]
-        
-        // Update job as failed
-        jobStore.update(jobId, {
-          status: 'failed',
-          error: 'Failed to reach quiz generation service',
-          message: 'Could not connect to quiz generation service'
-        });
-
-        return NextResponse.json({
-          success: false,
-          error: "Failed to reach quiz generation service",
-          jobId,
-          quizId
-        }, { status: 500 });
-      }
-    } else {
-      // No webhook configured
-      jobStore.update(jobId, {
-        status: 'failed',
-        error: 'No webhook configured',
-        message: 'Quiz generation webhook not configured'
-      });
+    // Transient webhook failures leave the job pending; the generation-jobs worker retries it
+    const { job } = await dispatchGenerationJob(jobId);
 
+    if (job?.status === 'failed') {
       return NextResponse.json({
         success: false,
-        error: "Quiz generation webhook not configured",
+        error: job.message,
+        details: job.error,
         jobId,
         quizId
       }, { status: 500 });
@@ -385,7 +255,9 @@ export async function POST(req: NextRequest) {
       success: true,
       quizId,
       jobId,
-      message: "Quiz generation started. Please wait while questions are being generated.",
+      message: job?.status === 'pending'
+        ? "Quiz generation is queued and will start as soon as the generation service is available."
+        : "Quiz generation started. Please wait while questions are being generated.",
       pollUrl: `/api/educator/quiz/poll-status?jobId=${jobId}`,
       estimatedTime: 30 // seconds
     });
@@ -8,6 +8,13 @@ import { QuestionValidator, QuestionToValidate } from "@/lib/question-validator"
 import { auth } from "@/lib/auth";
 import { checkEducatorPermission, checkEducatorLimits, getPermissionMessage } from "@/lib/permissions";
 import { logger } from "@/lib/logger";
+import {
+  bookAndChapterFromReference,
+  parseScriptureReferences,
+  formatScriptureReference,
+  referenceScope,
+  normalizeBookName,
+} from "@/lib/scripture-reference";
 
 
 export async function POST(req: NextRequest) {
@@ -63,8 +70,9 @@ export async function POST(req: NextRequest) {
       difficulty = "medium",
       bloomsLevels = ["knowledge"],
       topics = [],
-      books = [],
-      chapters = [],
+      books: requestedBooks = [],
+      chapters: requestedChapters = [],
+      references = [], // e.g. "John 3:1-21; Romans 5", replaces books and chapters when given
       questionCount = 10,
       startTime = new Date().toISOString(), // This should now be UTC from frontend
       timezone = "Asia/Kolkata", // User's timezone for reference
@@ -72,6 +80,23 @@ export async function POST(req: NextRequest) {
       shuffleQuestions = false,
     } = body;
 
+    const scripture = parseScriptureReferences(
+      typeof references === "string" || Array.isArray(references) ? references : []
+    );
+    if (scripture.errors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid scripture reference: ${scripture.errors.join("; ")}` },
+        { status: 400 }
+      );
+    }
+    const passages = scripture.references.map(reference => formatScriptureReference(reference));
+    const { books, chapters } = passages.length > 0
+      ? referenceScope(scripture.references)
+      : {
+          books: Array.isArray(requestedBooks) ? requestedBooks.map((book: string) => normalizeBookName(book) ?? book) : requestedBooks,
+          chapters: requestedChapters,
+        };
+
     // Validate that startTime is a valid date
     const startTimeDate = new Date(startTime);
     if (isNaN(startTimeDate.getTime())) {
@@ -132,6 +157,7 @@ export async function POST(req: NextRequest) {
         topics,
         books,
         chapters,
+        references: passages,
         difficulty,
         bloomsLevel: bloomsLevels,
         timeLimit: duration,
@@ -319,6 +345,7 @@ export async function POST(req: NextRequest) {
         topics,
         books,
         chapters,
+        references: passages,
       },
       startTime: new Date(startTime),
       timezone,
@@ -402,26 +429,12 @@ export async function POST(req: NextRequest) {
           }
         }
         
-        // Parse biblical reference more accurately
-        let parsedBook = q.book || books[0];
-        let parsedChapter = q.chapter || chapters[0];
-        
-        if (q.biblical_reference) {
-          // Handle formats like "Proverbs 6:6-8 (NIV)" or "1 Corinthians 13:4-7"
-          const refParts = q.biblical_reference.trim().split(/\s+/);
-          
-          // Check if it's a book with a number prefix (e.g., "1 Corinthians", "2 Kings")
-          if (refParts[0] && /^\d+$/.test(refParts[0]) && refParts[1]) {
-            parsedBook = `${refParts[0]} ${refParts[1]}`;
-            // The chapter and verse is the next part
-            parsedChapter = refParts[2]?.replace(/\(.*\)/, '').trim() || '';
-          } else {
-            parsedBook = refParts[0];
-            // Everything after the book name until any parenthesis
-            const remainingParts = refParts.slice(1).join(' ');
-            parsedChapter = remainingParts.replace(/\(.*\)/, '').trim();
-          }
-        }
+        // Handle formats like "Proverbs 6:6-8 (NIV)" or "1 Corinthians 13:4-7"
+        const { book: parsedBook, chapter: parsedChapter } = bookAndChapterFromReference(
+          q.biblical_reference,
+          q.book || books[0],
+          q.chapter || chapters[0]
+        );
         
         await db.insert(questions).values({
           id: crypto.randomUUID(),
@@ -434,7 +447,7 @@ export async function POST(req: NextRequest) {
           bloomsLevel: mappedBloomsLevel, // Use the mapped blooms level
           topic: q.topic || q.question_type, // question_type can be used for topic
           book: parsedBook,
-          chapter: parsedChapter, // Now stores full chapter:verse reference like "6:6-8"
+          chapter: parsedChapter,
           orderIndex: q.id || i,
           createdAt: new Date(),
         });
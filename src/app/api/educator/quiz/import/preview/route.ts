@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { QuestionValidator, type QuestionToValidate, type QuestionValidationResult } from "@/lib/question-validator";
+import { parseImportUpload } from "@/lib/question-import";
+
+// Validation makes a model call per question, so keep the fan-out bounded
+const VALIDATION_BATCH_SIZE = 10;
+
+
+/**
+ * Parse an import file and validate each question without saving anything.
+ * Body: { fileName, content, format? } where format is csv | gift | moodle_xml | qti.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = parseImportUpload(await req.json());
+    if (!parsed.format) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const toValidate: QuestionToValidate[] = parsed.rows.flatMap(({ row, question }) => question ? [{
+      id: String(row),
+      questionText: question.questionText,
+      // Fill-in-the-blank has no options; its accepted answers stand in for them
+      options: question.questionType === "fill_blank" && question.answerData && "acceptedAnswers" in question.answerData
+        ? question.answerData.acceptedAnswers.map((text, i) => ({ id: String(i), text }))
+        : question.options,
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation ?? undefined,
+      book: question.book,
+      chapter: question.chapter,
+      difficulty: question.difficulty,
+    }] : []);
+
+    const validations: Record<string, QuestionValidationResult> = {};
+    for (let i = 0; i < toValidate.length; i += VALIDATION_BATCH_SIZE) {
+      Object.assign(validations, await QuestionValidator.validateQuestions(toValidate.slice(i, i + VALIDATION_BATCH_SIZE)));
+    }
+
+    const rows = parsed.rows.map(row => {
+      const validation = validations[String(row.row)];
+      return {
+        ...row,
+        validation: validation ? {
+          isValid: validation.isValid,
+          score: validation.score,
+          issues: validation.issues.map(({ severity, message }) => ({ severity, message })),
+        } : null,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      format: parsed.format,
+      warning: parsed.error ?? null,
+      rows,
+      summary: {
+        total: rows.length,
+        importable: rows.filter(r => r.question).length,
+        withErrors: rows.filter(r => r.errors.length > 0).length,
+        flagged: rows.filter(r => r.validation && !r.validation.isValid).length,
+      },
+    });
+
+  } catch (error) {
+    logger.error("Error previewing question import:", error);
+    return NextResponse.json(
+      { error: "Failed to read the import file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and, ne } from "drizzle-orm";
+import { headers } from "next/headers";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { quizzes, questions } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { checkEducatorPermission, checkEducatorLimits, getPermissionMessage } from "@/lib/permissions";
+import { logger } from "@/lib/logger";
+import { parseImportUpload } from "@/lib/question-import";
+
+
+/**
+ * Create a draft quiz from an import file.
+ * The file is parsed again here so only rows that pass the same checks as the preview are saved.
+ * Body: { fileName, content, format?, rows?: number[], title, description?, duration?, shuffleQuestions? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'educator') {
+      return NextResponse.json(
+        { error: "Unauthorized - Educator access required" },
+        { status: 401 }
+      );
+    }
+
+    const educatorId = session.user.id;
+    const body = await req.json();
+    const {
+      fileName,
+      rows: selectedRows,
+      title,
+      description = null,
+      duration = 30,
+      shuffleQuestions = false,
+      timezone = "Asia/Kolkata",
+    } = body;
+
+    if (!title || typeof title !== "string" || !title.trim()) {
+      return NextResponse.json(
+        { error: "Quiz title is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseImportUpload(body);
+    if (!parsed.format) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    // Without a selection every row that parsed cleanly is imported
+    const selected = Array.isArray(selectedRows) ? new Set(selectedRows.filter((r): r is number => typeof r === "number")) : null;
+    const imported = parsed.rows.flatMap(r => r.question && (!selected || selected.has(r.row)) ? [r.question] : []);
+
+    if (imported.length === 0) {
+      return NextResponse.json(
+        { error: "Select at least one question without errors to import" },
+        { status: 400 }
+      );
+    }
+
+    const canCreate = await checkEducatorPermission(educatorId, 'canPublishQuiz');
+    if (!canCreate) {
+      return NextResponse.json(
+        { error: getPermissionMessage('canPublishQuiz') },
+        { status: 403 }
+      );
+    }
+
+    // Check if educator has reached their quiz limit (excluding archived quizzes)
+    const currentQuizCount = await db.select({ count: quizzes.id })
+      .from(quizzes)
+      .where(and(
+        eq(quizzes.educatorId, educatorId),
+        ne(quizzes.status, "archived")
+      ));
+
+    const quizLimitCheck = await checkEducatorLimits(educatorId, 'maxQuizzes', currentQuizCount.length);
+    if (!quizLimitCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: getPermissionMessage('maxQuizzes'),
+          currentCount: currentQuizCount.length,
+          limit: quizLimitCheck.limit
+        },
+        { status: 403 }
+      );
+    }
+
+    const questionLimitCheck = await checkEducatorLimits(educatorId, 'maxQuestionsPerQuiz', imported.length - 1);
+    if (!questionLimitCheck.allowed) {
+      return NextResponse.json(
+        { error: getPermissionMessage('maxQuestionsPerQuiz'), limit: questionLimitCheck.limit },
+        { status: 403 }
+      );
+    }
+
+    const quizId = crypto.randomUUID();
+    const now = new Date();
+
+    await db.insert(quizzes).values({
+      id: quizId,
+      educatorId,
+      title: title.trim(),
+      description,
+      documentIds: [],
+      configuration: {
+        source: "import",
+        importFormat: parsed.format,
+        fileName: typeof fileName === "string" ? fileName : null,
+      },
+      startTime: null,
+      timezone,
+      duration,
+      schedulingStatus: 'deferred',
+      status: "draft",
+      totalQuestions: imported.length,
+      shuffleQuestions,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await db.insert(questions).values(imported.map((question, index) => ({
+      id: crypto.randomUUID(),
+      quizId,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      answerData: question.answerData,
+      explanation: question.explanation,
+      difficulty: question.difficulty,
+      book: question.book,
+      chapter: question.chapter,
+      orderIndex: index,
+      createdAt: now,
+    })));
+
+    return NextResponse.json({
+      success: true,
+      quizId,
+      added: imported.length,
+      skipped: parsed.rows.length - imported.length,
+      requiresScheduling: true,
+    });
+
+  } catch (error) {
+    logger.error("Error importing questions:", error);
+    return NextResponse.json(
+      { error: "Failed to import questions" },
+      { status: 500 }
+    );
+  }
+}
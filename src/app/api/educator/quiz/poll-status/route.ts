@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { headers } from "next/headers";
 import { jobStore } from "@/lib/quiz-generation-jobs";
+import { resumeGenerationJob } from "@/lib/quiz-generation-worker";
 import { auth } from "@/lib/auth";
 import { debugLogger } from "@/lib/debug-logger";
 
@@ -32,7 +33,12 @@ export async function GET(req: NextRequest) {
     }
 
     // Get job status
-    const job = jobStore.get(jobId);
+    const storedJob = await jobStore.get(jobId);
+
+    // Pick up a job whose dispatch failed or whose callback never came, without waiting for the cron
+    const job = storedJob && (!storedJob.educatorId || storedJob.educatorId === session.user.id)
+      ? await resumeGenerationJob(storedJob)
+      : undefined;
 
     if (!job) {
       // [REMOVED: Console statement for performance]
@@ -71,8 +77,12 @@ export async function GET(req: NextRequest) {
       message: job.message,
       error: job.error,
       questionsCount: job.questionsData?.length || 0,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      nextAttemptAt: job.status === 'pending' ? job.nextAttemptAt : null,
       createdAt: job.createdAt,
-      updatedAt: job.updatedAt
+      updatedAt: job.updatedAt,
+      ...(searchParams.get('history') === 'true' && { history: await jobStore.history(jobId) })
     });
 
   } catch (error) {
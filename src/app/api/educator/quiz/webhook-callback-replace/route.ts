@@ -6,11 +6,22 @@ import { questions } from "@/lib/schema";
 import { debugLogger } from "@/lib/debug-logger";
 import { logger } from "@/lib/logger";
 import { sendJobStatusUpdate } from "@/lib/websocket-server";
+import { authenticateGenerationCallback } from "@/lib/generation-callback-auth";
+import { normalizeCitations } from "@/lib/question-citations";
+import { bookAndChapterFromReference } from "@/lib/scripture-reference";
+import { discardQuestionTranslations } from "@/lib/quiz-translations";
 
 
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
+    // Rejects unsigned, tampered, stale and replayed callbacks, and quiz creation jobs
+    const auth = await authenticateGenerationCallback(req, 'replace');
+    if (!auth.ok) {
+      logger.warn(`[REPLACE CALLBACK] Rejected callback: ${auth.error}`);
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { body, job } = auth;
     const { jobId, status, questionsData, error } = body;
     
     logger.log(`[REPLACE CALLBACK] Received callback for job: ${jobId}`);
@@ -25,37 +36,19 @@ export async function POST(req: NextRequest) {
       bodyKeys: Object.keys(body)
     });
 
-    if (!jobId) {
-      return NextResponse.json(
-        { error: "Job ID is required" },
-        { status: 400 }
-      );
-    }
-
-    // Get the job from store
-    const job = jobStore.get(jobId);
-    if (!job) {
-      logger.error(`Replacement job not found: ${jobId}`);
-      
-      // If this is an error callback and job doesn't exist, log it but don't fail
-      if (status === 'error' || error) {
-        logger.error(`Received error callback for non-existent replacement job ${jobId}: ${error}`);
-        return NextResponse.json({
-          success: false,
-          jobId,
-          message: "Error callback received for unknown replacement job",
-          error: error || "Unknown error"
-        });
-      }
-      
-      return NextResponse.json(
-        { error: "Job not found or expired" },
-        { status: 404 }
-      );
+    // A retried dispatch can produce a second callback; the question is already replaced
+    if (job.status === 'completed') {
+      logger.warn(`Ignoring callback for completed replacement job ${jobId}`);
+      return NextResponse.json({
+        success: true,
+        jobId,
+        duplicate: true,
+        message: "Job already completed",
+        questionId: job.questionId
+      });
     }
 
-    // Extract the questionId to replace from the job payload
-    const questionIdToReplace = (job.webhookPayload as { questionIdToReplace?: string }).questionIdToReplace;
+    const questionIdToReplace = job.questionId;
     if (!questionIdToReplace) {
       logger.error(`No questionId found in job payload for job: ${jobId}`);
       return NextResponse.json(
@@ -64,15 +57,6 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Safety check: Verify this is a replacement job
-    if (!jobId.startsWith('replace-')) {
-      logger.error(`Invalid job ID for replacement: ${jobId}`);
-      return NextResponse.json(
-        { error: "This endpoint is only for replacement jobs" },
-        { status: 400 }
-      );
-    }
-
     // Update job status based on callback
     if (status === 'success' && questionsData && questionsData.length > 0) {
       // Process successful generation
@@ -94,10 +78,10 @@ export async function POST(req: NextRequest) {
       };
       
       // Convert options to array format if needed
-      let optionsArray = [];
+      let optionsArray: { id: string; text: string }[] = [];
       if (newQuestionData.options) {
         if (Array.isArray(newQuestionData.options)) {
-          optionsArray = newQuestionData.options.map((opt: unknown) => {
+          optionsArray = newQuestionData.options.map((opt: unknown, index: number) => {
             if (typeof opt === 'object' && opt !== null && 'text' in opt) {
               const optObj = opt as { id?: string; text: unknown };
               return {
@@ -105,7 +89,11 @@ export async function POST(req: NextRequest) {
                 text: cleanString(optObj.text).substring(0, 500)
               };
             }
-            return opt;
+            // Plain string options get letter ids (a, b, c...)
+            return {
+              id: String.fromCharCode(97 + index),
+              text: cleanString(opt).substring(0, 500)
+            };
           });
         } else if (typeof newQuestionData.options === 'object') {
           optionsArray = Object.entries(newQuestionData.options).map(([key, value]) => ({
@@ -115,21 +103,12 @@ export async function POST(req: NextRequest) {
         }
       }
       
-      // Parse biblical reference
-      let parsedBook = newQuestionData.book || (webhookPayload.books && webhookPayload.books[0]);
-      let parsedChapter = newQuestionData.chapter || (webhookPayload.chapters && webhookPayload.chapters[0]);
-      
-      if (newQuestionData.biblical_reference) {
-        const refParts = newQuestionData.biblical_reference.trim().split(/\s+/);
-        if (refParts[0] && /^\d+$/.test(refParts[0]) && refParts[1]) {
-          parsedBook = `${refParts[0]} ${refParts[1]}`;
-          parsedChapter = refParts[2]?.replace(/\(.*\)/, '').trim() || '';
-        } else {
-          parsedBook = refParts[0];
-          const remainingParts = refParts.slice(1).join(' ');
-          parsedChapter = remainingParts.replace(/\(.*\)/, '').trim();
-        }
-      }
+      // Parse biblical reference into the canonical book name and chapter
+      const { book: parsedBook, chapter: parsedChapter } = bookAndChapterFromReference(
+        newQuestionData.biblical_reference,
+        newQuestionData.book || (webhookPayload.books && webhookPayload.books[0]),
+        newQuestionData.chapter || (webhookPayload.chapters && webhookPayload.chapters[0])
+      );
       
       // Map blooms level
       let mappedBloomsLevel = null;
@@ -193,12 +172,12 @@ export async function POST(req: NextRequest) {
           hasCorrectAnswer: !!correctAnswerValue
         });
         
-        jobStore.update(jobId, {
+        await jobStore.update(jobId, {
           status: 'failed',
           error: 'Invalid question data received',
           message: 'Missing required fields in generated question'
         });
-        sendJobStatusUpdate(jobId);
+        await sendJobStatusUpdate(jobId);
         
         return NextResponse.json({
           success: false,
@@ -209,7 +188,7 @@ export async function POST(req: NextRequest) {
       
       // Ensure difficulty is a valid enum value
       const validDifficulties = ["easy", "intermediate", "hard"];
-      const difficulty = validDifficulties.includes(newQuestionData.difficulty) 
+      const difficulty = validDifficulties.includes(newQuestionData.difficulty ?? '') 
         ? newQuestionData.difficulty 
         : (validDifficulties.includes(webhookPayload.difficulty as string) 
           ? webhookPayload.difficulty 
@@ -245,18 +224,20 @@ export async function POST(req: NextRequest) {
             topic: cleanString(newQuestionData.topic || newQuestionData.question_type).substring(0, 100),
             book: cleanString(parsedBook).substring(0, 100),
             chapter: cleanString(parsedChapter).substring(0, 100),
+            // Keep the verses of the reference as a citation when the service didn't send any
+            citations: normalizeCitations(newQuestionData.citations ?? (newQuestionData.biblical_reference ? { reference: newQuestionData.biblical_reference.replace(/\([^)]*\)/g, '') } : null)),
           })
           .where(eq(questions.id, questionIdToReplace))
           .returning();
         
         if (!updatedQuestion.length) {
           // Update job as failed
-          jobStore.update(jobId, {
+          await jobStore.update(jobId, {
             status: 'failed',
             error: 'Failed to update question in database - no rows affected',
             message: 'Database update failed'
           });
-          sendJobStatusUpdate(jobId);
+          await sendJobStatusUpdate(jobId);
           
           return NextResponse.json({
             success: false,
@@ -265,14 +246,17 @@ export async function POST(req: NextRequest) {
           }, { status: 500 });
         }
         
+        // It's a different question now, so its translations no longer apply
+        await discardQuestionTranslations(questionIdToReplace);
+        
         // Update job as completed
-        const updatedJob = jobStore.update(jobId, {
+        const updatedJob = await jobStore.update(jobId, {
           status: 'completed',
           progress: 100,
           message: 'Question replaced successfully',
           questionsData: [updatedQuestion[0]] // Store the updated question
         });
-        sendJobStatusUpdate(jobId);
+        await sendJobStatusUpdate(jobId);
         
         logger.log(`Replacement job ${jobId} completed successfully`);
         debugLogger.info("Replacement job marked as completed", {
@@ -309,12 +293,12 @@ export async function POST(req: NextRequest) {
         }
         
         // Update job as failed
-        jobStore.update(jobId, {
+        await jobStore.update(jobId, {
           status: 'failed',
           error: dbError instanceof Error ? dbError.message : 'Database update failed',
           message: 'Failed to update question in database'
         });
-        sendJobStatusUpdate(jobId);
+        await sendJobStatusUpdate(jobId);
         
         // Provide more detailed error response
         const errorDetails = dbError instanceof Error 
@@ -330,13 +314,13 @@ export async function POST(req: NextRequest) {
       }
     } else if (status === 'error' || error) {
       // Handle error case
-      jobStore.update(jobId, {
+      await jobStore.update(jobId, {
         status: 'failed',
         progress: 0,
         message: error || 'Question replacement failed',
         error: error || 'Unknown error occurred'
       });
-      sendJobStatusUpdate(jobId);
+      await sendJobStatusUpdate(jobId);
       
       logger.error(`Replacement job ${jobId} failed:`, error);
     } else {
@@ -344,12 +328,9 @@ export async function POST(req: NextRequest) {
       const progress = body.progress || 50;
       const message = body.message || 'Creating new biblical study question...';
       
-      jobStore.update(jobId, {
-        status: 'processing',
-        progress,
-        message
-      });
-      sendJobStatusUpdate(jobId);
+      // Progress updates also extend the job's lease
+      await jobStore.recordProgress(jobId, progress, message);
+      await sendJobStatusUpdate(jobId);
       
       logger.log(`Replacement job ${jobId} progress update: ${progress}%`);
     }
@@ -1,16 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import * as crypto from "crypto";
 import { jobStore } from "@/lib/quiz-generation-jobs";
-import { db } from "@/lib/db";
 import { questions } from "@/lib/schema";
 import { debugLogger } from "@/lib/debug-logger";
 import { logger } from "@/lib/logger";
 import { sendJobStatusUpdate } from "@/lib/websocket-server";
+import { authenticateGenerationCallback } from "@/lib/generation-callback-auth";
+import { normalizeCitations } from "@/lib/question-citations";
+import { bookAndChapterFromReference } from "@/lib/scripture-reference";
 
 
 export async function POST(req: NextRequest) {
   try {
-    const body = await req.json();
+    // Rejects unsigned, tampered, stale and replayed callbacks
+    const auth = await authenticateGenerationCallback(req, 'quiz');
+    if (!auth.ok) {
+      logger.warn(`[QUIZ CREATE CALLBACK] Rejected callback: ${auth.error}`);
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const { body, job } = auth;
     const { jobId, status, questionsData, error } = body;
     
     logger.log(`[QUIZ CREATE CALLBACK] Received callback for job: ${jobId}`);
@@ -24,70 +33,17 @@ export async function POST(req: NextRequest) {
       fullBody: body
     });
 
-    if (!jobId) {
-      return NextResponse.json(
-        { error: "Job ID is required" },
-        { status: 400 }
-      );
-    }
-    
-    // Safety check: Don't process replacement jobs here
-    if (jobId.startsWith('replace-')) {
-      logger.error(`[QUIZ CREATE CALLBACK] Wrong endpoint! This is a replacement job: ${jobId}`);
-      logger.error(`Should be sent to /api/educator/quiz/webhook-callback-replace`);
-      return NextResponse.json(
-        { error: "Wrong callback endpoint - this is a replacement job. Use /api/educator/quiz/webhook-callback-replace" },
-        { status: 400 }
-      );
-    }
-
-    // Get the job from store
-    let job = jobStore.get(jobId);
-    
-    // If job not found, try to recover from the callback data
-    if (!job) {
-      logger.warn(`Job not found in store: ${jobId}`);
-      
-      // Check if we have enough data to proceed anyway
-      if (body.quizId && status === 'success' && questionsData && questionsData.length > 0) {
-        logger.log(`Attempting to recover job ${jobId} with quizId ${body.quizId}`);
-        
-        // Recreate a minimal job object to continue processing
-        job = {
-          jobId,
-          quizId: body.quizId,
-          status: 'processing',
-          progress: 90,
-          message: 'Processing webhook callback',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          webhookPayload: body.webhookPayload || {}
-        };
-        
-        // Re-add to store temporarily for completion
-        jobStore.create(jobId, body.quizId, job.webhookPayload);
-        job = jobStore.get(jobId)!;
-      } else {
-        // If this is an error callback and job doesn't exist, log it but don't fail hard
-        if (status === 'error' || error) {
-          logger.error(`Received error callback for non-existent job ${jobId}: ${error}`);
-          return NextResponse.json({
-            success: false,
-            jobId,
-            message: "Error callback received - job may have expired",
-            error: error || "Job expired before callback"
-          });
-        }
-        
-        return NextResponse.json(
-          { 
-            error: "Job not found or expired. The quiz may have been created already. Please check your quizzes list.",
-            jobId,
-            recoverable: false
-          },
-          { status: 404 }
-        );
-      }
+    // A retried dispatch can produce a second callback; the questions are already saved.
+    // This is only a shortcut: completing the job below is what keeps racing callbacks apart.
+    if (job.status === 'completed') {
+      logger.warn(`Ignoring callback for completed job ${jobId}`);
+      return NextResponse.json({
+        success: true,
+        jobId,
+        quizId: job.quizId,
+        duplicate: true,
+        message: "Job already completed"
+      });
     }
 
     // Update job status based on callback
@@ -111,6 +67,7 @@ export async function POST(req: NextRequest) {
         return String(str).replace(/[\x00-\x1F\x7F]/g, "").trim();
       };
       
+      const questionRows: (typeof questions.$inferInsert)[] = [];
       const insertedQuestions = [];
       let failedQuestions = 0;
       
@@ -119,10 +76,10 @@ export async function POST(req: NextRequest) {
         
         try {
           // Convert options to array format if needed
-          let optionsArray = [];
+          let optionsArray: { id: string; text: string }[] = [];
           if (q.options) {
             if (Array.isArray(q.options)) {
-              optionsArray = q.options.map((opt: unknown) => {
+              optionsArray = q.options.map((opt: unknown, index: number) => {
                 if (typeof opt === 'object' && opt !== null && 'text' in opt) {
                   const optObj = opt as { id?: string; text: unknown };
                   return {
@@ -130,7 +87,11 @@ export async function POST(req: NextRequest) {
                     text: cleanString(optObj.text).substring(0, 500)
                   };
                 }
-                return opt;
+                // Plain string options get letter ids (a, b, c...)
+                return {
+                  id: String.fromCharCode(97 + index),
+                  text: cleanString(opt).substring(0, 500)
+                };
               });
             } else if (typeof q.options === 'object') {
               optionsArray = Object.entries(q.options).map(([key, value]) => ({
@@ -140,21 +101,12 @@ export async function POST(req: NextRequest) {
             }
           }
           
-          // Parse biblical reference
-          let parsedBook = q.book || (webhookPayload.books && webhookPayload.books[0]) || '';
-          let parsedChapter = q.chapter || (webhookPayload.chapters && webhookPayload.chapters[0]) || '';
-          
-          if (q.biblical_reference) {
-            const refParts = q.biblical_reference.trim().split(/\s+/);
-            if (refParts[0] && /^\d+$/.test(refParts[0]) && refParts[1]) {
-              parsedBook = `${refParts[0]} ${refParts[1]}`;
-              parsedChapter = refParts[2]?.replace(/\(.*\)/, '').trim() || '';
-            } else {
-              parsedBook = refParts[0];
-              const remainingParts = refParts.slice(1).join(' ');
-              parsedChapter = remainingParts.replace(/\(.*\)/, '').trim();
-            }
-          }
+          // Parse biblical reference into the canonical book name and chapter
+          const { book: parsedBook, chapter: parsedChapter } = bookAndChapterFromReference(
+            q.biblical_reference,
+            q.book || (webhookPayload.books && webhookPayload.books[0]) || '',
+            q.chapter || (webhookPayload.chapters && webhookPayload.chapters[0]) || ''
+          );
           
           // Prepare and validate data with proper sanitization
           
@@ -173,14 +125,14 @@ export async function POST(req: NextRequest) {
             continue;
           }
           
-          await db.insert(questions).values({
+          questionRows.push({
             id: crypto.randomUUID(),
             quizId,
             questionText,
             options: optionsArray,
             correctAnswer: correctAnswerValue,
             explanation: explanationText,
-            difficulty: q.difficulty || webhookPayload.difficulty || 'intermediate',
+            difficulty: (q.difficulty || webhookPayload.difficulty || 'intermediate') as "easy" | "intermediate" | "hard",
             // Map question_type to bloomsLevel if needed
             bloomsLevel: (() => {
               // If question has a valid bloomsLevel, use it
@@ -226,36 +178,38 @@ export async function POST(req: NextRequest) {
               
               // Fallback to webhook payload or default
               return webhookPayload.bloomsLevel?.[0] || 'knowledge';
-            })(),
+            })() as "knowledge" | "comprehension" | "application" | "analysis" | "synthesis" | "evaluation",
             topic: cleanString(q.topic || q.question_type).substring(0, 100),
             book: cleanString(parsedBook).substring(0, 100),
             chapter: cleanString(parsedChapter).substring(0, 100),
+            // Keep the verses of the reference as a citation when the service didn't send any
+            citations: normalizeCitations(q.citations ?? (q.biblical_reference ? { reference: q.biblical_reference.replace(/\([^)]*\)/g, '') } : null)),
             orderIndex: q.id || i,
             createdAt: new Date(),
           });
           
           insertedQuestions.push(q);
-        } catch (insertError) {
-          logger.error(`Failed to insert question ${i + 1} for job ${jobId}:`, insertError);
+        } catch (prepareError) {
+          logger.error(`Failed to prepare question ${i + 1} for job ${jobId}:`, prepareError);
           failedQuestions++;
         }
       }
       
-      // Check if any questions were successfully inserted
+      // Check if any questions are usable
       if (insertedQuestions.length === 0) {
-        jobStore.update(jobId, {
+        await jobStore.update(jobId, {
           status: 'failed',
           progress: 0,
-          message: 'Failed to insert any questions into database',
-          error: `All ${questionsData.length} questions failed to insert`
+          message: 'None of the generated questions could be saved',
+          error: `All ${questionsData.length} questions were invalid`
         });
         
         // Send WebSocket update for failure
-        sendJobStatusUpdate(jobId);
+        await sendJobStatusUpdate(jobId);
         
         return NextResponse.json({
           success: false,
-          error: "Failed to insert questions into database",
+          error: "None of the generated questions could be saved",
           jobId
         }, { status: 500 });
       }
@@ -265,15 +219,28 @@ export async function POST(req: NextRequest) {
         ? `Generated ${insertedQuestions.length} of ${questionsData.length} questions (${failedQuestions} failed)`
         : `Successfully generated ${insertedQuestions.length} questions`;
       
-      jobStore.update(jobId, {
-        status: 'completed',
-        progress: 100,
-        message: statusMessage,
-        questionsData: insertedQuestions
-      });
+      // Saved in the same transaction that completes the job, so a second callback racing
+      // this one can't add the questions again
+      const completed = await jobStore.complete(
+        jobId,
+        { message: statusMessage, questionsData: insertedQuestions },
+        async (tx) => {
+          await tx.insert(questions).values(questionRows);
+        }
+      );
+      if (!completed) {
+        logger.warn(`Ignoring callback for job ${jobId}, completed by another callback`);
+        return NextResponse.json({
+          success: true,
+          jobId,
+          quizId,
+          duplicate: true,
+          message: "Job already completed"
+        });
+      }
       
       // Send WebSocket update for completion
-      sendJobStatusUpdate(jobId);
+      await sendJobStatusUpdate(jobId);
       
       logger.log(`Job ${jobId} completed: ${statusMessage}`);
       
@@ -288,7 +255,7 @@ export async function POST(req: NextRequest) {
       });
     } else if (status === 'error' || error) {
       // Handle error case
-      jobStore.update(jobId, {
+      await jobStore.update(jobId, {
         status: 'failed',
         progress: 0,
         message: error || 'Quiz generation failed',
@@ -296,7 +263,7 @@ export async function POST(req: NextRequest) {
       });
       
       // Send WebSocket update for error
-      sendJobStatusUpdate(jobId);
+      await sendJobStatusUpdate(jobId);
       
       logger.error(`Job ${jobId} failed:`, error);
     } else {
@@ -304,14 +271,11 @@ export async function POST(req: NextRequest) {
       const progress = body.progress || 50;
       const message = body.message || 'Crafting biblical knowledge questions...';
       
-      jobStore.update(jobId, {
-        status: 'processing',
-        progress,
-        message
-      });
+      // Progress updates also extend the job's lease
+      await jobStore.recordProgress(jobId, progress, message);
       
       // Send WebSocket update for progress
-      sendJobStatusUpdate(jobId);
+      await sendJobStatusUpdate(jobId);
       
       logger.log(`Job ${jobId} progress update: ${progress}%`);
     }
@@ -4,6 +4,8 @@ import { headers } from "next/headers";
 import { db } from "@/lib/db";
 import { educatorStudents, user, enrollments, quizAttempts, quizzes, questionResponses, questions } from "@/lib/schema";
 import { auth } from "@/lib/auth";
+import { checkEducatorPermission, getPermissionMessage } from "@/lib/permissions";
+import { getExportFormat, createExportResponse, MAX_EXPORT_ROWS } from "@/lib/data-export";
 
 
 export async function GET(
@@ -29,6 +31,15 @@ export async function GET(
     
     const educatorId = session.user.id;
 
+    // ?format=csv|xlsx downloads the student's full quiz history
+    const exportFormat = getExportFormat(req.nextUrl.searchParams.get("format"));
+    if (exportFormat && !(await checkEducatorPermission(educatorId, "canExportData"))) {
+      return NextResponse.json(
+        { error: getPermissionMessage("canExportData") },
+        { status: 403 }
+      );
+    }
+
     // Fetch student details
     const [studentData] = await db
       .select({
@@ -96,11 +107,12 @@ export async function GET(
         and(
           eq(quizAttempts.studentId, studentId),
           eq(quizAttempts.status, "completed"),
+          eq(quizAttempts.mode, "exam"),
           eq(quizzes.educatorId, educatorId) // CRITICAL: Only show attempts from this educator's quizzes
         )
       )
       .orderBy(desc(quizAttempts.endTime))
-      .limit(20);
+      .limit(exportFormat ? MAX_EXPORT_ROWS : 20);
 
     // Calculate performance by topic
     const performanceByTopic: Record<string, { total: number; correct: number; percentage: number }> = {};
@@ -142,6 +154,43 @@ export async function GET(
       ? attempts.reduce((sum, a) => sum + (a.score || 0), 0) / completedQuizzes
       : 0;
 
+    if (exportFormat) {
+      return createExportResponse([
+        {
+          name: "Quiz History",
+          headers: ["Quiz", "Score (%)", "Passed", "Correct", "Questions", "Time (seconds)", "Completed At"],
+          rows: attempts.map(a => [
+            a.quizTitle,
+            a.score ?? 0,
+            (a.score || 0) >= 70,
+            a.totalCorrect ?? 0,
+            a.totalQuestions ?? 0,
+            a.timeSpent ?? 0,
+            a.endTime,
+          ]),
+        },
+        {
+          name: "Topics",
+          headers: ["Topic", "Questions", "Correct", "Accuracy (%)"],
+          rows: Object.entries(performanceByTopic).map(([topic, stats]) => [
+            topic, stats.total, stats.correct, stats.percentage,
+          ]),
+        },
+        {
+          name: "Summary",
+          headers: ["Metric", "Value"],
+          rows: [
+            ["Student", studentData.name || "Unknown Student"],
+            ["Email", studentData.email || ""],
+            ["Quizzes enrolled", new Set(studentEnrollments.map(e => e.quizId)).size],
+            ["Quizzes completed", completedQuizzes],
+            ["Average score (%)", Math.round(averageScore * 10) / 10],
+            ["Total time (seconds)", totalTimeSpent],
+          ],
+        },
+      ], exportFormat, `${studentData.name || "student"} history`);
+    }
+
     return NextResponse.json({
       studentId: studentData.studentId,
       name: studentData.name || "Unknown Student",
@@ -64,6 +64,7 @@ export async function GET(req: NextRequest) {
             and(
               eq(quizAttempts.studentId, student.studentId),
               eq(quizAttempts.status, "completed"),
+              eq(quizAttempts.mode, "exam"),
               eq(quizzes.educatorId, educatorId) // Only this educator's quizzes
             )
           );
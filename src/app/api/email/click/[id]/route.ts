@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordEmailClick, verifyTrackedLink } from "@/lib/email-queue";
+import { logger } from "@/lib/logger";
+
+/**
+ * Click-through for links in tracked emails: ?url=<destination>&sig=<signature>.
+ * Only links signed when the email was sent are followed; anything else goes to the home page.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const url = request.nextUrl.searchParams.get("url");
+  const signature = request.nextUrl.searchParams.get("sig");
+
+  if (!url || !verifyTrackedLink(id, url, signature)) {
+    logger.warn("Rejected email click-through with an invalid signature", { emailId: id });
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  try {
+    await recordEmailClick(id);
+  } catch (error) {
+    logger.error("Error recording email click:", error);
+  }
+
+  return NextResponse.redirect(url);
+}
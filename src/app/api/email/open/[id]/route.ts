@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordEmailOpen } from "@/lib/email-queue";
+import { logger } from "@/lib/logger";
+
+// 1x1 transparent GIF
+const PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+/**
+ * Open-tracking pixel embedded in tracked emails. Always returns the image, so a
+ * failure here never shows up as a broken image in the recipient's mail client.
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    await recordEmailOpen(id);
+  } catch (error) {
+    logger.error("Error recording email open:", error);
+  }
+
+  return new NextResponse(PIXEL, {
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store, no-cache, must-revalidate, private",
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { recordDeliveryFailure } from "@/lib/email-queue";
+import { validateApiKey } from "@/lib/security-utils";
+import { logger } from "@/lib/logger";
+
+const DeliveryEventSchema = z.object({
+  type: z.enum(["bounce", "complaint"]),
+  email: z.string().email(),
+  messageId: z.string().optional(), // Message-ID the provider returned when accepting the email
+  permanent: z.boolean().optional(), // false for soft bounces, which don't suppress the address
+  detail: z.string().max(1000).optional(),
+});
+
+const WebhookBodySchema = z.union([
+  DeliveryEventSchema,
+  z.object({ events: z.array(DeliveryEventSchema).min(1).max(100) }),
+]);
+
+/**
+ * Bounce and complaint notifications from the email provider, authenticated with
+ * EMAIL_WEBHOOK_SECRET as an API key. Hard bounces and complaints suppress the address.
+ * Body: one event, or { events: [...] }.
+ */
+export async function POST(request: NextRequest) {
+  if (!validateApiKey(request, process.env.EMAIL_WEBHOOK_SECRET)) {
+    logger.warn("Unauthorized email webhook call");
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const parsed = WebhookBodySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid event", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const events = "events" in parsed.data ? parsed.data.events : [parsed.data];
+    let matched = 0;
+    for (const event of events) {
+      const email = await recordDeliveryFailure(event);
+      if (email) matched++;
+    }
+
+    logger.info("Email delivery events processed", { received: events.length, matched });
+    return NextResponse.json({ success: true, received: events.length, matched });
+  } catch (error) {
+    logger.error("Error processing email webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to process email events" },
+      { status: 500 }
+    );
+  }
+}
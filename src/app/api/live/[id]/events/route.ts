@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { liveParticipants } from "@/lib/schema";
+import { getLiveSession } from "@/lib/live-quiz";
+import { sseBroadcaster } from "@/lib/websocket-server";
+
+// Streams are long-lived and held in memory, so never pre-render or cache this route
+export const dynamic = "force-dynamic";
+
+/**
+ * Server-Sent Events stream of `live_session` updates for the host or a participant
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const session = await auth.api.getSession({
+    headers: req.headers,
+  });
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await context.params;
+  const liveSession = await getLiveSession(id);
+  if (!liveSession) {
+    return NextResponse.json({ error: "Live session not found" }, { status: 404 });
+  }
+
+  if (liveSession.educatorId !== session.user.id) {
+    const [participant] = await db
+      .select({ id: liveParticipants.id })
+      .from(liveParticipants)
+      .where(and(eq(liveParticipants.sessionId, id), eq(liveParticipants.studentId, session.user.id)))
+      .limit(1);
+    if (!participant) {
+      return NextResponse.json({ error: "Join the session first" }, { status: 403 });
+    }
+  }
+
+  return new Response(sseBroadcaster.connect(session.user.id, req.signal), {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
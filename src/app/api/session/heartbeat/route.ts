@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { updateSessionActivity } from '@/lib/session-config';
 import { logger } from '@/lib/logger';
+import { recordAttemptCheckIn } from '@/lib/proctoring';
 
 
 export async function POST(request: NextRequest) {
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
     }
     
     const body = await request.json();
-    const { timestamp, path, isQuizActive } = body;
+    const { timestamp, path, isQuizActive, attemptId, currentQuestionIndex, answeredCount } = body;
     
     // Update session activity
     await updateSessionActivity(sessionId, 'heartbeat', {
@@ -42,6 +43,12 @@ export async function POST(request: NextRequest) {
       isQuizActive,
     });
     
+    // The quiz page also reports its progress for the proctoring monitor, and gets back
+    // any extra time or a forced submission
+    const attempt = typeof attemptId === 'string'
+      ? await recordAttemptCheckIn(userId, attemptId, { currentQuestionIndex, answeredCount })
+      : null;
+    
     logger.debug('Heartbeat received', {
       sessionId,
       userId,
@@ -52,6 +59,7 @@ export async function POST(request: NextRequest) {
       success: true,
       sessionId,
       timestamp: Date.now(),
+      ...(attempt ? { attempt } : {}),
     });
   } catch (error) {
     logger.error('Heartbeat error:', error);
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getLiveSession, LiveSessionError, submitLiveAnswer } from "@/lib/live-quiz";
+
+/**
+ * Answer the open question of a live session. Body: { questionId, answer }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    if (typeof body.questionId !== "string" || typeof body.answer !== "string" || !body.answer) {
+      return NextResponse.json({ error: "questionId and answer are required" }, { status: 400 });
+    }
+
+    const liveSession = await getLiveSession(id);
+    if (!liveSession) {
+      return NextResponse.json({ error: "Live session not found" }, { status: 404 });
+    }
+
+    const result = await submitLiveAnswer(liveSession, session.user.id, body.questionId, body.answer);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof LiveSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error submitting live answer:", error);
+    return NextResponse.json(
+      { error: "Failed to submit answer" },
+      { status: 500 }
+    );
+  }
+}
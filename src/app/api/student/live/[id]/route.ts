@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getLiveSession, getParticipantView, LiveSessionError } from "@/lib/live-quiz";
+
+/**
+ * A participant's view of a live session
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+    const liveSession = await getLiveSession(id);
+    if (!liveSession) {
+      return NextResponse.json({ error: "Live session not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getParticipantView(liveSession, session.user.id));
+  } catch (error) {
+    if (error instanceof LiveSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error fetching live session:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch live session" },
+      { status: 500 }
+    );
+  }
+}
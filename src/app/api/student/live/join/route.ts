@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { isFeatureEnabled } from "@/lib/feature-flags";
+import { joinLiveSession, LiveSessionError } from "@/lib/live-quiz";
+
+/**
+ * Join a live session by its code. Body: { code }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isFeatureEnabled("LIVE_QUIZ_HOSTING")) {
+      return NextResponse.json({ error: "Live quizzes are not enabled" }, { status: 404 });
+    }
+
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (!body.code || typeof body.code !== "string") {
+      return NextResponse.json({ error: "Enter the code shown on the screen" }, { status: 400 });
+    }
+
+    const { session: liveSession } = await joinLiveSession(body.code, {
+      id: session.user.id,
+      name: session.user.name,
+      email: session.user.email,
+    });
+
+    return NextResponse.json({ sessionId: liveSession.id });
+  } catch (error) {
+    if (error instanceof LiveSessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error("Error joining live session:", error);
+    return NextResponse.json(
+      { error: "Failed to join live session" },
+      { status: 500 }
+    );
+  }
+}
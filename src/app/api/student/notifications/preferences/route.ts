@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  NOTIFICATION_TYPE_INFO,
+  NotificationPreferencesSchema,
+  STUDENT_NOTIFICATION_TYPES,
+  getNotificationPreferences,
+  saveNotificationPreferences,
+} from "@/lib/student-notifications";
+
+// The notification types in the order the settings list them
+const notificationTypes = () => STUDENT_NOTIFICATION_TYPES.map(type => ({
+  type,
+  label: NOTIFICATION_TYPE_INFO[type].label,
+  description: NOTIFICATION_TYPE_INFO[type].description,
+}));
+
+/**
+ * The student's notification channels per type and whether they get the daily digest
+ */
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      preferences: await getNotificationPreferences(session.user.id),
+      types: notificationTypes(),
+    });
+  } catch (error) {
+    logger.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { channels: { [type]: { inApp, email } }, dailyDigest }
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = NotificationPreferencesSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid notification preferences", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await saveNotificationPreferences(session.user.id, parsed.data);
+
+    return NextResponse.json({ success: true, preferences });
+  } catch (error) {
+    logger.error("Error saving notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to save notification preferences" },
+      { status: 500 }
+    );
+  }
+}
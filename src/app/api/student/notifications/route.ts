@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { listNotifications, markNotificationsRead } from "@/lib/student-notifications";
+
+const MAX_LIMIT = 100;
+
+const MarkReadSchema = z.union([
+  z.object({ ids: z.array(z.string()).min(1).max(MAX_LIMIT) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+/**
+ * The student's notifications, newest first. `?unread=true` for unread only,
+ * `?limit=` (default 50).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), MAX_LIMIT);
+    const result = await listNotifications(session.user.id, {
+      unreadOnly: searchParams.get("unread") === "true",
+      limit,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Mark notifications as read. Body: { ids: string[] } or { all: true }
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = MarkReadSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Provide the ids of the notifications to mark as read, or all: true" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await markNotificationsRead(
+      session.user.id,
+      "ids" in parsed.data ? parsed.data.ids : undefined
+    );
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    logger.error("Error marking notifications as read:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -76,6 +76,10 @@ export async function POST(
       .update(quizAttempts)
       .set({
         answers: autoSaveAnswers,
+        // Progress for the proctoring monitor
+        currentQuestionIndex: Number.isInteger(currentQuestionIndex) ? currentQuestionIndex : attempt.currentQuestionIndex,
+        answeredCount: answers.filter((a: { answer?: string }) => a?.answer).length,
+        lastSeenAt: new Date(),
         updatedAt: new Date(),
       })
       .where(eq(quizAttempts.id, attemptId));
@@ -126,7 +130,8 @@ export async function GET(
         and(
           eq(quizAttempts.quizId, quizId),
           eq(quizAttempts.studentId, session.user.id),
-          eq(quizAttempts.status, "in_progress")
+          eq(quizAttempts.status, "in_progress"),
+          eq(quizAttempts.mode, "exam")
         )
       )
       .orderBy(quizAttempts.createdAt)
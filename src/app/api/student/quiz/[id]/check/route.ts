@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizAttempts, questions } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getAnswerCredit, formatAnswer, formatCorrectAnswer } from "@/lib/question-types";
+import { studentCitations } from "@/lib/question-citations";
+import { localizeQuizQuestions } from "@/lib/quiz-translations";
+
+/**
+ * Check a single answer during a practice attempt and reveal the explanation
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { attemptId, questionId, answer, timeSpent } = body;
+
+    if (!attemptId || !questionId || answer == null || answer === "") {
+      return NextResponse.json(
+        { error: "Attempt, question and answer are required" },
+        { status: 400 }
+      );
+    }
+
+    const [attempt] = await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.id, attemptId),
+          eq(quizAttempts.quizId, quizId),
+          eq(quizAttempts.studentId, session.user.id)
+        )
+      );
+
+    if (!attempt) {
+      return NextResponse.json(
+        { error: "Invalid attempt" },
+        { status: 404 }
+      );
+    }
+
+    // Answers are only revealed for practice; exam attempts wait for the results page
+    if (attempt.mode !== "practice") {
+      return NextResponse.json(
+        { error: "Answers can only be checked in practice mode" },
+        { status: 403 }
+      );
+    }
+
+    if (attempt.status !== "in_progress") {
+      return NextResponse.json(
+        { error: "Practice session already finished" },
+        { status: 400 }
+      );
+    }
+
+    const [original] = await db
+      .select()
+      .from(questions)
+      .where(
+        and(
+          eq(questions.id, questionId),
+          eq(questions.quizId, quizId)
+        )
+      );
+
+    if (!original) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    // Feedback in the language the practice session was started in
+    const [question] = await localizeQuizQuestions(quizId, attempt.language, [original]);
+
+    // The first checked answer is the one that gets scored
+    const existing = attempt.answers.find(a => a.questionId === questionId);
+    const checkedAnswer = existing ? existing.answer : String(answer);
+
+    if (!existing) {
+      await db
+        .update(quizAttempts)
+        .set({
+          answers: [...attempt.answers, { questionId, answer: checkedAnswer, timeSpent: Number(timeSpent) || 0 }],
+          updatedAt: new Date(),
+        })
+        .where(eq(quizAttempts.id, attemptId));
+    }
+
+    const credit = getAnswerCredit(question, checkedAnswer);
+
+    return NextResponse.json({
+      questionId,
+      answer: checkedAnswer,
+      answerText: formatAnswer(question, checkedAnswer),
+      isCorrect: credit === 1,
+      credit,
+      correctAnswerText: formatCorrectAnswer(question),
+      explanation: question.explanation,
+      citations: studentCitations(question.citations),
+    });
+  } catch (error) {
+    logger.error("Error checking practice answer:", error);
+    return NextResponse.json(
+      { error: "Failed to check answer" },
+      { status: 500 }
+    );
+  }
+}
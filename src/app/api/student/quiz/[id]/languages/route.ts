@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { quizAttempts, quizzes } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getAttemptMode } from "@/lib/practice-mode";
+import { availableQuizLanguages } from "@/lib/quiz-translations";
+
+/**
+ * Languages the student can start the quiz in, for the picker shown before starting.
+ * An attempt already in progress keeps its language, so the picker is skipped for it.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const { id: quizId } = await context.params;
+    const mode = getAttemptMode(request.nextUrl.searchParams.get("mode"));
+
+    const [quiz] = await db
+      .select({ id: quizzes.id })
+      .from(quizzes)
+      .where(eq(quizzes.id, quizId));
+    if (!quiz) {
+      return NextResponse.json(
+        { error: "Quiz not found" },
+        { status: 404 }
+      );
+    }
+
+    const [inProgress] = await db
+      .select({ language: quizAttempts.language })
+      .from(quizAttempts)
+      .where(and(
+        eq(quizAttempts.quizId, quizId),
+        eq(quizAttempts.studentId, session.user.id),
+        eq(quizAttempts.status, "in_progress"),
+        eq(quizAttempts.mode, mode)
+      ))
+      .limit(1);
+
+    const languages = await availableQuizLanguages(quizId);
+
+    return NextResponse.json({
+      languages: languages.map(language => ({
+        code: language.code,
+        name: language.name,
+        nativeName: language.nativeName,
+        direction: language.direction,
+        script: language.script,
+        locale: language.locale,
+      })),
+      inProgressLanguage: inProgress?.language ?? null,
+    });
+  } catch (error) {
+    logger.error("Error fetching quiz languages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quiz languages" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { quizzes, questions, quizAttempts } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getQuestionType, getPublicAnswerData, isAnswerCorrect } from "@/lib/question-types";
+import { getAdaptiveConfig, getQuestionLevel, selectNextQuestion, type AdaptiveStep } from "@/lib/adaptive-quiz";
+import { seededShuffle } from "@/lib/quiz-utils";
+import { localizeQuizQuestions } from "@/lib/quiz-translations";
+import { attemptTimeRemaining } from "@/lib/proctoring";
+
+type QuestionRow = typeof questions.$inferSelect;
+
+// Same shape and per-attempt scramble the start route uses
+function prepareQuestion(q: QuestionRow, attemptId: string) {
+  const questionType = getQuestionType(q);
+  const answerData = getPublicAnswerData(q);
+  return {
+    id: q.id,
+    questionText: q.questionText,
+    options: questionType === "ordering" ? seededShuffle(q.options, attemptId + q.id) : q.options,
+    questionType,
+    answerData: questionType === "matching" && answerData?.matches
+      ? { matches: seededShuffle(answerData.matches, attemptId + q.id) }
+      : answerData,
+    orderIndex: q.orderIndex,
+    book: q.book,
+    chapter: q.chapter,
+    topic: q.topic,
+    bloomsLevel: q.bloomsLevel,
+  };
+}
+
+/**
+ * Record the answer to the current adaptive question and serve the next one
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: quizId } = await context.params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { attemptId, questionId, answer, timeSpent } = body;
+
+    if (!attemptId || !questionId) {
+      return NextResponse.json(
+        { error: "Attempt and question are required" },
+        { status: 400 }
+      );
+    }
+
+    const [attempt] = await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.id, attemptId),
+          eq(quizAttempts.quizId, quizId),
+          eq(quizAttempts.studentId, session.user.id)
+        )
+      );
+
+    if (!attempt || !attempt.adaptivePath) {
+      return NextResponse.json(
+        { error: "Invalid adaptive attempt" },
+        { status: 404 }
+      );
+    }
+
+    if (attempt.status !== "in_progress") {
+      return NextResponse.json(
+        { error: "Attempt already completed", attemptId },
+        { status: 400 }
+      );
+    }
+
+    const [quiz] = await db
+      .select()
+      .from(quizzes)
+      .where(eq(quizzes.id, quizId));
+
+    // Same 5 minute grace the submit route allows, plus any extra time a proctor gave
+    if (attemptTimeRemaining(attempt, (quiz?.duration || 30) + 5) === 0) {
+      return NextResponse.json(
+        { error: "Quiz time expired", message: "Your quiz time has expired." },
+        { status: 410 }
+      );
+    }
+
+    // In the attempt's language, which also lets translated blanks be graded here
+    const pool = await localizeQuizQuestions(
+      quizId,
+      attempt.language,
+      await db
+        .select()
+        .from(questions)
+        .where(eq(questions.quizId, quizId))
+    );
+
+    const servedOrder = attempt.questionOrder || [];
+    const path = attempt.adaptivePath;
+    const config = getAdaptiveConfig(quiz?.configuration);
+
+    // A repeated request (e.g. a double click) gets the question already served after this one
+    if (path.some(step => step.questionId === questionId)) {
+      const index = servedOrder.findIndex(s => s.questionId === questionId);
+      const alreadyServed = pool.find(q => q.id === servedOrder[index + 1]?.questionId);
+      return NextResponse.json({
+        nextQuestion: alreadyServed ? prepareQuestion(alreadyServed, attempt.id) : null,
+        answered: path.length,
+        totalQuestions: attempt.totalQuestions,
+        done: !alreadyServed,
+      });
+    }
+
+    // Only the most recently served question can be answered
+    const current = pool.find(q => q.id === questionId);
+    if (!current || servedOrder[servedOrder.length - 1]?.questionId !== questionId) {
+      return NextResponse.json(
+        { error: "That question isn't the current one" },
+        { status: 400 }
+      );
+    }
+
+    const givenAnswer = answer == null || answer === "" ? null : String(answer);
+    const step: AdaptiveStep = {
+      questionId,
+      level: getQuestionLevel(current, config.ladder),
+      answer: givenAnswer,
+      isCorrect: isAnswerCorrect(current, givenAnswer),
+      timeSpent: Number(timeSpent) || 0,
+      answeredAt: new Date().toISOString(),
+    };
+    const updatedPath = [...path, step];
+
+    const next = updatedPath.length < (attempt.totalQuestions || config.questionCount)
+      ? selectNextQuestion(pool, updatedPath, config, attempt.id)
+      : null;
+    const nextQuestion = next ? prepareQuestion(next, attempt.id) : null;
+
+    await db
+      .update(quizAttempts)
+      .set({
+        adaptivePath: updatedPath,
+        answers: [
+          ...attempt.answers.filter(a => a.questionId !== questionId),
+          ...(givenAnswer !== null ? [{ questionId, answer: givenAnswer, timeSpent: step.timeSpent }] : []),
+        ],
+        questionOrder: nextQuestion
+          ? [...servedOrder, { questionId: nextQuestion.id, options: nextQuestion.options }]
+          : servedOrder,
+        updatedAt: new Date(),
+      })
+      .where(eq(quizAttempts.id, attempt.id));
+
+    return NextResponse.json({
+      nextQuestion,
+      answered: updatedPath.length,
+      totalQuestions: attempt.totalQuestions,
+      done: !nextQuestion,
+    });
+  } catch (error) {
+    logger.error("Error serving next adaptive question:", error);
+    return NextResponse.json(
+      { error: "Failed to load the next question" },
+      { status: 500 }
+    );
+  }
+}
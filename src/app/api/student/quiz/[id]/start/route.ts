@@ -7,27 +7,15 @@ import { quizzes, questions, quizAttempts, enrollments, educatorStudents } from
 import { auth } from "@/lib/auth";
 import { quizCache } from "@/lib/quiz-cache";
 import { logger } from "@/lib/logger";
+import { getQuestionType, getPublicAnswerData } from "@/lib/question-types";
+import { getAttemptPolicy, getAttemptAvailability } from "@/lib/attempt-policy";
+import { getAttemptMode, getPracticeAvailability } from "@/lib/practice-mode";
+import { getAdaptiveConfig, selectNextQuestion } from "@/lib/adaptive-quiz";
+import { seededShuffle } from "@/lib/quiz-utils";
+import { availableQuizLanguages, localizeQuizQuestions, ORIGINAL_LANGUAGE } from "@/lib/quiz-translations";
+import { getLanguageDisplay } from "@/lib/language-registry";
 
 
-// Seeded shuffle function for consistent randomization per attempt
-function shuffleArray<T>(array: T[], seed: string): T[] {
-  const arr = [...array];
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    hash = ((hash << 5) - hash) + seed.charCodeAt(i);
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  // Fisher-Yates shuffle with seeded random
-  for (let i = arr.length - 1; i > 0; i--) {
-    hash = (hash * 9301 + 49297) % 233280;
-    const j = Math.floor((hash / 233280) * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  
-  return arr;
-}
-
 export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
@@ -35,6 +23,10 @@ export async function POST(
   try {
     const params = await context.params;
     const quizId = params.id;
+    // Practice attempts are untimed and don't count towards the attempt policy
+    const mode = getAttemptMode(req.nextUrl.searchParams.get("mode"));
+    // Language picked on the start screen; a resumed attempt keeps the language it started in
+    const requestedLanguage = req.nextUrl.searchParams.get("language") || ORIGINAL_LANGUAGE;
     
     // Get session
     const session = await auth.api.getSession({
@@ -163,18 +155,12 @@ export async function POST(
       }
     }
 
-    // If no active enrollment, all are completed
+    // If all enrollments are completed, the newest one may still allow a retake
     if (!activeEnrollment) {
-      return NextResponse.json(
-        { 
-          error: "No active enrollment",
-          message: "You have completed all available attempts for this quiz."
-        },
-        { status: 403 }
-      );
+      activeEnrollment = allEnrollments[0];
     }
 
-    // Check if student has already attempted this specific enrollment
+    // Attempts are counted per enrollment, so a reassignment starts a fresh allowance
     const existingAttempts = await db
       .select()
       .from(quizAttempts)
@@ -187,37 +173,17 @@ export async function POST(
       )
       .orderBy(desc(quizAttempts.startTime));
 
-    // First check if ANY attempt is completed - if so, block retake
-    const completedAttempt = existingAttempts.find(a => a.status === "completed");
-    if (completedAttempt) {
-      logger.info("Blocking quiz retake - already completed", {
-        studentId,
-        quizId,
-        completedAttemptId: completedAttempt.id,
-        score: completedAttempt.score,
-        completedAt: completedAttempt.endTime
-      });
-      return NextResponse.json(
-        { 
-          error: "Quiz already completed",
-          message: "You have already completed this quiz. Each quiz can only be taken once.",
-          attemptId: completedAttempt.id
-        },
-        { status: 403 }
-      );
-    }
-
-    // Now check for in-progress attempts to resume
-    const inProgressAttempt = existingAttempts.find(a => a.status === "in_progress");
+    // Resume an in-progress attempt of the same mode before applying the attempt policy
+    const inProgressAttempt = existingAttempts.find(a => a.status === "in_progress" && a.mode === mode);
     
     if (inProgressAttempt) {
       // If quiz is in progress, resume it
       // Calculate remaining time
       const elapsedTime = Math.floor((Date.now() - inProgressAttempt.startTime.getTime()) / 1000);
       // Use the quiz variable already fetched at the beginning of the function
-      const remainingTime = Math.max(0, (quiz.duration * 60) - elapsedTime);
+      const remainingTime = Math.max(0, (quiz.duration * 60) + inProgressAttempt.extraTimeSeconds - elapsedTime);
       
-      if (remainingTime <= 0) {
+      if (mode === "exam" && remainingTime <= 0) {
         // Time's up, mark as completed
         await db
           .update(quizAttempts)
@@ -238,10 +204,14 @@ export async function POST(
       }
       
       // Return existing quiz data with remaining time
-      const quizQuestions = await db
-        .select()
-        .from(questions)
-        .where(eq(questions.quizId, quizId));
+      const quizQuestions = await localizeQuizQuestions(
+        quizId,
+        inProgressAttempt.language,
+        await db
+          .select()
+          .from(questions)
+          .where(eq(questions.quizId, quizId))
+      );
 
 
       // Sort questions - map with correct field names from database
@@ -252,12 +222,23 @@ export async function POST(
           id: q.id,
           questionText: q.question_text || q.questionText || '',
           options: q.options || [],
+          questionType: getQuestionType(q),
+          answerData: getPublicAnswerData(q),
           orderIndex: typeof q.order_index === 'number' ? q.order_index : (q.orderIndex || 0),
           book: q.book || null,
           chapter: q.chapter || null,
           topic: q.topic || null,
           bloomsLevel: q.blooms_level || q.bloomsLevel || null,
         };
+      }).map(q => {
+        // Same per-attempt scramble as when the attempt was created
+        if (q.questionType === "ordering") {
+          return { ...q, options: seededShuffle(q.options, inProgressAttempt.id + q.id) };
+        }
+        if (q.questionType === "matching" && q.answerData?.matches) {
+          return { ...q, answerData: { matches: seededShuffle(q.answerData.matches, inProgressAttempt.id + q.id) } };
+        }
+        return q;
       });
       
       // Ensure we have valid questions
@@ -293,7 +274,7 @@ export async function POST(
         
         if (shouldShuffle) {
           // Use a seed based on attemptId for consistent shuffle per attempt
-          sortedQuestions = shuffleArray(sortedQuestions, inProgressAttempt.id);
+          sortedQuestions = seededShuffle(sortedQuestions, inProgressAttempt.id);
         } else {
           sortedQuestions.sort((a, b) => (a.orderIndex || 0) - (b.orderIndex || 0));
         }
@@ -304,20 +285,85 @@ export async function POST(
           id: quiz.id,
           title: quiz.title,
           duration: quiz.duration,
-          totalQuestions: quiz.totalQuestions,
+          // Adaptive attempts only hold the questions served so far
+          totalQuestions: inProgressAttempt.adaptivePath ? inProgressAttempt.totalQuestions : quiz.totalQuestions,
           questions: sortedQuestions
         },
         attemptId: inProgressAttempt.id,
-        remainingTime,
+        remainingTime: mode === "practice" ? null : remainingTime,
+        mode,
+        // Practice answers are saved as they're checked, so hand them back for the feedback panel
+        checkedAnswers: mode === "practice" ? inProgressAttempt.answers : undefined,
+        adaptive: Boolean(inProgressAttempt.adaptivePath),
+        answeredQuestionIds: inProgressAttempt.adaptivePath?.map(step => step.questionId),
+        language: inProgressAttempt.language,
+        languageDisplay: await getLanguageDisplay(inProgressAttempt.language),
         resumed: true
       });
     }
 
+    if (requestedLanguage !== ORIGINAL_LANGUAGE) {
+      const languages = await availableQuizLanguages(quizId);
+      if (!languages.some(language => language.code === requestedLanguage)) {
+        return NextResponse.json(
+          {
+            error: "Language not available",
+            message: "This quiz isn't available in the selected language."
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (mode === "practice") {
+      const practice = getPracticeAvailability(
+        quiz,
+        allEnrollments.some(e => e.isReassignment && e.status !== "completed")
+      );
+      if (!practice.available) {
+        return NextResponse.json(
+          {
+            error: "Practice not available",
+            message: practice.reason
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Check the quiz's attempt policy (defaults to a single attempt)
+    const completedAttempts = existingAttempts.filter(a => a.status === "completed" && a.mode === "exam");
+    const availability = getAttemptAvailability(
+      getAttemptPolicy(quiz.configuration),
+      completedAttempts
+    );
+    if (mode === "exam" && !availability.canStart) {
+      logger.info("Blocking quiz retake - attempt policy", {
+        studentId,
+        quizId,
+        enrollmentId: activeEnrollment.id,
+        attemptsUsed: availability.attemptsUsed,
+        nextAttemptAt: availability.nextAttemptAt
+      });
+      return NextResponse.json(
+        {
+          error: "Quiz already completed",
+          message: availability.reason,
+          attemptId: completedAttempts[0]?.id,
+          attemptsUsed: availability.attemptsUsed,
+          attemptsRemaining: availability.attemptsRemaining,
+          nextAttemptAt: availability.nextAttemptAt?.toISOString() || null
+        },
+        { status: 403 }
+      );
+    }
+
     // Quiz details already fetched above
 
     // For reassigned quizzes, skip time constraints
     // Reassigned students can take the quiz at their convenience
-    if (!activeEnrollment.isReassignment) {
+    // Practice only opens after the exam window, so it skips them too
+    if (mode === "exam" && !activeEnrollment.isReassignment) {
       // CRITICAL: Check if quiz has a scheduled time first
       if (!quiz.startTime) {
         // For deferred scheduling quizzes that haven't been scheduled yet
@@ -399,18 +445,31 @@ export async function POST(
 
     // Prepare questions - map with correct field names from database  
     // CRITICAL FIX: Database columns use snake_case, must access them correctly
-    let preparedQuestions = quizQuestions.map((q: any) => {
+    const localizedQuestions = await localizeQuizQuestions(quizId, requestedLanguage, quizQuestions);
+    let preparedQuestions = localizedQuestions.map((q: any) => {
       // Access the actual database field names directly
       return {
         id: q.id,
         questionText: q.question_text || q.questionText || '',
         options: q.options || [],
+        questionType: getQuestionType(q),
+        answerData: getPublicAnswerData(q),
         orderIndex: typeof q.order_index === 'number' ? q.order_index : (q.orderIndex || 0),
         book: q.book || null,
         chapter: q.chapter || null,
         topic: q.topic || null,
         bloomsLevel: q.blooms_level || q.bloomsLevel || null,
       };
+    }).map(q => {
+      // Ordering items are stored in the correct sequence and matching choices
+      // would line up with their prompts, so always scramble them per attempt
+      if (q.questionType === "ordering") {
+        return { ...q, options: seededShuffle(q.options, attemptId + q.id) };
+      }
+      if (q.questionType === "matching" && q.answerData?.matches) {
+        return { ...q, answerData: { matches: seededShuffle(q.answerData.matches, attemptId + q.id) } };
+      }
+      return q;
     });
     
     // Validate we have questions
@@ -426,16 +485,24 @@ export async function POST(
       );
     }
     
+    // Adaptive quizzes serve one question at a time from the pool (exams only;
+    // practice runs through the whole pool)
+    const adaptiveConfig = getAdaptiveConfig(quiz.configuration);
+    const isAdaptive = mode === "exam" && adaptiveConfig.enabled;
+
     // For reassignments, always shuffle regardless of quiz setting
     const shouldShuffle = quiz.shuffleQuestions || activeEnrollment.isReassignment;
     
-    if (shouldShuffle) {
+    if (isAdaptive) {
+      const firstQuestion = selectNextQuestion(quizQuestions, [], adaptiveConfig, attemptId);
+      preparedQuestions = preparedQuestions.filter(q => q.id === firstQuestion?.id);
+    } else if (shouldShuffle) {
       // Use attemptId as seed for consistent shuffle per attempt
       // For reassignments, add enrollment id to make shuffle different from original
       const seed = activeEnrollment.isReassignment 
         ? attemptId + activeEnrollment.id 
         : attemptId;
-      preparedQuestions = shuffleArray(preparedQuestions, seed);
+      preparedQuestions = seededShuffle(preparedQuestions, seed);
     } else {
       preparedQuestions.sort((a, b) => (a.orderIndex || 0) - (b.orderIndex || 0));
     }
@@ -454,9 +521,14 @@ export async function POST(
       enrollmentId: activeEnrollment.id, // Link to the specific enrollment
       startTime: new Date(),
       status: "in_progress" as const,
+      mode,
+      language: requestedLanguage,
       answers: [], // Array type per schema: {questionId: string, answer: string, timeSpent: number}[]
-      totalQuestions: quizQuestions.length,
+      totalQuestions: isAdaptive
+        ? Math.min(adaptiveConfig.questionCount, quizQuestions.length)
+        : quizQuestions.length,
       questionOrder: questionOrderForAttempt, // Store the shuffled order
+      adaptivePath: isAdaptive ? [] : null,
       createdAt: new Date(),
     };
     
@@ -472,28 +544,32 @@ export async function POST(
       answers: [] // Array type to match schema: {questionId: string, answer: string, timeSpent: number}[]
     });
 
-    // Update enrollment status to in_progress
-    await db
-      .update(enrollments)
-      .set({ 
-        status: "in_progress",
-        startedAt: new Date()
-      })
-      .where(eq(enrollments.id, activeEnrollment.id));
+    // Update enrollment status to in_progress (practice leaves the enrollment alone)
+    if (mode === "exam") {
+      await db
+        .update(enrollments)
+        .set({ 
+          status: "in_progress",
+          startedAt: new Date()
+        })
+        .where(eq(enrollments.id, activeEnrollment.id));
+    }
 
     // Prepare quiz data for response and cache
     const quizData = {
       id: quiz.id,
       title: quiz.title,
       duration: quiz.duration,
-      totalQuestions: quiz.totalQuestions,
+      totalQuestions: isAdaptive ? attemptData.totalQuestions : quiz.totalQuestions,
       questions: preparedQuestions,
       startTime: quiz.startTime || undefined,
       status: quiz.status
     };
     
-    // Cache the prepared quiz data
-    await quizCache.cacheQuizData(quizId, quizData);
+    // Cache the prepared quiz data (adaptive question sets are per attempt, translations per language)
+    if (!isAdaptive && requestedLanguage === ORIGINAL_LANGUAGE) {
+      await quizCache.cacheQuizData(quizId, quizData);
+    }
     
     // Cache enrollment status
     await quizCache.cacheEnrollment(studentId, quizId, true);
@@ -515,7 +591,11 @@ export async function POST(
     return NextResponse.json({
       quiz: quizData,
       attemptId,
-      remainingTime: quiz.duration * 60, // Full time in seconds
+      remainingTime: mode === "practice" ? null : quiz.duration * 60, // Full time in seconds
+      mode,
+      adaptive: isAdaptive,
+      language: requestedLanguage,
+      languageDisplay: await getLanguageDisplay(requestedLanguage),
       isReassignment: activeEnrollment.isReassignment || false,
       reassignmentReason: activeEnrollment.reassignmentReason || null
     });
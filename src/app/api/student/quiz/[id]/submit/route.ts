@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { eq, and } from "drizzle-orm";
 import { headers } from "next/headers";
-import * as crypto from "crypto";
 import { db } from "@/lib/db";
-import { quizAttempts, questionResponses, questions, quizzes, user, enrollments } from "@/lib/schema";
+import { quizAttempts, quizzes, user, enrollments } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
 import { quizCache } from "@/lib/quiz-cache";
+import { completeAttempt } from "@/lib/attempt-submission";
 
 // REMOVED RATE LIMITING: To support 100+ concurrent students taking quizzes
 // Rate limiting was causing legitimate quiz submissions to fail
@@ -60,39 +60,6 @@ export async function POST(
 
     // Time validation moved to after attempt verification
 
-    // Fetch all questions for this quiz to get correct answers
-    const quizQuestions = await db
-      .select()
-      .from(questions)
-      .where(eq(questions.quizId, quizId));
-
-    // Calculate score
-    let correctAnswers = 0;
-    const totalQuestions = quizQuestions.length;
-    
-    interface AnswerInput {
-      questionId: string;
-      answer: string;
-      markedForReview: boolean;
-      timeSpent: number;
-    }
-    
-    const evaluatedAnswers = answers.filter((answer: AnswerInput) => answer && answer.questionId && answer.answer != null).map((answer: AnswerInput) => {
-      const question = quizQuestions.find(q => q && q.id === answer.questionId);
-      const isCorrect = question?.correctAnswer === answer.answer;
-      if (isCorrect) correctAnswers++;
-      
-      return {
-        questionId: answer.questionId,
-        answer: answer.answer,
-        isCorrect,
-        markedForReview: answer.markedForReview,
-        timeSpent: answer.timeSpent,
-      };
-    });
-
-    const score = totalQuestions > 0 ? (correctAnswers / totalQuestions) * 100 : 0;
-    
     // If attemptId is provided, update the existing attempt
     // Otherwise, check for an existing in-progress attempt
     let finalAttemptId = attemptId;
@@ -184,8 +151,8 @@ export async function POST(
       }
     }
     
-    // CRITICAL: Validate quiz time constraints (skip for reassignments)
-    if (!isReassignment) {
+    // CRITICAL: Validate quiz time constraints (skip for reassignments and untimed practice)
+    if (attemptToUpdate.mode === "exam" && !isReassignment) {
       const now = new Date();
       
       // Check if quiz has a start time
@@ -204,9 +171,11 @@ export async function POST(
         );
       }
       
-      // Check if quiz has ended (with 5 minute grace period for network delays)
+      // Check if quiz has ended (with 5 minute grace period for network delays, plus any extra time granted)
       const graceMinutes = 5;
-      const endTime = new Date(quiz.startTime.getTime() + (quiz.duration + graceMinutes) * 60 * 1000);
+      const endTime = new Date(
+        quiz.startTime.getTime() + (quiz.duration + graceMinutes) * 60 * 1000 + attemptToUpdate.extraTimeSeconds * 1000
+      );
       if (now > endTime) {
         return NextResponse.json(
           { error: "Quiz ended", message: "This quiz has ended and no longer accepts submissions." },
@@ -215,58 +184,44 @@ export async function POST(
       }
     }
     
-    // Update the existing attempt
-    await db
-      .update(quizAttempts)
-      .set({
-        endTime: new Date(),
-        score: Math.round(score),
-        totalQuestions,
-        totalCorrect: correctAnswers,
-        timeSpent: timeSpent,
-        timezone: userTimezone,
-        status: "completed",
-        answers: evaluatedAnswers,
-        updatedAt: new Date(),
-      })
-      .where(eq(quizAttempts.id, finalAttemptId));
-
-    // Update enrollment status to completed if this attempt has an enrollment
-    if (attemptToUpdate.enrollmentId) {
-      await db
-        .update(enrollments)
-        .set({
-          status: "completed",
-          completedAt: new Date()
-        })
-        .where(eq(enrollments.id, attemptToUpdate.enrollmentId));
-      
-      logger.info("Updated enrollment status to completed", {
-        enrollmentId: attemptToUpdate.enrollmentId,
-        attemptId: finalAttemptId
-      });
-    }
+    const result = await completeAttempt({
+      quiz,
+      attempt: attemptToUpdate,
+      answers: Array.isArray(answers) ? answers : [],
+      timeSpent,
+      timezone: userTimezone,
+    });
 
-    // Save individual question responses
-    for (const answer of evaluatedAnswers) {
-      await db.insert(questionResponses).values({
-        id: crypto.randomUUID(),
-        attemptId: finalAttemptId,
-        questionId: answer.questionId,
-        selectedAnswer: answer.answer,
-        isCorrect: answer.isCorrect,
-        timeSpent: answer.timeSpent,
-        markedForReview: answer.markedForReview,
-        answeredAt: new Date(),
-      });
+    // An educator force-submitted it while this request was in flight
+    if (!result) {
+      return NextResponse.json(
+        { 
+          error: "Quiz already submitted",
+          message: "This quiz has already been completed and submitted.",
+          attemptId: finalAttemptId
+        },
+        { status: 400 }
+      );
     }
+    const { score } = result;
     
     logger.info("Quiz submitted successfully", {
       attemptId: finalAttemptId,
       studentId,
-      score: Math.round(score)
+      score
     });
 
+    // Practice only opens after the quiz has ended, so its results can be shown straight away
+    if (attemptToUpdate.mode === "practice") {
+      return NextResponse.json({
+        success: true,
+        attemptId: finalAttemptId,
+        mode: "practice",
+        score,
+        message: "Practice session finished."
+      });
+    }
+
     // Security: Don't return score or results immediately
     // Students must wait until quiz duration expires to see results
     // This prevents sharing answers with other students still taking the quiz
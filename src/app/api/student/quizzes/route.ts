@@ -9,6 +9,8 @@ import { logger } from "@/lib/logger";
 import { calculateQuizAvailability } from "@/lib/quiz-availability";
 import { isFeatureEnabled } from "@/lib/feature-flags";
 import { fetchWithOptimizedCache } from "@/lib/api-cache";
+import { getAttemptPolicy, getAttemptAvailability, selectCountedAttempt } from "@/lib/attempt-policy";
+import { getPracticeAvailability } from "@/lib/practice-mode";
 
 /**
  * Unified Student Quizzes API
@@ -23,6 +25,37 @@ interface QueryFilters {
   search?: string;
 }
 
+type CompletedAttempt = typeof quizAttempts.$inferSelect;
+
+/**
+ * Apply the quiz's attempt policy to a student's completed attempts.
+ * Attempts are counted against the enrollment; the score follows the policy's score mode.
+ */
+function summarizeAttempts(
+  quiz: { configuration: unknown },
+  enrollmentId: string,
+  attempts: CompletedAttempt[]
+) {
+  const policy = getAttemptPolicy(quiz.configuration);
+  const counted = selectCountedAttempt(attempts, policy.scoreMode);
+  const availability = getAttemptAvailability(
+    policy,
+    attempts.filter(a => !a.enrollmentId || a.enrollmentId === enrollmentId)
+  );
+
+  return {
+    attempted: attempts.length > 0,
+    attemptId: counted?.id || null,
+    score: counted?.score ?? null,
+    scoreMode: policy.scoreMode,
+    maxAttempts: policy.maxAttempts,
+    attemptsUsed: availability.attemptsUsed,
+    attemptsRemaining: availability.attemptsRemaining,
+    canRetake: attempts.length > 0 && availability.canStart,
+    nextAttemptAt: availability.nextAttemptAt?.toISOString() || null
+  };
+}
+
 export async function GET(req: NextRequest) {
   return getHandler(req);
 }
@@ -187,7 +220,8 @@ async function getOptimizedQuizData(studentId: string, educatorIds: string[], fi
       and(
         eq(quizAttempts.quizId, quizzes.id),
         eq(quizAttempts.studentId, studentId),
-        eq(quizAttempts.status, "completed")
+        eq(quizAttempts.status, "completed"),
+        eq(quizAttempts.mode, "exam")
       )
     )
     .leftJoin(
@@ -209,11 +243,25 @@ async function getOptimizedQuizData(studentId: string, educatorIds: string[], fi
 
   const results = await quizQuery;
 
+  // The attempts join yields one row per completed attempt, so gather them per quiz
+  const attemptsByQuiz = new Map<string, CompletedAttempt[]>();
+  for (const { quiz, attempt } of results) {
+    if (!quiz?.id || !attempt) continue;
+    const quizAttemptList = attemptsByQuiz.get(quiz.id) || [];
+    if (!quizAttemptList.some(a => a.id === attempt.id)) quizAttemptList.push(attempt);
+    attemptsByQuiz.set(quiz.id, quizAttemptList);
+  }
+  const seenQuizIds = new Set<string>();
+
   // Process results in a single pass
   const processedQuizzes = results
-    .map(({ quiz, enrollment, attempt, educator }) => {
+    .map(({ quiz, enrollment, educator }) => {
       // Skip invalid data
       if (!quiz?.id || !quiz?.title || !enrollment) return null;
+      if (seenQuizIds.has(quiz.id)) return null;
+      seenQuizIds.add(quiz.id);
+
+      const attempts = summarizeAttempts(quiz, enrollment.id, attemptsByQuiz.get(quiz.id) || []);
       
       // Calculate availability
       const availability = calculateQuizAvailability({
@@ -222,16 +270,16 @@ async function getOptimizedQuizData(studentId: string, educatorIds: string[], fi
         duration: quiz.duration || 30,
         status: quiz.status,
         isReassignment: enrollment.isReassignment || false,
-        attempted: !!attempt
+        attempted: attempts.attempted
       });
       const isReassignment = enrollment.isReassignment || false;
       
       return {
         ...quiz,
         enrolled: true,
-        attempted: !!attempt,
-        attemptId: attempt?.id || null,
-        score: attempt?.score || null,
+        ...attempts,
+        canRetake: attempts.canRetake && (isReassignment || availability.status !== 'ended'),
+        practiceAvailable: getPracticeAvailability(quiz, isReassignment && enrollment.status !== "completed").available,
         isReassignment,
         educatorName: educator?.name || "Unknown Educator",
         isExpired: availability.status === 'ended',
@@ -266,7 +314,8 @@ async function getLegacyQuizData(studentId: string, educatorIds: string[], filte
     db.select().from(quizAttempts).where(
       and(
         eq(quizAttempts.studentId, studentId),
-        eq(quizAttempts.status, "completed")
+        eq(quizAttempts.status, "completed"),
+        eq(quizAttempts.mode, "exam")
       )
     ),
     db.select({ id: user.id, name: user.name }).from(user).where(
@@ -276,7 +325,10 @@ async function getLegacyQuizData(studentId: string, educatorIds: string[], filte
 
   // Create lookup maps for efficient processing
   const enrollmentMap = new Map(studentEnrollments.map(e => [e.quizId, e]));
-  const attemptMap = new Map(studentAttempts.map(a => [a.quizId, a]));
+  const attemptMap = new Map<string, CompletedAttempt[]>();
+  for (const attempt of studentAttempts) {
+    attemptMap.set(attempt.quizId, [...(attemptMap.get(attempt.quizId) || []), attempt]);
+  }
   const educatorMap = new Map(educators.map(e => [e.id, e.name]));
 
   // Process quizzes - CRITICAL: Double-check educator ownership
@@ -289,7 +341,7 @@ async function getLegacyQuizData(studentId: string, educatorIds: string[], filte
     })
     .map(quiz => {
       const enrollment = enrollmentMap.get(quiz.id)!;
-      const attempt = attemptMap.get(quiz.id);
+      const attempts = summarizeAttempts(quiz, enrollment.id, attemptMap.get(quiz.id) || []);
       
       const availability = calculateQuizAvailability({
         startTime: quiz.startTime,
@@ -297,15 +349,18 @@ async function getLegacyQuizData(studentId: string, educatorIds: string[], filte
         duration: quiz.duration || 30,
         status: quiz.status,
         isReassignment: enrollment.isReassignment || false,
-        attempted: !!attempt
+        attempted: attempts.attempted
       });
       
       return {
         ...quiz,
         enrolled: true,
-        attempted: !!attempt,
-        attemptId: attempt?.id || null,
-        score: attempt?.score || null,
+        ...attempts,
+        canRetake: attempts.canRetake && (enrollment.isReassignment || availability.status !== 'ended'),
+        practiceAvailable: getPracticeAvailability(
+          quiz,
+          Boolean(enrollment.isReassignment) && enrollment.status !== "completed"
+        ).available,
         isReassignment: enrollment.isReassignment || false,
         educatorName: educatorMap.get(quiz.educatorId) || "Unknown Educator",
         isExpired: availability.status === 'ended',
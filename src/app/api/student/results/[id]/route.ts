@@ -5,6 +5,11 @@ import { db } from "@/lib/db";
 import { quizAttempts, questionResponses, questions, quizzes } from "@/lib/schema";
 import { auth } from "@/lib/auth";
 import { logger } from "@/lib/logger";
+import { formatAnswer, formatCorrectAnswer } from "@/lib/question-types";
+import { studentCitations } from "@/lib/question-citations";
+import { getAdaptiveConfig, estimateMastery, LADDER_LEVELS } from "@/lib/adaptive-quiz";
+import { localizeQuizQuestions } from "@/lib/quiz-translations";
+import { getLanguageDisplay } from "@/lib/language-registry";
 
 
 export async function GET(
@@ -51,7 +56,8 @@ export async function GET(
       .where(eq(quizzes.id, attempt.quizId));
 
     // Security check: Don't show results until quiz duration has passed from the attempt's start time
-    if (quiz && attempt.startTime) {
+    // (practice attempts already revealed each answer as it was checked)
+    if (quiz && attempt.startTime && attempt.mode === "exam") {
       const attemptEndTime = new Date(attempt.startTime);
       attemptEndTime.setMinutes(attemptEndTime.getMinutes() + (quiz.duration || 30));
       const now = new Date();
@@ -70,11 +76,15 @@ export async function GET(
       }
     }
 
-    // Fetch all questions for this quiz
-    const quizQuestions = await db
-      .select()
-      .from(questions)
-      .where(eq(questions.quizId, attempt.quizId));
+    // Fetch all questions for this quiz, in the language the attempt was taken in
+    const quizQuestions = await localizeQuizQuestions(
+      attempt.quizId,
+      attempt.language,
+      await db
+        .select()
+        .from(questions)
+        .where(eq(questions.quizId, attempt.quizId))
+    );
 
     // Fetch student's responses
     const responses = await db
@@ -91,9 +101,16 @@ export async function GET(
         questionText: question.questionText,
         options: question.options,
         correctAnswer: question.correctAnswer,
+        questionType: question.questionType,
         selectedAnswer: response?.selectedAnswer || null,
+        // Readable summaries so the page doesn't need to understand every answer format
+        selectedAnswerText: formatAnswer(question, response?.selectedAnswer),
+        correctAnswerText: formatCorrectAnswer(question),
         isCorrect: response?.isCorrect || false,
+        pointsAwarded: response?.pointsAwarded ?? null,
+        pointsPossible: response?.pointsPossible ?? null,
         explanation: question.explanation,
+        citations: studentCitations(question.citations),
         book: question.book,
         chapter: question.chapter,
         topic: question.topic,
@@ -160,10 +177,17 @@ export async function GET(
     };
     
     const gradeInfo = getGrade(score);
+
+    // Adaptive attempts report mastery alongside the score
+    const adaptiveLadder = getAdaptiveConfig(quiz?.configuration).ladder;
+    const mastery = attempt.adaptivePath ? estimateMastery(attempt.adaptivePath, adaptiveLadder) : null;
     
     return NextResponse.json({
       attemptId: attempt.id,
       quizTitle: quiz?.title || "Quiz",
+      mode: attempt.mode,
+      language: attempt.language,
+      languageDisplay: await getLanguageDisplay(attempt.language),
       score: score,
       grade: gradeInfo.grade,
       gradePoints: gradeInfo.points,
@@ -171,8 +195,22 @@ export async function GET(
       correctAnswers: correctAnswers,
       totalQuestions: totalQuestions,
       wrongAnswers: wrongAnswers,
+      // Null for attempts scored before weighted scoring
+      pointsEarned: attempt.pointsEarned,
+      pointsPossible: attempt.pointsPossible,
       timeTaken: attempt.timeSpent || 0,
       questions: questionsWithResults,
+      adaptive: mastery ? {
+        ladder: adaptiveLadder,
+        masteryLevel: attempt.masteryLevel || mastery.level,
+        masteryEstimate: mastery.estimate,
+        highestLevel: mastery.highestLevel,
+        path: attempt.adaptivePath?.map(step => ({
+          questionId: step.questionId,
+          level: LADDER_LEVELS[adaptiveLadder][step.level] ?? null,
+          isCorrect: step.isCorrect,
+        })),
+      } : null,
     });
 
   } catch (error) {
@@ -31,6 +31,7 @@ export async function GET(req: NextRequest) {
         quizTitle: quizzes.title,
         score: quizAttempts.score,
         status: quizAttempts.status,
+        mode: quizAttempts.mode,
         startedAt: quizAttempts.startTime,
         completedAt: quizAttempts.endTime,
         timeSpent: quizAttempts.timeSpent,
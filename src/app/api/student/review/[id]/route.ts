@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, and } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { reviewItems, questions } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getAnswerCredit, formatAnswer, formatCorrectAnswer } from "@/lib/question-types";
+import { studentCitations } from "@/lib/question-citations";
+import { getRecallQuality, scheduleReview } from "@/lib/review-queue";
+
+/**
+ * Answer a review item, reveal the correct answer and schedule the next review
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: itemId } = await context.params;
+
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { answer } = body;
+
+    if (answer == null || answer === "") {
+      return NextResponse.json(
+        { error: "An answer is required" },
+        { status: 400 }
+      );
+    }
+
+    const [item] = await db
+      .select()
+      .from(reviewItems)
+      .where(
+        and(
+          eq(reviewItems.id, itemId),
+          eq(reviewItems.studentId, session.user.id)
+        )
+      );
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Review item not found" },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    if (item.dueAt > now) {
+      return NextResponse.json(
+        { error: "This question isn't due for review yet", dueAt: item.dueAt },
+        { status: 409 }
+      );
+    }
+
+    const [question] = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.id, item.questionId));
+
+    if (!question) {
+      return NextResponse.json(
+        { error: "Question no longer exists" },
+        { status: 404 }
+      );
+    }
+
+    const credit = getAnswerCredit(question, String(answer));
+    const schedule = scheduleReview(item, getRecallQuality(credit), now);
+
+    await db
+      .update(reviewItems)
+      .set({
+        ...schedule,
+        lastReviewedAt: now,
+        lastReviewCorrect: credit >= 1,
+        updatedAt: now,
+      })
+      .where(eq(reviewItems.id, item.id));
+
+    return NextResponse.json({
+      isCorrect: credit >= 1,
+      credit,
+      answerText: formatAnswer(question, String(answer)),
+      correctAnswerText: formatCorrectAnswer(question),
+      explanation: question.explanation,
+      citations: studentCitations(question.citations),
+      nextDueAt: schedule.dueAt,
+      intervalDays: schedule.intervalDays,
+    });
+  } catch (error) {
+    logger.error("Error recording review answer:", error);
+    return NextResponse.json(
+      { error: "Failed to record review answer" },
+      { status: 500 }
+    );
+  }
+}
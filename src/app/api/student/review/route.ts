@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq, inArray } from "drizzle-orm";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { questions, quizzes, user } from "@/lib/schema";
+import { auth } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { getQuestionType, getPublicAnswerData } from "@/lib/question-types";
+import { syncReviewQueue, getReviewCounts, getDueReviewItems } from "@/lib/review-queue";
+import { seededShuffle } from "@/lib/quiz-utils";
+
+const MAX_SESSION_ITEMS = 20;
+
+/**
+ * Questions due for spaced-repetition review. `?summary=true` returns only the counts
+ * (used by the dashboard).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers()
+    });
+
+    if (!session?.user || session.user.role !== 'student') {
+      return NextResponse.json(
+        { error: "Unauthorized - Student access required" },
+        { status: 401 }
+      );
+    }
+
+    const studentId = session.user.id;
+    const [userRecord] = await db
+      .select({ timezone: user.timezone })
+      .from(user)
+      .where(eq(user.id, studentId));
+
+    // Pick up anything missed since the last visit before counting
+    await syncReviewQueue(studentId);
+    const counts = await getReviewCounts(studentId, userRecord?.timezone || "Asia/Kolkata");
+
+    if (req.nextUrl.searchParams.get("summary") === "true") {
+      return NextResponse.json({ counts });
+    }
+
+    const dueItems = await getDueReviewItems(studentId, MAX_SESSION_ITEMS);
+    const dueQuestions = dueItems.length > 0
+      ? await db
+          .select({ question: questions, quizTitle: quizzes.title })
+          .from(questions)
+          .innerJoin(quizzes, eq(questions.quizId, quizzes.id))
+          .where(inArray(questions.id, dueItems.map(item => item.questionId)))
+      : [];
+    const questionById = new Map(dueQuestions.map(row => [row.question.id, row]));
+
+    const items = dueItems.flatMap(item => {
+      const row = questionById.get(item.questionId);
+      if (!row) return [];
+      const q = row.question;
+      const questionType = getQuestionType(q);
+      const answerData = getPublicAnswerData(q);
+      // Ordering items are stored in the correct sequence, so scramble them per review
+      const seed = item.id + item.repetitions + item.lapses;
+
+      return [{
+        id: item.id,
+        dueAt: item.dueAt,
+        repetitions: item.repetitions,
+        quizTitle: row.quizTitle,
+        question: {
+          id: q.id,
+          questionText: q.questionText,
+          options: questionType === "ordering" ? seededShuffle(q.options, seed) : q.options,
+          questionType,
+          answerData: questionType === "matching" && answerData?.matches
+            ? { matches: seededShuffle(answerData.matches, seed) }
+            : answerData,
+          book: q.book,
+          chapter: q.chapter,
+          topic: q.topic,
+        },
+      }];
+    });
+
+    return NextResponse.json({ counts, items });
+  } catch (error) {
+    logger.error("Error fetching review queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch review queue" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { headers } from "next/headers";
 import { db } from "@/lib/db";
 import { user } from "@/lib/schema";
 import { auth } from "@/lib/auth";
+import { findEnabledLanguage, getEnabledLanguages } from "@/lib/language-registry";
+import { ENGLISH } from "@/lib/languages";
 
 
 export async function GET(req: NextRequest) {
@@ -35,6 +37,7 @@ export async function GET(req: NextRequest) {
     }
 
     const profile = userProfile[0];
+    const languages = [ENGLISH, ...await getEnabledLanguages()];
 
     return NextResponse.json({
       id: profile.id,
@@ -43,6 +46,13 @@ export async function GET(req: NextRequest) {
       role: profile.role,
       phoneNumber: profile.phoneNumber,
       timezone: profile.timezone,
+      emailLanguage: profile.emailLanguage,
+      // Languages notification emails can be sent in
+      emailLanguages: languages.map(language => ({
+        code: language.code,
+        name: language.name,
+        nativeName: language.nativeName,
+      })),
       createdAt: profile.createdAt,
       updatedAt: profile.updatedAt,
     });
@@ -71,7 +81,7 @@ export async function PATCH(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { name, phoneNumber, timezone } = body;
+    const { name, phoneNumber, timezone, emailLanguage } = body;
 
     // Validate timezone if provided
     if (timezone) {
@@ -85,12 +95,20 @@ export async function PATCH(req: NextRequest) {
       }
     }
 
+    if (emailLanguage !== undefined && emailLanguage !== ENGLISH.code && !await findEnabledLanguage(emailLanguage)) {
+      return NextResponse.json(
+        { error: "Invalid email language" },
+        { status: 400 }
+      );
+    }
+
     // Update user profile
     const updates: {
       updatedAt: Date;
       name?: string;
       phoneNumber?: string;
       timezone?: string;
+      emailLanguage?: string;
     } = {
       updatedAt: new Date(),
     };
@@ -107,6 +125,10 @@ export async function PATCH(req: NextRequest) {
       updates.timezone = timezone;
     }
 
+    if (emailLanguage !== undefined) {
+      updates.emailLanguage = emailLanguage;
+    }
+
     await db
       .update(user)
       .set(updates)
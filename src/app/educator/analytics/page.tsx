@@ -10,17 +10,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Skeleton } from "@/components/ui/skeleton";
 import { logger } from "@/lib/logger";
 import { formatDateInTimezone } from "@/lib/timezone";
+import ScriptureHeatmap from "@/components/analytics/ScriptureHeatmap";
 import {
   PageHeader,
   PageContainer,
   Section,
   LoadingState,
   TabNavigation,
-  EmptyState
+  EmptyState,
+  ExportMenu
 } from "@/components/educator-v2";
 import {
   BarChart3,
   BookOpen,
+  Grid3x3,
   TrendingUp,
   TrendingDown,
   Users,
@@ -30,7 +33,6 @@ import {
   Target,
   Brain,
   Award,
-  Download,
   RefreshCw,
   PlusCircle,
   FileText,
@@ -91,7 +93,7 @@ export default function EducatorAnalyticsPage() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<"overview" | "quizzes" | "students" | "topics">("overview");
+  const [activeTab, setActiveTab] = useState<"overview" | "quizzes" | "students" | "topics" | "scripture">("overview");
   const [timeRange, setTimeRange] = useState<"week" | "month" | "all">("month");
   
   const [overallStats, setOverallStats] = useState<OverallStats | null>(null);
@@ -135,32 +137,6 @@ export default function EducatorAnalyticsPage() {
     fetchAnalytics(true);
   };
 
-  const handleExportReport = async () => {
-    try {
-      const data = {
-        timeRange,
-        overallStats,
-        quizPerformance,
-        studentPerformance,
-        topicPerformance,
-        generatedAt: new Date().toISOString()
-      };
-      
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `analytics-report-${timeRange}-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } catch (error) {
-      logger.error("Error exporting report:", error);
-      alert("Failed to export report. Please try again.");
-    }
-  };
-
   const formatTime = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`;
     const minutes = Math.floor(seconds / 60);
@@ -257,15 +233,7 @@ export default function EducatorAnalyticsPage() {
               <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
               {refreshing ? 'Refreshing...' : 'Refresh'}
             </Button>
-            <Button 
-              variant="outline"
-              size="sm"
-              onClick={handleExportReport}
-              className="border-amber-200 hover:bg-amber-50"
-            >
-              <Download className="h-4 w-4 mr-2" />
-              Export
-            </Button>
+            <ExportMenu endpoint={`/api/educator/analytics?timeRange=${timeRange}`} />
           </div>
         }
       />
@@ -374,10 +342,11 @@ export default function EducatorAnalyticsPage() {
               { id: 'overview', label: 'Overview', icon: BarChart3 },
               { id: 'quizzes', label: 'Quizzes', icon: BookOpen },
               { id: 'students', label: 'Students', icon: Users },
-              { id: 'topics', label: 'Topics', icon: Brain }
+              { id: 'topics', label: 'Topics', icon: Brain },
+              { id: 'scripture', label: 'Scripture', icon: Grid3x3 }
             ]}
             activeTab={activeTab}
-            onTabChange={(tab) => setActiveTab(tab as "overview" | "quizzes" | "students" | "topics")}
+            onTabChange={(tab) => setActiveTab(tab as "overview" | "quizzes" | "students" | "topics" | "scripture")}
           />
 
           {/* Tab Content */}
@@ -814,6 +783,10 @@ export default function EducatorAnalyticsPage() {
               </CardContent>
             </Card>
           ) : null}
+
+          {activeTab === "scripture" ? (
+            <ScriptureHeatmap timeRange={timeRange} />
+          ) : null}
             </>
           )}
         </Section>
@@ -44,6 +44,7 @@ import { PageContainer } from "@/components/educator-v2/layout/PageContainer";
 import { Section } from "@/components/educator-v2/layout/Section";
 import { LoadingState } from "@/components/educator-v2/feedback/LoadingState";
 import { EmptyState } from "@/components/educator-v2/feedback/EmptyState";
+import ScriptureHeatmap from "@/components/analytics/ScriptureHeatmap";
 import { logger } from "@/lib/logger";
 
 interface GroupDetails {
@@ -553,6 +554,10 @@ export default function GroupManagePage() {
         )}
       </Section>
 
+      <div className="mt-6">
+        <ScriptureHeatmap timeRange="all" scope={{ type: "group", groupId }} title="Group Scripture Heatmap" />
+      </div>
+
       {/* Add Members Dialog */}
       <Dialog open={showAddMembersDialog} onOpenChange={setShowAddMembersDialog}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
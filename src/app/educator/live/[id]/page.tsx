@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { Radio, Users, Play, SkipForward, Square, Eye, CheckCircle, Loader2, ArrowLeft } from "lucide-react";
+import { LoadingState, EmptyState } from "@/components/educator-v2";
+import { LiveCountdown, LiveLeaderboard, liveOptionStyle } from "@/components/live";
+import { useToast } from "@/components/ui/use-toast";
+import { useLiveSessionEvents } from "@/hooks/useLiveSessionEvents";
+import type { LeaderboardEntry, LiveAction } from "@/lib/live-quiz";
+import { logger } from "@/lib/logger";
+
+interface HostView {
+  session: {
+    id: string;
+    quizTitle: string;
+    joinCode: string;
+    status: "lobby" | "question" | "leaderboard" | "ended";
+    currentIndex: number;
+    totalQuestions: number;
+    secondsPerQuestion: number;
+    questionEndsAt: string | null;
+    serverTime: string;
+  };
+  participants: { id: string; displayName: string }[];
+  question: {
+    id: string;
+    index: number;
+    questionText: string;
+    questionType: string;
+    options: { id: string; text: string }[];
+  } | null;
+  correctAnswer: string | null;
+  answers: { total: number; correct: number | null; byOption: Record<string, number> | null };
+  leaderboard: LeaderboardEntry[];
+}
+
+export default function LiveHostPage() {
+  const params = useParams();
+  const sessionId = params.id as string;
+  const { toast } = useToast();
+
+  const [view, setView] = useState<HostView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+
+  const fetchView = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/educator/live/${sessionId}`);
+      if (response.ok) {
+        setView(await response.json());
+      } else {
+        logger.error("Failed to fetch live session");
+      }
+    } catch (error) {
+      logger.error("Error fetching live session:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchView();
+  }, [fetchView]);
+
+  useLiveSessionEvents(sessionId, fetchView);
+
+  const act = useCallback(async (action: LiveAction) => {
+    setActing(true);
+    try {
+      const response = await fetch(`/api/educator/live/${sessionId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setView(data);
+      } else if (response.status === 409) {
+        // Someone (or the timer) got there first; just catch up
+        fetchView();
+      } else {
+        toast({ title: "Couldn't update the session", description: data.error, variant: "destructive" });
+      }
+    } catch (error) {
+      logger.error("Error updating live session:", error);
+    } finally {
+      setActing(false);
+    }
+  }, [sessionId, fetchView, toast]);
+
+  if (loading) {
+    return <LoadingState fullPage text="Loading live session..." />;
+  }
+
+  if (!view) {
+    return (
+      <EmptyState
+        icon={Radio}
+        title="Live session not found"
+        description="It may have been closed, or it belongs to another educator."
+      />
+    );
+  }
+
+  const { session, question, answers } = view;
+  const joinUrl = typeof window !== "undefined" ? `${window.location.origin}/student/live?code=${session.joinCode}` : "";
+  const everyoneAnswered = view.participants.length > 0 && answers.total >= view.participants.length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-amber-50 to-white dark:from-gray-900 dark:to-gray-950 px-6 py-6">
+      {/* Top bar */}
+      <div className="mx-auto max-w-6xl flex items-center justify-between gap-4 mb-8">
+        <div className="flex items-center gap-3 min-w-0">
+          <Radio className="h-6 w-6 text-red-500 animate-pulse shrink-0" />
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white truncate">{session.quizTitle}</h1>
+            <p className="text-sm text-gray-500">
+              {session.status === "lobby" || session.status === "ended"
+                ? `${session.totalQuestions} questions`
+                : `Question ${session.currentIndex + 1} of ${session.totalQuestions}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          {session.status !== "ended" && (
+            <div className="text-right">
+              <p className="text-xs uppercase tracking-wide text-gray-500">Join code</p>
+              <p className="font-mono text-2xl font-bold tracking-widest text-amber-700">{session.joinCode}</p>
+            </div>
+          )}
+          <div className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+            <Users className="h-5 w-5" />
+            <span className="font-semibold">{view.participants.length}</span>
+          </div>
+          {session.status !== "ended" && (
+            <Button variant="outline" size="sm" onClick={() => act("end")} disabled={acting}>
+              <Square className="h-4 w-4 mr-2" />
+              End
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-6xl">
+        {/* Lobby */}
+        {session.status === "lobby" && (
+          <div className="text-center space-y-8">
+            <div>
+              <p className="text-lg text-gray-600 dark:text-gray-300">
+                Go to <span className="font-semibold">{joinUrl.replace(/\?.*$/, "")}</span> and enter
+              </p>
+              <p className="mt-2 font-mono text-7xl font-black tracking-[0.3em] text-amber-700">{session.joinCode}</p>
+            </div>
+            <div className="flex flex-wrap justify-center gap-2 min-h-[3rem]">
+              {view.participants.length === 0 ? (
+                <p className="text-gray-500">Waiting for students to join...</p>
+              ) : (
+                view.participants.map(participant => (
+                  <span key={participant.id} className="rounded-full bg-white dark:bg-gray-800 px-4 py-2 font-medium shadow-sm">
+                    {participant.displayName}
+                  </span>
+                ))
+              )}
+            </div>
+            <Button
+              size="lg"
+              onClick={() => act("start")}
+              disabled={acting}
+              className="bg-amber-600 hover:bg-amber-700 text-lg px-10"
+            >
+              <Play className="h-5 w-5 mr-2" />
+              Start
+            </Button>
+          </div>
+        )}
+
+        {/* Question / results */}
+        {(session.status === "question" || session.status === "leaderboard") && question && (
+          <div className="space-y-8">
+            <div className="flex items-start gap-6">
+              <h2 className="flex-1 text-3xl font-bold leading-snug text-gray-900 dark:text-white">
+                {question.questionText}
+              </h2>
+              {session.status === "question" && (
+                <LiveCountdown
+                  endsAt={session.questionEndsAt}
+                  serverTime={session.serverTime}
+                  totalSeconds={session.secondsPerQuestion}
+                  onExpire={() => act("reveal")}
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {question.options.map((option, index) => {
+                const style = liveOptionStyle(index);
+                const revealed = session.status === "leaderboard";
+                const isCorrect = option.id === view.correctAnswer;
+                const picks = answers.byOption?.[option.id] ?? 0;
+                return (
+                  <div
+                    key={option.id}
+                    className={`relative flex items-center gap-4 rounded-xl px-6 py-5 text-xl font-semibold transition ${style.tile} ${
+                      revealed && !isCorrect ? "opacity-40" : ""
+                    }`}
+                  >
+                    <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-black/20 font-black">
+                      {style.letter}
+                    </span>
+                    <span className="flex-1">{option.text}</span>
+                    {revealed && (
+                      <span className="flex items-center gap-2">
+                        {isCorrect && <CheckCircle className="h-6 w-6" />}
+                        <span className="tabular-nums">{picks}</span>
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {session.status === "question" ? (
+              <div className="flex items-center justify-between">
+                <p className="text-lg text-gray-600 dark:text-gray-300">
+                  <span className="font-bold text-gray-900 dark:text-white">{answers.total}</span> of {view.participants.length} answered
+                  {everyoneAnswered && " — everyone's in!"}
+                </p>
+                <Button onClick={() => act("reveal")} disabled={acting} className="bg-amber-600 hover:bg-amber-700">
+                  <Eye className="h-4 w-4 mr-2" />
+                  Show Results
+                </Button>
+              </div>
+            ) : (
+              <div className="grid gap-8 lg:grid-cols-[1fr_auto]">
+                <div>
+                  <h3 className="mb-3 text-lg font-semibold text-gray-900 dark:text-white">Leaderboard</h3>
+                  <LiveLeaderboard entries={view.leaderboard} large />
+                </div>
+                <div className="flex flex-col items-end justify-between gap-4">
+                  <p className="text-lg text-gray-600 dark:text-gray-300">
+                    {answers.correct ?? 0} of {answers.total} got it right
+                  </p>
+                  <Button size="lg" onClick={() => act("next")} disabled={acting} className="bg-amber-600 hover:bg-amber-700">
+                    {acting ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <SkipForward className="h-5 w-5 mr-2" />}
+                    {session.currentIndex + 1 >= session.totalQuestions ? "Final Results" : "Next Question"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Final standings */}
+        {session.status === "ended" && (
+          <div className="mx-auto max-w-2xl space-y-6 text-center">
+            <h2 className="text-4xl font-black text-gray-900 dark:text-white">Final Results</h2>
+            <LiveLeaderboard entries={view.leaderboard} large />
+            <Link href="/educator/quizzes">
+              <Button variant="outline">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Quizzes
+              </Button>
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,8 @@ import {
   Target,
   Brain,
   Timer,
+  ShieldAlert,
+  Users,
 } from "lucide-react";
 import {
   PageHeader,
@@ -32,6 +34,8 @@ import {
   TabNavigation
 } from "@/components/educator-v2";
 import { logger } from "@/lib/logger";
+import { MASTERY_LABELS, type MasteryLevel } from "@/lib/adaptive-quiz";
+import type { IntegrityRiskLevel, IntegritySignal } from "@/lib/integrity";
 
 interface QuestionResult {
   id: string;
@@ -39,7 +43,12 @@ interface QuestionResult {
   options: { id: string; text: string }[];
   correctAnswer: string;
   selectedAnswer: string;
+  questionType?: string;
+  selectedAnswerText?: string;
+  correctAnswerText?: string;
   isCorrect: boolean;
+  pointsAwarded?: number | null;
+  pointsPossible?: number | null;
   explanation?: string;
   book?: string;
   chapter?: string;
@@ -67,6 +76,43 @@ interface Analytics {
   questionPerformance: { questionNumber: number; isCorrect: boolean; timeSpent: number; topic?: string; difficulty?: string; bloomsLevel?: string }[];
 }
 
+interface AdaptiveDetail {
+  ladder: string;
+  masteryLevel: MasteryLevel;
+  masteryEstimate: number;
+  highestLevel: string | null;
+  path: { questionId: string; level: string | null; isCorrect: boolean; timeSpent: number }[];
+}
+
+interface IntegrityReport {
+  riskScore: number;
+  riskLevel: IntegrityRiskLevel;
+  signals: { signal: IntegritySignal; value: number; threshold: number; flagged: boolean; points: number }[];
+  telemetry: { eventType: string; count: number; lastAt: string }[];
+  fastAnswers: { questionId: string; questionText: string; timeSpent: number; expectedSeconds: number }[];
+  timedAnswers: number;
+  similarAttempts: {
+    attemptId: string;
+    studentName: string;
+    sharedWrongAnswers: number;
+    sharedAnswers: number;
+    comparedQuestions: number;
+  }[];
+}
+
+const RISK_LEVELS: Record<IntegrityRiskLevel, { label: string; className: string }> = {
+  low: { label: "Low risk", className: "bg-green-100 text-green-800" },
+  medium: { label: "Medium risk", className: "bg-yellow-100 text-yellow-800" },
+  high: { label: "High risk", className: "bg-red-100 text-red-800" },
+};
+
+const INTEGRITY_SIGNALS: Record<IntegritySignal, { label: string; format: (value: number) => string }> = {
+  tab_switches: { label: "Tab and window switches", format: value => String(value) },
+  paste_events: { label: "Paste events", format: value => String(value) },
+  fast_answers: { label: "Answers faster than reading time", format: value => `${Math.round(value * 100)}%` },
+  shared_answers: { label: "Identical wrong answers with one student", format: value => String(value) },
+};
+
 interface AttemptDetail {
   attemptId: string;
   quizTitle: string;
@@ -79,12 +125,16 @@ interface AttemptDetail {
   correctAnswers: number;
   totalQuestions: number;
   wrongAnswers: number;
+  pointsEarned?: number | null; // Null for attempts scored before weighted scoring
+  pointsPossible?: number | null;
   timeTaken: number;
   startTime: string;
   endTime: string;
   status: string;
   questions: QuestionResult[];
   analytics: Analytics;
+  adaptive?: AdaptiveDetail | null;
+  integrity?: IntegrityReport | null;
 }
 
 export default function EducatorAttemptDetailPage() {
@@ -137,6 +187,10 @@ export default function EducatorAttemptDetailPage() {
     return optionId.toUpperCase();
   };
 
+  // Letter labels only make sense for single-choice answers; other types come pre-formatted
+  const isSingleAnswer = (question: QuestionResult) =>
+    !question.questionType || question.questionType === "multiple_choice" || question.questionType === "true_false";
+
   if (loading) {
     return <LoadingState fullPage text="Loading attempt details..." />;
   }
@@ -211,7 +265,39 @@ export default function EducatorAttemptDetailPage() {
             <p className="text-gray-600 dark:text-gray-400">
               {attempt.gradeDescription} • {attempt.gradePoints.toFixed(1)} points
             </p>
+            {attempt.pointsPossible != null && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {attempt.pointsEarned ?? 0} of {attempt.pointsPossible} quiz points
+              </p>
+            )}
+            {attempt.adaptive && (
+              <p className="text-sm font-medium text-gray-900 dark:text-white mt-1">
+                Mastery: {MASTERY_LABELS[attempt.adaptive.masteryLevel] ?? attempt.adaptive.masteryLevel} ({attempt.adaptive.masteryEstimate}/100)
+              </p>
+            )}
           </div>
+          {attempt.adaptive && (
+            <div className="mb-4">
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+                Adaptive path ({attempt.adaptive.ladder === "blooms" ? "Bloom's level" : "difficulty"})
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {attempt.adaptive.path.map((step, index) => (
+                  <span
+                    key={step.questionId}
+                    title={`Q${index + 1}: ${step.isCorrect ? "correct" : "incorrect"}, ${step.timeSpent}s`}
+                    className={`px-2 py-0.5 rounded text-xs capitalize ${
+                      step.isCorrect
+                        ? 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                        : 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                    }`}
+                  >
+                    {index + 1}. {step.level ?? "?"}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="grid grid-cols-3 gap-4 text-center">
             <div>
               <div className="text-xl font-bold text-amber-600">
@@ -235,6 +321,92 @@ export default function EducatorAttemptDetailPage() {
         </Section>
       </div>
 
+      {/* Integrity */}
+      {attempt.integrity && (
+        <Section
+          title="Integrity Signals"
+          description="Thresholds are set per quiz. A high score is a reason to look closer, not proof of misconduct."
+          icon={ShieldAlert}
+          className="mb-6"
+          actions={
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${RISK_LEVELS[attempt.integrity.riskLevel].className}`}>
+              {RISK_LEVELS[attempt.integrity.riskLevel].label} · {attempt.integrity.riskScore}/100
+            </span>
+          }
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+            {attempt.integrity.signals.map(signal => (
+              <div
+                key={signal.signal}
+                className={`p-3 rounded-lg border ${
+                  signal.flagged
+                    ? 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <p className="text-xs text-gray-600 dark:text-gray-400">{INTEGRITY_SIGNALS[signal.signal].label}</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-white">
+                  {INTEGRITY_SIGNALS[signal.signal].format(signal.value)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Flagged at {INTEGRITY_SIGNALS[signal.signal].format(signal.threshold)} · {signal.points} pts
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {attempt.integrity.telemetry.length > 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              Recorded events: {attempt.integrity.telemetry.map(event => `${event.eventType.replace(/^user_|^network_/, "").replace(/_/g, " ")} ×${event.count}`).join(", ")}
+            </p>
+          )}
+
+          {attempt.integrity.timedAnswers === 0 && (
+            <p className="text-sm text-gray-500 mb-3">This attempt has no per-question timing, so answer speed wasn&apos;t checked.</p>
+          )}
+
+          {attempt.integrity.fastAnswers.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                Fast answers ({attempt.integrity.fastAnswers.length} of {attempt.integrity.timedAnswers})
+              </p>
+              <ul className="space-y-1">
+                {attempt.integrity.fastAnswers.map(answer => (
+                  <li key={answer.questionId} className="text-sm text-gray-600 dark:text-gray-400 flex justify-between gap-4">
+                    <span className="truncate">{answer.questionText}</span>
+                    <span className="whitespace-nowrap">{answer.timeSpent}s (reading takes ~{answer.expectedSeconds}s)</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {attempt.integrity.similarAttempts.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Most similar attempts
+              </p>
+              <ul className="space-y-1">
+                {attempt.integrity.similarAttempts.map(similar => (
+                  <li key={similar.attemptId} className="text-sm flex justify-between gap-4">
+                    <Link
+                      href={`/educator/quiz/${quizId}/attempt/${similar.attemptId}`}
+                      className="text-amber-700 hover:underline"
+                    >
+                      {similar.studentName}
+                    </Link>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {similar.sharedWrongAnswers} identical wrong · {similar.sharedAnswers}/{similar.comparedQuestions} identical overall
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </Section>
+      )}
+
       {/* Tabs */}
       <TabNavigation
         tabs={[
@@ -383,6 +555,11 @@ export default function EducatorAttemptDetailPage() {
                     ) : (
                       <XCircle className="h-5 w-5 text-orange-500" />
                     )}
+                    {question.pointsPossible != null && (
+                      <span className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-2 py-1 rounded">
+                        {question.pointsAwarded ?? 0}/{question.pointsPossible} pts
+                      </span>
+                    )}
                     {question.markedForReview && (
                       <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
                         Marked for Review
@@ -439,14 +616,18 @@ export default function EducatorAttemptDetailPage() {
                     <span className={`font-medium ${
                       question.isCorrect ? "text-amber-600" : "text-orange-600"
                     }`}>
-                      {getOptionLabel(question.selectedAnswer || "Not Answered")}
+                      {isSingleAnswer(question)
+                        ? getOptionLabel(question.selectedAnswer || "Not Answered")
+                        : question.selectedAnswerText}
                     </span>
                   </div>
                   {!question.isCorrect && (
                     <div className="flex items-center gap-2">
                       <span className="text-gray-600 dark:text-gray-400">Correct Answer:</span>
                       <span className="font-medium text-amber-600">
-                        {getOptionLabel(question.correctAnswer)}
+                        {isSingleAnswer(question)
+                          ? getOptionLabel(question.correctAnswer)
+                          : question.correctAnswerText}
                       </span>
                     </div>
                   )}
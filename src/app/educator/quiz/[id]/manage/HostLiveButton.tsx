@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Radio, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useFeatureFlag } from "@/hooks/useFeatureFlag";
+import { logger } from "@/lib/logger";
+
+const TIMER_OPTIONS = [10, 20, 30, 45, 60, 90];
+
+interface HostLiveButtonProps {
+  quizId: string;
+}
+
+/**
+ * Button + dialog for opening a live, host-paced session of a quiz on the projector
+ */
+export function HostLiveButton({ quizId }: HostLiveButtonProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const enabled = useFeatureFlag("LIVE_QUIZ_HOSTING");
+  const [open, setOpen] = useState(false);
+  const [seconds, setSeconds] = useState(20);
+  const [starting, setStarting] = useState(false);
+
+  if (!enabled) return null;
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      const response = await fetch("/api/educator/live", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quizId, secondsPerQuestion: seconds }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to open live session");
+      router.push(`/educator/live/${data.sessionId}`);
+    } catch (error) {
+      logger.error("Error opening live session:", error);
+      toast({
+        title: "Couldn't start a live session",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+      setStarting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Radio className="h-4 w-4 mr-2" />
+        Host Live
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Host a Live Session</DialogTitle>
+            <DialogDescription>
+              Put the quiz on the projector and move the class through it one question at a time.
+              Students join with a code and a leaderboard shows after every question.
+              Only multiple choice and true/false questions are played.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Time per question</Label>
+            <Select value={String(seconds)} onValueChange={(value) => setSeconds(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMER_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option} seconds</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleStart} disabled={starting} className="bg-amber-600 hover:bg-amber-700">
+              {starting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Opening...
+                </>
+              ) : (
+                "Open Lobby"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { Printer, FileText, ClipboardList, KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { logger } from "@/lib/logger";
+
+type PaperDocument = "quiz" | "answer-sheet" | "answer-key";
+type CopiesMode = "master" | "versions" | "students";
+
+const DOCUMENTS: { value: PaperDocument; label: string; icon: typeof FileText }[] = [
+  { value: "quiz", label: "Question Paper", icon: FileText },
+  { value: "answer-sheet", label: "Answer Sheet", icon: ClipboardList },
+  { value: "answer-key", label: "Answer Key", icon: KeyRound },
+];
+
+interface PrintQuizButtonProps {
+  quizId: string;
+  enrolledCount: number;
+}
+
+/**
+ * Button + dialog for downloading printable PDFs of a quiz, its bubble answer sheet and answer key
+ */
+export function PrintQuizButton({ quizId, enrolledCount }: PrintQuizButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [copies, setCopies] = useState<CopiesMode>("master");
+  const [versions, setVersions] = useState(2);
+  const [downloading, setDownloading] = useState<PaperDocument | null>(null);
+
+  const handleDownload = async (document: PaperDocument) => {
+    setDownloading(document);
+    try {
+      const params = new URLSearchParams({ document, copies });
+      if (copies === "versions") params.set("versions", String(versions));
+
+      const response = await fetch(`/api/educator/quiz/${quizId}/print?${params}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to generate PDF");
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${document}.pdf`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = window.document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      window.document.body.appendChild(a);
+      a.click();
+      window.document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      logger.error("Error downloading printable quiz:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        title="Print the quiz for classes without devices"
+      >
+        <Printer className="h-4 w-4 mr-2" />
+        Print
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-amber-900">Print Paper Quiz</DialogTitle>
+            <DialogDescription className="text-amber-700">
+              Download the question paper, a bubble answer sheet and the matching answer key.
+              Shuffled copies always come out the same, so you can print the key later.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label>Copies</Label>
+              <Select value={copies} onValueChange={(value) => setCopies(value as CopiesMode)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="master">One version for everyone</SelectItem>
+                  <SelectItem value="versions">Shuffled versions (A, B, C...)</SelectItem>
+                  <SelectItem value="students" disabled={enrolledCount === 0}>
+                    One shuffled copy per student ({enrolledCount})
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                {copies === "students"
+                  ? "Each copy is printed with the student's name"
+                  : copies === "versions"
+                    ? "Hand out versions in rotation so neighbours get different papers"
+                    : "Questions and options in their saved order"}
+              </p>
+            </div>
+
+            {copies === "versions" && (
+              <div>
+                <Label htmlFor="paper-versions">Number of versions</Label>
+                <Input
+                  id="paper-versions"
+                  type="number"
+                  min={2}
+                  max={10}
+                  step={1}
+                  value={versions}
+                  onChange={(e) => setVersions(Math.min(10, Math.max(2, Number(e.target.value) || 2)))}
+                  className="mt-1 w-24"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pt-2">
+              {DOCUMENTS.map(({ value, label, icon: Icon }) => (
+                <Button
+                  key={value}
+                  variant="outline"
+                  onClick={() => handleDownload(value)}
+                  disabled={downloading !== null}
+                  className="border-amber-200 hover:bg-amber-50"
+                >
+                  {downloading === value
+                    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    : <Icon className="h-4 w-4 mr-2" />}
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -39,8 +39,11 @@ import {
   RefreshCw,
   AlertCircle,
   Settings,
+  Activity,
 } from "lucide-react";
 import { ShareLinkButton } from "@/components/quiz/ShareLinkButton";
+import { PrintQuizButton } from "./PrintQuizButton";
+import { HostLiveButton } from "./HostLiveButton";
 import { PageHeader, PageContainer, Section, LoadingState } from "@/components/educator-v2";
 import { logger } from "@/lib/logger";
 
@@ -487,6 +490,14 @@ export default function QuizManagePage() {
                 View Quiz
               </Button>
             </Link>
+            <PrintQuizButton quizId={quizId} enrolledCount={enrollmentSummary.uniqueStudents} />
+            <HostLiveButton quizId={quizId} />
+            <Link href={`/educator/quiz/${quizId}/monitor`}>
+              <Button variant="outline" size="sm">
+                <Activity className="h-4 w-4 mr-2" />
+                Live Monitor
+              </Button>
+            </Link>
             <Button 
               onClick={openReassignDialog}
               variant="outline"
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import {
+  Activity,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Moon,
+  PlayCircle,
+  Send,
+  UserX,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PageHeader } from "@/components/educator-v2/layout/PageHeader";
+import { PageContainer } from "@/components/educator-v2/layout/PageContainer";
+import { Section } from "@/components/educator-v2/layout/Section";
+import { LoadingState } from "@/components/educator-v2/feedback/LoadingState";
+import { EmptyState } from "@/components/educator-v2/feedback/EmptyState";
+import { logger } from "@/lib/logger";
+import { useToast } from "@/hooks/use-toast";
+import type { ProctoringFlag, ProctoringState } from "@/lib/proctoring";
+
+interface FlagCount {
+  eventType: ProctoringFlag;
+  count: number;
+  lastAt: string;
+}
+
+interface MonitoredStudent {
+  studentId: string;
+  name: string;
+  email: string;
+  state: ProctoringState;
+  attemptId: string | null;
+  startedAt: string | null;
+  lastSeenAt: string | null;
+  submittedAt: string | null;
+  currentQuestionIndex: number | null;
+  answeredCount: number;
+  totalQuestions: number;
+  timeRemaining: number | null;
+  extraTimeSeconds: number;
+  forceSubmitted: boolean;
+  flags: FlagCount[];
+}
+
+interface MonitorData {
+  quizId: string;
+  title: string;
+  duration: number;
+  serverTime: string;
+  students: MonitoredStudent[];
+  counts: Record<ProctoringState, number>;
+}
+
+const REFRESH_INTERVAL_MS = 5000;
+const EXTEND_OPTIONS = [5, 10, 15, 30];
+
+const STATES: Record<ProctoringState, { label: string; className: string; icon: typeof Activity }> = {
+  not_started: { label: "Not started", className: "bg-gray-100 text-gray-700", icon: UserX },
+  in_progress: { label: "In progress", className: "bg-green-100 text-green-800", icon: PlayCircle },
+  idle: { label: "Idle", className: "bg-yellow-100 text-yellow-800", icon: Moon },
+  submitted: { label: "Submitted", className: "bg-blue-100 text-blue-800", icon: CheckCircle },
+};
+
+const FLAG_LABELS: Record<ProctoringFlag, string> = {
+  user_tab_switch: "Tab switch",
+  user_app_switch: "Left window",
+  user_copy: "Copy",
+  user_paste: "Paste",
+  network_offline: "Went offline",
+};
+
+function formatClock(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
+
+function formatAgo(iso: string | null, now: number) {
+  if (!iso) return "—";
+  const seconds = Math.max(0, Math.round((now - new Date(iso).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return new Date(iso).toLocaleTimeString();
+}
+
+export default function QuizMonitorPage() {
+  const params = useParams();
+  const quizId = params.id as string;
+  const { toast } = useToast();
+
+  const [data, setData] = useState<MonitorData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fetchedAt, setFetchedAt] = useState(Date.now());
+  const [now, setNow] = useState(Date.now());
+  const [extendMinutes, setExtendMinutes] = useState<Record<string, number>>({});
+  const [busyStudentId, setBusyStudentId] = useState<string | null>(null);
+
+  const fetchMonitor = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/monitor`);
+      if (response.ok) {
+        setData(await response.json());
+        setFetchedAt(Date.now());
+      } else {
+        logger.error("Failed to fetch quiz monitor");
+      }
+    } catch (error) {
+      logger.error("Error fetching quiz monitor:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [quizId]);
+
+  useEffect(() => {
+    fetchMonitor();
+    const interval = setInterval(fetchMonitor, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchMonitor]);
+
+  // Tick the countdowns between refreshes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const intervene = async (student: MonitoredStudent, action: "extend" | "force_submit") => {
+    const minutes = extendMinutes[student.studentId] ?? EXTEND_OPTIONS[0];
+    if (action === "force_submit" && !confirm(`Submit ${student.name}'s quiz now with the answers saved so far?`)) {
+      return;
+    }
+
+    setBusyStudentId(student.studentId);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/monitor`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, studentId: student.studentId, minutes }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to update the attempt");
+
+      setData(result);
+      setFetchedAt(Date.now());
+      toast({
+        title: action === "extend" ? "Time Extended" : "Quiz Submitted",
+        description: action === "extend"
+          ? `${student.name} has ${minutes} more minute${minutes === 1 ? "" : "s"}.`
+          : `${student.name}'s quiz was submitted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the attempt",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyStudentId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingState fullPage text="Loading quiz monitor..." />;
+  }
+
+  if (!data) {
+    return (
+      <PageContainer>
+        <EmptyState
+          icon={AlertCircle}
+          title="Monitor Unavailable"
+          description="This quiz could not be loaded."
+          action={{
+            label: "Back to Quiz",
+            onClick: () => window.location.href = `/educator/quiz/${quizId}/manage`
+          }}
+        />
+      </PageContainer>
+    );
+  }
+
+  const elapsed = Math.floor((now - fetchedAt) / 1000);
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Live Monitor"
+        subtitle={data.title}
+        icon={Activity}
+        backButton={{
+          href: `/educator/quiz/${quizId}/manage`,
+          label: "Manage Quiz"
+        }}
+      />
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {(Object.keys(STATES) as ProctoringState[]).map(state => {
+          const { label, icon: Icon } = STATES[state];
+          return (
+            <div key={state} className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-amber-100">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{label}</p>
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">{data.counts[state]}</p>
+                </div>
+                <Icon className="h-8 w-8 text-amber-600 opacity-20" />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Section
+        title="Students"
+        description={`Refreshes every ${REFRESH_INTERVAL_MS / 1000} seconds. Idle means the quiz page hasn't checked in for over a minute and a half.`}
+        icon={Clock}
+      >
+        {data.students.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No students are assigned to this quiz yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-amber-50 dark:bg-amber-900/20">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Student</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">State</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Progress</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Time Left</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Last Seen</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Flags</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y dark:divide-gray-700">
+                {data.students.map(student => {
+                  const state = STATES[student.state];
+                  const open = student.state === "in_progress" || student.state === "idle";
+                  const timeLeft = student.timeRemaining !== null ? Math.max(0, student.timeRemaining - elapsed) : null;
+                  const busy = busyStudentId === student.studentId;
+                  return (
+                    <tr key={student.studentId} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-4 py-3">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{student.name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{student.email}</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${state.className}`}>
+                          {state.label}
+                        </span>
+                        {student.forceSubmitted && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Submitted by educator</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {student.state === "not_started" ? "—" : (
+                          <>
+                            {open && student.currentQuestionIndex !== null && (
+                              <p>Question {student.currentQuestionIndex + 1} of {student.totalQuestions}</p>
+                            )}
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {student.answeredCount} of {student.totalQuestions} answered
+                            </p>
+                          </>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {timeLeft !== null ? (
+                          <span className={`font-mono ${timeLeft <= 300 ? "text-red-600 font-semibold" : "text-gray-700 dark:text-gray-300"}`}>
+                            {formatClock(timeLeft)}
+                          </span>
+                        ) : "—"}
+                        {student.extraTimeSeconds > 0 && (
+                          <p className="text-xs text-amber-700 dark:text-amber-400">
+                            +{Math.round(student.extraTimeSeconds / 60)} min extra
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
+                        {open ? formatAgo(student.lastSeenAt ?? student.startedAt, now) : formatAgo(student.submittedAt, now)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {student.flags.length === 0 ? (
+                            <span className="text-xs text-gray-400">None</span>
+                          ) : student.flags.map(flag => (
+                            <span
+                              key={flag.eventType}
+                              title={`Last at ${new Date(flag.lastAt).toLocaleTimeString()}`}
+                              className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800"
+                            >
+                              <AlertTriangle className="h-3 w-3" />
+                              {FLAG_LABELS[flag.eventType] ?? flag.eventType} ×{flag.count}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {open && (
+                          <div className="flex items-center justify-end gap-2">
+                            <select
+                              value={extendMinutes[student.studentId] ?? EXTEND_OPTIONS[0]}
+                              onChange={(e) => setExtendMinutes(prev => ({ ...prev, [student.studentId]: Number(e.target.value) }))}
+                              className="h-8 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-sm"
+                              aria-label={`Extra minutes for ${student.name}`}
+                            >
+                              {EXTEND_OPTIONS.map(minutes => (
+                                <option key={minutes} value={minutes}>+{minutes} min</option>
+                              ))}
+                            </select>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busy}
+                              onClick={() => intervene(student, "extend")}
+                            >
+                              <Clock className="h-4 w-4 mr-1" />
+                              Extend
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busy}
+                              onClick={() => intervene(student, "force_submit")}
+                              className="text-red-600 border-red-200 hover:bg-red-50"
+                            >
+                              <Send className="h-4 w-4 mr-1" />
+                              Submit
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+    </PageContainer>
+  );
+}
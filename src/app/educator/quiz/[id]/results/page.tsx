@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 
@@ -16,13 +16,21 @@ import {
   XCircle,
   AlertCircle,
   Eye,
+  BarChart3,
+  ChevronDown,
+  ChevronUp,
+  Globe,
 } from "lucide-react";
 import { PageHeader } from "@/components/educator-v2/layout/PageHeader";
 import { PageContainer } from "@/components/educator-v2/layout/PageContainer";
 import { Section } from "@/components/educator-v2/layout/Section";
 import { LoadingState } from "@/components/educator-v2/feedback/LoadingState";
 import { EmptyState } from "@/components/educator-v2/feedback/EmptyState";
+import { ExportMenu } from "@/components/educator-v2/actions/ExportMenu";
 import { logger } from "@/lib/logger";
+import { SCORE_MODE_LABELS, type ScoreMode } from "@/lib/attempt-policy";
+import type { ItemFlag, ItemStatistics } from "@/lib/item-analysis";
+import type { IntegrityRisk, IntegrityRiskLevel } from "@/lib/integrity";
 
 interface StudentAttempt {
   id: string;
@@ -33,9 +41,22 @@ interface StudentAttempt {
   isPassed: boolean;
   correctAnswers: number;
   totalQuestions: number;
+  pointsEarned?: number | null; // Null for attempts scored before weighted scoring
+  pointsPossible?: number | null;
   timeTaken: number;
   completedAt: string;
   status: string;
+  language?: string;
+  integrity?: IntegrityRisk | null; // Completed attempts only
+}
+
+interface LanguageResults {
+  language: string;
+  name: string;
+  attempts: number;
+  averageScore: number;
+  passRate: number;
+  averageTime: number;
 }
 
 interface QuizStatistics {
@@ -45,15 +66,32 @@ interface QuizStatistics {
   averageTime: number;
   highestScore: number;
   lowestScore: number;
+  scoreMode?: ScoreMode;
 }
 
 interface QuizResults {
   quizId: string;
   quizTitle: string;
   statistics: QuizStatistics;
+  language?: string | null;
+  languageBreakdown?: LanguageResults[];
+  itemAnalysis?: ItemStatistics[];
   attempts: StudentAttempt[];
 }
 
+const RISK_LEVELS: Record<IntegrityRiskLevel, string> = {
+  low: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+};
+
+const ITEM_FLAGS: Record<ItemFlag, { label: string; className: string }> = {
+  too_easy: { label: "Too easy", className: "bg-blue-100 text-blue-800" },
+  too_hard: { label: "Too hard", className: "bg-orange-100 text-orange-800" },
+  low_discrimination: { label: "Doesn't discriminate", className: "bg-gray-100 text-gray-800" },
+  distractor_beats_key: { label: "Distractor beats the key", className: "bg-red-100 text-red-800" },
+};
+
 export default function EducatorQuizResultsPage() {
   const params = useParams();
   const quizId = params.id as string;
@@ -61,14 +99,21 @@ export default function EducatorQuizResultsPage() {
   const [results, setResults] = useState<QuizResults | null>(null);
   const [loading, setLoading] = useState(true);
   const [filterStatus, setFilterStatus] = useState<"all" | "passed" | "failed">("all");
+  const [expandedItem, setExpandedItem] = useState<string | null>(null);
+  // Empty for every language
+  const [language, setLanguage] = useState("");
 
   useEffect(() => {
     fetchResults();
-  }, [quizId]);
+  }, [quizId, language]);
+
+  const resultsEndpoint = language
+    ? `/api/educator/quiz/${quizId}/results?language=${language}`
+    : `/api/educator/quiz/${quizId}/results`;
 
   const fetchResults = async () => {
     try {
-      const response = await fetch(`/api/educator/quiz/${quizId}/results`);
+      const response = await fetch(resultsEndpoint);
       if (response.ok) {
         const data = await response.json();
         setResults(data);
@@ -133,6 +178,7 @@ export default function EducatorQuizResultsPage() {
           href: "/educator/dashboard",
           label: "Dashboard"
         }}
+        actions={<ExportMenu endpoint={resultsEndpoint} />}
       />
 
       {/* Statistics Cards */}
@@ -189,7 +235,9 @@ export default function EducatorQuizResultsPage() {
       {/* Score Distribution */}
       <Section
         title="Score Distribution"
-        description="Performance overview across all attempts"
+        description={results.statistics.scoreMode
+          ? `Counting each student's ${SCORE_MODE_LABELS[results.statistics.scoreMode].toLowerCase()}`
+          : "Performance overview across all attempts"}
         icon={TrendingUp}
         className="mb-8"
       >
@@ -215,6 +263,159 @@ export default function EducatorQuizResultsPage() {
         </div>
       </Section>
 
+      {/* Results by Language - only once the quiz has been taken in more than one */}
+      {((results.languageBreakdown?.length ?? 0) > 1 || results.language) && (
+        <Section
+          title="By Language"
+          description={language
+            ? "Statistics, item analysis and attempts below only count attempts taken in the selected language"
+            : "How students did in each language they took the quiz in"}
+          icon={Globe}
+          className="mb-8"
+          actions={
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-amber-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 dark:bg-gray-800 dark:border-gray-600"
+            >
+              <option value="">All languages</option>
+              {results.languageBreakdown?.map(entry => (
+                <option key={entry.language} value={entry.language}>{entry.name}</option>
+              ))}
+            </select>
+          }
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-amber-50 dark:bg-amber-900/20">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Language</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Attempts</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Average Score</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Pass Rate</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Average Time</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {results.languageBreakdown?.map(entry => (
+                  <tr
+                    key={entry.language}
+                    className={entry.language === language ? "bg-amber-50/60 dark:bg-amber-900/10" : undefined}
+                  >
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">{entry.name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{entry.attempts}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{entry.averageScore.toFixed(1)}%</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{entry.passRate.toFixed(1)}%</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatTime(Math.round(entry.averageTime))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Section>
+      )}
+
+      {/* Item Analysis */}
+      {results.itemAnalysis && results.itemAnalysis.length > 0 && (
+        <Section
+          title="Item Analysis"
+          description="Proportion correct, discrimination (point-biserial against the rest of the quiz) and option picks for each question"
+          icon={BarChart3}
+          className="mb-8"
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-amber-50 dark:bg-amber-900/20">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">#</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Question</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Correct</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Discrimination</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Avg. Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Flags</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y dark:divide-gray-700">
+                {results.itemAnalysis.map((item, index) => (
+                  <Fragment key={item.questionId}>
+                    <tr
+                      className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                      onClick={() => setExpandedItem(expandedItem === item.questionId ? null : item.questionId)}
+                    >
+                      <td className="px-4 py-3 text-sm text-gray-500">{index + 1}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white max-w-md">
+                        <p className="line-clamp-2">{item.questionText}</p>
+                        <p className="text-xs text-gray-500">{item.responses} responses</p>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {item.difficultyIndex === null ? "—" : `${Math.round(item.difficultyIndex * 100)}%`}
+                      </td>
+                      <td className={`px-4 py-3 whitespace-nowrap text-sm font-medium ${
+                        item.discrimination === null ? "text-gray-400"
+                          : item.discrimination < 0.2 ? "text-orange-600" : "text-amber-700"
+                      }`}>
+                        {item.discrimination === null ? "—" : item.discrimination.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {item.averageTimeSpent === null ? "—" : formatTime(Math.round(item.averageTimeSpent))}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {item.flags.map(flag => (
+                            <span key={flag} className={`px-2 py-0.5 rounded-full text-xs font-medium ${ITEM_FLAGS[flag].className}`}>
+                              {ITEM_FLAGS[flag].label}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-gray-400">
+                        {expandedItem === item.questionId ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </td>
+                    </tr>
+                    {expandedItem === item.questionId && (
+                      <tr>
+                        <td />
+                        <td colSpan={6} className="px-4 pb-4">
+                          {item.options.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                              This question type has no fixed options to compare.
+                            </p>
+                          ) : (
+                            <div className="space-y-2">
+                              {item.options.map(option => (
+                                <div key={option.optionId} className="flex items-center gap-3 text-sm">
+                                  <span className={`w-48 truncate ${option.isCorrect ? "font-semibold text-amber-700" : "text-gray-700 dark:text-gray-300"}`}>
+                                    {option.isCorrect && <CheckCircle className="inline h-3 w-3 mr-1" />}
+                                    {option.text}
+                                  </span>
+                                  <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                                    <div
+                                      className={`h-2 rounded-full ${option.isCorrect ? "bg-amber-500" : "bg-gray-400"}`}
+                                      style={{ width: `${option.proportion * 100}%` }}
+                                    />
+                                  </div>
+                                  <span className="w-20 text-right text-gray-600 dark:text-gray-400">
+                                    {option.count} ({Math.round(option.proportion * 100)}%)
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {item.omitted > 0 && (
+                            <p className="mt-2 text-xs text-gray-500">{item.omitted} left blank</p>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Section>
+      )}
+
       {/* Student Attempts Table */}
       <Section
         title="Student Attempts"
@@ -278,6 +479,9 @@ export default function EducatorQuizResultsPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Completed
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Integrity
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Actions
                   </th>
@@ -318,6 +522,11 @@ export default function EducatorQuizResultsPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                       {attempt.correctAnswers}/{attempt.totalQuestions}
+                      {attempt.pointsPossible != null && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {attempt.pointsEarned ?? 0}/{attempt.pointsPossible} pts
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                       {formatTime(attempt.timeTaken)}
@@ -330,6 +539,18 @@ export default function EducatorQuizResultsPage() {
                           : "Not completed"
                       }
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {attempt.integrity ? (
+                        <span
+                          title={attempt.integrity.flags.length > 0 ? `Flagged: ${attempt.integrity.flags.join(", ").replace(/_/g, " ")}` : "Nothing flagged"}
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${RISK_LEVELS[attempt.integrity.riskLevel]}`}
+                        >
+                          {attempt.integrity.riskLevel} · {attempt.integrity.riskScore}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-gray-400">—</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <Link href={`/educator/quiz/${quizId}/attempt/${attempt.id}`}>
                         <Button variant="ghost" size="sm" className="hover:bg-amber-50">
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { TrendingUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { logger } from "@/lib/logger";
+import { LADDER_LEVELS, type AdaptiveConfig, type AdaptiveLadder } from "@/lib/adaptive-quiz";
+
+interface AdaptiveSettingsButtonProps {
+  quizId: string;
+}
+
+/**
+ * Button + dialog for turning a quiz into an adaptive pool that climbs or drops a level per answer
+ */
+export function AdaptiveSettingsButton({ quizId }: AdaptiveSettingsButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [config, setConfig] = useState<AdaptiveConfig | null>(null);
+  const [poolSize, setPoolSize] = useState(0);
+
+  const openDialog = async () => {
+    setOpen(true);
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/adaptive`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load adaptive settings");
+      setConfig(data.adaptive);
+      setPoolSize(data.poolSize);
+    } catch (error) {
+      logger.error("Error loading adaptive settings:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load adaptive settings",
+        variant: "destructive",
+      });
+      setOpen(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/adaptive`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ adaptive: config }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save adaptive settings");
+
+      toast({
+        title: "Adaptive settings updated",
+        description: config.enabled
+          ? `Students will be served ${config.questionCount} questions chosen from the pool.`
+          : "Students will take every question in the quiz.",
+      });
+      setOpen(false);
+    } catch (error) {
+      logger.error("Error saving adaptive settings:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save adaptive settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={openDialog}
+        title="Adapt question difficulty to each student's answers"
+      >
+        <TrendingUp className="h-4 w-4 mr-2" />
+        Adaptive
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-amber-900">Adaptive Quiz</DialogTitle>
+            <DialogDescription className="text-amber-700">
+              Each correct answer moves the student up a level, each wrong one moves them down.
+              Results report a mastery level as well as the score.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !config ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-amber-600" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="adaptive-enabled">Adaptive mode</Label>
+                <Switch
+                  id="adaptive-enabled"
+                  checked={config.enabled}
+                  onCheckedChange={(enabled) => setConfig({ ...config, enabled })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="adaptive-question-count">Questions per attempt</Label>
+                <Input
+                  id="adaptive-question-count"
+                  type="number"
+                  min={1}
+                  max={poolSize || undefined}
+                  step={1}
+                  value={config.questionCount}
+                  onChange={(e) => setConfig({ ...config, questionCount: Number(e.target.value) })}
+                  className="mt-1"
+                  disabled={!config.enabled}
+                />
+                <p className="text-xs text-gray-500 mt-1">Drawn from the {poolSize} questions in this quiz</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Adapt by</Label>
+                  <Select
+                    value={config.ladder}
+                    onValueChange={(value) => {
+                      const ladder = value as AdaptiveLadder;
+                      setConfig({ ...config, ladder, startLevel: LADDER_LEVELS[ladder][0] });
+                    }}
+                    disabled={!config.enabled}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="difficulty">Difficulty</SelectItem>
+                      <SelectItem value="blooms">Bloom&apos;s level</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Start at</Label>
+                  <Select
+                    value={config.startLevel}
+                    onValueChange={(startLevel) => setConfig({ ...config, startLevel })}
+                    disabled={!config.enabled}
+                  >
+                    <SelectTrigger className="mt-1 capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LADDER_LEVELS[config.ladder].map(level => (
+                        <SelectItem key={level} value={level} className="capitalize">
+                          {level}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Practice mode always runs through every question. Settings lock once students start the quiz.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || loading || !config}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              {saving ? "Saving..." : "Save Settings"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
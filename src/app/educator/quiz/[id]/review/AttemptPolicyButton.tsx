@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { logger } from "@/lib/logger";
+import { SCORE_MODES, SCORE_MODE_LABELS, type AttemptPolicy, type ScoreMode } from "@/lib/attempt-policy";
+
+interface AttemptPolicyButtonProps {
+  quizId: string;
+}
+
+/**
+ * Button + dialog for how many times students may take a quiz and which score counts
+ */
+export function AttemptPolicyButton({ quizId }: AttemptPolicyButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [policy, setPolicy] = useState<AttemptPolicy | null>(null);
+
+  const openDialog = async () => {
+    setOpen(true);
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/attempt-policy`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load attempt policy");
+      setPolicy(data.attemptPolicy);
+    } catch (error) {
+      logger.error("Error loading attempt policy:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load attempt policy",
+        variant: "destructive",
+      });
+      setOpen(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!policy) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/attempt-policy`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ attemptPolicy: policy }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save attempt policy");
+
+      toast({ title: "Attempt policy updated", description: "Students will see the new limits right away." });
+      setOpen(false);
+    } catch (error) {
+      logger.error("Error saving attempt policy:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save attempt policy",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={openDialog}
+        title="Set how many attempts students get and which score counts"
+      >
+        <RotateCcw className="h-4 w-4 mr-2" />
+        Attempts
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-amber-900">Attempt Policy</DialogTitle>
+            <DialogDescription className="text-amber-700">
+              Limits apply per assignment. Reassigning a quiz gives the student a fresh set of attempts.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !policy ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-amber-600" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="max-attempts">Max attempts</Label>
+                  <Input
+                    id="max-attempts"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={policy.maxAttempts}
+                    onChange={(e) => setPolicy({ ...policy, maxAttempts: Number(e.target.value) })}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">0 = unlimited</p>
+                </div>
+                <div>
+                  <Label htmlFor="cooldown-minutes">Cooldown (minutes)</Label>
+                  <Input
+                    id="cooldown-minutes"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={policy.cooldownMinutes}
+                    onChange={(e) => setPolicy({ ...policy, cooldownMinutes: Number(e.target.value) })}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Wait between attempts</p>
+                </div>
+              </div>
+
+              <div>
+                <Label>Score that counts</Label>
+                <Select
+                  value={policy.scoreMode}
+                  onValueChange={(value) => setPolicy({ ...policy, scoreMode: value as ScoreMode })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCORE_MODES.map(mode => (
+                      <SelectItem key={mode} value={mode}>
+                        {SCORE_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Used for the student&apos;s quiz score and for class analytics
+                </p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || loading || !policy}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              {saving ? "Saving..." : "Save Policy"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldAlert, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { logger } from "@/lib/logger";
+import type { IntegrityThresholds } from "@/lib/integrity";
+
+interface IntegritySettingsButtonProps {
+  quizId: string;
+}
+
+/**
+ * Button + dialog for the thresholds at which an attempt's integrity signals are flagged
+ */
+export function IntegritySettingsButton({ quizId }: IntegritySettingsButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [thresholds, setThresholds] = useState<IntegrityThresholds | null>(null);
+
+  const openDialog = async () => {
+    setOpen(true);
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/integrity`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load integrity thresholds");
+      setThresholds(data.integrity);
+    } catch (error) {
+      logger.error("Error loading integrity thresholds:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load integrity thresholds",
+        variant: "destructive",
+      });
+      setOpen(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!thresholds) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/integrity`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ integrity: thresholds }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save integrity thresholds");
+
+      toast({ title: "Integrity thresholds updated", description: "Attempt reports use the new thresholds right away." });
+      setOpen(false);
+    } catch (error) {
+      logger.error("Error saving integrity thresholds:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save integrity thresholds",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={openDialog}
+        title="Set when tab switches, pastes, fast answers and shared answers are flagged"
+      >
+        <ShieldAlert className="h-4 w-4 mr-2" />
+        Integrity
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-amber-900">Integrity Thresholds</DialogTitle>
+            <DialogDescription className="text-amber-700">
+              A signal is flagged on an attempt once it reaches its threshold. Flags are prompts to look closer, not verdicts.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !thresholds ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-amber-600" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="tab-switches">Tab switches</Label>
+                  <Input
+                    id="tab-switches"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={thresholds.tabSwitches}
+                    onChange={(e) => setThresholds({ ...thresholds, tabSwitches: Number(e.target.value) })}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leaving the quiz tab or window</p>
+                </div>
+                <div>
+                  <Label htmlFor="paste-events">Paste events</Label>
+                  <Input
+                    id="paste-events"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={thresholds.pasteEvents}
+                    onChange={(e) => setThresholds({ ...thresholds, pasteEvents: Number(e.target.value) })}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="fast-answer-share">Fast answers (%)</Label>
+                  <Input
+                    id="fast-answer-share"
+                    type="number"
+                    min={1}
+                    max={100}
+                    step={1}
+                    value={Math.round(thresholds.fastAnswerShare * 100)}
+                    onChange={(e) => setThresholds({ ...thresholds, fastAnswerShare: Number(e.target.value) / 100 })}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Share of answers given too fast</p>
+                </div>
+                <div>
+                  <Label htmlFor="reading-speed">Reading speed</Label>
+                  <Input
+                    id="reading-speed"
+                    type="number"
+                    min={1}
+                    max={50}
+                    step={0.5}
+                    value={thresholds.readingWordsPerSecond}
+                    onChange={(e) => setThresholds({ ...thresholds, readingWordsPerSecond: Number(e.target.value) })}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Words per second; quicker is too fast</p>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="shared-wrong-answers">Identical wrong answers</Label>
+                <Input
+                  id="shared-wrong-answers"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={thresholds.sharedWrongAnswers}
+                  onChange={(e) => setThresholds({ ...thresholds, sharedWrongAnswers: Number(e.target.value) })}
+                  className="mt-1"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Same wrong answers as one other student&apos;s attempt
+                </p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || loading || !thresholds}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              {saving ? "Saving..." : "Save Thresholds"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,375 @@
+"use client";
+
+import { ArrowUp, ArrowDown, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  getQuestionType,
+  type QuestionType,
+  type QuestionOption,
+  type QuestionAnswerData,
+  type MultiSelectAnswerData,
+  type FillBlankAnswerData,
+  type OrderingAnswerData,
+  type MatchingAnswerData,
+} from "@/lib/question-types";
+
+export interface EditableAnswerKey {
+  questionType?: string;
+  options: QuestionOption[];
+  correctAnswer: string;
+  answerData?: QuestionAnswerData | null;
+}
+
+function nextOptionId(options: QuestionOption[]): string {
+  // Keep the a, b, c... ids generated questions use, falling back to opt-N
+  for (let i = 0; i < 26; i++) {
+    const id = String.fromCharCode(97 + i);
+    if (!options.some(o => o.id === id)) return id;
+  }
+  return `opt-${options.length + 1}`;
+}
+
+/**
+ * Convert a question to another type, keeping whatever of the old answer key still applies
+ */
+export function convertQuestionType<T extends EditableAnswerKey>(question: T, questionType: QuestionType): T {
+  const current = getQuestionType(question);
+  if (current === questionType) return question;
+
+  const reusableOptions = current === "true_false" || current === "fill_blank" ? [] : question.options;
+  const options = reusableOptions.length >= 2
+    ? reusableOptions
+    : [{ id: "a", text: "" }, { id: "b", text: "" }];
+
+  switch (questionType) {
+    case "true_false":
+      return { ...question, questionType, options: TRUE_FALSE_OPTIONS, correctAnswer: "true", answerData: null };
+    case "multi_select": {
+      const correctOptionIds = options.some(o => o.id === question.correctAnswer) ? [question.correctAnswer] : [];
+      return { ...question, questionType, options, correctAnswer: correctOptionIds.join(","), answerData: { correctOptionIds } };
+    }
+    case "fill_blank": {
+      const correctText = question.options.find(o => o.id === question.correctAnswer)?.text || "";
+      return {
+        ...question,
+        questionType,
+        options: [],
+        correctAnswer: correctText,
+        answerData: { acceptedAnswers: correctText ? [correctText] : [""], caseSensitive: false },
+      };
+    }
+    case "ordering":
+      return {
+        ...question,
+        questionType,
+        options,
+        correctAnswer: options.map(o => o.id).join(","),
+        answerData: { correctOrder: options.map(o => o.id) },
+      };
+    case "matching": {
+      const matches = options.map((o, i) => ({ id: `m${i + 1}`, text: "" }));
+      const pairs = Object.fromEntries(options.map((o, i) => [o.id, matches[i].id]));
+      return { ...question, questionType, options, correctAnswer: "", answerData: { matches, pairs } };
+    }
+    case "multiple_choice":
+    default:
+      return {
+        ...question,
+        questionType,
+        options,
+        correctAnswer: options.some(o => o.id === question.correctAnswer) ? question.correctAnswer : options[0].id,
+        answerData: null,
+      };
+  }
+}
+
+export function QuestionTypeSelect({
+  value,
+  onChange,
+}: {
+  value: string | undefined;
+  onChange: (questionType: QuestionType) => void;
+}) {
+  return (
+    <div className="mb-4">
+      <Label className="text-sm text-gray-700">Question Type</Label>
+      <Select value={value || "multiple_choice"} onValueChange={(v) => onChange(v as QuestionType)}>
+        <SelectTrigger className="mt-1 w-full sm:w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {QUESTION_TYPES.map(type => (
+            <SelectItem key={type} value={type}>
+              {QUESTION_TYPE_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * Answer key editor for every type other than single-answer multiple choice,
+ * which keeps its original inline editor on the review page
+ */
+export function QuestionAnswerEditor<T extends EditableAnswerKey>({
+  question,
+  onChange,
+}: {
+  question: T;
+  onChange: (question: T) => void;
+}) {
+  const questionType = getQuestionType(question);
+
+  const updateOptionText = (index: number, text: string) => {
+    const options = [...question.options];
+    options[index] = { ...options[index], text };
+    onChange({ ...question, options });
+  };
+
+  const removeOption = (id: string, answerData: QuestionAnswerData | null) => {
+    onChange({ ...question, options: question.options.filter(o => o.id !== id), answerData });
+  };
+
+  if (questionType === "true_false") {
+    return (
+      <div className="mb-4 p-3 bg-amber-50 rounded-lg">
+        <Label className="text-sm text-amber-900">Correct Answer</Label>
+        <Select
+          value={question.correctAnswer}
+          onValueChange={(value) => onChange({ ...question, correctAnswer: value })}
+        >
+          <SelectTrigger className="mt-1 w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRUE_FALSE_OPTIONS.map(opt => (
+              <SelectItem key={opt.id} value={opt.id}>{opt.text}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+
+  if (questionType === "fill_blank") {
+    const data = (question.answerData as FillBlankAnswerData | null) ?? { acceptedAnswers: [""] };
+    const accepted = data.acceptedAnswers.length > 0 ? data.acceptedAnswers : [""];
+    const setData = (next: FillBlankAnswerData) => onChange({ ...question, answerData: next });
+
+    return (
+      <div className="mb-4 p-3 bg-amber-50 rounded-lg space-y-2">
+        <Label className="text-sm text-amber-900">Accepted Answers</Label>
+        {accepted.map((answer, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={answer}
+              onChange={(e) => {
+                const next = [...accepted];
+                next[index] = e.target.value;
+                setData({ ...data, acceptedAnswers: next });
+              }}
+              placeholder={index === 0 ? "Primary answer" : "Alternative spelling or wording"}
+            />
+            {accepted.length > 1 && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setData({ ...data, acceptedAnswers: accepted.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <Button size="sm" variant="outline" onClick={() => setData({ ...data, acceptedAnswers: [...accepted, ""] })}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Variant
+          </Button>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={!!data.caseSensitive}
+              onCheckedChange={(checked) => setData({ ...data, caseSensitive: checked })}
+            />
+            <span className="text-sm text-amber-900">Case sensitive</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (questionType === "multi_select") {
+    const correct = (question.answerData as MultiSelectAnswerData | null)?.correctOptionIds ?? [];
+    const setCorrect = (ids: string[]) => onChange({ ...question, answerData: { correctOptionIds: ids } });
+
+    return (
+      <div className="mb-4 space-y-2">
+        <Label className="text-sm text-gray-700">Options (tick every correct answer)</Label>
+        {question.options.map((option, index) => (
+          <div key={option.id} className="flex items-center gap-3">
+            <Checkbox
+              checked={correct.includes(option.id)}
+              onCheckedChange={(checked) => setCorrect(
+                checked ? [...correct, option.id] : correct.filter(id => id !== option.id)
+              )}
+            />
+            <Input value={option.text} onChange={(e) => updateOptionText(index, e.target.value)} className="flex-1" />
+            {question.options.length > 2 && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => removeOption(option.id, { correctOptionIds: correct.filter(id => id !== option.id) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange({ ...question, options: [...question.options, { id: nextOptionId(question.options), text: "" }] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Option
+        </Button>
+      </div>
+    );
+  }
+
+  if (questionType === "ordering") {
+    const savedOrder = (question.answerData as OrderingAnswerData | null)?.correctOrder ?? [];
+    const order = savedOrder.length === question.options.length ? savedOrder : question.options.map(o => o.id);
+    const setOrder = (correctOrder: string[]) => onChange({ ...question, answerData: { correctOrder } });
+    const move = (index: number, offset: number) => {
+      const next = [...order];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      setOrder(next);
+    };
+
+    return (
+      <div className="mb-4 space-y-2">
+        <Label className="text-sm text-gray-700">Items in the correct order</Label>
+        {order.map((id, position) => {
+          const index = question.options.findIndex(o => o.id === id);
+          const option = question.options[index];
+          if (!option) return null;
+          return (
+            <div key={id} className="flex items-center gap-2">
+              <span className="w-8 h-8 rounded-lg flex items-center justify-center font-semibold bg-green-500 text-white">
+                {position + 1}
+              </span>
+              <Input value={option.text} onChange={(e) => updateOptionText(index, e.target.value)} className="flex-1" />
+              <Button size="sm" variant="ghost" disabled={position === 0} onClick={() => move(position, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" disabled={position === order.length - 1} onClick={() => move(position, 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              {question.options.length > 2 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeOption(id, { correctOrder: order.filter(o => o !== id) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            const id = nextOptionId(question.options);
+            onChange({
+              ...question,
+              options: [...question.options, { id, text: "" }],
+              answerData: { correctOrder: [...order, id] },
+            });
+          }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Item
+        </Button>
+      </div>
+    );
+  }
+
+  if (questionType === "matching") {
+    const data = (question.answerData as MatchingAnswerData | null) ?? { matches: [], pairs: {} };
+
+    // Each prompt is edited alongside its own match
+    const setPairText = (promptIndex: number, text: string) => {
+      const prompt = question.options[promptIndex];
+      const matchId = data.pairs[prompt.id];
+      const matches = data.matches.map(m => m.id === matchId ? { ...m, text } : m);
+      onChange({ ...question, answerData: { ...data, matches } });
+    };
+
+    const addPair = () => {
+      const promptId = nextOptionId(question.options);
+      const matchId = `m${data.matches.length + 1}-${promptId}`;
+      onChange({
+        ...question,
+        options: [...question.options, { id: promptId, text: "" }],
+        answerData: {
+          matches: [...data.matches, { id: matchId, text: "" }],
+          pairs: { ...data.pairs, [promptId]: matchId },
+        },
+      });
+    };
+
+    const removePair = (promptId: string) => {
+      const matchId = data.pairs[promptId];
+      const pairs = { ...data.pairs };
+      delete pairs[promptId];
+      removeOption(promptId, { matches: data.matches.filter(m => m.id !== matchId), pairs });
+    };
+
+    return (
+      <div className="mb-4 space-y-2">
+        <Label className="text-sm text-gray-700">Pairs (prompt → correct match)</Label>
+        {question.options.map((prompt, index) => (
+          <div key={prompt.id} className="flex items-center gap-2">
+            <Input
+              value={prompt.text}
+              onChange={(e) => updateOptionText(index, e.target.value)}
+              placeholder="Prompt, e.g. John 3:16"
+              className="flex-1"
+            />
+            <span className="text-gray-400">→</span>
+            <Input
+              value={data.matches.find(m => m.id === data.pairs[prompt.id])?.text || ""}
+              onChange={(e) => setPairText(index, e.target.value)}
+              placeholder="Match, e.g. John"
+              className="flex-1"
+            />
+            {question.options.length > 2 && (
+              <Button size="sm" variant="ghost" onClick={() => removePair(prompt.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={addPair}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Pair
+        </Button>
+      </div>
+    );
+  }
+
+  return null;
+}
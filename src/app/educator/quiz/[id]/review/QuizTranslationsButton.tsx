@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Globe, Loader2, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { logger } from "@/lib/logger";
+import type { TextDirection } from "@/lib/languages";
+
+interface QuizTranslationsButtonProps {
+  quizId: string;
+}
+
+interface LanguageStatus {
+  code: string;
+  name: string;
+  nativeName: string;
+  direction: TextDirection;
+  translated: number;
+  total: number;
+  complete: boolean;
+  job: {
+    id: string;
+    status: "pending" | "processing" | "completed" | "failed";
+    translatedQuestions: number;
+    totalQuestions: number;
+    failedQuestionIds: string[];
+    error: string | null;
+  } | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+function isRunning(language: LanguageStatus): boolean {
+  return language.job?.status === "pending" || language.job?.status === "processing";
+}
+
+/**
+ * Button + dialog for translating the whole quiz into the languages students can take it in
+ */
+export function QuizTranslationsButton({ quizId }: QuizTranslationsButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [starting, setStarting] = useState<string | null>(null);
+  const [languages, setLanguages] = useState<LanguageStatus[] | null>(null);
+
+  const loadLanguages = useCallback(async () => {
+    const response = await fetch(`/api/educator/quiz/${quizId}/translations`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to load translations");
+    setLanguages(data.languages);
+  }, [quizId]);
+
+  const openDialog = async () => {
+    setOpen(true);
+    setLoading(true);
+    try {
+      await loadLanguages();
+    } catch (error) {
+      logger.error("Error loading quiz translations:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load translations",
+        variant: "destructive",
+      });
+      setOpen(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Follow running jobs while the dialog is open
+  const anyRunning = languages?.some(isRunning) ?? false;
+  useEffect(() => {
+    if (!open || !anyRunning) return;
+    const interval = setInterval(() => {
+      loadLanguages().catch(error => logger.error("Error polling quiz translations:", error));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [open, anyRunning, loadLanguages]);
+
+  const startTranslation = async (language: LanguageStatus, overwrite: boolean) => {
+    setStarting(language.code);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/translations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language: language.code, overwrite }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to start translation");
+      setLanguages(data.languages);
+      toast({ title: "Translation started", description: `Translating the quiz to ${language.name}.` });
+    } catch (error) {
+      logger.error("Error starting quiz translation:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start translation",
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={openDialog}
+        title="Translate the whole quiz so students can take it in another language"
+      >
+        <Globe className="h-4 w-4 mr-2" />
+        Languages
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-amber-900">Quiz Languages</DialogTitle>
+            <DialogDescription className="text-amber-700">
+              Questions stay in English. Once every question has a translation, students can pick that language when they start the quiz.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !languages ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-amber-600" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {languages.map(language => {
+                const running = isRunning(language);
+                const progress = running && language.job
+                  ? language.job.translatedQuestions
+                  : language.translated;
+                const total = running && language.job ? language.job.totalQuestions : language.total;
+                return (
+                  <div key={language.code} className="border border-amber-100 rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-amber-900 flex items-center gap-2">
+                          {language.name}
+                          <span className="text-sm font-normal text-gray-500" dir={language.direction}>{language.nativeName}</span>
+                          {language.complete && <CheckCircle className="h-4 w-4 text-green-600" />}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {progress} of {total} questions translated
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        {language.translated > 0 && !running && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startTranslation(language, true)}
+                            disabled={starting !== null}
+                          >
+                            Re-translate
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => startTranslation(language, false)}
+                          disabled={running || language.complete || starting !== null}
+                          className="border-amber-200 hover:bg-amber-50"
+                        >
+                          {running || starting === language.code ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : language.translated > 0 ? "Translate rest" : "Translate"}
+                        </Button>
+                      </div>
+                    </div>
+                    {running && <Progress value={total ? (progress / total) * 100 : 0} className="h-1.5" />}
+                    {!running && language.job?.error && (
+                      <p className="text-xs text-red-600">{language.job.error}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
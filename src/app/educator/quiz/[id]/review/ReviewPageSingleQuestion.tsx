@@ -13,27 +13,39 @@ import {
   RefreshCw, AlertCircle, CheckCircle, 
   Loader2, X, BookOpen, ArrowLeft, Languages,
   ChevronLeft, ChevronRight, Edit2, Save, Eye, EyeOff,
-  Grid3x3, Hash, Target, Brain, BarChart3, Shield, Shuffle
+  Grid3x3, Hash, Target, Brain, BarChart3, Shield, Shuffle, Library
 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { TranslationModal } from "@/components/quiz/TranslationModal";
 import { useQuestionTranslation } from "@/hooks/useQuestionTranslation";
-import { QuestionValidationResult } from "@/lib/question-validator";
+import { QuestionValidationResult, type CitationCheckResult } from "@/lib/question-validator";
+import { formatCitationReference, type QuestionCitation } from "@/lib/question-citations";
+import { CitationList } from "@/components/quiz/CitationList";
 import { PublishButton } from "@/components/quiz/PublishButton";
+import { QUESTION_TYPE_LABELS, getQuestionType, formatCorrectAnswer, type QuestionAnswerData } from "@/lib/question-types";
+import { QuestionTypeSelect, QuestionAnswerEditor, convertQuestionType } from "./QuestionTypeEditor";
+import { ScoringSettingsButton } from "./ScoringSettingsButton";
+import { AttemptPolicyButton } from "./AttemptPolicyButton";
+import { AdaptiveSettingsButton } from "./AdaptiveSettingsButton";
+import { IntegritySettingsButton } from "./IntegritySettingsButton";
+import { QuizTranslationsButton } from "./QuizTranslationsButton";
 
 interface Question {
   id: string;
   questionText: string;
   options: { text: string; id: string }[];
   correctAnswer: string;
+  questionType?: string;
+  answerData?: QuestionAnswerData | null;
   explanation: string | null;
   difficulty: string | null;
   bloomsLevel: string | null;
   topic: string | null;
   book: string | null;
   chapter: string | null;
+  citations?: QuestionCitation[] | null;
   orderIndex: number;
 }
 
@@ -49,6 +61,7 @@ interface QuizDetails {
   startTime?: string | null;
   timezone?: string;
   duration?: number;
+  sourceDocuments?: { id: string; filename: string; displayName: string | null }[];
 }
 
 interface ReviewPageSingleQuestionProps {
@@ -67,10 +80,13 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
   const [viewMode, setViewMode] = useState<"single" | "grid">("single");
   const [shuffling, setShuffling] = useState(false);
   const [shuffleAllLoading, setShuffleAllLoading] = useState(false);
+  const [savingToBank, setSavingToBank] = useState(false);
   
   // Validation state
   const [validationResults, setValidationResults] = useState<Record<string, QuestionValidationResult>>({});
   const [validating, setValidating] = useState(false);
+  const [citationChecks, setCitationChecks] = useState<Record<string, CitationCheckResult>>({});
+  const [checkingCitations, setCheckingCitations] = useState(false);
   
   // Replace question state
   const [replacingQuestion, setReplacingQuestion] = useState<string | null>(null);
@@ -112,6 +128,7 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
     openTranslationModal,
     closeTranslationModal,
     translateQuestion,
+    languages: translationLanguages,
     success: translationSuccess
   } = useQuestionTranslation({ 
     quizId, 
@@ -134,11 +151,12 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
     };
   }, []);
 
-  // Validate current question
-  const validateCurrentQuestion = async () => {
+  // Validate current question; a deep check also verifies its cited passages
+  const validateCurrentQuestion = async (deep = false) => {
     if (!quiz || !currentQuestion) return;
     
-    setValidating(true);
+    if (deep) setCheckingCitations(true);
+    else setValidating(true);
     try {
       const questionData = {
         id: currentQuestion.id,
@@ -150,13 +168,14 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
         chapter: currentQuestion.chapter,
         topic: currentQuestion.topic,
         difficulty: currentQuestion.difficulty,
-        bloomsLevel: currentQuestion.bloomsLevel
+        bloomsLevel: currentQuestion.bloomsLevel,
+        citations: currentQuestion.citations ?? []
       };
 
       const response = await fetch('/api/educator/questions/validate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ questions: questionData, single: true })
+        body: JSON.stringify({ questions: questionData, single: true, deep })
       });
 
       if (response.ok) {
@@ -165,11 +184,21 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
           ...prev,
           [currentQuestion.id]: data.validation
         }));
+        if (data.deepValidation) {
+          setCitationChecks(prev => ({
+            ...prev,
+            [currentQuestion.id]: {
+              citationScore: data.deepValidation.citationScore,
+              citationIssues: data.deepValidation.citationIssues ?? []
+            }
+          }));
+        }
       }
     } catch (error) {
       logger.error('Validation failed:', error);
     } finally {
       setValidating(false);
+      setCheckingCitations(false);
     }
   };
 
@@ -415,20 +444,23 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
       });
 
       if (response.ok) {
-        // Update local state
+        // The server normalises the answer key (e.g. the correctAnswer summary), so keep its copy
+        const data = await response.json();
+        const savedQuestion = { ...editedQuestion, ...(data.question || {}) };
         setQuiz(prev => {
           if (!prev) return null;
           return {
             ...prev,
             questions: prev.questions.map(q => 
-              q.id === editedQuestion.id ? editedQuestion : q
+              q.id === savedQuestion.id ? savedQuestion : q
             )
           };
         });
         setEditingQuestion(null);
         setEditedQuestion(null);
       } else {
-        alert("Failed to save question");
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || "Failed to save question");
       }
     } catch (error) {
       logger.error("Error saving question:", error);
@@ -526,6 +558,32 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
     }
   };
 
+  // Copy all questions of this quiz into the educator's question bank
+  const handleSaveToBank = async () => {
+    if (!quiz || savingToBank) return;
+
+    setSavingToBank(true);
+    try {
+      const response = await fetch("/api/educator/questions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fromQuizId: quiz.id })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        alert(data.message);
+      } else {
+        alert(data.error || "Failed to save questions to the question bank");
+      }
+    } catch (error) {
+      logger.error("Error saving questions to bank:", error);
+      alert("Error saving questions to the question bank");
+    } finally {
+      setSavingToBank(false);
+    }
+  };
+
   const handlePublishQuiz = async () => {
     if (!quiz) return;
 
@@ -613,6 +671,7 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
   const currentQuestion = quiz.questions[currentQuestionIndex];
   const isEditing = editingQuestion === currentQuestion?.id;
   const displayQuestion = isEditing && editedQuestion ? editedQuestion : currentQuestion;
+  const isSingleAnswerQuestion = getQuestionType(displayQuestion) === "multiple_choice";
   const progressPercentage = ((currentQuestionIndex + 1) / quiz.questions.length) * 100;
 
   // Grid view
@@ -641,6 +700,32 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
                 <Shuffle className="h-4 w-4 mr-2" />
                 {shuffleAllLoading ? "Shuffling All..." : "Shuffle All"}
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveToBank}
+                disabled={savingToBank}
+                title="Save these questions to your question bank for reuse"
+              >
+                <Library className="h-4 w-4 mr-2" />
+                {savingToBank ? "Saving..." : "Save to Bank"}
+              </Button>
+              {quiz.status === "draft" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push(`/educator/quiz/create?mode=bank&quizId=${quiz.id}`)}
+                  title="Add questions from your question bank"
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  Add from Bank
+                </Button>
+              )}
+              <ScoringSettingsButton quizId={quiz.id} questions={quiz.questions} />
+              <AttemptPolicyButton quizId={quiz.id} />
+              <AdaptiveSettingsButton quizId={quiz.id} />
+              <IntegritySettingsButton quizId={quiz.id} />
+              <QuizTranslationsButton quizId={quiz.id} />
               <Button
                 variant="outline"
                 size="sm"
@@ -741,6 +826,32 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
                 <Shuffle className="h-4 w-4 mr-2" />
                 {shuffleAllLoading ? "Shuffling All..." : "Shuffle All"}
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveToBank}
+                disabled={savingToBank}
+                title="Save these questions to your question bank for reuse"
+              >
+                <Library className="h-4 w-4 mr-2" />
+                {savingToBank ? "Saving..." : "Save to Bank"}
+              </Button>
+              {quiz.status === "draft" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push(`/educator/quiz/create?mode=bank&quizId=${quiz.id}`)}
+                  title="Add questions from your question bank"
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  Add from Bank
+                </Button>
+              )}
+              <ScoringSettingsButton quizId={quiz.id} questions={quiz.questions} />
+              <AttemptPolicyButton quizId={quiz.id} />
+              <AdaptiveSettingsButton quizId={quiz.id} />
+              <IntegritySettingsButton quizId={quiz.id} />
+              <QuizTranslationsButton quizId={quiz.id} />
               <Button
                 variant="outline"
                 size="sm"
@@ -910,7 +1021,7 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={validateCurrentQuestion}
+                            onClick={() => validateCurrentQuestion()}
                             disabled={validating}
                             className="border-amber-200 hover:bg-amber-50"
                           >
@@ -937,10 +1048,43 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
                     className="text-lg min-h-[100px]"
                   />
                 ) : (
-                  <h2 className="text-xl font-medium">{displayQuestion.questionText}</h2>
+                  <>
+                    {!isSingleAnswerQuestion && (
+                      <Badge variant="outline" className="mb-2 border-amber-300 text-amber-700">
+                        {QUESTION_TYPE_LABELS[getQuestionType(displayQuestion)]}
+                      </Badge>
+                    )}
+                    <h2 className="text-xl font-medium">{displayQuestion.questionText}</h2>
+                  </>
                 )}
               </div>
 
+              {isEditing && editedQuestion && (
+                <QuestionTypeSelect
+                  value={editedQuestion.questionType}
+                  onChange={(type) => setEditedQuestion(convertQuestionType(editedQuestion, type))}
+                />
+              )}
+
+              {isEditing && editedQuestion && !isSingleAnswerQuestion ? (
+                <QuestionAnswerEditor question={editedQuestion} onChange={setEditedQuestion} />
+              ) : !isSingleAnswerQuestion ? (
+                <div className="space-y-2 mb-4">
+                  {displayQuestion.options.filter(option => option && option.id).map((option, index) => (
+                    <div key={option.id} className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 border border-gray-200">
+                      <span className="w-10 h-10 rounded-lg flex items-center justify-center font-semibold bg-white text-gray-700 border">
+                        {String.fromCharCode(65 + index)}
+                      </span>
+                      <span className="flex-1">{option.text}</span>
+                    </div>
+                  ))}
+                  <div className="p-3 rounded-lg bg-green-50 border border-green-400 flex items-start gap-2">
+                    <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+                    <span className="text-sm">{formatCorrectAnswer(displayQuestion)}</span>
+                  </div>
+                </div>
+              ) : (
+              <>
               {/* Options */}
               <div className="space-y-2 mb-4">
                 {displayQuestion.options.filter(option => option && option.id).map((option, index) => (
@@ -1003,6 +1147,9 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
                 </div>
               )}
 
+              </>
+              )}
+
               {/* Explanation */}
               <div className="border-t pt-3">
                 <Button
@@ -1036,6 +1183,57 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
                 )}
               </div>
 
+              {/* Source Citations */}
+              {!isEditing && (
+                <div className="border-t pt-3 mt-3">
+                  {displayQuestion.citations && displayQuestion.citations.length > 0 ? (
+                    <CitationList
+                      citations={displayQuestion.citations.map(citation => {
+                        const document = quiz.sourceDocuments?.find(doc => doc.id === citation.documentId);
+                        return {
+                          reference: formatCitationReference(citation),
+                          excerpt: citation.excerpt,
+                          documentName: document ? document.displayName || document.filename : null
+                        };
+                      })}
+                    />
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      No source citation. Verify this question against the source material before publishing.
+                    </p>
+                  )}
+
+                  <div className="mt-2 flex items-center gap-3">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => validateCurrentQuestion(true)}
+                      disabled={checkingCitations}
+                      className="flex items-center gap-2 text-amber-600 hover:text-amber-700 text-xs font-medium p-0 h-auto"
+                    >
+                      {checkingCitations ? <Loader2 className="h-3 w-3 animate-spin" /> : <Shield className="h-3 w-3" />}
+                      Verify against sources
+                    </Button>
+                    {citationChecks[displayQuestion.id] && (
+                      <span className={`text-xs font-semibold ${
+                        citationChecks[displayQuestion.id].citationScore >= 75 ? 'text-green-600' :
+                        citationChecks[displayQuestion.id].citationScore >= 50 ? 'text-orange-600' :
+                        'text-red-600'
+                      }`}>
+                        Source support: {citationChecks[displayQuestion.id].citationScore}/100
+                      </span>
+                    )}
+                  </div>
+                  {citationChecks[displayQuestion.id]?.citationIssues.length > 0 && (
+                    <ul className="mt-1 text-xs text-red-700 space-y-0.5">
+                      {citationChecks[displayQuestion.id].citationIssues.map((issue, idx) => (
+                        <li key={idx}>• {issue}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {/* Metadata (Edit Mode) */}
               {isEditing && editedQuestion && (
                 <div className="mt-6 pt-6 border-t">
@@ -1322,6 +1520,7 @@ export default function ReviewPageSingleQuestion({ quizId }: ReviewPageSingleQue
           isOpen={isModalOpen}
           onClose={closeTranslationModal}
           onTranslate={translateQuestion}
+          languages={translationLanguages}
           isTranslating={isTranslating}
           questionPreview={
             currentQuestion?.questionText
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import { Scale, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { logger } from "@/lib/logger";
+import type { QuizScoringConfig } from "@/lib/quiz-scoring";
+
+interface ScoringSettingsButtonProps {
+  quizId: string;
+  questions: { id: string; questionText: string }[];
+}
+
+/**
+ * Button + dialog for a quiz's point values, negative marking and partial credit
+ */
+export function ScoringSettingsButton({ quizId, questions }: ScoringSettingsButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [scoring, setScoring] = useState<QuizScoringConfig | null>(null);
+
+  const openDialog = async () => {
+    setOpen(true);
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/scoring`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load scoring settings");
+      setScoring(data.scoring);
+    } catch (error) {
+      logger.error("Error loading scoring settings:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load scoring settings",
+        variant: "destructive",
+      });
+      setOpen(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setQuestionPoints = (questionId: string, value: string) => {
+    if (!scoring) return;
+    const questionPoints = { ...scoring.questionPoints };
+    if (value === "") {
+      delete questionPoints[questionId];
+    } else {
+      questionPoints[questionId] = Number(value);
+    }
+    setScoring({ ...scoring, questionPoints });
+  };
+
+  const handleSave = async () => {
+    if (!scoring) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/educator/quiz/${quizId}/scoring`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scoring }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save scoring settings");
+
+      toast({ title: "Scoring updated", description: "New submissions will use these rules." });
+      setOpen(false);
+    } catch (error) {
+      logger.error("Error saving scoring settings:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save scoring settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalPoints = scoring
+    ? questions.reduce((sum, q) => sum + (scoring.questionPoints[q.id] ?? scoring.defaultPoints), 0)
+    : 0;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={openDialog}
+        title="Set point values, negative marking and partial credit"
+      >
+        <Scale className="h-4 w-4 mr-2" />
+        Scoring
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-amber-900">Scoring Rules</DialogTitle>
+            <DialogDescription className="text-amber-700">
+              Rules apply to submissions made after saving. Earlier attempts keep their score.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !scoring ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-amber-600" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="default-points">Default points per question</Label>
+                  <Input
+                    id="default-points"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={scoring.defaultPoints}
+                    onChange={(e) => setScoring({ ...scoring, defaultPoints: Number(e.target.value) })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="negative-marking">Negative marking</Label>
+                  <Input
+                    id="negative-marking"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={scoring.negativeMarking}
+                    onChange={(e) => setScoring({ ...scoring, negativeMarking: Number(e.target.value) })}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Share of a question&apos;s points lost for a wrong answer (0 = off, 0.25 = a quarter)
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between p-3 bg-amber-50 rounded-lg">
+                <div>
+                  <p className="text-sm font-medium text-amber-900">Partial credit</p>
+                  <p className="text-xs text-amber-700">
+                    Select-all, ordering and matching questions earn points for each correct part
+                  </p>
+                </div>
+                <Switch
+                  checked={scoring.partialCredit}
+                  onCheckedChange={(checked) => setScoring({ ...scoring, partialCredit: checked })}
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <Label>Points per question</Label>
+                  <span className="text-xs text-gray-500">Total: {totalPoints} points</span>
+                </div>
+                <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+                  {questions.map((question, index) => (
+                    <div key={question.id} className="flex items-center gap-3">
+                      <span className="text-sm text-gray-500 w-8">Q{index + 1}</span>
+                      <span className="flex-1 text-sm truncate" title={question.questionText}>
+                        {question.questionText}
+                      </span>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={scoring.questionPoints[question.id] ?? ""}
+                        placeholder={String(scoring.defaultPoints)}
+                        onChange={(e) => setQuestionPoints(question.id, e.target.value)}
+                        className="w-20"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || loading || !scoring}
+              className="bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              {saving ? "Saving..." : "Save Scoring"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,388 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { EmptyState } from "@/components/educator-v2";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  Search, Library, BookOpen, RefreshCw, CheckCircle,
+  ChevronLeft, ChevronRight
+} from "lucide-react";
+import { logger } from "@/lib/logger";
+
+interface BankQuestion {
+  id: string;
+  questionText: string;
+  options: { text: string; id: string }[];
+  correctAnswer: string;
+  difficulty: string | null;
+  bloomsLevel: string | null;
+  topic: string | null;
+  book: string | null;
+  chapter: string | null;
+  tags: string[] | null;
+  usageCount: number;
+  responseCount: number;
+  difficultyIndex: number | null;
+  discriminationIndex: number | null;
+  itemFlags: string[] | null;
+}
+
+interface BankFilters {
+  search: string;
+  book: string;
+  chapter: string;
+  difficulty: string;
+  bloomsLevel: string;
+}
+
+interface AssembleFromBankProps {
+  // When set, selected questions are appended to this draft quiz instead of creating a new one
+  targetQuizId?: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+export function AssembleFromBank({ targetQuizId }: AssembleFromBankProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [filters, setFilters] = useState<BankFilters>({
+    search: "",
+    book: "",
+    chapter: "",
+    difficulty: "all",
+    bloomsLevel: "all",
+  });
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loadingBank, setLoadingBank] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [details, setDetails] = useState({
+    title: "",
+    description: "",
+    duration: 30,
+    shuffleQuestions: false,
+  });
+
+  const fetchBank = useCallback(async () => {
+    setLoadingBank(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (filters.search) params.set("search", filters.search);
+      if (filters.book) params.set("book", filters.book);
+      if (filters.chapter) params.set("chapter", filters.chapter);
+      if (filters.difficulty !== "all") params.set("difficulty", filters.difficulty);
+      if (filters.bloomsLevel !== "all") params.set("bloomsLevel", filters.bloomsLevel);
+
+      const response = await fetch(`/api/educator/questions?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setBankQuestions(data.questions || []);
+        setTotal(data.pagination?.total || 0);
+      } else {
+        logger.error("Failed to fetch question bank:", response.status);
+        setBankQuestions([]);
+      }
+    } catch (error) {
+      logger.error("Error fetching question bank:", error);
+      setBankQuestions([]);
+    } finally {
+      setLoadingBank(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    // Debounce so typing in the search box doesn't fire a request per keystroke
+    const timer = setTimeout(fetchBank, 300);
+    return () => clearTimeout(timer);
+  }, [fetchBank]);
+
+  const updateFilter = (key: keyof BankFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const toggleQuestion = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(q => q !== id));
+  };
+
+  const canSubmit = selectedIds.length > 0 && (!!targetQuizId || details.title.trim() !== "");
+
+  const handleSubmit = async () => {
+    if (!canSubmit || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/educator/questions/assemble", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          targetQuizId
+            ? { quizId: targetQuizId, questionIds: selectedIds }
+            : { ...details, questionIds: selectedIds, useDeferredScheduling: true }
+        ),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({
+          title: targetQuizId ? "Questions added" : "Quiz assembled",
+          description: `${data.added} question${data.added !== 1 ? "s" : ""} pulled from your question bank.`,
+        });
+        router.push(`/educator/quiz/${data.quizId}/review`);
+      } else {
+        toast({
+          title: "Could not use question bank",
+          description: data.error || "Please try again.",
+          variant: "destructive",
+        });
+        setSubmitting(false);
+      }
+    } catch (error) {
+      logger.error("Error assembling quiz from bank:", error);
+      toast({
+        title: "Could not use question bank",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+      setSubmitting(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+        <div className="relative md:col-span-2">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={filters.search}
+            onChange={(e) => updateFilter("search", e.target.value)}
+            placeholder="Search question text or topic..."
+            className="pl-9"
+          />
+        </div>
+        <Input
+          value={filters.book}
+          onChange={(e) => updateFilter("book", e.target.value)}
+          placeholder="Book (e.g., Genesis)"
+        />
+        <Select value={filters.difficulty} onValueChange={(value) => updateFilter("difficulty", value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Difficulty" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All difficulties</SelectItem>
+            <SelectItem value="easy">Easy</SelectItem>
+            <SelectItem value="intermediate">Intermediate</SelectItem>
+            <SelectItem value="hard">Hard</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={filters.bloomsLevel} onValueChange={(value) => updateFilter("bloomsLevel", value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Bloom's level" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All levels</SelectItem>
+            <SelectItem value="knowledge">Knowledge</SelectItem>
+            <SelectItem value="comprehension">Comprehension</SelectItem>
+            <SelectItem value="application">Application</SelectItem>
+            <SelectItem value="analysis">Analysis</SelectItem>
+            <SelectItem value="synthesis">Synthesis</SelectItem>
+            <SelectItem value="evaluation">Evaluation</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Bank Questions */}
+      {loadingBank ? (
+        <div className="flex items-center justify-center py-10 text-sm text-gray-500">
+          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+          Loading your question bank...
+        </div>
+      ) : bankQuestions.length === 0 ? (
+        <EmptyState
+          icon={Library}
+          title="No questions found"
+          description="Save questions to your bank from a quiz's review page, then assemble new quizzes from them here."
+        />
+      ) : (
+        <div className="grid grid-cols-1 gap-2 max-h-96 overflow-y-auto">
+          {bankQuestions.map((question) => (
+            <label
+              key={question.id}
+              className={`flex items-start p-3 border rounded cursor-pointer transition-all ${
+                selectedIds.includes(question.id)
+                  ? "border-amber-500 bg-amber-50 dark:bg-amber-900/20"
+                  : "border-gray-200 dark:border-gray-700 hover:border-amber-300 dark:hover:border-amber-700"
+              }`}
+            >
+              <Checkbox
+                checked={selectedIds.includes(question.id)}
+                onCheckedChange={(checked) => toggleQuestion(question.id, !!checked)}
+                className="mt-1 mr-3 data-[state=checked]:bg-amber-600 data-[state=checked]:border-amber-600"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-800 dark:text-gray-200 line-clamp-2">
+                  {question.questionText}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {question.book && (
+                    <span className="flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                      <BookOpen className="h-3 w-3" />
+                      {question.book} {question.chapter || ""}
+                    </span>
+                  )}
+                  {question.difficulty && (
+                    <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                  )}
+                  {question.bloomsLevel && (
+                    <Badge variant="outline" className="capitalize">{question.bloomsLevel}</Badge>
+                  )}
+                  {question.topic && <span>{question.topic}</span>}
+                  <span>Used {question.usageCount}×</span>
+                  {question.responseCount > 0 && question.difficultyIndex !== null && (
+                    <span title={`${question.responseCount} exam responses`}>
+                      {Math.round(question.difficultyIndex * 100)}% correct
+                      {question.discriminationIndex !== null && ` · discrimination ${question.discriminationIndex.toFixed(2)}`}
+                    </span>
+                  )}
+                  {question.itemFlags?.includes("distractor_beats_key") && (
+                    <Badge variant="outline" className="border-red-200 text-red-700">Check answer key</Badge>
+                  )}
+                </div>
+              </div>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {page} of {totalPages}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={page >= totalPages}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {selectedIds.length > 0 && (
+        <div className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+          <p className="text-sm text-amber-700 dark:text-amber-400">
+            <strong>{selectedIds.length}</strong> question{selectedIds.length !== 1 ? "s" : ""} selected
+          </p>
+        </div>
+      )}
+
+      {/* Quiz Details (new quizzes only) */}
+      {!targetQuizId && (
+        <div className="space-y-4 pt-2 border-t border-amber-100 dark:border-gray-700">
+          <div>
+            <Label htmlFor="bank-title" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Quiz Title <span className="text-orange-500">*</span>
+            </Label>
+            <Input
+              id="bank-title"
+              value={details.title}
+              onChange={(e) => setDetails({ ...details, title: e.target.value })}
+              placeholder="e.g., Genesis Review"
+            />
+          </div>
+          <div>
+            <Label htmlFor="bank-description" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Description
+            </Label>
+            <Textarea
+              id="bank-description"
+              value={details.description}
+              onChange={(e) => setDetails({ ...details, description: e.target.value })}
+              rows={2}
+              className="resize-none"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="bank-duration" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Duration (minutes)
+              </Label>
+              <Input
+                id="bank-duration"
+                type="number"
+                min={5}
+                max={180}
+                value={details.duration}
+                onChange={(e) => setDetails({ ...details, duration: parseInt(e.target.value) || 30 })}
+              />
+            </div>
+            <label className="flex items-center cursor-pointer md:mt-6">
+              <Checkbox
+                checked={details.shuffleQuestions}
+                onCheckedChange={(checked) => setDetails({ ...details, shuffleQuestions: !!checked })}
+                className="mr-3 data-[state=checked]:bg-amber-600 data-[state=checked]:border-amber-600"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">Shuffle Questions</span>
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The quiz is saved as a draft. You&apos;ll set its start time when publishing.
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSubmit}
+          disabled={!canSubmit || submitting}
+          className="bg-amber-600 hover:bg-amber-700 text-white min-h-[44px] w-full sm:w-auto"
+        >
+          {submitting ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              {targetQuizId ? "Adding Questions..." : "Assembling Quiz..."}
+            </>
+          ) : (
+            <>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              {targetQuizId ? "Add to Quiz" : "Create Quiz"}
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default AssembleFromBank;
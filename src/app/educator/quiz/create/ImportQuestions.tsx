@@ -0,0 +1,441 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  FileUp, Download, RefreshCw, CheckCircle, XCircle, AlertTriangle, BookOpen
+} from "lucide-react";
+import { logger } from "@/lib/logger";
+
+type ImportFormat = "csv" | "gift" | "moodle_xml" | "qti";
+
+const FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "gift", label: "GIFT" },
+  { value: "moodle_xml", label: "Moodle XML" },
+  { value: "qti", label: "IMS QTI" },
+];
+
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  multiple_choice: "Multiple choice",
+  true_false: "True/false",
+  multi_select: "Select all",
+  fill_blank: "Fill in the blank",
+  ordering: "Ordering",
+  matching: "Matching",
+};
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+const CSV_TEMPLATE = [
+  "question,type,option_a,option_b,option_c,option_d,correct,explanation,book,chapter,difficulty",
+  "Who built the ark?,multiple_choice,Noah,Moses,Abraham,David,A,God told Noah to build an ark before the flood.,Genesis,6,easy",
+  "Jonah was swallowed by a great fish.,true_false,,,,,true,,Jonah,1,easy",
+  "Which of these were apostles?,multi_select,Peter,Luke,John,Mark,\"A,C\",,Matthew,10,intermediate",
+  "In the beginning God created the heavens and the ___,fill_blank,,,,,earth|the earth,,Genesis,1,easy",
+  "Put these books in order,ordering,Genesis,Exodus,Leviticus,Numbers,,,,,intermediate",
+  "Match each book to its author,matching,Romans = Paul,Revelation = John,Acts = Luke,,,,,,hard",
+].join("\n");
+
+interface PreviewRow {
+  row: number;
+  label: string;
+  question: {
+    questionText: string;
+    questionType: string;
+    options: { id: string; text: string }[];
+    book: string | null;
+    chapter: string | null;
+    difficulty: string | null;
+  } | null;
+  errors: string[];
+  validation: {
+    isValid: boolean;
+    score: number;
+    issues: { severity: "low" | "medium" | "high"; message: string }[];
+  } | null;
+}
+
+interface UploadedFile {
+  fileName: string;
+  content: string;
+}
+
+/**
+ * Import questions from CSV, GIFT, Moodle XML or QTI.
+ * The file is previewed with per-row errors and validation before the draft quiz is created.
+ */
+export function ImportQuestions() {
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [file, setFile] = useState<UploadedFile | null>(null);
+  const [format, setFormat] = useState<ImportFormat | "auto">("auto");
+  const [previewing, setPreviewing] = useState(false);
+  const [rows, setRows] = useState<PreviewRow[] | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [details, setDetails] = useState({
+    title: "",
+    description: "",
+    duration: 30,
+    shuffleQuestions: false,
+  });
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setRows(null);
+    setWarning(null);
+    setSelectedRows([]);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    if (selected.size > MAX_FILE_BYTES) {
+      toast({
+        title: "File too large",
+        description: "Import files can be at most 2MB.",
+        variant: "destructive",
+      });
+      setFile(null);
+      return;
+    }
+    setFile({ fileName: selected.name, content: await selected.text() });
+    if (!details.title) {
+      setDetails(prev => ({ ...prev, title: selected.name.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ") }));
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([CSV_TEMPLATE], { type: "text/csv;charset=utf-8" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "question-import-template.csv";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const uploadBody = () => ({
+    fileName: file?.fileName,
+    content: file?.content,
+    format: format === "auto" ? undefined : format,
+  });
+
+  const handlePreview = async () => {
+    if (!file || previewing) return;
+
+    setPreviewing(true);
+    try {
+      const response = await fetch("/api/educator/quiz/import/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(uploadBody()),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        const previewRows: PreviewRow[] = data.rows || [];
+        setRows(previewRows);
+        setWarning(data.warning);
+        setFormat(data.format);
+        // Questions the validator flagged start unticked so the educator opts in after reading the issues
+        setSelectedRows(previewRows.filter(r => r.question && r.validation?.isValid !== false).map(r => r.row));
+      } else {
+        setRows(null);
+        toast({
+          title: "Could not read file",
+          description: data.error || "Please check the file and try again.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      logger.error("Error previewing question import:", error);
+      toast({
+        title: "Could not read file",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const toggleRow = (row: number, checked: boolean) => {
+    setSelectedRows(prev => checked ? [...prev, row] : prev.filter(r => r !== row));
+  };
+
+  const canSubmit = !!rows && selectedRows.length > 0 && details.title.trim() !== "";
+
+  const handleSubmit = async () => {
+    if (!canSubmit || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/educator/quiz/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...uploadBody(), ...details, rows: selectedRows }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast({
+          title: "Questions imported",
+          description: `${data.added} question${data.added !== 1 ? "s" : ""} added to a new draft quiz.`,
+        });
+        router.push(`/educator/quiz/${data.quizId}/review`);
+      } else {
+        toast({
+          title: "Could not import questions",
+          description: data.error || "Please try again.",
+          variant: "destructive",
+        });
+        setSubmitting(false);
+      }
+    } catch (error) {
+      logger.error("Error importing questions:", error);
+      toast({
+        title: "Could not import questions",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+      setSubmitting(false);
+    }
+  };
+
+  const importable = rows?.filter(r => r.question).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {/* File */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div className="md:col-span-2">
+          <Label htmlFor="import-file" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Question File
+          </Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.txt,.gift,.xml"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            className="cursor-pointer"
+          />
+        </div>
+        <div>
+          <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">Format</Label>
+          <Select value={format} onValueChange={(value) => { setFormat(value as ImportFormat | "auto"); setRows(null); }}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Detect automatically</SelectItem>
+              {FORMATS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          CSV, GIFT and Moodle XML exports from Moodle, and QTI items from Canvas or other LMSs. Extract QTI zip packages first.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={downloadTemplate} className="border-amber-200 hover:bg-amber-50">
+            <Download className="h-4 w-4 mr-2" />
+            CSV Template
+          </Button>
+          <Button
+            size="sm"
+            onClick={handlePreview}
+            disabled={!file || previewing}
+            className="bg-amber-600 hover:bg-amber-700 text-white"
+          >
+            {previewing
+              ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              : <FileUp className="h-4 w-4 mr-2" />}
+            {previewing ? "Checking Questions..." : "Preview"}
+          </Button>
+        </div>
+      </div>
+
+      {/* Preview */}
+      {rows && (
+        <>
+          <div className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg text-sm text-amber-700 dark:text-amber-400">
+            <strong>{importable}</strong> of {rows.length} question{rows.length !== 1 ? "s" : ""} can be imported
+            {importable < rows.length && " — rows with errors are skipped"}
+            {warning && <p className="mt-1 text-orange-700 dark:text-orange-400">{warning}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 gap-2 max-h-[28rem] overflow-y-auto">
+            {rows.map((row) => {
+              const selected = selectedRows.includes(row.row);
+              return (
+                <label
+                  key={row.row}
+                  className={`flex items-start p-3 border rounded transition-all ${
+                    !row.question
+                      ? "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-900/10 cursor-not-allowed"
+                      : selected
+                        ? "border-amber-500 bg-amber-50 dark:bg-amber-900/20 cursor-pointer"
+                        : "border-gray-200 dark:border-gray-700 hover:border-amber-300 dark:hover:border-amber-700 cursor-pointer"
+                  }`}
+                >
+                  <Checkbox
+                    checked={selected}
+                    disabled={!row.question}
+                    onCheckedChange={(checked) => toggleRow(row.row, !!checked)}
+                    className="mt-1 mr-3 data-[state=checked]:bg-amber-600 data-[state=checked]:border-amber-600"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start gap-2">
+                      <span className="text-xs text-gray-400 mt-0.5 shrink-0">#{row.row}</span>
+                      <p className="text-sm text-gray-800 dark:text-gray-200 line-clamp-2">
+                        {row.question?.questionText || row.label || "Untitled question"}
+                      </p>
+                    </div>
+
+                    {row.question && (
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        <Badge variant="outline">{QUESTION_TYPE_LABELS[row.question.questionType] || row.question.questionType}</Badge>
+                        {row.question.book && (
+                          <span className="flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                            <BookOpen className="h-3 w-3" />
+                            {row.question.book} {row.question.chapter || ""}
+                          </span>
+                        )}
+                        {row.question.difficulty && (
+                          <Badge variant="outline" className="capitalize">{row.question.difficulty}</Badge>
+                        )}
+                        {row.question.options.length > 0 && (
+                          <span className="truncate">{row.question.options.map(o => o.text).join(" · ")}</span>
+                        )}
+                        {row.validation && (
+                          <span className={row.validation.isValid ? "text-green-700 dark:text-green-400" : "text-orange-700 dark:text-orange-400"}>
+                            Validation score {row.validation.score}
+                          </span>
+                        )}
+                      </div>
+                    )}
+
+                    {row.errors.map((error, i) => (
+                      <p key={i} className="flex items-start gap-1 mt-1 text-xs text-red-700 dark:text-red-400">
+                        <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                        {error}
+                      </p>
+                    ))}
+                    {row.validation?.issues.map((issue, i) => (
+                      <p
+                        key={i}
+                        className={`flex items-start gap-1 mt-1 text-xs ${
+                          issue.severity === "high" ? "text-orange-700 dark:text-orange-400" : "text-amber-700 dark:text-amber-400"
+                        }`}
+                      >
+                        <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                        {issue.message}
+                      </p>
+                    ))}
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+
+          {/* Quiz Details */}
+          <div className="space-y-4 pt-2 border-t border-amber-100 dark:border-gray-700">
+            <div>
+              <Label htmlFor="import-title" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Quiz Title <span className="text-orange-500">*</span>
+              </Label>
+              <Input
+                id="import-title"
+                value={details.title}
+                onChange={(e) => setDetails({ ...details, title: e.target.value })}
+                placeholder="e.g., Genesis Review"
+              />
+            </div>
+            <div>
+              <Label htmlFor="import-description" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Description
+              </Label>
+              <Textarea
+                id="import-description"
+                value={details.description}
+                onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                rows={2}
+                className="resize-none"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="import-duration" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Duration (minutes)
+                </Label>
+                <Input
+                  id="import-duration"
+                  type="number"
+                  min={5}
+                  max={180}
+                  value={details.duration}
+                  onChange={(e) => setDetails({ ...details, duration: parseInt(e.target.value) || 30 })}
+                />
+              </div>
+              <label className="flex items-center cursor-pointer md:mt-6">
+                <Checkbox
+                  checked={details.shuffleQuestions}
+                  onCheckedChange={(checked) => setDetails({ ...details, shuffleQuestions: !!checked })}
+                  className="mr-3 data-[state=checked]:bg-amber-600 data-[state=checked]:border-amber-600"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">Shuffle Questions</span>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The quiz is saved as a draft. You&apos;ll set its start time when publishing.
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSubmit}
+              disabled={!canSubmit || submitting}
+              className="bg-amber-600 hover:bg-amber-700 text-white min-h-[44px] w-full sm:w-auto"
+            >
+              {submitting ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Import {selectedRows.length} Question{selectedRows.length !== 1 ? "s" : ""}
+                </>
+              )}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ImportQuestions;
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, Suspense } from "react";
+import { useState, useEffect, useMemo, useRef, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 
@@ -30,11 +30,14 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   AlertCircle, BookOpen, Upload, Clock, Calendar, Globe, 
   BookOpenCheck, Brain, RefreshCw, ArrowLeft, ArrowRight,
-  FileText, CheckCircle, Check
+  FileText, CheckCircle, Check, Sparkles, Library, FileUp
 } from "lucide-react";
 import { isFeatureEnabled, FEATURES } from "@/lib/feature-flags";
 import { PageHeader, PageContainer, Section, LoadingState } from "@/components/educator-v2";
 import { logger } from "@/lib/logger";
+import { BIBLE_BOOKS, parseScriptureReferences, formatScriptureReference, referenceScope } from "@/lib/scripture-reference";
+import { AssembleFromBank } from "./AssembleFromBank";
+import { ImportQuestions } from "./ImportQuestions";
 
 // ... Keep all the existing interfaces and types ...
 
@@ -54,6 +57,7 @@ interface QuizConfig {
   topics: string[];
   books: string[];
   chapters: string[];
+  references: string[];
   difficulty: "easy" | "intermediate" | "hard";
   bloomsLevels: string[];
   questionCount: number;
@@ -69,6 +73,12 @@ function CreateQuizContent() {
   const searchParams = useSearchParams();
   const { toast } = useToast();
   const documentId = searchParams.get("documentId");
+  const targetQuizId = searchParams.get("quizId");
+  const [creationMode, setCreationMode] = useState<"generate" | "bank" | "import">(
+    searchParams.get("mode") === "bank" || targetQuizId
+      ? "bank"
+      : searchParams.get("mode") === "import" ? "import" : "generate"
+  );
   const [educatorId, setEducatorId] = useState<string | null>(null);
   const [isDeferredEnabled, setIsDeferredEnabled] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -156,6 +166,7 @@ function CreateQuizContent() {
     topics: [],
     books: [],
     chapters: [],
+    references: [],
     difficulty: "intermediate",
     bloomsLevels: ["knowledge"],
     questionCount: 10,
@@ -166,8 +177,8 @@ function CreateQuizContent() {
     useDeferredScheduling: false // Will be updated when educatorId is loaded
   });
 
-  const [selectedBook, setSelectedBook] = useState("");
-  const [chapterInput, setChapterInput] = useState("");
+  const [referenceInput, setReferenceInput] = useState("");
+  const scripture = useMemo(() => parseScriptureReferences(referenceInput), [referenceInput]);
   const [userTimezone] = useState(getDefaultTimezone());
 
   // Initialize start time when component mounts or timezone changes
@@ -522,24 +533,16 @@ function CreateQuizContent() {
     }
   ];
 
-  const booksOfBible = [
-    // Old Testament
-    "Genesis", "Exodus", "Leviticus", "Numbers", "Deuteronomy",
-    "Joshua", "Judges", "Ruth", "1 Samuel", "2 Samuel",
-    "1 Kings", "2 Kings", "1 Chronicles", "2 Chronicles",
-    "Ezra", "Nehemiah", "Esther", "Job", "Psalms", "Proverbs",
-    "Ecclesiastes", "Song of Solomon", "Isaiah", "Jeremiah",
-    "Lamentations", "Ezekiel", "Daniel", "Hosea", "Joel",
-    "Amos", "Obadiah", "Jonah", "Micah", "Nahum", "Habakkuk",
-    "Zephaniah", "Haggai", "Zechariah", "Malachi",
-    // New Testament
-    "Matthew", "Mark", "Luke", "John", "Acts", "Romans",
-    "1 Corinthians", "2 Corinthians", "Galatians", "Ephesians",
-    "Philippians", "Colossians", "1 Thessalonians", "2 Thessalonians",
-    "1 Timothy", "2 Timothy", "Titus", "Philemon", "Hebrews",
-    "James", "1 Peter", "2 Peter", "1 John", "2 John", "3 John",
-    "Jude", "Revelation"
-  ];
+  // Passages like "John 3:1-21; Romans 5" also set the books and chapters sent with the quiz
+  const updateReferences = (value: string) => {
+    setReferenceInput(value);
+    const parsed = parseScriptureReferences(value);
+    setConfig({
+      ...config,
+      references: parsed.references.map((reference) => formatScriptureReference(reference)),
+      ...referenceScope(parsed.references),
+    });
+  };
 
   const getStepTitle = (step: number) => {
     switch (step) {
@@ -559,7 +562,7 @@ function CreateQuizContent() {
       case 1:
         return "Choose documents for your quiz";
       case 2:
-        return "Select books, chapters, and topics";
+        return "Enter the passages to cover";
       case 3:
         return "Configure quiz settings";
       default:
@@ -572,7 +575,7 @@ function CreateQuizContent() {
       case 1:
         return config.documentIds.length > 0;
       case 2:
-        return config.books.length > 0;
+        return config.references.length > 0 && scripture.errors.length === 0;
       case 3:
         return (
           config.title.trim() !== "" &&
@@ -620,6 +623,68 @@ function CreateQuizContent() {
       
       <PageContainer>
 
+        {/* Creation Mode */}
+        {!targetQuizId && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-6">
+            <Button
+              variant={creationMode === "generate" ? "default" : "outline"}
+              onClick={() => setCreationMode("generate")}
+              className={creationMode === "generate"
+                ? "bg-amber-600 hover:bg-amber-700 text-white min-h-[44px]"
+                : "border-amber-600 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 min-h-[44px]"}
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Generate from Documents
+            </Button>
+            <Button
+              variant={creationMode === "bank" ? "default" : "outline"}
+              onClick={() => setCreationMode("bank")}
+              className={creationMode === "bank"
+                ? "bg-amber-600 hover:bg-amber-700 text-white min-h-[44px]"
+                : "border-amber-600 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 min-h-[44px]"}
+            >
+              <Library className="h-4 w-4 mr-2" />
+              Assemble from Question Bank
+            </Button>
+            <Button
+              variant={creationMode === "import" ? "default" : "outline"}
+              onClick={() => setCreationMode("import")}
+              className={creationMode === "import"
+                ? "bg-amber-600 hover:bg-amber-700 text-white min-h-[44px]"
+                : "border-amber-600 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 min-h-[44px]"}
+            >
+              <FileUp className="h-4 w-4 mr-2" />
+              Import Questions
+            </Button>
+          </div>
+        )}
+
+        {creationMode === "bank" ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-amber-200 dark:border-gray-700 p-4">
+            <div className="mb-4">
+              <h2 className="text-lg font-medium text-gray-800 dark:text-gray-100">
+                {targetQuizId ? "📚 Add Questions from Your Bank" : "📚 Assemble from Your Question Bank"}
+              </h2>
+              <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Reuse questions you have already reviewed instead of generating new ones
+              </p>
+            </div>
+            <AssembleFromBank targetQuizId={targetQuizId} />
+          </div>
+        ) : creationMode === "import" ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow border border-amber-200 dark:border-gray-700 p-4">
+            <div className="mb-4">
+              <h2 className="text-lg font-medium text-gray-800 dark:text-gray-100">
+                📥 Import Questions
+              </h2>
+              <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Bring in questions you already have from a spreadsheet or another LMS
+              </p>
+            </div>
+            <ImportQuestions />
+          </div>
+        ) : (
+        <>
         {/* Progress Bar */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-4">
@@ -751,71 +816,76 @@ function CreateQuizContent() {
 
           {currentStep === 2 && (
             <div className="space-y-4">
-              {/* Biblical Book Selection */}
+              {/* Scripture Passages */}
               <div>
-                <Label className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-2 flex items-center">
+                <Label htmlFor="references" className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-2 flex items-center">
                   <BookOpen className="h-5 w-5 mr-2 text-amber-600" />
-                  Book of the Bible
+                  Scripture Passages
+                </Label>
+                <Input
+                  id="references"
+                  type="text"
+                  value={referenceInput}
+                  onChange={(e) => updateReferences(e.target.value)}
+                  placeholder="e.g., John 3:1-21; Romans 5"
+                  className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 focus:ring-amber-500 focus:border-amber-500"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Separate passages with semicolons. A book on its own covers every chapter. Abbreviations such as &ldquo;1 Cor 13&rdquo; and book names in Malayalam, Tamil, Hindi, French and Spanish are recognized.
+                </p>
+                {scripture.errors.length > 0 && (
+                  <ul className="mt-2 text-sm text-red-600 dark:text-red-400 space-y-1">
+                    {scripture.errors.map((error, index) => (
+                      <li key={index} className="flex items-center gap-1">
+                        <AlertCircle className="h-4 w-4" />
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Whole-book shortcut */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Add a Book
                 </Label>
                 <Select
-                  value={selectedBook}
+                  value=""
                   onValueChange={(value) => {
-                    setSelectedBook(value);
-                    setConfig({ ...config, books: value ? [value] : [] });
+                    if (value) updateReferences(referenceInput.trim() ? `${referenceInput.trim().replace(/;$/, "")}; ${value}` : value);
                   }}
-                  required
                 >
                   <SelectTrigger className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 focus:ring-amber-500 focus:border-amber-500">
                     <SelectValue placeholder="Select a book..." />
                   </SelectTrigger>
                   <SelectContent className="max-h-96">
                     <div className="font-semibold text-xs text-gray-500 px-2 py-1">Old Testament</div>
-                    {booksOfBible.slice(0, 39).map((book) => (
-                      <SelectItem key={book} value={book}>
-                        {book}
+                    {BIBLE_BOOKS.filter((book) => book.testament === "OT").map((book) => (
+                      <SelectItem key={book.id} value={book.name}>
+                        {book.name}
                       </SelectItem>
                     ))}
                     <div className="font-semibold text-xs text-gray-500 px-2 py-1 mt-2">New Testament</div>
-                    {booksOfBible.slice(39).map((book) => (
-                      <SelectItem key={book} value={book}>
-                        {book}
+                    {BIBLE_BOOKS.filter((book) => book.testament === "NT").map((book) => (
+                      <SelectItem key={book.id} value={book.name}>
+                        {book.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
-              {/* Chapter Selection */}
-              <div>
-                <Label className="text-lg font-semibold text-gray-700 dark:text-gray-300 mb-2">
-                  Chapters (Optional)
-                </Label>
-                <Input
-                  type="text"
-                  value={chapterInput}
-                  onChange={(e) => {
-                    setChapterInput(e.target.value);
-                    setConfig({ ...config, chapters: e.target.value ? [e.target.value] : [] });
-                  }}
-                  placeholder="e.g., 1-10 or 2,3,5"
-                  className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 focus:ring-amber-500 focus:border-amber-500"
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Leave empty to include all chapters from the selected book
-                </p>
-              </div>
-
               {/* Summary */}
-              {config.books.length > 0 && (
+              {config.references.length > 0 && (
                 <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
                   <h3 className="font-semibold text-amber-700 dark:text-amber-400 mb-2">
                     Assessment Scope:
                   </h3>
                   <ul className="text-sm text-amber-600 dark:text-amber-500 space-y-1">
-                    <li>• Book: {config.books.join(", ")}</li>
-                    {config.chapters.length > 0 && (
-                      <li>• Chapters: {config.chapters.join(", ")}</li>
-                    )}
+                    {config.references.map((reference) => (
+                      <li key={reference}>• {reference}</li>
+                    ))}
                   </ul>
                 </div>
               )}
@@ -1206,6 +1276,9 @@ function CreateQuizContent() {
           </div>
         </div>
 
+        </>
+        )}
+
         {/* Quiz Generation Modal */}
         {loading && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
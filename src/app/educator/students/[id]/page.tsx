@@ -26,8 +26,10 @@ import {
   Section,
   LoadingState,
   EmptyState,
-  TabNavigation
+  TabNavigation,
+  ExportMenu
 } from "@/components/educator-v2";
+import ScriptureHeatmap from "@/components/analytics/ScriptureHeatmap";
 import { logger } from "@/lib/logger";
 
 interface QuizAttempt {
@@ -133,6 +135,7 @@ export default function StudentDetailPage() {
           href: "/educator/students",
           label: "Students"
         }}
+        actions={<ExportMenu endpoint={`/api/educator/students/${studentId}`} />}
       />
 
       {/* Student Info Card */}
@@ -438,6 +441,12 @@ export default function StudentDetailPage() {
           )}
         </Section>
       )}
+
+      {activeTab === "performance" && (
+        <div className="mt-6">
+          <ScriptureHeatmap timeRange="all" scope={{ type: "student", studentId }} />
+        </div>
+      )}
     </PageContainer>
   );
 }
\ No newline at end of file
@@ -1,6 +1,16 @@
 import { Analytics } from "@vercel/analytics/react";
 import type { Metadata, Viewport } from "next";
-import { Inter } from "next/font/google";
+import {
+  Inter,
+  Noto_Sans_Arabic,
+  Noto_Sans_Bengali,
+  Noto_Sans_Devanagari,
+  Noto_Sans_Hebrew,
+  Noto_Sans_Kannada,
+  Noto_Sans_Malayalam,
+  Noto_Sans_Tamil,
+  Noto_Sans_Telugu,
+} from "next/font/google";
 import { SpeedInsights } from "@vercel/speed-insights/next";
 import { ThemeProvider } from "@/components/theme-provider";
 import { UserProvider } from "@/contexts/UserContext";
@@ -18,6 +28,83 @@ const inter = Inter({
   display: "swap",
 });
 
+// Fonts for translated quizzes, applied by [data-script] in globals.css. Not preloaded:
+// the browser only downloads one when a page shows text in that script.
+const notoMalayalam = Noto_Sans_Malayalam({
+  variable: "--font-script-malayalam",
+  subsets: ["malayalam"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const notoTamil = Noto_Sans_Tamil({
+  variable: "--font-script-tamil",
+  subsets: ["tamil"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const notoDevanagari = Noto_Sans_Devanagari({
+  variable: "--font-script-devanagari",
+  subsets: ["devanagari"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const notoTelugu = Noto_Sans_Telugu({
+  variable: "--font-script-telugu",
+  subsets: ["telugu"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const notoKannada = Noto_Sans_Kannada({
+  variable: "--font-script-kannada",
+  subsets: ["kannada"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const notoBengali = Noto_Sans_Bengali({
+  variable: "--font-script-bengali",
+  subsets: ["bengali"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const notoArabic = Noto_Sans_Arabic({
+  variable: "--font-script-arabic",
+  subsets: ["arabic"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const notoHebrew = Noto_Sans_Hebrew({
+  variable: "--font-script-hebrew",
+  subsets: ["hebrew"],
+  weight: ["400", "600"],
+  display: "swap",
+  preload: false,
+});
+
+const scriptFontVariables = [
+  notoMalayalam,
+  notoTamil,
+  notoDevanagari,
+  notoTelugu,
+  notoKannada,
+  notoBengali,
+  notoArabic,
+  notoHebrew,
+].map(font => font.variable).join(" ");
+
 export const metadata: Metadata = {
   title: "Scrolls of Wisdom - Biblical Knowledge Quest",
   description:
@@ -55,7 +142,7 @@ export default function RootLayout({
   return (
     <html lang="en" suppressHydrationWarning>
       <body
-        className={`${inter.variable} antialiased font-sans`}
+        className={`${inter.variable} ${scriptFontVariables} antialiased font-sans`}
       >
         <ThemeProvider
           attribute="class"
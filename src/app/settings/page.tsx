@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TimezoneSelector } from "@/components/ui/timezone-selector";
 import { authClient } from "@/lib/auth-client";
 import { getTimezoneInfo } from "@/lib/timezone";
@@ -15,6 +16,7 @@ import {
   ArrowLeftIcon,
   UserCircleIcon,
   ClockIcon,
+  EnvelopeIcon,
   CheckCircleIcon,
   ExclamationCircleIcon,
   ArrowPathIcon,
@@ -27,6 +29,8 @@ interface UserProfile {
   role: string;
   phoneNumber?: string;
   timezone: string;
+  emailLanguage: string;
+  emailLanguages: { code: string; name: string; nativeName: string }[];
   createdAt: string;
   updatedAt: string;
 }
@@ -41,6 +45,7 @@ export default function SettingsPage() {
     name: "",
     phoneNumber: "",
     timezone: "Asia/Kolkata",
+    emailLanguage: "en",
   });
 
   useEffect(() => {
@@ -64,6 +69,7 @@ export default function SettingsPage() {
           name: userData.name || "",
           phoneNumber: userData.phoneNumber || "",
           timezone: userData.timezone || "Asia/Kolkata",
+          emailLanguage: userData.emailLanguage || "en",
         });
       }
     } catch (error) {
@@ -81,7 +87,11 @@ export default function SettingsPage() {
       const response = await fetch("/api/user/profile", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          // Only when changed, so a language disabled since doesn't block saving the rest
+          emailLanguage: formData.emailLanguage !== user?.emailLanguage ? formData.emailLanguage : undefined,
+        }),
       });
 
       if (response.ok) {
@@ -278,6 +288,48 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Email Language */}
+        {user?.role === "student" && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <EnvelopeIcon className="h-5 w-5" />
+                Email Language
+              </CardTitle>
+              <CardDescription>
+                Choose the language of quiz assignment emails
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="emailLanguage" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Language
+                </Label>
+                <Select
+                  value={formData.emailLanguage}
+                  onValueChange={(emailLanguage) => setFormData({ ...formData, emailLanguage })}
+                >
+                  <SelectTrigger id="emailLanguage" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {user.emailLanguages.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>
+                        {language.nativeName === language.name
+                          ? language.name
+                          : `${language.nativeName} (${language.name})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Emails that don&apos;t have a version in your language are sent in English.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Save Button */}
         <div className="flex justify-end gap-4">
           <Button
@@ -37,7 +37,9 @@ import {
   Calendar,
   ChevronRight,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Repeat,
+  Radio
 } from "lucide-react";
 
 interface Quiz {
@@ -50,6 +52,16 @@ interface Quiz {
   isActive?: boolean;
   isUpcoming?: boolean;
   isExpired?: boolean;
+  attempted?: boolean;
+  attemptsRemaining?: number | null;
+  canRetake?: boolean;
+}
+
+function formatAttemptsLeft(quiz: Quiz): string | null {
+  if (!quiz.attempted) return null;
+  if (quiz.attemptsRemaining === null) return "Unlimited retakes";
+  if (!quiz.attemptsRemaining) return "No attempts left";
+  return `${quiz.attemptsRemaining} attempt${quiz.attemptsRemaining !== 1 ? 's' : ''} left`;
 }
 
 interface QuizAttempt {
@@ -74,6 +86,7 @@ const MemoizedQuizCard = memo(({ quiz }: { quiz: Quiz }) => (
         </h3>
         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
           {quiz.totalQuestions} questions • {quiz.duration || 0} minutes
+          {formatAttemptsLeft(quiz) && ` • ${formatAttemptsLeft(quiz)}`}
         </p>
       </div>
       <ChevronRight className="h-5 w-5 text-gray-400" />
@@ -94,6 +107,7 @@ function StudentDashboard() {
     upcomingQuizzes: 0,
   });
   const [recentQuizzes, setRecentQuizzes] = useState<any[]>([]);
+  const [reviewCounts, setReviewCounts] = useState({ dueNow: 0, dueToday: 0, total: 0 });
   
   // Session management for student dashboard
   useSessionManager({
@@ -160,14 +174,20 @@ function StudentDashboard() {
   const fetchDashboardData = useCallback(async () => {
     try {
       // Parallel API calls with optimized caching
-      const [quizzesResult, resultsResult] = await Promise.all([
+      const [quizzesResult, resultsResult, reviewResult] = await Promise.all([
         fetchWithOptimizedCache('/api/student/quizzes?status=all', { ttl: 300 }), // 5 min cache
-        fetchWithOptimizedCache('/api/student/results', { ttl: 60 })   // 1 min cache
+        fetchWithOptimizedCache('/api/student/results', { ttl: 60 }),   // 1 min cache
+        // Review counts are a nice-to-have, so a failure here mustn't blank the dashboard
+        fetchWithOptimizedCache('/api/student/review?summary=true', { ttl: 60 }).catch(() => ({ data: null }))
       ]);
 
       const quizzesData = quizzesResult.data;
       const resultsData = resultsResult.data;
 
+      if (reviewResult.data?.counts) {
+        setReviewCounts(reviewResult.data.counts);
+      }
+
       if (quizzesData && resultsData) {
 
         // Process quiz data safely with null handling
@@ -177,7 +197,7 @@ function StudentDashboard() {
         );
         // Include reassigned quizzes in active quizzes even if expired
         const activeQuizzes = processedQuizzes.filter(q => !q.isExpired || q.isReassignment);
-        const available = activeQuizzes.filter(q => !q.attempted).length;
+        const available = activeQuizzes.filter(q => !q.attempted || q.canRetake).length;
         const upcoming = activeQuizzes.filter(q => q.isUpcoming && !q.isReassignment).length;
 
         // Process results data safely with null handling
@@ -189,7 +209,8 @@ function StudentDashboard() {
             status: r.status || 'in_progress'
           })
         );
-        const completedAttempts = processedResults.filter(a => a.status === 'completed');
+        // Practice runs don't count towards the student's stats
+        const completedAttempts = processedResults.filter(a => a.status === 'completed' && a.mode !== 'practice');
         const totalScore = completedAttempts.reduce((sum, attempt) => 
           sum + safeNumber(attempt.score, 0), 0
         );
@@ -238,12 +259,20 @@ function StudentDashboard() {
         subtitle={`Welcome back, ${user?.name || 'Student'}`}
         icon={BookOpen}
         actions={
-          <Link href="/student/quizzes">
-            <Button className="bg-amber-600 hover:bg-amber-700">
-              <BookOpen className="h-4 w-4 mr-2" />
-              Browse Quizzes
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/student/live">
+              <Button variant="outline" className="border-amber-200 hover:bg-amber-50">
+                <Radio className="h-4 w-4 mr-2" />
+                Join Live Quiz
+              </Button>
+            </Link>
+            <Link href="/student/quizzes">
+              <Button className="bg-amber-600 hover:bg-amber-700">
+                <BookOpen className="h-4 w-4 mr-2" />
+                Browse Quizzes
+              </Button>
+            </Link>
+          </div>
         }
       />
 
@@ -281,6 +310,36 @@ function StudentDashboard() {
         </div>
       </Section>
 
+      {/* Spaced-repetition review */}
+      {reviewCounts.total > 0 && (
+        <Section transparent noPadding>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/10">
+            <div className="flex items-center">
+              <Repeat className="h-6 w-6 text-amber-600 mr-3" />
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {reviewCounts.dueToday > 0
+                    ? `${reviewCounts.dueToday} question${reviewCounts.dueToday === 1 ? "" : "s"} due for review today`
+                    : "You're caught up on reviews"}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {reviewCounts.dueNow > 0 ? `${reviewCounts.dueNow} ready now • ` : ""}
+                  {reviewCounts.total} in your review queue
+                </p>
+              </div>
+            </div>
+            {reviewCounts.dueNow > 0 && (
+              <Link href="/student/review">
+                <Button className="bg-amber-600 hover:bg-amber-700">
+                  Start Review
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </Link>
+            )}
+          </div>
+        </Section>
+      )}
+
       {/* Groups Section */}
       <Section transparent noPadding>
         <GroupInfo />
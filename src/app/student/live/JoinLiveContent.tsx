@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Radio, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PageContainer, PageHeader, Section } from "@/components/student-v2";
+import { logger } from "@/lib/logger";
+
+export default function JoinLiveContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [code, setCode] = useState((searchParams.get("code") || "").toUpperCase());
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleJoin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setJoining(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/student/live/join", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Couldn't join");
+      router.push(`/student/live/${data.sessionId}`);
+    } catch (err) {
+      logger.error("Error joining live session:", err);
+      setError(err instanceof Error ? err.message : "Couldn't join");
+      setJoining(false);
+    }
+  };
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Join a Live Quiz"
+        subtitle="Enter the code on your teacher's screen"
+        icon={Radio}
+        breadcrumbs={[{ label: "Live Quiz" }]}
+      />
+      <Section>
+        <form onSubmit={handleJoin} className="mx-auto max-w-sm space-y-4 py-6 text-center">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="ABC123"
+            maxLength={8}
+            autoFocus
+            autoComplete="off"
+            className="h-16 text-center font-mono text-3xl tracking-[0.3em]"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button
+            type="submit"
+            size="lg"
+            disabled={joining || code.trim().length < 4}
+            className="w-full bg-amber-600 hover:bg-amber-700"
+          >
+            {joining ? <Loader2 className="h-5 w-5 animate-spin" /> : "Join"}
+          </Button>
+        </form>
+      </Section>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Radio, CheckCircle, XCircle, Clock, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { LoadingState, EmptyState } from "@/components/student-v2";
+import { LiveCountdown, LiveLeaderboard, liveOptionStyle } from "@/components/live";
+import { useLiveSessionEvents } from "@/hooks/useLiveSessionEvents";
+import type { LeaderboardEntry } from "@/lib/live-quiz";
+import { logger } from "@/lib/logger";
+
+interface ParticipantView {
+  session: {
+    id: string;
+    quizTitle: string;
+    status: "lobby" | "question" | "leaderboard" | "ended";
+    currentIndex: number;
+    totalQuestions: number;
+    secondsPerQuestion: number;
+    questionEndsAt: string | null;
+    serverTime: string;
+  };
+  displayName: string;
+  score: number;
+  rank: number | null;
+  question: {
+    id: string;
+    index: number;
+    questionText: string;
+    options: { id: string; text: string }[];
+  } | null;
+  correctAnswer: string | null;
+  myAnswer: { selectedAnswer: string; isCorrect: boolean | null; points: number | null } | null;
+  leaderboard: LeaderboardEntry[];
+}
+
+export default function LivePlayPage() {
+  const params = useParams();
+  const router = useRouter();
+  const sessionId = params.id as string;
+
+  const [view, setView] = useState<ParticipantView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState<string | null>(null);
+  const [timeUp, setTimeUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchView = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/student/live/${sessionId}`);
+      if (response.status === 403) {
+        router.replace("/student/live");
+        return;
+      }
+      if (response.ok) {
+        setView(await response.json());
+      }
+    } catch (err) {
+      logger.error("Error fetching live session:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, router]);
+
+  useEffect(() => {
+    fetchView();
+  }, [fetchView]);
+
+  useLiveSessionEvents(sessionId, fetchView);
+
+  const questionId = view?.question?.id;
+  useEffect(() => {
+    setTimeUp(false);
+    setError(null);
+  }, [questionId]);
+
+  const answer = async (optionId: string) => {
+    if (!view?.question || submitting) return;
+    setSubmitting(optionId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/student/live/${sessionId}/answer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ questionId: view.question.id, answer: optionId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Your answer wasn't recorded");
+      }
+      await fetchView();
+    } catch (err) {
+      logger.error("Error submitting live answer:", err);
+      setError("Your answer wasn't recorded");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingState fullPage text="Joining..." />;
+  }
+
+  if (!view) {
+    return (
+      <EmptyState
+        icon={Radio}
+        title="Live session not found"
+        description="Check the code with your teacher and try again."
+        action={{ label: "Enter a code", onClick: () => router.push("/student/live") }}
+      />
+    );
+  }
+
+  const { session, question, myAnswer } = view;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-amber-50 to-white dark:from-gray-900 dark:to-gray-950 px-4 py-4">
+      <div className="mx-auto max-w-xl">
+        <div className="flex items-center justify-between mb-6">
+          <div className="min-w-0">
+            <p className="font-semibold text-gray-900 dark:text-white truncate">{view.displayName}</p>
+            <p className="text-xs text-gray-500 truncate">{session.quizTitle}</p>
+          </div>
+          <div className="rounded-full bg-amber-600 px-4 py-1.5 font-bold text-white tabular-nums">
+            {view.score.toLocaleString()}
+          </div>
+        </div>
+
+        {session.status === "lobby" && (
+          <div className="py-20 text-center space-y-3">
+            <Radio className="mx-auto h-12 w-12 text-amber-600 animate-pulse" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">You&apos;re in!</h1>
+            <p className="text-gray-600 dark:text-gray-300">See your name on the screen? The quiz starts soon.</p>
+          </div>
+        )}
+
+        {session.status === "question" && question && (
+          <div className="space-y-5">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500">
+                  Question {session.currentIndex + 1} of {session.totalQuestions}
+                </p>
+                <h1 className="mt-1 text-lg font-semibold text-gray-900 dark:text-white">{question.questionText}</h1>
+              </div>
+              <LiveCountdown
+                endsAt={session.questionEndsAt}
+                serverTime={session.serverTime}
+                totalSeconds={session.secondsPerQuestion}
+                onExpire={() => setTimeUp(true)}
+                size="sm"
+              />
+            </div>
+
+            {myAnswer ? (
+              <div className="py-12 text-center space-y-2">
+                <CheckCircle className="mx-auto h-10 w-10 text-amber-600" />
+                <p className="font-semibold text-gray-900 dark:text-white">Answer locked in</p>
+                <p className="text-sm text-gray-500">Waiting for everyone else...</p>
+              </div>
+            ) : timeUp ? (
+              <div className="py-12 text-center space-y-2">
+                <Clock className="mx-auto h-10 w-10 text-gray-400" />
+                <p className="font-semibold text-gray-900 dark:text-white">Time&apos;s up</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 gap-3">
+                {question.options.map((option, index) => {
+                  const style = liveOptionStyle(index);
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => answer(option.id)}
+                      disabled={!!submitting}
+                      className={`flex items-center gap-3 rounded-xl px-4 py-4 text-left text-lg font-semibold transition disabled:opacity-60 ${style.tile}`}
+                    >
+                      <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-black/20 font-black">
+                        {style.letter}
+                      </span>
+                      {option.text}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {error && <p className="text-center text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        {session.status === "leaderboard" && (
+          <div className="space-y-6">
+            <div className={`rounded-xl p-6 text-center text-white ${
+              myAnswer?.isCorrect ? "bg-green-600" : "bg-red-500"
+            }`}>
+              {myAnswer?.isCorrect ? (
+                <>
+                  <CheckCircle className="mx-auto h-10 w-10" />
+                  <p className="mt-2 text-2xl font-bold">Correct!</p>
+                  <p className="text-lg">+{myAnswer.points}</p>
+                </>
+              ) : (
+                <>
+                  <XCircle className="mx-auto h-10 w-10" />
+                  <p className="mt-2 text-2xl font-bold">{myAnswer ? "Not quite" : "No answer"}</p>
+                  {question && view.correctAnswer && (
+                    <p className="text-sm opacity-90">
+                      The answer was {question.options.find(option => option.id === view.correctAnswer)?.text ?? view.correctAnswer}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+            {view.rank !== null && (
+              <p className="text-center text-gray-700 dark:text-gray-300">
+                You&apos;re in <span className="font-bold">#{view.rank}</span> place
+              </p>
+            )}
+            <LiveLeaderboard entries={view.leaderboard} />
+          </div>
+        )}
+
+        {session.status === "ended" && (
+          <div className="space-y-6 text-center">
+            <Trophy className="mx-auto h-12 w-12 text-amber-500" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">That&apos;s a wrap!</h1>
+            <p className="text-gray-700 dark:text-gray-300">
+              You finished <span className="font-bold">#{view.rank}</span> with {view.score.toLocaleString()} points
+            </p>
+            <LiveLeaderboard entries={view.leaderboard} />
+            <Link href="/student/dashboard">
+              <Button variant="outline">Back to Dashboard</Button>
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
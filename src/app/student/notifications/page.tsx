@@ -0,0 +1,305 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { logger } from "@/lib/logger";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { withErrorBoundary } from "@/components/student/StudentPageWrapper";
+import {
+  NotificationIcon,
+  notificationAge,
+  type StudentNotificationItem,
+} from "@/components/student/NotificationBell";
+import {
+  PageContainer,
+  PageHeader,
+  Section,
+  TabNavigation,
+  LoadingState,
+  EmptyState
+} from "@/components/student-v2";
+import { Bell, BellOff, CheckCheck, Inbox, Loader2, Save } from "lucide-react";
+
+type NotificationType = StudentNotificationItem["type"];
+
+interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+}
+
+interface NotificationPreferences {
+  channels: Record<NotificationType, NotificationChannels>;
+  dailyDigest: boolean;
+}
+
+interface NotificationTypeInfo {
+  type: NotificationType;
+  label: string;
+  description: string;
+}
+
+/**
+ * The student's notification inbox, and which notifications they get in the app,
+ * by email and in the daily digest
+ */
+function StudentNotificationsPage() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<"all" | "unread">("all");
+  const [notifications, setNotifications] = useState<StudentNotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [types, setTypes] = useState<NotificationTypeInfo[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [savedPreferences, setSavedPreferences] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/student/notifications?limit=100${filter === "unread" ? "&unread=true" : ""}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load notifications");
+
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      logger.error("Error loading notifications:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load notifications",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, toast]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/student/notifications/preferences");
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load notification settings");
+
+        setTypes(data.types);
+        setPreferences(data.preferences);
+        setSavedPreferences(data.preferences);
+      } catch (error) {
+        logger.error("Error loading notification preferences:", error);
+      }
+    };
+    fetchPreferences();
+  }, []);
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    try {
+      const response = await fetch("/api/student/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) throw new Error("Failed to update notifications");
+      await fetchNotifications();
+    } catch (error) {
+      logger.error("Error marking notifications as read:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update notifications",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openNotification = (notification: StudentNotificationItem) => {
+    if (!notification.readAt) markRead({ ids: [notification.id] });
+    if (notification.link) router.push(notification.link);
+  };
+
+  const setChannel = (type: NotificationType, channel: keyof NotificationChannels, value: boolean) => {
+    setPreferences(current => current && {
+      ...current,
+      channels: { ...current.channels, [type]: { ...current.channels[type], [channel]: value } },
+    });
+  };
+
+  const savePreferences = async () => {
+    if (!preferences) return;
+    setSaving(true);
+    try {
+      const response = await fetch("/api/student/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preferences),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save notification settings");
+
+      setPreferences(data.preferences);
+      setSavedPreferences(data.preferences);
+      toast({ title: "Saved", description: "Your notification settings have been updated" });
+      // Types hidden from or added back to the inbox change what it shows
+      await fetchNotifications();
+    } catch (error) {
+      logger.error("Error saving notification preferences:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save notification settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingState fullPage text="Loading your notifications..." />;
+  }
+
+  const preferencesChanged = JSON.stringify(preferences) !== JSON.stringify(savedPreferences);
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Notifications"
+        subtitle="New quizzes, reminders and results from your educators"
+        icon={Bell}
+        breadcrumbs={[
+          { label: "Dashboard", href: "/student/dashboard" },
+          { label: "Notifications" }
+        ]}
+        actions={unreadCount > 0 ? (
+          <Button variant="outline" onClick={() => markRead({ all: true })}>
+            <CheckCheck className="h-4 w-4 me-2" />
+            Mark all as read
+          </Button>
+        ) : undefined}
+      />
+
+      <Section>
+        <TabNavigation
+          tabs={[
+            { id: "all", label: "All", icon: Inbox },
+            { id: "unread", label: "Unread", icon: Bell, count: unreadCount },
+          ]}
+          activeTab={filter}
+          onTabChange={tab => setFilter(tab as "all" | "unread")}
+          className="mb-4"
+        />
+
+        {notifications.length === 0 ? (
+          <EmptyState
+            icon={filter === "unread" ? CheckCheck : BellOff}
+            title={filter === "unread" ? "You're all caught up" : "No notifications yet"}
+            description="You'll be notified here when an educator assigns you a quiz, shortly before a quiz starts and when results are ready."
+            size="sm"
+          />
+        ) : (
+          <ul className="divide-y divide-amber-100 dark:divide-amber-900/20">
+            {notifications.map(notification => (
+              <li key={notification.id}>
+                <button
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    "w-full flex items-start gap-3 px-3 py-3 text-start rounded-lg transition-colors hover:bg-amber-50 dark:hover:bg-amber-900/10",
+                    !notification.readAt && "bg-amber-50/60 dark:bg-amber-900/10"
+                  )}
+                >
+                  <NotificationIcon type={notification.type} className="mt-1 h-5 w-5 shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className={cn(
+                      "text-sm text-gray-900 dark:text-gray-100",
+                      !notification.readAt && "font-semibold"
+                    )}>
+                      {notification.title}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{notification.message}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">{notificationAge(notification.createdAt)}</p>
+                  </div>
+                  {!notification.readAt && (
+                    <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-amber-600" aria-label="Unread" />
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      {preferences && (
+        <Section
+          title="Notification Settings"
+          subtitle="Choose what shows up in your inbox and what's emailed to you"
+          actions={
+            <Button onClick={savePreferences} disabled={saving || !preferencesChanged}>
+              {saving ? <Loader2 className="h-4 w-4 me-2 animate-spin" /> : <Save className="h-4 w-4 me-2" />}
+              Save Settings
+            </Button>
+          }
+        >
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-600 dark:text-gray-400">
+                  <th className="py-2 text-start font-medium">Notification</th>
+                  <th className="py-2 px-4 text-center font-medium">Inbox</th>
+                  <th className="py-2 px-4 text-center font-medium">Email</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-amber-100 dark:divide-amber-900/20">
+                {types.map(({ type, label, description }) => (
+                  <tr key={type}>
+                    <td className="py-3">
+                      <p className="font-medium text-gray-900 dark:text-gray-100">{label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+                    </td>
+                    <td className="py-3 px-4 text-center">
+                      <Switch
+                        checked={preferences.channels[type].inApp}
+                        onCheckedChange={value => setChannel(type, "inApp", value)}
+                        aria-label={`${label} in inbox`}
+                      />
+                    </td>
+                    <td className="py-3 px-4 text-center">
+                      <Switch
+                        checked={preferences.channels[type].email}
+                        onCheckedChange={value => setChannel(type, "email", value)}
+                        aria-label={`${label} by email`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Emails about new and reopened quizzes are only sent when your educator chooses to notify students.
+          </p>
+
+          <div className="mt-6 flex items-start justify-between gap-4 rounded-lg border border-amber-100 dark:border-amber-900/20 p-4">
+            <div>
+              <p className="font-medium text-gray-900 dark:text-gray-100">Daily digest</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                One email each morning summarizing inbox notifications you haven&apos;t read or been emailed about.
+              </p>
+            </div>
+            <Switch
+              checked={preferences.dailyDigest}
+              onCheckedChange={value => setPreferences(current => current && { ...current, dailyDigest: value })}
+              aria-label="Daily digest"
+            />
+          </div>
+        </Section>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withErrorBoundary(StudentNotificationsPage);
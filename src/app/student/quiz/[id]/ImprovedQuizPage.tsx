@@ -17,11 +17,19 @@ import {
 import { logger } from "@/lib/logger";
 import { useToast } from "@/hooks/use-toast";
 import { isFeatureEnabled } from "@/lib/feature-flags";
+import { getTelemetry } from "@/lib/telemetry";
+import { QuestionAnswerInput } from "@/components/student/QuestionAnswerInput";
+import { QuizLanguagePicker } from "@/components/student/QuizLanguagePicker";
+import { useQuizLanguage } from "@/hooks/useQuizLanguage";
+import type { PublicAnswerData } from "@/lib/question-types";
+import { languageAttributes, type LanguageDisplay } from "@/lib/languages";
 
 interface Question {
   id: string;
   questionText: string;
   options: { id: string; text: string }[];
+  questionType?: string;
+  answerData?: PublicAnswerData | null;
   orderIndex: number;
   book?: string | null;
   chapter?: string | null;
@@ -51,6 +59,8 @@ export default function ImprovedQuizPage() {
   const params = useParams();
   const quizId = params.id as string;
   const { toast } = useToast();
+  const { language, choices: languageChoices, chooseLanguage } = useQuizLanguage(quizId);
+  const [questionLanguage, setQuestionLanguage] = useState<LanguageDisplay | null>(null);
 
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
@@ -62,6 +72,10 @@ export default function ImprovedQuizPage() {
   const [quizCompleted, setQuizCompleted] = useState(false);
   const [completionMessage, setCompletionMessage] = useState("");
   const [attemptId, setAttemptId] = useState<string | null>(null);
+  // Adaptive quizzes serve one question at a time; answered ones are locked in
+  const [adaptive, setAdaptive] = useState(false);
+  const [lockedQuestionIds, setLockedQuestionIds] = useState<string[]>([]);
+  const [advancing, setAdvancing] = useState(false);
 
   // Use refs to avoid stale closures in timer
   const timeRemainingRef = useRef(0);
@@ -78,8 +92,9 @@ export default function ImprovedQuizPage() {
     return quiz.questions[currentQuestionIndex];
   }, [quiz, currentQuestionIndex]);
 
-  // Fetch quiz data
+  // Fetch quiz data once the language is known
   useEffect(() => {
+    if (!language) return;
     isMountedRef.current = true;
     let mounted = true;
 
@@ -88,7 +103,7 @@ export default function ImprovedQuizPage() {
         // Always use AbortController for proper cleanup
         abortControllerRef.current = new AbortController();
         
-        const response = await fetch(`/api/student/quiz/${quizId}/start`, {
+        const response = await fetch(`/api/student/quiz/${quizId}/start?language=${encodeURIComponent(language)}`, {
           method: "POST",
           signal: abortControllerRef.current.signal,
         });
@@ -100,6 +115,13 @@ export default function ImprovedQuizPage() {
           setQuiz(data.quiz);
           quizRef.current = data.quiz;
           setAttemptId(data.attemptId);
+          setQuestionLanguage(data.languageDisplay ?? null);
+          if (data.adaptive) {
+            const answeredIds: string[] = data.answeredQuestionIds || [];
+            setAdaptive(true);
+            setLockedQuestionIds(answeredIds);
+            setCurrentQuestionIndex(Math.min(answeredIds.length, data.quiz.questions.length - 1));
+          }
           const remainingTime = data.remainingTime || data.quiz.duration * 60;
           setTimeRemaining(remainingTime);
           timeRemainingRef.current = remainingTime;
@@ -191,7 +213,7 @@ export default function ImprovedQuizPage() {
       
       logger.debug('Quiz page cleanup completed');
     };
-  }, [quizId, router, toast]);
+  }, [quizId, router, toast, language]);
 
   // Timer effect
   useEffect(() => {
@@ -245,6 +267,8 @@ export default function ImprovedQuizPage() {
     if (!currentQuestion) return;
     
     const timeSpent = Math.floor((Date.now() - questionStartTimeRef.current) / 1000);
+    // Restart the clock so repeated changes (e.g. typing a blank) aren't double counted
+    questionStartTimeRef.current = Date.now();
     
     setAnswers(prev => ({
       ...prev,
@@ -272,28 +296,78 @@ export default function ImprovedQuizPage() {
     }));
   }, [currentQuestion]);
 
+  // Send the current answer and receive the next question picked for this student
+  const handleAdaptiveNext = useCallback(async () => {
+    if (!quiz || !currentQuestion || !attemptId || advancing) return;
+
+    setAdvancing(true);
+    try {
+      const currentAnswer = answers[currentQuestion.id];
+      const response = await fetch(`/api/student/quiz/${quizId}/next`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          attemptId,
+          questionId: currentQuestion.id,
+          answer: currentAnswer?.answer ?? null,
+          timeSpent: currentAnswer?.timeSpent ?? 0,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || data.error || "Failed to load the next question");
+      if (!isMountedRef.current) return;
+
+      setLockedQuestionIds(prev => [...prev, currentQuestion.id]);
+      const updated = {
+        ...quiz,
+        questions: data.nextQuestion ? [...quiz.questions, data.nextQuestion] : quiz.questions,
+        totalQuestions: data.done ? quiz.questions.length : data.totalQuestions,
+      };
+      setQuiz(updated);
+      quizRef.current = updated;
+      if (data.nextQuestion) {
+        questionStartTimeRef.current = Date.now();
+        setCurrentQuestionIndex(updated.questions.length - 1);
+      }
+    } catch (error) {
+      logger.error("Error loading next adaptive question:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the next question",
+        variant: "destructive"
+      });
+    } finally {
+      setAdvancing(false);
+    }
+  }, [quiz, currentQuestion, attemptId, advancing, answers, quizId, toast]);
+
   const handleNext = useCallback(() => {
+    if (adaptive) {
+      handleAdaptiveNext();
+      return;
+    }
     if (!quiz || currentQuestionIndex >= quiz.questions.length - 1) return;
     questionStartTimeRef.current = Date.now();
     setCurrentQuestionIndex(prev => prev + 1);
-  }, [quiz, currentQuestionIndex]);
+  }, [adaptive, handleAdaptiveNext, quiz, currentQuestionIndex]);
 
   const handlePrevious = useCallback(() => {
-    if (currentQuestionIndex <= 0) return;
+    if (adaptive || currentQuestionIndex <= 0) return;
     questionStartTimeRef.current = Date.now();
     setCurrentQuestionIndex(prev => prev - 1);
-  }, [currentQuestionIndex]);
+  }, [adaptive, currentQuestionIndex]);
 
   const handleJumpToQuestion = useCallback((index: number) => {
+    if (adaptive) return;
     questionStartTimeRef.current = Date.now();
     setCurrentQuestionIndex(index);
-  }, []);
+  }, [adaptive]);
 
   const handleSubmit = useCallback(async (isAutoSubmit = false) => {
     if (!quiz || submitting) return;
 
     const unansweredCount = quiz.questions.filter(
-      q => !answers[q.id]?.answer
+      q => !answers[q.id]?.answer && !lockedQuestionIds.includes(q.id)
     ).length;
 
     if (!isAutoSubmit && unansweredCount > 0) {
@@ -362,9 +436,131 @@ export default function ImprovedQuizPage() {
       alert("Failed to submit quiz. Please try again.");
       setSubmitting(false);
     }
-  }, [quiz, answers, attemptId, quizId, router, submitting, timeRemaining]);
+  }, [quiz, answers, lockedQuestionIds, attemptId, quizId, router, submitting, timeRemaining]);
+
+  // Keep the latest progress in a ref so the check-in interval doesn't restart on every answer
+  const progressRef = useRef({ currentQuestionIndex: 0, answeredCount: 0 });
+  useEffect(() => {
+    progressRef.current = {
+      currentQuestionIndex,
+      answeredCount: Object.values(answers).filter(a => a.answer).length,
+    };
+  }, [currentQuestionIndex, answers]);
+
+  // Check in with the proctoring monitor, and pick up extra time or a forced submission
+  useEffect(() => {
+    if (!quiz || !attemptId) return;
+
+    const checkIn = async () => {
+      try {
+        const response = await fetch("/api/session/heartbeat", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            timestamp: Date.now(),
+            path: window.location.pathname,
+            isQuizActive: true,
+            attemptId,
+            ...progressRef.current,
+          }),
+        });
+        if (!response.ok || !isMountedRef.current) return;
+
+        const { attempt } = await response.json();
+        if (!attempt) return;
+
+        if (attempt.status !== "in_progress") {
+          if (timerRef.current) {
+            clearInterval(timerRef.current);
+            timerRef.current = null;
+          }
+          if (attempt.forceSubmitted) {
+            alert("Your teacher has submitted your quiz with the answers saved so far.");
+          }
+          router.push(`/student/results/${attemptId}`);
+          return;
+        }
+
+        // Only move the clock forward; small drift either way is left to the local timer
+        if (attempt.timeRemaining > timeRemainingRef.current + 5) {
+          const added = Math.round((attempt.timeRemaining - timeRemainingRef.current) / 60);
+          timeRemainingRef.current = attempt.timeRemaining;
+          setTimeRemaining(attempt.timeRemaining);
+          toast({
+            title: "Extra Time Added",
+            description: added > 0 ? `Your teacher gave you ${added} more minute${added === 1 ? "" : "s"}.` : "Your teacher gave you more time.",
+          });
+        }
+      } catch (error) {
+        logger.debug("Quiz check-in failed:", error);
+      }
+    };
+
+    checkIn();
+    const interval = setInterval(checkIn, 15000);
+    return () => clearInterval(interval);
+  }, [quiz, attemptId, router, toast]);
+
+  // Autosave shortly after answers change so a forced submission has them
+  useEffect(() => {
+    if (!attemptId || Object.keys(answers).length === 0) return;
+
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current);
+    }
+    autoSaveTimeoutRef.current = setTimeout(() => {
+      fetch(`/api/student/quiz/${quizId}/autosave`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          attemptId,
+          answers: Object.values(answers),
+          currentQuestionIndex,
+          timeRemaining: timeRemainingRef.current,
+        }),
+      }).catch(error => logger.debug("Quiz autosave failed:", error));
+    }, 2000);
+  }, [answers, attemptId, quizId, currentQuestionIndex]);
+
+  // Report leaving the quiz to the proctoring monitor
+  useEffect(() => {
+    if (!attemptId) return;
+    const telemetry = getTelemetry();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        telemetry.trackQuizEvent("user_tab_switch", quizId, attemptId, { questionIndex: progressRef.current.currentQuestionIndex });
+      }
+    };
+    // Blur without hiding the page means another window or app took focus
+    const handleBlur = () => {
+      if (document.visibilityState === "visible") {
+        telemetry.trackQuizEvent("user_app_switch", quizId, attemptId, { questionIndex: progressRef.current.currentQuestionIndex });
+      }
+    };
+    const handleCopy = () => telemetry.trackQuizEvent("user_copy", quizId, attemptId);
+    const handlePaste = () => telemetry.trackQuizEvent("user_paste", quizId, attemptId);
+    const handleOffline = () => telemetry.trackQuizEvent("network_offline", quizId, attemptId);
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handleBlur);
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handleBlur);
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [quizId, attemptId]);
 
   // Render states
+  if (languageChoices) {
+    return <QuizLanguagePicker languages={languageChoices} onSelect={chooseLanguage} />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -418,6 +614,9 @@ export default function ImprovedQuizPage() {
 
   const currentAnswer = answers[currentQuestion.id];
   const isTimeLow = timeRemaining < 300;
+  // Adaptive quizzes grow as the student answers, so the last question is only the last once all are served
+  const isLastQuestion = currentQuestionIndex === quiz.questions.length - 1
+    && (!adaptive || quiz.questions.length >= quiz.totalQuestions);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -487,51 +686,31 @@ export default function ImprovedQuizPage() {
                   </div>
                 )}
                 
-                <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+                <p className="text-gray-700 dark:text-gray-300 leading-relaxed" {...languageAttributes(questionLanguage)}>
                   {currentQuestion.questionText}
                 </p>
               </div>
 
               {/* Answer Options */}
-              <div className="space-y-3">
-                {currentQuestion.options.map((option, index) => (
-                  <button
-                    key={option.id}
-                    onClick={() => handleAnswerSelect(option.id)}
-                    className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
-                      currentAnswer?.answer === option.id
-                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
-                        : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
-                    }`}
-                  >
-                    <div className="flex items-start">
-                      <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold mr-3 ${
-                        currentAnswer?.answer === option.id
-                          ? 'bg-blue-500 text-white'
-                          : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-                      }`}>
-                        {String.fromCharCode(65 + index)}
-                      </span>
-                      <span className="text-gray-700 dark:text-gray-300">
-                        {option.text}
-                      </span>
-                    </div>
-                  </button>
-                ))}
-              </div>
+              <QuestionAnswerInput
+                question={currentQuestion}
+                value={currentAnswer?.answer}
+                onChange={handleAnswerSelect}
+                language={questionLanguage}
+              />
 
               {/* Navigation Buttons */}
               <div className="flex justify-between items-center mt-8">
                 <Button
                   variant="outline"
                   onClick={handlePrevious}
-                  disabled={currentQuestionIndex === 0}
+                  disabled={adaptive || currentQuestionIndex === 0}
                 >
                   <ChevronLeft className="h-4 w-4 mr-1" />
                   Previous
                 </Button>
                 
-                {currentQuestionIndex === quiz.questions.length - 1 ? (
+                {isLastQuestion ? (
                   <Button
                     onClick={() => handleSubmit()}
                     disabled={submitting}
@@ -550,7 +729,11 @@ export default function ImprovedQuizPage() {
                     )}
                   </Button>
                 ) : (
-                  <Button onClick={handleNext}>
+                  <Button
+                    onClick={handleNext}
+                    disabled={advancing || (adaptive && !currentAnswer?.answer)}
+                  >
+                    {advancing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                     Next
                     <ChevronRight className="h-4 w-4 ml-1" />
                   </Button>
@@ -565,17 +748,23 @@ export default function ImprovedQuizPage() {
               <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">
                 Question Navigator
               </h3>
+              {adaptive && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  Questions adapt to your answers, so each answer is final once you move on.
+                </p>
+              )}
               <div className="grid grid-cols-5 gap-2">
                 {quiz.questions.map((_, index) => {
                   const answer = answers[quiz.questions[index].id];
                   const isActive = index === currentQuestionIndex;
-                  const isAnswered = !!answer?.answer;
+                  const isAnswered = !!answer?.answer || lockedQuestionIds.includes(quiz.questions[index].id);
                   const isMarked = !!answer?.markedForReview;
                   
                   return (
                     <button
                       key={index}
                       onClick={() => handleJumpToQuestion(index)}
+                      disabled={adaptive}
                       className={`
                         w-10 h-10 rounded-lg text-sm font-medium transition-all
                         ${isActive ? 'ring-2 ring-blue-500 ring-offset-2' : ''}
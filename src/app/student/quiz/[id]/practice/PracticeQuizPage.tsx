@@ -0,0 +1,363 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useRouter, useParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle,
+  XCircle,
+  GraduationCap,
+  Loader2,
+} from "lucide-react";
+import { logger } from "@/lib/logger";
+import { useToast } from "@/hooks/use-toast";
+import { QuestionAnswerInput } from "@/components/student/QuestionAnswerInput";
+import { QuizLanguagePicker } from "@/components/student/QuizLanguagePicker";
+import { useQuizLanguage } from "@/hooks/useQuizLanguage";
+import type { PublicAnswerData } from "@/lib/question-types";
+import { languageAttributes, type LanguageDisplay } from "@/lib/languages";
+import { CitationList, type DisplayCitation } from "@/components/quiz/CitationList";
+
+interface Question {
+  id: string;
+  questionText: string;
+  options: { id: string; text: string }[];
+  questionType?: string;
+  answerData?: PublicAnswerData | null;
+  book?: string | null;
+  chapter?: string | null;
+}
+
+interface PracticeQuiz {
+  id: string;
+  title: string;
+  questions: Question[];
+}
+
+interface Feedback {
+  isCorrect: boolean;
+  credit: number;
+  answerText: string;
+  correctAnswerText: string;
+  explanation: string | null;
+  citations?: DisplayCitation[];
+}
+
+/**
+ * Untimed practice run of a quiz. Each answer is checked as soon as the student
+ * commits to it, and the attempt is kept out of analytics.
+ */
+export default function PracticeQuizPage() {
+  const router = useRouter();
+  const params = useParams();
+  const quizId = params.id as string;
+  const { toast } = useToast();
+  const { language, choices: languageChoices, chooseLanguage } = useQuizLanguage(quizId, "practice");
+  const [questionLanguage, setQuestionLanguage] = useState<LanguageDisplay | null>(null);
+
+  const [loading, setLoading] = useState(true);
+  const [quiz, setQuiz] = useState<PracticeQuiz | null>(null);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState<Record<string, Feedback>>({});
+  const [checking, setChecking] = useState(false);
+  const [finishing, setFinishing] = useState(false);
+  const questionStartRef = useRef(Date.now());
+  const startedAtRef = useRef(Date.now());
+
+  const checkAnswer = useCallback(async (
+    currentAttemptId: string,
+    questionId: string,
+    answer: string,
+    timeSpent: number
+  ): Promise<Feedback> => {
+    const response = await fetch(`/api/student/quiz/${quizId}/check`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ attemptId: currentAttemptId, questionId, answer, timeSpent }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to check answer");
+    return data;
+  }, [quizId]);
+
+  useEffect(() => {
+    if (!language) return;
+
+    const startPractice = async () => {
+      try {
+        const response = await fetch(`/api/student/quiz/${quizId}/start?mode=practice&language=${encodeURIComponent(language)}`, {
+          method: "POST",
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          toast({
+            title: "Practice Not Available",
+            description: data.message || data.error || "Cannot start practice",
+            variant: "destructive",
+          });
+          router.push("/student/quizzes");
+          return;
+        }
+
+        setQuiz(data.quiz);
+        setAttemptId(data.attemptId);
+        setQuestionLanguage(data.languageDisplay ?? null);
+
+        // Restore feedback for answers checked before the page was reloaded
+        const checked: { questionId: string; answer: string; timeSpent: number }[] = data.checkedAnswers || [];
+        if (checked.length > 0) {
+          const restored = await Promise.all(
+            checked.map(a => checkAnswer(data.attemptId, a.questionId, a.answer, a.timeSpent))
+          );
+          setAnswers(Object.fromEntries(checked.map(a => [a.questionId, a.answer])));
+          setFeedback(Object.fromEntries(checked.map((a, i) => [a.questionId, restored[i]])));
+          toast({ title: "Practice Resumed", description: "Picking up where you left off" });
+        }
+      } catch (error) {
+        logger.error("Error starting practice:", error);
+        toast({
+          title: "Network Error",
+          description: "Please check your connection and try again.",
+          variant: "destructive",
+        });
+        router.push("/student/quizzes");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    startPractice();
+  }, [quizId, router, toast, checkAnswer, language]);
+
+  const goTo = (index: number) => {
+    setCurrentIndex(index);
+    questionStartRef.current = Date.now();
+  };
+
+  const handleCheck = async () => {
+    if (!quiz || !attemptId) return;
+    const question = quiz.questions[currentIndex];
+    const answer = answers[question.id];
+    if (!answer) return;
+
+    setChecking(true);
+    try {
+      const timeSpent = Math.floor((Date.now() - questionStartRef.current) / 1000);
+      const result = await checkAnswer(attemptId, question.id, answer, timeSpent);
+      setFeedback(prev => ({ ...prev, [question.id]: result }));
+    } catch (error) {
+      logger.error("Error checking answer:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check answer",
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!quiz || !attemptId) return;
+
+    const uncheckedCount = quiz.questions.filter(q => !feedback[q.id]).length;
+    if (uncheckedCount > 0 && !confirm(`You haven't checked ${uncheckedCount} questions. Finish anyway?`)) {
+      return;
+    }
+
+    setFinishing(true);
+    try {
+      const response = await fetch(`/api/student/quiz/${quizId}/submit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          attemptId,
+          // Only checked answers count, so later edits can't change the outcome
+          answers: Object.entries(feedback).map(([questionId]) => ({
+            questionId,
+            answer: answers[questionId],
+            markedForReview: false,
+            timeSpent: 0,
+          })),
+          timeSpent: Math.floor((Date.now() - startedAtRef.current) / 1000),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || data.error || "Failed to finish practice");
+
+      router.push(`/student/results/${data.attemptId}`);
+    } catch (error) {
+      logger.error("Error finishing practice:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to finish practice",
+        variant: "destructive",
+      });
+      setFinishing(false);
+    }
+  };
+
+  if (languageChoices) {
+    return <QuizLanguagePicker title="Practice in which language?" languages={languageChoices} onSelect={chooseLanguage} />;
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-amber-600" />
+      </div>
+    );
+  }
+
+  if (!quiz || quiz.questions.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600 dark:text-gray-400">This quiz has no questions to practice.</p>
+        <Link href="/student/quizzes">
+          <Button variant="outline">Back to Quizzes</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const question = quiz.questions[currentIndex];
+  const currentFeedback = feedback[question.id];
+  const checkedCount = Object.keys(feedback).length;
+  const correctCount = Object.values(feedback).filter(f => f.isCorrect).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+                {quiz.title}
+              </h1>
+              <p className="flex items-center text-sm text-amber-700 dark:text-amber-400">
+                <GraduationCap className="h-4 w-4 mr-1" />
+                Practice mode - untimed and not graded
+              </p>
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400 text-right">
+              <div>Question {currentIndex + 1} of {quiz.questions.length}</div>
+              <div>{correctCount} of {checkedCount} correct so far</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <div className="mb-6">
+            {question.book && (
+              <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                {question.book}
+                {question.chapter && ` - Chapter ${question.chapter}`}
+              </div>
+            )}
+            <p className="text-gray-700 dark:text-gray-300 leading-relaxed" {...languageAttributes(questionLanguage)}>
+              {question.questionText}
+            </p>
+          </div>
+
+          <QuestionAnswerInput
+            question={question}
+            value={answers[question.id]}
+            onChange={(value) => setAnswers(prev => ({ ...prev, [question.id]: value }))}
+            disabled={!!currentFeedback}
+            language={questionLanguage}
+          />
+
+          {currentFeedback ? (
+            <div className={`mt-6 p-4 rounded-lg border ${
+              currentFeedback.isCorrect
+                ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+            }`}>
+              <div className="flex items-center font-semibold mb-2">
+                {currentFeedback.isCorrect ? (
+                  <>
+                    <CheckCircle className="h-5 w-5 mr-2 text-green-600" />
+                    <span className="text-green-700 dark:text-green-400">Correct!</span>
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="h-5 w-5 mr-2 text-red-600" />
+                    <span className="text-red-700 dark:text-red-400">
+                      {currentFeedback.credit > 0 ? "Partly correct" : "Not quite"}
+                    </span>
+                  </>
+                )}
+              </div>
+              {!currentFeedback.isCorrect && (
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  <span className="font-medium">Correct answer:</span>{" "}
+                  <span {...languageAttributes(questionLanguage)}>{currentFeedback.correctAnswerText}</span>
+                </p>
+              )}
+              {currentFeedback.explanation && (
+                <p className="text-sm text-gray-700 dark:text-gray-300 mt-2">
+                  <span className="font-medium">Explanation:</span>{" "}
+                  <span {...languageAttributes(questionLanguage)}>{currentFeedback.explanation}</span>
+                </p>
+              )}
+              <CitationList citations={currentFeedback.citations} className="mt-3" />
+            </div>
+          ) : (
+            <div className="mt-6">
+              <Button
+                onClick={handleCheck}
+                disabled={!answers[question.id] || checking}
+                className="bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                {checking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Check Answer
+              </Button>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center mt-8">
+            <Button
+              variant="outline"
+              onClick={() => goTo(currentIndex - 1)}
+              disabled={currentIndex === 0}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+
+            {currentIndex === quiz.questions.length - 1 ? (
+              <Button
+                onClick={handleFinish}
+                disabled={finishing}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {finishing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Finishing...
+                  </>
+                ) : (
+                  "Finish Practice"
+                )}
+              </Button>
+            ) : (
+              <Button onClick={() => goTo(currentIndex + 1)}>
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
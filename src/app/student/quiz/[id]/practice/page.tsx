@@ -0,0 +1,17 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import { BiblicalPageLoader } from "@/components/ui/biblical-loader";
+
+// Dynamically import the practice page to ensure it's only rendered on the client
+const PracticeQuizPage = dynamic(
+  () => import("./PracticeQuizPage"),
+  {
+    ssr: false,
+    loading: () => <BiblicalPageLoader text="Loading practice..." />
+  }
+);
+
+export default function QuizPracticePage() {
+  return <PracticeQuizPage />;
+}
@@ -187,7 +187,7 @@ export default function QuizzesContent() {
       const matchesSearch = quiz.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                            quiz.description?.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesFilter = filterStatus === "all" || 
-                           (filterStatus === "available" && !quiz.attempted && (!quiz.isExpired || quiz.isReassignment)) ||
+                           (filterStatus === "available" && (!quiz.attempted || quiz.canRetake) && (!quiz.isExpired || quiz.isReassignment)) ||
                            (filterStatus === "completed" && quiz.attempted);
       return matchesSearch && matchesFilter;
     });
@@ -199,7 +199,8 @@ export default function QuizzesContent() {
       counts.all++;
       if (quiz.attempted) {
         counts.completed++;
-      } else if (!quiz.isExpired || quiz.isReassignment) {
+      }
+      if ((!quiz.attempted || quiz.canRetake) && (!quiz.isExpired || quiz.isReassignment)) {
         counts.available++;
       }
       return counts;
@@ -289,6 +290,8 @@ export default function QuizzesContent() {
                   attempted={quiz.attempted}
                   enrolled={quiz.enrolled}
                   score={quiz.score}
+                  attemptsRemaining={quiz.attempted ? quiz.attemptsRemaining : undefined}
+                  canRetake={quiz.canRetake}
                   isExpired={quiz.isExpired || false}
                   isAvailable={quizStatus.available}
                   isReassignment={quiz.isReassignment}
@@ -297,12 +300,38 @@ export default function QuizzesContent() {
                   onStart={() => handleStartQuiz(quiz.id)}
                   actionElement={
                     quiz.attempted && quiz.attemptId ? (
-                      <Link href={`/student/results/${quiz.attemptId}`}>
+                      <div className="space-y-2">
+                        {quiz.canRetake && (
+                          <Button 
+                            onClick={() => handleStartQuiz(quiz.id)}
+                            className="w-full bg-amber-600 hover:bg-amber-700 text-white"
+                          >
+                            Retake Quiz
+                          </Button>
+                        )}
+                        <Link href={`/student/results/${quiz.attemptId}`}>
+                          <Button 
+                            variant="outline" 
+                            className="w-full border-amber-200 text-amber-700 hover:bg-amber-50 dark:border-amber-800 dark:text-amber-300 dark:hover:bg-amber-900/20"
+                          >
+                            View Results
+                          </Button>
+                        </Link>
+                        {quiz.practiceAvailable && (
+                          <Link href={`/student/quiz/${quiz.id}/practice`}>
+                            <Button variant="ghost" className="w-full text-amber-700 dark:text-amber-300">
+                              Practice
+                            </Button>
+                          </Link>
+                        )}
+                      </div>
+                    ) : quiz.practiceAvailable ? (
+                      <Link href={`/student/quiz/${quiz.id}/practice`}>
                         <Button 
                           variant="outline" 
                           className="w-full border-amber-200 text-amber-700 hover:bg-amber-50 dark:border-amber-800 dark:text-amber-300 dark:hover:bg-amber-900/20"
                         >
-                          View Results
+                          Practice
                         </Button>
                       </Link>
                     ) : undefined
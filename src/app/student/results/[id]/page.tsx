@@ -8,6 +8,9 @@ import { Button } from "@/components/ui/button";
 import { logger } from "@/lib/logger";
 import { safeNumber, safeString } from "@/lib/safe-data-utils";
 import { useTimezone } from "@/hooks/useTimezone";
+import { MASTERY_LABELS, type MasteryLevel } from "@/lib/adaptive-quiz";
+import { CitationList, type DisplayCitation } from "@/components/quiz/CitationList";
+import { languageAttributes, type LanguageDisplay } from "@/lib/languages";
 import {
   PageContainer,
   PageHeader,
@@ -34,8 +37,14 @@ interface QuestionResult {
   options: { id: string; text: string }[];
   correctAnswer: string;
   selectedAnswer: string;
+  questionType?: string;
+  selectedAnswerText?: string;
+  correctAnswerText?: string;
   isCorrect: boolean;
+  pointsAwarded?: number | null;
+  pointsPossible?: number | null;
   explanation?: string;
+  citations: DisplayCitation[];
   book?: string;
   chapter?: string;
   topic?: string;
@@ -43,6 +52,14 @@ interface QuestionResult {
   markedForReview: boolean;
 }
 
+interface AdaptiveResult {
+  ladder: string;
+  masteryLevel: MasteryLevel;
+  masteryEstimate: number;
+  highestLevel: string | null;
+  path: { questionId: string; level: string | null; isCorrect: boolean }[];
+}
+
 interface QuizResult {
   attemptId: string;
   quizTitle: string;
@@ -53,8 +70,12 @@ interface QuizResult {
   correctAnswers: number;
   totalQuestions: number;
   wrongAnswers: number;
+  pointsEarned?: number | null;
+  pointsPossible?: number | null;
   timeTaken: number;
   questions: QuestionResult[];
+  adaptive?: AdaptiveResult | null;
+  language: LanguageDisplay | null; // The questions are shown in the language the quiz was taken in
 }
 
 export default function QuizResultsPage() {
@@ -95,6 +116,8 @@ export default function QuizResultsPage() {
           correctAnswers: safeNumber(data.correctAnswers ?? data.totalCorrect, 0),
           totalQuestions: safeNumber(data.totalQuestions, 0),
           wrongAnswers: safeNumber(data.wrongAnswers, 0),
+          pointsEarned: data.pointsEarned != null ? safeNumber(data.pointsEarned, 0) : null,
+          pointsPossible: data.pointsPossible != null ? safeNumber(data.pointsPossible, 0) : null,
           timeTaken: safeNumber(data.timeTaken ?? data.timeSpent, 0),
           questions: Array.isArray(data.questions) ? data.questions.map((q: any) => ({
             id: safeString(q.id),
@@ -102,14 +125,22 @@ export default function QuizResultsPage() {
             options: Array.isArray(q.options) ? q.options : [],
             correctAnswer: safeString(q.correctAnswer),
             selectedAnswer: safeString(q.selectedAnswer),
+            questionType: q.questionType ? safeString(q.questionType) : undefined,
+            selectedAnswerText: q.selectedAnswerText ? safeString(q.selectedAnswerText) : undefined,
+            correctAnswerText: q.correctAnswerText ? safeString(q.correctAnswerText) : undefined,
             isCorrect: Boolean(q.isCorrect),
+            pointsAwarded: q.pointsAwarded != null ? safeNumber(q.pointsAwarded, 0) : null,
+            pointsPossible: q.pointsPossible != null ? safeNumber(q.pointsPossible, 0) : null,
             explanation: q.explanation ? safeString(q.explanation) : undefined,
+            citations: Array.isArray(q.citations) ? q.citations : [],
             book: q.book ? safeString(q.book) : undefined,
             chapter: q.chapter ? safeString(q.chapter) : undefined,
             topic: q.topic ? safeString(q.topic) : undefined,
             timeSpent: safeNumber(q.timeSpent, 0),
             markedForReview: Boolean(q.markedForReview)
-          })) : []
+          })) : [],
+          adaptive: data.adaptive ?? null,
+          language: data.languageDisplay ?? null
         };
         setResult(safeResult);
       } else {
@@ -244,6 +275,45 @@ export default function QuizResultsPage() {
                 </div>
               </div>
             )}
+            {result.pointsPossible != null && (
+              <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                {result.pointsEarned ?? 0} of {result.pointsPossible} points
+              </p>
+            )}
+            {result.adaptive && (
+              <div className="mt-6 max-w-xl mx-auto p-4 bg-amber-50 dark:bg-amber-900/10 rounded-lg">
+                <div className="flex items-center justify-center text-lg font-semibold text-gray-900 dark:text-white">
+                  <TrendingUp className="h-5 w-5 mr-2 text-amber-600" />
+                  Mastery: {MASTERY_LABELS[result.adaptive.masteryLevel] ?? result.adaptive.masteryLevel}
+                  <span className="ml-2 text-sm font-normal text-gray-600 dark:text-gray-400">
+                    ({result.adaptive.masteryEstimate}/100)
+                  </span>
+                </div>
+                {result.adaptive.highestLevel && (
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 capitalize">
+                    Highest level answered correctly: {result.adaptive.highestLevel}
+                  </p>
+                )}
+                <div className="mt-3 flex flex-wrap justify-center gap-1">
+                  {result.adaptive.path.map((step, index) => (
+                    <span
+                      key={step.questionId}
+                      title={`Question ${index + 1}: ${step.level ?? "unknown level"}`}
+                      className={`px-2 py-0.5 rounded text-xs capitalize ${
+                        step.isCorrect
+                          ? 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                          : 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+                      }`}
+                    >
+                      {step.level ?? "?"}
+                    </span>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Questions adapted to your answers. Reaching harder questions counts toward mastery.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Stats Grid */}
@@ -311,6 +381,11 @@ export default function QuizResultsPage() {
                         ) : (
                           <XCircle className="h-5 w-5 text-red-600" />
                         )}
+                        {question.pointsPossible != null && (
+                          <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded">
+                            {question.pointsAwarded ?? 0}/{question.pointsPossible} pts
+                          </span>
+                        )}
                         {question.markedForReview && (
                           <span className="px-2 py-1 bg-amber-100 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-xs rounded">
                             Marked for Review
@@ -339,7 +414,7 @@ export default function QuizResultsPage() {
                         </div>
                       )}
                       
-                      <p className="text-gray-900 dark:text-white leading-relaxed">
+                      <p className="text-gray-900 dark:text-white leading-relaxed" {...languageAttributes(result.language)}>
                         {question.questionText}
                       </p>
                     </div>
@@ -348,7 +423,7 @@ export default function QuizResultsPage() {
                       variant="ghost"
                       size="sm"
                       onClick={() => toggleQuestionExpansion(question.id)}
-                      className="ml-4"
+                      className="ms-4"
                     >
                       {isExpanded ? (
                         <ChevronUp className="h-4 w-4" />
@@ -377,8 +452,8 @@ export default function QuizResultsPage() {
                               <XCircle className="h-4 w-4 text-red-600" />
                             )}
                           </div>
-                          <p className="text-sm text-gray-700 dark:text-gray-300">
-                            {selectedOption?.text || "Not answered"}
+                          <p className="text-sm text-gray-700 dark:text-gray-300" {...languageAttributes(result.language)}>
+                            {question.selectedAnswerText || selectedOption?.text || "Not answered"}
                           </p>
                         </div>
                         
@@ -389,8 +464,8 @@ export default function QuizResultsPage() {
                             </span>
                             <CheckCircle className="h-4 w-4 text-green-600" />
                           </div>
-                          <p className="text-sm text-gray-700 dark:text-gray-300">
-                            {correctOption?.text}
+                          <p className="text-sm text-gray-700 dark:text-gray-300" {...languageAttributes(result.language)}>
+                            {question.correctAnswerText || correctOption?.text}
                           </p>
                         </div>
                       </div>
@@ -402,14 +477,19 @@ export default function QuizResultsPage() {
                       </div>
                       
                       {/* Explanation */}
-                      {question.explanation && (
+                      {(question.explanation || question.citations.length > 0) && (
                         <div className="p-4 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-lg">
-                          <h4 className="text-sm font-medium text-amber-800 dark:text-amber-200 mb-2">
-                            Explanation:
-                          </h4>
-                          <p className="text-sm text-amber-700 dark:text-amber-300">
-                            {question.explanation}
-                          </p>
+                          {question.explanation && (
+                            <>
+                              <h4 className="text-sm font-medium text-amber-800 dark:text-amber-200 mb-2">
+                                Explanation:
+                              </h4>
+                              <p className="text-sm text-amber-700 dark:text-amber-300" {...languageAttributes(result.language)}>
+                                {question.explanation}
+                              </p>
+                            </>
+                          )}
+                          <CitationList citations={question.citations} className={question.explanation ? "mt-3" : ""} />
                         </div>
                       )}
                     </div>
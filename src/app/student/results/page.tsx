@@ -112,14 +112,15 @@ function StudentResultsPage() {
   }, [results, filter]);
 
   // Use safe statistics calculation
-  const stats = useMemo(() => calculateSafeStatistics(results), [results]);
+  // Practice runs are listed but left out of the pass/fail statistics
+  const stats = useMemo(() => calculateSafeStatistics(results.filter(r => !r.isPractice)), [results]);
 
   // Filter options with counts
   const filterOptions = useMemo(() => [
-    { value: "all", label: "All", count: stats.total },
+    { value: "all", label: "All", count: results.length },
     { value: "passed", label: "Passed", count: stats.passed },
     { value: "failed", label: "Failed", count: stats.failed }
-  ], [stats]);
+  ], [stats, results.length]);
 
   if (loading) {
     return (
@@ -213,6 +214,7 @@ function StudentResultsPage() {
                 totalQuestions={result.totalQuestions}
                 completedAt={result.completedAt}
                 duration={result.duration}
+                isPractice={result.isPractice}
               />
             ))}
           </div>
@@ -0,0 +1,315 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { logger } from "@/lib/logger";
+import { useToast } from "@/hooks/use-toast";
+import { withErrorBoundary } from "@/components/student/StudentPageWrapper";
+import { QuestionAnswerInput } from "@/components/student/QuestionAnswerInput";
+import type { PublicAnswerData } from "@/lib/question-types";
+import { CitationList, type DisplayCitation } from "@/components/quiz/CitationList";
+import {
+  PageContainer,
+  PageHeader,
+  Section,
+  StatCard,
+  LoadingState,
+  EmptyState
+} from "@/components/student-v2";
+import {
+  Repeat,
+  CheckCircle,
+  XCircle,
+  CalendarClock,
+  Layers,
+  ChevronRight,
+  Loader2
+} from "lucide-react";
+
+interface ReviewQuestion {
+  id: string;
+  questionText: string;
+  options: { id: string; text: string }[];
+  questionType?: string;
+  answerData?: PublicAnswerData | null;
+  book?: string | null;
+  chapter?: string | null;
+}
+
+interface ReviewItem {
+  id: string;
+  dueAt: string;
+  repetitions: number;
+  quizTitle: string;
+  question: ReviewQuestion;
+}
+
+interface ReviewCounts {
+  total: number;
+  dueNow: number;
+  dueToday: number;
+}
+
+interface ReviewFeedback {
+  isCorrect: boolean;
+  credit: number;
+  correctAnswerText: string;
+  explanation: string | null;
+  citations?: DisplayCitation[];
+  nextDueAt: string;
+  intervalDays: number;
+}
+
+function formatInterval(days: number) {
+  if (days <= 1) return "tomorrow";
+  if (days < 30) return `in ${days} days`;
+  const months = Math.round(days / 30);
+  return `in ${months} month${months === 1 ? "" : "s"}`;
+}
+
+/**
+ * Work through previously missed questions as they come due on the
+ * spaced-repetition schedule
+ */
+function StudentReviewPage() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [counts, setCounts] = useState<ReviewCounts>({ total: 0, dueNow: 0, dueToday: 0 });
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answer, setAnswer] = useState<string | undefined>(undefined);
+  const [feedback, setFeedback] = useState<ReviewFeedback | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const questionStartRef = useRef(Date.now());
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/student/review");
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load review queue");
+
+      setItems(Array.isArray(data.items) ? data.items : []);
+      setCounts(data.counts);
+      setCurrentIndex(0);
+      setAnswer(undefined);
+      setFeedback(null);
+      questionStartRef.current = Date.now();
+    } catch (error) {
+      logger.error("Error loading review queue:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load review queue",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleCheck = async () => {
+    const item = items[currentIndex];
+    if (!item || !answer) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/student/review/${item.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          answer,
+          timeSpent: Math.floor((Date.now() - questionStartRef.current) / 1000),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to check answer");
+
+      setFeedback(data);
+      setReviewedCount(prev => prev + 1);
+      if (data.isCorrect) setCorrectCount(prev => prev + 1);
+      setCounts(prev => ({
+        ...prev,
+        dueNow: Math.max(0, prev.dueNow - 1),
+        dueToday: Math.max(0, prev.dueToday - 1),
+      }));
+    } catch (error) {
+      logger.error("Error checking review answer:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check answer",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleNext = () => {
+    setCurrentIndex(prev => prev + 1);
+    setAnswer(undefined);
+    setFeedback(null);
+    questionStartRef.current = Date.now();
+  };
+
+  if (loading) {
+    return <LoadingState fullPage text="Loading your review queue..." />;
+  }
+
+  const item = items[currentIndex];
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Review"
+        subtitle="Questions you missed come back just before you'd forget them"
+        icon={Repeat}
+        breadcrumbs={[
+          { label: "Dashboard", href: "/student/dashboard" },
+          { label: "Review" }
+        ]}
+      />
+
+      <Section transparent noPadding>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <StatCard
+            label="Due Now"
+            value={counts.dueNow}
+            icon={Repeat}
+            iconColor="text-amber-600 dark:text-amber-400"
+          />
+          <StatCard
+            label="Due Today"
+            value={counts.dueToday}
+            icon={CalendarClock}
+          />
+          <StatCard
+            label="In Queue"
+            value={counts.total}
+            icon={Layers}
+            description="All scheduled questions"
+          />
+        </div>
+      </Section>
+
+      <Section className="mt-6">
+        {!item ? (
+          <EmptyState
+            icon={CheckCircle}
+            title={reviewedCount > 0 ? "Review session complete" : "Nothing due right now"}
+            description={reviewedCount > 0
+              ? `You got ${correctCount} of ${reviewedCount} right. Missed questions will come back tomorrow.`
+              : "Questions you miss on quizzes will show up here when they're due for review."}
+            action={reviewedCount > 0 && counts.dueNow > 0 ? {
+              label: "Keep Reviewing",
+              onClick: fetchQueue,
+              variant: "default"
+            } : {
+              label: "Back to Dashboard",
+              onClick: () => window.location.href = "/student/dashboard",
+              variant: "outline"
+            }}
+          />
+        ) : (
+          <div className="max-w-3xl mx-auto">
+            <div className="flex justify-between items-center text-sm text-gray-600 dark:text-gray-400 mb-4">
+              <span>{item.quizTitle}</span>
+              <span>{currentIndex + 1} of {items.length}</span>
+            </div>
+
+            <div className="mb-6">
+              {item.question.book && (
+                <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                  {item.question.book}
+                  {item.question.chapter && ` - Chapter ${item.question.chapter}`}
+                </div>
+              )}
+              <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+                {item.question.questionText}
+              </p>
+            </div>
+
+            <QuestionAnswerInput
+              question={item.question}
+              value={answer}
+              onChange={setAnswer}
+              disabled={!!feedback}
+            />
+
+            {feedback ? (
+              <div className={`mt-6 p-4 rounded-lg border ${
+                feedback.isCorrect
+                  ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                  : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+              }`}>
+                <div className="flex items-center font-semibold mb-2">
+                  {feedback.isCorrect ? (
+                    <>
+                      <CheckCircle className="h-5 w-5 mr-2 text-green-600" />
+                      <span className="text-green-700 dark:text-green-400">Correct!</span>
+                    </>
+                  ) : (
+                    <>
+                      <XCircle className="h-5 w-5 mr-2 text-red-600" />
+                      <span className="text-red-700 dark:text-red-400">
+                        {feedback.credit > 0 ? "Partly correct" : "Not quite"}
+                      </span>
+                    </>
+                  )}
+                </div>
+                {!feedback.isCorrect && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    <span className="font-medium">Correct answer:</span> {feedback.correctAnswerText}
+                  </p>
+                )}
+                {feedback.explanation && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300 mt-2">
+                    <span className="font-medium">Explanation:</span> {feedback.explanation}
+                  </p>
+                )}
+                <CitationList citations={feedback.citations} className="mt-3" />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                  Next review {formatInterval(feedback.intervalDays)}
+                </p>
+              </div>
+            ) : null}
+
+            <div className="flex justify-end mt-8">
+              {feedback ? (
+                <Button onClick={handleNext}>
+                  {currentIndex === items.length - 1 ? "Finish" : "Next"}
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleCheck}
+                  disabled={!answer || submitting}
+                  className="bg-amber-600 hover:bg-amber-700 text-white"
+                >
+                  {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Check Answer
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Section>
+
+      {reviewedCount === 0 && counts.total === 0 && (
+        <p className="mt-4 text-center text-sm text-gray-500 dark:text-gray-400">
+          Finished a quiz recently? Missed questions are added once its results are available.{" "}
+          <Link href="/student/results" className="text-amber-600 hover:underline">View results</Link>
+        </p>
+      )}
+    </PageContainer>
+  );
+}
+
+export default withErrorBoundary(StudentReviewPage);
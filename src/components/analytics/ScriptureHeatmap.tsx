@@ -0,0 +1,350 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { BookOpen, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { logger } from "@/lib/logger";
+import type {
+  BookHeat,
+  HeatStats,
+  ScriptureHeatmap as HeatmapData,
+  ScriptureQuestionStats,
+  ScriptureScope,
+} from "@/lib/scripture-analytics";
+
+interface ScopeOptions {
+  groups: { id: string; name: string }[];
+  students: { id: string; name: string | null; email: string }[];
+}
+
+interface Props {
+  timeRange?: "week" | "month" | "all";
+  scope?: ScriptureScope; // Fixed scope, e.g. on a student or group page; hides the scope picker
+  title?: string;
+}
+
+const LEGEND = [
+  { label: "Not tested", accuracy: null },
+  { label: "< 40%", accuracy: 30 },
+  { label: "40-54%", accuracy: 45 },
+  { label: "55-69%", accuracy: 60 },
+  { label: "70-84%", accuracy: 75 },
+  { label: "85%+", accuracy: 90 },
+];
+
+function heatClass(accuracy: number | null): string {
+  if (accuracy === null) return "bg-gray-100 text-gray-400 dark:bg-gray-800 dark:text-gray-500";
+  if (accuracy >= 85) return "bg-green-500 text-white";
+  if (accuracy >= 70) return "bg-green-300 text-green-900";
+  if (accuracy >= 55) return "bg-yellow-300 text-yellow-900";
+  if (accuracy >= 40) return "bg-orange-400 text-white";
+  return "bg-red-500 text-white";
+}
+
+function formatAccuracy(stats: HeatStats): string {
+  return stats.accuracy === null ? "—" : `${Math.round(stats.accuracy)}%`;
+}
+
+function describe(stats: HeatStats): string {
+  if (stats.responses === 0) return "Not tested";
+  return `${formatAccuracy(stats)} correct · ${stats.responses} response${stats.responses === 1 ? "" : "s"} · ${stats.questions} question${stats.questions === 1 ? "" : "s"}`;
+}
+
+/**
+ * Class accuracy and coverage laid out over the books of the Bible, with drill-down
+ * from a book to its chapters and the questions behind them
+ */
+export default function ScriptureHeatmap({ timeRange = "month", scope, title = "Scripture Heatmap" }: Props) {
+  const [scopeType, setScopeType] = useState<ScriptureScope["type"]>(scope?.type ?? "roster");
+  const [groupId, setGroupId] = useState(scope?.type === "group" ? scope.groupId : "");
+  const [studentId, setStudentId] = useState(scope?.type === "student" ? scope.studentId : "");
+  const [data, setData] = useState<HeatmapData | null>(null);
+  const [options, setOptions] = useState<ScopeOptions>({ groups: [], students: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedBook, setSelectedBook] = useState<BookHeat | null>(null);
+  const [selectedChapter, setSelectedChapter] = useState<number | null>(null);
+  const [drillQuestions, setDrillQuestions] = useState<ScriptureQuestionStats[]>([]);
+  const [drillLoading, setDrillLoading] = useState(false);
+
+  const scopeReady = scopeType === "roster" || (scopeType === "group" ? !!groupId : !!studentId);
+
+  const scopeParams = () => {
+    const params = new URLSearchParams({ timeRange, scope: scopeType });
+    if (scopeType === "group") params.set("groupId", groupId);
+    if (scopeType === "student") params.set("studentId", studentId);
+    return params;
+  };
+
+  useEffect(() => {
+    if (!scopeReady) return;
+    const fetchHeatmap = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/educator/analytics/scripture?${scopeParams()}`);
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || `Failed to fetch heatmap: ${response.status}`);
+        setData(body);
+        setOptions(body.options ?? { groups: [], students: [] });
+        setSelectedBook(null);
+        setSelectedChapter(null);
+        setDrillQuestions([]);
+      } catch (err) {
+        logger.error("Error fetching scripture heatmap:", err);
+        setError(err instanceof Error ? err.message : "Failed to load the heatmap");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHeatmap();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeRange, scopeType, groupId, studentId]);
+
+  const loadQuestions = async (book: BookHeat, chapter: number | null) => {
+    setSelectedBook(book);
+    setSelectedChapter(chapter);
+    setDrillLoading(true);
+    try {
+      const params = scopeParams();
+      params.set("book", book.book);
+      if (chapter !== null) params.set("chapter", String(chapter));
+      const response = await fetch(`/api/educator/analytics/scripture?${params}`);
+      if (response.ok) {
+        const body = await response.json();
+        setDrillQuestions(body.questions || []);
+      }
+    } catch (err) {
+      logger.error("Error fetching heatmap questions:", err);
+    } finally {
+      setDrillLoading(false);
+    }
+  };
+
+  const renderTestament = (testament: "OT" | "NT") => (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">
+        {testament === "OT" ? "Old Testament" : "New Testament"}
+      </h3>
+      {data?.groups.filter(group => group.testament === testament).map(group => (
+        <div key={group.id}>
+          <div className="flex items-center justify-between mb-1.5">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{group.name}</span>
+            <span className="text-xs text-gray-500">
+              {formatAccuracy(group)} · {Math.round(group.coverage)}% of chapters tested
+            </span>
+          </div>
+          <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-5 gap-1.5">
+            {data.books.filter(book => book.groupId === group.id).map(book => (
+              <button
+                key={book.bookId}
+                type="button"
+                onClick={() => loadQuestions(book, null)}
+                title={`${book.book}: ${describe(book)} · ${book.chaptersTested}/${book.chapterCount} chapters`}
+                className={`rounded-md px-2 py-1.5 text-left transition ring-offset-1 hover:ring-2 hover:ring-amber-400 ${heatClass(book.accuracy)} ${
+                  selectedBook?.bookId === book.bookId ? "ring-2 ring-amber-600" : ""
+                }`}
+              >
+                <div className="truncate text-xs font-semibold">{book.book}</div>
+                <div className="text-[11px] opacity-90">{formatAccuracy(book)}</div>
+                <div className="mt-1 h-1 w-full rounded-full bg-black/10">
+                  <div className="h-1 rounded-full bg-current opacity-60" style={{ width: `${book.coverage}%` }} />
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card className="border-amber-100">
+      <CardHeader>
+        <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5 text-amber-600" />
+              {title}
+            </CardTitle>
+            <CardDescription>
+              Accuracy by book and chapter; the bar under each book shows how much of it has been tested
+            </CardDescription>
+          </div>
+          {!scope && (
+            <div className="flex flex-wrap gap-2">
+              <Select value={scopeType} onValueChange={(value) => setScopeType(value as ScriptureScope["type"])}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="roster">All students</SelectItem>
+                  <SelectItem value="group">A group</SelectItem>
+                  <SelectItem value="student">A student</SelectItem>
+                </SelectContent>
+              </Select>
+              {scopeType === "group" && (
+                <Select value={groupId} onValueChange={setGroupId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Choose a group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {options.groups.map(group => (
+                      <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {scopeType === "student" && (
+                <Select value={studentId} onValueChange={setStudentId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Choose a student" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-80">
+                    {options.students.map(student => (
+                      <SelectItem key={student.id} value={student.id}>{student.name || student.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+          {LEGEND.map(item => (
+            <span key={item.label} className="flex items-center gap-1">
+              <span className={`inline-block h-3 w-3 rounded-sm ${heatClass(item.accuracy)}`} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+
+        {!scopeReady ? (
+          <p className="py-8 text-center text-sm text-gray-500">
+            Choose a {scopeType} to see their heatmap.
+          </p>
+        ) : loading ? (
+          <div className="grid gap-6 lg:grid-cols-2">
+            {[0, 1].map(column => (
+              <div key={column} className="grid grid-cols-4 gap-1.5">
+                {[...Array(16)].map((_, index) => (
+                  <Skeleton key={index} className="h-12 rounded-md" />
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <p className="py-8 text-center text-sm text-red-600">{error}</p>
+        ) : data && (
+          <>
+            <div className="grid gap-8 lg:grid-cols-2">
+              {renderTestament("OT")}
+              {renderTestament("NT")}
+            </div>
+
+            {data.totals.responses === 0 && (
+              <p className="text-center text-sm text-gray-500">
+                No completed exam responses in this period yet.
+              </p>
+            )}
+            {data.unassigned.responses > 0 && (
+              <p className="text-xs text-gray-500">
+                {data.unassigned.questions} question{data.unassigned.questions === 1 ? "" : "s"} ({data.unassigned.responses} responses) have no recognized book and aren&apos;t shown.
+              </p>
+            )}
+
+            {/* Drill-down */}
+            {selectedBook && (
+              <div className="rounded-lg border border-amber-200 p-4 dark:border-amber-800">
+                <div className="mb-3 flex items-start justify-between">
+                  <div>
+                    <h4 className="font-semibold text-gray-900 dark:text-white">
+                      {selectedBook.book}{selectedChapter !== null ? ` ${selectedChapter}` : ""}
+                    </h4>
+                    <p className="text-xs text-gray-500">
+                      {describe(selectedBook)} · {selectedBook.chaptersTested} of {selectedBook.chapterCount} chapters tested
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedBook(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="mb-4 flex flex-wrap gap-1">
+                  <button
+                    type="button"
+                    onClick={() => loadQuestions(selectedBook, null)}
+                    className={`h-7 rounded px-2 text-xs font-medium border ${
+                      selectedChapter === null ? "border-amber-600 text-amber-700" : "border-gray-200 text-gray-600"
+                    }`}
+                  >
+                    All
+                  </button>
+                  {Array.from({ length: selectedBook.chapterCount }, (_, index) => index + 1).map(chapter => {
+                    const stats = selectedBook.chapters.find(entry => entry.chapter === chapter);
+                    return (
+                      <button
+                        key={chapter}
+                        type="button"
+                        disabled={!stats}
+                        onClick={() => loadQuestions(selectedBook, chapter)}
+                        title={stats ? `Chapter ${chapter}: ${describe(stats)}` : `Chapter ${chapter}: not tested`}
+                        className={`h-7 w-7 rounded text-[11px] font-medium disabled:cursor-default ${heatClass(stats?.accuracy ?? null)} ${
+                          selectedChapter === chapter ? "ring-2 ring-amber-600" : ""
+                        }`}
+                      >
+                        {chapter}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {drillLoading ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading questions...
+                  </div>
+                ) : drillQuestions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No answered questions here yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {drillQuestions.map(question => (
+                      <li key={question.questionId} className="flex items-start justify-between gap-4 py-2">
+                        <div className="min-w-0">
+                          <p className="line-clamp-2 text-sm text-gray-800 dark:text-gray-200">{question.questionText}</p>
+                          <Link
+                            href={`/educator/quiz/${question.quizId}/review`}
+                            className="text-xs text-amber-700 hover:underline"
+                          >
+                            {question.quizTitle}
+                            {question.chapter ? ` · ${question.book} ${question.chapter}` : ""}
+                          </Link>
+                        </div>
+                        <div className="shrink-0 text-right">
+                          <span className={`inline-block rounded px-2 py-0.5 text-xs font-semibold ${heatClass(question.accuracy)}`}>
+                            {formatAccuracy(question)}
+                          </span>
+                          <p className="mt-0.5 text-[11px] text-gray-500">
+                            {question.correct}/{question.responses} correct
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
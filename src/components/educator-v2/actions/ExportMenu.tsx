@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, type FC } from 'react';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { logger } from '@/lib/logger';
+
+export interface ExportMenuProps {
+  /** API endpoint that accepts ?format=csv|xlsx */
+  endpoint: string;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Download menu for endpoints that export as CSV or XLSX
+ * Uses the server's filename so downloads are named consistently
+ */
+export const ExportMenu: FC<ExportMenuProps> = ({
+  endpoint,
+  label = 'Export',
+  className
+}) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setExporting(true);
+    try {
+      const separator = endpoint.includes('?') ? '&' : '?';
+      const response = await fetch(`${endpoint}${separator}format=${format}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export data');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `export.${format}`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      logger.error('Error exporting data:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export data',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={exporting}
+          className={className ?? 'border-amber-200 hover:bg-amber-50'}
+        >
+          {exporting
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <Download className="h-4 w-4 mr-2" />}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          <FileText className="h-4 w-4 mr-2" />
+          CSV (.csv)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -12,6 +12,9 @@ export { Section } from './layout/Section';
 // Navigation components
 export { TabNavigation } from './navigation/TabNavigation';
 
+// Action components
+export { ExportMenu } from './actions/ExportMenu';
+
 // Feedback components
 export { LoadingState } from './feedback/LoadingState';
 export { EmptyState } from './feedback/EmptyState';
@@ -22,4 +25,5 @@ export type { PageHeaderProps } from './layout/PageHeader';
 export type { PageContainerProps } from './layout/PageContainer';
 export type { SectionProps } from './layout/Section';
 export type { LoadingStateProps } from './feedback/LoadingState';
-export type { EmptyStateProps } from './feedback/EmptyState';
\ No newline at end of file
+export type { EmptyStateProps } from './feedback/EmptyState';
+export type { ExportMenuProps } from './actions/ExportMenu';
\ No newline at end of file
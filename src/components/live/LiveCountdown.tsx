@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+interface LiveCountdownProps {
+  endsAt: string | null;
+  serverTime: string; // Server clock when the session was fetched, to correct for skew
+  totalSeconds: number;
+  onExpire?: () => void;
+  size?: "sm" | "lg";
+}
+
+/**
+ * Ring countdown to the end of the open question
+ */
+export function LiveCountdown({ endsAt, serverTime, totalSeconds, onExpire, size = "lg" }: LiveCountdownProps) {
+  const [remaining, setRemaining] = useState(totalSeconds);
+  const expired = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (!endsAt) return;
+    expired.current = false;
+    const skew = new Date(serverTime).getTime() - Date.now();
+    const end = new Date(endsAt).getTime();
+
+    const tick = () => {
+      const left = Math.max(0, (end - (Date.now() + skew)) / 1000);
+      setRemaining(left);
+      if (left === 0 && !expired.current) {
+        expired.current = true;
+        onExpireRef.current?.();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [endsAt, serverTime]);
+
+  const dimension = size === "lg" ? 96 : 56;
+  const stroke = size === "lg" ? 8 : 5;
+  const radius = (dimension - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const fraction = totalSeconds > 0 ? remaining / totalSeconds : 0;
+
+  return (
+    <div className="relative" style={{ width: dimension, height: dimension }}>
+      <svg width={dimension} height={dimension} className="-rotate-90">
+        <circle cx={dimension / 2} cy={dimension / 2} r={radius} strokeWidth={stroke} className="fill-none stroke-gray-200 dark:stroke-gray-700" />
+        <circle
+          cx={dimension / 2}
+          cy={dimension / 2}
+          r={radius}
+          strokeWidth={stroke}
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+          strokeLinecap="round"
+          className={`fill-none transition-[stroke-dashoffset] duration-200 ${fraction > 0.25 ? "stroke-amber-500" : "stroke-red-500"}`}
+        />
+      </svg>
+      <span className={`absolute inset-0 flex items-center justify-center font-bold text-gray-900 dark:text-white ${size === "lg" ? "text-3xl" : "text-lg"}`}>
+        {Math.ceil(remaining)}
+      </span>
+    </div>
+  );
+}
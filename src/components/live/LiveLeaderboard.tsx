@@ -0,0 +1,39 @@
+"use client";
+
+import { Trophy } from "lucide-react";
+import type { LeaderboardEntry } from "@/lib/live-quiz";
+
+interface LiveLeaderboardProps {
+  entries: LeaderboardEntry[];
+  highlightId?: string; // Participant to pick out, e.g. the student viewing it
+  large?: boolean;
+}
+
+const MEDALS = ["text-yellow-500", "text-gray-400", "text-amber-700"];
+
+export function LiveLeaderboard({ entries, highlightId, large = false }: LiveLeaderboardProps) {
+  if (entries.length === 0) {
+    return <p className="text-center text-gray-500">No one has scored yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {entries.map(entry => (
+        <li
+          key={entry.participantId}
+          className={`flex items-center gap-3 rounded-lg px-4 ${large ? "py-3 text-xl" : "py-2"} ${
+            entry.participantId === highlightId
+              ? "bg-amber-100 dark:bg-amber-900/40 font-semibold"
+              : "bg-white dark:bg-gray-800"
+          } shadow-sm`}
+        >
+          <span className="w-8 text-center font-bold text-gray-500">
+            {entry.rank <= 3 ? <Trophy className={`inline h-5 w-5 ${MEDALS[entry.rank - 1]}`} /> : entry.rank}
+          </span>
+          <span className="flex-1 truncate text-gray-900 dark:text-white">{entry.displayName}</span>
+          <span className="font-bold tabular-nums text-amber-700 dark:text-amber-400">{entry.score.toLocaleString()}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,4 @@
+// Shared pieces of the live quiz screens
+export { LiveCountdown } from './LiveCountdown';
+export { LiveLeaderboard } from './LiveLeaderboard';
+export { LIVE_OPTION_STYLES, liveOptionStyle } from './option-styles';
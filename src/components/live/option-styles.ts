@@ -0,0 +1,14 @@
+// Colors and letters for answer options, shared by the projector and students' phones
+// so "the red one" means the same thing on both
+export const LIVE_OPTION_STYLES = [
+  { letter: "A", tile: "bg-red-500 hover:bg-red-600 text-white", bar: "bg-red-500" },
+  { letter: "B", tile: "bg-blue-500 hover:bg-blue-600 text-white", bar: "bg-blue-500" },
+  { letter: "C", tile: "bg-yellow-500 hover:bg-yellow-600 text-white", bar: "bg-yellow-500" },
+  { letter: "D", tile: "bg-green-600 hover:bg-green-700 text-white", bar: "bg-green-600" },
+  { letter: "E", tile: "bg-purple-500 hover:bg-purple-600 text-white", bar: "bg-purple-500" },
+  { letter: "F", tile: "bg-pink-500 hover:bg-pink-600 text-white", bar: "bg-pink-500" },
+];
+
+export function liveOptionStyle(index: number) {
+  return LIVE_OPTION_STYLES[index % LIVE_OPTION_STYLES.length];
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { BookOpen, FileText } from "lucide-react";
+
+export interface DisplayCitation {
+  reference: string;
+  excerpt: string;
+  documentName?: string | null; // Only shown to educators
+}
+
+interface CitationListProps {
+  citations: DisplayCitation[] | null | undefined;
+  title?: string;
+  className?: string;
+}
+
+/**
+ * Scripture references and quoted source passages a question is based on
+ */
+export function CitationList({ citations, title = "Sources", className = "" }: CitationListProps) {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-800 dark:text-amber-200">
+        {title}
+      </h4>
+      {citations.map((citation, index) => (
+        <div key={index} className="text-sm text-gray-700 dark:text-gray-300">
+          {citation.reference && (
+            <div className="flex items-center gap-1.5 font-medium text-amber-900 dark:text-amber-100">
+              <BookOpen className="h-3.5 w-3.5" />
+              {citation.reference}
+            </div>
+          )}
+          {citation.excerpt && (
+            <blockquote className="mt-1 border-l-2 border-amber-300 pl-3 italic text-gray-600 dark:border-amber-700 dark:text-gray-400">
+              &ldquo;{citation.excerpt}&rdquo;
+            </blockquote>
+          )}
+          {citation.documentName && (
+            <div className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+              <FileText className="h-3 w-3" />
+              {citation.documentName}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -26,12 +26,13 @@ import {
   CheckCircle,
   Globe
 } from "lucide-react";
-import { SUPPORTED_LANGUAGES, SupportedLanguage } from "@/lib/translation-service";
+import type { TranslationLanguageOption } from "@/hooks/useQuestionTranslation";
 
 interface TranslationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onTranslate: (language: SupportedLanguage) => Promise<void>;
+  onTranslate: (language: string) => Promise<void>;
+  languages: TranslationLanguageOption[];
   isTranslating: boolean;
   currentLanguage?: string | null;
   questionPreview?: string;
@@ -41,11 +42,13 @@ export function TranslationModal({
   isOpen,
   onClose,
   onTranslate,
+  languages,
   isTranslating,
   currentLanguage,
   questionPreview
 }: TranslationModalProps) {
-  const [selectedLanguage, setSelectedLanguage] = useState<SupportedLanguage | "">("");
+  const [selectedLanguage, setSelectedLanguage] = useState("");
+  const selected = languages.find(lang => lang.code === selectedLanguage);
   const [error, setError] = useState<string | null>(null);
 
   const handleTranslate = async () => {
@@ -102,34 +105,37 @@ export function TranslationModal({
             </Label>
             <Select
               value={selectedLanguage}
-              onValueChange={(value) => setSelectedLanguage(value as SupportedLanguage)}
-              disabled={isTranslating}
+              onValueChange={setSelectedLanguage}
+              disabled={isTranslating || languages.length === 0}
             >
               <SelectTrigger 
                 id="language"
                 className="w-full border-amber-200 focus:border-amber-400"
               >
-                <SelectValue placeholder="Select a language">
-                  {selectedLanguage && (
+                <SelectValue placeholder={languages.length ? "Select a language" : "Loading languages..."}>
+                  {selected && (
                     <span className="flex items-center gap-2">
                       <Globe className="h-4 w-4" />
-                      {SUPPORTED_LANGUAGES[selectedLanguage].name}
+                      {selected.name}
                     </span>
                   )}
                 </SelectValue>
               </SelectTrigger>
               <SelectContent>
-                {Object.entries(SUPPORTED_LANGUAGES).map(([code, lang]) => (
+                {languages.map((lang) => (
                   <SelectItem 
-                    key={code} 
-                    value={code}
-                    disabled={currentLanguage === code}
+                    key={lang.code} 
+                    value={lang.code}
+                    disabled={currentLanguage === lang.code}
                   >
                     <div className="flex items-center justify-between w-full">
                       <span>{lang.name}</span>
-                      <span className="ml-2 text-sm text-gray-500">
+                      <span className="ml-2 text-sm text-gray-500" dir={lang.direction}>
                         {lang.nativeName}
                       </span>
+                      {lang.translated && (
+                        <CheckCircle className="ml-2 h-3 w-3 text-green-600" />
+                      )}
                     </div>
                   </SelectItem>
                 ))}
@@ -141,8 +147,8 @@ export function TranslationModal({
           <Alert className="border-blue-200 bg-blue-50">
             <AlertCircle className="h-4 w-4 text-blue-600" />
             <AlertDescription className="text-blue-800">
-              Translation will update the question text, all options, and explanation. 
-              You can edit the translated text afterwards for fine-tuning.
+              The translation is saved alongside the original question, which stays as written.
+              Translating into the same language again replaces the earlier translation.
             </AlertDescription>
           </Alert>
 
@@ -160,7 +166,7 @@ export function TranslationModal({
               <div className="text-center space-y-2">
                 <Loader2 className="h-8 w-8 animate-spin text-amber-600 mx-auto" />
                 <p className="text-sm text-amber-800">
-                  Translating to {selectedLanguage && SUPPORTED_LANGUAGES[selectedLanguage].name}...
+                  Translating to {selected?.name}...
                 </p>
                 <p className="text-xs text-gray-600">
                   AI is ensuring theological accuracy and clarity
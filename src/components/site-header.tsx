@@ -4,6 +4,7 @@ import { Menu, X } from "lucide-react";
 import Link from "next/link";
 
 import { UserProfile } from "@/components/auth/user-profile";
+import { NotificationBell } from "@/components/student/NotificationBell";
 import { ModeToggle } from "./ui/mode-toggle";
 import { Button } from "./ui/button";
 import {
@@ -13,7 +14,9 @@ import {
   PlusCircleIcon, 
   UserGroupIcon, 
   ClipboardDocumentListIcon,
-  ChartBarIcon
+  ChartBarIcon,
+  ArrowPathIcon,
+  BellIcon
 } from "@heroicons/react/24/outline";
 
 import {
@@ -166,6 +169,15 @@ export function SiteHeader() {
                       <ChartBarIcon className="h-4 w-4" />
                       My Journey
                     </Link>
+                    <Link
+                      href="/student/review"
+                      className={`flex items-center gap-2 text-sm font-medium transition-all hover:text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 px-3 py-2 rounded-lg ${
+                        isActive("/student/review") ? "text-amber-600 bg-amber-50 dark:bg-amber-900/20" : "text-gray-700 dark:text-gray-300"
+                      }`}
+                    >
+                      <ArrowPathIcon className="h-4 w-4" />
+                      Review
+                    </Link>
                   </>
                 )}
               </>
@@ -176,6 +188,7 @@ export function SiteHeader() {
           <div className="hidden md:flex items-center gap-3">
             {session?.user ? (
               <>
+                {userRole === "student" && <NotificationBell />}
                 <UserProfile />
                 <ModeToggle />
               </>
@@ -285,6 +298,26 @@ export function SiteHeader() {
                         <ChartBarIcon className="h-4 w-4" />
                         My Journey
                       </Link>
+                      <Link
+                        href="/student/review"
+                        className={`flex items-center gap-2 text-sm font-medium transition-all hover:text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 px-3 py-2 rounded-lg ${
+                          isActive("/student/review") ? "text-amber-600 bg-amber-50 dark:bg-amber-900/20" : "text-gray-700 dark:text-gray-300"
+                        }`}
+                        onClick={() => setMobileMenuOpen(false)}
+                      >
+                        <ArrowPathIcon className="h-4 w-4" />
+                        Review
+                      </Link>
+                      <Link
+                        href="/student/notifications"
+                        className={`flex items-center gap-2 text-sm font-medium transition-all hover:text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 px-3 py-2 rounded-lg ${
+                          isActive("/student/notifications") ? "text-amber-600 bg-amber-50 dark:bg-amber-900/20" : "text-gray-700 dark:text-gray-300"
+                        }`}
+                        onClick={() => setMobileMenuOpen(false)}
+                      >
+                        <BellIcon className="h-4 w-4" />
+                        Notifications
+                      </Link>
                     </>
                   )}
                 </>
@@ -13,7 +13,8 @@ import {
   PlayCircle,
   Lock,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  RotateCcw
 } from "lucide-react";
 
 interface QuizCardProps {
@@ -28,6 +29,8 @@ interface QuizCardProps {
   attempted: boolean;
   enrolled: boolean;
   score?: number;
+  attemptsRemaining?: number | null; // Null when unlimited
+  canRetake?: boolean;
   isExpired: boolean;
   isAvailable: boolean;
   isReassignment?: boolean;
@@ -50,6 +53,8 @@ export function QuizCard({
   attempted,
   enrolled,
   score,
+  attemptsRemaining,
+  canRetake = false,
   isExpired,
   isAvailable,
   isReassignment = false,
@@ -137,6 +142,13 @@ export function QuizCard({
                 </span>
               )}
             </div>
+            {attemptsRemaining !== undefined && (
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-2">
+                {attemptsRemaining === null
+                  ? "Unlimited retakes"
+                  : `${attemptsRemaining} attempt${attemptsRemaining !== 1 ? "s" : ""} remaining`}
+              </p>
+            )}
           </div>
         )}
         
@@ -161,6 +173,14 @@ export function QuizCard({
         <div className="mt-auto">
           {actionElement ? (
             actionElement
+          ) : attempted && canRetake ? (
+            <Button 
+              onClick={onStart}
+              className="w-full bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retake Quiz
+            </Button>
           ) : attempted ? (
             <Button 
               variant="outline" 
@@ -21,6 +21,7 @@ interface ResultCardProps {
   totalQuestions: number;
   completedAt: string;
   duration?: number;
+  isPractice?: boolean;
   className?: string;
 }
 
@@ -32,6 +33,7 @@ export function ResultCard({
   totalQuestions,
   completedAt,
   duration,
+  isPractice = false,
   className
 }: ResultCardProps) {
   const isPassed = score >= 70;
@@ -63,6 +65,11 @@ export function ResultCard({
               ) : (
                 <XCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
               )}
+              {isPractice && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+                  Practice
+                </span>
+              )}
             </div>
 
             {/* Score Badge */}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, BookOpen, CalendarClock, RotateCcw, Trophy, Users } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+export interface StudentNotificationItem {
+  id: string;
+  type: "quiz_assigned" | "group_added" | "quiz_reassigned" | "quiz_starting" | "results_available";
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+const TYPE_ICONS = {
+  quiz_assigned: BookOpen,
+  group_added: Users,
+  quiz_reassigned: RotateCcw,
+  quiz_starting: CalendarClock,
+  results_available: Trophy,
+} as const;
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const PREVIEW_COUNT = 6;
+
+export function NotificationIcon({ type, className }: { type: StudentNotificationItem["type"]; className?: string }) {
+  const Icon = TYPE_ICONS[type] ?? Bell;
+  return <Icon className={cn("h-4 w-4 text-amber-600 dark:text-amber-400", className)} />;
+}
+
+export function notificationAge(createdAt: string) {
+  return formatDistanceToNow(new Date(createdAt), { addSuffix: true });
+}
+
+/**
+ * Header bell with the student's unread count and latest notifications
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<StudentNotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/student/notifications?limit=${PREVIEW_COUNT}`);
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch {
+      // Keep showing the last fetched notifications
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") fetchNotifications();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    try {
+      await fetch("/api/student/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    } catch {
+      // The next refresh shows whether it went through
+    }
+    fetchNotifications();
+  };
+
+  const openNotification = (notification: StudentNotificationItem) => {
+    if (!notification.readAt) markRead({ ids: [notification.id] });
+    if (notification.link) router.push(notification.link);
+  };
+
+  return (
+    <DropdownMenu onOpenChange={open => open && fetchNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          title="Notifications"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -end-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-amber-600 text-white text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markRead({ all: true })}
+              className="px-2 text-xs font-medium text-amber-600 hover:text-amber-700 dark:text-amber-400"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up
+          </p>
+        ) : (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification.id}
+              onSelect={() => openNotification(notification)}
+              className="flex items-start gap-3 py-2"
+            >
+              <NotificationIcon type={notification.type} className="mt-0.5 shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className={cn("text-sm truncate", !notification.readAt && "font-semibold")}>
+                  {notification.title}
+                </p>
+                <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                <p className="text-xs text-muted-foreground mt-0.5">{notificationAge(notification.createdAt)}</p>
+              </div>
+              {!notification.readAt && (
+                <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-amber-600" aria-label="Unread" />
+              )}
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/student/notifications" className="justify-center text-sm font-medium text-amber-600 dark:text-amber-400">
+            View all notifications
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { ArrowUp, ArrowDown, Check } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getQuestionType,
+  decodeListAnswer,
+  encodeListAnswer,
+  decodeMatchingAnswer,
+  encodeMatchingAnswer,
+  type QuestionOption,
+  type PublicAnswerData,
+} from "@/lib/question-types";
+import { languageAttributes, type LanguageDisplay } from "@/lib/languages";
+
+export interface AnswerableQuestion {
+  id: string;
+  questionType?: string | null;
+  options: QuestionOption[];
+  answerData?: PublicAnswerData | null;
+}
+
+interface QuestionAnswerInputProps {
+  question: AnswerableQuestion;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  language?: LanguageDisplay | null; // Language the options are shown in, for direction and font
+}
+
+/**
+ * Answer controls for every question type. Answers are passed around in their
+ * stored string form, see lib/question-types.ts.
+ */
+export function QuestionAnswerInput({ question, value, onChange, disabled, language }: QuestionAnswerInputProps) {
+  const questionType = getQuestionType(question);
+  const textAttributes = language ? languageAttributes(language) : {};
+
+  if (questionType === "fill_blank") {
+    return (
+      <Input
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Type your answer"
+        disabled={disabled}
+        className="text-base p-4 h-auto"
+        autoComplete="off"
+        {...textAttributes}
+      />
+    );
+  }
+
+  if (questionType === "ordering") {
+    const saved = decodeListAnswer(value);
+    const order = saved.length === question.options.length
+      ? saved
+      : question.options.map(o => o.id);
+    const optionText = (id: string) => question.options.find(o => o.id === id)?.text ?? id;
+
+    const move = (index: number, offset: number) => {
+      const next = [...order];
+      const target = index + offset;
+      if (target < 0 || target >= next.length) return;
+      [next[index], next[target]] = [next[target], next[index]];
+      onChange(encodeListAnswer(next));
+    };
+
+    return (
+      <div className="space-y-3" {...textAttributes}>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Use the arrows to put the items in the correct order.
+        </p>
+        {order.map((id, index) => (
+          <div
+            key={id}
+            className={`flex items-center p-4 rounded-lg border-2 ${
+              saved.length > 0
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-200 dark:border-gray-600'
+            }`}
+          >
+            <span className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-semibold me-3 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              {index + 1}
+            </span>
+            <span className="flex-1 text-gray-700 dark:text-gray-300">{optionText(id)}</span>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={disabled || index === 0}
+                className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === order.length - 1}
+                className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {saved.length === 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(encodeListAnswer(order))}
+            disabled={disabled}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Keep this order as my answer
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (questionType === "matching") {
+    const pairs = decodeMatchingAnswer(value);
+    const matches = question.answerData?.matches ?? [];
+
+    return (
+      <div className="space-y-3" {...textAttributes}>
+        {question.options.map((prompt) => (
+          <div
+            key={prompt.id}
+            className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-lg border-2 border-gray-200 dark:border-gray-600"
+          >
+            <span className="flex-1 text-gray-700 dark:text-gray-300">{prompt.text}</span>
+            <Select
+              value={pairs[prompt.id] || ""}
+              onValueChange={(matchId) => onChange(encodeMatchingAnswer({ ...pairs, [prompt.id]: matchId }))}
+              disabled={disabled}
+              dir={language?.direction}
+            >
+              <SelectTrigger className="sm:w-64">
+                <SelectValue placeholder="Choose a match" />
+              </SelectTrigger>
+              {/* Rendered in a portal, outside the container's language attributes */}
+              <SelectContent {...textAttributes}>
+                {matches.map((match) => (
+                  <SelectItem key={match.id} value={match.id}>
+                    {match.text}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const isMultiSelect = questionType === "multi_select";
+  const selected = isMultiSelect ? decodeListAnswer(value) : value ? [value] : [];
+
+  const handleSelect = (optionId: string) => {
+    if (!isMultiSelect) {
+      onChange(optionId);
+      return;
+    }
+    const next = selected.includes(optionId)
+      ? selected.filter(id => id !== optionId)
+      : [...selected, optionId];
+    onChange(next.length > 0 ? encodeListAnswer(next) : "");
+  };
+
+  return (
+    <div className="space-y-3" {...textAttributes}>
+      {isMultiSelect && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Select all that apply.</p>
+      )}
+      {question.options.map((option, index) => {
+        const isSelected = selected.includes(option.id);
+        return (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => handleSelect(option.id)}
+            disabled={disabled}
+            className={`w-full text-start p-4 rounded-lg border-2 transition-all ${
+              isSelected
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
+            }`}
+          >
+            <div className="flex items-start">
+              <span className={`flex-shrink-0 w-8 h-8 ${isMultiSelect ? 'rounded-md' : 'rounded-full'} flex items-center justify-center text-sm font-semibold me-3 ${
+                isSelected
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}>
+                {isMultiSelect && isSelected ? <Check className="h-4 w-4" /> : String.fromCharCode(65 + index)}
+              </span>
+              <span className="text-gray-700 dark:text-gray-300">
+                {option.text}
+              </span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { QuizLanguageChoice } from "@/hooks/useQuizLanguage";
+import { languageAttributes } from "@/lib/languages";
+
+interface QuizLanguagePickerProps {
+  title?: string;
+  languages: QuizLanguageChoice[];
+  onSelect: (code: string) => void;
+}
+
+/**
+ * Start screen for quizzes available in more than one language
+ */
+export function QuizLanguagePicker({ title = "Choose a language", languages, onSelect }: QuizLanguagePickerProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8">
+        <Globe className="h-12 w-12 text-amber-600 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2 text-center">
+          {title}
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-6 text-center">
+          The questions will be shown in this language until you submit.
+        </p>
+        <div className="space-y-2">
+          {languages.map(language => (
+            <Button
+              key={language.code}
+              variant="outline"
+              className="w-full justify-between"
+              onClick={() => onSelect(language.code)}
+            >
+              <span {...languageAttributes(language)}>{language.nativeName}</span>
+              {language.nativeName !== language.name && (
+                <span className="text-sm text-gray-500">{language.name}</span>
+              )}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
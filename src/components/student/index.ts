@@ -2,6 +2,9 @@
 export { GroupInfo } from './GroupInfo';
 // export { QuizCard } from './QuizCard'; // REMOVED - use student-v2/QuizCard instead
 export { QuizNotification } from './QuizNotification';
+export { NotificationBell } from './NotificationBell';
+export { QuestionAnswerInput } from './QuestionAnswerInput';
+export { QuizLanguagePicker } from './QuizLanguagePicker';
 export { StudentErrorBoundary } from './StudentErrorBoundary';
 // export { StatsCard } from './StatsCard'; // REMOVED - use student-v2/StatCard instead
 // export { PageHeader } from './PageHeader'; // REMOVED - use student-v2/PageHeader instead
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { logger } from "@/lib/logger";
+
+const FALLBACK_POLL_INTERVAL = 5000;
+
+/**
+ * Subscribe to a live session's event stream and call `onUpdate` whenever it changes.
+ * Also fires when the stream (re)connects, and polls while it's down so a dropped
+ * connection never leaves the screen stuck.
+ */
+export function useLiveSessionEvents(sessionId: string | null, onUpdate: () => void) {
+  const callback = useRef(onUpdate);
+  callback.current = onUpdate;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const events = new EventSource(`/api/live/${sessionId}/events`);
+    let poller: NodeJS.Timeout | null = null;
+
+    const stopPolling = () => {
+      if (poller) clearInterval(poller);
+      poller = null;
+    };
+
+    events.onopen = () => {
+      stopPolling();
+      callback.current();
+    };
+
+    events.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === "live_session" && message.data?.sessionId === sessionId) {
+          callback.current();
+        }
+      } catch (error) {
+        logger.error("Invalid live session event:", error);
+      }
+    };
+
+    events.onerror = () => {
+      if (!poller) poller = setInterval(() => callback.current(), FALLBACK_POLL_INTERVAL);
+    };
+
+    return () => {
+      stopPolling();
+      events.close();
+    };
+  }, [sessionId]);
+}
@@ -1,7 +1,15 @@
 import { useState, useCallback } from "react";
-import { SupportedLanguage } from "@/lib/translation-service";
 import { logger } from "@/lib/logger";
-
+import type { TextDirection } from "@/lib/languages";
+
+// A language the question can be translated into, as configured by admins
+export interface TranslationLanguageOption {
+  code: string;
+  name: string;
+  nativeName: string;
+  direction: TextDirection;
+  translated: boolean;
+}
 
 interface TranslationState {
   isTranslating: boolean;
@@ -27,6 +35,26 @@ export function useQuestionTranslation({
     error: null,
     success: false
   });
+  const [languages, setLanguages] = useState<TranslationLanguageOption[]>([]);
+
+  const checkTranslationStatus = useCallback(async (questionId: string) => {
+    try {
+      const response = await fetch(
+        `/api/educator/quiz/${quizId}/question/${questionId}/translate`,
+        {
+          method: "GET",
+        }
+      );
+
+      if (response.ok) {
+        return await response.json();
+      }
+      return null;
+    } catch (error) {
+      logger.error("Failed to check translation status:", error);
+      return null;
+    }
+  }, [quizId]);
 
   const openTranslationModal = useCallback((questionId: string) => {
     setState(prev => ({
@@ -36,7 +64,13 @@ export function useQuestionTranslation({
       error: null,
       success: false
     }));
-  }, []);
+
+    // The available languages are configured by admins, so they're loaded with the question's translations
+    setLanguages([]);
+    checkTranslationStatus(questionId).then(status => {
+      if (status) setLanguages(status.supportedLanguages);
+    });
+  }, [checkTranslationStatus]);
 
   const closeTranslationModal = useCallback(() => {
     setState(prev => ({
@@ -47,7 +81,7 @@ export function useQuestionTranslation({
     }));
   }, []);
 
-  const translateQuestion = useCallback(async (targetLanguage: SupportedLanguage) => {
+  const translateQuestion = useCallback(async (targetLanguage: string) => {
     if (!state.translatingQuestionId) {
       throw new Error("No question selected for translation");
     }
@@ -110,25 +144,6 @@ export function useQuestionTranslation({
     }
   }, [quizId, state.translatingQuestionId, onTranslationComplete]);
 
-  const checkTranslationStatus = useCallback(async (questionId: string) => {
-    try {
-      const response = await fetch(
-        `/api/educator/quiz/${quizId}/question/${questionId}/translate`,
-        {
-          method: "GET",
-        }
-      );
-
-      if (response.ok) {
-        return await response.json();
-      }
-      return null;
-    } catch (error) {
-      logger.error("Failed to check translation status:", error);
-      return null;
-    }
-  }, [quizId]);
-
   return {
     // State
     isTranslating: state.isTranslating,
@@ -136,6 +151,7 @@ export function useQuestionTranslation({
     translatingQuestionId: state.translatingQuestionId,
     error: state.error,
     success: state.success,
+    languages,
     
     // Actions
     openTranslationModal,
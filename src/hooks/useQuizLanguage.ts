@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { logger } from "@/lib/logger";
+import type { LanguageDisplay } from "@/lib/languages";
+
+export interface QuizLanguageChoice extends LanguageDisplay {
+  name: string;
+  nativeName: string;
+}
+
+/**
+ * The language to start a quiz in. Stays null while the student still has to pick one;
+ * quizzes with no translations, and attempts already in progress, go straight through.
+ */
+export function useQuizLanguage(quizId: string, mode: "exam" | "practice" = "exam") {
+  const [language, setLanguage] = useState<string | null>(null);
+  const [choices, setChoices] = useState<QuizLanguageChoice[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLanguages = async () => {
+      try {
+        const response = await fetch(`/api/student/quiz/${quizId}/languages?mode=${mode}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load quiz languages");
+        if (cancelled) return;
+
+        if (data.inProgressLanguage) {
+          setLanguage(data.inProgressLanguage);
+        } else if (data.languages.length > 1) {
+          setChoices(data.languages);
+        } else {
+          setLanguage(data.languages[0]?.code ?? "en");
+        }
+      } catch (error) {
+        // The quiz can still be taken in its original language
+        logger.error("Error loading quiz languages:", error);
+        if (!cancelled) setLanguage("en");
+      }
+    };
+
+    loadLanguages();
+    return () => {
+      cancelled = true;
+    };
+  }, [quizId, mode]);
+
+  return { language, choices: language ? null : choices, chooseLanguage: setLanguage };
+}
@@ -0,0 +1,213 @@
+/**
+ * Adaptive quizzes.
+ *
+ * Settings live in `quizzes.configuration.adaptive`. When enabled, the quiz's questions
+ * become a pool and each student is served `questionCount` of them one at a time. A
+ * correct answer steps up the ladder (difficulty or Bloom's level), a wrong one steps
+ * down. The path taken is stored on the attempt in `adaptive_path`.
+ */
+
+export const ADAPTIVE_LADDERS = ["difficulty", "blooms"] as const;
+export type AdaptiveLadder = typeof ADAPTIVE_LADDERS[number];
+
+export const LADDER_LEVELS: Record<AdaptiveLadder, readonly string[]> = {
+  difficulty: ["easy", "intermediate", "hard"],
+  blooms: ["knowledge", "comprehension", "application", "analysis", "synthesis", "evaluation"],
+};
+
+export const MASTERY_LEVELS = ["beginning", "developing", "proficient", "advanced"] as const;
+export type MasteryLevel = typeof MASTERY_LEVELS[number];
+
+export const MASTERY_LABELS: Record<MasteryLevel, string> = {
+  beginning: "Beginning",
+  developing: "Developing",
+  proficient: "Proficient",
+  advanced: "Advanced",
+};
+
+export interface AdaptiveConfig {
+  enabled: boolean;
+  questionCount: number; // Questions served per attempt, drawn from the quiz's pool
+  ladder: AdaptiveLadder;
+  startLevel: string; // One of LADDER_LEVELS[ladder]
+}
+
+export const DEFAULT_ADAPTIVE_CONFIG: AdaptiveConfig = {
+  enabled: false,
+  questionCount: 10,
+  ladder: "difficulty",
+  startLevel: "easy",
+};
+
+export interface AdaptivePoolQuestion {
+  id: string;
+  difficulty: string | null;
+  bloomsLevel: string | null;
+  orderIndex: number;
+}
+
+export interface AdaptiveStep {
+  questionId: string;
+  level: number; // Position on the ladder when served
+  answer: string | null;
+  isCorrect: boolean;
+  timeSpent: number;
+  answeredAt: string;
+}
+
+export interface MasteryEstimate {
+  level: MasteryLevel;
+  estimate: number; // 0-100, weighted by how far up the ladder correct answers were
+  highestLevel: string | null; // Highest ladder level answered correctly
+}
+
+function isLadder(value: unknown): value is AdaptiveLadder {
+  return typeof value === "string" && (ADAPTIVE_LADDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Read adaptive settings from a quiz's configuration. Quizzes without them are not adaptive.
+ */
+export function getAdaptiveConfig(configuration: unknown): AdaptiveConfig {
+  const adaptive = configuration && typeof configuration === "object"
+    ? (configuration as Record<string, unknown>).adaptive
+    : null;
+
+  if (!adaptive || typeof adaptive !== "object") {
+    return DEFAULT_ADAPTIVE_CONFIG;
+  }
+
+  const raw = adaptive as Record<string, unknown>;
+  const ladder = isLadder(raw.ladder) ? raw.ladder : DEFAULT_ADAPTIVE_CONFIG.ladder;
+  const questionCount = Number(raw.questionCount);
+  const startLevel = typeof raw.startLevel === "string" && LADDER_LEVELS[ladder].includes(raw.startLevel)
+    ? raw.startLevel
+    : LADDER_LEVELS[ladder][0];
+
+  return {
+    enabled: raw.enabled === true,
+    questionCount: Number.isInteger(questionCount) && questionCount > 0
+      ? questionCount
+      : DEFAULT_ADAPTIVE_CONFIG.questionCount,
+    ladder,
+    startLevel,
+  };
+}
+
+/**
+ * Validate adaptive settings sent by an educator against the size of the quiz's pool
+ */
+export function parseAdaptiveConfig(
+  input: unknown,
+  poolSize: number
+): { config: AdaptiveConfig } | { error: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Adaptive settings are required" };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.ladder !== undefined && !isLadder(raw.ladder)) {
+    return { error: `Ladder must be one of: ${ADAPTIVE_LADDERS.join(", ")}` };
+  }
+
+  const ladder = isLadder(raw.ladder) ? raw.ladder : DEFAULT_ADAPTIVE_CONFIG.ladder;
+  if (raw.startLevel !== undefined && !LADDER_LEVELS[ladder].includes(String(raw.startLevel))) {
+    return { error: `Start level must be one of: ${LADDER_LEVELS[ladder].join(", ")}` };
+  }
+
+  if (raw.questionCount !== undefined) {
+    const questionCount = Number(raw.questionCount);
+    if (!Number.isInteger(questionCount) || questionCount < 1) {
+      return { error: "Questions per attempt must be a whole number of at least 1" };
+    }
+    if (raw.enabled === true && questionCount > poolSize) {
+      return { error: `Questions per attempt can't exceed the ${poolSize} questions in this quiz` };
+    }
+  }
+
+  return { config: getAdaptiveConfig({ adaptive: raw }) };
+}
+
+/**
+ * Where a question sits on the ladder. Questions missing the ladder's field fall back
+ * to the other one, then to the middle of the ladder.
+ */
+export function getQuestionLevel(question: AdaptivePoolQuestion, ladder: AdaptiveLadder): number {
+  const difficultyIndex = question.difficulty ? LADDER_LEVELS.difficulty.indexOf(question.difficulty) : -1;
+  const bloomsIndex = question.bloomsLevel ? LADDER_LEVELS.blooms.indexOf(question.bloomsLevel) : -1;
+
+  if (ladder === "difficulty") {
+    if (difficultyIndex >= 0) return difficultyIndex;
+    if (bloomsIndex >= 0) return Math.floor(bloomsIndex / 2);
+    return 1;
+  }
+
+  if (bloomsIndex >= 0) return bloomsIndex;
+  if (difficultyIndex >= 0) return difficultyIndex * 2;
+  return 2;
+}
+
+function seededRank(seed: string): number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = ((hash << 5) - hash) + seed.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Pick the next question: one level up after a correct answer, one down after a wrong
+ * one, closest available level if the pool has run dry there. Ties are broken with a
+ * per-attempt seed so students don't all see the same sequence.
+ */
+export function selectNextQuestion<T extends AdaptivePoolQuestion>(
+  pool: T[],
+  path: AdaptiveStep[],
+  config: AdaptiveConfig,
+  seed: string
+): T | null {
+  const served = new Set(path.map(step => step.questionId));
+  const candidates = pool.filter(q => !served.has(q.id));
+  if (candidates.length === 0 || path.length >= config.questionCount) return null;
+
+  const maxLevel = LADDER_LEVELS[config.ladder].length - 1;
+  const last = path[path.length - 1];
+  const target = last
+    ? Math.min(maxLevel, Math.max(0, last.level + (last.isCorrect ? 1 : -1)))
+    : Math.max(0, LADDER_LEVELS[config.ladder].indexOf(config.startLevel));
+
+  const ranked = candidates
+    .map(q => ({
+      question: q,
+      distance: Math.abs(getQuestionLevel(q, config.ladder) - target),
+      tieBreak: seededRank(seed + path.length + q.id),
+    }))
+    .sort((a, b) => a.distance - b.distance || a.tieBreak - b.tieBreak);
+
+  return ranked[0].question;
+}
+
+/**
+ * Estimate mastery from the path. Correct answers count for more the higher up the
+ * ladder they were, so reaching hard questions matters more than raw accuracy.
+ */
+export function estimateMastery(path: AdaptiveStep[], ladder: AdaptiveLadder): MasteryEstimate {
+  const levels = LADDER_LEVELS[ladder];
+  if (path.length === 0) {
+    return { level: "beginning", estimate: 0, highestLevel: null };
+  }
+
+  const earned = path.reduce((sum, step) => sum + (step.isCorrect ? step.level + 1 : 0), 0);
+  const estimate = Math.round((earned / (path.length * levels.length)) * 100);
+  const correctLevels = path.filter(step => step.isCorrect).map(step => step.level);
+  const highestLevel = correctLevels.length > 0 ? levels[Math.max(...correctLevels)] : null;
+
+  const level: MasteryLevel = estimate >= 85 ? "advanced"
+    : estimate >= 60 ? "proficient"
+    : estimate >= 35 ? "developing"
+    : "beginning";
+
+  return { level, estimate, highestLevel };
+}
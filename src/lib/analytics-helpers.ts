@@ -62,7 +62,8 @@ export async function fetchQuizStatistics(quizIds: string[], dateFilter: Date) {
   .where(and(
     inArray(quizAttempts.quizId, quizIds),
     gte(quizAttempts.endTime, dateFilter),
-    eq(quizAttempts.status, "completed")
+    eq(quizAttempts.status, "completed"),
+    eq(quizAttempts.mode, "exam")
   ))
   .groupBy(quizAttempts.quizId);
 }
@@ -88,7 +89,8 @@ export async function fetchStudentStatistics(studentIds: string[], quizIds: stri
         inArray(quizAttempts.studentId, studentIds),
         inArray(quizAttempts.quizId, quizIds),
         gte(quizAttempts.endTime, dateFilter),
-        eq(quizAttempts.status, "completed")
+        eq(quizAttempts.status, "completed"),
+        eq(quizAttempts.mode, "exam")
       ))
       .groupBy(quizAttempts.studentId)
     ]);
@@ -123,7 +125,8 @@ export async function fetchTopicPerformance(quizIds: string[], dateFilter: Date)
     .where(and(
       inArray(quizAttempts.quizId, quizIds),
       gte(quizAttempts.endTime, dateFilter),
-      eq(quizAttempts.status, "completed")
+      eq(quizAttempts.status, "completed"),
+      eq(quizAttempts.mode, "exam")
     ))
     .groupBy(questions.topic);
     
@@ -152,7 +155,8 @@ export async function fetchDifficultyPerformance(quizIds: string[], dateFilter:
     .where(and(
       inArray(quizAttempts.quizId, quizIds),
       gte(quizAttempts.endTime, dateFilter),
-      eq(quizAttempts.status, "completed")
+      eq(quizAttempts.status, "completed"),
+      eq(quizAttempts.mode, "exam")
     ))
     .groupBy(questions.bloomsLevel);
     
@@ -228,7 +232,8 @@ export async function fetchTimelineData(quizIds: string[], timeRange: string) {
       inArray(quizAttempts.quizId, quizIds),
       gte(quizAttempts.endTime, interval.start),
       sql`${quizAttempts.endTime} <= ${interval.end}`,
-      eq(quizAttempts.status, "completed")
+      eq(quizAttempts.status, "completed"),
+      eq(quizAttempts.mode, "exam")
     ));
     
     return {
@@ -0,0 +1,187 @@
+/**
+ * Quiz attempt policy.
+ *
+ * Lives in `quizzes.configuration.attemptPolicy`. Quizzes without one keep the
+ * original single-attempt behaviour. Reassignments still start a fresh enrollment
+ * with its own allowance.
+ */
+
+export const SCORE_MODES = ["best", "latest", "average"] as const;
+export type ScoreMode = typeof SCORE_MODES[number];
+
+export const SCORE_MODE_LABELS: Record<ScoreMode, string> = {
+  best: "Best attempt",
+  latest: "Latest attempt",
+  average: "Average of attempts",
+};
+
+export interface AttemptPolicy {
+  maxAttempts: number; // 0 means unlimited
+  cooldownMinutes: number; // Minimum wait after finishing an attempt
+  scoreMode: ScoreMode;
+}
+
+export const DEFAULT_ATTEMPT_POLICY: AttemptPolicy = {
+  maxAttempts: 1,
+  cooldownMinutes: 0,
+  scoreMode: "latest",
+};
+
+export interface AttemptAvailability {
+  attemptsUsed: number;
+  attemptsRemaining: number | null; // Null when unlimited
+  canStart: boolean;
+  nextAttemptAt: Date | null; // Set while a cooldown is running
+  reason?: string;
+}
+
+interface CompletedAttempt {
+  endTime: Date | null;
+}
+
+interface ScoredAttempt extends CompletedAttempt {
+  score: number | null;
+}
+
+export function isScoreMode(value: unknown): value is ScoreMode {
+  return typeof value === "string" && (SCORE_MODES as readonly string[]).includes(value);
+}
+
+function toWholeNumber(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isInteger(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Read the attempt policy from a quiz's configuration, falling back to one attempt
+ */
+export function getAttemptPolicy(configuration: unknown): AttemptPolicy {
+  const policy = configuration && typeof configuration === "object"
+    ? (configuration as Record<string, unknown>).attemptPolicy
+    : null;
+
+  if (!policy || typeof policy !== "object") {
+    return DEFAULT_ATTEMPT_POLICY;
+  }
+
+  const raw = policy as Record<string, unknown>;
+  return {
+    maxAttempts: toWholeNumber(raw.maxAttempts) ?? DEFAULT_ATTEMPT_POLICY.maxAttempts,
+    cooldownMinutes: toWholeNumber(raw.cooldownMinutes) ?? 0,
+    scoreMode: isScoreMode(raw.scoreMode) ? raw.scoreMode : DEFAULT_ATTEMPT_POLICY.scoreMode,
+  };
+}
+
+/**
+ * Validate an attempt policy sent by an educator
+ */
+export function parseAttemptPolicy(input: unknown): { policy: AttemptPolicy } | { error: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Attempt policy is required" };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.maxAttempts !== undefined && toWholeNumber(raw.maxAttempts) === null) {
+    return { error: "Max attempts must be a whole number (0 for unlimited)" };
+  }
+  if (raw.cooldownMinutes !== undefined && toWholeNumber(raw.cooldownMinutes) === null) {
+    return { error: "Cooldown must be a whole number of minutes" };
+  }
+  if (raw.scoreMode !== undefined && !isScoreMode(raw.scoreMode)) {
+    return { error: `Score mode must be one of: ${SCORE_MODES.join(", ")}` };
+  }
+
+  return { policy: getAttemptPolicy({ attemptPolicy: raw }) };
+}
+
+/**
+ * Work out whether another attempt can be started, given the completed attempts so far
+ */
+export function getAttemptAvailability(
+  policy: AttemptPolicy,
+  completedAttempts: CompletedAttempt[],
+  now: Date = new Date()
+): AttemptAvailability {
+  const attemptsUsed = completedAttempts.length;
+  const attemptsRemaining = policy.maxAttempts === 0
+    ? null
+    : Math.max(0, policy.maxAttempts - attemptsUsed);
+
+  if (attemptsRemaining === 0) {
+    return {
+      attemptsUsed,
+      attemptsRemaining,
+      canStart: false,
+      nextAttemptAt: null,
+      reason: policy.maxAttempts === 1
+        ? "You have already completed this quiz. Each quiz can only be taken once."
+        : `You have used all ${policy.maxAttempts} attempts for this quiz.`,
+    };
+  }
+
+  if (policy.cooldownMinutes > 0 && attemptsUsed > 0) {
+    const lastFinished = Math.max(...completedAttempts.map(a => a.endTime?.getTime() || 0));
+    const nextAttemptAt = new Date(lastFinished + policy.cooldownMinutes * 60 * 1000);
+    if (nextAttemptAt > now) {
+      const minutesLeft = Math.ceil((nextAttemptAt.getTime() - now.getTime()) / (60 * 1000));
+      return {
+        attemptsUsed,
+        attemptsRemaining,
+        canStart: false,
+        nextAttemptAt,
+        reason: `You can retake this quiz in ${minutesLeft} minute${minutesLeft !== 1 ? "s" : ""}.`,
+      };
+    }
+  }
+
+  return { attemptsUsed, attemptsRemaining, canStart: true, nextAttemptAt: null };
+}
+
+/**
+ * Pick the attempt whose score counts. For "average" the latest attempt is returned
+ * with its score replaced by the mean, so callers can still link to a real attempt.
+ */
+export function selectCountedAttempt<T extends ScoredAttempt>(attempts: T[], mode: ScoreMode): T | null {
+  if (attempts.length === 0) return null;
+
+  const byLatest = [...attempts].sort((a, b) => (b.endTime?.getTime() || 0) - (a.endTime?.getTime() || 0));
+  const latest = byLatest[0];
+
+  if (mode === "best") {
+    return byLatest.reduce((best, a) => ((a.score || 0) > (best.score || 0) ? a : best), latest);
+  }
+
+  if (mode === "average") {
+    const average = attempts.reduce((sum, a) => sum + (a.score || 0), 0) / attempts.length;
+    return { ...latest, score: Math.round(average * 100) / 100 };
+  }
+
+  return latest;
+}
+
+/**
+ * Collapse completed attempts to one counted attempt per student per quiz, for analytics
+ */
+export function selectCountedAttempts<T extends ScoredAttempt & { quizId: string; studentId: string }>(
+  attempts: T[],
+  getPolicy: (quizId: string) => AttemptPolicy
+): T[] {
+  const groups = new Map<string, T[]>();
+  for (const attempt of attempts) {
+    const key = `${attempt.quizId}::${attempt.studentId}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(attempt);
+    } else {
+      groups.set(key, [attempt]);
+    }
+  }
+
+  const counted: T[] = [];
+  groups.forEach(group => {
+    const selected = selectCountedAttempt(group, getPolicy(group[0].quizId).scoreMode);
+    if (selected) counted.push(selected);
+  });
+  return counted;
+}
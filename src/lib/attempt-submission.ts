@@ -0,0 +1,188 @@
+import { and, eq } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { enrollments, questionResponses, questions, quizAttempts, quizzes } from "@/lib/schema";
+import { logger } from "@/lib/logger";
+import { scoreAttempt, getScoringConfig } from "@/lib/quiz-scoring";
+import { isAnswerCorrect } from "@/lib/question-types";
+import { localizeQuizQuestions } from "@/lib/quiz-translations";
+import { getAdaptiveConfig, getQuestionLevel, estimateMastery } from "@/lib/adaptive-quiz";
+
+/**
+ * Scoring and closing out a quiz attempt. Used when the student submits and when an
+ * educator force-submits from the proctoring monitor, so both grade the same way.
+ */
+
+type Quiz = typeof quizzes.$inferSelect;
+type QuizAttempt = typeof quizAttempts.$inferSelect;
+
+export interface SubmittedAnswer {
+  questionId: string;
+  answer: string;
+  markedForReview: boolean;
+  timeSpent: number;
+}
+
+export interface CompleteAttemptOptions {
+  quiz: Quiz;
+  attempt: QuizAttempt;
+  answers: SubmittedAnswer[];
+  timeSpent: number; // Seconds
+  timezone: string;
+  forceSubmittedBy?: string;
+}
+
+// Autosave keeps the page position in a fake first answer
+const AUTOSAVE_METADATA_ID = "_autosave_metadata";
+
+/**
+ * The answers last autosaved for an in-progress attempt
+ */
+export function savedAnswers(attempt: Pick<QuizAttempt, "answers">): SubmittedAnswer[] {
+  const stored = (attempt.answers || []) as Partial<SubmittedAnswer>[];
+  return stored
+    .filter(answer => answer?.questionId && answer.questionId !== AUTOSAVE_METADATA_ID && answer.answer != null)
+    .map(answer => ({
+      questionId: answer.questionId!,
+      answer: answer.answer!,
+      markedForReview: Boolean(answer.markedForReview),
+      timeSpent: answer.timeSpent || 0,
+    }));
+}
+
+/**
+ * Score the attempt, mark it (and its enrollment) completed and store the individual
+ * responses. Returns null when the attempt was no longer in progress, e.g. the student
+ * and the educator submitted at the same moment.
+ */
+export async function completeAttempt({
+  quiz,
+  attempt,
+  answers,
+  timeSpent,
+  timezone,
+  forceSubmittedBy,
+}: CompleteAttemptOptions): Promise<{ score: number } | null> {
+  // Graded in the attempt's language: answers are option ids either way, but blanks
+  // also accept the translated answers
+  const quizQuestions = await localizeQuizQuestions(
+    quiz.id,
+    attempt.language,
+    await db
+      .select()
+      .from(questions)
+      .where(eq(questions.quizId, quiz.id))
+  );
+
+  let validAnswers = answers.filter(answer => answer && answer.questionId && answer.answer != null);
+  let scoredQuestions = quizQuestions;
+  let adaptivePath = attempt.adaptivePath;
+  let masteryLevel: string | null = null;
+
+  // Adaptive attempts are scored on the questions actually served. Answers recorded
+  // as the student moved through the ladder win over anything resent by the client.
+  if (adaptivePath) {
+    const adaptiveConfig = getAdaptiveConfig(quiz.configuration);
+    const servedIds = new Set((attempt.questionOrder || []).map(q => q.questionId));
+    scoredQuestions = quizQuestions.filter(q => servedIds.has(q.id));
+
+    const recorded = new Map(adaptivePath.map(step => [step.questionId, step]));
+    const finalAnswer = validAnswers.find(a => servedIds.has(a.questionId) && !recorded.has(a.questionId));
+    const finalQuestion = finalAnswer && scoredQuestions.find(q => q.id === finalAnswer.questionId);
+    if (finalAnswer && finalQuestion) {
+      adaptivePath = [...adaptivePath, {
+        questionId: finalQuestion.id,
+        level: getQuestionLevel(finalQuestion, adaptiveConfig.ladder),
+        answer: finalAnswer.answer,
+        isCorrect: isAnswerCorrect(finalQuestion, finalAnswer.answer),
+        timeSpent: finalAnswer.timeSpent || 0,
+        answeredAt: new Date().toISOString(),
+      }];
+    }
+
+    validAnswers = adaptivePath
+      .filter(step => step.answer !== null)
+      .map(step => ({
+        questionId: step.questionId,
+        answer: step.answer as string,
+        markedForReview: false,
+        timeSpent: step.timeSpent,
+      }));
+    masteryLevel = estimateMastery(adaptivePath, adaptiveConfig.ladder).level;
+  }
+
+  // Calculate score using the quiz's scoring rules (one point per question by default)
+  const attemptScore = scoreAttempt(scoredQuestions, validAnswers, getScoringConfig(quiz.configuration));
+  const score = Math.round(attemptScore.score);
+
+  const evaluatedAnswers = validAnswers.map((answer) => {
+    const questionScore = attemptScore.questionScores.get(answer.questionId);
+
+    return {
+      questionId: answer.questionId,
+      answer: answer.answer,
+      isCorrect: questionScore?.isCorrect ?? false,
+      pointsAwarded: questionScore?.pointsAwarded ?? 0,
+      pointsPossible: questionScore?.pointsPossible ?? 0,
+      markedForReview: answer.markedForReview,
+      timeSpent: answer.timeSpent,
+    };
+  });
+
+  const [updated] = await db
+    .update(quizAttempts)
+    .set({
+      endTime: new Date(),
+      score,
+      totalQuestions: scoredQuestions.length,
+      totalCorrect: attemptScore.totalCorrect,
+      pointsEarned: attemptScore.pointsEarned,
+      pointsPossible: attemptScore.pointsPossible,
+      timeSpent,
+      timezone,
+      status: "completed",
+      answers: evaluatedAnswers,
+      adaptivePath,
+      masteryLevel,
+      forceSubmittedBy: forceSubmittedBy ?? null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(quizAttempts.id, attempt.id), eq(quizAttempts.status, "in_progress")))
+    .returning({ id: quizAttempts.id });
+
+  if (!updated) return null;
+
+  // Update enrollment status to completed if this exam attempt has an enrollment
+  if (attempt.enrollmentId && attempt.mode === "exam") {
+    await db
+      .update(enrollments)
+      .set({
+        status: "completed",
+        completedAt: new Date()
+      })
+      .where(eq(enrollments.id, attempt.enrollmentId));
+
+    logger.info("Updated enrollment status to completed", {
+      enrollmentId: attempt.enrollmentId,
+      attemptId: attempt.id
+    });
+  }
+
+  // Save individual question responses
+  for (const answer of evaluatedAnswers) {
+    await db.insert(questionResponses).values({
+      id: crypto.randomUUID(),
+      attemptId: attempt.id,
+      questionId: answer.questionId,
+      selectedAnswer: answer.answer,
+      isCorrect: answer.isCorrect,
+      pointsAwarded: answer.pointsAwarded,
+      pointsPossible: answer.pointsPossible,
+      timeSpent: answer.timeSpent,
+      markedForReview: answer.markedForReview,
+      answeredAt: new Date(),
+    });
+  }
+
+  return { score };
+}
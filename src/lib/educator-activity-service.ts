@@ -328,7 +328,8 @@ export class EducatorActivityService {
     reminderLevel: number,
     triggerReason: string,
     emailSubject: string,
-    activitySnapshot: EducatorActivitySnapshot
+    activitySnapshot: EducatorActivitySnapshot,
+    delivery?: { outboundEmailId?: string; status?: string }
   ): Promise<void> {
     try {
       await db.insert(educatorReminderEmails).values({
@@ -345,7 +346,9 @@ export class EducatorActivityService {
           totalStudents: activitySnapshot.totalStudents,
           engagementScore: activitySnapshot.engagementScore,
           riskLevel: activitySnapshot.riskLevel
-        }
+        },
+        outboundEmailId: delivery?.outboundEmailId,
+        deliveryStatus: delivery?.status
       });
 
       logger.info('Reminder email recorded', {
@@ -0,0 +1,170 @@
+// Email delivery providers. SMTP sends for real; the file sink writes each message to a local
+// directory instead, for development and tests. EMAIL_PROVIDER picks one ("smtp" or "file");
+// without it SMTP is used when configured, and the file sink outside production.
+
+import { createTransport } from 'nodemailer';
+import Mail from 'nodemailer/lib/mailer';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface OutgoingEmail {
+  id: string; // Queue id, passed on so messages can be traced back to it
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string | null;
+}
+
+export interface EmailProvider {
+  readonly name: string;
+  send(message: OutgoingEmail): Promise<{ messageId: string }>;
+}
+
+/**
+ * A send that didn't go through. `retryable` failures are tried again with backoff;
+ * `bounce` means the recipient was rejected outright and shouldn't be mailed again.
+ */
+export class EmailDeliveryError extends Error {
+  constructor(message: string, public readonly kind: 'retryable' | 'permanent' | 'bounce' = 'retryable') {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
+
+interface SmtpError extends Error {
+  responseCode?: number;
+  response?: string; // The server's reply line, e.g. "550 5.1.1 <a@b.org>: user unknown"
+  rejected?: string[];
+}
+
+export class SmtpProvider implements EmailProvider {
+  readonly name = 'smtp';
+  private transporter: Mail;
+
+  constructor() {
+    // Pooled and reused across sends rather than a new connection per email
+    this.transporter = createTransport({
+      pool: true,
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    });
+  }
+
+  static isConfigured(): boolean {
+    return Boolean(process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS);
+  }
+
+  async send(message: OutgoingEmail): Promise<{ messageId: string }> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text ?? undefined,
+        headers: { 'X-Outbound-Email-Id': message.id },
+      });
+      if (info.rejected?.length) {
+        throw new EmailDeliveryError(`Recipient rejected: ${info.rejected.join(', ')}`, 'bounce');
+      }
+      return { messageId: info.messageId };
+    } catch (error) {
+      throw classifySmtpError(error);
+    }
+  }
+}
+
+/**
+ * 5xx replies are permanent. Only a bad-mailbox reply (enhanced status 5.1.x) or a recipient
+ * the server listed as rejected is a hard bounce that suppresses the address; policy, content
+ * and relay rejections fail the one email. Anything else (4xx, timeouts, connection and auth
+ * errors) is worth retrying.
+ */
+function classifySmtpError(error: unknown): EmailDeliveryError {
+  if (error instanceof EmailDeliveryError) return error;
+
+  const smtpError = error as SmtpError;
+  const message = smtpError?.message || 'Failed to send email';
+  const code = smtpError?.responseCode;
+  if (code && code >= 500) {
+    const badMailbox = /\b5\.1\.\d{1,3}\b/.test(smtpError.response || message);
+    const recipientRejected = badMailbox || Boolean(smtpError.rejected?.length);
+    return new EmailDeliveryError(message, recipientRejected ? 'bounce' : 'permanent');
+  }
+  return new EmailDeliveryError(message, 'retryable');
+}
+
+// Recipients on this domain are rejected by the file sink, to try out bounce handling locally
+export const SINK_BOUNCE_DOMAIN = 'bounce.invalid';
+
+export interface SinkMessage extends OutgoingEmail {
+  messageId: string;
+  sentAt: string;
+}
+
+export class FileSinkProvider implements EmailProvider {
+  readonly name = 'file';
+
+  constructor(readonly directory = process.env.EMAIL_SINK_DIR || path.join(process.cwd(), '.mailbox')) {}
+
+  async send(message: OutgoingEmail): Promise<{ messageId: string }> {
+    if (message.to.toLowerCase().endsWith(`@${SINK_BOUNCE_DOMAIN}`)) {
+      throw new EmailDeliveryError(`550 5.1.1 <${message.to}>: mailbox unavailable`, 'bounce');
+    }
+
+    const messageId = `<${message.id}@mailbox.local>`;
+    const stored: SinkMessage = { ...message, messageId, sentAt: new Date().toISOString() };
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(
+        path.join(this.directory, `${Date.now()}-${message.id}.json`),
+        JSON.stringify(stored, null, 2)
+      );
+    } catch (error) {
+      throw new EmailDeliveryError(error instanceof Error ? error.message : 'Failed to write email', 'retryable');
+    }
+    return { messageId };
+  }
+
+  /**
+   * Messages written so far, oldest first
+   */
+  async read(): Promise<SinkMessage[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json')).sort();
+    } catch {
+      return [];
+    }
+    return Promise.all(
+      files.map(async file => JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')) as SinkMessage)
+    );
+  }
+}
+
+let provider: EmailProvider | null | undefined;
+
+/**
+ * The configured provider, or null when email can't be sent (production without SMTP settings)
+ */
+export function getEmailProvider(): EmailProvider | null {
+  if (provider !== undefined) return provider;
+
+  const configured = process.env.EMAIL_PROVIDER;
+  if (configured === 'file') {
+    provider = new FileSinkProvider();
+  } else if (SmtpProvider.isConfigured()) {
+    provider = new SmtpProvider();
+  } else if (configured !== 'smtp' && process.env.NODE_ENV !== 'production') {
+    provider = new FileSinkProvider();
+  } else {
+    provider = null;
+  }
+  return provider;
+}
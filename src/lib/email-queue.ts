@@ -0,0 +1,418 @@
+// Outbound email queue. Every email is stored before it's sent and the first attempt is made
+// straight away; failures are retried with backoff by the email-queue cron. Addresses that hard
+// bounce or complain are suppressed, and tracked emails record opens and clicks. Bodies, which
+// can hold OTP codes and sign-in links, are cleared once an email is finished with.
+
+import { and, asc, eq, inArray, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+import * as crypto from 'crypto';
+import { db } from '@/lib/db';
+import { educatorReminderEmails, emailSuppressions, outboundEmails } from '@/lib/schema';
+import { branding } from '@/lib/branding';
+import { EmailDeliveryError, getEmailProvider } from '@/lib/email-providers';
+import { logger } from '@/lib/logger';
+
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1, 2, 4, 8... minutes between attempts
+const SEND_LEASE_MS = 2 * 60 * 1000;
+const WORKER_BATCH_SIZE = 50;
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // Finished emails are kept for 30 days, without their body
+const FINISHED_STATUSES = ['sent', 'failed', 'bounced', 'suppressed'] as const;
+
+export type OutboundEmail = typeof outboundEmails.$inferSelect;
+export type SuppressionReason = 'bounce' | 'complaint';
+
+export interface QueueEmailOptions {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  category?: string;
+  track?: boolean; // Record opens and clicks
+}
+
+export interface SendEmailResult {
+  success: boolean; // Sent, or queued for another attempt
+  emailId?: string;
+  messageId?: string;
+  queued?: boolean; // The first attempt failed and will be retried
+  error?: string;
+}
+
+export interface EmailWorkerResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+  cleaned: number;
+}
+
+function normalizeAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function retryDelay(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+}
+
+export async function isSuppressed(email: string): Promise<boolean> {
+  const [row] = await db
+    .select({ email: emailSuppressions.email })
+    .from(emailSuppressions)
+    .where(eq(emailSuppressions.email, normalizeAddress(email)))
+    .limit(1);
+  return Boolean(row);
+}
+
+/**
+ * Store an email for delivery. Suppressed recipients are recorded but never sent to.
+ */
+export async function enqueueEmail(options: QueueEmailOptions): Promise<OutboundEmail> {
+  const suppressed = await isSuppressed(options.to);
+  const [email] = await db
+    .insert(outboundEmails)
+    .values({
+      id: crypto.randomUUID(),
+      toAddress: options.to.trim(),
+      subject: options.subject,
+      html: suppressed ? '' : options.html,
+      text: suppressed ? null : options.text ?? null,
+      category: options.category ?? 'transactional',
+      tracked: options.track ?? false,
+      status: suppressed ? 'suppressed' : 'pending',
+      lastError: suppressed ? 'Recipient is suppressed after a bounce or complaint' : null,
+    })
+    .returning();
+  return email;
+}
+
+/**
+ * Queue an email and make the first attempt now. Used by sendEmail in lib/email-service.ts.
+ */
+export async function queueEmail(options: QueueEmailOptions): Promise<SendEmailResult> {
+  const queued = await enqueueEmail(options);
+  const email = queued.status === 'pending' ? await deliverEmail(queued.id) ?? queued : queued;
+
+  switch (email.status) {
+    case 'sent':
+      return { success: true, emailId: email.id, messageId: email.providerMessageId ?? undefined };
+    case 'pending':
+      return { success: true, emailId: email.id, queued: true, error: email.lastError ?? undefined };
+    default:
+      return { success: false, emailId: email.id, error: email.lastError ?? `Email ${email.status}` };
+  }
+}
+
+/**
+ * Take an email that's due for an attempt, so it isn't sent twice by overlapping workers
+ */
+async function claimEmail(id: string): Promise<OutboundEmail | undefined> {
+  const now = new Date();
+  const [row] = await db
+    .update(outboundEmails)
+    .set({
+      status: 'sending',
+      attempts: sql`${outboundEmails.attempts} + 1`,
+      leaseExpiresAt: new Date(now.getTime() + SEND_LEASE_MS),
+      updatedAt: now,
+    })
+    .where(and(
+      eq(outboundEmails.id, id),
+      inArray(outboundEmails.status, ['pending', 'sending']),
+      lte(outboundEmails.nextAttemptAt, now),
+      or(isNull(outboundEmails.leaseExpiresAt), lt(outboundEmails.leaseExpiresAt, now)),
+      lt(outboundEmails.attempts, outboundEmails.maxAttempts)
+    ))
+    .returning();
+  return row;
+}
+
+function isFinished(status: OutboundEmail['status'] | undefined): boolean {
+  return (FINISHED_STATUSES as readonly string[]).includes(status ?? '');
+}
+
+async function updateEmail(id: string, values: Partial<typeof outboundEmails.$inferInsert>): Promise<OutboundEmail | undefined> {
+  // Nothing reads the body again once the email is finished
+  const body = isFinished(values.status) ? { html: '', text: null } : {};
+  const [row] = await db
+    .update(outboundEmails)
+    .set({ ...values, ...body, updatedAt: new Date() })
+    .where(eq(outboundEmails.id, id))
+    .returning();
+
+  // Reminder emails mirror their delivery status
+  if (row && values.status) {
+    await db
+      .update(educatorReminderEmails)
+      .set({ deliveryStatus: row.status })
+      .where(eq(educatorReminderEmails.outboundEmailId, id));
+  }
+  return row;
+}
+
+/**
+ * Make one delivery attempt. Returns the email as it stands afterwards, or undefined if
+ * it doesn't exist.
+ */
+export async function deliverEmail(id: string): Promise<OutboundEmail | undefined> {
+  const email = await claimEmail(id);
+  if (!email) {
+    const [current] = await db.select().from(outboundEmails).where(eq(outboundEmails.id, id)).limit(1);
+    return current;
+  }
+
+  if (await isSuppressed(email.toAddress)) {
+    return updateEmail(email.id, {
+      status: 'suppressed',
+      leaseExpiresAt: null,
+      lastError: 'Recipient is suppressed after a bounce or complaint',
+    });
+  }
+
+  const provider = getEmailProvider();
+  try {
+    if (!provider) {
+      throw new EmailDeliveryError('Email delivery is not configured (set SMTP_HOST, SMTP_USER and SMTP_PASS)');
+    }
+
+    const { messageId } = await provider.send({
+      id: email.id,
+      from: branding.getEmailFromHeader(),
+      to: email.toAddress,
+      subject: email.subject,
+      html: email.tracked ? addTracking(email.html, email.id) : email.html,
+      text: email.text,
+    });
+
+    return updateEmail(email.id, {
+      status: 'sent',
+      provider: provider.name,
+      providerMessageId: messageId,
+      sentAt: new Date(),
+      leaseExpiresAt: null,
+      lastError: null,
+    });
+  } catch (error) {
+    const failure = error instanceof EmailDeliveryError
+      ? error
+      : new EmailDeliveryError(error instanceof Error ? error.message : 'Failed to send email');
+    logger.error('Email delivery attempt failed', {
+      emailId: email.id,
+      attempt: email.attempts,
+      kind: failure.kind,
+      error: failure.message,
+    });
+
+    if (failure.kind === 'bounce') {
+      await suppressAddress(email.toAddress, 'bounce', failure.message, email.id);
+      return updateEmail(email.id, {
+        status: 'bounced',
+        bouncedAt: new Date(),
+        leaseExpiresAt: null,
+        lastError: failure.message,
+      });
+    }
+
+    if (failure.kind === 'retryable' && email.attempts < email.maxAttempts) {
+      return updateEmail(email.id, {
+        status: 'pending',
+        nextAttemptAt: new Date(Date.now() + retryDelay(email.attempts)),
+        leaseExpiresAt: null,
+        lastError: failure.message,
+      });
+    }
+
+    return updateEmail(email.id, {
+      status: 'failed',
+      leaseExpiresAt: null,
+      lastError: failure.message,
+    });
+  }
+}
+
+/**
+ * Retry emails that are due, and remove finished ones past the retention period
+ */
+export async function runEmailWorker(): Promise<EmailWorkerResult> {
+  const result: EmailWorkerResult = { sent: 0, retrying: 0, failed: 0, cleaned: 0 };
+  const now = new Date();
+
+  const due = await db
+    .select({ id: outboundEmails.id })
+    .from(outboundEmails)
+    .where(and(
+      inArray(outboundEmails.status, ['pending', 'sending']),
+      lte(outboundEmails.nextAttemptAt, now),
+      or(isNull(outboundEmails.leaseExpiresAt), lt(outboundEmails.leaseExpiresAt, now))
+    ))
+    .orderBy(asc(outboundEmails.nextAttemptAt))
+    .limit(WORKER_BATCH_SIZE);
+
+  for (const { id } of due) {
+    try {
+      const email = await deliverEmail(id);
+      if (email?.status === 'sent') result.sent++;
+      else if (email?.status === 'pending') result.retrying++;
+      else if (email?.status === 'sending' && email.attempts >= email.maxAttempts) {
+        // Its last attempt was cut off mid-send, so there's nothing left to retry
+        await updateEmail(id, { status: 'failed', leaseExpiresAt: null, lastError: email.lastError ?? 'Delivery timed out' });
+        result.failed++;
+      } else if (email && isFinished(email.status)) result.failed++;
+    } catch (error) {
+      logger.error(`Error delivering email ${id}:`, error);
+    }
+  }
+
+  // Finished emails from before bodies were cleared on completion
+  await db
+    .update(outboundEmails)
+    .set({ html: '', text: null })
+    .where(and(inArray(outboundEmails.status, [...FINISHED_STATUSES]), ne(outboundEmails.html, '')));
+
+  const cleaned = await db
+    .delete(outboundEmails)
+    .where(and(
+      inArray(outboundEmails.status, [...FINISHED_STATUSES]),
+      lt(outboundEmails.updatedAt, new Date(now.getTime() - RETENTION_MS))
+    ))
+    .returning({ id: outboundEmails.id });
+  result.cleaned = cleaned.length;
+
+  return result;
+}
+
+/**
+ * Stop sending to an address. Earlier suppressions are kept as they were.
+ */
+export async function suppressAddress(
+  email: string,
+  reason: SuppressionReason,
+  detail?: string | null,
+  outboundEmailId?: string | null
+): Promise<void> {
+  await db
+    .insert(emailSuppressions)
+    .values({
+      email: normalizeAddress(email),
+      reason,
+      detail: detail ?? null,
+      outboundEmailId: outboundEmailId ?? null,
+    })
+    .onConflictDoNothing();
+  logger.warn('Email address suppressed', { reason, outboundEmailId });
+}
+
+/**
+ * A bounce or complaint reported by the provider after the email was accepted.
+ * Matched to the email by provider message id when given, otherwise to the latest one sent
+ * to the address.
+ */
+export async function recordDeliveryFailure(options: {
+  type: SuppressionReason;
+  email: string;
+  messageId?: string | null;
+  permanent?: boolean; // Soft (temporary) bounces don't suppress the address
+  detail?: string | null;
+}): Promise<OutboundEmail | undefined> {
+  const [email] = await db
+    .select()
+    .from(outboundEmails)
+    .where(options.messageId
+      ? eq(outboundEmails.providerMessageId, options.messageId)
+      : sql`lower(${outboundEmails.toAddress}) = ${normalizeAddress(options.email)}`)
+    .orderBy(sql`${outboundEmails.sentAt} desc nulls last`)
+    .limit(1);
+
+  const suppress = options.type === 'complaint' || options.permanent !== false;
+  if (suppress) {
+    await suppressAddress(options.email, options.type, options.detail, email?.id);
+  }
+  if (!email) return undefined;
+
+  if (options.type === 'complaint') {
+    return updateEmail(email.id, { lastError: options.detail ?? 'Marked as spam by the recipient' });
+  }
+  return updateEmail(email.id, {
+    status: 'bounced',
+    bouncedAt: new Date(),
+    lastError: options.detail ?? (suppress ? 'Hard bounce' : 'Soft bounce'),
+  });
+}
+
+// Open and click tracking
+
+function trackingBaseUrl(): string | null {
+  return process.env.NEXT_PUBLIC_APP_URL?.replace(/\/$/, '') || null;
+}
+
+function trackingSecret(): string | null {
+  return process.env.EMAIL_TRACKING_SECRET || process.env.BETTER_AUTH_SECRET || null;
+}
+
+/**
+ * Signature binding a click-through link to its email, so the redirect can't be used
+ * to send people to arbitrary sites
+ */
+export function signTrackedLink(emailId: string, url: string): string | null {
+  const secret = trackingSecret();
+  if (!secret) return null;
+  return crypto.createHmac('sha256', secret).update(`${emailId}:${url}`).digest('base64url');
+}
+
+export function verifyTrackedLink(emailId: string, url: string, signature: string | null): boolean {
+  const expected = signTrackedLink(emailId, url);
+  if (!expected || !signature || expected.length !== signature.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+/**
+ * Route links through the click endpoint and add an open pixel. Left unchanged when the
+ * app URL isn't configured.
+ */
+function addTracking(html: string, emailId: string): string {
+  const base = trackingBaseUrl();
+  if (!base) return html;
+
+  const tracked = html.replace(/href="(https?:\/\/[^"]+)"/g, (match, href: string) => {
+    const url = href.replace(/&amp;/g, '&');
+    const signature = signTrackedLink(emailId, url);
+    if (!signature) return match;
+    return `href="${base}/api/email/click/${emailId}?url=${encodeURIComponent(url)}&sig=${signature}"`;
+  });
+
+  const pixel = `<img src="${base}/api/email/open/${emailId}" width="1" height="1" alt="" style="display:block;border:0;" />`;
+  return tracked.includes('</body>') ? tracked.replace('</body>', `${pixel}</body>`) : tracked + pixel;
+}
+
+/**
+ * First open of a tracked email; later opens are ignored
+ */
+export async function recordEmailOpen(emailId: string): Promise<void> {
+  const now = new Date();
+  const [email] = await db
+    .update(outboundEmails)
+    .set({ openedAt: now })
+    .where(and(eq(outboundEmails.id, emailId), eq(outboundEmails.tracked, true), isNull(outboundEmails.openedAt)))
+    .returning({ id: outboundEmails.id });
+  if (!email) return;
+
+  await db
+    .update(educatorReminderEmails)
+    .set({ openedAt: now })
+    .where(and(eq(educatorReminderEmails.outboundEmailId, emailId), isNull(educatorReminderEmails.openedAt)));
+}
+
+/**
+ * First click in a tracked email. A click also counts as an open, for clients that block images.
+ */
+export async function recordEmailClick(emailId: string): Promise<void> {
+  const now = new Date();
+  const [email] = await db
+    .update(outboundEmails)
+    .set({ clickedAt: now, openedAt: sql`coalesce(${outboundEmails.openedAt}, ${now})` })
+    .where(and(eq(outboundEmails.id, emailId), eq(outboundEmails.tracked, true), isNull(outboundEmails.clickedAt)))
+    .returning({ id: outboundEmails.id });
+  if (!email) return;
+
+  await db
+    .update(educatorReminderEmails)
+    .set({ clickedAt: now, openedAt: sql`coalesce(${educatorReminderEmails.openedAt}, ${now})` })
+    .where(and(eq(educatorReminderEmails.outboundEmailId, emailId), isNull(educatorReminderEmails.clickedAt)));
+}
@@ -0,0 +1,1443 @@
+// The built-in email templates. Admins can edit them per language (lib/email-templates.ts);
+// these are what every template starts from and what it goes back to when reset.
+//
+// Templates use {{variable}} for values and {{#variable}}...{{/variable}} /
+// {{^variable}}...{{/variable}} for text shown only when a value is set / not set.
+// Branding ({{appName}}, {{tagline}}, {{supportEmail}}, {{appUrl}}, {{copyright}},
+// {{emailFooter}}) is available in every template.
+
+export const EMAIL_TEMPLATE_KEYS = [
+  'newUserInvitation',
+  'existingUserInvitation',
+  'studentAddedNotification',
+  'quizEnrollmentNotification',
+  'quizReassignmentNotification',
+  'quizStartingReminder',
+  'quizResultsAvailable',
+  'studentNotificationDigest',
+  'otpVerification',
+  'educatorSignupPending',
+  'educatorApprovalNotification',
+  'educatorRejectionNotification',
+  'educatorReminderEmail',
+  'passwordReset',
+] as const;
+
+export type EmailTemplateKey = typeof EMAIL_TEMPLATE_KEYS[number];
+
+export type EmailTemplateValue = string | number | boolean | Date | null | undefined;
+
+export interface EmailTemplateContent {
+  subject: string;
+  header: string; // HTML, inside the coloured banner
+  body: string; // HTML
+  footer: string; // HTML
+  text: string; // Plain-text alternative
+}
+
+export interface EmailTemplateVariable {
+  name: string;
+  description: string;
+  sample: EmailTemplateValue; // Used for previews and test sends
+}
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  localized: boolean; // Sent in the recipient's email language, so it can have a version per language
+  variables: EmailTemplateVariable[];
+  content: EmailTemplateContent;
+}
+
+export function isEmailTemplateKey(value: unknown): value is EmailTemplateKey {
+  return typeof value === 'string' && (EMAIL_TEMPLATE_KEYS as readonly string[]).includes(value);
+}
+
+const SAMPLE_QUIZ_URL = 'https://example.com/s/AB12CD';
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  newUserInvitation: {
+    key: 'newUserInvitation',
+    name: 'Invitation (new user)',
+    description: 'Sent when an educator invites someone who does not have an account yet',
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the inviting educator', sample: 'Sarah Thomas' },
+      { name: 'invitationUrl', description: 'Link to accept the invitation and sign up', sample: 'https://example.com/auth/signup?invitation=abc123' },
+      { name: 'quizTitle', description: 'Quiz the invitation is for, if any', sample: 'The Gospel of John' },
+    ],
+    content: {
+      subject: `{{#quizTitle}}{{educatorName}} invited you to take "{{quizTitle}}" on {{appName}}{{/quizTitle}}{{^quizTitle}}{{educatorName}} invited you to join {{appName}} - {{tagline}}{{/quizTitle}}`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">📜 Welcome to {{appName}}!</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">{{tagline}} Awaits</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 24px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">✨ You've Been Blessed with an Invitation!</h2>
+      <p style="color: #451a03; margin: 15px 0;">Peace be with you,</p>
+      <p style="color: #451a03; margin: 15px 0;"><strong style="color: #92400e;">{{educatorName}}</strong> has invited you to embark on a spiritual journey through {{appName}}{{#quizTitle}}, beginning with the quiz: "<strong style="color: #92400e;">{{quizTitle}}</strong>"{{/quizTitle}}.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"Study to shew thyself approved unto God, a workman that needeth not to be ashamed, rightly dividing the word of truth." - 2 Timothy 2:15</p>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #451a03; margin: 15px 0;">{{appName}} is a sacred space for biblical education where devoted educators guide students through the treasures of Scripture, helping them grow in knowledge and faith.</p>
+
+      <p style="color: #451a03; margin: 15px 0;"><strong>Your journey begins with these simple steps:</strong></p>
+      <ol style="color: #78350f; margin: 15px 0;">
+        <li>Click the golden button below to create your blessed account</li>
+        <li>Complete your profile with care and reverence</li>
+        <li>Begin your quest for biblical wisdom through interactive quizzes</li>
+      </ol>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{invitationUrl}}" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">🕊️ Accept Your Calling & Begin</a>
+      </div>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 10px; border-radius: 4px;">
+            <p style="margin: 0; color: #92400e; font-size: 14px;">
+              <strong>Or copy and paste this sacred link into your browser:</strong><br>
+              <span style="color: #78350f; word-break: break-all;">{{invitationUrl}}</span>
+            </p>
+          </td>
+        </tr>
+      </table>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <p style="text-align: center; color: #b45309; font-style: italic;"><em>⏰ This divine invitation expires in 7 days.</em></p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">📖 "Thy word is a lamp unto my feet, and a light unto my path." - Psalm 119:105</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">Dedicated to spreading God's Word with love and wisdom</p>
+      `,
+      text: `
+{{educatorName}} invited you to join {{appName}}{{#quizTitle}} and take "{{quizTitle}}"{{/quizTitle}}!
+
+"Study to shew thyself approved unto God" - 2 Timothy 2:15
+
+To accept this invitation and create your account, visit:
+{{invitationUrl}}
+
+This invitation expires in 7 days.
+
+{{emailFooter}}
+Empowering biblical education with love and wisdom
+      `,
+    },
+  },
+
+  existingUserInvitation: {
+    key: 'existingUserInvitation',
+    name: 'Invitation (existing student)',
+    description: 'Sent when an educator invites a student who already has an account to a quiz',
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the inviting educator', sample: 'Sarah Thomas' },
+      { name: 'studentName', description: 'Name of the student', sample: 'David Mathew' },
+      { name: 'quizTitle', description: 'Title of the quiz', sample: 'The Gospel of John' },
+      { name: 'quizUrl', description: 'Link to the quiz', sample: SAMPLE_QUIZ_URL },
+    ],
+    content: {
+      subject: `📜 New Biblical Quest: "{{quizTitle}}" awaits you!`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">📚 New Scripture Challenge!</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Test Your Biblical Knowledge</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Blessings, {{studentName}}!</h2>
+      <p style="color: #451a03; margin: 15px 0;">Your spiritual guide, <strong style="color: #92400e;">{{educatorName}}</strong>, has prepared a new quest for you on {{appName}}.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0; background-color: #fff; border-radius: 4px; border: 1px solid #fed7aa;">
+        <tr>
+          <td style="padding: 20px;">
+            <h3 style="margin-top: 0; color: #92400e; font-family: Georgia, 'Times New Roman', serif;">📖 {{quizTitle}}</h3>
+            <p style="color: #78350f; font-weight: 500; margin: 10px 0;">Your educator has lovingly crafted this quiz to deepen your understanding of God's Word.</p>
+            <p style="color: #451a03; margin: 15px 0;"><strong>This sacred journey will help you:</strong></p>
+            <ul style="color: #78350f; margin: 10px 0;">
+              <li>Test your knowledge of Scripture at your own pace</li>
+              <li>Discover deeper meanings through detailed explanations</li>
+              <li>Track your spiritual growth and biblical understanding</li>
+              <li>Strengthen your foundation in God's Word</li>
+            </ul>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"All Scripture is given by inspiration of God, and is profitable for doctrine, for reproof, for correction, for instruction in righteousness." - 2 Timothy 3:16</p>
+          </td>
+        </tr>
+      </table>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{quizUrl}}" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">⚔️ Begin Your Quest Now</a>
+      </div>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 10px; border-radius: 4px;">
+            <p style="margin: 0; color: #92400e; font-size: 14px;">
+              <strong>Or copy and paste this sacred link into your browser:</strong><br>
+              <span style="color: #78350f; word-break: break-all;">{{quizUrl}}</span>
+            </p>
+          </td>
+        </tr>
+      </table>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <p style="text-align: center; color: #b45309; font-style: italic;">
+        "Iron sharpeneth iron; so a man sharpeneth the countenance of his friend." - Proverbs 27:17
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">🕊️ May wisdom and understanding guide your path</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">Growing in faith, one scripture at a time</p>
+      `,
+      text: `
+Blessings, {{studentName}}!
+
+{{educatorName}} has assigned you a new biblical quest: "{{quizTitle}}"
+
+"All Scripture is given by inspiration of God" - 2 Timothy 3:16
+
+To begin your quest, visit:
+{{quizUrl}}
+
+Log in to your {{appName}} account to get started.
+
+May wisdom and understanding guide your path.
+
+{{emailFooter}}
+Growing in faith, one scripture at a time
+      `,
+    },
+  },
+
+  studentAddedNotification: {
+    key: 'studentAddedNotification',
+    name: 'Student added',
+    description: "Sent when an educator adds an existing student to their study circle",
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the educator', sample: 'Sarah Thomas' },
+      { name: 'studentName', description: 'Name of the student', sample: 'David Mathew' },
+    ],
+    content: {
+      subject: `🕊️ Welcome to {{educatorName}}'s Biblical Study Circle`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">👋 Welcome to the Fellowship!</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Your Biblical Learning Community Awaits</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Greetings in Christ, {{studentName}}!</h2>
+      <p style="color: #451a03; margin: 15px 0;">Wonderful news! <strong style="color: #92400e;">{{educatorName}}</strong> has welcomed you into their biblical study circle on {{appName}}.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"For where two or three are gathered together in my name, there am I in the midst of them." - Matthew 18:20</p>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fff; border-left: 4px solid #d97706; border-radius: 4px; padding: 20px;">
+            <p style="margin: 0; color: #451a03;"><strong>As part of this blessed fellowship, you will:</strong></p>
+            <ul style="color: #78350f; margin: 10px 0 0 0;">
+              <li>📖 Receive carefully crafted biblical quizzes from your educator</li>
+              <li>📈 Track your spiritual growth and scriptural understanding</li>
+              <li>🎯 Access personalized guidance in your faith journey</li>
+              <li>🤝 Join a community of believers seeking wisdom together</li>
+            </ul>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #78350f; margin: 15px 0;">Your educator will guide you through the treasures of Scripture with wisdom and care. Watch for upcoming quizzes that will challenge and strengthen your faith.</p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{appUrl}}/student/dashboard" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">🏠 Enter Your Study Hall</a>
+      </div>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <p style="text-align: center; color: #b45309; font-style: italic;">
+        "Let us consider how to stir up one another to love and good works" - Hebrews 10:24
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">✝️ Walking together in faith and knowledge</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">United in Christ, growing in wisdom</p>
+      `,
+      text: `
+Greetings in Christ, {{studentName}}!
+
+{{educatorName}} has welcomed you into their biblical study circle on {{appName}}.
+
+"For where two or three are gathered together in my name, there am I in the midst of them." - Matthew 18:20
+
+You'll now receive quiz assignments and can track your spiritual growth in biblical studies.
+
+Visit your study hall: {{appUrl}}/student/dashboard
+
+Walking together in faith and knowledge.
+
+{{emailFooter}}
+United in Christ, growing in wisdom
+      `,
+    },
+  },
+
+  quizEnrollmentNotification: {
+    key: 'quizEnrollmentNotification',
+    name: 'Quiz enrollment',
+    description: 'Sent to each student enrolled in a quiz, individually or through a group',
+    localized: true,
+    variables: [
+      { name: 'studentName', description: 'Name of the student', sample: 'David Mathew' },
+      { name: 'educatorName', description: 'Name of the educator who enrolled them', sample: 'Sarah Thomas' },
+      { name: 'quizTitle', description: 'Title of the quiz', sample: 'The Gospel of John' },
+      { name: 'quizDescription', description: 'Description of the quiz, if any', sample: 'Chapters 1-7: signs and discourses' },
+      { name: 'questionCount', description: 'Number of questions', sample: 20 },
+      { name: 'duration', description: 'Time allowed, in minutes', sample: 30 },
+      { name: 'startTime', description: "Start time in the student's timezone, if scheduled", sample: new Date('2026-03-14T10:00:00Z') },
+      { name: 'groupName', description: 'Group the quiz was assigned to, for group enrollments', sample: 'Berean' },
+      { name: 'quizUrl', description: 'Link to the quiz, or to the student dashboard', sample: SAMPLE_QUIZ_URL },
+      { name: 'hasQuizLink', description: 'Whether quizUrl opens the quiz itself', sample: true },
+    ],
+    content: {
+      subject: `📜 New Biblical Quest: "{{quizTitle}}" Awaits You!`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">📖 Sacred Quest Assignment</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">A New Biblical Challenge Awaits</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Blessed Greetings, {{studentName}}!</h2>
+
+      <p style="color: #451a03; margin: 15px 0;">Your spiritual guide, <strong style="color: #92400e;">{{educatorName}}</strong>, has lovingly prepared a new quest to deepen your understanding of God's Word.</p>
+      {{#groupName}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 15px 0;">
+        <tr>
+          <td align="center">
+            <table cellpadding="0" cellspacing="0" border="0">
+              <tr>
+                <td bgcolor="#f59e0b" style="background-color: #f59e0b; color: white; padding: 6px 12px; border-radius: 20px; font-size: 14px; font-weight: bold;">
+                  🕊️ Assigned to: {{groupName}} Fellowship
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+      {{/groupName}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0; background-color: #fff; border-radius: 4px; border: 1px solid #fed7aa;">
+        <tr>
+          <td style="padding: 20px; background-color: #fff;">
+            <h3 style="margin-top: 0; color: #92400e; font-family: Georgia, 'Times New Roman', serif; font-size: 20px;">📜 {{quizTitle}}</h3>
+            {{#quizDescription}}<p style="color: #78350f; margin: 10px 0;">{{quizDescription}}</p>{{/quizDescription}}
+
+            <table cellpadding="0" cellspacing="0" border="0" width="100%">
+              <tr>
+                <td style="padding: 8px 0; border-bottom: 1px solid #fed7aa;">
+                  <table cellpadding="0" cellspacing="0" border="0" width="100%">
+                    <tr>
+                      <td style="font-weight: bold; color: #78350f;">📊 Number of Questions:</td>
+                      <td align="right" style="color: #92400e;">{{questionCount}}</td>
+                    </tr>
+                  </table>
+                </td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; border-bottom: 1px solid #fed7aa;">
+                  <table cellpadding="0" cellspacing="0" border="0" width="100%">
+                    <tr>
+                      <td style="font-weight: bold; color: #78350f;">⏱️ Duration:</td>
+                      <td align="right" style="color: #92400e;">{{duration}} minutes</td>
+                    </tr>
+                  </table>
+                </td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; border-bottom: 1px solid #fed7aa;">
+                  <table cellpadding="0" cellspacing="0" border="0" width="100%">
+                    <tr>
+                      <td style="font-weight: bold; color: #78350f;">📅 Start Time:</td>
+                      <td align="right" style="color: #92400e;">{{#startTime}}{{startTime}}{{/startTime}}{{^startTime}}To be announced{{/startTime}}</td>
+                    </tr>
+                  </table>
+                </td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0;">
+                  <table cellpadding="0" cellspacing="0" border="0" width="100%">
+                    <tr>
+                      <td style="font-weight: bold; color: #78350f;">🎯 Enrolled by:</td>
+                      <td align="right" style="color: #92400e;">{{educatorName}}</td>
+                    </tr>
+                  </table>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"Study to shew thyself approved unto God, a workman that needeth not to be ashamed, rightly dividing the word of truth." - 2 Timothy 2:15</p>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #78350f; margin: 15px 0;">This sacred assessment will be available in your study hall when the appointed time arrives. Prepare your heart and mind for this blessed opportunity to demonstrate your growing wisdom in Scripture.</p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{quizUrl}}" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">📚 {{#hasQuizLink}}Take Quiz Now{{/hasQuizLink}}{{^hasQuizLink}}Visit Your Study Hall{{/hasQuizLink}}</a>
+      </div>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 10px; border-radius: 4px;">
+            <p style="margin: 0; color: #92400e; font-size: 14px;">
+              <strong>Or copy and paste this link into your browser:</strong><br>
+              <span style="color: #78350f; word-break: break-all;">{{quizUrl}}</span>
+            </p>
+          </td>
+        </tr>
+      </table>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <p style="text-align: center; color: #b45309; font-style: italic;">
+        "Let the word of Christ dwell in you richly in all wisdom" - Colossians 3:16
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">✝️ May your studies be blessed with divine understanding</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">Growing in faith through sacred learning</p>
+      `,
+      text: `
+Blessed Greetings, {{studentName}}!
+
+Your spiritual guide, {{educatorName}}, has lovingly prepared a new quest: "{{quizTitle}}"
+
+{{#groupName}}Assigned to: {{groupName}} Fellowship{{/groupName}}
+
+{{#quizDescription}}{{quizDescription}}{{/quizDescription}}
+
+Quest Details:
+- Number of Questions: {{questionCount}}
+- Duration: {{duration}} minutes
+- Start Time: {{#startTime}}{{startTime}}{{/startTime}}{{^startTime}}To be announced{{/startTime}}
+- Enrolled by: {{educatorName}}
+
+"Study to shew thyself approved unto God" - 2 Timothy 2:15
+
+Access the quiz:
+{{quizUrl}}
+
+May your studies be blessed with divine understanding.
+
+{{emailFooter}}
+Growing in faith through sacred learning
+      `,
+    },
+  },
+
+  quizReassignmentNotification: {
+    key: 'quizReassignmentNotification',
+    name: 'Quiz reassignment',
+    description: 'Sent when an educator gives a student another attempt at a quiz',
+    localized: true,
+    variables: [
+      { name: 'studentName', description: 'Name of the student', sample: 'David Mathew' },
+      { name: 'educatorName', description: 'Name of the educator', sample: 'Sarah Thomas' },
+      { name: 'quizTitle', description: 'Title of the quiz', sample: 'The Gospel of John' },
+      { name: 'reason', description: 'Reason the educator gave', sample: 'Missed the original session' },
+      { name: 'newDeadline', description: "New completion time in the student's timezone, if set", sample: new Date('2026-03-21T18:00:00Z') },
+      { name: 'questionCount', description: 'Number of questions', sample: 20 },
+      { name: 'duration', description: 'Time allowed, in minutes', sample: 30 },
+      { name: 'quizUrl', description: 'Link to the quiz, or to the student dashboard', sample: SAMPLE_QUIZ_URL },
+      { name: 'hasQuizLink', description: 'Whether quizUrl opens the quiz itself', sample: true },
+    ],
+    content: {
+      subject: `🔄 Sacred Quest Renewed: "{{quizTitle}}" - A Second Blessing`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">🕊️ Grace Extended</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">A New Opportunity Awaits</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Beloved {{studentName}},</h2>
+
+      <p style="color: #451a03; margin: 15px 0;">Good news! Your spiritual mentor, <strong style="color: #92400e;">{{educatorName}}</strong>, has graciously granted you another opportunity to complete the sacred quest.</p>
+
+      <h3 style="color: #92400e; margin-top: 20px; font-family: Georgia, 'Times New Roman', serif;">📜 {{quizTitle}}</h3>
+      {{#questionCount}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 15px 0; background-color: #fff; border-radius: 8px; border: 1px solid #fed7aa;">
+        <tr>
+          <td style="padding: 15px;">
+            <p style="margin: 0 0 10px 0; color: #78350f; font-weight: bold;">Quiz Details:</p>
+            <p style="margin: 5px 0; color: #92400e;">📚 Questions: {{questionCount}}</p>
+            {{#duration}}<p style="margin: 5px 0; color: #92400e;">⏱️ Duration: {{duration}} minutes</p>{{/duration}}
+          </td>
+        </tr>
+      </table>
+      {{/questionCount}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 15px; border-left: 4px solid #f59e0b; border-radius: 4px;">
+            <p style="margin: 0; color: #78350f;"><strong>Reason for this blessing:</strong></p>
+            <p style="margin: 5px 0 0 0; color: #92400e;">{{reason}}</p>
+          </td>
+        </tr>
+      </table>
+      {{#newDeadline}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 15px; border-left: 4px solid #f59e0b; border-radius: 4px;">
+            <p style="margin: 0; color: #78350f;"><strong>⏰ New Completion Time:</strong></p>
+            <p style="margin: 5px 0 0 0; color: #92400e;">{{newDeadline}}</p>
+          </td>
+        </tr>
+      </table>
+      {{/newDeadline}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"The Lord is gracious and compassionate, slow to anger and rich in love." - Psalm 145:8</p>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #78350f; margin: 15px 0;">This renewed quest offers you a fresh opportunity to demonstrate your growing understanding of Scripture. The questions will be presented in a different order, providing a new perspective on the sacred material.</p>
+
+      <p style="color: #78350f; font-weight: bold; margin: 15px 0;">Remember: Each attempt is a chance to grow stronger in faith and wisdom.</p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{quizUrl}}" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">🎯 {{#hasQuizLink}}Begin Your Renewed Quest{{/hasQuizLink}}{{^hasQuizLink}}Go to Your Dashboard{{/hasQuizLink}}</a>
+      </div>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 10px; border-radius: 4px;">
+            <p style="margin: 0; color: #92400e; font-size: 14px;">
+              <strong>Or copy and paste this link into your browser:</strong><br>
+              <span style="color: #78350f; word-break: break-all;">{{quizUrl}}</span>
+            </p>
+          </td>
+        </tr>
+      </table>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <p style="text-align: center; color: #b45309; font-style: italic; margin: 15px 0;">
+        "His mercies are new every morning; great is thy faithfulness." - Lamentations 3:23
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">✝️ Walking in grace and second chances</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">Every attempt brings you closer to wisdom</p>
+      `,
+      text: `
+Beloved {{studentName}},
+
+Good news! {{educatorName}} has graciously granted you another opportunity to complete: "{{quizTitle}}"
+
+{{#questionCount}}Questions: {{questionCount}}{{/questionCount}}
+{{#duration}}Duration: {{duration}} minutes{{/duration}}
+
+Reason for this blessing: {{reason}}
+
+{{#newDeadline}}New Completion Time: {{newDeadline}}{{/newDeadline}}
+
+"The Lord is gracious and compassionate, slow to anger and rich in love." - Psalm 145:8
+
+This renewed quest offers a fresh opportunity to demonstrate your biblical understanding.
+
+Begin your renewed quest at:
+{{quizUrl}}
+
+Walking in grace and second chances.
+
+{{emailFooter}}
+Every attempt brings you closer to wisdom
+      `,
+    },
+  },
+
+  quizStartingReminder: {
+    key: 'quizStartingReminder',
+    name: 'Quiz starting soon',
+    description: 'Sent to enrolled students about an hour before a scheduled quiz starts',
+    localized: true,
+    variables: [
+      { name: 'studentName', description: 'Name of the student', sample: 'David Mathew' },
+      { name: 'quizTitle', description: 'Title of the quiz', sample: 'The Gospel of John' },
+      { name: 'startTime', description: "Start time in the student's timezone", sample: new Date('2026-03-14T10:00:00Z') },
+      { name: 'questionCount', description: 'Number of questions', sample: 20 },
+      { name: 'duration', description: 'Time allowed, in minutes', sample: 30 },
+      { name: 'quizUrl', description: 'Link to the quiz', sample: 'https://example.com/student/quiz/abc123' },
+    ],
+    content: {
+      subject: `⏰ "{{quizTitle}}" begins within the hour`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">⏰ Your Quest Begins Soon</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Prepare Your Heart and Mind</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Peace be with you, {{studentName}}!</h2>
+
+      <p style="color: #451a03; margin: 15px 0;">Your quest "<strong style="color: #92400e;">{{quizTitle}}</strong>" starts at <strong style="color: #92400e;">{{startTime}}</strong>.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 15px 0; background-color: #fff; border-radius: 8px; border: 1px solid #fed7aa;">
+        <tr>
+          <td style="padding: 15px;">
+            <p style="margin: 0 0 10px 0; color: #78350f; font-weight: bold;">Quiz Details:</p>
+            <p style="margin: 5px 0; color: #92400e;">📚 Questions: {{questionCount}}</p>
+            <p style="margin: 5px 0; color: #92400e;">⏱️ Duration: {{duration}} minutes</p>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"Be ready in season and out of season" - 2 Timothy 4:2</p>
+          </td>
+        </tr>
+      </table>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{quizUrl}}" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">🎯 Open Your Quest</a>
+      </div>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">You can change which reminders you receive in your notification settings</p>
+      `,
+      text: `
+Peace be with you, {{studentName}}!
+
+Your quest "{{quizTitle}}" starts at {{startTime}}.
+
+Questions: {{questionCount}}
+Duration: {{duration}} minutes
+
+"Be ready in season and out of season" - 2 Timothy 4:2
+
+Open your quest at:
+{{quizUrl}}
+
+{{emailFooter}}
+You can change which reminders you receive in your notification settings
+      `,
+    },
+  },
+
+  quizResultsAvailable: {
+    key: 'quizResultsAvailable',
+    name: 'Quiz results available',
+    description: "Sent once a student's exam results can be viewed, when the quiz time is up",
+    localized: true,
+    variables: [
+      { name: 'studentName', description: 'Name of the student', sample: 'David Mathew' },
+      { name: 'quizTitle', description: 'Title of the quiz', sample: 'The Gospel of John' },
+      { name: 'score', description: 'Score, as a percentage', sample: 85 },
+      { name: 'resultsUrl', description: 'Link to the results page', sample: 'https://example.com/student/results/abc123' },
+    ],
+    content: {
+      subject: `📜 Your results for "{{quizTitle}}" are ready`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">📜 Your Results Await</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Reflect on Your Journey</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Blessed Greetings, {{studentName}}!</h2>
+
+      <p style="color: #451a03; margin: 15px 0;">Your attempt at "<strong style="color: #92400e;">{{quizTitle}}</strong>" has been submitted and graded.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 15px; border-left: 4px solid #f59e0b; border-radius: 4px; text-align: center;">
+            <p style="margin: 0; color: #78350f;"><strong>Your Score</strong></p>
+            <p style="margin: 5px 0 0 0; color: #92400e; font-size: 28px; font-weight: bold;">{{score}}%</p>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #78350f; margin: 15px 0;">Review each answer, with explanations and references, to see where you've grown and what to study next.</p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{resultsUrl}}" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">📖 View Your Results</a>
+      </div>
+
+      <p style="text-align: center; color: #b45309; font-style: italic; margin: 15px 0;">
+        "Examine yourselves, whether ye be in the faith" - 2 Corinthians 13:5
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">You can change which emails you receive in your notification settings</p>
+      `,
+      text: `
+Blessed Greetings, {{studentName}}!
+
+Your attempt at "{{quizTitle}}" has been submitted and graded.
+
+Your Score: {{score}}%
+
+View your results at:
+{{resultsUrl}}
+
+"Examine yourselves, whether ye be in the faith" - 2 Corinthians 13:5
+
+{{emailFooter}}
+You can change which emails you receive in your notification settings
+      `,
+    },
+  },
+
+  studentNotificationDigest: {
+    key: 'studentNotificationDigest',
+    name: 'Daily notification digest',
+    description: "Once a day, a summary of a student's unread notifications, for students who turned the digest on",
+    localized: true,
+    variables: [
+      { name: 'studentName', description: 'Name of the student', sample: 'David Mathew' },
+      { name: 'notificationCount', description: 'Number of unread notifications', sample: 4 },
+      { name: 'assignedCount', description: 'New quizzes assigned to the student', sample: 2 },
+      { name: 'groupCount', description: "Quizzes assigned to the student's groups", sample: 0 },
+      { name: 'reassignedCount', description: 'Quizzes reopened for another attempt', sample: 1 },
+      { name: 'startingCount', description: 'Quizzes that started or are about to', sample: 0 },
+      { name: 'resultsCount', description: 'New results to review', sample: 1 },
+      { name: 'latestTitle', description: 'Title of the most recent notification', sample: 'New quiz: The Gospel of John' },
+      { name: 'inboxUrl', description: 'Link to the notification inbox', sample: 'https://example.com/student/notifications' },
+    ],
+    content: {
+      subject: `🕊️ Your daily summary: {{notificationCount}} new notification(s)`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">🕊️ Your Daily Summary</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">What's Waiting in Your Inbox</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Grace and peace, {{studentName}}!</h2>
+
+      <p style="color: #451a03; margin: 15px 0;">You have <strong style="color: #92400e;">{{notificationCount}}</strong> unread notification(s). The latest: "<strong style="color: #92400e;">{{latestTitle}}</strong>"</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 15px 0; background-color: #fff; border-radius: 8px; border: 1px solid #fed7aa;">
+        <tr>
+          <td style="padding: 15px;">
+            {{#assignedCount}}<p style="margin: 5px 0; color: #92400e;">📜 New quizzes: {{assignedCount}}</p>{{/assignedCount}}
+            {{#groupCount}}<p style="margin: 5px 0; color: #92400e;">👥 Assigned to your groups: {{groupCount}}</p>{{/groupCount}}
+            {{#reassignedCount}}<p style="margin: 5px 0; color: #92400e;">🔄 Reopened for another attempt: {{reassignedCount}}</p>{{/reassignedCount}}
+            {{#startingCount}}<p style="margin: 5px 0; color: #92400e;">⏰ Starting soon: {{startingCount}}</p>{{/startingCount}}
+            {{#resultsCount}}<p style="margin: 5px 0; color: #92400e;">🏆 Results to review: {{resultsCount}}</p>{{/resultsCount}}
+          </td>
+        </tr>
+      </table>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{inboxUrl}}" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">🔔 Open Your Notifications</a>
+      </div>
+
+      <p style="text-align: center; color: #b45309; font-style: italic; margin: 15px 0;">
+        "This is the day which the LORD hath made; we will rejoice and be glad in it." - Psalm 118:24
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">You receive this summary because you turned on the daily digest in your notification settings</p>
+      `,
+      text: `
+Grace and peace, {{studentName}}!
+
+You have {{notificationCount}} unread notification(s). The latest: "{{latestTitle}}"
+
+{{#assignedCount}}New quizzes: {{assignedCount}}
+{{/assignedCount}}{{#groupCount}}Assigned to your groups: {{groupCount}}
+{{/groupCount}}{{#reassignedCount}}Reopened for another attempt: {{reassignedCount}}
+{{/reassignedCount}}{{#startingCount}}Starting soon: {{startingCount}}
+{{/startingCount}}{{#resultsCount}}Results to review: {{resultsCount}}
+{{/resultsCount}}
+Open your notifications at:
+{{inboxUrl}}
+
+{{emailFooter}}
+You receive this summary because you turned on the daily digest in your notification settings
+      `,
+    },
+  },
+
+  otpVerification: {
+    key: 'otpVerification',
+    name: 'Email verification code',
+    description: 'One-time code sent to educators confirming their email address at signup',
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the educator signing up', sample: 'Sarah Thomas' },
+      { name: 'otp', description: 'The verification code', sample: '482913' },
+      { name: 'expiryMinutes', description: 'Minutes until the code expires', sample: 10 },
+    ],
+    content: {
+      subject: `🔐 Your Verification Code for {{appName}}`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">🔐 Email Verification Required</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Confirm Your Sacred Identity</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 24px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Greetings, {{educatorName}}!</h2>
+
+      <p style="color: #451a03; margin: 15px 0;">To complete your registration as a Biblical educator on {{appName}}, please verify your email address using the code below.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 30px 0;">
+        <tr>
+          <td align="center">
+            <table cellpadding="0" cellspacing="0" border="0">
+              <tr>
+                <td bgcolor="#f59e0b" style="background-color: #f59e0b; border-radius: 12px; padding: 25px 40px; text-align: center;">
+                  <p style="margin: 0; color: white; font-size: 14px; font-weight: bold;">YOUR VERIFICATION CODE</p>
+                  <p style="margin: 10px 0 0 0; color: white; font-size: 36px; font-weight: bold; letter-spacing: 8px; font-family: 'Courier New', monospace;">{{otp}}</p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fef3c7" style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"But let all things be done decently and in order." - 1 Corinthians 14:40</p>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fff" style="background-color: #fff; border: 1px solid #fed7aa; border-radius: 8px; padding: 20px;">
+            <h4 style="margin-top: 0; color: #92400e;">⏰ Important Information:</h4>
+            <table cellpadding="0" cellspacing="0" border="0" width="100%">
+              <tr><td style="color: #78350f; padding: 3px 0;">• This code will expire in <strong>{{expiryMinutes}} minutes</strong></td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">• Enter this code on the verification page</td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">• Do not share this code with anyone</td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">• If you didn't request this, please ignore this email</td></tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+
+      <h3 style="color: #92400e; font-size: 18px; margin: 20px 0 10px 0; font-family: Georgia, 'Times New Roman', serif;">🛡️ Security Tips:</h3>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%">
+        <tr>
+          <td style="color: #451a03; line-height: 1.8; padding: 0 0 8px 20px;">
+            1. {{appName}} will never ask for your password via email
+          </td>
+        </tr>
+        <tr>
+          <td style="color: #451a03; line-height: 1.8; padding: 0 0 8px 20px;">
+            2. This code is for email verification only
+          </td>
+        </tr>
+        <tr>
+          <td style="color: #451a03; line-height: 1.8; padding: 0 0 8px 20px;">
+            3. Always verify you're on the correct website before entering codes
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fef3c7" style="background-color: #fef3c7; border-left: 4px solid #16a34a; padding: 15px;">
+            <p style="margin: 0; color: #78350f;"><strong>Need a new code?</strong> You can request a new verification code from the signup page after 60 seconds.</p>
+          </td>
+        </tr>
+      </table>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">📖 "The Lord shall preserve thee from all evil" - Psalm 121:7</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">This is an automated security email - please do not reply</p>
+      `,
+      text: `
+Greetings {{educatorName}},
+
+Your {{appName}} Verification Code:
+
+{{otp}}
+
+This code will expire in {{expiryMinutes}} minutes.
+
+Enter this code on the verification page to complete your registration as a Biblical educator.
+
+Security Tips:
+- Never share this code with anyone
+- We will never ask for your password via email
+- This code is for email verification only
+
+If you didn't request this code, please ignore this email.
+
+"But let all things be done decently and in order." - 1 Corinthians 14:40
+
+{{appName}} - Secure Biblical Education
+      `,
+    },
+  },
+
+  educatorSignupPending: {
+    key: 'educatorSignupPending',
+    name: 'Educator application received',
+    description: 'Sent to educators after they sign up, while their account waits for approval',
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the educator', sample: 'Sarah Thomas' },
+    ],
+    content: {
+      subject: `📜 Welcome to {{appName}} - Your Application is Under Review`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">🎓 Welcome, Sacred Guide!</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Your Journey to Teaching God's Word Begins</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 24px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Blessings and Peace, {{educatorName}}!</h2>
+
+      <p style="color: #451a03; margin: 15px 0;">Thank you for answering the sacred calling to become a Biblical educator on {{appName}}. Your dedication to spreading God's Word through teaching is truly a blessing.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fef3c7" style="background-color: #fef3c7; border-radius: 8px; border: 2px solid #f59e0b; padding: 20px; text-align: center;">
+            <p style="margin: 0; font-size: 20px; color: #92400e; font-weight: bold;">⏳ Your Application Status</p>
+            <p style="margin: 10px 0 0 0; font-size: 18px; color: #d97706; font-weight: bold;">PENDING APPROVAL</p>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fef3c7" style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"And he gave some, apostles; and some, prophets; and some, evangelists; and some, pastors and teachers" - Ephesians 4:11</p>
+          </td>
+        </tr>
+      </table>
+
+      <h3 style="color: #92400e; font-size: 18px; margin: 20px 0 10px 0; font-family: Georgia, 'Times New Roman', serif;">📋 What Happens Next?</h3>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%">
+        <tr>
+          <td style="color: #451a03; line-height: 1.8; padding: 0 0 10px 20px;">
+            1. <strong>Review Process:</strong> Our ministry team will carefully review your application within 24-48 hours
+          </td>
+        </tr>
+        <tr>
+          <td style="color: #451a03; line-height: 1.8; padding: 0 0 10px 20px;">
+            2. <strong>Verification:</strong> We verify all educators to maintain the sanctity of our biblical education platform
+          </td>
+        </tr>
+        <tr>
+          <td style="color: #451a03; line-height: 1.8; padding: 0 0 10px 20px;">
+            3. <strong>Notification:</strong> You will receive an email once your account has been approved
+          </td>
+        </tr>
+        <tr>
+          <td style="color: #451a03; line-height: 1.8; padding: 0 0 10px 20px;">
+            4. <strong>Access Granted:</strong> Upon approval, you'll gain full access to create and manage biblical quizzes
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#ffffff" style="background-color: #fff; border-radius: 8px; border: 1px solid #fed7aa; padding: 20px;">
+            <h4 style="margin-top: 0; color: #92400e;">🌟 While You Wait, You Can:</h4>
+            <table cellpadding="0" cellspacing="0" border="0" width="100%">
+              <tr><td style="color: #78350f; padding: 3px 0;">• Prepare your biblical study materials</td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">• Plan your quiz topics and difficulty levels</td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">• Consider which scriptures you want to focus on</td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">• Pray for wisdom in guiding your future students</td></tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #451a03; margin: 20px 0;">We are blessed to have you join our community of educators dedicated to spreading God's Word through interactive learning.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fef3c7" style="background-color: #fef3c7; border-left: 4px solid #16a34a; padding: 15px;">
+            <p style="margin: 0; color: #78350f;"><strong>Need Help?</strong> Contact us at {{supportEmail}}</p>
+          </td>
+        </tr>
+      </table>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">📖 "Go ye therefore, and teach all nations" - Matthew 28:19</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">Thank you for your patience during the approval process</p>
+      `,
+      text: `
+Welcome to {{appName}}, {{educatorName}}!
+
+Your educator account application has been received and is currently PENDING APPROVAL.
+
+What Happens Next:
+1. Our ministry team will review your application within 24-48 hours
+2. We verify all educators to maintain platform integrity
+3. You will receive an email once approved
+4. Upon approval, you'll gain full access to create biblical quizzes
+
+While you wait, you can:
+- Prepare your biblical study materials
+- Plan your quiz topics
+- Consider which scriptures to focus on
+- Pray for wisdom in guiding students
+
+Need help? Contact {{supportEmail}}
+
+"Go ye therefore, and teach all nations" - Matthew 28:19
+
+{{appName}} - Empowering Biblical Education
+      `,
+    },
+  },
+
+  educatorApprovalNotification: {
+    key: 'educatorApprovalNotification',
+    name: 'Educator approved',
+    description: "Sent when an admin approves an educator's account",
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the educator', sample: 'Sarah Thomas' },
+    ],
+    content: {
+      subject: `🎉 Hallelujah! Your Educator Account Has Been Approved`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">✨ {{appName}}</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Educator Account Approved</p>
+      `,
+      body: `
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 0 0 20px 0;">
+        <tr>
+          <td bgcolor="#d97706" style="background-color: #d97706; color: white; padding: 15px; text-align: center; font-weight: bold; border-radius: 8px;">
+            🎊 CONGRATULATIONS! YOUR MINISTRY BEGINS TODAY! 🎊
+          </td>
+        </tr>
+      </table>
+
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Beloved Educator {{educatorName}},</h2>
+      <p style="color: #451a03; margin: 15px 0;">Grace and peace to you! We are delighted to inform you that your educator account on <strong>{{appName}}</strong> has been approved.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"Go ye therefore, and teach all nations... teaching them to observe all things whatsoever I have commanded you" - Matthew 28:19-20</p>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #451a03; margin: 15px 0;">You have been called to a noble ministry of biblical education. Your dedication to spreading God's Word will touch many lives and help students grow in faith and understanding.</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fff; border-left: 4px solid #f59e0b; border-radius: 4px; padding: 20px;">
+            <p style="margin: 0; color: #451a03;"><strong>🔑 Your Educator Privileges Include:</strong></p>
+            <ul style="color: #78350f; margin: 10px 0 0 0;">
+              <li>✅ Create and publish biblical quizzes</li>
+              <li>✅ Add and manage students in your study circles</li>
+              <li>✅ Edit and customize quiz content</li>
+              <li>✅ View detailed analytics and progress reports</li>
+              <li>✅ Export data for record keeping</li>
+              <li>✅ Access to our growing library of biblical resources</li>
+            </ul>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #78350f; font-weight: 500; margin: 15px 0;">Your journey as a biblical educator starts now! Begin by creating your first quiz or inviting students to join your study circle.</p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{appUrl}}/educator/dashboard" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">🚀 Enter Your Educator Dashboard</a>
+      </div>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 15px; border-radius: 4px;">
+            <p style="color: #92400e; font-weight: bold; margin: 0 0 10px 0;">📚 Quick Start Tips:</p>
+            <ol style="color: #78350f; margin: 5px 0;">
+              <li>Upload your first biblical study material</li>
+              <li>Create an engaging quiz from your content</li>
+              <li>Invite your students to join</li>
+              <li>Track their spiritual growth journey</li>
+            </ol>
+          </td>
+        </tr>
+      </table>
+
+      <p style="text-align: center; color: #b45309; font-style: italic;">
+        "Well done, good and faithful servant!" - Matthew 25:21
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">🕊️ May your teaching bear much fruit for the Kingdom</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">Equipping saints for the work of ministry - Ephesians 4:12</p>
+      `,
+      text: `
+Beloved Educator {{educatorName}},
+
+CONGRATULATIONS! Your educator account has been approved!
+
+"Go ye therefore, and teach all nations" - Matthew 28:19
+
+You now have full access to create quizzes, manage students, and spread biblical knowledge through {{appName}}.
+
+Start your ministry: {{appUrl}}/educator/dashboard
+
+May your teaching bear much fruit for the Kingdom.
+
+{{appName}} - Empowering Biblical Education
+Equipping saints for the work of ministry
+      `,
+    },
+  },
+
+  educatorRejectionNotification: {
+    key: 'educatorRejectionNotification',
+    name: 'Educator not approved',
+    description: "Sent when an admin rejects an educator's application",
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the educator', sample: 'Sarah Thomas' },
+      { name: 'reason', description: 'Reason given by the admin, if any', sample: 'We could not verify your teaching background.' },
+    ],
+    content: {
+      subject: `Application Status Update - {{appName}}`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">📜 {{appName}}</h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Application Status Update</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 22px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">Dear {{educatorName}},</h2>
+      <p style="color: #451a03; margin: 15px 0;">Peace be with you. Thank you for your interest in becoming an educator on {{appName}}.</p>
+
+      <p style="color: #451a03; margin: 15px 0;">After careful review, we regret to inform you that we are unable to approve your educator application at this time.</p>
+      {{#reason}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; border-radius: 4px; padding: 15px;">
+            <p style="margin: 0; color: #92400e;"><strong>Additional Information:</strong></p>
+            <p style="margin: 10px 0 0 0; color: #78350f;">{{reason}}</p>
+          </td>
+        </tr>
+      </table>
+      {{/reason}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">"Wait on the LORD: be of good courage, and he shall strengthen thine heart: wait, I say, on the LORD." - Psalm 27:14</p>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fff; border-radius: 4px; padding: 20px;">
+            <p style="color: #78350f; margin-top: 0;"><strong>This is not the end of your journey!</strong></p>
+            <p style="color: #78350f;">We encourage you to:</p>
+            <ul style="color: #78350f;">
+              <li>Continue growing in your biblical knowledge</li>
+              <li>Consider reapplying in the future with additional qualifications</li>
+              <li>Join as a student to experience our platform firsthand</li>
+              <li>Reach out to our support team if you have questions</li>
+            </ul>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #78350f; margin: 15px 0;">Remember, God's timing is perfect, and He may have different plans for your ministry at this moment.</p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{appUrl}}/contact" style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">📧 Contact Support</a>
+      </div>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <p style="text-align: center; color: #b45309; font-style: italic;">
+        "Trust in the LORD with all thine heart; and lean not unto thine own understanding." - Proverbs 3:5
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">🙏 May God bless your continued journey in faith</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">In His time, He makes all things beautiful - Ecclesiastes 3:11</p>
+      `,
+      text: `
+Dear {{educatorName}},
+
+Thank you for your interest in becoming an educator on {{appName}}.
+
+After careful review, we are unable to approve your educator application at this time.
+
+{{#reason}}Additional Information: {{reason}}{{/reason}}
+
+"Wait on the LORD: be of good courage" - Psalm 27:14
+
+This is not the end of your journey. We encourage you to continue growing and consider reapplying in the future.
+
+For questions, contact: {{appUrl}}/contact
+
+May God bless your continued journey in faith.
+
+{{emailFooter}}
+In His time, He makes all things beautiful
+      `,
+    },
+  },
+
+  educatorReminderEmail: {
+    key: 'educatorReminderEmail',
+    name: 'Inactive educator reminder',
+    description: "Sent by the reminder cron to educators who haven't been active for a while",
+    localized: false,
+    variables: [
+      { name: 'educatorName', description: 'Name of the educator', sample: 'Sarah Thomas' },
+      { name: 'firstReminder', description: 'Whether this is the first reminder rather than a follow-up', sample: true },
+      { name: 'reasonNoQuizzes', description: 'Reminder reason: no quiz created yet', sample: false },
+      { name: 'reasonNoStudents', description: 'Reminder reason: has quizzes but no students', sample: true },
+      { name: 'reasonReturning', description: 'Reminder reason: was active before, now inactive', sample: false },
+      { name: 'reasonInactive', description: 'Reminder reason: any other period of inactivity', sample: false },
+      { name: 'daysSinceLastActivity', description: 'Days since the educator was last active', sample: 14 },
+      { name: 'totalQuizzes', description: 'Quizzes the educator has created', sample: 3 },
+      { name: 'multipleQuizzes', description: 'Whether totalQuizzes is more than one', sample: true },
+      { name: 'totalStudents', description: 'Students the educator has', sample: 0 },
+      { name: 'dashboardUrl', description: 'Link to the educator dashboard', sample: 'https://example.com/educator/dashboard' },
+    ],
+    content: {
+      subject: `{{#firstReminder}}🌟 Your Biblical Teaching Ministry Awaits - We Miss You!{{/firstReminder}}{{^firstReminder}}💝 A Gentle Reminder: Your Students Need Your Wisdom{{/firstReminder}}`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">
+        {{#firstReminder}}🌟 Your Ministry Awaits!{{/firstReminder}}{{^firstReminder}}💝 Gentle Reminder{{/firstReminder}}
+      </h1>
+      <p style="margin: 10px 0 0 0; font-size: 16px; color: white;">Spreading God's Word Through Teaching</p>
+      `,
+      body: `
+      <h2 style="color: #92400e; font-size: 24px; margin-top: 0; font-family: Georgia, 'Times New Roman', serif;">
+        Beloved Teacher {{educatorName}},
+      </h2>
+
+      <p style="color: #451a03; margin: 15px 0;">Peace and blessings to you! We hope this message finds you well in your walk with the Lord.</p>
+
+      <p style="color: #78350f; margin: 15px 0; font-weight: 500;">{{#reasonNoQuizzes}}We notice you haven't created your first quiz yet. Every great teacher starts with a single lesson!{{/reasonNoQuizzes}}{{#reasonNoStudents}}You've created {{totalQuizzes}} wonderful quiz{{#multipleQuizzes}}zes{{/multipleQuizzes}}, but haven't invited students yet.{{/reasonNoStudents}}{{#reasonReturning}}We've noticed you've been away from your teaching ministry for a while.{{/reasonReturning}}{{#reasonInactive}}It's been {{daysSinceLastActivity}} days since you last visited your educator dashboard.{{/reasonInactive}}</p>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 15px;">
+            <p style="margin: 0; color: #78350f; font-style: italic;">
+              "And he gave some, apostles; and some, prophets; and some, evangelists; and some, pastors and teachers; For the perfecting of the saints, for the work of the ministry, for the edifying of the body of Christ" - Ephesians 4:11-12
+            </p>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #451a03; margin: 15px 0;">{{#reasonNoQuizzes}}Your unique insights into God's Word are valuable, and your future students are waiting to learn from your wisdom.{{/reasonNoQuizzes}}{{#reasonNoStudents}}Your biblical quizzes are ready to inspire and educate! Consider inviting students to join your study circle.{{/reasonNoStudents}}{{#reasonReturning}}Your students miss your guidance, and there's so much more biblical wisdom you can share with them.{{/reasonReturning}}{{#reasonInactive}}Your calling to teach God's Word is a noble one, and every day brings new opportunities to impact lives.{{/reasonInactive}}</p>
+      {{#totalQuizzes}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fff" style="background-color: #fff; border: 1px solid #fed7aa; border-radius: 8px; padding: 20px;">
+            <h4 style="margin-top: 0; color: #92400e;">📊 Your Ministry Impact So Far:</h4>
+            <table cellpadding="0" cellspacing="0" border="0" width="100%">
+              <tr><td style="color: #78350f; padding: 3px 0;">📚 Biblical Quizzes Created: <strong>{{totalQuizzes}}</strong></td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">👥 Students in Your Care: <strong>{{totalStudents}}</strong></td></tr>
+              <tr><td style="color: #78350f; padding: 3px 0;">🎯 Lives Touched: <strong>Countless and Growing</strong></td></tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+      {{/totalQuizzes}}
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td bgcolor="#fff" style="background-color: #fff; border: 1px solid #fed7aa; border-radius: 8px; padding: 20px;">
+            <h4 style="margin-top: 0; color: #92400e;">🌟 Why Your Ministry Matters:</h4>
+            <ul style="color: #78350f; margin: 10px 0;">
+              <li><strong>Eternal Impact:</strong> Every lesson you teach plants seeds for eternity</li>
+              <li><strong>Biblical Literacy:</strong> You help believers grow deeper in God's Word</li>
+              <li><strong>Faith Formation:</strong> Your quizzes strengthen the foundation of faith</li>
+              <li><strong>Community Building:</strong> You bring believers together in learning</li>
+            </ul>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #78350f; margin: 20px 0;">
+        Remember, {{educatorName}}, God has called you to this ministry of biblical education not by accident, but by divine purpose. Your voice, your perspective, and your heart for God's Word are unique gifts that only you can share.
+      </p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{dashboardUrl}}"
+           style="display: inline-block; padding: 14px 32px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">
+          ✨ {{#reasonNoQuizzes}}Create Your First Quiz{{/reasonNoQuizzes}}{{#reasonNoStudents}}Invite Students to Learn{{/reasonNoStudents}}{{#reasonReturning}}Continue Your Ministry{{/reasonReturning}}{{#reasonInactive}}Return to Teaching{{/reasonInactive}}
+        </a>
+      </div>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; padding: 10px; border-radius: 4px;">
+            <p style="margin: 0; color: #92400e; font-size: 14px;">
+              <strong>Quick link to your educator dashboard:</strong><br>
+              <span style="color: #78350f; word-break: break-all;">{{dashboardUrl}}</span>
+            </p>
+          </td>
+        </tr>
+      </table>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #16a34a; padding: 15px;">
+            <p style="margin: 0; color: #78350f;">
+              <strong>💡 Need inspiration?</strong> Consider creating a quiz on your favorite Bible story, a character study, or even basic biblical principles. Your students are eager to learn!
+            </p>
+          </td>
+        </tr>
+      </table>
+
+      <hr style="border: none; height: 2px; background-color: #f59e0b; margin: 20px 0;">
+
+      <p style="color: #451a03; margin: 15px 0; font-style: italic;">
+        We're not sending this reminder to pressure you, but to encourage you in your calling. If you need any assistance or have questions about using the platform, we're here to help.
+      </p>
+
+      <p style="text-align: center; color: #b45309; font-style: italic; margin: 20px 0;">
+        "Let your light so shine before men, that they may see your good works, and glorify your Father which is in heaven." - Matthew 5:16
+      </p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">🙏 May the Lord bless your teaching ministry abundantly</p>
+      <p style="margin: 5px 0; color: #78350f;">{{copyright}}</p>
+      <p style="margin: 5px 0; font-size: 12px; color: #78350f;">
+        This gentle reminder was sent with love.
+        <a href="{{appUrl}}/unsubscribe" style="color: #92400e;">Manage your preferences</a>
+      </p>
+      `,
+      text: `
+Beloved Teacher {{educatorName}},
+
+Peace and blessings to you!
+
+{{#reasonNoQuizzes}}We notice you haven't created your first quiz yet. Every great teacher starts with a single lesson!{{/reasonNoQuizzes}}{{#reasonNoStudents}}You've created {{totalQuizzes}} wonderful quiz{{#multipleQuizzes}}zes{{/multipleQuizzes}}, but haven't invited students yet.{{/reasonNoStudents}}{{#reasonReturning}}We've noticed you've been away from your teaching ministry for a while.{{/reasonReturning}}{{#reasonInactive}}It's been {{daysSinceLastActivity}} days since you last visited your educator dashboard.{{/reasonInactive}}
+
+"And he gave some, apostles; and some, prophets; and some, evangelists; and some, pastors and teachers" - Ephesians 4:11-12
+
+{{#reasonNoQuizzes}}Your unique insights into God's Word are valuable, and your future students are waiting to learn from your wisdom.{{/reasonNoQuizzes}}{{#reasonNoStudents}}Your biblical quizzes are ready to inspire and educate! Consider inviting students to join your study circle.{{/reasonNoStudents}}{{#reasonReturning}}Your students miss your guidance, and there's so much more biblical wisdom you can share with them.{{/reasonReturning}}{{#reasonInactive}}Your calling to teach God's Word is a noble one, and every day brings new opportunities to impact lives.{{/reasonInactive}}
+
+{{#totalQuizzes}}Your Ministry Impact:
+- Biblical Quizzes Created: {{totalQuizzes}}
+- Students in Your Care: {{totalStudents}}
+- Lives Touched: Countless and Growing
+{{/totalQuizzes}}
+
+Why Your Ministry Matters:
+• Eternal Impact: Every lesson plants seeds for eternity
+• Biblical Literacy: You help believers grow in God's Word
+• Faith Formation: Your quizzes strengthen faith foundations
+• Community Building: You bring believers together in learning
+
+Remember, God has called you to this ministry by divine purpose. Your unique gifts are needed!
+
+{{#reasonNoQuizzes}}Create Your First Quiz{{/reasonNoQuizzes}}{{#reasonNoStudents}}Invite Students to Learn{{/reasonNoStudents}}{{#reasonReturning}}Continue Your Ministry{{/reasonReturning}}{{#reasonInactive}}Return to Teaching{{/reasonInactive}}: {{dashboardUrl}}
+
+"Let your light so shine before men, that they may see your good works, and glorify your Father which is in heaven." - Matthew 5:16
+
+This reminder was sent with love and encouragement.
+Manage preferences: {{appUrl}}/unsubscribe
+
+May the Lord bless your teaching ministry abundantly.
+{{appName}} - Empowering Biblical Education
+      `,
+    },
+  },
+
+  passwordReset: {
+    key: 'passwordReset',
+    name: 'Password reset',
+    description: 'Link to choose a new password, sent when a user asks to reset theirs',
+    localized: false,
+    variables: [
+      { name: 'userName', description: 'Name of the user', sample: 'David Mathew' },
+      { name: 'resetUrl', description: 'Password reset link, valid for one hour', sample: 'https://example.com/auth/reset-password?token=abc123' },
+    ],
+    content: {
+      subject: `🔑 Password Reset Request - {{appName}}`,
+      header: `
+      <h1 style="margin: 0; font-size: 28px; color: white; font-family: Georgia, 'Times New Roman', serif;">🔑 Password Reset Request</h1>
+      `,
+      body: `
+      <p style="color: #451a03; margin: 15px 0;">Dear {{userName}},</p>
+
+      <p style="color: #451a03; margin: 15px 0;">We received a request to reset your password for your {{appName}} account.</p>
+
+      <p style="color: #451a03; margin: 15px 0;"><strong>Click the button below to reset your password:</strong></p>
+
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="{{resetUrl}}" style="display: inline-block; padding: 12px 30px; background-color: #f59e0b; color: white; text-decoration: none; border-radius: 6px; font-weight: bold;">Reset My Password</a>
+      </div>
+
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="margin: 20px 0;">
+        <tr>
+          <td style="background-color: #fef3c7; border-left: 4px solid #d97706; padding: 10px;">
+            <strong style="color: #92400e;">⚠️ Important:</strong>
+            <ul style="color: #78350f; margin: 10px 0 0 0;">
+              <li>This link will expire in 1 hour</li>
+              <li>If you did not request this reset, please ignore this email</li>
+              <li>Your password will not change unless you click the link above</li>
+            </ul>
+          </td>
+        </tr>
+      </table>
+
+      <p style="color: #451a03; margin: 15px 0;">If the button doesn't work, copy and paste this link into your browser:</p>
+      <p style="word-break: break-all; font-size: 12px; color: #666;">{{resetUrl}}</p>
+      `,
+      footer: `
+      <p style="margin: 5px 0; color: #78350f;">May your path be illuminated with divine wisdom</p>
+      <p style="margin: 5px 0; color: #78350f;">{{emailFooter}}</p>
+      `,
+      text: `
+Password Reset Request - {{appName}}
+
+Dear {{userName}},
+
+We received a request to reset your password for your {{appName}} account.
+
+To reset your password, please visit the following link:
+{{resetUrl}}
+
+Important:
+- This link will expire in 1 hour
+- If you did not request this reset, please ignore this email
+- Your password will not change unless you click the link above
+
+May your path be illuminated with divine wisdom,
+{{appName}} Team
+      `,
+    },
+  },
+};
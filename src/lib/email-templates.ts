@@ -0,0 +1,477 @@
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { branding } from './branding';
+import { db } from './db';
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS,
+  type EmailTemplateContent,
+  type EmailTemplateKey,
+  type EmailTemplateValue,
+  type EmailTemplateVariable,
+} from './email-template-defaults';
+import { findLanguage } from './language-registry';
+import { ENGLISH, type LanguageDefinition } from './languages';
+import { customEmailTemplates } from './schema';
+
+// Renders the email templates in lib/email-template-defaults.ts, or an admin's edited version
+// of one, in the recipient's language when the template has a version in it.
+
+const CACHE_DURATION = 60000; // 1 minute cache
+
+const templateCache = new Map<string, { content: EmailTemplateContent | null; lastChecked: number }>();
+
+export type EmailTemplateVariables = Record<string, EmailTemplateValue>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  language: string; // Language the template was written in; English when there's no version in the requested one
+}
+
+export interface EmailTemplateCustomization {
+  language: string;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+export interface EmailTemplateSummary {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  localized: boolean;
+  customizations: EmailTemplateCustomization[];
+}
+
+export interface RenderOptions {
+  language?: string | null; // Recipient's email language, used by localized templates
+  timeZone?: string | null; // Dates are shown in this timezone, or in UTC
+  content?: EmailTemplateContent; // Render this draft instead of the saved template
+}
+
+// Available in every template
+export const BRANDING_VARIABLES: Pick<EmailTemplateVariable, 'name' | 'description'>[] = [
+  { name: 'appName', description: 'Application name' },
+  { name: 'tagline', description: 'Application tagline' },
+  { name: 'supportEmail', description: 'Support email address' },
+  { name: 'appUrl', description: 'Application URL, without a trailing slash' },
+  { name: 'copyright', description: 'Copyright line for footers' },
+  { name: 'emailFooter', description: 'Application name and tagline, for plain-text footers' },
+];
+
+function brandingVariables(): Record<string, string> {
+  return {
+    appName: branding.appName,
+    tagline: branding.tagline,
+    supportEmail: branding.supportEmail,
+    appUrl: branding.getAppUrl(),
+    copyright: branding.getCopyrightText(),
+    emailFooter: branding.getEmailFooter(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Template syntax: {{name}}, {{#name}}shown when set{{/name}}, {{^name}}shown when not set{{/name}}
+// ---------------------------------------------------------------------------
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+function parseTemplate(source: string): { nodes: TemplateNode[] } | { error: string } {
+  const root: TemplateNode[] = [];
+  const open: { name: string; parent: TemplateNode[] }[] = [];
+  let current = root;
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (value) current.push({ type: 'text', value });
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, kind, name] = match;
+    const index = match.index ?? 0;
+    pushText(source.slice(lastIndex, index));
+    lastIndex = index + tag.length;
+
+    if (kind === '#' || kind === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: kind === '^', children: [] };
+      current.push(section);
+      open.push({ name, parent: current });
+      current = section.children;
+    } else if (kind === '/') {
+      const section = open.pop();
+      if (!section || section.name !== name) {
+        return { error: `{{/${name}}} doesn't close an open {{#${name}}} or {{^${name}}}` };
+      }
+      current = section.parent;
+    } else {
+      current.push({ type: 'variable', name });
+    }
+  }
+  pushText(source.slice(lastIndex));
+
+  if (open.length > 0) {
+    return { error: `{{#${open[open.length - 1].name}}} is never closed with {{/${open[open.length - 1].name}}}` };
+  }
+
+  const stray = findStrayTag(root);
+  if (stray) {
+    return { error: `"${stray}" isn't a valid tag; use {{name}}, {{#name}}, {{^name}} or {{/name}}` };
+  }
+
+  return { nodes: root };
+}
+
+function findStrayTag(nodes: TemplateNode[]): string | null {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      const stray = node.value.match(/\{\{[^}]*\}?\}?/);
+      if (stray) return stray[0];
+    } else if (node.type === 'section') {
+      const stray = findStrayTag(node.children);
+      if (stray) return stray;
+    }
+  }
+  return null;
+}
+
+function variableNames(nodes: TemplateNode[], names = new Set<string>()): Set<string> {
+  for (const node of nodes) {
+    if (node.type === 'variable') names.add(node.name);
+    if (node.type === 'section') {
+      names.add(node.name);
+      variableNames(node.children, names);
+    }
+  }
+  return names;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isSet(value: EmailTemplateValue): boolean {
+  return value !== null && value !== undefined && value !== false && value !== '' && value !== 0;
+}
+
+function formatValue(value: EmailTemplateValue, locale: string, timeZone: string | null | undefined): string {
+  if (value === null || value === undefined || typeof value === 'boolean') return '';
+  if (typeof value === 'number') return new Intl.NumberFormat(locale).format(value);
+  if (value instanceof Date) {
+    const formatted = value.toLocaleString(locale, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: timeZone || 'UTC',
+    });
+    return timeZone ? `${formatted} (${timeZone})` : `${formatted} UTC`;
+  }
+  return value;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  raw: EmailTemplateVariables,
+  formatted: Record<string, string>,
+  escape: boolean
+): string {
+  return nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'variable') {
+      const value = formatted[node.name] ?? '';
+      return escape ? escapeHtml(value) : value;
+    }
+    return isSet(raw[node.name]) !== node.inverted
+      ? renderNodes(node.children, raw, formatted, escape)
+      : '';
+  }).join('');
+}
+
+function renderField(source: string, raw: EmailTemplateVariables, formatted: Record<string, string>, escape: boolean): string {
+  const parsed = parseTemplate(source);
+  if ('error' in parsed) throw new Error(`Invalid email template: ${parsed.error}`);
+  return renderNodes(parsed.nodes, raw, formatted, escape);
+}
+
+// The table layout every email shares; tables and inline styles render the same in most mail clients
+function wrapEmail(header: string, body: string, footer: string, language: LanguageDefinition): string {
+  return `
+    <!DOCTYPE html>
+    <html lang="${escapeHtml(language.locale)}" dir="${language.direction}">
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(branding.appName)}</title>
+      <!--[if mso]>
+      <noscript>
+        <xml>
+          <o:OfficeDocumentSettings>
+            <o:PixelsPerInch>96</o:PixelsPerInch>
+          </o:OfficeDocumentSettings>
+        </xml>
+      </noscript>
+      <![endif]-->
+    </head>
+    <body dir="${language.direction}" style="margin: 0; padding: 0; background-color: #fef3c7; font-family: Georgia, 'Times New Roman', serif;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #fef3c7;">
+        <tr>
+          <td align="center" style="padding: 20px;">
+            <table cellpadding="0" cellspacing="0" border="0" width="600" dir="${language.direction}" style="background-color: white; border-radius: 12px; overflow: hidden;">
+              <tr>
+                <td bgcolor="#f59e0b" style="background-color: #f59e0b; color: white; padding: 30px 20px; text-align: center;">
+                  ${header}
+                </td>
+              </tr>
+              <tr>
+                <td style="background-color: #fffbeb; padding: 30px;">
+                  ${body}
+                </td>
+              </tr>
+              <tr>
+                <td bgcolor="#fef3c7" style="text-align: center; padding: 20px; background-color: #fef3c7; color: #78350f; font-size: 14px; border-top: 2px solid #f59e0b;">
+                  ${footer}
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `;
+}
+
+// ---------------------------------------------------------------------------
+// Saved templates
+// ---------------------------------------------------------------------------
+
+function templateId(key: EmailTemplateKey, language: string): string {
+  return `${key}:${language}`;
+}
+
+async function getCustomTemplate(key: EmailTemplateKey, language: string): Promise<EmailTemplateContent | null> {
+  const id = templateId(key, language);
+  const cached = templateCache.get(id);
+  if (cached && Date.now() - cached.lastChecked < CACHE_DURATION) {
+    return cached.content;
+  }
+
+  const [row] = await db
+    .select()
+    .from(customEmailTemplates)
+    .where(eq(customEmailTemplates.id, id))
+    .limit(1);
+
+  const content = row
+    ? { subject: row.subject, header: row.header, body: row.body, footer: row.footer, text: row.text }
+    : null;
+  templateCache.set(id, { content, lastChecked: Date.now() });
+  return content;
+}
+
+/**
+ * The template to send in a language: the admin's version in that language, else the
+ * English one (edited or built-in). Templates that aren't localized are always English.
+ */
+export async function getEmailTemplate(
+  key: EmailTemplateKey,
+  language: string | null | undefined = ENGLISH.code
+): Promise<{ content: EmailTemplateContent; language: string; customized: boolean }> {
+  if (language && language !== ENGLISH.code && EMAIL_TEMPLATE_DEFINITIONS[key].localized) {
+    const localized = await getCustomTemplate(key, language);
+    if (localized) return { content: localized, language, customized: true };
+  }
+
+  const english = await getCustomTemplate(key, ENGLISH.code);
+  if (english) return { content: english, language: ENGLISH.code, customized: true };
+
+  return { content: EMAIL_TEMPLATE_DEFINITIONS[key].content, language: ENGLISH.code, customized: false };
+}
+
+/**
+ * Render a template with its variables and the branding. Values are HTML-escaped in the
+ * header, body and footer; dates and numbers are formatted for the template's language.
+ */
+export async function renderEmailTemplate(
+  key: EmailTemplateKey,
+  variables: EmailTemplateVariables,
+  options: RenderOptions = {}
+): Promise<RenderedEmail> {
+  const template = options.content
+    ? { content: options.content, language: options.language || ENGLISH.code }
+    : await getEmailTemplate(key, options.language);
+  const language = (await findLanguage(template.language)) ?? ENGLISH;
+
+  const raw: EmailTemplateVariables = { ...brandingVariables(), ...variables };
+  const formatted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    formatted[name] = formatValue(value, language.locale, options.timeZone);
+  }
+
+  const { content } = template;
+  return {
+    subject: renderField(content.subject, raw, formatted, false).replace(/\s+/g, ' ').trim(),
+    html: wrapEmail(
+      renderField(content.header, raw, formatted, true),
+      renderField(content.body, raw, formatted, true),
+      renderField(content.footer, raw, formatted, true),
+      language
+    ),
+    text: renderField(content.text, raw, formatted, false).replace(/\n{3,}/g, '\n\n').trim(),
+    language: template.language,
+  };
+}
+
+/**
+ * Sample values for every variable of a template, for previews and test sends
+ */
+export function sampleVariables(key: EmailTemplateKey): EmailTemplateVariables {
+  return Object.fromEntries(
+    EMAIL_TEMPLATE_DEFINITIONS[key].variables.map(variable => [variable.name, variable.sample])
+  );
+}
+
+/**
+ * Render a template with its sample values, as sent or from a draft, for previews and test sends.
+ * Dates are shown in the default student timezone.
+ */
+export async function previewEmailTemplate(
+  key: EmailTemplateKey,
+  input: { language?: unknown; content?: unknown }
+): Promise<RenderedEmail | { error: string }> {
+  const options: RenderOptions = { timeZone: 'Asia/Kolkata' };
+
+  if (input.content === undefined) {
+    options.language = typeof input.language === 'string' ? input.language : ENGLISH.code;
+  } else {
+    const parsed = await parseEmailTemplateInput(key, input);
+    if ('error' in parsed) return parsed;
+    options.language = parsed.language.code;
+    options.content = parsed.content;
+  }
+
+  return renderEmailTemplate(key, sampleVariables(key), options);
+}
+
+/**
+ * Every template with the languages admins have edited it in
+ */
+export async function listEmailTemplates(): Promise<EmailTemplateSummary[]> {
+  const rows = await db
+    .select({
+      templateKey: customEmailTemplates.templateKey,
+      language: customEmailTemplates.language,
+      updatedBy: customEmailTemplates.updatedBy,
+      updatedAt: customEmailTemplates.updatedAt,
+    })
+    .from(customEmailTemplates);
+
+  return EMAIL_TEMPLATE_KEYS.map(key => {
+    const definition = EMAIL_TEMPLATE_DEFINITIONS[key];
+    return {
+      key,
+      name: definition.name,
+      description: definition.description,
+      localized: definition.localized,
+      customizations: rows
+        .filter(row => row.templateKey === key)
+        .map(row => ({ language: row.language, updatedBy: row.updatedBy, updatedAt: row.updatedAt })),
+    };
+  });
+}
+
+const EmailTemplateContentSchema = z.object({
+  subject: z.string().trim().min(1, 'Subject is required').max(300),
+  header: z.string().max(20000),
+  body: z.string().min(1, 'Body is required').max(100000),
+  footer: z.string().max(20000),
+  text: z.string().min(1, 'Plain-text version is required').max(50000),
+});
+
+/**
+ * Check a template an admin wrote: a language the template can be sent in, balanced
+ * sections and only variables the template provides
+ */
+export async function parseEmailTemplateInput(
+  key: EmailTemplateKey,
+  input: { language?: unknown; content?: unknown }
+): Promise<{ language: LanguageDefinition; content: EmailTemplateContent } | { error: string }> {
+  const language = typeof input.language === 'string' ? await findLanguage(input.language) : ENGLISH;
+  if (!language) {
+    return { error: 'Unknown language' };
+  }
+  if (language.code !== ENGLISH.code && !EMAIL_TEMPLATE_DEFINITIONS[key].localized) {
+    return { error: 'This template is only sent in English' };
+  }
+
+  const parsed = EmailTemplateContentSchema.safeParse(input.content);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: `${issue.path.join('.') || 'content'}: ${issue.message}` };
+  }
+
+  const allowed = new Set([
+    ...BRANDING_VARIABLES.map(variable => variable.name),
+    ...EMAIL_TEMPLATE_DEFINITIONS[key].variables.map(variable => variable.name),
+  ]);
+  for (const field of ['subject', 'header', 'body', 'footer', 'text'] as const) {
+    const template = parseTemplate(parsed.data[field]);
+    if ('error' in template) {
+      return { error: `${field}: ${template.error}` };
+    }
+    const unknown = [...variableNames(template.nodes)].filter(name => !allowed.has(name));
+    if (unknown.length > 0) {
+      return { error: `${field}: unknown variable ${unknown.map(name => `{{${name}}}`).join(', ')}` };
+    }
+  }
+
+  return { language, content: parsed.data };
+}
+
+export async function saveEmailTemplate(
+  key: EmailTemplateKey,
+  language: string,
+  content: EmailTemplateContent,
+  updatedBy: string
+): Promise<void> {
+  const now = new Date();
+  await db
+    .insert(customEmailTemplates)
+    .values({
+      id: templateId(key, language),
+      templateKey: key,
+      language,
+      ...content,
+      updatedBy,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: customEmailTemplates.id,
+      set: { ...content, updatedBy, updatedAt: now },
+    });
+
+  templateCache.delete(templateId(key, language));
+}
+
+/**
+ * Drop an admin's version of a template, going back to the English or built-in one
+ */
+export async function resetEmailTemplate(key: EmailTemplateKey, language: string): Promise<boolean> {
+  const deleted = await db
+    .delete(customEmailTemplates)
+    .where(eq(customEmailTemplates.id, templateId(key, language)))
+    .returning({ id: customEmailTemplates.id });
+
+  templateCache.delete(templateId(key, language));
+  return deleted.length > 0;
+}
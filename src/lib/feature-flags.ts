@@ -24,6 +24,7 @@ export const FEATURES = {
   TEACHER_DASHBOARD: false,
   WEBSOCKET_UPDATES: false,
   LIVE_PROGRESS_TRACKING: false,
+  LIVE_QUIZ_HOSTING: true,
   
   // Performance features
   MEMORY_OPTIMIZATION: false,
@@ -0,0 +1,176 @@
+// Verifies callbacks from the quiz generation service.
+// Each job gets its own secret, sent to the service in the webhook payload. The service signs
+// every callback with it (see createWebhookSignature) and includes a timestamp and a one-time nonce,
+// so a callback can't be forged for another job, altered in transit or replayed later.
+
+import { NextRequest } from "next/server";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { activityLogs } from "@/lib/schema";
+import { jobStore, type GenerationJobType, type QuizGenerationJob } from "@/lib/quiz-generation-jobs";
+import { verifyWebhookSignature } from "@/lib/security-utils";
+import { logger } from "@/lib/logger";
+
+export const CALLBACK_SIGNATURE_HEADER = "x-webhook-signature";
+export const CALLBACK_TIMESTAMP_HEADER = "x-webhook-timestamp";
+export const CALLBACK_NONCE_HEADER = "x-webhook-nonce";
+// Maximum age of a callback, and allowed clock skew, in seconds
+export const CALLBACK_TOLERANCE_SECONDS = 5 * 60;
+
+// A question as returned by the generation service
+export interface GeneratedQuestionData {
+  id?: number;
+  question?: string;
+  questionText?: string;
+  options?: unknown[] | Record<string, unknown>;
+  correct_answer?: string;
+  correctAnswer?: string;
+  explanation?: string;
+  difficulty?: string;
+  bloomsLevel?: string;
+  question_type?: string;
+  topic?: string;
+  book?: string;
+  chapter?: string;
+  biblical_reference?: string;
+  citations?: unknown; // Normalized with normalizeCitations before storing
+  [key: string]: unknown;
+}
+
+export interface GenerationCallbackBody {
+  jobId: string;
+  status?: string; // 'success' | 'error', anything else is a progress update
+  questionsData?: GeneratedQuestionData[];
+  error?: string;
+  progress?: number;
+  message?: string;
+  [key: string]: unknown;
+}
+
+export type CallbackAuthResult =
+  | { ok: true; body: GenerationCallbackBody; job: QuizGenerationJob }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Secret the generation service signs a job's callbacks with
+ */
+export function generateCallbackSecret(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * Signing instructions sent along with the secret in the webhook payload
+ */
+export function callbackSigningInfo() {
+  return {
+    algorithm: "hmac-sha256",
+    signedPayload: "<timestamp>.<nonce>.<raw body>",
+    signatureHeader: CALLBACK_SIGNATURE_HEADER,
+    timestampHeader: CALLBACK_TIMESTAMP_HEADER,
+    nonceHeader: CALLBACK_NONCE_HEADER,
+    toleranceSeconds: CALLBACK_TOLERANCE_SECONDS,
+  };
+}
+
+async function logRejectedCallback(
+  req: NextRequest,
+  jobId: string | null,
+  job: QuizGenerationJob | undefined,
+  reason: string
+) {
+  try {
+    await db.insert(activityLogs).values({
+      id: crypto.randomUUID(),
+      userId: job?.educatorId ?? null,
+      actionType: "webhook_callback_rejected",
+      entityType: "generation_job",
+      entityId: jobId,
+      details: {
+        reason,
+        endpoint: req.nextUrl.pathname,
+        jobType: job?.type ?? null,
+        nonce: req.headers.get(CALLBACK_NONCE_HEADER),
+        timestamp: req.headers.get(CALLBACK_TIMESTAMP_HEADER),
+      },
+      ipAddress: req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || req.headers.get("x-real-ip"),
+      userAgent: req.headers.get("user-agent"),
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    logger.error("Failed to record rejected generation callback:", error);
+  }
+}
+
+/**
+ * Read a generation callback and verify its signature, timestamp and nonce against the job's secret.
+ * Rejected callbacks are recorded in the activity log.
+ */
+export async function authenticateGenerationCallback(
+  req: NextRequest,
+  expectedType: GenerationJobType
+): Promise<CallbackAuthResult> {
+  // The signature covers the exact bytes sent, so read the raw body before parsing it
+  const rawBody = await req.text();
+
+  let body: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(rawBody);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("Not an object");
+    body = parsed as Record<string, unknown>;
+  } catch {
+    await logRejectedCallback(req, null, undefined, "invalid_body");
+    return { ok: false, error: "Invalid callback body", status: 400 };
+  }
+
+  const jobId = typeof body.jobId === "string" && body.jobId ? body.jobId : null;
+  if (!jobId) {
+    await logRejectedCallback(req, null, undefined, "missing_job_id");
+    return { ok: false, error: "Job ID is required", status: 400 };
+  }
+
+  const job = await jobStore.get(jobId);
+  if (!job) {
+    await logRejectedCallback(req, jobId, undefined, "unknown_job");
+    return { ok: false, error: "Invalid callback signature", status: 401 };
+  }
+
+  if (!job.callbackSecret) {
+    // Jobs created before callbacks were signed can't be verified
+    await logRejectedCallback(req, jobId, job, "missing_callback_secret");
+    return { ok: false, error: "Invalid callback signature", status: 401 };
+  }
+
+  const rejection = verifyWebhookSignature({
+    secret: job.callbackSecret,
+    timestamp: req.headers.get(CALLBACK_TIMESTAMP_HEADER),
+    nonce: req.headers.get(CALLBACK_NONCE_HEADER),
+    signature: req.headers.get(CALLBACK_SIGNATURE_HEADER),
+    body: rawBody,
+    toleranceSeconds: CALLBACK_TOLERANCE_SECONDS,
+  });
+  if (rejection) {
+    await logRejectedCallback(req, jobId, job, rejection);
+    return { ok: false, error: "Invalid callback signature", status: 401 };
+  }
+
+  // Only checked once the signature is valid, so an unsigned request can't probe job types
+  if (job.type !== expectedType) {
+    await logRejectedCallback(req, jobId, job, "wrong_endpoint");
+    return {
+      ok: false,
+      error: job.type === "replace"
+        ? "Wrong callback endpoint - this is a replacement job. Use /api/educator/quiz/webhook-callback-replace"
+        : "Wrong callback endpoint - this is a quiz creation job. Use /api/educator/quiz/webhook-callback",
+      status: 400,
+    };
+  }
+
+  // The nonce is only stored for valid signatures, so forged requests can't burn real nonces
+  const nonce = req.headers.get(CALLBACK_NONCE_HEADER) as string;
+  if (!(await jobStore.consumeCallbackNonce(jobId, nonce))) {
+    await logRejectedCallback(req, jobId, job, "replayed_nonce");
+    return { ok: false, error: "Callback already received", status: 409 };
+  }
+
+  return { ok: true, body: body as GenerationCallbackBody, job };
+}
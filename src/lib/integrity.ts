@@ -0,0 +1,367 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { questionResponses, questions, quizAttempts, quizzes, user } from "@/lib/schema";
+import { fetchAttemptFlagCounts, type ProctoringFlagCount } from "@/lib/proctoring";
+
+/**
+ * Integrity signals for exam attempts.
+ *
+ * Each completed attempt gets a report built from its telemetry (tab and window
+ * switches, paste events), answers given faster than the question could be read, and
+ * wrong answers it shares with other students' attempts. Every signal has a threshold,
+ * set per quiz in `quizzes.configuration.integrity`, at which it is flagged. The risk
+ * score adds up each signal's weight scaled by how close it came to its threshold, so
+ * a score is something to look into rather than proof of anything.
+ */
+
+export type IntegritySignal = "tab_switches" | "paste_events" | "fast_answers" | "shared_answers";
+export type IntegrityRiskLevel = "low" | "medium" | "high";
+
+export const INTEGRITY_SIGNAL_LABELS: Record<IntegritySignal, string> = {
+  tab_switches: "Tab and window switches",
+  paste_events: "Paste events",
+  fast_answers: "Unusually fast answers",
+  shared_answers: "Identical wrong answers with another student",
+};
+
+const SIGNAL_WEIGHTS: Record<IntegritySignal, number> = {
+  tab_switches: 20,
+  paste_events: 20,
+  fast_answers: 25,
+  shared_answers: 35,
+};
+
+const MEDIUM_RISK_FROM = 25;
+const HIGH_RISK_FROM = 50;
+const MIN_EXPECTED_SECONDS = 1;
+const MAX_SIMILAR_ATTEMPTS = 3;
+
+export interface IntegrityThresholds {
+  tabSwitches: number; // Flag at this many tab or window switches
+  pasteEvents: number; // Flag at this many pastes
+  fastAnswerShare: number; // Flag when this share (0-1) of timed answers came in too fast
+  readingWordsPerSecond: number; // Answers quicker than the question's words at this pace are too fast
+  sharedWrongAnswers: number; // Flag at this many identical wrong answers with one other attempt
+}
+
+export const DEFAULT_INTEGRITY_THRESHOLDS: IntegrityThresholds = {
+  tabSwitches: 4,
+  pasteEvents: 1,
+  fastAnswerShare: 0.25,
+  readingWordsPerSecond: 5,
+  sharedWrongAnswers: 3,
+};
+
+export interface IntegritySignalResult {
+  signal: IntegritySignal;
+  value: number;
+  threshold: number;
+  flagged: boolean;
+  points: number; // Contribution to the risk score
+}
+
+export interface FastAnswer {
+  questionId: string;
+  questionText: string;
+  timeSpent: number; // Seconds
+  expectedSeconds: number;
+}
+
+export interface SimilarAttempt {
+  attemptId: string;
+  studentId: string;
+  studentName: string;
+  sharedWrongAnswers: number;
+  sharedAnswers: number; // Identical answers of any kind
+  comparedQuestions: number; // Questions both attempts answered
+}
+
+export interface IntegrityReport {
+  attemptId: string;
+  riskScore: number; // 0-100
+  riskLevel: IntegrityRiskLevel;
+  signals: IntegritySignalResult[];
+  telemetry: ProctoringFlagCount[];
+  fastAnswers: FastAnswer[];
+  timedAnswers: number;
+  similarAttempts: SimilarAttempt[];
+}
+
+export type IntegrityRisk = Pick<IntegrityReport, "riskScore" | "riskLevel"> & { flags: IntegritySignal[] };
+
+function toCount(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isInteger(number) && number >= 1 ? number : null;
+}
+
+function toShare(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0 && number <= 1 ? number : null;
+}
+
+function toRate(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0 && number <= 50 ? number : null;
+}
+
+/**
+ * Read the integrity thresholds from a quiz's configuration, filling in defaults
+ */
+export function getIntegrityThresholds(configuration: unknown): IntegrityThresholds {
+  const integrity = configuration && typeof configuration === "object"
+    ? (configuration as Record<string, unknown>).integrity
+    : null;
+
+  if (!integrity || typeof integrity !== "object") {
+    return DEFAULT_INTEGRITY_THRESHOLDS;
+  }
+
+  const raw = integrity as Record<string, unknown>;
+  return {
+    tabSwitches: toCount(raw.tabSwitches) ?? DEFAULT_INTEGRITY_THRESHOLDS.tabSwitches,
+    pasteEvents: toCount(raw.pasteEvents) ?? DEFAULT_INTEGRITY_THRESHOLDS.pasteEvents,
+    fastAnswerShare: toShare(raw.fastAnswerShare) ?? DEFAULT_INTEGRITY_THRESHOLDS.fastAnswerShare,
+    readingWordsPerSecond: toRate(raw.readingWordsPerSecond) ?? DEFAULT_INTEGRITY_THRESHOLDS.readingWordsPerSecond,
+    sharedWrongAnswers: toCount(raw.sharedWrongAnswers) ?? DEFAULT_INTEGRITY_THRESHOLDS.sharedWrongAnswers,
+  };
+}
+
+/**
+ * Validate integrity thresholds sent by an educator
+ */
+export function parseIntegrityThresholds(input: unknown): { thresholds: IntegrityThresholds } | { error: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Integrity thresholds are required" };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.tabSwitches !== undefined && toCount(raw.tabSwitches) === null) {
+    return { error: "Tab switches must be a whole number of at least 1" };
+  }
+  if (raw.pasteEvents !== undefined && toCount(raw.pasteEvents) === null) {
+    return { error: "Paste events must be a whole number of at least 1" };
+  }
+  if (raw.fastAnswerShare !== undefined && toShare(raw.fastAnswerShare) === null) {
+    return { error: "Fast answer share must be between 0 and 1" };
+  }
+  if (raw.readingWordsPerSecond !== undefined && toRate(raw.readingWordsPerSecond) === null) {
+    return { error: "Reading speed must be between 0 and 50 words per second" };
+  }
+  if (raw.sharedWrongAnswers !== undefined && toCount(raw.sharedWrongAnswers) === null) {
+    return { error: "Shared wrong answers must be a whole number of at least 1" };
+  }
+
+  return { thresholds: getIntegrityThresholds({ integrity: raw }) };
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Seconds it takes just to read a question and its options at the given pace
+ */
+export function expectedReadingSeconds(
+  question: { questionText: string; options: { text: string }[] | null },
+  wordsPerSecond: number
+): number {
+  const words = countWords(question.questionText) +
+    (question.options ?? []).reduce((sum, option) => sum + countWords(option.text), 0);
+  return Math.max(MIN_EXPECTED_SECONDS, words / wordsPerSecond);
+}
+
+function signalResult(signal: IntegritySignal, value: number, threshold: number): IntegritySignalResult {
+  const closeness = threshold > 0 ? Math.min(1, value / threshold) : 0;
+  return {
+    signal,
+    value,
+    threshold,
+    flagged: value >= threshold,
+    points: Math.round(SIGNAL_WEIGHTS[signal] * closeness),
+  };
+}
+
+export function riskLevel(score: number): IntegrityRiskLevel {
+  if (score >= HIGH_RISK_FROM) return "high";
+  if (score >= MEDIUM_RISK_FROM) return "medium";
+  return "low";
+}
+
+interface IntegrityQuestion {
+  id: string;
+  questionText: string;
+  options: { text: string }[] | null;
+}
+
+interface IntegrityResponse {
+  attemptId: string;
+  questionId: string;
+  selectedAnswer: string | null;
+  isCorrect: boolean | null;
+  timeSpent: number | null;
+}
+
+interface IntegrityAttempt {
+  id: string;
+  studentId: string;
+  studentName: string;
+}
+
+/**
+ * Build the report for each attempt from its responses, its telemetry and the
+ * responses of the other attempts at the same quiz
+ */
+export function buildIntegrityReports(
+  attempts: IntegrityAttempt[],
+  quizQuestions: IntegrityQuestion[],
+  responses: IntegrityResponse[],
+  telemetry: Map<string, ProctoringFlagCount[]>,
+  thresholds: IntegrityThresholds
+): Map<string, IntegrityReport> {
+  const questionById = new Map(quizQuestions.map(question => [question.id, question]));
+  const answersByAttempt = new Map<string, Map<string, IntegrityResponse>>();
+  for (const response of responses) {
+    if (!response.selectedAnswer) continue;
+    const answers = answersByAttempt.get(response.attemptId) ?? new Map<string, IntegrityResponse>();
+    answers.set(response.questionId, response);
+    answersByAttempt.set(response.attemptId, answers);
+  }
+
+  const reports = new Map<string, IntegrityReport>();
+  for (const attempt of attempts) {
+    const answers = answersByAttempt.get(attempt.id) ?? new Map<string, IntegrityResponse>();
+    const events = telemetry.get(attempt.id) ?? [];
+    const eventCount = (...types: string[]) => events
+      .filter(event => types.includes(event.eventType))
+      .reduce((sum, event) => sum + event.count, 0);
+
+    // Attempts saved without per-question timing can't be judged on speed
+    const timed = Array.from(answers.values()).filter(response => response.timeSpent !== null);
+    const hasTiming = timed.some(response => (response.timeSpent ?? 0) > 0);
+    const fastAnswers: FastAnswer[] = [];
+    if (hasTiming) {
+      for (const response of timed) {
+        const question = questionById.get(response.questionId);
+        if (!question) continue;
+        const expectedSeconds = expectedReadingSeconds(question, thresholds.readingWordsPerSecond);
+        if (response.timeSpent! < expectedSeconds) {
+          fastAnswers.push({
+            questionId: question.id,
+            questionText: question.questionText,
+            timeSpent: response.timeSpent!,
+            expectedSeconds: Math.round(expectedSeconds * 10) / 10,
+          });
+        }
+      }
+    }
+    const timedAnswers = hasTiming ? timed.length : 0;
+    const fastShare = timedAnswers > 0 ? fastAnswers.length / timedAnswers : 0;
+
+    // Matching wrong answers are what gives copying away; matching right ones are expected.
+    // The student's own retakes aren't compared, since they'd repeat their own mistakes.
+    const similarAttempts: SimilarAttempt[] = [];
+    for (const other of attempts) {
+      if (other.id === attempt.id || other.studentId === attempt.studentId) continue;
+      const otherAnswers = answersByAttempt.get(other.id);
+      if (!otherAnswers) continue;
+
+      let compared = 0;
+      let shared = 0;
+      let sharedWrong = 0;
+      for (const [questionId, response] of answers) {
+        const otherResponse = otherAnswers.get(questionId);
+        if (!otherResponse) continue;
+        compared += 1;
+        if (otherResponse.selectedAnswer !== response.selectedAnswer) continue;
+        shared += 1;
+        if (response.isCorrect === false) sharedWrong += 1;
+      }
+      if (sharedWrong > 0) {
+        similarAttempts.push({
+          attemptId: other.id,
+          studentId: other.studentId,
+          studentName: other.studentName,
+          sharedWrongAnswers: sharedWrong,
+          sharedAnswers: shared,
+          comparedQuestions: compared,
+        });
+      }
+    }
+    similarAttempts.sort((a, b) => b.sharedWrongAnswers - a.sharedWrongAnswers || b.sharedAnswers - a.sharedAnswers);
+
+    const signals = [
+      signalResult("tab_switches", eventCount("user_tab_switch", "user_app_switch"), thresholds.tabSwitches),
+      signalResult("paste_events", eventCount("user_paste"), thresholds.pasteEvents),
+      signalResult("fast_answers", Math.round(fastShare * 100) / 100, thresholds.fastAnswerShare),
+      signalResult("shared_answers", similarAttempts[0]?.sharedWrongAnswers ?? 0, thresholds.sharedWrongAnswers),
+    ];
+    const riskScore = Math.min(100, signals.reduce((sum, signal) => sum + signal.points, 0));
+
+    reports.set(attempt.id, {
+      attemptId: attempt.id,
+      riskScore,
+      riskLevel: riskLevel(riskScore),
+      signals,
+      telemetry: events,
+      fastAnswers,
+      timedAnswers,
+      similarAttempts: similarAttempts.slice(0, MAX_SIMILAR_ATTEMPTS),
+    });
+  }
+  return reports;
+}
+
+/**
+ * Integrity reports for every completed exam attempt at a quiz, keyed by attempt id
+ */
+export async function fetchQuizIntegrityReports(quiz: typeof quizzes.$inferSelect): Promise<Map<string, IntegrityReport>> {
+  const attempts = await db
+    .select({ id: quizAttempts.id, studentId: quizAttempts.studentId, studentName: user.name })
+    .from(quizAttempts)
+    .innerJoin(user, eq(quizAttempts.studentId, user.id))
+    .where(and(
+      eq(quizAttempts.quizId, quiz.id),
+      eq(quizAttempts.mode, "exam"),
+      eq(quizAttempts.status, "completed")
+    ));
+  if (attempts.length === 0) return new Map();
+
+  const attemptIds = attempts.map(attempt => attempt.id);
+  const [quizQuestions, responses, telemetry] = await Promise.all([
+    db
+      .select({ id: questions.id, questionText: questions.questionText, options: questions.options })
+      .from(questions)
+      .where(eq(questions.quizId, quiz.id)),
+    db
+      .select({
+        attemptId: questionResponses.attemptId,
+        questionId: questionResponses.questionId,
+        selectedAnswer: questionResponses.selectedAnswer,
+        isCorrect: questionResponses.isCorrect,
+        timeSpent: questionResponses.timeSpent,
+      })
+      .from(questionResponses)
+      .where(inArray(questionResponses.attemptId, attemptIds)),
+    fetchAttemptFlagCounts(attemptIds),
+  ]);
+
+  return buildIntegrityReports(
+    attempts,
+    quizQuestions,
+    responses,
+    telemetry,
+    getIntegrityThresholds(quiz.configuration)
+  );
+}
+
+/**
+ * The headline numbers of a report, for lists of attempts
+ */
+export function summarizeIntegrity(report: IntegrityReport): IntegrityRisk {
+  return {
+    riskScore: report.riskScore,
+    riskLevel: report.riskLevel,
+    flags: report.signals.filter(signal => signal.flagged).map(signal => signal.signal),
+  };
+}
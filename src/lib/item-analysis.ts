@@ -0,0 +1,379 @@
+import { and, eq, gt, inArray, isNotNull, isNull, or } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { questionBank, questionResponses, questions, quizAttempts } from "@/lib/schema";
+import { logger } from "@/lib/logger";
+import {
+  decodeListAnswer,
+  getQuestionType,
+  TRUE_FALSE_OPTIONS,
+  type MultiSelectAnswerData,
+  type QuestionOption,
+  type QuestionType,
+} from "@/lib/question-types";
+
+/**
+ * Item analysis for quiz questions.
+ *
+ * Only completed exam attempts count. A question served in an attempt but left unanswered
+ * has no response row; it counts as omitted, and as wrong. For each question we report the
+ * difficulty index (proportion correct), point-biserial discrimination against the rest of the attempt,
+ * how often each option was picked and the average time spent. Questions are flagged
+ * once they have enough responses for the numbers to mean something.
+ */
+
+export type ItemFlag = "too_easy" | "too_hard" | "low_discrimination" | "distractor_beats_key";
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  too_easy: "Too easy",
+  too_hard: "Too hard",
+  low_discrimination: "Doesn't discriminate",
+  distractor_beats_key: "Distractor beats the key",
+};
+
+export const MIN_RESPONSES_FOR_FLAGS = 5;
+const TOO_EASY_ABOVE = 0.9;
+const TOO_HARD_BELOW = 0.3;
+const LOW_DISCRIMINATION_BELOW = 0.2;
+
+export interface OptionStatistics {
+  optionId: string;
+  text: string;
+  isCorrect: boolean;
+  count: number;
+  proportion: number; // Share of responses that picked this option, 0-1
+}
+
+export interface ItemStatistics {
+  questionId: string;
+  questionText: string;
+  questionType: QuestionType;
+  orderIndex: number;
+  bankItemId: string | null;
+  responses: number; // Attempts the item was served in, omissions included
+  correct: number;
+  omitted: number;
+  difficultyIndex: number | null; // Proportion correct, 0-1
+  discrimination: number | null; // Point-biserial, -1 to 1
+  averageTimeSpent: number | null; // Seconds
+  options: OptionStatistics[]; // Empty for types without fixed options to choose from
+  flags: ItemFlag[];
+}
+
+export interface ItemAnalysisQuestion {
+  id: string;
+  questionText: string;
+  questionType: string | null;
+  options: QuestionOption[];
+  correctAnswer: string;
+  answerData?: unknown;
+  orderIndex: number;
+  bankItemId: string | null;
+}
+
+export interface ItemAnalysisResponse {
+  attemptId: string;
+  questionId: string;
+  selectedAnswer: string | null;
+  isCorrect: boolean | null;
+  timeSpent: number | null;
+}
+
+export interface ItemAnalysisAttempt {
+  attemptId: string;
+  questionOrder: { questionId: string }[] | null; // Questions served, in order
+  totalQuestions: number | null;
+}
+
+/**
+ * Pearson correlation of a 0/1 item score with a continuous score.
+ * Null when either side has no variance.
+ */
+function pointBiserial(pairs: { correct: boolean; score: number }[]): number | null {
+  if (pairs.length < 2) return null;
+  const n = pairs.length;
+  const mean = pairs.reduce((sum, pair) => sum + pair.score, 0) / n;
+  const variance = pairs.reduce((sum, pair) => sum + (pair.score - mean) ** 2, 0) / n;
+  const right = pairs.filter(pair => pair.correct);
+  const p = right.length / n;
+  if (variance === 0 || p === 0 || p === 1) return null;
+
+  const meanRight = right.reduce((sum, pair) => sum + pair.score, 0) / right.length;
+  const wrong = pairs.filter(pair => !pair.correct);
+  const meanWrong = wrong.reduce((sum, pair) => sum + pair.score, 0) / wrong.length;
+  return ((meanRight - meanWrong) / Math.sqrt(variance)) * Math.sqrt(p * (1 - p));
+}
+
+function choiceOptions(question: ItemAnalysisQuestion, type: QuestionType): QuestionOption[] {
+  if (type === "true_false") return question.options?.length ? question.options : TRUE_FALSE_OPTIONS;
+  if (type === "multiple_choice" || type === "multi_select") return question.options ?? [];
+  return [];
+}
+
+function correctOptionIds(question: ItemAnalysisQuestion, type: QuestionType): Set<string> {
+  if (type === "multi_select") {
+    return new Set((question.answerData as MultiSelectAnswerData | null)?.correctOptionIds ?? []);
+  }
+  return new Set([question.correctAnswer]);
+}
+
+export function flagItem(stats: Pick<ItemStatistics, "responses" | "difficultyIndex" | "discrimination" | "options">): ItemFlag[] {
+  if (stats.responses < MIN_RESPONSES_FOR_FLAGS || stats.difficultyIndex === null) return [];
+
+  const flags: ItemFlag[] = [];
+  if (stats.difficultyIndex > TOO_EASY_ABOVE) flags.push("too_easy");
+  if (stats.difficultyIndex < TOO_HARD_BELOW) flags.push("too_hard");
+  if (stats.discrimination !== null && stats.discrimination < LOW_DISCRIMINATION_BELOW) flags.push("low_discrimination");
+
+  // A wrong option picked more often than the (least popular) right one
+  const keyed = stats.options.filter(option => option.isCorrect);
+  const weakestKey = keyed.length > 0 ? Math.min(...keyed.map(option => option.count)) : null;
+  if (weakestKey !== null && stats.options.some(option => !option.isCorrect && option.count > weakestKey)) {
+    flags.push("distractor_beats_key");
+  }
+  return flags;
+}
+
+/**
+ * Questions an attempt was served. Attempts from before the order was stored were served the
+ * whole quiz, unless it has grown since; then it's unknown and only their answers count.
+ */
+function servedQuestionIds(attempt: ItemAnalysisAttempt, items: ItemAnalysisQuestion[]): string[] {
+  if (attempt.questionOrder?.length) return attempt.questionOrder.map(question => question.questionId);
+  if (attempt.totalQuestions === null || attempt.totalQuestions >= items.length) return items.map(item => item.id);
+  return [];
+}
+
+/**
+ * Item statistics for one quiz's questions from its exam responses.
+ * Questions the attempts were served but didn't answer are added as omitted, wrong responses.
+ * Discrimination correlates each item with the student's proportion correct on the
+ * other items of the same attempt, so an item never correlates with itself.
+ */
+export function analyzeItems(
+  items: ItemAnalysisQuestion[],
+  answered: ItemAnalysisResponse[],
+  attempts: ItemAnalysisAttempt[] = []
+): ItemStatistics[] {
+  const itemIds = new Set(items.map(item => item.id));
+  const answeredKeys = new Set(answered.map(response => `${response.attemptId}:${response.questionId}`));
+  const omissions = attempts.flatMap(attempt => servedQuestionIds(attempt, items)
+    .filter(questionId => itemIds.has(questionId) && !answeredKeys.has(`${attempt.attemptId}:${questionId}`))
+    .map((questionId): ItemAnalysisResponse => ({
+      attemptId: attempt.attemptId,
+      questionId,
+      selectedAnswer: null,
+      isCorrect: false,
+      timeSpent: null,
+    })));
+  const responses = [...answered, ...omissions];
+
+  const attemptTotals = new Map<string, { correct: number; answered: number }>();
+  for (const response of responses) {
+    const total = attemptTotals.get(response.attemptId) ?? { correct: 0, answered: 0 };
+    total.answered += 1;
+    if (response.isCorrect) total.correct += 1;
+    attemptTotals.set(response.attemptId, total);
+  }
+
+  const byQuestion = new Map<string, ItemAnalysisResponse[]>();
+  for (const response of responses) {
+    const list = byQuestion.get(response.questionId) ?? [];
+    list.push(response);
+    byQuestion.set(response.questionId, list);
+  }
+
+  return items.map(question => {
+    const type = getQuestionType(question);
+    const itemResponses = byQuestion.get(question.id) ?? [];
+    const correct = itemResponses.filter(response => response.isCorrect).length;
+    const omitted = itemResponses.filter(response => !response.selectedAnswer).length;
+
+    const restScores: { correct: boolean; score: number }[] = [];
+    for (const response of itemResponses) {
+      const total = attemptTotals.get(response.attemptId)!;
+      if (total.answered < 2) continue;
+      const itemCorrect = response.isCorrect ? 1 : 0;
+      restScores.push({ correct: !!response.isCorrect, score: (total.correct - itemCorrect) / (total.answered - 1) });
+    }
+
+    const keys = correctOptionIds(question, type);
+    const counts = new Map<string, number>();
+    for (const response of itemResponses) {
+      if (!response.selectedAnswer) continue;
+      const picked = type === "multi_select" ? decodeListAnswer(response.selectedAnswer) : [response.selectedAnswer];
+      for (const optionId of new Set(picked)) counts.set(optionId, (counts.get(optionId) ?? 0) + 1);
+    }
+    const options = choiceOptions(question, type).map(option => ({
+      optionId: option.id,
+      text: option.text,
+      isCorrect: keys.has(option.id),
+      count: counts.get(option.id) ?? 0,
+      proportion: itemResponses.length > 0 ? (counts.get(option.id) ?? 0) / itemResponses.length : 0,
+    }));
+
+    const timed = itemResponses.filter(response => response.timeSpent !== null && response.timeSpent >= 0);
+    const stats = {
+      questionId: question.id,
+      questionText: question.questionText,
+      questionType: type,
+      orderIndex: question.orderIndex,
+      bankItemId: question.bankItemId,
+      responses: itemResponses.length,
+      correct,
+      omitted,
+      difficultyIndex: itemResponses.length > 0 ? correct / itemResponses.length : null,
+      discrimination: pointBiserial(restScores),
+      averageTimeSpent: timed.length > 0
+        ? timed.reduce((sum, response) => sum + (response.timeSpent ?? 0), 0) / timed.length
+        : null,
+      options,
+    };
+    return { ...stats, flags: flagItem(stats) };
+  });
+}
+
+async function fetchAttempts(quizIds: string[], language?: string | null): Promise<(ItemAnalysisAttempt & { quizId: string })[]> {
+  if (quizIds.length === 0) return [];
+  return db
+    .select({
+      quizId: quizAttempts.quizId,
+      attemptId: quizAttempts.id,
+      questionOrder: quizAttempts.questionOrder,
+      totalQuestions: quizAttempts.totalQuestions,
+    })
+    .from(quizAttempts)
+    .where(and(
+      inArray(quizAttempts.quizId, quizIds),
+      eq(quizAttempts.status, "completed"),
+      eq(quizAttempts.mode, "exam"),
+      language ? eq(quizAttempts.language, language) : undefined
+    ));
+}
+
+async function fetchResponses(quizIds: string[], language?: string | null): Promise<(ItemAnalysisResponse & { quizId: string })[]> {
+  if (quizIds.length === 0) return [];
+  return db
+    .select({
+      quizId: quizAttempts.quizId,
+      attemptId: questionResponses.attemptId,
+      questionId: questionResponses.questionId,
+      selectedAnswer: questionResponses.selectedAnswer,
+      isCorrect: questionResponses.isCorrect,
+      timeSpent: questionResponses.timeSpent,
+    })
+    .from(questionResponses)
+    .innerJoin(quizAttempts, eq(questionResponses.attemptId, quizAttempts.id))
+    .where(and(
+      inArray(quizAttempts.quizId, quizIds),
+      eq(quizAttempts.status, "completed"),
+      eq(quizAttempts.mode, "exam"),
+      language ? eq(quizAttempts.language, language) : undefined
+    ));
+}
+
+/**
+ * Item statistics for every question of a quiz, in question order.
+ * With a language, only attempts taken in that language are counted.
+ */
+export async function fetchQuizItemAnalysis(quizId: string, language?: string | null): Promise<ItemStatistics[]> {
+  const [quizQuestions, responses, attempts] = await Promise.all([
+    db.select().from(questions).where(eq(questions.quizId, quizId)).orderBy(questions.orderIndex),
+    fetchResponses([quizId], language),
+    fetchAttempts([quizId], language),
+  ]);
+  return analyzeItems(quizQuestions, responses, attempts);
+}
+
+/**
+ * Recompute the ratings of bank items from every quiz they were used in.
+ * Each quiz is analyzed on its own, since discrimination only makes sense within a
+ * quiz, and the results are combined weighted by response count.
+ */
+export async function refreshBankItemStatistics(bankItemIds: string[]): Promise<void> {
+  const ids = Array.from(new Set(bankItemIds));
+  if (ids.length === 0) return;
+
+  const linked = await db
+    .select({ quizId: questions.quizId })
+    .from(questions)
+    .where(and(isNotNull(questions.bankItemId), inArray(questions.bankItemId, ids)));
+  const quizIds = Array.from(new Set(linked.map(row => row.quizId)));
+  if (quizIds.length === 0) return;
+
+  const [quizQuestions, responses, attempts] = await Promise.all([
+    db.select().from(questions).where(inArray(questions.quizId, quizIds)),
+    fetchResponses(quizIds),
+    fetchAttempts(quizIds),
+  ]);
+
+  const perItem = new Map<string, ItemStatistics[]>();
+  for (const quizId of quizIds) {
+    const stats = analyzeItems(
+      quizQuestions.filter(question => question.quizId === quizId),
+      responses.filter(response => response.quizId === quizId),
+      attempts.filter(attempt => attempt.quizId === quizId)
+    );
+    for (const item of stats) {
+      if (!item.bankItemId || !ids.includes(item.bankItemId) || item.responses === 0) continue;
+      perItem.set(item.bankItemId, [...(perItem.get(item.bankItemId) ?? []), item]);
+    }
+  }
+
+  const now = new Date();
+  await Promise.all(ids.map(bankItemId => {
+    const uses = perItem.get(bankItemId) ?? [];
+    const responseCount = uses.reduce((sum, item) => sum + item.responses, 0);
+    const correct = uses.reduce((sum, item) => sum + item.correct, 0);
+    const discriminated = uses.filter(item => item.discrimination !== null);
+    const discriminatedResponses = discriminated.reduce((sum, item) => sum + item.responses, 0);
+    const difficultyIndex = responseCount > 0 ? correct / responseCount : null;
+    const discriminationIndex = discriminatedResponses > 0
+      ? discriminated.reduce((sum, item) => sum + item.discrimination! * item.responses, 0) / discriminatedResponses
+      : null;
+
+    // Option counts line up across quizzes because items are copied with their option ids
+    const options = new Map<string, OptionStatistics>();
+    for (const item of uses) {
+      for (const option of item.options) {
+        const merged = options.get(option.optionId) ?? { ...option, count: 0, proportion: 0 };
+        merged.count += option.count;
+        options.set(option.optionId, merged);
+      }
+    }
+
+    return db
+      .update(questionBank)
+      .set({
+        responseCount,
+        difficultyIndex,
+        discriminationIndex,
+        itemFlags: flagItem({ responses: responseCount, difficultyIndex, discrimination: discriminationIndex, options: Array.from(options.values()) }),
+        statsUpdatedAt: now,
+      })
+      .where(eq(questionBank.id, bankItemId));
+  }));
+
+  logger.info("Refreshed question bank item statistics", { items: ids.length, quizzes: quizIds.length });
+}
+
+/**
+ * Refresh the ratings of bank items used in quizzes with exam attempts completed since the
+ * item's statistics were last updated. Run from a cron so viewing results never writes.
+ */
+export async function refreshStaleBankItemStatistics(limit = 200): Promise<number> {
+  const stale = await db
+    .selectDistinct({ bankItemId: questionBank.id })
+    .from(quizAttempts)
+    .innerJoin(questions, eq(questions.quizId, quizAttempts.quizId))
+    .innerJoin(questionBank, eq(questionBank.id, questions.bankItemId))
+    .where(and(
+      eq(quizAttempts.status, "completed"),
+      eq(quizAttempts.mode, "exam"),
+      or(isNull(questionBank.statsUpdatedAt), gt(quizAttempts.endTime, questionBank.statsUpdatedAt))
+    ))
+    .limit(limit);
+
+  const ids = stale.map(row => row.bankItemId);
+  await refreshBankItemStatistics(ids);
+  return ids.length;
+}
@@ -0,0 +1,140 @@
+import { eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { adminSettings } from "@/lib/schema";
+import {
+  BUILT_IN_LANGUAGES,
+  ENGLISH,
+  LANGUAGE_SCRIPTS,
+  languageDisplay,
+  type LanguageDefinition,
+  type LanguageDisplay,
+} from "@/lib/languages";
+
+// The translation languages as configured by admins, stored as one admin setting.
+// Built-in languages missing from the setting (e.g. added in a later release) are appended.
+
+const SETTING_KEY = "translation_languages";
+const CACHE_DURATION = 60000; // 1 minute cache
+
+let registryCache: { languages: LanguageDefinition[]; lastChecked: number } | null = null;
+
+const LanguageDefinitionSchema = z.object({
+  code: z.string().regex(/^[a-z]{2,3}$/, "Language codes are two or three lowercase letters (ISO 639)"),
+  name: z.string().trim().min(1).max(50),
+  nativeName: z.string().trim().min(1).max(50),
+  direction: z.enum(["ltr", "rtl"]),
+  script: z.enum(LANGUAGE_SCRIPTS),
+  locale: z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, "Locale must be a BCP 47 tag such as te-IN"),
+  enabled: z.boolean(),
+}).strict();
+
+const LanguageRegistrySchema = z.array(LanguageDefinitionSchema).max(100);
+
+function withBuiltIns(saved: LanguageDefinition[]): LanguageDefinition[] {
+  const codes = new Set(saved.map(language => language.code));
+  return [...saved, ...BUILT_IN_LANGUAGES.filter(language => !codes.has(language.code))];
+}
+
+/**
+ * Every translation language, enabled or not, in the order admins arranged them
+ */
+export async function getLanguageRegistry(): Promise<LanguageDefinition[]> {
+  if (registryCache && Date.now() - registryCache.lastChecked < CACHE_DURATION) {
+    return registryCache.languages;
+  }
+
+  const [setting] = await db
+    .select()
+    .from(adminSettings)
+    .where(eq(adminSettings.settingKey, SETTING_KEY))
+    .limit(1);
+
+  // A setting that no longer validates (e.g. hand-edited) falls back to the built-ins
+  const parsed = LanguageRegistrySchema.safeParse(setting?.settingValue);
+  const languages = withBuiltIns(parsed.success ? parsed.data : []);
+
+  registryCache = { languages, lastChecked: Date.now() };
+  return languages;
+}
+
+export async function getEnabledLanguages(): Promise<LanguageDefinition[]> {
+  return (await getLanguageRegistry()).filter(language => language.enabled);
+}
+
+/**
+ * A language by code, including English and disabled languages
+ */
+export async function findLanguage(code: string | null | undefined): Promise<LanguageDefinition | null> {
+  if (!code) return null;
+  if (code === ENGLISH.code) return ENGLISH;
+  return (await getLanguageRegistry()).find(language => language.code === code) ?? null;
+}
+
+/**
+ * How to render text in a language. A custom language removed since keeps its code
+ * but renders like English.
+ */
+export async function getLanguageDisplay(code: string | null | undefined): Promise<LanguageDisplay> {
+  const language = await findLanguage(code);
+  return language ? languageDisplay(language) : { ...languageDisplay(ENGLISH), code: code || ENGLISH.code };
+}
+
+/**
+ * An enabled translation language by code; English isn't one
+ */
+export async function findEnabledLanguage(code: unknown): Promise<LanguageDefinition | null> {
+  if (typeof code !== "string") return null;
+  return (await getEnabledLanguages()).find(language => language.code === code) ?? null;
+}
+
+export function parseLanguageRegistry(input: unknown): { languages: LanguageDefinition[] } | { error: string } {
+  const parsed = LanguageRegistrySchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: issue ? `${issue.path.join(".") || "languages"}: ${issue.message}` : "Invalid languages" };
+  }
+
+  const codes = parsed.data.map(language => language.code);
+  if (codes.includes(ENGLISH.code)) {
+    return { error: "English is the original language and can't be configured" };
+  }
+  const duplicate = codes.find((code, index) => codes.indexOf(code) !== index);
+  if (duplicate) {
+    return { error: `Language "${duplicate}" is listed twice` };
+  }
+
+  return { languages: parsed.data };
+}
+
+export async function saveLanguageRegistry(languages: LanguageDefinition[]): Promise<LanguageDefinition[]> {
+  const [existing] = await db
+    .select({ id: adminSettings.id })
+    .from(adminSettings)
+    .where(eq(adminSettings.settingKey, SETTING_KEY))
+    .limit(1);
+
+  if (existing) {
+    await db
+      .update(adminSettings)
+      .set({ settingValue: languages, updatedAt: new Date() })
+      .where(eq(adminSettings.id, existing.id));
+  } else {
+    await db.insert(adminSettings).values({
+      id: nanoid(),
+      settingKey: SETTING_KEY,
+      settingValue: languages,
+      description: "Languages quizzes can be translated into",
+      updatedAt: new Date(),
+    });
+  }
+
+  clearLanguageRegistryCache();
+  return getLanguageRegistry();
+}
+
+// Function to clear the cache (useful when admin updates settings)
+export function clearLanguageRegistryCache() {
+  registryCache = null;
+}
@@ -0,0 +1,98 @@
+// Languages quizzes can be translated into, with the writing direction, script and locale
+// each one needs to render properly. This is the built-in catalogue; admins can rename,
+// disable or add languages (see lib/language-registry.ts). No server-only imports.
+
+export type TextDirection = "ltr" | "rtl";
+
+export const LANGUAGE_SCRIPTS = [
+  "latin",
+  "malayalam",
+  "tamil",
+  "devanagari",
+  "telugu",
+  "kannada",
+  "bengali",
+  "arabic",
+  "hebrew",
+] as const;
+
+export type LanguageScript = typeof LANGUAGE_SCRIPTS[number];
+
+export const SCRIPT_LABELS: Record<LanguageScript, string> = {
+  latin: "Latin",
+  malayalam: "Malayalam",
+  tamil: "Tamil",
+  devanagari: "Devanagari",
+  telugu: "Telugu",
+  kannada: "Kannada",
+  bengali: "Bengali",
+  arabic: "Arabic",
+  hebrew: "Hebrew",
+};
+
+export interface LanguageDefinition {
+  code: string; // ISO 639 code, stored on translations and attempts
+  name: string; // English name, shown to educators
+  nativeName: string; // Shown to students
+  direction: TextDirection;
+  script: LanguageScript; // Picks the font, see globals.css
+  locale: string; // BCP 47 tag for the lang attribute and number formatting
+  enabled: boolean; // Disabled languages keep their translations but aren't offered
+}
+
+/** What a page needs to render text in a language */
+export type LanguageDisplay = Pick<LanguageDefinition, "code" | "direction" | "script" | "locale">;
+
+// Questions are written in English
+export const ENGLISH: LanguageDefinition = {
+  code: "en",
+  name: "English",
+  nativeName: "English",
+  direction: "ltr",
+  script: "latin",
+  locale: "en",
+  enabled: true,
+};
+
+export const BUILT_IN_LANGUAGES: LanguageDefinition[] = [
+  { code: "ml", name: "Malayalam", nativeName: "മലയാളം", direction: "ltr", script: "malayalam", locale: "ml-IN", enabled: true },
+  { code: "ta", name: "Tamil", nativeName: "தமிழ்", direction: "ltr", script: "tamil", locale: "ta-IN", enabled: true },
+  { code: "hi", name: "Hindi", nativeName: "हिन्दी", direction: "ltr", script: "devanagari", locale: "hi-IN", enabled: true },
+  { code: "te", name: "Telugu", nativeName: "తెలుగు", direction: "ltr", script: "telugu", locale: "te-IN", enabled: true },
+  { code: "kn", name: "Kannada", nativeName: "ಕನ್ನಡ", direction: "ltr", script: "kannada", locale: "kn-IN", enabled: true },
+  { code: "bn", name: "Bengali", nativeName: "বাংলা", direction: "ltr", script: "bengali", locale: "bn-IN", enabled: true },
+  { code: "fr", name: "French", nativeName: "Français", direction: "ltr", script: "latin", locale: "fr", enabled: true },
+  { code: "es", name: "Spanish", nativeName: "Español", direction: "ltr", script: "latin", locale: "es", enabled: true },
+  { code: "ar", name: "Arabic", nativeName: "العربية", direction: "rtl", script: "arabic", locale: "ar", enabled: true },
+  { code: "he", name: "Hebrew", nativeName: "עברית", direction: "rtl", script: "hebrew", locale: "he-IL", enabled: true },
+];
+
+export function isLanguageScript(value: unknown): value is LanguageScript {
+  return typeof value === "string" && (LANGUAGE_SCRIPTS as readonly string[]).includes(value);
+}
+
+export function languageDisplay(language: LanguageDefinition): LanguageDisplay {
+  return {
+    code: language.code,
+    direction: language.direction,
+    script: language.script,
+    locale: language.locale,
+  };
+}
+
+/**
+ * Attributes for an element holding text in a language: `lang` for shaping and
+ * hyphenation, `dir` for right-to-left scripts and `data-script` for the font
+ */
+export function languageAttributes(language: LanguageDisplay | null | undefined): {
+  lang: string;
+  dir: TextDirection;
+  "data-script": LanguageScript;
+} {
+  const display = language ?? ENGLISH;
+  return {
+    lang: display.locale,
+    dir: display.direction,
+    "data-script": display.script,
+  };
+}
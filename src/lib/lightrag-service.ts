@@ -73,6 +73,8 @@ export interface ClearDocumentsResponse {
   cleared_count?: number;
 }
 
+export type LightRAGQueryMode = "local" | "global" | "hybrid" | "naive" | "mix";
+
 export interface UploadDocumentResponse {
   status: "success" | "duplicated" | "partial_success" | "failure";
   message: string;
@@ -575,6 +577,40 @@ export class LightRAGService {
     }
   }
 
+  /**
+   * Retrieve the passages LightRAG would answer a query from, without generating an answer.
+   * Used by the built-in question generator to ground questions in the uploaded documents.
+   */
+  static async queryContext(query: string, options: { mode?: LightRAGQueryMode; topK?: number } = {}): Promise<string> {
+    validateApiKey();
+    try {
+      const response = await fetch(`${LIGHTRAG_BASE_URL}/query`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': LIGHTRAG_API_KEY
+        },
+        body: JSON.stringify({
+          query,
+          mode: options.mode || 'mix',
+          only_need_context: true,
+          top_k: options.topK || 20
+        }),
+        signal: AbortSignal.timeout(60000)
+      });
+
+      if (!response.ok) {
+        throw new Error(`LightRAG query error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return typeof data?.response === 'string' ? data.response : '';
+    } catch (error) {
+      logger.error('Error querying LightRAG context:', error);
+      throw error;
+    }
+  }
+
   static extractEntitiesFromText(text: string): string[] {
     // Basic entity extraction - looks for proper nouns and key terms
     // This could be enhanced with more sophisticated NLP
@@ -0,0 +1,448 @@
+import { and, asc, count, desc, eq, gt, inArray, sql } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { liveAnswers, liveParticipants, liveSessions, questions, quizzes } from "@/lib/schema";
+import { logger } from "@/lib/logger";
+import { getQuestionType, isAnswerCorrect, TRUE_FALSE_OPTIONS, type QuestionOption } from "@/lib/question-types";
+import { getBroadcaster } from "@/lib/websocket-server";
+
+/**
+ * Live, host-paced quiz sessions.
+ *
+ * The educator projects the session and moves it lobby -> question -> leaderboard ->
+ * question ... -> ended. Students join with a short code and answer each question
+ * while its timer runs; a right answer scores 500 points plus up to 500 more for speed.
+ * Every state change is pushed to the host and participants as a `live_session`
+ * message, and clients fetch their own view of the session when they get one.
+ */
+
+export type LiveSession = typeof liveSessions.$inferSelect;
+export type LiveSessionStatus = LiveSession["status"];
+export type LiveAction = "start" | "reveal" | "next" | "end";
+
+export const LIVE_QUESTION_TYPES = ["multiple_choice", "true_false"] as const;
+export const MIN_SECONDS_PER_QUESTION = 5;
+export const MAX_SECONDS_PER_QUESTION = 120;
+export const DEFAULT_SECONDS_PER_QUESTION = 20;
+
+const JOIN_CODE_LENGTH = 6;
+const JOIN_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I
+const MAX_JOIN_CODE_TRIES = 5;
+const ANSWER_GRACE_MS = 1000; // Allowance for network latency at the buzzer
+const BASE_POINTS = 500;
+const SPEED_POINTS = 500;
+const LEADERBOARD_SIZE = 10;
+
+export class LiveSessionError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "LiveSessionError";
+  }
+}
+
+export interface LiveQuestionView {
+  id: string;
+  index: number;
+  questionText: string;
+  questionType: string;
+  options: QuestionOption[];
+}
+
+export interface LeaderboardEntry {
+  participantId: string;
+  displayName: string;
+  score: number;
+  rank: number;
+}
+
+export interface LiveSessionSummary {
+  id: string;
+  quizTitle: string;
+  joinCode: string;
+  status: LiveSessionStatus;
+  currentIndex: number;
+  totalQuestions: number;
+  secondsPerQuestion: number;
+  questionEndsAt: Date | null;
+  serverTime: Date; // Lets clients correct the countdown for clock skew
+}
+
+function generateJoinCode(): string {
+  const bytes = crypto.randomBytes(JOIN_CODE_LENGTH);
+  return Array.from(bytes, byte => JOIN_CODE_CHARS[byte % JOIN_CODE_CHARS.length]).join("");
+}
+
+export function normalizeJoinCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Points for an answer: nothing when wrong, otherwise the base plus a share of the
+ * speed bonus that shrinks linearly over the question's time limit
+ */
+export function livePoints(isCorrect: boolean, elapsedMs: number, limitMs: number): number {
+  if (!isCorrect) return 0;
+  const remaining = Math.min(1, Math.max(0, 1 - elapsedMs / limitMs));
+  return Math.round(BASE_POINTS + SPEED_POINTS * remaining);
+}
+
+function questionOptions(question: { questionType: string | null; options: QuestionOption[] }): QuestionOption[] {
+  if (getQuestionType(question) === "true_false" && !question.options?.length) return TRUE_FALSE_OPTIONS;
+  return question.options ?? [];
+}
+
+function currentQuestionId(session: LiveSession): string | null {
+  return session.currentIndex >= 0 ? session.questionIds[session.currentIndex] ?? null : null;
+}
+
+async function publishLiveUpdate(session: LiveSession, event: string, hostOnly = false) {
+  const message = {
+    type: "live_session",
+    data: { sessionId: session.id, status: session.status, currentIndex: session.currentIndex, event },
+    timestamp: Date.now(),
+  };
+  const broadcaster = getBroadcaster();
+  broadcaster.sendToUser(session.educatorId, message);
+  if (hostOnly) return;
+
+  const participants = await db
+    .select({ studentId: liveParticipants.studentId })
+    .from(liveParticipants)
+    .where(eq(liveParticipants.sessionId, session.id));
+  for (const participant of participants) {
+    broadcaster.sendToUser(participant.studentId, message);
+  }
+}
+
+/**
+ * Open a lobby for one of the educator's quizzes. Only question types that can be
+ * answered with a single tap are played; the rest are left out.
+ */
+export async function createLiveSession(
+  educatorId: string,
+  quizId: string,
+  secondsPerQuestion = DEFAULT_SECONDS_PER_QUESTION
+): Promise<LiveSession> {
+  const [quiz] = await db
+    .select({ id: quizzes.id, educatorId: quizzes.educatorId })
+    .from(quizzes)
+    .where(eq(quizzes.id, quizId))
+    .limit(1);
+  if (!quiz) throw new LiveSessionError("Quiz not found", 404);
+  if (quiz.educatorId !== educatorId) throw new LiveSessionError("You don't own this quiz", 403);
+
+  const playable = await db
+    .select({ id: questions.id })
+    .from(questions)
+    .where(and(eq(questions.quizId, quizId), inArray(questions.questionType, [...LIVE_QUESTION_TYPES])))
+    .orderBy(asc(questions.orderIndex));
+  if (playable.length === 0) {
+    throw new LiveSessionError("This quiz has no multiple choice or true/false questions to play live");
+  }
+
+  const seconds = Math.min(MAX_SECONDS_PER_QUESTION, Math.max(MIN_SECONDS_PER_QUESTION, Math.round(secondsPerQuestion)));
+
+  // Codes are short, so retry the rare collision with an open session
+  for (let attempt = 0; attempt < MAX_JOIN_CODE_TRIES; attempt++) {
+    const [session] = await db
+      .insert(liveSessions)
+      .values({
+        id: crypto.randomUUID(),
+        quizId,
+        educatorId,
+        joinCode: generateJoinCode(),
+        questionIds: playable.map(question => question.id),
+        secondsPerQuestion: seconds,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (session) {
+      logger.info("Live session opened", { sessionId: session.id, quizId, questions: playable.length });
+      return session;
+    }
+  }
+  throw new LiveSessionError("Couldn't allocate a join code, please try again", 503);
+}
+
+export async function getLiveSession(sessionId: string): Promise<LiveSession | null> {
+  const [session] = await db.select().from(liveSessions).where(eq(liveSessions.id, sessionId)).limit(1);
+  return session ?? null;
+}
+
+/**
+ * Move the session on. The update only applies if the session is still where the host
+ * saw it, so a double click can't skip a question.
+ */
+export async function advanceLiveSession(session: LiveSession, action: LiveAction): Promise<LiveSession> {
+  const now = new Date();
+  let changes: Partial<typeof liveSessions.$inferInsert>;
+
+  if (action === "end") {
+    if (session.status === "ended") return session;
+    changes = { status: "ended", endedAt: now, questionEndsAt: null };
+  } else if (action === "reveal") {
+    if (session.status !== "question") throw new LiveSessionError("There's no open question to close", 409);
+    changes = { status: "leaderboard", questionEndsAt: now < session.questionEndsAt! ? now : session.questionEndsAt };
+  } else {
+    const expected = action === "start" ? "lobby" : "leaderboard";
+    if (session.status !== expected) {
+      throw new LiveSessionError(action === "start" ? "This session has already started" : "Close the current question first", 409);
+    }
+    const nextIndex = session.currentIndex + 1;
+    changes = nextIndex >= session.questionIds.length
+      ? { status: "ended", endedAt: now, questionEndsAt: null }
+      : {
+          status: "question",
+          currentIndex: nextIndex,
+          questionStartedAt: now,
+          questionEndsAt: new Date(now.getTime() + session.secondsPerQuestion * 1000),
+        };
+  }
+
+  const [updated] = await db
+    .update(liveSessions)
+    .set({ ...changes, updatedAt: now })
+    .where(and(
+      eq(liveSessions.id, session.id),
+      eq(liveSessions.status, session.status),
+      eq(liveSessions.currentIndex, session.currentIndex)
+    ))
+    .returning();
+  if (!updated) throw new LiveSessionError("The session moved on in the meantime, refresh and try again", 409);
+
+  await publishLiveUpdate(updated, action);
+  return updated;
+}
+
+/**
+ * Join a session by code. Joining again returns the existing participant.
+ */
+export async function joinLiveSession(
+  joinCode: string,
+  student: { id: string; name: string | null; email: string }
+): Promise<{ session: LiveSession; participantId: string }> {
+  const [session] = await db
+    .select()
+    .from(liveSessions)
+    .where(eq(liveSessions.joinCode, normalizeJoinCode(joinCode)))
+    .limit(1);
+  if (!session || session.status === "ended") throw new LiveSessionError("No live session is running with that code", 404);
+
+  const participantId = `${session.id}:${student.id}`;
+  const [joined] = await db
+    .insert(liveParticipants)
+    .values({
+      id: participantId,
+      sessionId: session.id,
+      studentId: student.id,
+      displayName: student.name?.trim() || student.email.split("@")[0],
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (joined) await publishLiveUpdate(session, "join", true);
+  return { session, participantId };
+}
+
+/**
+ * Record a participant's answer to the open question. Only the first answer counts.
+ */
+export async function submitLiveAnswer(
+  session: LiveSession,
+  studentId: string,
+  questionId: string,
+  answer: string
+): Promise<{ accepted: true }> {
+  const now = new Date();
+  if (session.status !== "question" || currentQuestionId(session) !== questionId) {
+    throw new LiveSessionError("This question is closed", 409);
+  }
+  if (session.questionEndsAt && now.getTime() > session.questionEndsAt.getTime() + ANSWER_GRACE_MS) {
+    throw new LiveSessionError("Time's up for this question", 409);
+  }
+
+  const participantId = `${session.id}:${studentId}`;
+  const [participant] = await db
+    .select({ id: liveParticipants.id })
+    .from(liveParticipants)
+    .where(eq(liveParticipants.id, participantId))
+    .limit(1);
+  if (!participant) throw new LiveSessionError("Join the session before answering", 403);
+
+  const [question] = await db.select().from(questions).where(eq(questions.id, questionId)).limit(1);
+  if (!question) throw new LiveSessionError("Question not found", 404);
+
+  const isCorrect = isAnswerCorrect(question, answer);
+  const elapsedMs = Math.max(0, now.getTime() - (session.questionStartedAt?.getTime() ?? now.getTime()));
+  const points = livePoints(isCorrect, elapsedMs, session.secondsPerQuestion * 1000);
+
+  const [recorded] = await db
+    .insert(liveAnswers)
+    .values({
+      id: `${participantId}:${questionId}`,
+      sessionId: session.id,
+      participantId,
+      questionId,
+      selectedAnswer: answer,
+      isCorrect,
+      points,
+      responseTimeMs: elapsedMs,
+      answeredAt: now,
+    })
+    .onConflictDoNothing()
+    .returning({ id: liveAnswers.id });
+  if (!recorded) throw new LiveSessionError("You've already answered this question", 409);
+
+  if (points > 0) {
+    await db
+      .update(liveParticipants)
+      .set({ score: sql`${liveParticipants.score} + ${points}` })
+      .where(eq(liveParticipants.id, participantId));
+  }
+
+  await publishLiveUpdate(session, "answer", true);
+  return { accepted: true };
+}
+
+export async function getLeaderboard(sessionId: string, limit = LEADERBOARD_SIZE): Promise<LeaderboardEntry[]> {
+  const rows = await db
+    .select({ participantId: liveParticipants.id, displayName: liveParticipants.displayName, score: liveParticipants.score })
+    .from(liveParticipants)
+    .where(eq(liveParticipants.sessionId, sessionId))
+    .orderBy(desc(liveParticipants.score), asc(liveParticipants.joinedAt))
+    .limit(limit);
+
+  // Tied scores share a rank
+  return rows.map(row => ({ ...row, rank: rows.findIndex(other => other.score === row.score) + 1 }));
+}
+
+async function summarize(session: LiveSession): Promise<LiveSessionSummary> {
+  const [quiz] = await db.select({ title: quizzes.title }).from(quizzes).where(eq(quizzes.id, session.quizId)).limit(1);
+  return {
+    id: session.id,
+    quizTitle: quiz?.title ?? "Live Quiz",
+    joinCode: session.joinCode,
+    status: session.status,
+    currentIndex: session.currentIndex,
+    totalQuestions: session.questionIds.length,
+    secondsPerQuestion: session.secondsPerQuestion,
+    questionEndsAt: session.status === "question" ? session.questionEndsAt : null,
+    serverTime: new Date(),
+  };
+}
+
+async function loadCurrentQuestion(session: LiveSession) {
+  const questionId = currentQuestionId(session);
+  if (!questionId) return null;
+  const [question] = await db.select().from(questions).where(eq(questions.id, questionId)).limit(1);
+  if (!question) return null;
+  const view: LiveQuestionView = {
+    id: question.id,
+    index: session.currentIndex,
+    questionText: question.questionText,
+    questionType: getQuestionType(question),
+    options: questionOptions(question),
+  };
+  return { question, view };
+}
+
+/**
+ * What the projector shows: the open question, how many have answered, and once the
+ * question closes the answer, how the class split across the options and the leaderboard
+ */
+export async function getHostView(session: LiveSession) {
+  const [summary, current, participants, leaderboard] = await Promise.all([
+    summarize(session),
+    loadCurrentQuestion(session),
+    db
+      .select({ id: liveParticipants.id, displayName: liveParticipants.displayName })
+      .from(liveParticipants)
+      .where(eq(liveParticipants.sessionId, session.id))
+      .orderBy(asc(liveParticipants.joinedAt)),
+    session.status === "leaderboard" || session.status === "ended" ? getLeaderboard(session.id) : Promise.resolve([]),
+  ]);
+
+  let answers = { total: 0, correct: 0, byOption: {} as Record<string, number> };
+  if (current) {
+    const rows = await db
+      .select({ selectedAnswer: liveAnswers.selectedAnswer, isCorrect: liveAnswers.isCorrect, total: count() })
+      .from(liveAnswers)
+      .where(and(eq(liveAnswers.sessionId, session.id), eq(liveAnswers.questionId, current.question.id)))
+      .groupBy(liveAnswers.selectedAnswer, liveAnswers.isCorrect);
+    answers = {
+      total: rows.reduce((sum, row) => sum + row.total, 0),
+      correct: rows.filter(row => row.isCorrect).reduce((sum, row) => sum + row.total, 0),
+      byOption: Object.fromEntries(rows.map(row => [row.selectedAnswer, row.total])),
+    };
+  }
+
+  const revealed = session.status !== "question";
+  return {
+    session: summary,
+    participants,
+    question: current?.view ?? null,
+    correctAnswer: current && revealed ? current.question.correctAnswer : null,
+    answers: {
+      total: answers.total,
+      correct: revealed ? answers.correct : null,
+      byOption: revealed ? answers.byOption : null,
+    },
+    leaderboard,
+  };
+}
+
+/**
+ * What a student sees: the open question without its answer, and after it closes
+ * whether they got it, their points, their rank and the top of the leaderboard
+ */
+export async function getParticipantView(session: LiveSession, studentId: string) {
+  const participantId = `${session.id}:${studentId}`;
+  const [participant] = await db
+    .select()
+    .from(liveParticipants)
+    .where(eq(liveParticipants.id, participantId))
+    .limit(1);
+  if (!participant) throw new LiveSessionError("You haven't joined this session", 403);
+
+  const [summary, current] = await Promise.all([summarize(session), loadCurrentQuestion(session)]);
+
+  let myAnswer: { selectedAnswer: string; isCorrect: boolean | null; points: number | null } | null = null;
+  const revealed = session.status !== "question";
+  if (current) {
+    const [answer] = await db
+      .select()
+      .from(liveAnswers)
+      .where(eq(liveAnswers.id, `${participantId}:${current.question.id}`))
+      .limit(1);
+    if (answer) {
+      myAnswer = {
+        selectedAnswer: answer.selectedAnswer,
+        isCorrect: revealed ? answer.isCorrect : null,
+        points: revealed ? answer.points : null,
+      };
+    }
+  }
+
+  const showStandings = session.status === "leaderboard" || session.status === "ended";
+  const [leaderboard, [{ ahead }]] = await Promise.all([
+    showStandings ? getLeaderboard(session.id, 5) : Promise.resolve([]),
+    db
+      .select({ ahead: count() })
+      .from(liveParticipants)
+      .where(and(eq(liveParticipants.sessionId, session.id), gt(liveParticipants.score, participant.score))),
+  ]);
+
+  return {
+    session: summary,
+    displayName: participant.displayName,
+    score: participant.score,
+    rank: showStandings ? ahead + 1 : null,
+    question: session.status === "ended" ? null : current?.view ?? null,
+    correctAnswer: current && revealed ? current.question.correctAnswer : null,
+    myAnswer,
+    leaderboard,
+  };
+}
+
+export type LiveHostView = Awaited<ReturnType<typeof getHostView>>;
+export type LiveParticipantView = Awaited<ReturnType<typeof getParticipantView>>;
@@ -0,0 +1,535 @@
+/**
+ * Printable paper quizzes: the question paper, a bubble answer sheet and the
+ * matching answer key, rendered as PDF.
+ *
+ * Each copy is either the master version (stored order) or a shuffled version.
+ * Shuffled versions are seeded so the same version label or student always gets
+ * the same paper, and the answer key can be regenerated separately to match.
+ *
+ * Uses the standard PDF fonts, so text is limited to the WinAnsi character set;
+ * anything else is transliterated or replaced with "?".
+ */
+
+import { PDFDocument, PDFFont, PDFPage, PageSizes, StandardFonts, rgb } from "pdf-lib";
+import { seededShuffle, shuffleAllQuestionOptions } from "@/lib/quiz-utils";
+import {
+  getQuestionType,
+  formatCorrectAnswer,
+  type QuestionType,
+  type QuestionOption,
+  type QuestionAnswerData,
+  type MultiSelectAnswerData,
+  type OrderingAnswerData,
+  type MatchingAnswerData,
+} from "@/lib/question-types";
+
+export const PAPER_DOCUMENTS = ["quiz", "answer-sheet", "answer-key"] as const;
+export type PaperDocument = typeof PAPER_DOCUMENTS[number];
+
+export const PAPER_DOCUMENT_LABELS: Record<PaperDocument, string> = {
+  quiz: "Question Paper",
+  "answer-sheet": "Answer Sheet",
+  "answer-key": "Answer Key",
+};
+
+export const MAX_PAPER_VERSIONS = 10;
+
+export interface PaperQuiz {
+  id: string;
+  title: string;
+  description?: string | null;
+  duration: number; // minutes
+  shuffleQuestions?: boolean | null;
+}
+
+export interface PaperQuestion {
+  id: string;
+  questionText: string;
+  options: QuestionOption[];
+  correctAnswer: string;
+  questionType?: string | null;
+  answerData?: QuestionAnswerData | null;
+  book?: string | null;
+  chapter?: string | null;
+}
+
+export interface PaperCopy {
+  label: string; // "Version A", or the student's name
+  seed: string | null; // null prints the master version
+  studentName?: string;
+}
+
+interface PaperItem {
+  number: number;
+  question: PaperQuestion;
+  type: QuestionType;
+  options: QuestionOption[];
+  matches: QuestionOption[]; // Matching only
+}
+
+interface PaperVersion {
+  copy: PaperCopy;
+  items: PaperItem[];
+}
+
+export function isPaperDocument(value: unknown): value is PaperDocument {
+  return typeof value === "string" && (PAPER_DOCUMENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Version labels A, B, C... for `count` shuffled versions
+ */
+export function getVersionCopies(quizId: string, count: number): PaperCopy[] {
+  return Array.from({ length: count }, (_, i) => {
+    const letter = String.fromCharCode(65 + i);
+    return { label: `Version ${letter}`, seed: `${quizId}:version:${letter}` };
+  });
+}
+
+/**
+ * One shuffled copy per student, seeded by student so reprints match
+ */
+export function getStudentCopies(quizId: string, students: { id: string; name: string }[]): PaperCopy[] {
+  return students.map(student => ({
+    label: student.name,
+    seed: `${quizId}:student:${student.id}`,
+    studentName: student.name,
+  }));
+}
+
+function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function matchLetter(index: number): string {
+  return String.fromCharCode(97 + index);
+}
+
+/**
+ * Arrange the questions for one copy
+ */
+function prepareVersion(quiz: PaperQuiz, questions: PaperQuestion[], copy: PaperCopy): PaperVersion {
+  const ordered = copy.seed && quiz.shuffleQuestions
+    ? seededShuffle(questions, `${copy.seed}:order`)
+    : questions;
+  const shuffled = copy.seed ? shuffleAllQuestionOptions(ordered, copy.seed) : ordered;
+  const scrambleSeed = copy.seed ?? quiz.id;
+
+  return {
+    copy,
+    items: shuffled.map((question, index) => {
+      const type = getQuestionType(question);
+      // True/False reads oddly as False/True
+      let options = type === "true_false" ? ordered[index].options : question.options;
+      let matches: QuestionOption[] = [];
+
+      // Ordering items are stored in answer order, so even the master copy is scrambled
+      if (type === "ordering" && !copy.seed) {
+        options = seededShuffle(options, `${scrambleSeed}:${question.id}`);
+      }
+      if (type === "matching") {
+        const data = question.answerData as MatchingAnswerData | null;
+        matches = seededShuffle(data?.matches ?? [], `${scrambleSeed}:${question.id}`);
+      }
+
+      return { number: index + 1, question, type, options, matches };
+    }),
+  };
+}
+
+/**
+ * Short answer for the key, e.g. "B", "A, C", "C, A, B" or "1-b, 2-a"
+ */
+function getKeyAnswer(item: PaperItem): string {
+  const letterOf = (id: string) => {
+    const index = item.options.findIndex(o => o.id === id);
+    return index >= 0 ? optionLetter(index) : "?";
+  };
+  const data = item.question.answerData;
+
+  switch (item.type) {
+    case "multi_select":
+      return ((data as MultiSelectAnswerData | null)?.correctOptionIds ?? []).map(letterOf).sort().join(", ");
+    case "ordering":
+      return ((data as OrderingAnswerData | null)?.correctOrder ?? []).map(letterOf).join(", ");
+    case "matching": {
+      const pairs = (data as MatchingAnswerData | null)?.pairs ?? {};
+      return item.options.map((prompt, i) => {
+        const matchIndex = item.matches.findIndex(m => m.id === pairs[prompt.id]);
+        return `${i + 1}-${matchIndex >= 0 ? matchLetter(matchIndex) : "?"}`;
+      }).join(", ");
+    }
+    case "fill_blank":
+      return "";
+    default:
+      return letterOf(item.question.correctAnswer);
+  }
+}
+
+const TYPE_INSTRUCTIONS: Partial<Record<QuestionType, string>> = {
+  multi_select: "Select all that apply.",
+  ordering: "Write the letters in the correct order.",
+  matching: "Match each numbered item with a lettered answer.",
+  fill_blank: "Write your answer on the answer sheet.",
+};
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = PageSizes.Letter;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.75, 0.75, 0.75);
+
+const TRANSLITERATIONS: Record<string, string> = {
+  "→": "->",
+  "←": "<-",
+  "≤": "<=",
+  "≥": ">=",
+  "−": "-",
+};
+
+interface Canvas {
+  doc: PDFDocument;
+  font: PDFFont;
+  bold: PDFFont;
+  charset: Set<number>;
+  page: PDFPage;
+  y: number;
+  pageNumber: number;
+  footer: string;
+}
+
+function clean(canvas: Canvas, text: string): string {
+  let result = "";
+  for (const char of text.replace(/\r/g, "").replace(/\t/g, " ")) {
+    const code = char.codePointAt(0) ?? 0;
+    if (char === "\n" || canvas.charset.has(code)) {
+      result += char;
+    } else if (TRANSLITERATIONS[char]) {
+      result += TRANSLITERATIONS[char];
+    } else {
+      // Drop accents the standard fonts can't draw, e.g. combining marks
+      const base = char.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+      result += base && [...base].every(c => canvas.charset.has(c.codePointAt(0) ?? 0)) ? base : "?";
+    }
+  }
+  return result;
+}
+
+function wrapText(font: PDFFont, text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Break words that are wider than a whole line
+      line = "";
+      for (const char of word) {
+        if (font.widthOfTextAtSize(line + char, size) > maxWidth && line) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function createCanvas(base: Omit<Canvas, "page" | "y" | "pageNumber">): Canvas {
+  const canvas: Canvas = { ...base, page: base.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), y: PAGE_HEIGHT - MARGIN, pageNumber: 1 };
+  drawFooter(canvas);
+  return canvas;
+}
+
+function addPage(canvas: Canvas) {
+  canvas.page = canvas.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  canvas.y = PAGE_HEIGHT - MARGIN;
+  canvas.pageNumber++;
+  drawFooter(canvas);
+}
+
+function drawFooter(canvas: Canvas) {
+  canvas.page.drawText(clean(canvas, `${canvas.footer} - Page ${canvas.pageNumber}`), {
+    x: MARGIN,
+    y: MARGIN / 2,
+    size: 8,
+    font: canvas.font,
+    color: MUTED_COLOR,
+  });
+}
+
+function ensureSpace(canvas: Canvas, height: number) {
+  if (canvas.y - height < MARGIN) addPage(canvas);
+}
+
+/**
+ * Draw wrapped text at the cursor and move the cursor below it
+ */
+function drawParagraph(
+  canvas: Canvas,
+  text: string,
+  options: { x?: number; width?: number; size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; gap?: number } = {}
+) {
+  const { x = MARGIN, width = CONTENT_WIDTH, size = 11, bold = false, color = TEXT_COLOR, gap = 4 } = options;
+  const font = bold ? canvas.bold : canvas.font;
+  const lineHeight = size * 1.3;
+
+  for (const line of wrapText(font, clean(canvas, text), size, width)) {
+    ensureSpace(canvas, lineHeight);
+    canvas.y -= lineHeight;
+    canvas.page.drawText(line, { x, y: canvas.y + size * 0.25, size, font, color });
+  }
+  canvas.y -= gap;
+}
+
+function drawRule(canvas: Canvas, gap = 10) {
+  ensureSpace(canvas, gap * 2);
+  canvas.y -= gap;
+  canvas.page.drawLine({
+    start: { x: MARGIN, y: canvas.y },
+    end: { x: PAGE_WIDTH - MARGIN, y: canvas.y },
+    thickness: 0.75,
+    color: RULE_COLOR,
+  });
+  canvas.y -= gap;
+}
+
+function drawHeader(canvas: Canvas, quiz: PaperQuiz, version: PaperVersion, document: PaperDocument) {
+  drawParagraph(canvas, quiz.title, { size: 16, bold: true, gap: 2 });
+  drawParagraph(canvas, `${PAPER_DOCUMENT_LABELS[document]} - ${version.copy.label}`, { size: 11, color: MUTED_COLOR, gap: 8 });
+
+  if (document !== "answer-key") {
+    const name = version.copy.studentName ?? "";
+    const nameLine = name ? `Name: ${name}` : "Name: ______________________________";
+    drawParagraph(canvas, `${nameLine}        Date: ______________`, { size: 11, gap: 2 });
+  }
+  if (document === "quiz") {
+    drawParagraph(canvas, `Time allowed: ${quiz.duration} minutes    Questions: ${version.items.length}`, {
+      size: 10,
+      color: MUTED_COLOR,
+      gap: 2,
+    });
+    if (quiz.description) {
+      drawParagraph(canvas, quiz.description, { size: 10, color: MUTED_COLOR, gap: 2 });
+    }
+    drawParagraph(canvas, "Mark your answers on the answer sheet.", { size: 10, color: MUTED_COLOR, gap: 0 });
+  }
+  if (document === "answer-sheet") {
+    drawParagraph(canvas, "Fill in the circle completely for each answer. Write other answers in the boxes.", {
+      size: 10,
+      color: MUTED_COLOR,
+      gap: 0,
+    });
+  }
+  drawRule(canvas);
+}
+
+function drawQuestionPaper(canvas: Canvas, version: PaperVersion) {
+  const numberWidth = 24;
+  const textX = MARGIN + numberWidth;
+  const textWidth = CONTENT_WIDTH - numberWidth;
+
+  for (const item of version.items) {
+    // Keep the question text with at least its first option
+    ensureSpace(canvas, 48);
+    const top = canvas.y;
+    canvas.page.drawText(`${item.number}.`, { x: MARGIN, y: top - 11, size: 11, font: canvas.bold, color: TEXT_COLOR });
+    drawParagraph(canvas, item.question.questionText, { x: textX, width: textWidth, gap: 2 });
+
+    const reference = [item.question.book, item.question.chapter && `Chapter ${item.question.chapter}`]
+      .filter(Boolean)
+      .join(" - ");
+    const instruction = TYPE_INSTRUCTIONS[item.type];
+    if (reference || instruction) {
+      drawParagraph(canvas, [reference, instruction].filter(Boolean).join("    "), {
+        x: textX,
+        width: textWidth,
+        size: 9,
+        color: MUTED_COLOR,
+        gap: 2,
+      });
+    }
+
+    if (item.type === "matching") {
+      const columnWidth = (textWidth - 12) / 2;
+      const startY = canvas.y;
+      const startPage = canvas.page;
+      item.options.forEach((prompt, i) => {
+        drawParagraph(canvas, `${i + 1}. ${prompt.text}`, { x: textX + 12, width: columnWidth - 12, size: 10, gap: 1 });
+      });
+      const leftEnd = canvas.y;
+      // Draw the answer column alongside when the prompts stayed on one page
+      if (canvas.page === startPage) {
+        canvas.y = startY;
+        item.matches.forEach((match, i) => {
+          drawParagraph(canvas, `${matchLetter(i)}. ${match.text}`, {
+            x: textX + 12 + columnWidth,
+            width: columnWidth - 12,
+            size: 10,
+            gap: 1,
+          });
+        });
+        canvas.y = Math.min(canvas.y, leftEnd);
+      } else {
+        item.matches.forEach((match, i) => {
+          drawParagraph(canvas, `${matchLetter(i)}. ${match.text}`, { x: textX + 12, width: textWidth - 12, size: 10, gap: 1 });
+        });
+      }
+    } else if (item.type !== "fill_blank") {
+      item.options.forEach((option, i) => {
+        drawParagraph(canvas, `${optionLetter(i)}.  ${option.text}`, { x: textX + 12, width: textWidth - 12, size: 10, gap: 1 });
+      });
+    }
+
+    canvas.y -= 10;
+  }
+}
+
+function drawAnswerSheet(canvas: Canvas, version: PaperVersion) {
+  const columnWidth = CONTENT_WIDTH / 2;
+  const rowHeight = 22;
+  const bubbleRadius = 7;
+  const bubbleSpacing = 20;
+  const numberWidth = 28;
+  const columnTop = canvas.y;
+  let column = 0;
+
+  const nextRow = () => {
+    if (canvas.y - rowHeight < MARGIN) {
+      if (column === 0) {
+        column = 1;
+        canvas.y = canvas.pageNumber === 1 ? columnTop : PAGE_HEIGHT - MARGIN;
+      } else {
+        addPage(canvas);
+        column = 0;
+      }
+    }
+    canvas.y -= rowHeight;
+    return MARGIN + column * columnWidth;
+  };
+
+  const drawBubble = (x: number, y: number, label: string) => {
+    canvas.page.drawCircle({ x, y, size: bubbleRadius, borderColor: TEXT_COLOR, borderWidth: 0.75 });
+    const width = canvas.font.widthOfTextAtSize(label, 7);
+    canvas.page.drawText(label, { x: x - width / 2, y: y - 2.5, size: 7, font: canvas.font, color: MUTED_COLOR });
+  };
+
+  const drawBox = (x: number, y: number, width: number) => {
+    canvas.page.drawRectangle({ x, y: y - 8, width, height: 16, borderColor: TEXT_COLOR, borderWidth: 0.75 });
+  };
+
+  for (const item of version.items) {
+    const rowStart = nextRow();
+    const y = canvas.y + rowHeight / 2;
+    canvas.page.drawText(`${item.number}.`, { x: rowStart, y: y - 4, size: 10, font: canvas.bold, color: TEXT_COLOR });
+    let x = rowStart + numberWidth;
+    let rowEnd = rowStart + columnWidth - 12;
+
+    if (item.type === "fill_blank") {
+      canvas.page.drawLine({ start: { x, y: y - 6 }, end: { x: rowEnd, y: y - 6 }, thickness: 0.75, color: TEXT_COLOR });
+      continue;
+    }
+
+    // Ordering gets one box per position; matching one box per numbered item
+    const slots = item.type === "ordering" || item.type === "matching"
+      ? item.options.map((_, i) => (item.type === "matching" ? `${i + 1}` : ""))
+      : item.options.map((_, i) => optionLetter(i));
+    const slotWidth = item.type === "matching" ? 40 : item.type === "ordering" ? 22 : bubbleSpacing;
+
+    let slotX = x + bubbleRadius;
+    let slotY = y;
+    slots.forEach((label, i) => {
+      if (slotX + slotWidth > rowEnd && i > 0) {
+        // Continue on the next row, which may be in the other column or on a new page
+        x = nextRow() + numberWidth;
+        rowEnd = x - numberWidth + columnWidth - 12;
+        slotX = x + bubbleRadius;
+        slotY = canvas.y + rowHeight / 2;
+      }
+      if (item.type === "matching") {
+        canvas.page.drawText(label, { x: slotX - bubbleRadius, y: slotY - 4, size: 9, font: canvas.font, color: MUTED_COLOR });
+        drawBox(slotX + 6, slotY, 18);
+      } else if (item.type === "ordering") {
+        drawBox(slotX - bubbleRadius, slotY, 18);
+      } else {
+        drawBubble(slotX, slotY, label);
+      }
+      slotX += slotWidth;
+    });
+  }
+}
+
+function drawAnswerKey(canvas: Canvas, version: PaperVersion) {
+  const numberWidth = 28;
+  const keyWidth = 90;
+
+  for (const item of version.items) {
+    const key = getKeyAnswer(item);
+    const detail = formatCorrectAnswer({ ...item.question, options: item.options });
+    const detailX = MARGIN + numberWidth + (key ? keyWidth : 0);
+    const detailWidth = CONTENT_WIDTH - numberWidth - (key ? keyWidth : 0);
+    // Reserve the whole entry so the key and its detail stay on one page
+    const lines = Math.max(
+      wrapText(canvas.bold, clean(canvas, key), 10, keyWidth - 6).length,
+      wrapText(canvas.font, clean(canvas, detail), 10, detailWidth).length
+    );
+    ensureSpace(canvas, lines * 13 + 4);
+    const top = canvas.y;
+
+    canvas.page.drawText(`${item.number}.`, { x: MARGIN, y: top - 11, size: 10, font: canvas.bold, color: TEXT_COLOR });
+    if (key) {
+      drawParagraph(canvas, key, { x: MARGIN + numberWidth, width: keyWidth - 6, size: 10, bold: true, gap: 0 });
+    }
+    const keyBottom = canvas.y;
+    canvas.y = top;
+    drawParagraph(canvas, detail, {
+      x: detailX,
+      width: detailWidth,
+      size: 10,
+      color: key ? MUTED_COLOR : TEXT_COLOR,
+      gap: 0,
+    });
+    canvas.y = Math.min(canvas.y, keyBottom) - 4;
+  }
+}
+
+/**
+ * Render one document type for every copy. Each copy starts on a new page.
+ */
+export async function renderPaperQuiz(
+  quiz: PaperQuiz,
+  questions: PaperQuestion[],
+  copies: PaperCopy[],
+  document: PaperDocument
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${quiz.title} - ${PAPER_DOCUMENT_LABELS[document]}`);
+  doc.setCreator("Bible Quiz");
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const charset = new Set(font.getCharacterSet());
+
+  for (const copy of copies.length > 0 ? copies : [{ label: "Master", seed: null }]) {
+    const version = prepareVersion(quiz, questions, copy);
+    const canvas = createCanvas({ doc, font, bold, charset, footer: `${quiz.title} - ${copy.label}` });
+    drawHeader(canvas, quiz, version, document);
+
+    if (document === "quiz") drawQuestionPaper(canvas, version);
+    else if (document === "answer-sheet") drawAnswerSheet(canvas, version);
+    else drawAnswerKey(canvas, version);
+  }
+
+  return doc.save();
+}
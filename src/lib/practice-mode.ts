@@ -0,0 +1,48 @@
+/**
+ * Practice mode.
+ *
+ * Practice attempts live in `quiz_attempts` with `mode = "practice"`. They are untimed,
+ * reveal each answer as soon as it is checked, and are left out of analytics and
+ * attempt limits.
+ */
+
+export const ATTEMPT_MODES = ["exam", "practice"] as const;
+export type AttemptMode = typeof ATTEMPT_MODES[number];
+
+export function getAttemptMode(value: unknown): AttemptMode {
+  return value === "practice" ? "practice" : "exam";
+}
+
+export interface PracticeAvailability {
+  available: boolean;
+  reason?: string;
+}
+
+/**
+ * Practice shows correct answers straight away, so it only opens once the scheduled
+ * exam window has closed and the student has no reassigned exam still to take.
+ */
+export function getPracticeAvailability(
+  quiz: { status: string; startTime: Date | null; duration: number },
+  hasPendingReassignment: boolean,
+  now: Date = new Date()
+): PracticeAvailability {
+  if (quiz.status !== "published" && quiz.status !== "completed") {
+    return { available: false, reason: "This quiz is not available for practice." };
+  }
+
+  if (!quiz.startTime) {
+    return { available: false, reason: "Practice opens after the quiz has been scheduled and has ended." };
+  }
+
+  const examEnd = new Date(quiz.startTime.getTime() + quiz.duration * 60 * 1000);
+  if (now <= examEnd) {
+    return { available: false, reason: "Practice opens once the quiz has ended for everyone." };
+  }
+
+  if (hasPendingReassignment) {
+    return { available: false, reason: "Finish your reassigned quiz before practicing it." };
+  }
+
+  return { available: true };
+}
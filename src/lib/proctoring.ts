@@ -0,0 +1,321 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { enrollments, questions, quizAttempts, quizzes, user } from "@/lib/schema";
+import { logger } from "@/lib/logger";
+import { completeAttempt, savedAnswers } from "@/lib/attempt-submission";
+import type { QuizEventType } from "@/lib/telemetry";
+
+/**
+ * Live proctoring of timed quizzes.
+ *
+ * While a student is taking a quiz the page checks in every few seconds with its
+ * position and answered count, which is kept on the attempt. The monitor combines that
+ * with the enrollment roster and the telemetry events recorded for each attempt, and
+ * lets the educator give one student extra time or submit their saved answers for them.
+ * The student's page learns about either from the response to its next check-in.
+ */
+
+export type ProctoringState = "not_started" | "in_progress" | "idle" | "submitted";
+
+// Telemetry events worth an educator's attention during an exam
+export const PROCTORING_FLAGS = [
+  "user_tab_switch",
+  "user_app_switch",
+  "user_copy",
+  "user_paste",
+  "network_offline",
+] as const satisfies readonly QuizEventType[];
+export type ProctoringFlag = typeof PROCTORING_FLAGS[number];
+
+// Background tabs throttle timers, so allow a few missed check-ins before calling it idle
+export const IDLE_AFTER_SECONDS = 90;
+export const MAX_EXTRA_MINUTES = 120;
+
+export class ProctoringError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "ProctoringError";
+  }
+}
+
+type Quiz = typeof quizzes.$inferSelect;
+type QuizAttempt = typeof quizAttempts.$inferSelect;
+
+export interface ProctoringFlagCount {
+  eventType: ProctoringFlag;
+  count: number;
+  lastAt: Date;
+}
+
+export interface ProctoredStudent {
+  studentId: string;
+  name: string;
+  email: string;
+  state: ProctoringState;
+  attemptId: string | null;
+  startedAt: Date | null;
+  lastSeenAt: Date | null;
+  submittedAt: Date | null;
+  currentQuestionIndex: number | null;
+  answeredCount: number;
+  totalQuestions: number;
+  timeRemaining: number | null; // Seconds, in-progress attempts only
+  extraTimeSeconds: number;
+  forceSubmitted: boolean;
+  flags: ProctoringFlagCount[];
+}
+
+export interface ProctoringSummary {
+  quizId: string;
+  title: string;
+  duration: number; // Minutes
+  startTime: Date | null;
+  serverTime: Date;
+  students: ProctoredStudent[];
+  counts: Record<ProctoringState, number>;
+}
+
+export interface AttemptCheckIn {
+  status: string;
+  timeRemaining: number; // Seconds
+  extraTimeSeconds: number;
+  forceSubmitted: boolean;
+}
+
+/**
+ * Seconds left on an exam attempt, counting any extra time it was given
+ */
+export function attemptTimeRemaining(
+  attempt: Pick<QuizAttempt, "startTime" | "extraTimeSeconds">,
+  durationMinutes: number,
+  now = new Date()
+): number {
+  const elapsed = Math.floor((now.getTime() - attempt.startTime.getTime()) / 1000);
+  return Math.max(0, durationMinutes * 60 + attempt.extraTimeSeconds - elapsed);
+}
+
+export function proctoringState(
+  attempt: Pick<QuizAttempt, "status" | "startTime" | "lastSeenAt"> | null,
+  now = new Date()
+): ProctoringState {
+  if (!attempt) return "not_started";
+  if (attempt.status === "completed") return "submitted";
+  if (attempt.status !== "in_progress") return "not_started";
+  const lastSeen = attempt.lastSeenAt ?? attempt.startTime;
+  return now.getTime() - lastSeen.getTime() > IDLE_AFTER_SECONDS * 1000 ? "idle" : "in_progress";
+}
+
+/**
+ * The quiz, if it belongs to this educator
+ */
+export async function getProctoredQuiz(quizId: string, educatorId: string): Promise<Quiz> {
+  const [quiz] = await db
+    .select()
+    .from(quizzes)
+    .where(and(eq(quizzes.id, quizId), eq(quizzes.educatorId, educatorId)))
+    .limit(1);
+  if (!quiz) throw new ProctoringError("Quiz not found", 404);
+  return quiz;
+}
+
+/**
+ * Record a check-in from the quiz page and tell it how much time is left and whether
+ * the attempt is still open
+ */
+export async function recordAttemptCheckIn(
+  studentId: string,
+  attemptId: string,
+  progress: { currentQuestionIndex?: number; answeredCount?: number }
+): Promise<AttemptCheckIn | null> {
+  const [row] = await db
+    .select({ attempt: quizAttempts, duration: quizzes.duration })
+    .from(quizAttempts)
+    .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+    .where(and(eq(quizAttempts.id, attemptId), eq(quizAttempts.studentId, studentId)))
+    .limit(1);
+  if (!row) return null;
+
+  const { attempt } = row;
+  if (attempt.status === "in_progress") {
+    await db
+      .update(quizAttempts)
+      .set({
+        lastSeenAt: new Date(),
+        ...(Number.isInteger(progress.currentQuestionIndex) ? { currentQuestionIndex: progress.currentQuestionIndex } : {}),
+        ...(Number.isInteger(progress.answeredCount) ? { answeredCount: progress.answeredCount } : {}),
+      })
+      .where(eq(quizAttempts.id, attemptId));
+  }
+
+  return {
+    status: attempt.status,
+    timeRemaining: attemptTimeRemaining(attempt, row.duration),
+    extraTimeSeconds: attempt.extraTimeSeconds,
+    forceSubmitted: !!attempt.forceSubmittedBy,
+  };
+}
+
+/**
+ * How often each flagged telemetry event was recorded, per attempt
+ */
+export async function fetchAttemptFlagCounts(attemptIds: string[]): Promise<Map<string, ProctoringFlagCount[]>> {
+  const byAttempt = new Map<string, ProctoringFlagCount[]>();
+  if (attemptIds.length === 0) return byAttempt;
+
+  try {
+    const rows = await db.execute(sql`
+      SELECT attempt_id, event_type, COUNT(*)::int AS count, MAX(timestamp) AS last_at
+      FROM telemetry_events
+      WHERE attempt_id IN (${sql.join(attemptIds.map(id => sql`${id}`), sql`, `)})
+        AND event_type IN (${sql.join(PROCTORING_FLAGS.map(flag => sql`${flag}`), sql`, `)})
+      GROUP BY attempt_id, event_type
+    `);
+    for (const row of rows as unknown as { attempt_id: string; event_type: ProctoringFlag; count: number; last_at: string }[]) {
+      const list = byAttempt.get(row.attempt_id) ?? [];
+      list.push({ eventType: row.event_type, count: row.count, lastAt: new Date(Number(row.last_at)) });
+      byAttempt.set(row.attempt_id, list);
+    }
+  } catch (error) {
+    // The telemetry table is created on the first event, so it may not exist yet
+    logger.warn("Could not load proctoring flags from telemetry", { error });
+  }
+  return byAttempt;
+}
+
+/**
+ * Every student enrolled in the quiz with the state of their exam attempt
+ */
+export async function getProctoringSummary(quiz: Quiz): Promise<ProctoringSummary> {
+  const now = new Date();
+  const [roster, attempts, questionRows] = await Promise.all([
+    db
+      .select({ studentId: enrollments.studentId, name: user.name, email: user.email })
+      .from(enrollments)
+      .innerJoin(user, eq(enrollments.studentId, user.id))
+      .where(eq(enrollments.quizId, quiz.id)),
+    db
+      .select()
+      .from(quizAttempts)
+      .where(and(eq(quizAttempts.quizId, quiz.id), eq(quizAttempts.mode, "exam")))
+      .orderBy(desc(quizAttempts.startTime)),
+    db
+      .select({ id: questions.id })
+      .from(questions)
+      .where(eq(questions.quizId, quiz.id)),
+  ]);
+
+  // An open attempt wins over earlier submissions, e.g. after a reassignment
+  const attemptByStudent = new Map<string, QuizAttempt>();
+  for (const attempt of attempts) {
+    const current = attemptByStudent.get(attempt.studentId);
+    if (!current || (attempt.status === "in_progress" && current.status !== "in_progress")) {
+      attemptByStudent.set(attempt.studentId, attempt);
+    }
+  }
+
+  const flagCounts = await fetchAttemptFlagCounts(Array.from(attemptByStudent.values()).map(attempt => attempt.id));
+
+  const seen = new Set<string>();
+  const students: ProctoredStudent[] = [];
+  for (const member of roster) {
+    if (seen.has(member.studentId)) continue; // Reassignments enroll a student again
+    seen.add(member.studentId);
+
+    const attempt = attemptByStudent.get(member.studentId) ?? null;
+    const state = proctoringState(attempt, now);
+    const inProgress = state === "in_progress" || state === "idle";
+    const completedAnswers = attempt?.status === "completed" ? (attempt.answers || []).length : 0;
+    students.push({
+      studentId: member.studentId,
+      name: member.name,
+      email: member.email,
+      state,
+      attemptId: state === "not_started" ? null : attempt!.id,
+      startedAt: state === "not_started" ? null : attempt!.startTime,
+      lastSeenAt: attempt?.lastSeenAt ?? null,
+      submittedAt: state === "submitted" ? attempt!.endTime : null,
+      currentQuestionIndex: inProgress ? attempt!.currentQuestionIndex : null,
+      answeredCount: inProgress ? attempt!.answeredCount ?? savedAnswers(attempt!).length : completedAnswers,
+      totalQuestions: attempt?.questionOrder?.length || questionRows.length,
+      timeRemaining: inProgress ? attemptTimeRemaining(attempt!, quiz.duration, now) : null,
+      extraTimeSeconds: attempt?.extraTimeSeconds ?? 0,
+      forceSubmitted: !!attempt?.forceSubmittedBy,
+      flags: attempt && state !== "not_started" ? flagCounts.get(attempt.id) ?? [] : [],
+    });
+  }
+
+  students.sort((a, b) => a.name.localeCompare(b.name));
+  const counts: Record<ProctoringState, number> = { not_started: 0, in_progress: 0, idle: 0, submitted: 0 };
+  for (const student of students) counts[student.state] += 1;
+
+  return {
+    quizId: quiz.id,
+    title: quiz.title,
+    duration: quiz.duration,
+    startTime: quiz.startTime,
+    serverTime: now,
+    students,
+    counts,
+  };
+}
+
+async function getOpenAttempt(quiz: Quiz, studentId: string): Promise<QuizAttempt> {
+  const [attempt] = await db
+    .select()
+    .from(quizAttempts)
+    .where(and(
+      eq(quizAttempts.quizId, quiz.id),
+      eq(quizAttempts.studentId, studentId),
+      eq(quizAttempts.mode, "exam"),
+      eq(quizAttempts.status, "in_progress")
+    ))
+    .orderBy(desc(quizAttempts.startTime))
+    .limit(1);
+  if (!attempt) throw new ProctoringError("This student has no quiz in progress", 409);
+  return attempt;
+}
+
+/**
+ * Give one student's in-progress attempt extra minutes
+ */
+export async function extendAttemptTime(quiz: Quiz, studentId: string, minutes: number): Promise<void> {
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_EXTRA_MINUTES) {
+    throw new ProctoringError(`Extra time must be between 1 and ${MAX_EXTRA_MINUTES} minutes`);
+  }
+  const attempt = await getOpenAttempt(quiz, studentId);
+
+  await db
+    .update(quizAttempts)
+    .set({
+      extraTimeSeconds: sql`${quizAttempts.extraTimeSeconds} + ${minutes * 60}`,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(quizAttempts.id, attempt.id), eq(quizAttempts.status, "in_progress")));
+
+  logger.info("Extended quiz attempt time", { quizId: quiz.id, attemptId: attempt.id, studentId, minutes });
+}
+
+/**
+ * Submit a student's attempt with whatever answers were last autosaved
+ */
+export async function forceSubmitAttempt(quiz: Quiz, studentId: string, educatorId: string): Promise<{ attemptId: string; score: number }> {
+  const attempt = await getOpenAttempt(quiz, studentId);
+  const timeSpent = Math.min(
+    Math.floor((Date.now() - attempt.startTime.getTime()) / 1000),
+    quiz.duration * 60 + attempt.extraTimeSeconds
+  );
+
+  const result = await completeAttempt({
+    quiz,
+    attempt,
+    answers: savedAnswers(attempt),
+    timeSpent,
+    timezone: attempt.timezone,
+    forceSubmittedBy: educatorId,
+  });
+  if (!result) throw new ProctoringError("The student has already submitted", 409);
+
+  logger.info("Force-submitted quiz attempt", { quizId: quiz.id, attemptId: attempt.id, studentId, educatorId });
+  return { attemptId: attempt.id, score: result.score };
+}
+
@@ -0,0 +1,274 @@
+import { and, eq, ilike, or, inArray, desc, sql, max, SQL } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { questionBank, questions, quizzes } from "@/lib/schema";
+import { logger } from "@/lib/logger";
+import { normalizeBookName } from "@/lib/scripture-reference";
+
+
+export type QuestionBankItem = typeof questionBank.$inferSelect;
+
+export interface QuestionBankFilters {
+  search?: string | null;
+  book?: string | null;
+  chapter?: string | null;
+  topic?: string | null;
+  difficulty?: string | null;
+  bloomsLevel?: string | null;
+  tag?: string | null;
+  includeArchived?: boolean;
+}
+
+const DIFFICULTIES = ["easy", "intermediate", "hard"] as const;
+const BLOOMS_LEVELS = ["knowledge", "comprehension", "application", "analysis", "synthesis", "evaluation"] as const;
+
+export type BankDifficulty = typeof DIFFICULTIES[number];
+export type BankBloomsLevel = typeof BLOOMS_LEVELS[number];
+
+export function isBankDifficulty(value: unknown): value is BankDifficulty {
+  return typeof value === "string" && (DIFFICULTIES as readonly string[]).includes(value);
+}
+
+export function isBankBloomsLevel(value: unknown): value is BankBloomsLevel {
+  return typeof value === "string" && (BLOOMS_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Build the WHERE conditions for browsing an educator's question bank.
+ * Every query is scoped to the educator so banks never leak between accounts.
+ */
+export function buildQuestionBankConditions(educatorId: string, filters: QuestionBankFilters): SQL[] {
+  const conditions: SQL[] = [eq(questionBank.educatorId, educatorId)];
+
+  if (!filters.includeArchived) {
+    conditions.push(eq(questionBank.isArchived, false));
+  }
+
+  if (filters.search && filters.search.trim()) {
+    const term = `%${filters.search.trim()}%`;
+    const searchCondition = or(
+      ilike(questionBank.questionText, term),
+      ilike(questionBank.topic, term),
+      ilike(questionBank.explanation, term)
+    );
+    if (searchCondition) {
+      conditions.push(searchCondition);
+    }
+  }
+
+  if (filters.book) {
+    conditions.push(ilike(questionBank.book, normalizeBookName(filters.book) ?? filters.book));
+  }
+
+  if (filters.chapter) {
+    conditions.push(eq(questionBank.chapter, filters.chapter.trim()));
+  }
+
+  if (filters.topic) {
+    conditions.push(ilike(questionBank.topic, `%${filters.topic}%`));
+  }
+
+  if (isBankDifficulty(filters.difficulty)) {
+    conditions.push(eq(questionBank.difficulty, filters.difficulty));
+  }
+
+  if (isBankBloomsLevel(filters.bloomsLevel)) {
+    conditions.push(eq(questionBank.bloomsLevel, filters.bloomsLevel));
+  }
+
+  if (filters.tag) {
+    conditions.push(sql`${questionBank.tags} @> ${JSON.stringify([filters.tag])}::jsonb`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Fetch a page of bank items matching the filters, newest first
+ */
+export async function searchQuestionBank(
+  educatorId: string,
+  filters: QuestionBankFilters,
+  page = 1,
+  limit = 20
+): Promise<{ items: QuestionBankItem[]; total: number }> {
+  const where = and(...buildQuestionBankConditions(educatorId, filters));
+
+  const [items, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(questionBank)
+      .where(where)
+      .orderBy(desc(questionBank.updatedAt))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({ total: sql<number>`COUNT(*)::int` })
+      .from(questionBank)
+      .where(where),
+  ]);
+
+  return { items, total: total || 0 };
+}
+
+/**
+ * Copy questions from one of the educator's quizzes into their bank.
+ * Questions already banked (same text and correct answer) are skipped.
+ */
+export async function saveQuizQuestionsToBank(
+  educatorId: string,
+  quizId: string,
+  questionIds?: string[]
+): Promise<{ saved: number; skipped: number; items: QuestionBankItem[] }> {
+  const quizQuestions = await db
+    .select()
+    .from(questions)
+    .where(
+      questionIds && questionIds.length > 0
+        ? and(eq(questions.quizId, quizId), inArray(questions.id, questionIds))
+        : eq(questions.quizId, quizId)
+    )
+    .orderBy(questions.orderIndex);
+
+  if (quizQuestions.length === 0) {
+    return { saved: 0, skipped: 0, items: [] };
+  }
+
+  const existing = await db
+    .select({ questionText: questionBank.questionText, correctAnswer: questionBank.correctAnswer })
+    .from(questionBank)
+    .where(
+      and(
+        eq(questionBank.educatorId, educatorId),
+        inArray(questionBank.questionText, quizQuestions.map(q => q.questionText))
+      )
+    );
+
+  const existingKeys = new Set(existing.map(e => `${e.questionText.trim()}::${e.correctAnswer}`));
+  const toInsert = quizQuestions.filter(q => !existingKeys.has(`${q.questionText.trim()}::${q.correctAnswer}`));
+
+  if (toInsert.length === 0) {
+    return { saved: 0, skipped: quizQuestions.length, items: [] };
+  }
+
+  const now = new Date();
+  const items = await db
+    .insert(questionBank)
+    .values(toInsert.map(q => ({
+      id: crypto.randomUUID(),
+      educatorId,
+      questionText: q.questionText,
+      questionType: q.questionType,
+      options: q.options,
+      correctAnswer: q.correctAnswer,
+      answerData: q.answerData,
+      explanation: q.explanation,
+      difficulty: q.difficulty,
+      bloomsLevel: q.bloomsLevel,
+      topic: q.topic,
+      book: q.book,
+      chapter: q.chapter,
+      tags: [],
+      sourceQuizId: quizId,
+      createdAt: now,
+      updatedAt: now,
+    })))
+    .returning();
+
+  // Link the quiz questions back to their new bank entries
+  await Promise.all(items.map((item, index) =>
+    db
+      .update(questions)
+      .set({ bankItemId: item.id })
+      .where(eq(questions.id, toInsert[index].id))
+  ));
+
+  return { saved: items.length, skipped: quizQuestions.length - items.length, items };
+}
+
+/**
+ * Append bank items to a quiz as new question rows.
+ * The quiz keeps its own copy so later bank edits never change a delivered quiz.
+ */
+export async function addBankItemsToQuiz(
+  educatorId: string,
+  quizId: string,
+  bankItemIds: string[]
+): Promise<{ added: number; totalQuestions: number }> {
+  const items = await db
+    .select()
+    .from(questionBank)
+    .where(
+      and(
+        eq(questionBank.educatorId, educatorId),
+        inArray(questionBank.id, bankItemIds)
+      )
+    );
+
+  // Preserve the order the educator picked the items in
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const orderedItems = bankItemIds
+    .map(id => itemsById.get(id))
+    .filter((item): item is QuestionBankItem => Boolean(item));
+
+  if (orderedItems.length === 0) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(questions)
+      .where(eq(questions.quizId, quizId));
+    return { added: 0, totalQuestions: count || 0 };
+  }
+
+  const [{ maxOrder }] = await db
+    .select({ maxOrder: max(questions.orderIndex) })
+    .from(questions)
+    .where(eq(questions.quizId, quizId));
+
+  const startIndex = maxOrder === null ? 0 : maxOrder + 1;
+  const now = new Date();
+
+  await db.insert(questions).values(orderedItems.map((item, index) => ({
+    id: crypto.randomUUID(),
+    quizId,
+    questionText: item.questionText,
+    questionType: item.questionType,
+    options: item.options,
+    correctAnswer: item.correctAnswer,
+    answerData: item.answerData,
+    explanation: item.explanation,
+    difficulty: item.difficulty,
+    bloomsLevel: item.bloomsLevel,
+    topic: item.topic,
+    book: item.book,
+    chapter: item.chapter,
+    bankItemId: item.id,
+    orderIndex: startIndex + index,
+    createdAt: now,
+  })));
+
+  await db
+    .update(questionBank)
+    .set({
+      usageCount: sql`${questionBank.usageCount} + 1`,
+      lastUsedAt: now,
+    })
+    .where(inArray(questionBank.id, orderedItems.map(item => item.id)));
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(questions)
+    .where(eq(questions.quizId, quizId));
+
+  await db
+    .update(quizzes)
+    .set({ totalQuestions: count, updatedAt: now })
+    .where(eq(quizzes.id, quizId));
+
+  logger.info("Added question bank items to quiz", {
+    quizId,
+    educatorId,
+    added: orderedItems.length,
+  });
+
+  return { added: orderedItems.length, totalQuestions: count };
+}
@@ -0,0 +1,124 @@
+// Structured source citations for questions: the scripture reference a question is about,
+// and the document passage it was written from. Shared by generation, validation and the
+// review/results pages, so it has no server-only imports.
+
+import { normalizeBookName } from "./scripture-reference";
+
+export interface QuestionCitation {
+  book: string | null;
+  chapter: string | null;
+  verseStart: number | null;
+  verseEnd: number | null;
+  documentId: string | null; // Uploaded document the excerpt came from, when known
+  excerpt: string; // Passage text the question is grounded in
+}
+
+export const MAX_CITATIONS_PER_QUESTION = 3;
+export const MAX_CITATION_EXCERPT_LENGTH = 600;
+
+/**
+ * Split a reference like "1 John 3:16-18" into its parts
+ */
+export function parseCitationReference(reference: string): Pick<QuestionCitation, "book" | "chapter" | "verseStart" | "verseEnd"> {
+  const text = reference.replace(/\s+/g, " ").trim();
+  const match = text.match(/^(.+?)\s+(\d+)(?:\s*:\s*(\d+)(?:\s*[-–]\s*(?:\d+\s*:\s*)?(\d+))?)?$/);
+  if (!match) {
+    return { book: normalizeBookName(text) ?? (text || null), chapter: null, verseStart: null, verseEnd: null };
+  }
+
+  const verseStart = match[3] ? Number(match[3]) : null;
+  const verseEnd = match[4] ? Number(match[4]) : verseStart;
+  return {
+    book: normalizeBookName(match[1]) ?? match[1],
+    chapter: match[2],
+    verseStart,
+    verseEnd: verseEnd !== null && verseStart !== null && verseEnd < verseStart ? verseStart : verseEnd,
+  };
+}
+
+/**
+ * "Genesis 1:1-3", "Psalm 23" or just the book, for display
+ */
+export function formatCitationReference(citation: Pick<QuestionCitation, "book" | "chapter" | "verseStart" | "verseEnd">): string {
+  if (!citation.book) return "";
+  if (!citation.chapter) return citation.book;
+  if (citation.verseStart === null) return `${citation.book} ${citation.chapter}`;
+  const verses = citation.verseEnd !== null && citation.verseEnd !== citation.verseStart
+    ? `${citation.verseStart}-${citation.verseEnd}`
+    : `${citation.verseStart}`;
+  return `${citation.book} ${citation.chapter}:${verses}`;
+}
+
+function cleanText(value: unknown, maxLength: number): string {
+  if (typeof value !== "string" && typeof value !== "number") return "";
+  return String(value).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+}
+
+function verseNumber(value: unknown): number | null {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : null;
+}
+
+/**
+ * Sanitize citations from a model, the generation webhook or the review editor.
+ * Accepts either structured fields or a "reference" string, and drops empty entries.
+ */
+export function normalizeCitations(raw: unknown): QuestionCitation[] {
+  const items = Array.isArray(raw) ? raw : raw && typeof raw === "object" ? [raw] : [];
+
+  return items.flatMap((item): QuestionCitation[] => {
+    if (!item || typeof item !== "object") return [];
+    const entry = item as Record<string, unknown>;
+
+    const reference = cleanText(entry.reference, 200);
+    const parsed = reference ? parseCitationReference(reference) : null;
+    const bookText = cleanText(entry.book, 100);
+    const book = (bookText && (normalizeBookName(bookText) ?? bookText)) || parsed?.book || null;
+    const chapter = cleanText(entry.chapter, 20) || parsed?.chapter || null;
+    const verseStart = verseNumber(entry.verseStart) ?? parsed?.verseStart ?? null;
+    const verseEnd = verseNumber(entry.verseEnd) ?? parsed?.verseEnd ?? verseStart;
+    const excerpt = cleanText(entry.excerpt ?? entry.quote, MAX_CITATION_EXCERPT_LENGTH);
+    const documentId = cleanText(entry.documentId, 100) || null;
+
+    if (!book && !excerpt) return [];
+    return [{
+      book,
+      chapter,
+      verseStart,
+      verseEnd: verseEnd !== null && verseStart !== null && verseEnd < verseStart ? verseStart : verseEnd,
+      documentId,
+      excerpt,
+    }];
+  }).slice(0, MAX_CITATIONS_PER_QUESTION);
+}
+
+function comparable(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Whether an excerpt is quoted from the source text. Punctuation, case and spacing are ignored,
+ * and an excerpt shortened with "..." matches if each of its parts appears in order.
+ */
+export function isExcerptInSource(excerpt: string, source: string): boolean {
+  const haystack = comparable(source);
+  const parts = excerpt.split(/\.{3}|…/).map(comparable).filter(part => part.length > 0);
+  if (parts.length === 0) return false;
+
+  let from = 0;
+  for (const part of parts) {
+    const index = haystack.indexOf(part, from);
+    if (index === -1) return false;
+    from = index + part.length;
+  }
+  return true;
+}
+
+/**
+ * Citations as shown to students: the reference and excerpt, without internal document ids
+ */
+export function studentCitations(raw: unknown): { reference: string; excerpt: string }[] {
+  return normalizeCitations(raw)
+    .map(citation => ({ reference: formatCitationReference(citation), excerpt: citation.excerpt }))
+    .filter(citation => citation.reference || citation.excerpt);
+}
@@ -0,0 +1,612 @@
+// Built-in question generation, used instead of the external n8n workflow when
+// QUIZ_GENERATION_WEBHOOK_URL isn't set (or QUIZ_GENERATION_MODE=builtin).
+// Source passages come from LightRAG, or from the text saved with plain-text documents;
+// a pluggable provider writes the questions, and QuestionValidator checks them before they're saved.
+
+import { openai } from "@ai-sdk/openai";
+import { generateText } from "ai";
+import { and, eq, inArray, ne } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { documents, questions } from "@/lib/schema";
+import { LightRAGService } from "@/lib/lightrag-service";
+import { QuestionValidator, type QuestionToValidate } from "@/lib/question-validator";
+import { logger } from "@/lib/logger";
+import { isExcerptInSource, normalizeCitations, MAX_CITATIONS_PER_QUESTION, type QuestionCitation } from "@/lib/question-citations";
+import { normalizeBookAndChapter } from "@/lib/scripture-reference";
+
+export type GenerationDifficulty = "easy" | "intermediate" | "hard";
+export type GenerationBloomsLevel = "knowledge" | "comprehension" | "application" | "analysis" | "synthesis" | "evaluation";
+
+export const BLOOMS_LEVELS: GenerationBloomsLevel[] = ["knowledge", "comprehension", "application", "analysis", "synthesis", "evaluation"];
+
+export interface GenerationRequest {
+  questionCount: number;
+  difficulty: GenerationDifficulty;
+  bloomsLevels: GenerationBloomsLevel[];
+  books: string[];
+  chapters: string[];
+  references: string[]; // Formatted passages, e.g. "John 3:1-21", when the quiz was scoped by reference
+  topics: string[];
+  quizTitle?: string;
+  quizDescription?: string;
+}
+
+export interface SourcePassage {
+  documentId: string | null; // Null for LightRAG context, which spans every indexed document
+  source: "lightrag" | "document";
+  text: string;
+}
+
+export interface GeneratedQuestion {
+  questionText: string;
+  options: { id: string; text: string }[];
+  correctAnswer: string;
+  explanation: string;
+  difficulty: GenerationDifficulty;
+  bloomsLevel: GenerationBloomsLevel;
+  book: string;
+  chapter: string;
+  topic: string;
+  citations: QuestionCitation[]; // At least one, each quoting a source passage
+}
+
+export interface ProviderInput {
+  system: string;
+  prompt: string;
+  request: GenerationRequest;
+  passages: SourcePassage[];
+}
+
+/**
+ * Writes questions for a prompt. Returns the raw model text, which should contain a JSON array
+ * of questions; it goes through the same parsing and validation whichever provider wrote it.
+ */
+export interface QuestionGenerationProvider {
+  name: string;
+  generate(input: ProviderInput): Promise<string>;
+}
+
+export interface GenerationOutcome {
+  questions: GeneratedQuestion[];
+  rejected: number; // Questions that failed parsing or validation
+  passages: number;
+  provider: string;
+}
+
+// Raised for problems another attempt won't fix, such as documents with no usable text
+export class QuestionGenerationError extends Error {
+  constructor(message: string, public readonly retryable = false) {
+    super(message);
+    this.name = "QuestionGenerationError";
+  }
+}
+
+const MAX_CONTEXT_CHARS = 12000;
+const MAX_DOCUMENT_TEXT_CHARS = 200000;
+const PASSAGE_CHARS = 1200;
+const MAX_GENERATION_ROUNDS = 3;
+const VALIDATION_BATCH_SIZE = 10;
+const OPTION_IDS = ["a", "b", "c", "d"];
+const TEXT_DOCUMENT_EXTENSIONS = ["txt", "md", "csv"];
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+const openAIProvider: QuestionGenerationProvider = {
+  name: "openai",
+  async generate({ system, prompt }) {
+    const response = await generateText({
+      model: openai(process.env.QUIZ_GENERATION_MODEL || process.env.OPENAI_MODEL || "gpt-4o-mini"),
+      system,
+      prompt,
+      temperature: 0.7,
+      maxRetries: 2,
+    });
+    return response.text;
+  },
+};
+
+/**
+ * Deterministic provider that builds fill-in-the-blank questions from the source passages.
+ * Needs no API key, so local development and automated runs get repeatable output.
+ */
+const localProvider: QuestionGenerationProvider = {
+  name: "local",
+  async generate({ request, passages, prompt }) {
+    const count = Number(prompt.match(/Write exactly (\d+)/)?.[1]) || request.questionCount;
+    const sentences = passages
+      .flatMap((passage, passageIndex) => passage.text.split(/(?<=[.!?])\s+/).map(text => ({ passageIndex, text })))
+      .map(({ passageIndex, text }) => ({ passageIndex, text: text.replace(/\s+/g, " ").trim() }))
+      .filter(({ text }) => text.length >= 40 && text.length <= 300);
+    const keywords = [...new Set(sentences.flatMap(({ text }) => extractKeywords(text)))];
+
+    const generated = [];
+    for (let i = 0; i < count && sentences.length > 0; i++) {
+      const { passageIndex, text: sentence } = sentences[i % sentences.length];
+      const answer = extractKeywords(sentence)[0];
+      if (!answer) continue;
+
+      const distractors = keywords.filter(keyword => keyword !== answer);
+      const fillers = ["Jerusalem", "Moses", "Covenant", "Wilderness", "Prophet", "Temple"].filter(word => word !== answer);
+      const choices = [...distractors.slice(i % Math.max(1, distractors.length)), ...distractors, ...fillers]
+        .filter((choice, index, all) => all.indexOf(choice) === index)
+        .slice(0, 3);
+      const correctIndex = i % OPTION_IDS.length;
+      choices.splice(correctIndex, 0, answer);
+
+      generated.push({
+        question: `Which word completes this statement from the source material: "${sentence.replace(answer, "_____")}"`,
+        options: choices.slice(0, OPTION_IDS.length),
+        correct_answer: OPTION_IDS[correctIndex],
+        explanation: `The source reads: "${sentence}"`,
+        bloomsLevel: request.bloomsLevels[i % request.bloomsLevels.length],
+        book: request.books[0] || "",
+        chapter: request.chapters[0] || "",
+        topic: request.topics[0] || "",
+        citations: [{
+          reference: [request.books[0], request.chapters[0]].filter(Boolean).join(" "),
+          passage: passageIndex + 1,
+          excerpt: sentence,
+        }],
+      });
+    }
+    return JSON.stringify(generated);
+  },
+};
+
+const providers = new Map<string, QuestionGenerationProvider>([
+  [openAIProvider.name, openAIProvider],
+  [localProvider.name, localProvider],
+]);
+
+/**
+ * Make a provider available by name, e.g. for QUIZ_GENERATION_PROVIDER=<name>
+ */
+export function registerGenerationProvider(provider: QuestionGenerationProvider) {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * The provider named by QUIZ_GENERATION_PROVIDER (default "openai")
+ */
+export function getGenerationProvider(name = process.env.QUIZ_GENERATION_PROVIDER || "openai"): QuestionGenerationProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new QuestionGenerationError(`Unknown question generation provider "${name}". Available: ${[...providers.keys()].join(", ")}`);
+  }
+  return provider;
+}
+
+/**
+ * Whether generation jobs run in-process rather than through the external webhook
+ */
+export function isBuiltInGenerationEnabled(): boolean {
+  return process.env.QUIZ_GENERATION_MODE === "builtin" || !process.env.QUIZ_GENERATION_WEBHOOK_URL;
+}
+
+// ---------------------------------------------------------------------------
+// Request normalization
+// ---------------------------------------------------------------------------
+
+function normalizeDifficulty(value: unknown): GenerationDifficulty {
+  const key = String(value ?? "").trim().toLowerCase();
+  if (["easy", "beginner", "low"].includes(key)) return "easy";
+  if (["hard", "difficult", "advanced", "high"].includes(key)) return "hard";
+  return "intermediate";
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return typeof value === "string" && value.trim() ? [value.trim()] : [];
+  return value.filter((item): item is string => typeof item === "string" && item.trim() !== "").map(item => item.trim());
+}
+
+/**
+ * Build a generation request from a job's webhook payload
+ */
+export function generationRequestFromPayload(payload: Record<string, unknown>): GenerationRequest {
+  const bloomsLevels = stringList(payload.bloomsLevel ?? payload.bloomsLevels)
+    .map(level => level.toLowerCase())
+    .filter((level): level is GenerationBloomsLevel => BLOOMS_LEVELS.includes(level as GenerationBloomsLevel));
+
+  return {
+    questionCount: Math.min(100, Math.max(1, Math.round(Number(payload.questionCount) || 10))),
+    difficulty: normalizeDifficulty(payload.difficulty),
+    bloomsLevels: bloomsLevels.length > 0 ? bloomsLevels : ["knowledge", "comprehension"],
+    books: stringList(payload.books),
+    chapters: stringList(payload.chapters),
+    references: stringList(payload.references),
+    topics: stringList(payload.topics),
+    quizTitle: typeof payload.quizTitle === "string" ? payload.quizTitle : undefined,
+    quizDescription: typeof payload.quizDescription === "string" ? payload.quizDescription : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Retrieval
+// ---------------------------------------------------------------------------
+
+/**
+ * Text to keep with an uploaded document so it can be used without LightRAG.
+ * Only plain-text formats are kept; PDFs and Word files rely on LightRAG.
+ */
+export async function readDocumentText(file: File): Promise<string | undefined> {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  if (!file.type.startsWith("text/") && !TEXT_DOCUMENT_EXTENSIONS.includes(extension)) return undefined;
+  const text = (await file.text()).replace(/\r\n?/g, "\n").trim();
+  return text ? text.slice(0, MAX_DOCUMENT_TEXT_CHARS) : undefined;
+}
+
+function retrievalQuery(request: GenerationRequest): string {
+  const scope = [
+    request.references.length > 0 && `in ${request.references.join(", ")}`,
+    request.references.length === 0 && request.books.length > 0 && `in ${request.books.join(", ")}`,
+    request.references.length === 0 && request.chapters.length > 0 && `chapter${request.chapters.length > 1 ? "s" : ""} ${request.chapters.join(", ")}`,
+    request.topics.length > 0 && `about ${request.topics.join(", ")}`,
+  ].filter(Boolean).join(" ");
+  return `Key people, events, places and teachings ${scope || `covered by ${request.quizTitle || "these documents"}`}`;
+}
+
+function queryTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().match(/[a-z0-9]{3,}/g) ?? [])];
+}
+
+/**
+ * Split a document into passages and keep the ones that best match the query
+ */
+function rankPassages(text: string, terms: string[]): string[] {
+  const paragraphs = text.split(/\n{2,}/).flatMap(paragraph => {
+    const chunks = [];
+    for (let start = 0; start < paragraph.length; start += PASSAGE_CHARS) {
+      chunks.push(paragraph.slice(start, start + PASSAGE_CHARS).trim());
+    }
+    return chunks;
+  }).filter(Boolean);
+
+  return paragraphs
+    .map((passage, index) => {
+      const lower = passage.toLowerCase();
+      const score = terms.reduce((sum, term) => sum + (lower.includes(term) ? 1 : 0), 0);
+      return { passage, index, score };
+    })
+    // Best matches first; ties keep document order so the output is stable
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ passage }) => passage);
+}
+
+/**
+ * Passages to ground the questions in: LightRAG context when the documents are indexed there,
+ * otherwise the saved text of the documents themselves
+ */
+export async function retrievePassages(documentIds: string[], request: GenerationRequest): Promise<SourcePassage[]> {
+  const docs = documentIds.length > 0
+    ? await db
+        .select({ id: documents.id, processedData: documents.processedData })
+        .from(documents)
+        .where(and(inArray(documents.id, documentIds), ne(documents.status, "deleted")))
+    : [];
+
+  const query = retrievalQuery(request);
+  const indexed = docs.some(doc => {
+    const data = doc.processedData as Record<string, unknown> | null;
+    return Boolean(data?.lightragDocumentId || data?.permanentDocId || data?.trackId);
+  });
+
+  if (indexed && process.env.LIGHTRAG_API_KEY) {
+    try {
+      const context = (await LightRAGService.queryContext(query)).trim();
+      if (context) {
+        return [{ documentId: null, source: "lightrag", text: context.slice(0, MAX_CONTEXT_CHARS) }];
+      }
+    } catch (error) {
+      logger.warn("LightRAG retrieval failed, falling back to document text:", error);
+    }
+  }
+
+  const terms = queryTerms(query);
+  const passages: SourcePassage[] = [];
+  let remaining = MAX_CONTEXT_CHARS;
+  const ranked = docs.map(doc => {
+    const text = (doc.processedData as Record<string, unknown> | null)?.textContent;
+    return { id: doc.id, passages: typeof text === "string" ? rankPassages(text, terms) : [] };
+  });
+
+  // Take passages round-robin so every document contributes
+  for (let round = 0; remaining > 0 && ranked.some(doc => round < doc.passages.length); round++) {
+    for (const doc of ranked) {
+      const text = doc.passages[round];
+      if (!text || remaining <= 0) continue;
+      passages.push({ documentId: doc.id, source: "document", text: text.slice(0, remaining) });
+      remaining -= text.length;
+    }
+  }
+  return passages;
+}
+
+// ---------------------------------------------------------------------------
+// Prompting and parsing
+// ---------------------------------------------------------------------------
+
+const SYSTEM_PROMPT = `You write multiple-choice quiz questions for Bible study groups from a Protestant perspective.
+Every question must be answerable from the source passages provided; never rely on outside knowledge or invent details.
+Cite the passage each question comes from, quoting the supporting sentence word for word.
+Each question has exactly four options, one unambiguously correct answer and a short explanation that cites the passage.
+Respond with ONLY a JSON array, no commentary.`;
+
+function buildPrompt(request: GenerationRequest, passages: SourcePassage[], count: number, avoid: string[]): string {
+  const levels = Array.from({ length: count }, (_, i) => request.bloomsLevels[i % request.bloomsLevels.length]);
+  const context = passages.map((passage, i) => `[${i + 1}] ${passage.text}`).join("\n\n");
+
+  return `Write exactly ${count} question${count === 1 ? "" : "s"}.
+
+Quiz: ${request.quizTitle || "Bible study quiz"}${request.quizDescription ? ` - ${request.quizDescription}` : ""}
+Difficulty: ${request.difficulty}
+${request.references.length > 0 ? `Passages: ${request.references.join("; ")}\n` : ""}${request.books.length > 0 ? `Books: ${request.books.join(", ")}\n` : ""}${request.chapters.length > 0 ? `Chapters: ${request.chapters.join(", ")}\n` : ""}${request.topics.length > 0 ? `Topics: ${request.topics.join(", ")}\n` : ""}Bloom's level for each question, in order: ${levels.join(", ")}
+${avoid.length > 0 ? `\nDo not repeat these questions:\n${avoid.map(text => `- ${text}`).join("\n")}\n` : ""}
+Source passages:
+${context}
+
+Each array item:
+{"question": string, "options": {"a": string, "b": string, "c": string, "d": string}, "correct_answer": "a" | "b" | "c" | "d", "explanation": string, "bloomsLevel": string, "book": string, "chapter": string, "topic": string, "citations": [{"reference": "Book chapter:verse-verse", "passage": number of the source passage, "excerpt": exact sentence quoted from that passage}]}`;
+}
+
+function extractJsonArray(text: string): unknown[] {
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(text.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1"));
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Fall through to an object with a questions array
+    }
+  }
+
+  try {
+    const parsed = JSON.parse(text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1));
+    if (Array.isArray(parsed?.questions)) return parsed.questions;
+  } catch {
+    // Not JSON at all
+  }
+  return [];
+}
+
+function cleanText(value: unknown, maxLength: number): string {
+  if (typeof value !== "string" && typeof value !== "number") return "";
+  return String(value).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+}
+
+/**
+ * Turn one item of the model's output into a question, or null if it's unusable
+ */
+export function normalizeGeneratedQuestion(
+  raw: unknown,
+  request: GenerationRequest,
+  targetLevel: GenerationBloomsLevel,
+  passages: SourcePassage[]
+): GeneratedQuestion | null {
+  if (!raw || typeof raw !== "object") return null;
+  const item = raw as Record<string, unknown>;
+
+  const questionText = cleanText(item.question ?? item.questionText, 2000);
+  const rawOptions: unknown[] = Array.isArray(item.options)
+    ? item.options
+    : item.options && typeof item.options === "object"
+      ? Object.values(item.options as Record<string, unknown>)
+      : [];
+  const optionTexts = rawOptions
+    .map(option => cleanText(option && typeof option === "object" ? (option as { text?: unknown }).text : option, 500))
+    .filter(Boolean);
+  if (!questionText || optionTexts.length < 2 || optionTexts.length > OPTION_IDS.length) return null;
+  if (new Set(optionTexts.map(text => text.toLowerCase())).size !== optionTexts.length) return null;
+
+  const options = optionTexts.map((text, i) => ({ id: OPTION_IDS[i], text }));
+
+  // The answer may be a letter, or the text of the correct option
+  const answer = cleanText(item.correct_answer ?? item.correctAnswer, 500);
+  const byId = options.find(option => option.id === answer.toLowerCase());
+  const byText = options.find(option => option.text.toLowerCase() === answer.toLowerCase());
+  const correctAnswer = (byId ?? byText)?.id;
+  if (!correctAnswer) return null;
+
+  const level = cleanText(item.bloomsLevel, 50).toLowerCase() as GenerationBloomsLevel;
+  const scripture = normalizeBookAndChapter(
+    cleanText(item.book, 100) || request.books[0],
+    cleanText(item.chapter, 100) || request.chapters[0]
+  );
+  const book = scripture.book ?? "";
+  const chapter = scripture.chapter ?? "";
+
+  // Keep only citations whose excerpt really is in a source passage; a question with none is ungrounded
+  const rawCitations: unknown[] = Array.isArray(item.citations) ? item.citations : [];
+  const citations = rawCitations.flatMap((rawCitation): QuestionCitation[] => {
+    const [citation] = normalizeCitations([rawCitation]);
+    if (!citation?.excerpt) return [];
+    const cited = passages[Number((rawCitation as { passage?: unknown }).passage) - 1];
+    const source = cited && isExcerptInSource(citation.excerpt, cited.text)
+      ? cited
+      : passages.find(passage => isExcerptInSource(citation.excerpt, passage.text));
+    if (!source) return [];
+    return [{
+      ...citation,
+      book: citation.book || book || null,
+      chapter: citation.chapter || chapter || null,
+      documentId: source.documentId,
+    }];
+  }).slice(0, MAX_CITATIONS_PER_QUESTION);
+  if (citations.length === 0) return null;
+
+  return {
+    questionText,
+    options,
+    correctAnswer,
+    explanation: cleanText(item.explanation, 2000),
+    difficulty: request.difficulty,
+    bloomsLevel: request.bloomsLevels.includes(level) ? level : targetLevel,
+    book,
+    chapter,
+    topic: cleanText(item.topic, 100) || request.topics[0] || "",
+    citations,
+  };
+}
+
+function extractKeywords(sentence: string): string[] {
+  const words = sentence.match(/\b[A-Z][a-z]{3,}\b/g) ?? sentence.match(/\b[a-z]{6,}\b/g) ?? [];
+  // Skip the first word, which is capitalized only because it starts the sentence
+  const candidates = words.filter(word => !sentence.startsWith(word));
+  return [...new Set(candidates.length > 0 ? candidates : words)].sort((a, b) => b.length - a.length || a.localeCompare(b));
+}
+
+function questionKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+async function validateBatch(batch: GeneratedQuestion[]): Promise<boolean[]> {
+  const toValidate: QuestionToValidate[] = batch.map((question, i) => ({
+    id: `generated_${i}`,
+    questionText: question.questionText,
+    options: question.options,
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation,
+    book: question.book || null,
+    chapter: question.chapter || null,
+    topic: question.topic || null,
+    difficulty: question.difficulty,
+    bloomsLevel: question.bloomsLevel,
+    citations: question.citations,
+  }));
+  const results = await QuestionValidator.validateQuestions(toValidate);
+  return toValidate.map(question => results[question.id]?.isValid ?? false);
+}
+
+/**
+ * Generate and validate questions for a request, asking the provider again for any that are rejected
+ */
+export async function generateQuestions(
+  request: GenerationRequest,
+  options: {
+    documentIds: string[];
+    passages?: SourcePassage[]; // Use these instead of retrieving from the documents
+    provider?: QuestionGenerationProvider;
+    onProgress?: (progress: number, message: string) => Promise<void>;
+  }
+): Promise<GenerationOutcome> {
+  const provider = options.provider ?? getGenerationProvider();
+  const report = options.onProgress ?? (async () => {});
+
+  await report(15, "Gathering passages from your documents...");
+  const passages = options.passages ?? await retrievePassages(options.documentIds, request);
+  if (passages.length === 0) {
+    throw new QuestionGenerationError(
+      "No source text is available for the selected documents. Wait for LightRAG to finish processing them, or upload plain-text documents."
+    );
+  }
+
+  const accepted: GeneratedQuestion[] = [];
+  const seen = new Set<string>();
+  let rejected = 0;
+
+  for (let round = 0; round < MAX_GENERATION_ROUNDS && accepted.length < request.questionCount; round++) {
+    const needed = request.questionCount - accepted.length;
+    await report(
+      Math.min(85, 25 + Math.round((accepted.length / request.questionCount) * 60)),
+      round === 0 ? "Writing questions from the passages..." : `Replacing ${needed} question${needed === 1 ? "" : "s"} that failed validation...`
+    );
+
+    const prompt = buildPrompt(request, passages, needed, accepted.map(question => question.questionText));
+    let text: string;
+    try {
+      text = await provider.generate({ system: SYSTEM_PROMPT, prompt, request, passages });
+    } catch (error) {
+      // Provider outages and rate limits are worth another attempt later
+      throw new QuestionGenerationError(
+        `Question generation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        true
+      );
+    }
+
+    const items = extractJsonArray(text);
+    const candidates: GeneratedQuestion[] = [];
+    items.forEach((item, i) => {
+      const question = normalizeGeneratedQuestion(item, request, request.bloomsLevels[(accepted.length + i) % request.bloomsLevels.length], passages);
+      const key = question ? questionKey(question.questionText) : "";
+      if (!question || seen.has(key)) {
+        rejected++;
+        return;
+      }
+      seen.add(key);
+      candidates.push(question);
+    });
+
+    for (let start = 0; start < candidates.length && accepted.length < request.questionCount; start += VALIDATION_BATCH_SIZE) {
+      const batch = candidates.slice(start, start + VALIDATION_BATCH_SIZE);
+      const valid = await validateBatch(batch);
+      batch.forEach((question, i) => {
+        if (valid[i] && accepted.length < request.questionCount) accepted.push(question);
+        else if (!valid[i]) rejected++;
+      });
+    }
+  }
+
+  return { questions: accepted, rejected, passages: passages.length, provider: provider.name };
+}
+
+// ---------------------------------------------------------------------------
+// Saving
+// ---------------------------------------------------------------------------
+
+/**
+ * Add generated questions to a quiz, after any it already has
+ */
+export async function saveGeneratedQuestions(quizId: string, generated: GeneratedQuestion[]) {
+  const existing = await db
+    .select({ orderIndex: questions.orderIndex })
+    .from(questions)
+    .where(eq(questions.quizId, quizId));
+  const firstIndex = existing.reduce((max, row) => Math.max(max, row.orderIndex + 1), 0);
+
+  const rows = generated.map((question, i) => ({
+    id: crypto.randomUUID(),
+    quizId,
+    questionText: question.questionText,
+    options: question.options,
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+    bloomsLevel: question.bloomsLevel,
+    topic: question.topic,
+    book: question.book,
+    chapter: question.chapter,
+    citations: question.citations,
+    orderIndex: firstIndex + i,
+    createdAt: new Date(),
+  }));
+  return rows.length > 0 ? db.insert(questions).values(rows).returning() : [];
+}
+
+/**
+ * Overwrite a question with a generated replacement
+ */
+export async function replaceQuestion(quizId: string, questionId: string, generated: GeneratedQuestion) {
+  const [updated] = await db
+    .update(questions)
+    .set({
+      questionText: generated.questionText,
+      options: generated.options,
+      correctAnswer: generated.correctAnswer,
+      // A generated replacement is always multiple choice
+      questionType: "multiple_choice",
+      answerData: null,
+      explanation: generated.explanation,
+      difficulty: generated.difficulty,
+      bloomsLevel: generated.bloomsLevel,
+      topic: generated.topic,
+      book: generated.book,
+      chapter: generated.chapter,
+      citations: generated.citations,
+    })
+    .where(and(eq(questions.id, questionId), eq(questions.quizId, quizId)))
+    .returning();
+  return updated;
+}
@@ -0,0 +1,1126 @@
+/**
+ * Question import: parse CSV, GIFT, Moodle XML and IMS QTI files into the
+ * `questions` shape.
+ *
+ * Parsing never throws on a bad item. Each source item becomes an ImportRow and
+ * its problems are collected per row, so the preview can show the educator what
+ * to fix or skip. Answer keys go through buildAnswerKey, the same checks the
+ * question editor uses.
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import {
+  buildAnswerKey,
+  type QuestionType,
+  type QuestionOption,
+  type QuestionAnswerData,
+} from "@/lib/question-types";
+import { normalizeBookAndChapter } from "@/lib/scripture-reference";
+
+export const IMPORT_FORMATS = ["csv", "gift", "moodle_xml", "qti"] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: "CSV",
+  gift: "GIFT",
+  moodle_xml: "Moodle XML",
+  qti: "IMS QTI",
+};
+
+export const MAX_IMPORT_QUESTIONS = 200;
+export const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024;
+
+export type ImportDifficulty = "easy" | "intermediate" | "hard";
+
+export interface ImportedQuestion {
+  questionText: string;
+  questionType: QuestionType;
+  options: QuestionOption[];
+  correctAnswer: string;
+  answerData: QuestionAnswerData | null;
+  explanation: string | null;
+  book: string | null;
+  chapter: string | null;
+  difficulty: ImportDifficulty | null;
+}
+
+export interface ImportRow {
+  row: number; // CSV line number, or position of the item in the file
+  label: string; // Short excerpt that identifies the item in the preview
+  question: ImportedQuestion | null; // Null when the row has errors
+  errors: string[];
+}
+
+export interface ImportResult {
+  rows: ImportRow[];
+  error?: string; // The file as a whole couldn't be read
+}
+
+// What a parser extracts before the answer key is checked
+interface RawQuestion {
+  questionText: string;
+  questionType: QuestionType;
+  options?: QuestionOption[];
+  correctAnswer?: string;
+  answerData?: Record<string, unknown>;
+  explanation?: string | null;
+  book?: string | null;
+  chapter?: string | null;
+  difficulty?: string | null;
+}
+
+interface RawRow {
+  row: number;
+  label: string;
+  raw: RawQuestion | null;
+  errors: string[];
+}
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return typeof value === "string" && (IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Guess the format from the file name, falling back to the content
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "csv") return "csv";
+  if (extension === "gift") return "gift";
+
+  const head = content.slice(0, 4000);
+  if (/<quiz[\s>]/.test(head) && /<question[\s>]/.test(head)) return "moodle_xml";
+  if (/<(questestinterop|assessmentItem|qti-assessment-item)[\s>]/.test(head)) return "qti";
+  if (extension === "txt" && /\{[^}]*[=~]|\{\s*(T|F|TRUE|FALSE)\s*\}/.test(content)) return "gift";
+  return null;
+}
+
+/**
+ * Parse an import file. Rows beyond MAX_IMPORT_QUESTIONS are dropped with a file-level error.
+ */
+export function parseQuestionImport(content: string, format: ImportFormat): ImportResult {
+  const text = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  let parsed: { rows: RawRow[]; error?: string };
+
+  switch (format) {
+    case "csv":
+      parsed = parseCsvQuestions(text);
+      break;
+    case "gift":
+      parsed = parseGiftQuestions(text);
+      break;
+    case "moodle_xml":
+      parsed = parseMoodleXmlQuestions(text);
+      break;
+    case "qti":
+      parsed = parseQtiQuestions(text);
+      break;
+  }
+
+  if (parsed.error) return { rows: [], error: parsed.error };
+  if (parsed.rows.length === 0) return { rows: [], error: "No questions were found in the file" };
+  if (parsed.rows.length > MAX_IMPORT_QUESTIONS) {
+    return {
+      rows: parsed.rows.slice(0, MAX_IMPORT_QUESTIONS).map(finalizeRow),
+      error: `Only the first ${MAX_IMPORT_QUESTIONS} of ${parsed.rows.length} questions can be imported at once`,
+    };
+  }
+  return { rows: parsed.rows.map(finalizeRow) };
+}
+
+/**
+ * Parse an upload sent as { fileName, content, format? }, detecting the format when it's missing
+ */
+export function parseImportUpload(body: unknown): (ImportResult & { format: ImportFormat }) | { error: string; format?: undefined } {
+  const { fileName, content, format } = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  if (typeof content !== "string" || !content.trim()) {
+    return { error: "Choose a file to import" };
+  }
+  if (Buffer.byteLength(content, "utf8") > MAX_IMPORT_FILE_BYTES) {
+    return { error: `Import files can be at most ${MAX_IMPORT_FILE_BYTES / 1024 / 1024}MB` };
+  }
+  if (format !== undefined && format !== null && format !== "" && !isImportFormat(format)) {
+    return { error: `Format must be one of: ${IMPORT_FORMATS.join(", ")}` };
+  }
+  if (/^PK\x03\x04/.test(content)) {
+    return { error: "Zip packages can't be imported. Extract the package and upload the XML file inside it." };
+  }
+
+  const resolved = isImportFormat(format) ? format : detectImportFormat(typeof fileName === "string" ? fileName : "", content);
+  if (!resolved) {
+    return { error: "Couldn't tell the file format. Choose CSV, GIFT, Moodle XML or QTI." };
+  }
+  const result = parseQuestionImport(content, resolved);
+  if (result.rows.length === 0) {
+    return { error: result.error ?? "No questions were found in the file" };
+  }
+  return { ...result, format: resolved };
+}
+
+function normalizeDifficulty(value: string | null | undefined): ImportDifficulty | null | undefined {
+  if (!value || !value.trim()) return null;
+  const key = value.trim().toLowerCase();
+  if (["easy", "beginner", "low", "1"].includes(key)) return "easy";
+  if (["intermediate", "medium", "moderate", "2"].includes(key)) return "intermediate";
+  if (["hard", "difficult", "advanced", "high", "3"].includes(key)) return "hard";
+  return undefined;
+}
+
+function finalizeRow({ row, label, raw, errors }: RawRow): ImportRow {
+  const rowErrors = [...errors];
+  if (!raw) return { row, label, question: null, errors: rowErrors };
+
+  const questionText = raw.questionText.trim();
+  if (!questionText) rowErrors.push("Question text is missing");
+
+  const difficulty = normalizeDifficulty(raw.difficulty);
+  if (difficulty === undefined) rowErrors.push(`Unknown difficulty "${raw.difficulty}" (use easy, intermediate or hard)`);
+
+  const key = buildAnswerKey({
+    questionType: raw.questionType,
+    options: raw.options ?? [],
+    correctAnswer: raw.correctAnswer ?? "",
+    answerData: raw.answerData,
+  });
+  // The parser's own message is more specific than the generic answer key error
+  if (!key.valid && errors.length === 0) rowErrors.push(key.error);
+
+  if (rowErrors.length > 0 || !key.valid) {
+    return { row, label, question: null, errors: rowErrors };
+  }
+
+  return {
+    row,
+    label,
+    errors: [],
+    question: {
+      questionText,
+      questionType: key.questionType,
+      options: key.options,
+      correctAnswer: key.correctAnswer,
+      answerData: key.answerData,
+      explanation: raw.explanation?.trim() || null,
+      ...normalizeBookAndChapter(raw.book, raw.chapter),
+      difficulty: difficulty ?? null,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function makeLabel(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > 80 ? `${clean.slice(0, 77)}...` : clean;
+}
+
+function optionsFromTexts(texts: string[]): QuestionOption[] {
+  return texts.map((text, i) => ({ id: optionId(i), text }));
+}
+
+// a, b, c... like generated questions, falling back to opt-N past z
+function optionId(index: number): string {
+  return index < 26 ? String.fromCharCode(97 + index) : `opt-${index + 1}`;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", hellip: "…",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Plain text from the HTML that Moodle and QTI store question text as
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Resolve answer tokens ("B", "2" or the option's text) to option ids
+ */
+function resolveOptionIds(options: QuestionOption[], answer: string): { ids: string[]; unknown: string[] } {
+  const whole = answer.trim().toLowerCase();
+  const exact = options.find(o => o.text.trim().toLowerCase() === whole);
+  if (exact) return { ids: [exact.id], unknown: [] };
+
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  for (const token of answer.split(/[,;|]/).map(t => t.trim()).filter(Boolean)) {
+    const lower = token.toLowerCase();
+    let index = -1;
+    if (/^[a-z]$/i.test(token)) index = lower.charCodeAt(0) - 97;
+    else if (/^\d+$/.test(token)) index = parseInt(token, 10) - 1;
+
+    const byText = options.find(o => o.text.trim().toLowerCase() === lower);
+    const option = byText ?? (index >= 0 && index < options.length ? options[index] : undefined);
+    if (option) ids.push(option.id);
+    else unknown.push(token);
+  }
+  return { ids: [...new Set(ids)], unknown };
+}
+
+function parseTrueFalse(value: string): "true" | "false" | null {
+  const key = value.trim().toLowerCase();
+  if (["true", "t", "yes", "y", "1"].includes(key)) return "true";
+  if (["false", "f", "no", "n", "0"].includes(key)) return "false";
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+const CSV_TYPE_ALIASES: Record<string, QuestionType> = {
+  multiple_choice: "multiple_choice", mc: "multiple_choice", multichoice: "multiple_choice", single: "multiple_choice",
+  true_false: "true_false", tf: "true_false", truefalse: "true_false", boolean: "true_false",
+  multi_select: "multi_select", multiselect: "multi_select", select_all: "multi_select", checkbox: "multi_select", multiple_answer: "multi_select",
+  fill_blank: "fill_blank", fill_in_the_blank: "fill_blank", blank: "fill_blank", short_answer: "fill_blank", shortanswer: "fill_blank",
+  ordering: "ordering", order: "ordering", sequence: "ordering",
+  matching: "matching", match: "matching",
+};
+
+const CSV_COLUMN_ALIASES: Record<string, string[]> = {
+  question: ["question", "question_text", "text", "prompt"],
+  type: ["type", "question_type"],
+  options: ["options", "choices"],
+  correct: ["correct", "correct_answer", "answer", "answers"],
+  explanation: ["explanation", "feedback"],
+  book: ["book"],
+  chapter: ["chapter"],
+  difficulty: ["difficulty", "level"],
+};
+
+/** Column headers for the downloadable template */
+export const CSV_TEMPLATE_HEADERS = [
+  "question", "type", "option_a", "option_b", "option_c", "option_d", "correct", "explanation", "book", "chapter", "difficulty",
+];
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines.
+ * Returns each record with the line it starts on.
+ */
+function parseCsvRecords(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === "\"" && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n") {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return records.filter(r => r.fields.some(f => f.trim() !== ""));
+}
+
+function parseCsvQuestions(text: string): { rows: RawRow[]; error?: string } {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return { rows: [] };
+
+  const headers = records[0].fields.map(h => h.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, ""));
+  const columnIndex = (name: string) => headers.findIndex(h => CSV_COLUMN_ALIASES[name].includes(h));
+  const questionColumn = columnIndex("question");
+  if (questionColumn < 0) {
+    return { rows: [], error: "The CSV needs a header row with a \"question\" column. Download the template to see the expected layout." };
+  }
+
+  // option_a, option_b... or option_1, option_2..., in header order
+  const optionColumns = headers
+    .map((h, i) => ({ h, i }))
+    .filter(({ h }) => /^(option|choice)_?([a-z]|\d+)$/.test(h))
+    .map(({ i }) => i);
+  const listColumn = columnIndex("options");
+
+  return {
+    rows: records.slice(1).map(({ line, fields }) => {
+      const cell = (name: string) => {
+        const index = columnIndex(name);
+        return index >= 0 ? (fields[index] ?? "").trim() : "";
+      };
+      const questionText = (fields[questionColumn] ?? "").trim();
+      const label = makeLabel(questionText) || `Line ${line}`;
+      const errors: string[] = [];
+
+      const typeValue = cell("type").toLowerCase().replace(/[^a-z]+/g, "_").replace(/^_|_$/g, "");
+      const questionType = typeValue ? CSV_TYPE_ALIASES[typeValue] : "multiple_choice";
+      if (!questionType) {
+        return { row: line, label, raw: null, errors: [`Unknown question type "${cell("type")}"`] };
+      }
+
+      const optionTexts = (optionColumns.length > 0
+        ? optionColumns.map(i => (fields[i] ?? "").trim())
+        : listColumn >= 0 ? (fields[listColumn] ?? "").split("|").map(t => t.trim()) : []
+      ).filter(Boolean);
+      const correct = cell("correct");
+
+      const raw: RawQuestion = {
+        questionText,
+        questionType,
+        explanation: cell("explanation"),
+        book: cell("book"),
+        chapter: cell("chapter"),
+        difficulty: cell("difficulty"),
+      };
+
+      switch (questionType) {
+        case "multiple_choice":
+        case "multi_select": {
+          raw.options = optionsFromTexts(optionTexts);
+          const { ids, unknown } = resolveOptionIds(raw.options, correct);
+          if (!correct) errors.push("Correct answer is missing");
+          else if (unknown.length > 0) errors.push(`Correct answer "${unknown.join(", ")}" doesn't match any option`);
+          else if (questionType === "multiple_choice" && ids.length > 1) errors.push("Multiple choice questions take one correct answer; use type multi_select for several");
+          raw.correctAnswer = ids[0];
+          raw.answerData = { correctOptionIds: ids };
+          break;
+        }
+        case "true_false": {
+          const value = parseTrueFalse(correct);
+          if (!value) errors.push("Correct answer must be true or false");
+          raw.correctAnswer = value ?? "";
+          break;
+        }
+        case "fill_blank": {
+          const accepted = correct ? correct.split("|") : optionTexts;
+          raw.answerData = { acceptedAnswers: accepted };
+          break;
+        }
+        case "ordering":
+          // Items are listed in the correct order
+          raw.options = optionsFromTexts(optionTexts);
+          break;
+        case "matching": {
+          const pairs = optionTexts.map(t => t.split(/\s*(?:->|=>|=)\s*/));
+          if (pairs.some(p => p.length !== 2 || !p[0] || !p[1])) {
+            errors.push("Matching options must be written as \"item = match\"");
+            break;
+          }
+          raw.options = optionsFromTexts(pairs.map(p => p[0]));
+          const matches = pairs.map((p, i) => ({ id: `m${i + 1}`, text: p[1] }));
+          raw.answerData = {
+            matches,
+            pairs: Object.fromEntries(raw.options.map((o, i) => [o.id, matches[i].id])),
+          };
+          break;
+        }
+      }
+
+      return { row: line, label, raw, errors };
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GIFT (Moodle's plain-text format)
+// ---------------------------------------------------------------------------
+
+// Escaped special characters are swapped for private-use placeholders while parsing
+const GIFT_ESCAPES: Record<string, string> = {
+  "~": "\uE001", "=": "\uE002", "#": "\uE003", "{": "\uE004", "}": "\uE005", ":": "\uE006",
+};
+
+function giftUnescape(text: string): string {
+  let result = text;
+  for (const [char, placeholder] of Object.entries(GIFT_ESCAPES)) {
+    result = result.split(placeholder).join(char);
+  }
+  return result.trim();
+}
+
+function giftText(text: string, isHtml: boolean): string {
+  const plain = giftUnescape(text);
+  return isHtml ? htmlToText(plain) : plain.replace(/\s*\n\s*/g, " ");
+}
+
+interface GiftAnswer {
+  correct: boolean;
+  weight: number | null;
+  text: string;
+}
+
+function parseGiftAnswers(body: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  const pattern = /([=~])(%-?\d+(?:\.\d+)?%)?([^=~]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    // Per-answer feedback after # isn't kept
+    const text = match[3].split("#")[0];
+    answers.push({
+      correct: match[1] === "=",
+      weight: match[2] ? parseFloat(match[2].slice(1, -1)) : null,
+      text,
+    });
+  }
+  return answers;
+}
+
+function parseGiftQuestion(block: string): { raw: RawQuestion | null; label: string; errors: string[] } {
+  let source = block.replace(/\\([~=#{}:])/g, (_, char: string) => GIFT_ESCAPES[char]).replace(/\\n/g, "\n");
+
+  let title = "";
+  const titleMatch = source.match(/^\s*::([\s\S]*?)::/);
+  if (titleMatch) {
+    title = titleMatch[1];
+    source = source.slice(titleMatch[0].length);
+  }
+
+  const formatMatch = source.match(/^\s*\[(html|moodle|plain|markdown)\]/i);
+  const isHtml = formatMatch?.[1].toLowerCase() === "html";
+  if (formatMatch) source = source.slice(formatMatch[0].length);
+
+  const open = source.indexOf("{");
+  const close = source.indexOf("}", open + 1);
+  if (open < 0 || close < 0) {
+    const label = makeLabel(giftUnescape(title || source));
+    return { raw: null, label, errors: ["No answer block { } found"] };
+  }
+
+  const before = source.slice(0, open);
+  const after = source.slice(close + 1);
+  // Text after the answers makes it a "missing word" question
+  const questionText = giftText(after.trim() ? `${before}_____${after}` : before, isHtml);
+  const label = makeLabel(questionText || giftUnescape(title));
+
+  const [answerPart, ...feedbackParts] = source.slice(open + 1, close).split("####");
+  const explanation = feedbackParts.length > 0 ? giftText(feedbackParts.join(" "), isHtml) : null;
+  const body = answerPart.trim();
+
+  if (!body) return { raw: null, label, errors: ["Essay questions can't be imported"] };
+  if (body.startsWith("#")) return { raw: null, label, errors: ["Numerical questions can't be imported"] };
+
+  const trueFalse = body.split("#")[0].trim().toUpperCase();
+  if (["T", "F", "TRUE", "FALSE"].includes(trueFalse)) {
+    return {
+      label,
+      errors: [],
+      raw: { questionText, questionType: "true_false", correctAnswer: trueFalse.startsWith("T") ? "true" : "false", explanation },
+    };
+  }
+
+  const answers = parseGiftAnswers(body);
+  if (answers.length === 0) return { raw: null, label, errors: ["No answers found in { }"] };
+
+  const texts = answers.map(a => giftText(a.text, isHtml));
+
+  // {=item -> match =item -> match}
+  if (answers.every(a => a.correct) && answers.some(a => a.text.includes("->"))) {
+    const pairs = answers.map(a => a.text.split("->").map(part => giftText(part, isHtml)));
+    const prompts = pairs.filter(p => p[0]);
+    const options = optionsFromTexts(prompts.map(p => p[0]));
+    // Pairs with an empty left side are extra distractors
+    const matches = pairs.map((p, i) => ({ id: `m${i + 1}`, text: p[1] ?? "" }));
+    const matchIdFor = (text: string) => matches.find(m => m.text === text)?.id;
+    return {
+      label,
+      errors: [],
+      raw: {
+        questionText,
+        questionType: "matching",
+        options,
+        answerData: {
+          matches,
+          pairs: Object.fromEntries(options.map((o, i) => [o.id, matchIdFor(prompts[i][1] ?? "")])),
+        },
+        explanation,
+      },
+    };
+  }
+
+  // {=answer =alternative} is a short answer
+  if (answers.every(a => a.correct)) {
+    return {
+      label,
+      errors: [],
+      raw: { questionText, questionType: "fill_blank", answerData: { acceptedAnswers: texts }, explanation },
+    };
+  }
+
+  const options = optionsFromTexts(texts);
+  const creditedIds = options.filter((_, i) => answers[i].correct || (answers[i].weight ?? 0) > 0).map(o => o.id);
+
+  // ~%50%A ~%50%B ~%-100%C gives credit to several answers
+  if (creditedIds.length > 1 && answers.some(a => a.weight !== null)) {
+    return {
+      label,
+      errors: [],
+      raw: { questionText, questionType: "multi_select", options, answerData: { correctOptionIds: creditedIds }, explanation },
+    };
+  }
+
+  const correctIndexes = answers.map((a, i) => (a.correct ? i : -1)).filter(i => i >= 0);
+  if (correctIndexes.length !== 1) {
+    return { raw: null, label, errors: ["Multiple choice questions need exactly one answer marked with ="] };
+  }
+  return {
+    label,
+    errors: [],
+    raw: { questionText, questionType: "multiple_choice", options, correctAnswer: options[correctIndexes[0]].id, explanation },
+  };
+}
+
+function parseGiftQuestions(text: string): { rows: RawRow[] } {
+  const rows: RawRow[] = [];
+  const lines = text.split("\n");
+  let block: string[] = [];
+  let startLine = 0;
+
+  const flush = () => {
+    const content = block.join("\n").trim();
+    block = [];
+    if (!content) return;
+    const { raw, label, errors } = parseGiftQuestion(content);
+    rows.push({ row: startLine, label, raw, errors });
+  };
+
+  lines.forEach((line, index) => {
+    // Comments and category switches aren't part of any question
+    if (/^\s*(\/\/|\$CATEGORY:)/.test(line)) return;
+    if (!line.trim()) {
+      // Blank lines inside an unfinished answer block don't end the question
+      const pending = block.join("\n").replace(/\\[{}]/g, "");
+      if ((pending.match(/\{/g) ?? []).length > (pending.match(/\}/g) ?? []).length) return;
+      flush();
+      return;
+    }
+    if (block.length === 0) startLine = index + 1;
+    block.push(line);
+  });
+  flush();
+
+  return { rows };
+}
+
+// ---------------------------------------------------------------------------
+// XML helpers
+// ---------------------------------------------------------------------------
+
+type XmlNode = Record<string, unknown>;
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function xmlText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(xmlText).join(" ");
+  const node = value as XmlNode;
+  if ("#text" in node) return xmlText(node["#text"]);
+  if ("text" in node) return xmlText(node.text);
+  return "";
+}
+
+function xmlAttr(node: unknown, name: string): string {
+  if (!node || typeof node !== "object") return "";
+  const value = (node as XmlNode)[`@_${name}`];
+  return value === undefined ? "" : String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Moodle XML
+// ---------------------------------------------------------------------------
+
+const MOODLE_UNSUPPORTED: Record<string, string> = {
+  numerical: "Numerical",
+  essay: "Essay",
+  calculated: "Calculated",
+  calculatedsimple: "Calculated",
+  calculatedmulti: "Calculated",
+  multianswer: "Embedded answers (Cloze)",
+  ddwtos: "Drag and drop",
+  ddimageortext: "Drag and drop",
+  ddmarker: "Drag and drop",
+  gapselect: "Select missing words",
+  randomsamatch: "Random short-answer matching",
+};
+
+function parseMoodleQuestion(node: XmlNode, type: string): { raw: RawQuestion | null; label: string; errors: string[] } {
+  const questionText = htmlToText(xmlText((node.questiontext as XmlNode | undefined)?.text));
+  const label = makeLabel(questionText || xmlText((node.name as XmlNode | undefined)?.text));
+  const explanation = htmlToText(xmlText((node.generalfeedback as XmlNode | undefined)?.text)) || null;
+  const answers = asArray(node.answer as XmlNode | XmlNode[]).map(answer => ({
+    text: htmlToText(xmlText(answer.text)),
+    fraction: parseFloat(xmlAttr(answer, "fraction")) || 0,
+  }));
+
+  if (MOODLE_UNSUPPORTED[type]) {
+    return { raw: null, label, errors: [`${MOODLE_UNSUPPORTED[type]} questions can't be imported`] };
+  }
+
+  switch (type) {
+    case "multichoice": {
+      const options = optionsFromTexts(answers.map(a => a.text));
+      const single = xmlText(node.single).trim().toLowerCase() !== "false";
+      if (!single) {
+        return {
+          label,
+          errors: [],
+          raw: {
+            questionText,
+            questionType: "multi_select",
+            options,
+            answerData: { correctOptionIds: options.filter((_, i) => answers[i].fraction > 0).map(o => o.id) },
+            explanation,
+          },
+        };
+      }
+      const best = answers.reduce((bestIndex, a, i) => (a.fraction > answers[bestIndex].fraction ? i : bestIndex), 0);
+      if (!answers[best] || answers[best].fraction <= 0) {
+        return { raw: null, label, errors: ["No answer is marked correct"] };
+      }
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "multiple_choice", options, correctAnswer: options[best].id, explanation },
+      };
+    }
+    case "truefalse": {
+      const correct = answers.find(a => a.fraction > 0);
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "true_false", correctAnswer: parseTrueFalse(correct?.text ?? "") ?? "", explanation },
+      };
+    }
+    case "shortanswer":
+      return {
+        label,
+        errors: [],
+        raw: {
+          questionText,
+          questionType: "fill_blank",
+          answerData: {
+            acceptedAnswers: answers.filter(a => a.fraction >= 100).map(a => a.text),
+            caseSensitive: xmlText(node.usecase).trim() === "1",
+          },
+          explanation,
+        },
+      };
+    case "ordering":
+      // The ordering plugin lists items in the correct order
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "ordering", options: optionsFromTexts(answers.map(a => a.text)), explanation },
+      };
+    case "matching": {
+      const subquestions = asArray(node.subquestion as XmlNode | XmlNode[]).map(sub => ({
+        prompt: htmlToText(xmlText(sub.text)),
+        match: htmlToText(xmlText((sub.answer as XmlNode | undefined)?.text ?? sub.answer)),
+      }));
+      // Subquestions without a prompt are extra distractor answers
+      const prompts = subquestions.filter(s => s.prompt);
+      const options = optionsFromTexts(prompts.map(s => s.prompt));
+      const matches = [...new Set(subquestions.map(s => s.match))].map((text, i) => ({ id: `m${i + 1}`, text }));
+      return {
+        label,
+        errors: [],
+        raw: {
+          questionText,
+          questionType: "matching",
+          options,
+          answerData: {
+            matches,
+            pairs: Object.fromEntries(options.map((o, i) => [o.id, matches.find(m => m.text === prompts[i].match)?.id])),
+          },
+          explanation,
+        },
+      };
+    }
+    default:
+      return { raw: null, label, errors: [`Moodle question type "${type}" isn't supported`] };
+  }
+}
+
+function parseMoodleXmlQuestions(text: string): { rows: RawRow[]; error?: string } {
+  let document: XmlNode;
+  try {
+    document = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: "@_",
+      parseTagValue: false,
+      parseAttributeValue: false,
+      isArray: name => ["question", "answer", "subquestion"].includes(name),
+    }).parse(text);
+  } catch {
+    return { rows: [], error: "The file isn't valid XML" };
+  }
+
+  const quiz = document.quiz as XmlNode | undefined;
+  if (!quiz) return { rows: [], error: "Not a Moodle XML file (missing <quiz> root)" };
+
+  const rows: RawRow[] = [];
+  let position = 0;
+  for (const node of asArray(quiz.question as XmlNode | XmlNode[])) {
+    const type = xmlAttr(node, "type").toLowerCase();
+    // Categories and text-only descriptions aren't questions
+    if (type === "category" || type === "description") continue;
+    position++;
+    const { raw, label, errors } = parseMoodleQuestion(node, type);
+    rows.push({ row: position, label, raw, errors });
+  }
+  return { rows };
+}
+
+// ---------------------------------------------------------------------------
+// IMS QTI (1.2 as exported by Canvas/Blackboard, 2.x and 3.0 items)
+// ---------------------------------------------------------------------------
+
+// Document-order tree from fast-xml-parser's preserveOrder mode
+type OrderedNode = Record<string, unknown> & { ":@"?: Record<string, string> };
+
+function nodeTag(node: OrderedNode): string {
+  return Object.keys(node).find(key => key !== ":@") ?? "";
+}
+
+function nodeChildren(node: OrderedNode): OrderedNode[] {
+  const value = node[nodeTag(node)];
+  return Array.isArray(value) ? (value as OrderedNode[]) : [];
+}
+
+function nodeAttr(node: OrderedNode, name: string): string {
+  return node[":@"]?.[`@_${name}`] ?? "";
+}
+
+function findAll(nodes: OrderedNode[], tag: string): OrderedNode[] {
+  const found: OrderedNode[] = [];
+  for (const node of nodes) {
+    if (nodeTag(node) === tag) found.push(node);
+    found.push(...findAll(nodeChildren(node), tag));
+  }
+  return found;
+}
+
+function findFirst(nodes: OrderedNode[], tag: string): OrderedNode | undefined {
+  return findAll(nodes, tag)[0];
+}
+
+/**
+ * Text content in document order; `replace` can substitute or skip whole elements
+ */
+function orderedText(nodes: OrderedNode[], replace?: (tag: string) => string | null): string {
+  let text = "";
+  for (const node of nodes) {
+    const tag = nodeTag(node);
+    if (tag === "#text") {
+      text += String(node["#text"]);
+      continue;
+    }
+    const substitute = replace?.(tag);
+    if (substitute !== null && substitute !== undefined) {
+      text += substitute;
+      continue;
+    }
+    if (["p", "div", "br", "li"].includes(tag)) text += "\n";
+    text += orderedText(nodeChildren(node), replace);
+  }
+  return text;
+}
+
+function qtiText(nodes: OrderedNode[], replace?: (tag: string) => string | null): string {
+  // mattext in QTI 1.2 often holds escaped HTML, so decode it a second time
+  return htmlToText(orderedText(nodes, replace));
+}
+
+const QTI2_UNSUPPORTED_INTERACTIONS = [
+  "matchInteraction", "associateInteraction", "gapMatchInteraction", "hotspotInteraction", "hottextInteraction",
+  "extendedTextInteraction", "inlineChoiceInteraction", "sliderInteraction", "uploadInteraction", "drawingInteraction",
+];
+
+function parseQti2Item(item: OrderedNode): { raw: RawQuestion | null; label: string; errors: string[] } {
+  const children = nodeChildren(item);
+  const body = findFirst(children, "itemBody");
+  const title = nodeAttr(item, "title");
+  if (!body) return { raw: null, label: makeLabel(title), errors: ["Item has no itemBody"] };
+
+  const bodyNodes = nodeChildren(body);
+  const declarations = findAll(children, "responseDeclaration");
+  const correctValues = (identifier: string) => {
+    const declaration = declarations.find(d => nodeAttr(d, "identifier") === identifier) ?? declarations[0];
+    if (!declaration) return [];
+    const correct = findFirst(nodeChildren(declaration), "correctResponse");
+    const values = correct ? findAll(nodeChildren(correct), "value").map(v => orderedText(nodeChildren(v)).trim()) : [];
+    // Text entry answers are often only listed in the mapping
+    const mapped = findAll(nodeChildren(declaration), "mapEntry").map(e => nodeAttr(e, "mapKey")).filter(Boolean);
+    return [...new Set([...values, ...mapped])];
+  };
+  const explanation = qtiText(findAll(children, "modalFeedback").flatMap(nodeChildren)) || null;
+
+  const unsupported = QTI2_UNSUPPORTED_INTERACTIONS.find(tag => findFirst(bodyNodes, tag));
+  const choice = findFirst(bodyNodes, "choiceInteraction");
+  const order = findFirst(bodyNodes, "orderInteraction");
+  const textEntry = findFirst(bodyNodes, "textEntryInteraction");
+
+  const interaction = choice ?? order;
+  const prompt = interaction ? findFirst(nodeChildren(interaction), "prompt") : undefined;
+  // Question text is the body outside the interaction, plus the interaction's prompt
+  const stem = qtiText(bodyNodes, tag => {
+    if (tag === "textEntryInteraction") return "_____";
+    if (tag === "choiceInteraction" || tag === "orderInteraction" || tag === "feedbackBlock" || tag === "rubricBlock") return "";
+    return null;
+  });
+  const questionText = [stem, prompt ? qtiText(nodeChildren(prompt)) : ""].filter(Boolean).join("\n");
+  const label = makeLabel(questionText || title);
+
+  if (unsupported) return { raw: null, label, errors: [`QTI ${unsupported} questions can't be imported`] };
+
+  if (interaction) {
+    const choices = findAll(nodeChildren(interaction), "simpleChoice");
+    const options = optionsFromTexts(choices.map(c => qtiText(nodeChildren(c))));
+    const idFor = (identifier: string) => options[choices.findIndex(c => nodeAttr(c, "identifier") === identifier)]?.id;
+    const correct = correctValues(nodeAttr(interaction, "responseIdentifier")).map(idFor).filter((id): id is string => !!id);
+
+    if (order) {
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "ordering", options, answerData: { correctOrder: correct }, explanation },
+      };
+    }
+    if (nodeAttr(interaction, "maxChoices") !== "1" && correct.length !== 1) {
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "multi_select", options, answerData: { correctOptionIds: correct }, explanation },
+      };
+    }
+    const trueFalse = options.length === 2 && options.every(o => parseTrueFalse(o.text) !== null);
+    if (trueFalse) {
+      const correctText = options.find(o => o.id === correct[0])?.text ?? "";
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "true_false", correctAnswer: parseTrueFalse(correctText) ?? "", explanation },
+      };
+    }
+    return {
+      label,
+      errors: [],
+      raw: { questionText, questionType: "multiple_choice", options, correctAnswer: correct[0], explanation },
+    };
+  }
+
+  if (textEntry) {
+    return {
+      label,
+      errors: [],
+      raw: {
+        questionText,
+        questionType: "fill_blank",
+        answerData: { acceptedAnswers: correctValues(nodeAttr(textEntry, "responseIdentifier")) },
+        explanation,
+      },
+    };
+  }
+
+  return { raw: null, label, errors: ["No supported interaction found in the item"] };
+}
+
+function parseQti1Item(item: OrderedNode): { raw: RawQuestion | null; label: string; errors: string[] } {
+  const children = nodeChildren(item);
+  const title = nodeAttr(item, "title");
+  const presentation = findFirst(children, "presentation");
+  if (!presentation) return { raw: null, label: makeLabel(title), errors: ["Item has no presentation"] };
+
+  const presentationNodes = nodeChildren(presentation);
+  const questionText = qtiText(presentationNodes, tag => (tag === "response_lid" || tag === "response_str" ? "" : null));
+  const label = makeLabel(questionText || title);
+
+  const metadata = Object.fromEntries(findAll(children, "qtimetadatafield").map(field => [
+    orderedText(nodeChildren(findFirst(nodeChildren(field), "fieldlabel") ?? {})).trim(),
+    orderedText(nodeChildren(findFirst(nodeChildren(field), "fieldentry") ?? {})).trim(),
+  ]));
+  const canvasType = metadata.question_type ?? "";
+
+  // Correct responses: varequal values in conditions that award points, skipping negated ones
+  const correctByResponse = new Map<string, string[]>();
+  for (const condition of findAll(children, "respcondition")) {
+    const awards = findAll(nodeChildren(condition), "setvar")
+      .some(setvar => parseFloat(orderedText(nodeChildren(setvar))) > 0 && nodeAttr(setvar, "action") !== "Subtract");
+    if (!awards) continue;
+    const collect = (nodes: OrderedNode[]) => {
+      for (const node of nodes) {
+        const tag = nodeTag(node);
+        if (tag === "not") continue;
+        if (tag === "varequal") {
+          const responseId = nodeAttr(node, "respident");
+          const list = correctByResponse.get(responseId) ?? [];
+          list.push(orderedText(nodeChildren(node)).trim());
+          correctByResponse.set(responseId, list);
+        } else {
+          collect(nodeChildren(node));
+        }
+      }
+    };
+    collect(nodeChildren(findFirst(nodeChildren(condition), "conditionvar") ?? {}));
+  }
+
+  const generalFeedback = findAll(children, "itemfeedback").find(f => /general|correct/i.test(nodeAttr(f, "ident")));
+  const explanation = generalFeedback ? qtiText(nodeChildren(generalFeedback)) || null : null;
+
+  const lids = findAll(presentationNodes, "response_lid");
+  const responseStr = findFirst(presentationNodes, "response_str");
+
+  if (lids.length > 1 || canvasType === "matching_question") {
+    // One response_lid per prompt; its labels are the shared match column
+    const prompts = lids.map(lid => ({
+      text: qtiText(nodeChildren(findFirst(nodeChildren(lid), "material") ?? {})),
+      labels: findAll(nodeChildren(lid), "response_label"),
+      ident: nodeAttr(lid, "ident"),
+    }));
+    const matches = [...new Map(prompts.flatMap(p => p.labels).map(l => [nodeAttr(l, "ident"), qtiText(nodeChildren(l))])).entries()]
+      .map(([ident, text], i) => ({ ident, id: `m${i + 1}`, text }));
+    const options = optionsFromTexts(prompts.map(p => p.text));
+    return {
+      label,
+      errors: [],
+      raw: {
+        questionText,
+        questionType: "matching",
+        options,
+        answerData: {
+          matches: matches.map(({ id, text }) => ({ id, text })),
+          pairs: Object.fromEntries(options.map((o, i) => {
+            const correct = correctByResponse.get(prompts[i].ident)?.[0];
+            return [o.id, matches.find(m => m.ident === correct)?.id];
+          })),
+        },
+        explanation,
+      },
+    };
+  }
+
+  if (lids.length === 1) {
+    const lid = lids[0];
+    const labels = findAll(nodeChildren(lid), "response_label");
+    const options = optionsFromTexts(labels.map(l => qtiText(nodeChildren(l))));
+    const correct = (correctByResponse.get(nodeAttr(lid, "ident")) ?? [])
+      .map(ident => options[labels.findIndex(l => nodeAttr(l, "ident") === ident)]?.id)
+      .filter((id): id is string => !!id);
+
+    if (nodeAttr(lid, "rcardinality").toLowerCase() === "multiple" || canvasType === "multiple_answers_question") {
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "multi_select", options, answerData: { correctOptionIds: [...new Set(correct)] }, explanation },
+      };
+    }
+    if (canvasType === "true_false_question" || (options.length === 2 && options.every(o => parseTrueFalse(o.text) !== null))) {
+      const correctText = options.find(o => o.id === correct[0])?.text ?? "";
+      return {
+        label,
+        errors: [],
+        raw: { questionText, questionType: "true_false", correctAnswer: parseTrueFalse(correctText) ?? "", explanation },
+      };
+    }
+    return {
+      label,
+      errors: [],
+      raw: { questionText, questionType: "multiple_choice", options, correctAnswer: correct[0], explanation },
+    };
+  }
+
+  if (responseStr) {
+    return {
+      label,
+      errors: [],
+      raw: {
+        questionText,
+        questionType: "fill_blank",
+        answerData: { acceptedAnswers: correctByResponse.get(nodeAttr(responseStr, "ident")) ?? [] },
+        explanation,
+      },
+    };
+  }
+
+  return { raw: null, label, errors: [canvasType ? `QTI question type "${canvasType}" isn't supported` : "No supported response found in the item"] };
+}
+
+function parseQtiQuestions(text: string): { rows: RawRow[]; error?: string } {
+  let document: OrderedNode[];
+  try {
+    document = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: "@_",
+      parseTagValue: false,
+      parseAttributeValue: false,
+      preserveOrder: true,
+      // Keep the spaces around inline interactions
+      trimValues: false,
+      removeNSPrefix: true,
+      // QTI 3 uses qti-kebab-case names for the same elements and attributes as QTI 2
+      transformTagName: name => name.replace(/^qti-/, "").replace(/-([a-z])/g, (_, c: string) => c.toUpperCase()),
+      transformAttributeName: name => name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase()),
+    }).parse(text);
+  } catch {
+    return { rows: [], error: "The file isn't valid XML" };
+  }
+
+  const qti2Items = findAll(document, "assessmentItem");
+  const qti1Items = findAll(document, "item");
+  if (qti2Items.length === 0 && qti1Items.length === 0) {
+    if (findFirst(document, "manifest")) {
+      return { rows: [], error: "This is a QTI package manifest. Upload the item or assessment XML file from the package instead." };
+    }
+    return { rows: [], error: "No QTI items were found in the file" };
+  }
+
+  return {
+    rows: [
+      ...qti2Items.map(parseQti2Item),
+      ...qti1Items.map(parseQti1Item),
+    ].map(({ raw, label, errors }, i) => ({ row: i + 1, label, raw, errors })),
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * Question types and their answer payloads.
+ *
+ * Every question keeps `options` and a `correctAnswer` string so older code paths
+ * keep working. Types other than single-answer multiple choice store their real
+ * answer key in `answerData`; `correctAnswer` then holds a readable summary.
+ *
+ * Student answers are always stored as strings. List answers (multi-select,
+ * ordering) are JSON arrays of option ids and matching answers are a JSON object
+ * of prompt id -> match id.
+ */
+
+export const QUESTION_TYPES = [
+  "multiple_choice",
+  "true_false",
+  "multi_select",
+  "fill_blank",
+  "ordering",
+  "matching",
+] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "Multiple Choice",
+  true_false: "True / False",
+  multi_select: "Select All That Apply",
+  fill_blank: "Fill in the Blank",
+  ordering: "Ordering",
+  matching: "Matching",
+};
+
+export interface QuestionOption {
+  id: string;
+  text: string;
+}
+
+export interface MultiSelectAnswerData {
+  correctOptionIds: string[];
+}
+
+export interface FillBlankAnswerData {
+  acceptedAnswers: string[];
+  caseSensitive?: boolean;
+}
+
+export interface OrderingAnswerData {
+  correctOrder: string[]; // Option ids in the correct sequence
+}
+
+export interface MatchingAnswerData {
+  matches: QuestionOption[]; // Right-hand column; `options` holds the prompts
+  pairs: Record<string, string>; // Prompt id -> match id
+}
+
+export type QuestionAnswerData =
+  | MultiSelectAnswerData
+  | FillBlankAnswerData
+  | OrderingAnswerData
+  | MatchingAnswerData;
+
+/** Answer data that is safe to send to students */
+export interface PublicAnswerData {
+  matches?: QuestionOption[];
+}
+
+export interface GradableQuestion {
+  questionType?: string | null;
+  options: QuestionOption[];
+  correctAnswer: string;
+  answerData?: QuestionAnswerData | null;
+}
+
+export const TRUE_FALSE_OPTIONS: QuestionOption[] = [
+  { id: "true", text: "True" },
+  { id: "false", text: "False" },
+];
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return typeof value === "string" && (QUESTION_TYPES as readonly string[]).includes(value);
+}
+
+export function getQuestionType(question: { questionType?: string | null }): QuestionType {
+  return isQuestionType(question.questionType) ? question.questionType : "multiple_choice";
+}
+
+export function encodeListAnswer(ids: string[]): string {
+  return JSON.stringify(ids);
+}
+
+export function decodeListAnswer(answer: string | null | undefined): string[] {
+  if (!answer) return [];
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function encodeMatchingAnswer(pairs: Record<string, string>): string {
+  return JSON.stringify(pairs);
+}
+
+export function decodeMatchingAnswer(answer: string | null | undefined): Record<string, string> {
+  if (!answer) return {};
+  try {
+    const parsed = JSON.parse(answer);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    );
+  } catch {
+    return {};
+  }
+}
+
+// Typed answers in Indic and right-to-left scripts can arrive composed differently, or with
+// invisible direction marks from the keyboard, yet read the same
+const BIDI_CONTROLS = /[\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+
+function normalizeBlank(value: string, caseSensitive?: boolean): string {
+  const collapsed = value.normalize("NFC").replace(BIDI_CONTROLS, "").trim().replace(/\s+/g, " ");
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
+
+/**
+ * Whether a stored student answer fully matches the question's answer key
+ */
+export function isAnswerCorrect(question: GradableQuestion, answer: string | null | undefined): boolean {
+  if (answer == null || answer === "") return false;
+
+  const data = question.answerData;
+
+  switch (getQuestionType(question)) {
+    case "multi_select": {
+      const expected = (data as MultiSelectAnswerData | null)?.correctOptionIds ?? [];
+      const given = new Set(decodeListAnswer(answer));
+      return expected.length > 0 && given.size === expected.length && expected.every(id => given.has(id));
+    }
+    case "fill_blank": {
+      const blank = data as FillBlankAnswerData | null;
+      const accepted = blank?.acceptedAnswers?.length ? blank.acceptedAnswers : [question.correctAnswer];
+      const given = normalizeBlank(answer, blank?.caseSensitive);
+      return accepted.some(option => normalizeBlank(option, blank?.caseSensitive) === given);
+    }
+    case "ordering": {
+      const expected = (data as OrderingAnswerData | null)?.correctOrder ?? [];
+      const given = decodeListAnswer(answer);
+      return expected.length > 0 && given.length === expected.length && expected.every((id, i) => given[i] === id);
+    }
+    case "matching": {
+      const pairs = (data as MatchingAnswerData | null)?.pairs ?? {};
+      const given = decodeMatchingAnswer(answer);
+      const promptIds = Object.keys(pairs);
+      return promptIds.length > 0 && promptIds.every(promptId => given[promptId] === pairs[promptId]);
+    }
+    case "true_false":
+    case "multiple_choice":
+    default:
+      return question.correctAnswer === answer;
+  }
+}
+
+/**
+ * Fraction of the answer that is right, from 0 to 1. Multi-part types
+ * (select-all, ordering, matching) earn credit per part; everything else is all or nothing.
+ */
+export function getAnswerCredit(question: GradableQuestion, answer: string | null | undefined): number {
+  if (isAnswerCorrect(question, answer)) return 1;
+  if (answer == null || answer === "") return 0;
+
+  const data = question.answerData;
+
+  switch (getQuestionType(question)) {
+    case "multi_select": {
+      // Each wrong pick cancels out a right one so selecting everything earns nothing
+      const expected = new Set((data as MultiSelectAnswerData | null)?.correctOptionIds ?? []);
+      if (expected.size === 0) return 0;
+      const given = new Set(decodeListAnswer(answer));
+      let hits = 0;
+      let misses = 0;
+      given.forEach(id => (expected.has(id) ? hits++ : misses++));
+      return Math.max(0, (hits - misses) / expected.size);
+    }
+    case "ordering": {
+      const expected = (data as OrderingAnswerData | null)?.correctOrder ?? [];
+      if (expected.length === 0) return 0;
+      const given = decodeListAnswer(answer);
+      return expected.filter((id, i) => given[i] === id).length / expected.length;
+    }
+    case "matching": {
+      const pairs = (data as MatchingAnswerData | null)?.pairs ?? {};
+      const promptIds = Object.keys(pairs);
+      if (promptIds.length === 0) return 0;
+      const given = decodeMatchingAnswer(answer);
+      return promptIds.filter(promptId => given[promptId] === pairs[promptId]).length / promptIds.length;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The part of the answer data a student needs to render the question.
+ * Never includes the answer key itself.
+ */
+export function getPublicAnswerData(question: GradableQuestion): PublicAnswerData | null {
+  if (getQuestionType(question) === "matching") {
+    const data = question.answerData as MatchingAnswerData | null;
+    return { matches: data?.matches ?? [] };
+  }
+  return null;
+}
+
+/**
+ * Turn a stored answer into display text, e.g. for results pages
+ */
+export function formatAnswer(
+  question: GradableQuestion,
+  answer: string | null | undefined
+): string {
+  if (answer == null || answer === "") return "Not answered";
+
+  const optionText = (id: string) => question.options.find(o => o.id === id)?.text ?? id;
+
+  switch (getQuestionType(question)) {
+    case "multi_select":
+      return decodeListAnswer(answer).map(optionText).join(", ") || "Not answered";
+    case "ordering":
+      return decodeListAnswer(answer).map((id, i) => `${i + 1}. ${optionText(id)}`).join("  ") || "Not answered";
+    case "matching": {
+      const matches = (question.answerData as MatchingAnswerData | null)?.matches ?? [];
+      const matchText = (id: string) => matches.find(m => m.id === id)?.text ?? id;
+      const given = decodeMatchingAnswer(answer);
+      return Object.entries(given)
+        .map(([promptId, matchId]) => `${optionText(promptId)} → ${matchText(matchId)}`)
+        .join("; ") || "Not answered";
+    }
+    case "fill_blank":
+      return answer;
+    default:
+      return optionText(answer);
+  }
+}
+
+/**
+ * Display text for the question's correct answer
+ */
+export function formatCorrectAnswer(question: GradableQuestion): string {
+  const data = question.answerData;
+
+  switch (getQuestionType(question)) {
+    case "multi_select":
+      return formatAnswer(question, encodeListAnswer((data as MultiSelectAnswerData | null)?.correctOptionIds ?? []));
+    case "ordering":
+      return formatAnswer(question, encodeListAnswer((data as OrderingAnswerData | null)?.correctOrder ?? []));
+    case "matching":
+      return formatAnswer(question, encodeMatchingAnswer((data as MatchingAnswerData | null)?.pairs ?? {}));
+    case "fill_blank": {
+      const accepted = (data as FillBlankAnswerData | null)?.acceptedAnswers;
+      return accepted?.length ? accepted.join(" / ") : question.correctAnswer;
+    }
+    default:
+      return formatAnswer(question, question.correctAnswer);
+  }
+}
+
+export type AnswerKeyResult =
+  | {
+      valid: true;
+      questionType: QuestionType;
+      options: QuestionOption[];
+      correctAnswer: string;
+      answerData: QuestionAnswerData | null;
+    }
+  | { valid: false; error: string };
+
+/**
+ * Validate an educator-supplied answer key and derive the stored fields.
+ * `correctAnswer` is recomputed for every type other than multiple choice.
+ */
+export function buildAnswerKey(input: {
+  questionType?: unknown;
+  options?: unknown;
+  correctAnswer?: unknown;
+  answerData?: unknown;
+}): AnswerKeyResult {
+  const questionType: QuestionType = input.questionType == null ? "multiple_choice" : (input.questionType as QuestionType);
+  if (!isQuestionType(questionType)) {
+    return { valid: false, error: `Unsupported question type: ${String(input.questionType)}` };
+  }
+
+  const options = Array.isArray(input.options)
+    ? (input.options as QuestionOption[]).filter(o => o && typeof o.id === "string" && typeof o.text === "string")
+    : [];
+  const correctAnswer = typeof input.correctAnswer === "string" ? input.correctAnswer : "";
+  const data = (input.answerData && typeof input.answerData === "object" ? input.answerData : {}) as Record<string, unknown>;
+  const optionIds = new Set(options.map(o => o.id));
+
+  switch (questionType) {
+    case "multiple_choice": {
+      if (options.length < 2) return { valid: false, error: "Multiple choice questions need at least two options" };
+      if (!optionIds.has(correctAnswer)) return { valid: false, error: "Correct answer must be one of the options" };
+      return { valid: true, questionType, options, correctAnswer, answerData: null };
+    }
+    case "true_false": {
+      if (correctAnswer !== "true" && correctAnswer !== "false") {
+        return { valid: false, error: "True/false questions need a correct answer of 'true' or 'false'" };
+      }
+      return { valid: true, questionType, options: TRUE_FALSE_OPTIONS, correctAnswer, answerData: null };
+    }
+    case "multi_select": {
+      const correctOptionIds = Array.isArray(data.correctOptionIds)
+        ? (data.correctOptionIds as unknown[]).filter((id): id is string => typeof id === "string" && optionIds.has(id))
+        : [];
+      if (options.length < 2) return { valid: false, error: "Select-all questions need at least two options" };
+      if (correctOptionIds.length === 0) return { valid: false, error: "Mark at least one option as correct" };
+      return {
+        valid: true,
+        questionType,
+        options,
+        correctAnswer: [...correctOptionIds].sort().join(","),
+        answerData: { correctOptionIds },
+      };
+    }
+    case "fill_blank": {
+      const acceptedAnswers = Array.isArray(data.acceptedAnswers)
+        ? (data.acceptedAnswers as unknown[])
+            .filter((a): a is string => typeof a === "string")
+            .map(a => a.trim())
+            .filter(Boolean)
+        : [];
+      if (acceptedAnswers.length === 0) return { valid: false, error: "Provide at least one accepted answer" };
+      return {
+        valid: true,
+        questionType,
+        options: [],
+        correctAnswer: acceptedAnswers[0],
+        answerData: { acceptedAnswers, caseSensitive: data.caseSensitive === true },
+      };
+    }
+    case "ordering": {
+      if (options.length < 2) return { valid: false, error: "Ordering questions need at least two items" };
+      const correctOrder = Array.isArray(data.correctOrder)
+        ? (data.correctOrder as unknown[]).filter((id): id is string => typeof id === "string" && optionIds.has(id))
+        : options.map(o => o.id);
+      if (correctOrder.length !== options.length || new Set(correctOrder).size !== options.length) {
+        return { valid: false, error: "The correct order must include every item exactly once" };
+      }
+      return { valid: true, questionType, options, correctAnswer: correctOrder.join(","), answerData: { correctOrder } };
+    }
+    case "matching": {
+      const matches = Array.isArray(data.matches)
+        ? (data.matches as QuestionOption[]).filter(m => m && typeof m.id === "string" && typeof m.text === "string")
+        : [];
+      const matchIds = new Set(matches.map(m => m.id));
+      const rawPairs = data.pairs && typeof data.pairs === "object" ? data.pairs as Record<string, unknown> : {};
+      const pairs: Record<string, string> = {};
+      for (const option of options) {
+        const matchId = rawPairs[option.id];
+        if (typeof matchId !== "string" || !matchIds.has(matchId)) {
+          return { valid: false, error: `Choose a match for "${option.text}"` };
+        }
+        pairs[option.id] = matchId;
+      }
+      if (options.length < 2) return { valid: false, error: "Matching questions need at least two pairs" };
+      return {
+        valid: true,
+        questionType,
+        options,
+        correctAnswer: options.map(o => `${o.id}:${pairs[o.id]}`).join(","),
+        answerData: { matches, pairs },
+      };
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { openai } from "@ai-sdk/openai";
 import { generateText } from "ai";
 import { logger } from "@/lib/logger";
 import { LightRAGService, EntityExistsResponse } from './lightrag-service';
+import { formatCitationReference, isExcerptInSource, type QuestionCitation } from './question-citations';
 
 
 export interface QuestionValidationResult {
@@ -32,6 +33,12 @@ export interface QuestionToValidate {
   topic?: string | null;
   difficulty?: string | null;
   bloomsLevel?: string | null;
+  citations?: QuestionCitation[] | null;
+}
+
+export interface CitationCheckResult {
+  citationScore: number; // 0-100, how well the cited text supports the question
+  citationIssues: string[];
 }
 
 export class QuestionValidator {
@@ -423,9 +430,46 @@ Return ONLY valid JSON:
   }
 
   /**
-   * Perform deep theological validation for critical review
+   * Check a question's citations without AI: every question needs at least one, each with an excerpt,
+   * and an excerpt from an uploaded document must still be found in that document's text
+   * @param sourceTexts Text of the cited documents, by document id, where available
    */
-  static async performDeepValidation(question: QuestionToValidate): Promise<{
+  static checkCitations(question: QuestionToValidate, sourceTexts: Record<string, string> = {}): CitationCheckResult {
+    const citations = question.citations ?? [];
+    if (citations.length === 0) {
+      return { citationScore: 0, citationIssues: ['No source citation - the question cannot be verified against a passage'] };
+    }
+
+    const citationIssues: string[] = [];
+    let citationScore = 100;
+    citations.forEach((citation, index) => {
+      const label = formatCitationReference(citation) || `Citation ${index + 1}`;
+      if (!citation.excerpt) {
+        citationScore -= 30;
+        citationIssues.push(`${label} has no quoted passage`);
+        return;
+      }
+      const source = citation.documentId ? sourceTexts[citation.documentId] : undefined;
+      if (source !== undefined && !isExcerptInSource(citation.excerpt, source)) {
+        citationScore -= 50;
+        citationIssues.push(`${label}: the quoted passage was not found in the source document`);
+      }
+      if (citation.book && question.book && !citation.book.toLowerCase().includes(question.book.toLowerCase()) &&
+          !question.book.toLowerCase().includes(citation.book.toLowerCase())) {
+        citationScore -= 10;
+        citationIssues.push(`${label} cites a different book than the question (${question.book})`);
+      }
+    });
+
+    return { citationScore: Math.max(0, citationScore), citationIssues };
+  }
+
+  /**
+   * Perform deep theological validation for critical review, including whether the cited
+   * passages actually support the correct answer
+   * @param sourceTexts Text of the cited documents, by document id, for checking the quoted excerpts
+   */
+  static async performDeepValidation(question: QuestionToValidate, sourceTexts: Record<string, string> = {}): Promise<{
     theologicalScore: number;
     contextualScore: number;
     pedagogicalScore: number;
@@ -434,25 +478,37 @@ Return ONLY valid JSON:
       options: Record<string, string>;
       explanation: string[];
     };
-  }> {
+  } & CitationCheckResult> {
     const model = process.env.OPENAI_MODEL || "gpt-4o";
+    const citationCheck = this.checkCitations(question, sourceTexts);
+    const correctOption = question.options.find(opt => opt.id === question.correctAnswer);
+    const citedText = (question.citations ?? [])
+      .filter(citation => citation.excerpt)
+      .map(citation => `- ${formatCitationReference(citation) || 'Source'}: "${citation.excerpt}"`)
+      .join('\n');
     
     const prompt = `Deep theological analysis. Protestant perspective ONLY.
 
 Question: ${question.questionText}
+Correct answer: ${correctOption?.text || question.correctAnswer}
 Book/Chapter: ${question.book || 'Not specified'} ${question.chapter || ''}
 Topic: ${question.topic || 'Not specified'}
+Cited passages:
+${citedText || 'None'}
 
 Analyze:
 1. Theological accuracy (Protestant reformed theology)
 2. Biblical context alignment
 3. Pedagogical effectiveness
+4. Whether the cited passages state or directly support the correct answer (citationScore 0 if none are cited)
 
 Return JSON:
 {
   "theologicalScore": 85,
   "contextualScore": 90,
   "pedagogicalScore": 80,
+  "citationScore": 95,
+  "citationIssues": ["Passage does not mention ..."],
   "detailedSuggestions": {
     "question": ["Specific improvement 1", "Specific improvement 2"],
     "options": {"A": "Make more distinct", "B": "Better distractor"},
@@ -473,7 +529,19 @@ Return JSON:
         throw new Error("No valid JSON in deep validation");
       }
 
-      return JSON.parse(jsonMatch[0]);
+      const result = JSON.parse(jsonMatch[0]);
+      // The AI judges support for the answer; the text checks above catch misquoted excerpts
+      const aiCitationScore = Number(result.citationScore);
+      return {
+        ...result,
+        citationScore: Number.isFinite(aiCitationScore)
+          ? Math.max(0, Math.min(citationCheck.citationScore, aiCitationScore))
+          : citationCheck.citationScore,
+        citationIssues: [
+          ...citationCheck.citationIssues,
+          ...(Array.isArray(result.citationIssues) ? result.citationIssues.filter((issue: unknown) => typeof issue === 'string') : [])
+        ]
+      };
     } catch (error) {
       logger.error("Deep validation failed:", error);
       return {
@@ -484,7 +552,8 @@ Return JSON:
           question: ["Unable to perform deep validation"],
           options: {},
           explanation: []
-        }
+        },
+        ...citationCheck
       };
     }
   }
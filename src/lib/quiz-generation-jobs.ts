@@ -1,130 +1,318 @@
-// In-memory store for quiz generation jobs
-// In production, you might want to use Redis or a database
+// Durable store for quiz generation jobs, backed by the generation_jobs table.
+// Jobs survive cold starts and redeploys; the worker in quiz-generation-worker.ts
+// dispatches them to the generation webhook and retries the ones whose lease expires.
+
+import { eq, and, or, lt, lte, ne, isNull, inArray, desc, asc, sql } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { generationJobs, generationJobEvents, generationCallbackNonces } from "@/lib/schema";
+
+export type GenerationJobType = 'quiz' | 'replace';
+export type GenerationJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
 export interface QuizGenerationJob {
   jobId: string;
+  type: GenerationJobType;
   quizId: string;
   questionId?: string; // For question replacement jobs
   educatorId?: string; // For WebSocket routing
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: GenerationJobStatus;
   progress: number; // 0-100
   message: string;
   questionsData?: Record<string, unknown>[];
   error?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  leaseExpiresAt: Date | null;
+  completedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   webhookPayload: Record<string, unknown>;
+  callbackSecret?: string; // Never returned to clients
+}
+
+export interface GenerationJobEvent {
+  status: GenerationJobStatus;
+  progress: number;
+  message: string;
+  error: string | null;
+  attempt: number;
+  createdAt: Date;
+}
+
+export type GenerationJobUpdate = Partial<Pick<
+  QuizGenerationJob,
+  'status' | 'progress' | 'message' | 'questionsData' | 'nextAttemptAt' | 'leaseExpiresAt'
+>> & {
+  error?: string | null; // Null clears an error left by an earlier attempt
+};
+
+export type JobTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const MAX_JOB_ATTEMPTS = 3;
+// How long a claimed job may take to reach the webhook before another worker can pick it up
+export const DISPATCH_LEASE_MS = 60 * 1000;
+// How long to wait for a callback (or a progress update) before the job is dispatched again
+export const CALLBACK_TIMEOUT_MS = 45 * 60 * 1000;
+// Finished jobs are kept this long for polling and troubleshooting
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+type GenerationJobRow = typeof generationJobs.$inferSelect;
+
+function toJob(row: GenerationJobRow): QuizGenerationJob {
+  return {
+    jobId: row.id,
+    type: row.type,
+    quizId: row.quizId,
+    questionId: row.questionId ?? undefined,
+    educatorId: row.educatorId ?? undefined,
+    status: row.status,
+    progress: row.progress,
+    message: row.message,
+    questionsData: row.result ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    nextAttemptAt: row.nextAttemptAt,
+    leaseExpiresAt: row.leaseExpiresAt,
+    completedAt: row.completedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    webhookPayload: row.payload,
+    callbackSecret: row.callbackSecret ?? undefined,
+  };
+}
+
+function isFinished(status: GenerationJobStatus): boolean {
+  return status === 'completed' || status === 'failed';
 }
 
 class QuizGenerationJobStore {
-  private jobs: Map<string, QuizGenerationJob> = new Map();
-  private readonly JOB_EXPIRY_MS = 120 * 60 * 1000; // 120 minutes (2 hours for complex AI processing)
-  private readonly MIN_JOB_LIFETIME_MS = 15 * 60 * 1000; // Minimum 15 minutes before allowing expiry
-
-  create(jobId: string, quizId: string, webhookPayload: Record<string, unknown>): QuizGenerationJob {
-    const job: QuizGenerationJob = {
-      jobId,
-      quizId,
+  async create(input: {
+    jobId: string;
+    type: GenerationJobType;
+    quizId: string;
+    questionId?: string;
+    educatorId?: string;
+    webhookPayload: Record<string, unknown>;
+    callbackSecret?: string;
+  }): Promise<QuizGenerationJob> {
+    const now = new Date();
+    const [row] = await db.insert(generationJobs).values({
+      id: input.jobId,
+      type: input.type,
+      quizId: input.quizId,
+      questionId: input.questionId ?? null,
+      educatorId: input.educatorId ?? null,
       status: 'pending',
       progress: 0,
-      message: 'Preparing biblical knowledge assessment...',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      webhookPayload
-    };
-    
-    this.jobs.set(jobId, job);
-    
-    // Auto-cleanup old jobs (but only if they're completed or failed)
-    setTimeout(() => {
-      const currentJob = this.jobs.get(jobId);
-      if (currentJob && (currentJob.status === 'completed' || currentJob.status === 'failed')) {
-        this.delete(jobId);
-      } else if (currentJob && currentJob.status === 'processing') {
-        // Give processing jobs more time
-        setTimeout(() => {
-          const jobToCheck = this.jobs.get(jobId);
-          if (jobToCheck && jobToCheck.status !== 'completed') {
-            // Mark as failed if still not complete
-            this.update(jobId, {
-              status: 'failed',
-              error: 'Job timed out after extended processing time'
-            });
-            // Clean up after marking as failed
-            setTimeout(() => this.delete(jobId), 5 * 60 * 1000); // 5 more minutes
-          }
-        }, this.JOB_EXPIRY_MS);
-      }
-    }, this.MIN_JOB_LIFETIME_MS);
-    
-    return job;
+      message: input.type === 'replace'
+        ? 'Preparing replacement question...'
+        : 'Preparing biblical knowledge assessment...',
+      payload: input.webhookPayload,
+      callbackSecret: input.callbackSecret ?? null,
+      maxAttempts: MAX_JOB_ATTEMPTS,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+
+    await this.recordEvent(row);
+    return toJob(row);
   }
 
-  get(jobId: string): QuizGenerationJob | undefined {
-    return this.jobs.get(jobId);
+  async get(jobId: string): Promise<QuizGenerationJob | undefined> {
+    const [row] = await db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.id, jobId));
+    return row ? toJob(row) : undefined;
   }
 
-  update(jobId: string, updates: Partial<QuizGenerationJob>): QuizGenerationJob | undefined {
-    const job = this.jobs.get(jobId);
-    if (!job) return undefined;
-    
-    const updatedJob = {
-      ...job,
-      ...updates,
-      updatedAt: new Date()
-    };
-    
-    this.jobs.set(jobId, updatedJob);
-    return updatedJob;
+  async update(jobId: string, updates: GenerationJobUpdate): Promise<QuizGenerationJob | undefined> {
+    const now = new Date();
+    const finished = updates.status !== undefined && isFinished(updates.status);
+
+    const [row] = await db
+      .update(generationJobs)
+      .set({
+        ...(updates.status !== undefined && { status: updates.status }),
+        ...(updates.progress !== undefined && { progress: updates.progress }),
+        ...(updates.message !== undefined && { message: updates.message }),
+        ...(updates.error !== undefined && { error: updates.error }),
+        ...(updates.questionsData !== undefined && { result: updates.questionsData }),
+        ...(updates.nextAttemptAt !== undefined && { nextAttemptAt: updates.nextAttemptAt }),
+        // Finished jobs release their lease so the worker leaves them alone
+        ...(finished ? { leaseExpiresAt: null, completedAt: now } : updates.leaseExpiresAt !== undefined && { leaseExpiresAt: updates.leaseExpiresAt }),
+        updatedAt: now,
+      })
+      .where(eq(generationJobs.id, jobId))
+      .returning();
+
+    if (!row) return undefined;
+    if (updates.status !== undefined || updates.message !== undefined) {
+      await this.recordEvent(row);
+    }
+    return toJob(row);
   }
 
-  delete(jobId: string): void {
-    this.jobs.delete(jobId);
+  /**
+   * Mark a job completed and save its results in one transaction, unless it's already completed.
+   * Two callbacks racing for the same job can't both save: the loser gets undefined and nothing
+   * it saved is kept. If saving throws, the job is left as it was.
+   */
+  async complete(
+    jobId: string,
+    updates: Pick<GenerationJobUpdate, 'message' | 'questionsData'>,
+    saveResults: (tx: JobTransaction) => Promise<void>
+  ): Promise<QuizGenerationJob | undefined> {
+    const now = new Date();
+    const row = await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(generationJobs)
+        .set({
+          status: 'completed',
+          progress: 100,
+          ...(updates.message !== undefined && { message: updates.message }),
+          ...(updates.questionsData !== undefined && { result: updates.questionsData }),
+          leaseExpiresAt: null,
+          completedAt: now,
+          updatedAt: now,
+        })
+        .where(and(eq(generationJobs.id, jobId), ne(generationJobs.status, 'completed')))
+        .returning();
+      if (!claimed) return undefined;
+
+      await saveResults(tx);
+      return claimed;
+    });
+
+    if (!row) return undefined;
+    await this.recordEvent(row);
+    return toJob(row);
   }
 
-  // Get all jobs (for monitoring/WebSocket updates)
-  getAllJobs(): Map<string, QuizGenerationJob> {
-    return this.jobs;
+  /**
+   * Progress reported by the generation service; doubles as a heartbeat that extends the lease
+   */
+  async recordProgress(jobId: string, progress: number, message: string): Promise<QuizGenerationJob | undefined> {
+    return this.update(jobId, {
+      status: 'processing',
+      progress,
+      message,
+      leaseExpiresAt: new Date(Date.now() + CALLBACK_TIMEOUT_MS),
+    });
   }
 
-  // Update job (simplified method for WebSocket integration)
-  updateJob(jobId: string, updates: Partial<QuizGenerationJob>): void {
-    const job = this.jobs.get(jobId);
-    if (job) {
-      Object.assign(job, updates, { updatedAt: new Date() });
-    }
+  /**
+   * Atomically lease a job for dispatch and count the attempt.
+   * Only pending jobs that are due, or jobs whose lease expired, can be claimed.
+   */
+  async claim(jobId: string): Promise<QuizGenerationJob | undefined> {
+    const now = new Date();
+    const [row] = await db
+      .update(generationJobs)
+      .set({
+        attempts: sql`${generationJobs.attempts} + 1`,
+        leaseExpiresAt: new Date(now.getTime() + DISPATCH_LEASE_MS),
+        updatedAt: now,
+      })
+      .where(and(
+        eq(generationJobs.id, jobId),
+        inArray(generationJobs.status, ['pending', 'processing']),
+        lte(generationJobs.nextAttemptAt, now),
+        or(isNull(generationJobs.leaseExpiresAt), lt(generationJobs.leaseExpiresAt, now)),
+        lt(generationJobs.attempts, generationJobs.maxAttempts)
+      ))
+      .returning();
+    return row ? toJob(row) : undefined;
   }
 
-  // Get job (alias for consistency)
-  getJob(jobId: string): QuizGenerationJob | undefined {
-    return this.get(jobId);
+  /**
+   * Unfinished jobs that are due for dispatch or whose lease has expired, oldest first
+   */
+  async listDue(limit: number): Promise<QuizGenerationJob[]> {
+    const now = new Date();
+    const rows = await db
+      .select()
+      .from(generationJobs)
+      .where(and(
+        inArray(generationJobs.status, ['pending', 'processing']),
+        lte(generationJobs.nextAttemptAt, now),
+        or(isNull(generationJobs.leaseExpiresAt), lt(generationJobs.leaseExpiresAt, now))
+      ))
+      .orderBy(asc(generationJobs.nextAttemptAt))
+      .limit(limit);
+    return rows.map(toJob);
   }
 
-  // Clean up old jobs
-  cleanup(): void {
-    const now = Date.now();
-    for (const [jobId, job] of this.jobs.entries()) {
-      const jobAge = now - job.createdAt.getTime();
-      
-      // Don't delete jobs that are still processing unless they're really old
-      if (job.status === 'processing' && jobAge < this.JOB_EXPIRY_MS) {
-        continue;
-      }
-      
-      // Delete completed/failed jobs after normal expiry
-      if (jobAge > this.JOB_EXPIRY_MS) {
-        this.jobs.delete(jobId);
-      }
-    }
+  // Unfinished jobs (for monitoring/WebSocket updates)
+  async listActive(educatorId?: string): Promise<QuizGenerationJob[]> {
+    const rows = await db
+      .select()
+      .from(generationJobs)
+      .where(and(
+        inArray(generationJobs.status, ['pending', 'processing']),
+        educatorId ? eq(generationJobs.educatorId, educatorId) : undefined
+      ))
+      .orderBy(desc(generationJobs.createdAt));
+    return rows.map(toJob);
+  }
+
+  async history(jobId: string): Promise<GenerationJobEvent[]> {
+    const rows = await db
+      .select()
+      .from(generationJobEvents)
+      .where(eq(generationJobEvents.jobId, jobId))
+      .orderBy(asc(generationJobEvents.createdAt));
+    return rows.map(({ status, progress, message, error, attempt, createdAt }) => ({
+      status, progress, message, error, attempt, createdAt,
+    }));
+  }
+
+  /**
+   * Record a callback nonce for a job. Returns false if the nonce was already used.
+   */
+  async consumeCallbackNonce(jobId: string, nonce: string): Promise<boolean> {
+    const inserted = await db
+      .insert(generationCallbackNonces)
+      .values({ id: `${jobId}:${nonce}`, jobId, createdAt: new Date() })
+      .onConflictDoNothing()
+      .returning({ id: generationCallbackNonces.id });
+    return inserted.length > 0;
+  }
+
+  async delete(jobId: string): Promise<void> {
+    await db.delete(generationJobs).where(eq(generationJobs.id, jobId));
+  }
+
+  // Remove finished jobs past the retention period
+  async cleanup(): Promise<number> {
+    const cutoff = new Date(Date.now() - JOB_RETENTION_MS);
+    const deleted = await db
+      .delete(generationJobs)
+      .where(and(
+        inArray(generationJobs.status, ['completed', 'failed']),
+        lt(generationJobs.updatedAt, cutoff)
+      ))
+      .returning({ id: generationJobs.id });
+    return deleted.length;
+  }
+
+  private async recordEvent(row: GenerationJobRow): Promise<void> {
+    await db.insert(generationJobEvents).values({
+      id: crypto.randomUUID(),
+      jobId: row.id,
+      status: row.status,
+      progress: row.progress,
+      message: row.message,
+      error: row.error,
+      attempt: row.attempts,
+      createdAt: row.updatedAt,
+    });
   }
 }
 
 // Singleton instance
 export const jobStore = new QuizGenerationJobStore();
-
-// Cleanup old jobs every 10 minutes
-if (typeof process !== 'undefined') {
-  setInterval(() => {
-    jobStore.cleanup();
-  }, 10 * 60 * 1000);
-}
\ No newline at end of file
@@ -0,0 +1,278 @@
+// Dispatches generation jobs to the quiz generation webhook, or to the built-in generator
+// when no webhook is configured. Routes dispatch new jobs straight away; the generation-jobs
+// cron (and status polling) resume jobs whose dispatch failed or whose callback never arrived.
+
+import { after } from "next/server";
+import { jobStore, CALLBACK_TIMEOUT_MS, type QuizGenerationJob } from "@/lib/quiz-generation-jobs";
+import {
+  generateQuestions,
+  generationRequestFromPayload,
+  isBuiltInGenerationEnabled,
+  replaceQuestion,
+  saveGeneratedQuestions,
+  QuestionGenerationError,
+} from "@/lib/question-generator";
+import { sendJobStatusUpdate } from "@/lib/websocket-server";
+import { debugLogger } from "@/lib/debug-logger";
+import { logger } from "@/lib/logger";
+import { discardQuestionTranslations } from "@/lib/quiz-translations";
+
+const WEBHOOK_TIMEOUT_MS = 15 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1, 2, 4... minutes between attempts
+const WORKER_BATCH_SIZE = 10;
+// Built-in generation reports progress as it goes, so a much shorter lease than a webhook callback
+const BUILT_IN_LEASE_MS = 10 * 60 * 1000;
+
+export interface DispatchResult {
+  job: QuizGenerationJob | undefined;
+  dispatched: boolean; // False when the job couldn't be claimed (finished, leased or not yet due)
+  response?: Record<string, unknown>; // Parsed webhook response body
+}
+
+export interface WorkerRunResult {
+  dispatched: number;
+  retrying: number;
+  failed: number;
+  cleaned: number;
+}
+
+function retryDelay(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+}
+
+/**
+ * Record a failed attempt: schedule another one if attempts remain, otherwise fail the job
+ */
+async function handleAttemptFailure(job: QuizGenerationJob, error: string, retryable: boolean): Promise<QuizGenerationJob | undefined> {
+  if (retryable && job.attempts < job.maxAttempts) {
+    const delay = retryDelay(job.attempts);
+    return jobStore.update(job.jobId, {
+      status: 'pending',
+      error,
+      message: `Generation service unavailable, retrying in ${Math.round(delay / 60000)} minute${delay === 60000 ? '' : 's'}...`,
+      nextAttemptAt: new Date(Date.now() + delay),
+      leaseExpiresAt: null,
+    });
+  }
+
+  return jobStore.update(job.jobId, {
+    status: 'failed',
+    progress: 0,
+    error,
+    message: job.type === 'replace' ? 'Failed to start question replacement' : 'Failed to start quiz generation',
+  });
+}
+
+/**
+ * Claim a job and POST its payload to the generation webhook.
+ * Network errors, 5xx and 429 responses are retried with backoff; other failures fail the job.
+ */
+export async function dispatchGenerationJob(jobId: string): Promise<DispatchResult> {
+  const job = await jobStore.claim(jobId);
+  if (!job) {
+    return { job: await jobStore.get(jobId), dispatched: false };
+  }
+
+  if (isBuiltInGenerationEnabled()) {
+    return startBuiltInGeneration(job);
+  }
+  const webhookUrl = process.env.QUIZ_GENERATION_WEBHOOK_URL as string;
+
+  debugLogger.info("Dispatching generation job", {
+    jobId,
+    type: job.type,
+    attempt: job.attempts,
+    maxAttempts: job.maxAttempts,
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(job.webhookPayload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+  } catch (fetchError) {
+    logger.warn(`Generation webhook unreachable for job ${jobId} (attempt ${job.attempts}):`, fetchError);
+    const updated = await handleAttemptFailure(job, 'Failed to reach quiz generation service', true);
+    await sendJobStatusUpdate(jobId);
+    return { job: updated, dispatched: false };
+  }
+
+  // Read the body regardless of status; n8n can report errors with a 200
+  const responseText = await response.text().catch(() => "");
+  let responseData: Record<string, unknown> = {};
+  try {
+    if (responseText) responseData = JSON.parse(responseText);
+  } catch {
+    // A non-JSON body is treated as a plain acknowledgement
+  }
+
+  debugLogger.info("Webhook response received", {
+    jobId,
+    status: response.status,
+    body: responseText,
+  });
+
+  if (!response.ok || responseData.error || responseData.status === 'error') {
+    const error = String(responseData.error || responseData.message || responseText || `Webhook failed with status ${response.status}`);
+    const retryable = response.status >= 500 || response.status === 429;
+    const updated = await handleAttemptFailure(job, error, retryable);
+    await sendJobStatusUpdate(jobId);
+    return { job: updated, dispatched: false, response: responseData };
+  }
+
+  const updated = await jobStore.update(jobId, {
+    status: 'processing',
+    progress: 10,
+    error: null,
+    message: job.type === 'replace'
+      ? 'Creating new biblical study question...'
+      : 'Biblical quiz generation in progress...',
+    leaseExpiresAt: new Date(Date.now() + CALLBACK_TIMEOUT_MS),
+  });
+  await sendJobStatusUpdate(jobId);
+  return { job: updated, dispatched: true, response: responseData };
+}
+
+/**
+ * Run a job with the built-in generator after the response is sent.
+ * The job stays leased while it runs; if the function is cut off, the lease lapses and it's retried.
+ */
+async function startBuiltInGeneration(job: QuizGenerationJob): Promise<DispatchResult> {
+  debugLogger.info("Starting built-in generation", {
+    jobId: job.jobId,
+    type: job.type,
+    attempt: job.attempts,
+  });
+
+  const updated = await jobStore.update(job.jobId, {
+    status: 'processing',
+    progress: 10,
+    error: null,
+    message: job.type === 'replace'
+      ? 'Creating new biblical study question...'
+      : 'Biblical quiz generation in progress...',
+    leaseExpiresAt: new Date(Date.now() + BUILT_IN_LEASE_MS),
+  });
+  await sendJobStatusUpdate(job.jobId);
+
+  const task = () => runBuiltInGeneration(job);
+  try {
+    after(task);
+  } catch {
+    // Outside a request (scripts, local tooling) there's nothing to defer to
+    void task();
+  }
+  return { job: updated, dispatched: true };
+}
+
+async function runBuiltInGeneration(job: QuizGenerationJob): Promise<void> {
+  const { jobId } = job;
+  try {
+    const request = generationRequestFromPayload(job.webhookPayload);
+    if (job.type === 'replace') request.questionCount = 1;
+    const documentIds = Array.isArray(job.webhookPayload.documentIds)
+      ? job.webhookPayload.documentIds.filter((id): id is string => typeof id === 'string')
+      : [];
+
+    const outcome = await generateQuestions(request, {
+      documentIds,
+      onProgress: async (progress, message) => {
+        await jobStore.update(jobId, {
+          progress,
+          message,
+          leaseExpiresAt: new Date(Date.now() + BUILT_IN_LEASE_MS),
+        });
+        await sendJobStatusUpdate(jobId);
+      },
+    });
+
+    if (outcome.questions.length === 0) {
+      throw new QuestionGenerationError('None of the generated questions passed validation', true);
+    }
+
+    // Another attempt may have finished first if this one outlived its lease
+    const current = await jobStore.get(jobId);
+    if (!current || current.status === 'completed') return;
+
+    let saved: Record<string, unknown>[];
+    if (job.type === 'replace') {
+      const replaced = job.questionId ? await replaceQuestion(job.quizId, job.questionId, outcome.questions[0]) : undefined;
+      if (!replaced) throw new QuestionGenerationError('The question to replace no longer exists');
+      // It's a different question now, so its translations no longer apply
+      await discardQuestionTranslations(replaced.id);
+      saved = [replaced];
+    } else {
+      saved = await saveGeneratedQuestions(job.quizId, outcome.questions);
+    }
+
+    const message = job.type === 'replace'
+      ? 'Question replaced successfully'
+      : saved.length < request.questionCount
+        ? `Generated ${saved.length} of ${request.questionCount} questions (${outcome.rejected} rejected by validation)`
+        : `Successfully generated ${saved.length} questions`;
+
+    await jobStore.update(jobId, {
+      status: 'completed',
+      progress: 100,
+      message,
+      error: null,
+      questionsData: saved,
+    });
+    logger.log(`Built-in generation for job ${jobId} completed with ${outcome.provider}: ${message}`);
+  } catch (error) {
+    logger.error(`Built-in generation failed for job ${jobId}:`, error);
+    const retryable = error instanceof QuestionGenerationError ? error.retryable : true;
+    await handleAttemptFailure(job, error instanceof Error ? error.message : 'Question generation failed', retryable);
+  }
+  await sendJobStatusUpdate(jobId);
+}
+
+/**
+ * Dispatch a job again if it's due, or fail it once its attempts are used up.
+ * Returns the job's latest state.
+ */
+export async function resumeGenerationJob(job: QuizGenerationJob): Promise<QuizGenerationJob | undefined> {
+  const now = Date.now();
+  const leaseExpired = !job.leaseExpiresAt || job.leaseExpiresAt.getTime() < now;
+  const due = (job.status === 'pending' || job.status === 'processing') && leaseExpired && job.nextAttemptAt.getTime() <= now;
+  if (!due) return job;
+
+  if (job.attempts >= job.maxAttempts) {
+    const failed = await jobStore.update(job.jobId, {
+      status: 'failed',
+      progress: 0,
+      error: `Job timed out after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}`,
+      message: 'The generation service did not respond in time',
+    });
+    await sendJobStatusUpdate(job.jobId);
+    return failed;
+  }
+
+  return (await dispatchGenerationJob(job.jobId)).job;
+}
+
+/**
+ * Resume every due job, then remove old finished jobs
+ */
+export async function runGenerationWorker(): Promise<WorkerRunResult> {
+  const result: WorkerRunResult = { dispatched: 0, retrying: 0, failed: 0, cleaned: 0 };
+
+  for (const job of await jobStore.listDue(WORKER_BATCH_SIZE)) {
+    try {
+      const resumed = await resumeGenerationJob(job);
+      if (resumed?.status === 'processing') result.dispatched++;
+      else if (resumed?.status === 'pending') result.retrying++;
+      else if (resumed?.status === 'failed') result.failed++;
+    } catch (error) {
+      logger.error(`Error resuming generation job ${job.jobId}:`, error);
+    }
+  }
+
+  result.cleaned = await jobStore.cleanup();
+  return result;
+}
@@ -0,0 +1,176 @@
+/**
+ * Weighted quiz scoring.
+ *
+ * Scoring rules live in `quizzes.configuration.scoring`. Quizzes without them
+ * keep the legacy rule of one point per fully correct answer.
+ */
+
+import { getAnswerCredit, type GradableQuestion } from "@/lib/question-types";
+
+export interface QuizScoringConfig {
+  defaultPoints: number;
+  questionPoints: Record<string, number>; // Question id -> points, overrides defaultPoints
+  negativeMarking: number; // Fraction of a question's points lost for a wrong answer; 0 disables it
+  partialCredit: boolean; // Award a share of the points for partly right multi-part answers
+}
+
+export const LEGACY_SCORING: QuizScoringConfig = {
+  defaultPoints: 1,
+  questionPoints: {},
+  negativeMarking: 0,
+  partialCredit: false,
+};
+
+export interface ScorableQuestion extends GradableQuestion {
+  id: string;
+}
+
+export interface QuestionScore {
+  questionId: string;
+  credit: number;
+  isCorrect: boolean;
+  pointsAwarded: number;
+  pointsPossible: number;
+}
+
+export interface AttemptScore {
+  score: number; // Percentage, 0-100
+  totalCorrect: number;
+  pointsEarned: number;
+  pointsPossible: number;
+  questionScores: Map<string, QuestionScore>;
+}
+
+function toPoints(value: unknown): number | null {
+  const points = typeof value === "string" ? Number(value) : value;
+  return typeof points === "number" && Number.isFinite(points) && points >= 0 ? points : null;
+}
+
+/**
+ * Read the scoring rules from a quiz's configuration, filling in legacy defaults
+ */
+export function getScoringConfig(configuration: unknown): QuizScoringConfig {
+  const scoring = configuration && typeof configuration === "object"
+    ? (configuration as Record<string, unknown>).scoring
+    : null;
+
+  if (!scoring || typeof scoring !== "object") {
+    return LEGACY_SCORING;
+  }
+
+  const raw = scoring as Record<string, unknown>;
+  const questionPoints: Record<string, number> = {};
+  if (raw.questionPoints && typeof raw.questionPoints === "object") {
+    for (const [questionId, value] of Object.entries(raw.questionPoints as Record<string, unknown>)) {
+      const points = toPoints(value);
+      if (points !== null) questionPoints[questionId] = points;
+    }
+  }
+
+  const negativeMarking = toPoints(raw.negativeMarking) ?? 0;
+
+  return {
+    defaultPoints: toPoints(raw.defaultPoints) ?? 1,
+    questionPoints,
+    negativeMarking: Math.min(negativeMarking, 1),
+    partialCredit: raw.partialCredit === true,
+  };
+}
+
+/**
+ * Validate scoring rules sent by an educator
+ */
+export function parseScoringConfig(input: unknown): { config: QuizScoringConfig } | { error: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Scoring settings are required" };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.defaultPoints !== undefined && toPoints(raw.defaultPoints) === null) {
+    return { error: "Default points must be zero or more" };
+  }
+
+  if (raw.negativeMarking !== undefined) {
+    const negativeMarking = toPoints(raw.negativeMarking);
+    if (negativeMarking === null || negativeMarking > 1) {
+      return { error: "Negative marking must be between 0 and 1" };
+    }
+  }
+
+  if (raw.questionPoints !== undefined) {
+    if (!raw.questionPoints || typeof raw.questionPoints !== "object") {
+      return { error: "Question points must map question ids to numbers" };
+    }
+    const invalid = Object.values(raw.questionPoints as Record<string, unknown>).some(v => toPoints(v) === null);
+    if (invalid) {
+      return { error: "Question points must be zero or more" };
+    }
+  }
+
+  return { config: getScoringConfig({ scoring: raw }) };
+}
+
+export function getQuestionPoints(config: QuizScoringConfig, questionId: string): number {
+  return config.questionPoints[questionId] ?? config.defaultPoints;
+}
+
+/**
+ * Score one answer. Negative marking only applies to answered questions that earn no credit.
+ */
+export function scoreQuestion(
+  question: ScorableQuestion,
+  answer: string | null | undefined,
+  config: QuizScoringConfig
+): QuestionScore {
+  const pointsPossible = getQuestionPoints(config, question.id);
+  const fullCredit = getAnswerCredit(question, answer);
+  const isCorrect = fullCredit === 1;
+  const credit = isCorrect || config.partialCredit ? fullCredit : 0;
+  const answered = answer != null && answer !== "";
+
+  const pointsAwarded = credit > 0
+    ? credit * pointsPossible
+    : answered ? -config.negativeMarking * pointsPossible : 0;
+
+  return {
+    questionId: question.id,
+    credit,
+    isCorrect,
+    pointsAwarded: Math.round(pointsAwarded * 100) / 100,
+    pointsPossible,
+  };
+}
+
+/**
+ * Score a full attempt. The total never drops below zero even with negative marking.
+ */
+export function scoreAttempt(
+  quizQuestions: ScorableQuestion[],
+  answers: { questionId: string; answer: string | null | undefined }[],
+  config: QuizScoringConfig
+): AttemptScore {
+  const answersByQuestion = new Map(answers.map(a => [a.questionId, a.answer]));
+  const questionScores = new Map<string, QuestionScore>();
+  let pointsEarned = 0;
+  let pointsPossible = 0;
+  let totalCorrect = 0;
+
+  for (const question of quizQuestions) {
+    const result = scoreQuestion(question, answersByQuestion.get(question.id), config);
+    questionScores.set(question.id, result);
+    pointsEarned += result.pointsAwarded;
+    pointsPossible += result.pointsPossible;
+    if (result.isCorrect) totalCorrect++;
+  }
+
+  pointsEarned = Math.max(0, Math.round(pointsEarned * 100) / 100);
+
+  return {
+    score: pointsPossible > 0 ? (pointsEarned / pointsPossible) * 100 : 0,
+    totalCorrect,
+    pointsEarned,
+    pointsPossible,
+    questionScores,
+  };
+}
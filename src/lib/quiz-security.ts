@@ -7,8 +7,9 @@
 
 import { eq, and, gte, sql } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { quizAttempts, enrollments } from "@/lib/schema";
+import { quizAttempts, enrollments, quizzes } from "@/lib/schema";
 import { logger } from "@/lib/logger";
+import { getAttemptPolicy, getAttemptAvailability } from "@/lib/attempt-policy";
 
 
 interface ValidationResult {
@@ -41,12 +42,36 @@ export async function validateQuizStart(
         };
       }
 
-      // Check if already completed
+      // A completed enrollment can only be retaken if the quiz's attempt policy allows it
       if (enrollment.status === "completed") {
-        return { 
-          allowed: false, 
-          reason: "Quiz already completed for this enrollment" 
-        };
+        const [quiz] = await db
+          .select({ configuration: quizzes.configuration })
+          .from(quizzes)
+          .where(eq(quizzes.id, quizId));
+
+        const completedAttempts = await db
+          .select({ endTime: quizAttempts.endTime })
+          .from(quizAttempts)
+          .where(
+            and(
+              eq(quizAttempts.enrollmentId, enrollmentId),
+              eq(quizAttempts.status, "completed"),
+              eq(quizAttempts.mode, "exam")
+            )
+          );
+
+        const availability = getAttemptAvailability(
+          getAttemptPolicy(quiz?.configuration),
+          completedAttempts
+        );
+
+        if (!availability.canStart) {
+          return { 
+            allowed: false, 
+            reason: availability.reason || "Quiz already completed for this enrollment",
+            attemptCount: availability.attemptsUsed
+          };
+        }
       }
     }
 
@@ -0,0 +1,394 @@
+import { after } from "next/server";
+import { and, desc, eq, sql } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { questions, questionTranslations, quizzes, translationJobs } from "@/lib/schema";
+import { logger } from "@/lib/logger";
+import {
+  getQuestionType,
+  type FillBlankAnswerData,
+  type MatchingAnswerData,
+  type QuestionAnswerData,
+  type QuestionOption,
+} from "@/lib/question-types";
+import { translationService } from "@/lib/translation-service";
+import { ENGLISH, type LanguageDefinition } from "@/lib/languages";
+import { findLanguage, getEnabledLanguages } from "@/lib/language-registry";
+
+/**
+ * Quiz translations.
+ *
+ * Questions are written in English and stay that way. Translating a question stores a
+ * separate record per language with the same option and match ids, and a student picks
+ * one of the quiz's fully translated languages when starting an attempt. Answers are
+ * stored as option ids, so grading is the same whichever language was shown; only
+ * fill-in-the-blank questions need the translated accepted answers.
+ *
+ * Which languages can be translated into is configured by admins (lib/language-registry.ts).
+ * Disabling a language keeps its translations but stops offering it to students.
+ */
+
+export const ORIGINAL_LANGUAGE = ENGLISH.code;
+
+// A job that hasn't reported progress in this long was cut off and can be started again
+const STALLED_JOB_MS = 10 * 60 * 1000;
+
+export class TranslationError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "TranslationError";
+  }
+}
+
+type Quiz = typeof quizzes.$inferSelect;
+type Question = typeof questions.$inferSelect;
+export type QuestionTranslation = typeof questionTranslations.$inferSelect;
+export type TranslationJob = typeof translationJobs.$inferSelect;
+
+interface TranslatableQuestion {
+  id: string;
+  questionText: string;
+  options: QuestionOption[];
+  explanation?: string | null;
+  questionType?: string | null;
+  answerData?: QuestionAnswerData | null;
+}
+
+export interface LanguageCoverage {
+  language: LanguageDefinition;
+  translated: number;
+  total: number;
+  complete: boolean;
+  job: TranslationJob | null; // Latest batch job for the language
+}
+
+function translationId(questionId: string, language: string): string {
+  return `${questionId}:${language}`;
+}
+
+function overlayText(original: QuestionOption[], translated: QuestionOption[] | null | undefined): QuestionOption[] {
+  const byId = new Map((translated ?? []).map(option => [option.id, option.text]));
+  return original.map(option => ({ ...option, text: byId.get(option.id) || option.text }));
+}
+
+/**
+ * The question as shown in a translation. Ids are untouched; anything missing from
+ * the translation falls back to the original text.
+ */
+export function localizeQuestion<T extends TranslatableQuestion>(question: T, translation?: QuestionTranslation | null): T {
+  if (!translation) return question;
+
+  let answerData = question.answerData ?? null;
+  const type = getQuestionType(question);
+  if (type === "matching" && answerData) {
+    const matching = answerData as MatchingAnswerData;
+    answerData = { ...matching, matches: overlayText(matching.matches ?? [], translation.matches) };
+  } else if (type === "fill_blank" && translation.acceptedAnswers?.length) {
+    const blank = answerData as FillBlankAnswerData | null;
+    const original = blank?.acceptedAnswers?.length ? blank.acceptedAnswers : [];
+    answerData = {
+      ...blank,
+      acceptedAnswers: [...new Set([...original, ...translation.acceptedAnswers])],
+    };
+  }
+
+  return {
+    ...question,
+    questionText: translation.questionText,
+    options: overlayText(question.options, translation.options),
+    explanation: translation.explanation ?? question.explanation,
+    answerData,
+  };
+}
+
+/**
+ * Whether an edit changes anything a translation was made from. Option ids are reused
+ * ("a"-"d"), so an old translation would otherwise be shown over the new question.
+ */
+export function translatedContentChanged(before: TranslatableQuestion, after: TranslatableQuestion): boolean {
+  return before.questionText !== after.questionText
+    || JSON.stringify(before.options) !== JSON.stringify(after.options)
+    || (before.explanation ?? null) !== (after.explanation ?? null)
+    || JSON.stringify(before.answerData ?? null) !== JSON.stringify(after.answerData ?? null);
+}
+
+/**
+ * Drop every translation of a question whose content was rewritten; it's untranslated
+ * again until translated anew. Returns how many were dropped.
+ */
+export async function discardQuestionTranslations(questionId: string): Promise<number> {
+  const deleted = await db
+    .delete(questionTranslations)
+    .where(eq(questionTranslations.questionId, questionId))
+    .returning({ id: questionTranslations.id });
+  if (deleted.length > 0) {
+    logger.info("Discarded translations of a changed question", { questionId, count: deleted.length });
+  }
+  return deleted.length;
+}
+
+/**
+ * Translations of a quiz's questions into one language, by question id
+ */
+export async function fetchQuizTranslations(quizId: string, language: string): Promise<Map<string, QuestionTranslation>> {
+  if (language === ORIGINAL_LANGUAGE) return new Map();
+
+  const rows = await db
+    .select()
+    .from(questionTranslations)
+    .where(and(eq(questionTranslations.quizId, quizId), eq(questionTranslations.language, language)));
+  return new Map(rows.map(row => [row.questionId, row]));
+}
+
+/**
+ * Localize a set of questions from one quiz in one pass
+ */
+export async function localizeQuizQuestions<T extends TranslatableQuestion>(
+  quizId: string,
+  language: string,
+  quizQuestions: T[]
+): Promise<T[]> {
+  const translations = await fetchQuizTranslations(quizId, language);
+  return quizQuestions.map(question => localizeQuestion(question, translations.get(question.id)));
+}
+
+/**
+ * Translate one question with the translation service and store it, replacing any
+ * earlier translation into the same language. The question itself is not changed.
+ */
+export async function translateQuestion(question: Question, language: LanguageDefinition): Promise<QuestionTranslation> {
+  const type = getQuestionType(question);
+  const matches = type === "matching" ? (question.answerData as MatchingAnswerData | null)?.matches ?? [] : [];
+  const acceptedAnswers = type === "fill_blank"
+    ? (question.answerData as FillBlankAnswerData | null)?.acceptedAnswers ?? []
+    : [];
+
+  const translated = await translationService.translateQuestion({
+    questionText: question.questionText,
+    options: question.options.map(option => option.text),
+    explanation: question.explanation,
+    matches: matches.map(match => match.text),
+    acceptedAnswers,
+    targetLanguage: language,
+    context: {
+      book: question.book,
+      chapter: question.chapter,
+      topic: question.topic,
+    },
+  });
+
+  const values = {
+    questionText: translated.questionText,
+    options: question.options.map((option, index) => ({ id: option.id, text: translated.options[index] })),
+    explanation: question.explanation ? translated.explanation : null,
+    matches: matches.length ? matches.map((match, index) => ({ id: match.id, text: translated.matches[index] })) : null,
+    acceptedAnswers: acceptedAnswers.length ? translated.acceptedAnswers : null,
+    updatedAt: new Date(),
+  };
+
+  const [saved] = await db
+    .insert(questionTranslations)
+    .values({
+      id: translationId(question.id, language.code),
+      questionId: question.id,
+      quizId: question.quizId,
+      language: language.code,
+      ...values,
+    })
+    .onConflictDoUpdate({ target: questionTranslations.id, set: values })
+    .returning();
+  return saved;
+}
+
+export async function getQuestionTranslations(questionId: string): Promise<QuestionTranslation[]> {
+  return db
+    .select()
+    .from(questionTranslations)
+    .where(eq(questionTranslations.questionId, questionId))
+    .orderBy(questionTranslations.language);
+}
+
+export async function deleteQuestionTranslation(questionId: string, language: string): Promise<boolean> {
+  const deleted = await db
+    .delete(questionTranslations)
+    .where(eq(questionTranslations.id, translationId(questionId, language)))
+    .returning({ id: questionTranslations.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Languages a student can take the quiz in: English plus every enabled language all of
+ * its questions have been translated into
+ */
+export async function availableQuizLanguages(quizId: string): Promise<LanguageDefinition[]> {
+  const coverage = await getLanguageCoverage(quizId);
+  return [ENGLISH, ...coverage.filter(entry => entry.complete).map(entry => entry.language)];
+}
+
+/**
+ * How far each enabled language is translated, with its latest batch job
+ */
+export async function getLanguageCoverage(quizId: string): Promise<LanguageCoverage[]> {
+  const [{ total }] = await db
+    .select({ total: sql<number>`count(*)::int` })
+    .from(questions)
+    .where(eq(questions.quizId, quizId));
+
+  // Joined to questions so translations of since-removed questions don't count
+  const counts = await db
+    .select({
+      language: questionTranslations.language,
+      translated: sql<number>`count(*)::int`,
+    })
+    .from(questionTranslations)
+    .innerJoin(questions, eq(questions.id, questionTranslations.questionId))
+    .where(eq(questionTranslations.quizId, quizId))
+    .groupBy(questionTranslations.language);
+  const translatedByLanguage = new Map(counts.map(row => [row.language, row.translated]));
+
+  const jobs = await db
+    .select()
+    .from(translationJobs)
+    .where(eq(translationJobs.quizId, quizId))
+    .orderBy(desc(translationJobs.createdAt));
+
+  const languages = await getEnabledLanguages();
+  return languages.map(language => {
+    const translated = translatedByLanguage.get(language.code) ?? 0;
+    return {
+      language,
+      translated,
+      total,
+      complete: total > 0 && translated >= total,
+      job: jobs.find(job => job.language === language.code) ?? null,
+    };
+  });
+}
+
+function isJobActive(job: TranslationJob): boolean {
+  return (job.status === "pending" || job.status === "processing")
+    && Date.now() - job.updatedAt.getTime() < STALLED_JOB_MS;
+}
+
+/**
+ * Translate every question of a quiz into one language after the response is sent.
+ * Questions that already have a translation are skipped unless `overwrite` is set.
+ */
+export async function startQuizTranslationJob(
+  quiz: Quiz,
+  educatorId: string,
+  language: LanguageDefinition,
+  overwrite = false
+): Promise<TranslationJob> {
+  const [existing] = await db
+    .select()
+    .from(translationJobs)
+    .where(and(eq(translationJobs.quizId, quiz.id), eq(translationJobs.language, language.code)))
+    .orderBy(desc(translationJobs.createdAt))
+    .limit(1);
+  if (existing && isJobActive(existing)) {
+    throw new TranslationError(
+      `This quiz is already being translated to ${language.name}`,
+      409
+    );
+  }
+
+  const quizQuestions = await db
+    .select({ id: questions.id })
+    .from(questions)
+    .where(eq(questions.quizId, quiz.id));
+  if (quizQuestions.length === 0) {
+    throw new TranslationError("Quiz has no questions to translate");
+  }
+
+  const [job] = await db
+    .insert(translationJobs)
+    .values({
+      id: crypto.randomUUID(),
+      quizId: quiz.id,
+      educatorId,
+      language: language.code,
+      overwrite,
+      totalQuestions: quizQuestions.length,
+    })
+    .returning();
+
+  const task = () => runQuizTranslationJob(job);
+  try {
+    after(task);
+  } catch {
+    // Outside a request (scripts, local tooling) there's nothing to defer to
+    void task();
+  }
+  return job;
+}
+
+async function runQuizTranslationJob(job: TranslationJob): Promise<void> {
+  try {
+    // Looked up again as the job may outlive an admin's changes to the language
+    const language = await findLanguage(job.language);
+    if (!language) {
+      throw new Error(`Unknown language: ${job.language}`);
+    }
+
+    await db
+      .update(translationJobs)
+      .set({ status: "processing", updatedAt: new Date() })
+      .where(eq(translationJobs.id, job.id));
+
+    const quizQuestions = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.quizId, job.quizId))
+      .orderBy(questions.orderIndex);
+
+    const alreadyTranslated = job.overwrite
+      ? new Set<string>()
+      : new Set((await fetchQuizTranslations(job.quizId, language.code)).keys());
+
+    let translated = 0;
+    const failedQuestionIds: string[] = [];
+    for (const question of quizQuestions) {
+      if (!alreadyTranslated.has(question.id)) {
+        try {
+          await translateQuestion(question, language);
+        } catch (error) {
+          logger.error("Failed to translate question in batch", { jobId: job.id, questionId: question.id, error });
+          failedQuestionIds.push(question.id);
+          continue;
+        }
+      }
+      translated++;
+      await db
+        .update(translationJobs)
+        .set({ translatedQuestions: translated, failedQuestionIds, updatedAt: new Date() })
+        .where(eq(translationJobs.id, job.id));
+    }
+
+    await db
+      .update(translationJobs)
+      .set({
+        status: failedQuestionIds.length === quizQuestions.length ? "failed" : "completed",
+        totalQuestions: quizQuestions.length,
+        translatedQuestions: translated,
+        failedQuestionIds,
+        error: failedQuestionIds.length
+          ? `${failedQuestionIds.length} question${failedQuestionIds.length === 1 ? "" : "s"} could not be translated`
+          : null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(translationJobs.id, job.id));
+  } catch (error) {
+    logger.error("Quiz translation job failed", { jobId: job.id, error });
+    await db
+      .update(translationJobs)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : "Translation failed",
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(translationJobs.id, job.id));
+  }
+}
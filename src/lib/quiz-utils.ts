@@ -15,6 +15,28 @@ export function shuffleArray<T>(array: T[]): T[] {
   return shuffled;
 }
 
+/**
+ * Seeded Fisher-Yates shuffle: the same seed always gives the same order, so an
+ * attempt sees a consistent arrangement across reloads
+ */
+export function seededShuffle<T>(array: T[], seed: string): T[] {
+  const arr = [...array];
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = ((hash << 5) - hash) + seed.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  hash = Math.abs(hash); // A negative seed would produce out-of-range swap indexes
+  
+  for (let i = arr.length - 1; i > 0; i--) {
+    hash = (hash * 9301 + 49297) % 233280;
+    const j = Math.floor((hash / 233280) * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  
+  return arr;
+}
+
 /**
  * Shuffle quiz options while maintaining correct answer reference
  * Returns a new options array with randomized order
@@ -53,13 +75,15 @@ export function checkOptionsDistribution(
 }
 
 /**
- * Shuffle all questions' options in a quiz for better distribution
+ * Shuffle all questions' options in a quiz for better distribution.
+ * With a seed the arrangement is reproducible, e.g. for a printed version and its answer key
  */
 export function shuffleAllQuestionOptions<T extends { options: Array<{ text: string; id: string }> }>(
-  questions: T[]
+  questions: T[],
+  seed?: string
 ): T[] {
-  return questions.map(question => ({
+  return questions.map((question, index) => ({
     ...question,
-    options: shuffleQuizOptions(question.options)
+    options: seed ? seededShuffle(question.options, `${seed}:${index}`) : shuffleQuizOptions(question.options)
   }));
 }
\ No newline at end of file
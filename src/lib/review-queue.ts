@@ -0,0 +1,195 @@
+import { and, eq, lte, asc, inArray, sql } from "drizzle-orm";
+import * as crypto from "crypto";
+import { db } from "@/lib/db";
+import { reviewItems, questionResponses, quizAttempts, quizzes } from "@/lib/schema";
+import { logger } from "@/lib/logger";
+
+/**
+ * Spaced-repetition review queue.
+ *
+ * Questions a student gets wrong are queued in `review_items` and brought back on an
+ * SM-2 schedule: each correct review pushes the next one further out, a miss starts
+ * the item over from one day.
+ */
+
+export type ReviewItem = typeof reviewItems.$inferSelect;
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+}
+
+/**
+ * Map a graded answer to SM-2's 0-5 recall quality. Partial credit counts as a hard
+ * pass so the item still moves forward, just with a lower ease.
+ */
+export function getRecallQuality(credit: number): number {
+  if (credit >= 1) return 4;
+  if (credit > 0) return 3;
+  return 1;
+}
+
+/**
+ * SM-2: a pass (quality >= 3) grows the interval 1 day, 6 days, then by the ease
+ * factor; a fail resets it to one day. Ease drifts with quality but never below 1.3.
+ */
+export function scheduleReview(
+  current: Pick<ReviewSchedule, "easeFactor" | "intervalDays" | "repetitions" | "lapses">,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let intervalDays: number;
+  let repetitions: number;
+  let lapses = current.lapses;
+
+  if (quality >= 3) {
+    repetitions = current.repetitions + 1;
+    intervalDays = repetitions === 1 ? 1
+      : repetitions === 2 ? 6
+      : Math.round(current.intervalDays * easeFactor);
+  } else {
+    repetitions = 0;
+    intervalDays = 1;
+    lapses += 1;
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
+
+/**
+ * End of the current calendar day in the student's timezone, so "due today" matches
+ * the day they see on their clock.
+ */
+export function getEndOfDay(timezone: string, now: Date = new Date()): Date {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(now);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+    const elapsedMs = ((get("hour") * 60 + get("minute")) * 60 + get("second")) * 1000;
+    return new Date(now.getTime() - elapsedMs + DAY_MS - 1);
+  } catch {
+    return new Date(now.getTime() + DAY_MS);
+  }
+}
+
+/**
+ * Queue every question the student has missed that isn't queued yet. Exam answers
+ * stay hidden until the attempt's time is up, so those are only picked up afterwards.
+ */
+export async function syncReviewQueue(studentId: string, now: Date = new Date()): Promise<number> {
+  const missed = await db
+    .select({
+      questionId: questionResponses.questionId,
+      attemptId: quizAttempts.id,
+      answeredAt: questionResponses.answeredAt,
+      mode: quizAttempts.mode,
+      attemptStart: quizAttempts.startTime,
+      duration: quizzes.duration,
+    })
+    .from(questionResponses)
+    .innerJoin(quizAttempts, eq(questionResponses.attemptId, quizAttempts.id))
+    .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+    .where(
+      and(
+        eq(quizAttempts.studentId, studentId),
+        eq(quizAttempts.status, "completed"),
+        eq(questionResponses.isCorrect, false)
+      )
+    );
+
+  const revealed = missed.filter(m =>
+    m.mode === "practice" || m.attemptStart.getTime() + m.duration * 60 * 1000 <= now.getTime()
+  );
+  if (revealed.length === 0) return 0;
+
+  const existing = await db
+    .select({ questionId: reviewItems.questionId })
+    .from(reviewItems)
+    .where(
+      and(
+        eq(reviewItems.studentId, studentId),
+        inArray(reviewItems.questionId, [...new Set(revealed.map(m => m.questionId))])
+      )
+    );
+  const queued = new Set(existing.map(e => e.questionId));
+
+  const toQueue = new Map<string, typeof revealed[number]>();
+  for (const m of revealed) {
+    if (!queued.has(m.questionId) && !toQueue.has(m.questionId)) {
+      toQueue.set(m.questionId, m);
+    }
+  }
+  if (toQueue.size === 0) return 0;
+
+  // First review is a day after the miss, or straight away if that has already passed.
+  // Another request syncing at the same time may have queued some of them already.
+  const inserted = await db.insert(reviewItems).values(
+    [...toQueue.values()].map(m => ({
+      id: crypto.randomUUID(),
+      studentId,
+      questionId: m.questionId,
+      sourceAttemptId: m.attemptId,
+      easeFactor: DEFAULT_EASE_FACTOR,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: new Date((m.answeredAt ?? now).getTime() + DAY_MS),
+    }))
+  ).onConflictDoNothing().returning({ id: reviewItems.id });
+
+  logger.info("Queued missed questions for review", { studentId, count: inserted.length });
+  return inserted.length;
+}
+
+/**
+ * Counts for the dashboard: items due right now and by the end of the student's day
+ */
+export async function getReviewCounts(studentId: string, timezone: string, now: Date = new Date()) {
+  const endOfDay = getEndOfDay(timezone, now);
+  const [counts] = await db
+    .select({
+      total: sql<number>`COUNT(*)::int`,
+      dueNow: sql<number>`COUNT(*) FILTER (WHERE ${reviewItems.dueAt} <= ${now.toISOString()})::int`,
+      dueToday: sql<number>`COUNT(*) FILTER (WHERE ${reviewItems.dueAt} <= ${endOfDay.toISOString()})::int`,
+    })
+    .from(reviewItems)
+    .where(eq(reviewItems.studentId, studentId));
+
+  return {
+    total: counts?.total ?? 0,
+    dueNow: counts?.dueNow ?? 0,
+    dueToday: counts?.dueToday ?? 0,
+  };
+}
+
+export async function getDueReviewItems(studentId: string, limit: number, now: Date = new Date()) {
+  return db
+    .select()
+    .from(reviewItems)
+    .where(and(eq(reviewItems.studentId, studentId), lte(reviewItems.dueAt, now)))
+    .orderBy(asc(reviewItems.dueAt))
+    .limit(limit);
+}
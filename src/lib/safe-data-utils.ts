@@ -42,6 +42,7 @@ export interface SafeQuizResult {
   totalQuestions: number;
   correctAnswers: number;
   status: string;
+  isPractice: boolean;
   duration?: number;
   timeSpent?: number;
 }
@@ -65,6 +66,7 @@ export function processSafeQuizResult(rawResult: any): SafeQuizResult | null {
       0
     ),
     status: safeString(rawResult.status, 'completed'),
+    isPractice: rawResult.mode === 'practice',
     // Optional fields with proper fallbacks
     duration: rawResult.timeSpent ? safeNumber(rawResult.timeSpent) : 
               rawResult.duration ? safeNumber(rawResult.duration) : 
@@ -90,6 +92,11 @@ export interface SafeQuiz {
   attempted: boolean;
   attemptId?: string;
   score?: number;
+  attemptsUsed: number;
+  attemptsRemaining: number | null; // Null when unlimited
+  canRetake: boolean;
+  nextAttemptAt?: string;
+  practiceAvailable: boolean;
   isActive: boolean;
   isUpcoming: boolean;
   isExpired: boolean;
@@ -120,6 +127,11 @@ export function processSafeQuiz(rawQuiz: any): SafeQuiz | null {
     attempted: Boolean(rawQuiz.attempted),
     attemptId: rawQuiz.attemptId ? safeString(rawQuiz.attemptId) : undefined,
     score: rawQuiz.score !== undefined ? safeNumber(rawQuiz.score) : undefined,
+    attemptsUsed: safeNumber(rawQuiz.attemptsUsed, rawQuiz.attempted ? 1 : 0),
+    attemptsRemaining: typeof rawQuiz.attemptsRemaining === 'number' ? rawQuiz.attemptsRemaining : null,
+    canRetake: Boolean(rawQuiz.canRetake),
+    nextAttemptAt: rawQuiz.nextAttemptAt ? safeString(rawQuiz.nextAttemptAt) : undefined,
+    practiceAvailable: Boolean(rawQuiz.practiceAvailable),
     isActive: Boolean(rawQuiz.isActive),
     isUpcoming: Boolean(rawQuiz.isUpcoming),
     isExpired: Boolean(rawQuiz.isExpired),
@@ -1,4 +1,7 @@
-import { pgTable, text, timestamp, boolean, integer, jsonb, pgEnum, real } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, boolean, integer, jsonb, pgEnum, real, uniqueIndex } from "drizzle-orm/pg-core";
+import type { QuestionAnswerData } from "./question-types";
+import type { AdaptiveStep } from "./adaptive-quiz";
+import type { QuestionCitation } from "./question-citations";
 
 export const userRoleEnum = pgEnum("user_role", ["admin", "educator", "student", "pending_educator"]);
 export const quizStatusEnum = pgEnum("quiz_status", ["draft", "published", "completed", "archived"]);
@@ -7,6 +10,12 @@ export const approvalStatusEnum = pgEnum("approval_status", ["pending", "approve
 export const enrollmentStatusEnum = pgEnum("enrollment_status", ["enrolled", "in_progress", "completed", "abandoned"]);
 export const difficultyEnum = pgEnum("difficulty", ["easy", "intermediate", "hard"]);
 export const bloomsLevelEnum = pgEnum("blooms_level", ["knowledge", "comprehension", "application", "analysis", "synthesis", "evaluation"]);
+export const questionTypeEnum = pgEnum("question_type", ["multiple_choice", "true_false", "multi_select", "fill_blank", "ordering", "matching"]);
+export const generationJobStatusEnum = pgEnum("generation_job_status", ["pending", "processing", "completed", "failed"]);
+export const generationJobTypeEnum = pgEnum("generation_job_type", ["quiz", "replace"]);
+export const liveSessionStatusEnum = pgEnum("live_session_status", ["lobby", "question", "leaderboard", "ended"]);
+export const emailStatusEnum = pgEnum("email_status", ["pending", "sending", "sent", "failed", "bounced", "suppressed"]);
+export const studentNotificationTypeEnum = pgEnum("student_notification_type", ["quiz_assigned", "group_added", "quiz_reassigned", "quiz_starting", "results_available"]);
 
 // Permission templates table (defined before user table)
 export const permissionTemplates = pgTable("permission_templates", {
@@ -41,6 +50,7 @@ export const user: any = pgTable("user", {
   emailVerified: boolean("emailVerified"),
   image: text("image"),
   timezone: text("timezone").notNull().default("Asia/Kolkata"), // Default to IST for Indian users
+  emailLanguage: text("email_language").notNull().default("en"), // Language of notification emails, see lib/language-registry.ts
   approvalStatus: approvalStatusEnum("approval_status").notNull().default("pending"),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   approvedBy: text("approved_by").references((): any => user.id),
@@ -163,22 +173,72 @@ export const quizzes = pgTable("quizzes", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Educator question bank - reusable questions that outlive any single quiz
+export const questionBank = pgTable("question_bank", {
+  id: text("id").primaryKey(),
+  educatorId: text("educator_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  questionText: text("question_text").notNull(),
+  options: jsonb("options").notNull().$type<{text: string, id: string}[]>(),
+  correctAnswer: text("correct_answer").notNull(),
+  questionType: questionTypeEnum("question_type").notNull().default("multiple_choice"),
+  answerData: jsonb("answer_data").$type<QuestionAnswerData>(),
+  explanation: text("explanation"),
+  difficulty: difficultyEnum("difficulty"),
+  bloomsLevel: bloomsLevelEnum("blooms_level"),
+  topic: text("topic"),
+  book: text("book"),
+  chapter: text("chapter"),
+  tags: jsonb("tags").$type<string[]>().default([]),
+  sourceQuizId: text("source_quiz_id").references(() => quizzes.id, { onDelete: "set null" }), // Quiz the item was saved from, if any
+  usageCount: integer("usage_count").notNull().default(0), // Number of times pulled into a quiz
+  lastUsedAt: timestamp("last_used_at"),
+  // Item analysis across every quiz the item was used in, see lib/item-analysis.ts
+  responseCount: integer("response_count").notNull().default(0),
+  difficultyIndex: real("difficulty_index"), // Proportion of exam responses that were correct, 0-1
+  discriminationIndex: real("discrimination_index"), // Point-biserial correlation with the rest of the quiz
+  itemFlags: jsonb("item_flags").$type<string[]>().default([]),
+  statsUpdatedAt: timestamp("stats_updated_at"),
+  isArchived: boolean("is_archived").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 export const questions = pgTable("questions", {
   id: text("id").primaryKey(),
   quizId: text("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
   questionText: text("question_text").notNull(),
   options: jsonb("options").notNull().$type<{text: string, id: string}[]>(),
   correctAnswer: text("correct_answer").notNull(),
+  questionType: questionTypeEnum("question_type").notNull().default("multiple_choice"),
+  answerData: jsonb("answer_data").$type<QuestionAnswerData>(), // Per-type answer payload, see lib/question-types.ts
   explanation: text("explanation"),
   difficulty: difficultyEnum("difficulty"),
   bloomsLevel: bloomsLevelEnum("blooms_level"),
   topic: text("topic"),
   book: text("book"),
   chapter: text("chapter"),
+  citations: jsonb("citations").$type<QuestionCitation[]>(), // Scripture references and source passages, see lib/question-citations.ts
+  bankItemId: text("bank_item_id").references(() => questionBank.id, { onDelete: "set null" }), // Set when pulled from the question bank
   orderIndex: integer("order_index").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Translated text of a question, one row per language. Option and match ids are the
+// original ones, so answers grade the same whichever language the student took the quiz in
+export const questionTranslations = pgTable("question_translations", {
+  id: text("id").primaryKey(), // `${questionId}:${language}`
+  questionId: text("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  quizId: text("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
+  language: text("language").notNull(), // Language code, see lib/language-registry.ts
+  questionText: text("question_text").notNull(),
+  options: jsonb("options").notNull().$type<{text: string, id: string}[]>(),
+  explanation: text("explanation"),
+  matches: jsonb("matches").$type<{text: string, id: string}[]>(), // Matching questions only
+  acceptedAnswers: jsonb("accepted_answers").$type<string[]>(), // Fill-in-the-blank only, accepted alongside the originals
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Student groups for better organization (moved before enrollments for reference)
 export const studentGroups = pgTable("student_groups", {
   id: text("id").primaryKey(),
@@ -232,12 +292,24 @@ export const quizAttempts = pgTable("quiz_attempts", {
   score: real("score"),
   totalCorrect: integer("total_correct"),
   totalQuestions: integer("total_questions"),
+  pointsEarned: real("points_earned"), // Null for attempts scored before weighted scoring existed
+  pointsPossible: real("points_possible"),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time"),
   timeSpent: integer("time_spent"), // in seconds
   timezone: text("timezone").notNull().default("Asia/Kolkata"), // User's timezone when they took the quiz
   status: text("status").notNull().default("in_progress"), // in_progress, completed, abandoned
+  mode: text("mode").notNull().default("exam"), // exam, practice - practice attempts are untimed and excluded from analytics
+  adaptivePath: jsonb("adaptive_path").$type<AdaptiveStep[]>(), // Questions served and how each went, adaptive quizzes only
+  masteryLevel: text("mastery_level"), // beginning, developing, proficient, advanced - adaptive quizzes only
   questionOrder: jsonb("question_order").$type<{questionId: string, options: {id: string, text: string}[]}[]>(), // Stores the shuffled order of questions and options as seen by student
+  // Proctoring - progress as last reported by the quiz page, and educator interventions
+  currentQuestionIndex: integer("current_question_index"),
+  answeredCount: integer("answered_count"),
+  lastSeenAt: timestamp("last_seen_at"),
+  extraTimeSeconds: integer("extra_time_seconds").notNull().default(0),
+  forceSubmittedBy: text("force_submitted_by").references(() => user.id, { onDelete: "set null" }),
+  language: text("language").notNull().default("en"), // Language the questions were shown in
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -248,11 +320,131 @@ export const questionResponses = pgTable("question_responses", {
   questionId: text("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
   selectedAnswer: text("selected_answer"),
   isCorrect: boolean("is_correct"),
+  pointsAwarded: real("points_awarded"), // Can be negative when negative marking is on
+  pointsPossible: real("points_possible"),
   timeSpent: integer("time_spent"), // in seconds
   markedForReview: boolean("marked_for_review").default(false),
   answeredAt: timestamp("answered_at").defaultNow(),
 });
 
+// Spaced-repetition review queue - one row per student per missed question, scheduled with SM-2
+export const reviewItems = pgTable("review_items", {
+  id: text("id").primaryKey(),
+  studentId: text("student_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  questionId: text("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  sourceAttemptId: text("source_attempt_id").references(() => quizAttempts.id, { onDelete: "set null" }), // Attempt the question was first missed in
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  intervalDays: integer("interval_days").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0), // Correct reviews in a row
+  lapses: integer("lapses").notNull().default(0), // Times missed during review
+  dueAt: timestamp("due_at").notNull(),
+  lastReviewedAt: timestamp("last_reviewed_at"),
+  lastReviewCorrect: boolean("last_review_correct"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // One card per question per student
+  uniqueIndex("review_items_student_question_idx").on(table.studentId, table.questionId),
+]);
+
+// Quiz generation jobs sent to the generation webhook.
+// A job is leased while it's being dispatched or waiting for its callback; an expired lease means it can be retried.
+export const generationJobs = pgTable("generation_jobs", {
+  id: text("id").primaryKey(), // The jobId sent to the webhook
+  type: generationJobTypeEnum("type").notNull(),
+  quizId: text("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
+  questionId: text("question_id").references(() => questions.id, { onDelete: "cascade" }), // Question being replaced
+  educatorId: text("educator_id").references(() => user.id, { onDelete: "cascade" }),
+  status: generationJobStatusEnum("status").notNull().default("pending"),
+  progress: integer("progress").notNull().default(0), // 0-100
+  message: text("message").notNull(),
+  error: text("error"),
+  payload: jsonb("payload").notNull().$type<Record<string, unknown>>(), // Body POSTed to the webhook
+  callbackSecret: text("callback_secret"), // Per-job HMAC key the generation service signs its callbacks with
+  result: jsonb("result").$type<Record<string, unknown>[]>(), // Questions saved from the callback
+  attempts: integer("attempts").notNull().default(0), // Webhook dispatches so far
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Status history for generation jobs
+export const generationJobEvents = pgTable("generation_job_events", {
+  id: text("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => generationJobs.id, { onDelete: "cascade" }),
+  status: generationJobStatusEnum("status").notNull(),
+  progress: integer("progress").notNull(),
+  message: text("message").notNull(),
+  error: text("error"),
+  attempt: integer("attempt").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Nonces of accepted generation callbacks, so a signed callback can't be replayed
+export const generationCallbackNonces = pgTable("generation_callback_nonces", {
+  id: text("id").primaryKey(), // `${jobId}:${nonce}`
+  jobId: text("job_id").notNull().references(() => generationJobs.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Whole-quiz translation jobs, run in-process one question at a time
+export const translationJobs = pgTable("translation_jobs", {
+  id: text("id").primaryKey(),
+  quizId: text("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
+  educatorId: text("educator_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  language: text("language").notNull(),
+  status: generationJobStatusEnum("status").notNull().default("pending"),
+  overwrite: boolean("overwrite").notNull().default(false), // Re-translate questions that already have a translation
+  totalQuestions: integer("total_questions").notNull(),
+  translatedQuestions: integer("translated_questions").notNull().default(0),
+  failedQuestionIds: jsonb("failed_question_ids").notNull().$type<string[]>().default([]),
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Host-paced live sessions: the educator moves the class through a quiz one question at a time
+export const liveSessions = pgTable("live_sessions", {
+  id: text("id").primaryKey(),
+  quizId: text("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
+  educatorId: text("educator_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  joinCode: text("join_code").notNull().unique(), // Short code students type to join
+  status: liveSessionStatusEnum("status").notNull().default("lobby"),
+  questionIds: jsonb("question_ids").notNull().$type<string[]>(), // Questions in play, in order
+  currentIndex: integer("current_index").notNull().default(-1), // -1 while in the lobby
+  secondsPerQuestion: integer("seconds_per_question").notNull().default(20),
+  questionStartedAt: timestamp("question_started_at"),
+  questionEndsAt: timestamp("question_ends_at"),
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const liveParticipants = pgTable("live_participants", {
+  id: text("id").primaryKey(), // `${sessionId}:${studentId}`, so joining twice is a no-op
+  sessionId: text("session_id").notNull().references(() => liveSessions.id, { onDelete: "cascade" }),
+  studentId: text("student_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  displayName: text("display_name").notNull(),
+  score: integer("score").notNull().default(0),
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+});
+
+export const liveAnswers = pgTable("live_answers", {
+  id: text("id").primaryKey(), // `${participantId}:${questionId}`, one answer per question
+  sessionId: text("session_id").notNull().references(() => liveSessions.id, { onDelete: "cascade" }),
+  participantId: text("participant_id").notNull().references(() => liveParticipants.id, { onDelete: "cascade" }),
+  questionId: text("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  selectedAnswer: text("selected_answer").notNull(),
+  isCorrect: boolean("is_correct").notNull(),
+  points: integer("points").notNull().default(0),
+  responseTimeMs: integer("response_time_ms").notNull(),
+  answeredAt: timestamp("answered_at").notNull().defaultNow(),
+});
+
 // New tables for educator-student management
 export const educatorStudents = pgTable("educator_students", {
   id: text("id").primaryKey(),
@@ -370,9 +562,10 @@ export const educatorReminderEmails = pgTable("educator_reminder_emails", {
   // Email delivery tracking
   sentAt: timestamp("sent_at").notNull().defaultNow(),
   emailSubject: text("email_subject").notNull(),
-  deliveryStatus: text("delivery_status").default("sent"), // sent, delivered, failed, bounced
+  deliveryStatus: text("delivery_status").default("sent"), // The queued email's status: pending, sent, failed, bounced, suppressed
   openedAt: timestamp("opened_at"),
   clickedAt: timestamp("clicked_at"),
+  outboundEmailId: text("outbound_email_id").references(() => outboundEmails.id, { onDelete: "set null" }), // Queued email, for delivery status and tracking
   
   // Response tracking
   engagementAfterEmail: jsonb("engagement_after_email").$type<{
@@ -384,3 +577,78 @@ export const educatorReminderEmails = pgTable("educator_reminder_emails", {
   
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
+
+// Outbound email queue, see lib/email-queue.ts
+export const outboundEmails = pgTable("outbound_emails", {
+  id: text("id").primaryKey(), // Also the open/click tracking token
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(), // Emptied once the email is sent or given up on
+  text: text("text"),
+  category: text("category").notNull().default("transactional"), // e.g. "otp", "invitation", "educator_reminder"
+  tracked: boolean("tracked").notNull().default(false), // Opens and clicks are recorded
+  status: emailStatusEnum("status").notNull().default("pending"),
+  provider: text("provider"), // Provider that accepted it: "smtp", "file"
+  providerMessageId: text("provider_message_id"), // Matched against bounce and complaint notifications
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  bouncedAt: timestamp("bounced_at"),
+  openedAt: timestamp("opened_at"),
+  clickedAt: timestamp("clicked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Addresses nothing more is sent to after a hard bounce or spam complaint
+export const emailSuppressions = pgTable("email_suppressions", {
+  email: text("email").primaryKey(), // Lowercased
+  reason: text("reason").notNull(), // "bounce", "complaint"
+  detail: text("detail"), // Diagnostic from the provider
+  outboundEmailId: text("outbound_email_id").references(() => outboundEmails.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Admin edits of the built-in email templates (lib/email-template-defaults.ts), one row per
+// template and language. Templates without a row for a language fall back to English.
+export const customEmailTemplates = pgTable("custom_email_templates", {
+  id: text("id").primaryKey(), // `${templateKey}:${language}`
+  templateKey: text("template_key").notNull(),
+  language: text("language").notNull(), // Language code, see lib/language-registry.ts
+  subject: text("subject").notNull(),
+  header: text("header").notNull(), // HTML
+  body: text("body").notNull(), // HTML
+  footer: text("footer").notNull(), // HTML
+  text: text("text").notNull(), // Plain-text alternative
+  updatedBy: text("updated_by"), // Admin email
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A student's notification inbox. Ids are derived from what the notification is about
+// (e.g. `quiz_assigned:${enrollmentId}`), so the same event is never recorded twice.
+export const studentNotifications = pgTable("student_notifications", {
+  id: text("id").primaryKey(),
+  studentId: text("student_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  type: studentNotificationTypeEnum("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"), // App path the notification opens
+  quizId: text("quiz_id").references(() => quizzes.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at"),
+  emailedAt: timestamp("emailed_at"), // Sent on its own as soon as it was created
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Which notifications a student wants in the inbox and by email, and whether they get a
+// daily digest. Students without a row use the defaults in lib/student-notifications.ts.
+export const notificationPreferences = pgTable("notification_preferences", {
+  studentId: text("student_id").primaryKey().references(() => user.id, { onDelete: "cascade" }),
+  channels: jsonb("channels").notNull().$type<Record<string, { inApp: boolean; email: boolean }>>(),
+  dailyDigest: boolean("daily_digest").notNull().default(false),
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
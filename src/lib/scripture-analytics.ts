@@ -0,0 +1,291 @@
+import { and, eq, gte, inArray, sql, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  educatorStudents,
+  groupMembers,
+  questionResponses,
+  questions,
+  quizAttempts,
+  quizzes,
+  studentGroups,
+  user,
+} from "@/lib/schema";
+import { BIBLE_BOOKS, BOOK_GROUPS, findBook, normalizeBookAndChapter } from "@/lib/scripture-reference";
+
+/**
+ * Accuracy and coverage laid out over the canon.
+ *
+ * Every exam response to one of the educator's questions counts toward the question's book
+ * and chapter. Accuracy is the share of those responses that were correct; coverage is the
+ * share of a book's chapters that have been tested at all. Both can be narrowed to one
+ * student or one group.
+ */
+
+export type ScriptureScope =
+  | { type: "roster" }
+  | { type: "group"; groupId: string }
+  | { type: "student"; studentId: string };
+
+export interface HeatStats {
+  questions: number; // Distinct questions answered
+  responses: number;
+  correct: number;
+  accuracy: number | null; // Percentage, null when nothing was answered
+}
+
+export interface ChapterHeat extends HeatStats {
+  chapter: number;
+}
+
+export interface BookHeat extends HeatStats {
+  bookId: string;
+  book: string;
+  testament: "OT" | "NT";
+  groupId: string;
+  chapterCount: number;
+  chaptersTested: number;
+  coverage: number; // Percentage of chapters with at least one response
+  chapters: ChapterHeat[]; // Only chapters with responses
+  unassigned: HeatStats; // Responses to questions with this book but no chapter
+}
+
+export interface ScriptureHeatmap {
+  books: BookHeat[];
+  groups: (HeatStats & { id: string; name: string; testament: "OT" | "NT"; coverage: number })[];
+  unassigned: HeatStats; // Responses to questions without a recognized book
+  totals: HeatStats;
+}
+
+export interface ScriptureQuestionStats extends HeatStats {
+  questionId: string;
+  quizId: string;
+  quizTitle: string;
+  questionText: string;
+  book: string | null;
+  chapter: string | null;
+}
+
+interface QuestionRow {
+  questionId: string;
+  quizId: string;
+  quizTitle: string;
+  questionText: string;
+  book: string | null;
+  chapter: string | null;
+  responses: number;
+  correct: number;
+}
+
+export class ScriptureScopeError extends Error {}
+
+function emptyStats(): HeatStats {
+  return { questions: 0, responses: 0, correct: 0, accuracy: null };
+}
+
+function addRow(stats: HeatStats, row: QuestionRow) {
+  stats.questions += 1;
+  stats.responses += row.responses;
+  stats.correct += row.correct;
+  stats.accuracy = stats.responses > 0 ? (stats.correct / stats.responses) * 100 : null;
+}
+
+/**
+ * Start of the window for an analytics time range
+ */
+export function timeRangeStart(timeRange: string): Date {
+  const now = Date.now();
+  if (timeRange === "week") return new Date(now - 7 * 24 * 60 * 60 * 1000);
+  if (timeRange === "month") return new Date(now - 30 * 24 * 60 * 60 * 1000);
+  return new Date(0);
+}
+
+/**
+ * Student ids a scope covers, or null for the whole roster. Groups and students
+ * must belong to the educator.
+ */
+export async function resolveScopeStudentIds(educatorId: string, scope: ScriptureScope): Promise<string[] | null> {
+  if (scope.type === "roster") return null;
+
+  if (scope.type === "student") {
+    const [link] = await db
+      .select({ id: educatorStudents.id })
+      .from(educatorStudents)
+      .where(and(eq(educatorStudents.educatorId, educatorId), eq(educatorStudents.studentId, scope.studentId)))
+      .limit(1);
+    if (!link) throw new ScriptureScopeError("Student not found");
+    return [scope.studentId];
+  }
+
+  const [group] = await db
+    .select({ id: studentGroups.id })
+    .from(studentGroups)
+    .where(and(eq(studentGroups.id, scope.groupId), eq(studentGroups.educatorId, educatorId)))
+    .limit(1);
+  if (!group) throw new ScriptureScopeError("Group not found");
+
+  const members = await db
+    .select({ studentId: groupMembers.studentId })
+    .from(groupMembers)
+    .where(and(eq(groupMembers.groupId, scope.groupId), eq(groupMembers.isActive, true)));
+  return members.map(member => member.studentId);
+}
+
+async function fetchQuestionRows(educatorId: string, studentIds: string[] | null, since: Date): Promise<QuestionRow[]> {
+  if (studentIds && studentIds.length === 0) return [];
+
+  const conditions: SQL[] = [
+    eq(quizzes.educatorId, educatorId),
+    eq(quizAttempts.status, "completed"),
+    eq(quizAttempts.mode, "exam"),
+    gte(quizAttempts.endTime, since),
+  ];
+  if (studentIds) conditions.push(inArray(quizAttempts.studentId, studentIds));
+
+  const rows = await db
+    .select({
+      questionId: questions.id,
+      quizId: quizzes.id,
+      quizTitle: quizzes.title,
+      questionText: questions.questionText,
+      book: questions.book,
+      chapter: questions.chapter,
+      responses: sql<number>`count(*)`,
+      correct: sql<number>`sum(case when ${questionResponses.isCorrect} then 1 else 0 end)`,
+    })
+    .from(questionResponses)
+    .innerJoin(questions, eq(questionResponses.questionId, questions.id))
+    .innerJoin(quizAttempts, eq(questionResponses.attemptId, quizAttempts.id))
+    .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+    .where(and(...conditions))
+    .groupBy(questions.id, quizzes.id);
+
+  return rows.map(row => ({ ...row, responses: Number(row.responses) || 0, correct: Number(row.correct) || 0 }));
+}
+
+/**
+ * Book and chapter stats for every book of the canon, in canonical order
+ */
+export async function fetchScriptureHeatmap(educatorId: string, scope: ScriptureScope, since: Date): Promise<ScriptureHeatmap> {
+  const studentIds = await resolveScopeStudentIds(educatorId, scope);
+  const rows = await fetchQuestionRows(educatorId, studentIds, since);
+
+  const groupOf = new Map(BOOK_GROUPS.flatMap(group => group.bookIds.map(id => [id, group.id] as const)));
+  const books = new Map<string, BookHeat>(BIBLE_BOOKS.map(book => [book.id, {
+    bookId: book.id,
+    book: book.name,
+    testament: book.testament,
+    groupId: groupOf.get(book.id) ?? "",
+    chapterCount: book.chapters,
+    chaptersTested: 0,
+    coverage: 0,
+    chapters: [],
+    unassigned: emptyStats(),
+    ...emptyStats(),
+  }]));
+  const unassigned = emptyStats();
+  const totals = emptyStats();
+
+  for (const row of rows) {
+    addRow(totals, row);
+    // Stored values are normalized on write, but older rows may predate that
+    const { book: bookName, chapter } = normalizeBookAndChapter(row.book, row.chapter);
+    const book = findBook(bookName);
+    const heat = book ? books.get(book.id) : undefined;
+    if (!book || !heat) {
+      addRow(unassigned, row);
+      continue;
+    }
+
+    addRow(heat, row);
+    const chapterNumber = Number(chapter);
+    if (!Number.isInteger(chapterNumber) || chapterNumber < 1 || chapterNumber > book.chapters) {
+      addRow(heat.unassigned, row);
+      continue;
+    }
+    let chapterHeat = heat.chapters.find(entry => entry.chapter === chapterNumber);
+    if (!chapterHeat) {
+      chapterHeat = { chapter: chapterNumber, ...emptyStats() };
+      heat.chapters.push(chapterHeat);
+    }
+    addRow(chapterHeat, row);
+  }
+
+  for (const heat of books.values()) {
+    heat.chapters.sort((a, b) => a.chapter - b.chapter);
+    heat.chaptersTested = heat.chapters.length;
+    heat.coverage = (heat.chaptersTested / heat.chapterCount) * 100;
+  }
+
+  const groups = BOOK_GROUPS.map(group => {
+    const stats = emptyStats();
+    let chapterCount = 0;
+    let chaptersTested = 0;
+    for (const id of group.bookIds) {
+      const heat = books.get(id)!;
+      stats.questions += heat.questions;
+      stats.responses += heat.responses;
+      stats.correct += heat.correct;
+      chapterCount += heat.chapterCount;
+      chaptersTested += heat.chaptersTested;
+    }
+    stats.accuracy = stats.responses > 0 ? (stats.correct / stats.responses) * 100 : null;
+    return { id: group.id, name: group.name, testament: group.testament, coverage: (chaptersTested / chapterCount) * 100, ...stats };
+  });
+
+  return { books: Array.from(books.values()), groups, unassigned, totals };
+}
+
+/**
+ * Questions behind one book (and optionally one chapter) of the heatmap, weakest first
+ */
+export async function fetchScriptureQuestions(
+  educatorId: string,
+  scope: ScriptureScope,
+  since: Date,
+  bookName: string,
+  chapter: number | null
+): Promise<ScriptureQuestionStats[]> {
+  const book = findBook(bookName);
+  const studentIds = await resolveScopeStudentIds(educatorId, scope);
+  const rows = await fetchQuestionRows(educatorId, studentIds, since);
+
+  return rows
+    .filter(row => {
+      const normalized = normalizeBookAndChapter(row.book, row.chapter);
+      if (book ? findBook(normalized.book)?.id !== book.id : normalized.book !== bookName) return false;
+      return chapter === null || Number(normalized.chapter) === chapter;
+    })
+    .map(row => ({
+      questionId: row.questionId,
+      quizId: row.quizId,
+      quizTitle: row.quizTitle,
+      questionText: row.questionText,
+      book: row.book,
+      chapter: row.chapter,
+      questions: 1,
+      responses: row.responses,
+      correct: row.correct,
+      accuracy: row.responses > 0 ? (row.correct / row.responses) * 100 : null,
+    }))
+    .sort((a, b) => (a.accuracy ?? 101) - (b.accuracy ?? 101) || b.responses - a.responses);
+}
+
+/**
+ * Groups and students an educator can narrow the heatmap to
+ */
+export async function fetchScriptureScopeOptions(educatorId: string) {
+  const [groups, students] = await Promise.all([
+    db
+      .select({ id: studentGroups.id, name: studentGroups.name })
+      .from(studentGroups)
+      .where(and(eq(studentGroups.educatorId, educatorId), eq(studentGroups.isActive, true)))
+      .orderBy(studentGroups.name),
+    db
+      .select({ id: educatorStudents.studentId, name: user.name, email: user.email })
+      .from(educatorStudents)
+      .innerJoin(user, eq(educatorStudents.studentId, user.id))
+      .where(eq(educatorStudents.educatorId, educatorId))
+      .orderBy(user.name),
+  ]);
+  return { groups, students };
+}
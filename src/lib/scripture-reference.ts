@@ -0,0 +1,457 @@
+// Scripture references: book names and abbreviations (English plus the original translation languages),
+// canonical book order, and parsing of references like "John 3:1-21; Romans 5".
+// Questions store the canonical English book name and a plain chapter number, so analytics
+// group "1 Cor", "First Corinthians" and "1Co 13" together. No server-only imports.
+
+// Languages with localized book names; other translation languages show the English name
+export type BookNameLanguage = "ml" | "ta" | "hi" | "fr" | "es";
+
+export interface BibleBook {
+  id: string; // USFM book code
+  name: string; // Canonical English name, as stored on questions
+  testament: "OT" | "NT";
+  chapters: number;
+  abbreviations: string[]; // English abbreviations and alternative names
+  names: Record<BookNameLanguage, string>;
+  aliases?: string[]; // Other names in the supported languages
+}
+
+export interface ScriptureReference {
+  bookId: string;
+  book: string;
+  chapterStart: number | null; // null for the whole book
+  verseStart: number | null;
+  chapterEnd: number | null;
+  verseEnd: number | null;
+}
+
+export interface ParsedScripture {
+  references: ScriptureReference[];
+  errors: string[];
+}
+
+export const BIBLE_BOOKS: BibleBook[] = [
+  // Old Testament
+  { id: "GEN", name: "Genesis", testament: "OT", chapters: 50, abbreviations: ["Gen", "Ge", "Gn"], names: { ml: "ഉല്പത്തി", ta: "ஆதியாகமம்", hi: "उत्पत्ति", fr: "Genèse", es: "Génesis" } },
+  { id: "EXO", name: "Exodus", testament: "OT", chapters: 40, abbreviations: ["Exod", "Exo", "Ex"], names: { ml: "പുറപ്പാട്", ta: "யாத்திராகமம்", hi: "निर्गमन", fr: "Exode", es: "Éxodo" } },
+  { id: "LEV", name: "Leviticus", testament: "OT", chapters: 27, abbreviations: ["Lev", "Le", "Lv"], names: { ml: "ലേവ്യപുസ്തകം", ta: "லேவியராகமம்", hi: "लैव्यव्यवस्था", fr: "Lévitique", es: "Levítico" } },
+  { id: "NUM", name: "Numbers", testament: "OT", chapters: 36, abbreviations: ["Num", "Nu", "Nm", "Nb"], names: { ml: "സംഖ്യാപുസ്തകം", ta: "எண்ணாகமம்", hi: "गिनती", fr: "Nombres", es: "Números" } },
+  { id: "DEU", name: "Deuteronomy", testament: "OT", chapters: 34, abbreviations: ["Deut", "Deu", "De", "Dt"], names: { ml: "ആവർത്തനം", ta: "உபாகமம்", hi: "व्यवस्थाविवरण", fr: "Deutéronome", es: "Deuteronomio" } },
+  { id: "JOS", name: "Joshua", testament: "OT", chapters: 24, abbreviations: ["Josh", "Jos", "Jsh"], names: { ml: "യോശുവ", ta: "யோசுவா", hi: "यहोशू", fr: "Josué", es: "Josué" } },
+  { id: "JDG", name: "Judges", testament: "OT", chapters: 21, abbreviations: ["Judg", "Jdg", "Jg", "Jdgs"], names: { ml: "ന്യായാധിപന്മാർ", ta: "நியாயாதிபதிகள்", hi: "न्यायियों", fr: "Juges", es: "Jueces" } },
+  { id: "RUT", name: "Ruth", testament: "OT", chapters: 4, abbreviations: ["Rth", "Ru"], names: { ml: "രൂത്ത്", ta: "ரூத்", hi: "रूत", fr: "Ruth", es: "Rut" } },
+  { id: "1SA", name: "1 Samuel", testament: "OT", chapters: 31, abbreviations: ["1 Sam", "1 Sa", "1 Sm"], names: { ml: "1 ശമൂവേൽ", ta: "1 சாமுவேல்", hi: "1 शमूएल", fr: "1 Samuel", es: "1 Samuel" } },
+  { id: "2SA", name: "2 Samuel", testament: "OT", chapters: 24, abbreviations: ["2 Sam", "2 Sa", "2 Sm"], names: { ml: "2 ശമൂവേൽ", ta: "2 சாமுவேல்", hi: "2 शमूएल", fr: "2 Samuel", es: "2 Samuel" } },
+  { id: "1KI", name: "1 Kings", testament: "OT", chapters: 22, abbreviations: ["1 Kgs", "1 Ki", "1 Kg", "1 Kin"], names: { ml: "1 രാജാക്കന്മാർ", ta: "1 இராஜாக்கள்", hi: "1 राजा", fr: "1 Rois", es: "1 Reyes" } },
+  { id: "2KI", name: "2 Kings", testament: "OT", chapters: 25, abbreviations: ["2 Kgs", "2 Ki", "2 Kg", "2 Kin"], names: { ml: "2 രാജാക്കന്മാർ", ta: "2 இராஜாக்கள்", hi: "2 राजा", fr: "2 Rois", es: "2 Reyes" } },
+  { id: "1CH", name: "1 Chronicles", testament: "OT", chapters: 29, abbreviations: ["1 Chr", "1 Chron", "1 Ch"], names: { ml: "1 ദിനവൃത്താന്തം", ta: "1 நாளாகமம்", hi: "1 इतिहास", fr: "1 Chroniques", es: "1 Crónicas" } },
+  { id: "2CH", name: "2 Chronicles", testament: "OT", chapters: 36, abbreviations: ["2 Chr", "2 Chron", "2 Ch"], names: { ml: "2 ദിനവൃത്താന്തം", ta: "2 நாளாகமம்", hi: "2 इतिहास", fr: "2 Chroniques", es: "2 Crónicas" } },
+  { id: "EZR", name: "Ezra", testament: "OT", chapters: 10, abbreviations: ["Ezr"], names: { ml: "എസ്രാ", ta: "எஸ்றா", hi: "एज्रा", fr: "Esdras", es: "Esdras" } },
+  { id: "NEH", name: "Nehemiah", testament: "OT", chapters: 13, abbreviations: ["Neh", "Ne"], names: { ml: "നെഹെമ്യാവ്", ta: "நெகேமியா", hi: "नहेम्याह", fr: "Néhémie", es: "Nehemías" } },
+  { id: "EST", name: "Esther", testament: "OT", chapters: 10, abbreviations: ["Esth", "Est", "Es"], names: { ml: "എസ്ഥേർ", ta: "எஸ்தர்", hi: "एस्तेर", fr: "Esther", es: "Ester" } },
+  { id: "JOB", name: "Job", testament: "OT", chapters: 42, abbreviations: ["Jb"], names: { ml: "ഇയ്യോബ്", ta: "யோபு", hi: "अय्यूब", fr: "Job", es: "Job" } },
+  { id: "PSA", name: "Psalms", testament: "OT", chapters: 150, abbreviations: ["Psalm", "Ps", "Psa", "Pss", "Psm"], names: { ml: "സങ്കീർത്തനങ്ങൾ", ta: "சங்கீதம்", hi: "भजन संहिता", fr: "Psaumes", es: "Salmos" }, aliases: ["സങ്കീർത്തനം", "भजन", "Psaume", "Salmo"] },
+  { id: "PRO", name: "Proverbs", testament: "OT", chapters: 31, abbreviations: ["Prov", "Pro", "Prv", "Pr"], names: { ml: "സദൃശവാക്യങ്ങൾ", ta: "நீதிமொழிகள்", hi: "नीतिवचन", fr: "Proverbes", es: "Proverbios" } },
+  { id: "ECC", name: "Ecclesiastes", testament: "OT", chapters: 12, abbreviations: ["Eccl", "Eccles", "Ecc", "Ec", "Qoheleth", "Qoh"], names: { ml: "സഭാപ്രസംഗി", ta: "பிரசங்கி", hi: "सभोपदेशक", fr: "Ecclésiaste", es: "Eclesiastés" } },
+  { id: "SNG", name: "Song of Solomon", testament: "OT", chapters: 8, abbreviations: ["Song of Songs", "Song", "SoS", "Sg", "Canticles", "Cant"], names: { ml: "ഉത്തമഗീതം", ta: "உன்னதப்பாட்டு", hi: "श्रेष्ठगीत", fr: "Cantique des Cantiques", es: "Cantares" }, aliases: ["Cantar de los Cantares"] },
+  { id: "ISA", name: "Isaiah", testament: "OT", chapters: 66, abbreviations: ["Isa", "Is"], names: { ml: "യെശയ്യാവ്", ta: "ஏசாயா", hi: "यशायाह", fr: "Ésaïe", es: "Isaías" }, aliases: ["Isaïe"] },
+  { id: "JER", name: "Jeremiah", testament: "OT", chapters: 52, abbreviations: ["Jer", "Je", "Jr"], names: { ml: "യിരെമ്യാവ്", ta: "எரேமியா", hi: "यिर्मयाह", fr: "Jérémie", es: "Jeremías" } },
+  { id: "LAM", name: "Lamentations", testament: "OT", chapters: 5, abbreviations: ["Lam", "La"], names: { ml: "വിലാപങ്ങൾ", ta: "புலம்பல்", hi: "विलापगीत", fr: "Lamentations", es: "Lamentaciones" } },
+  { id: "EZK", name: "Ezekiel", testament: "OT", chapters: 48, abbreviations: ["Ezek", "Eze", "Ezk"], names: { ml: "യെഹെസ്കേൽ", ta: "எசேக்கியேல்", hi: "यहेजकेल", fr: "Ézéchiel", es: "Ezequiel" } },
+  { id: "DAN", name: "Daniel", testament: "OT", chapters: 12, abbreviations: ["Dan", "Da", "Dn"], names: { ml: "ദാനീയേൽ", ta: "தானியேல்", hi: "दानिय्येल", fr: "Daniel", es: "Daniel" } },
+  { id: "HOS", name: "Hosea", testament: "OT", chapters: 14, abbreviations: ["Hos", "Ho"], names: { ml: "ഹോശേയ", ta: "ஓசியா", hi: "होशे", fr: "Osée", es: "Oseas" } },
+  { id: "JOL", name: "Joel", testament: "OT", chapters: 3, abbreviations: ["Jl"], names: { ml: "യോവേൽ", ta: "யோவேல்", hi: "योएल", fr: "Joël", es: "Joel" } },
+  { id: "AMO", name: "Amos", testament: "OT", chapters: 9, abbreviations: ["Am", "Amo"], names: { ml: "ആമോസ്", ta: "ஆமோஸ்", hi: "आमोस", fr: "Amos", es: "Amós" } },
+  { id: "OBA", name: "Obadiah", testament: "OT", chapters: 1, abbreviations: ["Obad", "Oba", "Ob"], names: { ml: "ഓബദ്യാവ്", ta: "ஒபதியா", hi: "ओबद्याह", fr: "Abdias", es: "Abdías" } },
+  { id: "JON", name: "Jonah", testament: "OT", chapters: 4, abbreviations: ["Jon", "Jnh"], names: { ml: "യോനാ", ta: "யோனா", hi: "योना", fr: "Jonas", es: "Jonás" } },
+  { id: "MIC", name: "Micah", testament: "OT", chapters: 7, abbreviations: ["Mic", "Mc"], names: { ml: "മീഖാ", ta: "மீகா", hi: "मीका", fr: "Michée", es: "Miqueas" } },
+  { id: "NAM", name: "Nahum", testament: "OT", chapters: 3, abbreviations: ["Nah", "Na"], names: { ml: "നഹൂം", ta: "நாகூம்", hi: "नहूम", fr: "Nahum", es: "Nahúm" } },
+  { id: "HAB", name: "Habakkuk", testament: "OT", chapters: 3, abbreviations: ["Hab", "Hb"], names: { ml: "ഹബക്കൂക്", ta: "ஆபகூக்", hi: "हबक्कूक", fr: "Habacuc", es: "Habacuc" } },
+  { id: "ZEP", name: "Zephaniah", testament: "OT", chapters: 3, abbreviations: ["Zeph", "Zep", "Zp"], names: { ml: "സെഫന്യാവ്", ta: "செப்பனியா", hi: "सपन्याह", fr: "Sophonie", es: "Sofonías" } },
+  { id: "HAG", name: "Haggai", testament: "OT", chapters: 2, abbreviations: ["Hag", "Hg"], names: { ml: "ഹഗ്ഗായി", ta: "ஆகாய்", hi: "हाग्गै", fr: "Aggée", es: "Hageo" } },
+  { id: "ZEC", name: "Zechariah", testament: "OT", chapters: 14, abbreviations: ["Zech", "Zec", "Zc"], names: { ml: "സെഖര്യാവ്", ta: "சகரியா", hi: "जकर्याह", fr: "Zacharie", es: "Zacarías" } },
+  { id: "MAL", name: "Malachi", testament: "OT", chapters: 4, abbreviations: ["Mal", "Ml"], names: { ml: "മലാഖി", ta: "மல்கியா", hi: "मलाकी", fr: "Malachie", es: "Malaquías" } },
+  // New Testament
+  { id: "MAT", name: "Matthew", testament: "NT", chapters: 28, abbreviations: ["Matt", "Mat", "Mt"], names: { ml: "മത്തായി", ta: "மத்தேயு", hi: "मत्ती", fr: "Matthieu", es: "Mateo" }, aliases: ["San Mateo"] },
+  { id: "MRK", name: "Mark", testament: "NT", chapters: 16, abbreviations: ["Mrk", "Mk", "Mr"], names: { ml: "മർക്കൊസ്", ta: "மாற்கு", hi: "मरकुस", fr: "Marc", es: "Marcos" }, aliases: ["San Marcos"] },
+  { id: "LUK", name: "Luke", testament: "NT", chapters: 24, abbreviations: ["Luk", "Lk"], names: { ml: "ലൂക്കൊസ്", ta: "லூக்கா", hi: "लूका", fr: "Luc", es: "Lucas" }, aliases: ["San Lucas"] },
+  { id: "JHN", name: "John", testament: "NT", chapters: 21, abbreviations: ["Jhn", "Jn"], names: { ml: "യോഹന്നാൻ", ta: "யோவான்", hi: "यूहन्ना", fr: "Jean", es: "Juan" }, aliases: ["San Juan"] },
+  { id: "ACT", name: "Acts", testament: "NT", chapters: 28, abbreviations: ["Act", "Ac", "Acts of the Apostles"], names: { ml: "പ്രവൃത്തികൾ", ta: "அப்போஸ்தலருடைய நடபடிகள்", hi: "प्रेरितों के काम", fr: "Actes", es: "Hechos" }, aliases: ["அப்போஸ்தலர் நடபடிகள்", "Actes des Apôtres", "Hechos de los Apóstoles"] },
+  { id: "ROM", name: "Romans", testament: "NT", chapters: 16, abbreviations: ["Rom", "Ro", "Rm"], names: { ml: "റോമർ", ta: "ரோமர்", hi: "रोमियों", fr: "Romains", es: "Romanos" } },
+  { id: "1CO", name: "1 Corinthians", testament: "NT", chapters: 16, abbreviations: ["1 Cor", "1 Co"], names: { ml: "1 കൊരിന്ത്യർ", ta: "1 கொரிந்தியர்", hi: "1 कुरिन्थियों", fr: "1 Corinthiens", es: "1 Corintios" } },
+  { id: "2CO", name: "2 Corinthians", testament: "NT", chapters: 13, abbreviations: ["2 Cor", "2 Co"], names: { ml: "2 കൊരിന്ത്യർ", ta: "2 கொரிந்தியர்", hi: "2 कुरिन्थियों", fr: "2 Corinthiens", es: "2 Corintios" } },
+  { id: "GAL", name: "Galatians", testament: "NT", chapters: 6, abbreviations: ["Gal", "Ga"], names: { ml: "ഗലാത്യർ", ta: "கலாத்தியர்", hi: "गलातियों", fr: "Galates", es: "Gálatas" } },
+  { id: "EPH", name: "Ephesians", testament: "NT", chapters: 6, abbreviations: ["Eph", "Ephes"], names: { ml: "എഫെസ്യർ", ta: "எபேசியர்", hi: "इफिसियों", fr: "Éphésiens", es: "Efesios" } },
+  { id: "PHP", name: "Philippians", testament: "NT", chapters: 4, abbreviations: ["Phil", "Php", "Pp"], names: { ml: "ഫിലിപ്പിയർ", ta: "பிலிப்பியர்", hi: "फिलिप्पियों", fr: "Philippiens", es: "Filipenses" } },
+  { id: "COL", name: "Colossians", testament: "NT", chapters: 4, abbreviations: ["Col"], names: { ml: "കൊലൊസ്സ്യർ", ta: "கொலோசெயர்", hi: "कुलुस्सियों", fr: "Colossiens", es: "Colosenses" } },
+  { id: "1TH", name: "1 Thessalonians", testament: "NT", chapters: 5, abbreviations: ["1 Thess", "1 Thes", "1 Th"], names: { ml: "1 തെസ്സലൊനീക്യർ", ta: "1 தெசலோனிக்கேயர்", hi: "1 थिस्सलुनीकियों", fr: "1 Thessaloniciens", es: "1 Tesalonicenses" } },
+  { id: "2TH", name: "2 Thessalonians", testament: "NT", chapters: 3, abbreviations: ["2 Thess", "2 Thes", "2 Th"], names: { ml: "2 തെസ്സലൊനീക്യർ", ta: "2 தெசலோனிக்கேயர்", hi: "2 थिस्सलुनीकियों", fr: "2 Thessaloniciens", es: "2 Tesalonicenses" } },
+  { id: "1TI", name: "1 Timothy", testament: "NT", chapters: 6, abbreviations: ["1 Tim", "1 Ti", "1 Tm"], names: { ml: "1 തിമൊഥെയൊസ്", ta: "1 தீமோத்தேயு", hi: "1 तीमुथियुस", fr: "1 Timothée", es: "1 Timoteo" } },
+  { id: "2TI", name: "2 Timothy", testament: "NT", chapters: 4, abbreviations: ["2 Tim", "2 Ti", "2 Tm"], names: { ml: "2 തിമൊഥെയൊസ്", ta: "2 தீமோத்தேயு", hi: "2 तीमुथियुस", fr: "2 Timothée", es: "2 Timoteo" } },
+  { id: "TIT", name: "Titus", testament: "NT", chapters: 3, abbreviations: ["Tit"], names: { ml: "തീത്തൊസ്", ta: "தீத்து", hi: "तीतुस", fr: "Tite", es: "Tito" } },
+  { id: "PHM", name: "Philemon", testament: "NT", chapters: 1, abbreviations: ["Philem", "Phlm", "Phm"], names: { ml: "ഫിലേമോൻ", ta: "பிலேமோன்", hi: "फिलेमोन", fr: "Philémon", es: "Filemón" } },
+  { id: "HEB", name: "Hebrews", testament: "NT", chapters: 13, abbreviations: ["Heb"], names: { ml: "എബ്രായർ", ta: "எபிரெயர்", hi: "इब्रानियों", fr: "Hébreux", es: "Hebreos" } },
+  { id: "JAS", name: "James", testament: "NT", chapters: 5, abbreviations: ["Jas", "Jm"], names: { ml: "യാക്കോബ്", ta: "யாக்கோபு", hi: "याकूब", fr: "Jacques", es: "Santiago" } },
+  { id: "1PE", name: "1 Peter", testament: "NT", chapters: 5, abbreviations: ["1 Pet", "1 Pe", "1 Pt"], names: { ml: "1 പത്രൊസ്", ta: "1 பேதுரு", hi: "1 पतरस", fr: "1 Pierre", es: "1 Pedro" } },
+  { id: "2PE", name: "2 Peter", testament: "NT", chapters: 3, abbreviations: ["2 Pet", "2 Pe", "2 Pt"], names: { ml: "2 പത്രൊസ്", ta: "2 பேதுரு", hi: "2 पतरस", fr: "2 Pierre", es: "2 Pedro" } },
+  { id: "1JN", name: "1 John", testament: "NT", chapters: 5, abbreviations: ["1 Jn", "1 Jhn", "1 Jo"], names: { ml: "1 യോഹന്നാൻ", ta: "1 யோவான்", hi: "1 यूहन्ना", fr: "1 Jean", es: "1 Juan" } },
+  { id: "2JN", name: "2 John", testament: "NT", chapters: 1, abbreviations: ["2 Jn", "2 Jhn", "2 Jo"], names: { ml: "2 യോഹന്നാൻ", ta: "2 யோவான்", hi: "2 यूहन्ना", fr: "2 Jean", es: "2 Juan" } },
+  { id: "3JN", name: "3 John", testament: "NT", chapters: 1, abbreviations: ["3 Jn", "3 Jhn", "3 Jo"], names: { ml: "3 യോഹന്നാൻ", ta: "3 யோவான்", hi: "3 यूहन्ना", fr: "3 Jean", es: "3 Juan" } },
+  { id: "JUD", name: "Jude", testament: "NT", chapters: 1, abbreviations: ["Jud", "Jd"], names: { ml: "യൂദാ", ta: "யூதா", hi: "यहूदा", fr: "Jude", es: "Judas" } },
+  { id: "REV", name: "Revelation", testament: "NT", chapters: 22, abbreviations: ["Rev", "Re", "Rv", "Revelations", "Apocalypse"], names: { ml: "വെളിപ്പാട്", ta: "வெளிப்படுத்தின விசேஷம்", hi: "प्रकाशितवाक्य", fr: "Apocalypse", es: "Apocalipsis" }, aliases: ["வெளிப்படுத்தல்"] },
+];
+
+export interface BookGroup {
+  id: string;
+  name: string;
+  testament: "OT" | "NT";
+  bookIds: string[];
+}
+
+function bookRange(firstId: string, lastId: string): string[] {
+  const first = BIBLE_BOOKS.findIndex(book => book.id === firstId);
+  const last = BIBLE_BOOKS.findIndex(book => book.id === lastId);
+  return BIBLE_BOOKS.slice(first, last + 1).map(book => book.id);
+}
+
+// Traditional divisions of the Protestant canon, in order
+export const BOOK_GROUPS: BookGroup[] = [
+  { id: "pentateuch", name: "Pentateuch", testament: "OT", bookIds: bookRange("GEN", "DEU") },
+  { id: "history", name: "Historical Books", testament: "OT", bookIds: bookRange("JOS", "EST") },
+  { id: "wisdom", name: "Wisdom & Poetry", testament: "OT", bookIds: bookRange("JOB", "SNG") },
+  { id: "major-prophets", name: "Major Prophets", testament: "OT", bookIds: bookRange("ISA", "DAN") },
+  { id: "minor-prophets", name: "Minor Prophets", testament: "OT", bookIds: bookRange("HOS", "MAL") },
+  { id: "gospels", name: "Gospels", testament: "NT", bookIds: bookRange("MAT", "JHN") },
+  { id: "acts", name: "Acts", testament: "NT", bookIds: ["ACT"] },
+  { id: "pauline-epistles", name: "Pauline Epistles", testament: "NT", bookIds: bookRange("ROM", "PHM") },
+  { id: "general-epistles", name: "General Epistles", testament: "NT", bookIds: bookRange("HEB", "JUD") },
+  { id: "prophecy", name: "Prophecy", testament: "NT", bookIds: ["REV"] },
+];
+
+// Ordinals written out before numbered books ("First Corinthians", "II Kings", "1re Jean", "Primera de Juan")
+export const BOOK_ORDINAL_PREFIXES: [string, RegExp][] = [
+  ["1", /^(first|1st|i|premier|premiere|première|1er|1re|primera|primero|1a|1o|1º)\s+(de\s+)?/],
+  ["2", /^(second|2nd|ii|deuxieme|deuxième|seconde|2e|segunda|segundo|2a|2o|2º)\s+(de\s+)?/],
+  ["3", /^(third|3rd|iii|troisieme|troisième|3e|tercera|tercero|3a|3o|3º)\s+(de\s+)?/],
+];
+
+const MIN_PREFIX_LETTERS = 2;
+
+/**
+ * Lookup key for a book name: lowercase, without accents, ordinals, spaces or punctuation
+ */
+export function bookKey(name: string): string {
+  let key = name.normalize("NFC").toLowerCase().trim();
+  for (const [digit, pattern] of BOOK_ORDINAL_PREFIXES) {
+    key = key.replace(pattern, digit);
+  }
+  return key
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Latin diacritics only, Indic vowel signs are kept
+    .normalize("NFC")
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "");
+}
+
+/**
+ * Every name a book is known by: English name, abbreviations and the supported languages
+ */
+export function bookNames(book: BibleBook): string[] {
+  return [book.name, ...book.abbreviations, ...Object.values(book.names), ...(book.aliases ?? [])];
+}
+
+const BOOKS_BY_ID = new Map(BIBLE_BOOKS.map(book => [book.id, book]));
+const BOOK_INDEX = new Map(BIBLE_BOOKS.map((book, index) => [book.id, index]));
+const BOOKS_BY_KEY = new Map<string, BibleBook>();
+for (const book of BIBLE_BOOKS) {
+  for (const name of bookNames(book)) {
+    const key = bookKey(name);
+    if (key && !BOOKS_BY_KEY.has(key)) BOOKS_BY_KEY.set(key, book);
+  }
+}
+
+/**
+ * Find a book by id, name or abbreviation in any supported language.
+ * Unlisted abbreviations match when they are the start of exactly one book's names ("Deuter", "1 Corin").
+ */
+export function findBook(name: string | null | undefined): BibleBook | null {
+  if (!name) return null;
+  const byId = BOOKS_BY_ID.get(name.trim().toUpperCase());
+  if (byId) return byId;
+
+  const key = bookKey(name);
+  if (!key) return null;
+  const exact = BOOKS_BY_KEY.get(key);
+  if (exact) return exact;
+
+  if (key.replace(/^\d+/, "").length < MIN_PREFIX_LETTERS) return null;
+  let match: BibleBook | null = null;
+  for (const [candidateKey, book] of BOOKS_BY_KEY) {
+    if (!candidateKey.startsWith(key)) continue;
+    if (match && match.id !== book.id) return null; // Ambiguous, e.g. "Jo"
+    match = book;
+  }
+  return match;
+}
+
+/**
+ * Canonical English name for a book, or null if it isn't recognized
+ */
+export function normalizeBookName(name: string | null | undefined): string | null {
+  return findBook(name)?.name ?? null;
+}
+
+/**
+ * Book name in a translation language, falling back to the English name
+ */
+export function localizedBookName(name: string, language?: string | null): string {
+  const book = findBook(name);
+  if (!book) return name;
+  return language && Object.prototype.hasOwnProperty.call(book.names, language)
+    ? book.names[language as BookNameLanguage]
+    : book.name;
+}
+
+/**
+ * Position of a book in canonical order, or -1 for names that aren't books
+ */
+export function bookOrder(name: string | null | undefined): number {
+  const book = findBook(name);
+  return book ? BOOK_INDEX.get(book.id)! : -1;
+}
+
+/**
+ * Sort comparator for book names: canonical order, with unrecognized names last and alphabetical
+ */
+export function compareBooks(a: string | null | undefined, b: string | null | undefined): number {
+  const orderA = bookOrder(a);
+  const orderB = bookOrder(b);
+  if (orderA !== -1 && orderB !== -1) return orderA - orderB;
+  if (orderA !== -1) return -1;
+  if (orderB !== -1) return 1;
+  return (a ?? "").localeCompare(b ?? "");
+}
+
+function positiveInt(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : null;
+}
+
+// "3", "3:16", "3:1-21", "3-5", "3:16-4:2". A period also separates chapter and verse ("3.16").
+const LOCATION_PATTERN = /^(\d+)(?:\s*[:.]\s*(\d+))?(?:\s*[-–—]\s*(\d+)(?:\s*[:.]\s*(\d+))?)?$/;
+// Book name, optionally numbered ("1 John", "1Co"), followed by the location
+const BOOK_PATTERN = /^((?:[1-3]\s*)?[^\d\s][^\d]*?)\s*(\d[\s\S]*)?$/u;
+
+interface ParseContext {
+  book: BibleBook | null;
+  last: ScriptureReference | null;
+}
+
+function parseLocation(
+  book: BibleBook,
+  location: string,
+  context: ParseContext,
+  continuation: "chapter" | "verse" | null
+): ScriptureReference | string {
+  const match = location.match(LOCATION_PATTERN);
+  if (!match) return `Couldn't read "${location}" in ${book.name}`;
+
+  const hasVerse = match[2] !== undefined;
+  let chapterStart: number | null;
+  let verseStart: number | null;
+  let chapterEnd: number | null;
+  let verseEnd: number | null;
+
+  if (hasVerse) {
+    chapterStart = positiveInt(match[1]);
+    verseStart = positiveInt(match[2]);
+    if (match[4] !== undefined) {
+      chapterEnd = positiveInt(match[3]);
+      verseEnd = positiveInt(match[4]);
+    } else {
+      chapterEnd = chapterStart;
+      verseEnd = match[3] !== undefined ? positiveInt(match[3]) : verseStart;
+    }
+  } else if (continuation === "verse" && context.last?.chapterEnd) {
+    // "John 3:16, 18" continues with verses of the same chapter
+    chapterStart = chapterEnd = context.last.chapterEnd;
+    verseStart = positiveInt(match[1]);
+    verseEnd = match[3] !== undefined ? positiveInt(match[3]) : verseStart;
+  } else if (book.chapters === 1 && match[4] === undefined) {
+    // Single-chapter books are cited by verse: "Jude 3", "Philemon 4-7"
+    chapterStart = chapterEnd = 1;
+    verseStart = positiveInt(match[1]);
+    verseEnd = match[3] !== undefined ? positiveInt(match[3]) : verseStart;
+  } else {
+    chapterStart = positiveInt(match[1]);
+    verseStart = null;
+    chapterEnd = match[3] !== undefined ? positiveInt(match[3]) : chapterStart;
+    verseEnd = match[4] !== undefined ? positiveInt(match[4]) : null;
+  }
+
+  if (chapterStart === null || chapterEnd === null) return `Invalid chapter in "${book.name} ${location}"`;
+  if (chapterStart > book.chapters || chapterEnd > book.chapters) {
+    return `${book.name} has ${book.chapters} chapter${book.chapters === 1 ? "" : "s"}`;
+  }
+  if (chapterEnd < chapterStart || (chapterEnd === chapterStart && verseStart !== null && verseEnd !== null && verseEnd < verseStart)) {
+    return `Range "${book.name} ${location}" ends before it starts`;
+  }
+  if ((hasVerse || verseStart !== null) && (verseStart === null || verseEnd === null)) {
+    return `Invalid verse in "${book.name} ${location}"`;
+  }
+
+  return { bookId: book.id, book: book.name, chapterStart, verseStart, chapterEnd, verseEnd };
+}
+
+/**
+ * Parse one or more references, e.g. "John 3:1-21; Romans 5", "1 Cor 13:4-7, 13" or "Ps 23; 91".
+ * Passages are separated by semicolons; a passage without a book continues the previous one.
+ * Commas list further verses (or chapters) of the same book. Chapters are checked against
+ * each book's length; verse numbers are not.
+ */
+export function parseScriptureReferences(input: string | string[]): ParsedScripture {
+  const references: ScriptureReference[] = [];
+  const errors: string[] = [];
+  const context: ParseContext = { book: null, last: null };
+  const passages = (Array.isArray(input) ? input : [input])
+    .flatMap(part => String(part).split(/[;\n]/))
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  for (const passage of passages) {
+    const segments = passage.split(",").map(segment => segment.trim()).filter(Boolean);
+    segments.forEach((segment, index) => {
+      const bookMatch = segment.match(BOOK_PATTERN);
+      let book: BibleBook | null;
+      let location: string;
+      let continuation: "chapter" | "verse" | null = null;
+
+      if (bookMatch && /\p{L}/u.test(bookMatch[1])) {
+        book = findBook(bookMatch[1]);
+        if (!book) {
+          errors.push(`Unknown book "${bookMatch[1].trim()}"`);
+          context.book = null;
+          return;
+        }
+        location = (bookMatch[2] ?? "").trim();
+        context.last = null;
+      } else {
+        book = context.book;
+        location = segment;
+        if (!book) {
+          errors.push(`"${segment}" needs a book name`);
+          return;
+        }
+        // After a comma, bare numbers are more verses if the previous part had verses
+        continuation = index > 0 && context.last?.verseStart != null ? "verse" : "chapter";
+      }
+
+      context.book = book;
+      if (!location) {
+        const whole = { bookId: book.id, book: book.name, chapterStart: null, verseStart: null, chapterEnd: null, verseEnd: null };
+        references.push(whole);
+        context.last = whole;
+        return;
+      }
+
+      const result = parseLocation(book, location, context, continuation);
+      if (typeof result === "string") {
+        errors.push(result);
+        return;
+      }
+      references.push(result);
+      context.last = result;
+    });
+  }
+
+  return { references, errors };
+}
+
+/**
+ * "John 3:1-21", "Romans 5", "John 3:16-4:2" or "Jude", optionally with the book name localized
+ */
+export function formatScriptureReference(reference: ScriptureReference, language?: string | null): string {
+  const book = localizedBookName(reference.book, language);
+  const { chapterStart, verseStart, chapterEnd, verseEnd } = reference;
+  if (chapterStart === null) return book;
+
+  if (verseStart === null) {
+    return chapterEnd !== null && chapterEnd !== chapterStart
+      ? `${book} ${chapterStart}-${chapterEnd}`
+      : `${book} ${chapterStart}`;
+  }
+  if (chapterEnd !== null && chapterEnd !== chapterStart) {
+    return `${book} ${chapterStart}:${verseStart}-${chapterEnd}:${verseEnd ?? 1}`;
+  }
+  return verseEnd !== null && verseEnd !== verseStart
+    ? `${book} ${chapterStart}:${verseStart}-${verseEnd}`
+    : `${book} ${chapterStart}:${verseStart}`;
+}
+
+/**
+ * Book and chapter scope for a set of references, in the shape quiz configurations and the
+ * generation webhook have always used. Chapters are only listed when every reference is in one book.
+ */
+export function referenceScope(references: ScriptureReference[]): { books: string[]; chapters: string[] } {
+  const books = Array.from(new Set(references.map(reference => reference.book))).sort(compareBooks);
+  const chapters = books.length === 1
+    ? Array.from(new Set(references.flatMap(reference => {
+        if (reference.chapterStart === null) return [];
+        return reference.chapterEnd !== null && reference.chapterEnd !== reference.chapterStart
+          ? [`${reference.chapterStart}-${reference.chapterEnd}`]
+          : [String(reference.chapterStart)];
+      })))
+    : [];
+  return { books, chapters };
+}
+
+/**
+ * Normalize the book/chapter pair stored on a question. "1 Cor" becomes "1 Corinthians", a chapter
+ * embedded in the book ("1Co 13", "John 3:16") moves to the chapter, and the chapter is reduced to
+ * its first number. Unrecognized books are kept as written.
+ */
+export function normalizeBookAndChapter(
+  book: string | null | undefined,
+  chapter: string | null | undefined
+): { book: string | null; chapter: string | null } {
+  let bookText = (book ?? "").replace(/\s+/g, " ").trim();
+  let chapterText = (chapter ?? "").trim();
+
+  if (!chapterText) {
+    const embedded = bookText.match(/^(.*[^\d\s:.,–-])\s*(\d+)[\d\s:.,–-]*$/);
+    if (embedded && /\p{L}/u.test(embedded[1])) {
+      bookText = embedded[1].trim();
+      chapterText = embedded[2];
+    }
+  }
+
+  const found = findBook(bookText);
+  const firstNumber = chapterText.match(/\d+/)?.[0] ?? null;
+  let normalizedChapter = firstNumber ? String(Number(firstNumber)) : chapterText || null;
+  if (found && found.chapters === 1 && firstNumber) normalizedChapter = "1";
+
+  return {
+    book: found ? found.name : bookText || null,
+    chapter: normalizedChapter,
+  };
+}
+
+/**
+ * Book and chapter for a question from a reference such as "Proverbs 6:6-8 (NIV)", falling back to
+ * the separately given book and chapter when there is no reference or it can't be read
+ */
+export function bookAndChapterFromReference(
+  reference: string | null | undefined,
+  book: string | null | undefined,
+  chapter: string | null | undefined
+): { book: string | null; chapter: string | null } {
+  const text = (reference ?? "").replace(/\([^)]*\)/g, " ").trim();
+  const [first] = text ? parseScriptureReferences(text).references : [];
+  if (first) {
+    return {
+      book: first.book,
+      chapter: first.chapterStart !== null ? String(first.chapterStart) : normalizeBookAndChapter(first.book, chapter).chapter,
+    };
+  }
+  return normalizeBookAndChapter(book, chapter);
+}
@@ -20,6 +20,43 @@ export function safeCompare(a: string, b: string): boolean {
   return crypto.timingSafeEqual(hashA, hashB);
 }
 
+/**
+ * HMAC-SHA256 signature for a webhook body, bound to a timestamp and nonce
+ * so a captured request can't be replayed with a different body or later on
+ * @returns "sha256=<hex digest>" of "<timestamp>.<nonce>.<body>"
+ */
+export function createWebhookSignature(secret: string, timestamp: string, nonce: string, body: string): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a webhook signature and that its timestamp is within the tolerance window
+ * @param toleranceSeconds Maximum clock difference between sender and receiver
+ * @returns null when valid, otherwise the reason it was rejected
+ */
+export function verifyWebhookSignature(options: {
+  secret: string;
+  timestamp: string | null;
+  nonce: string | null;
+  signature: string | null;
+  body: string;
+  toleranceSeconds?: number;
+}): string | null {
+  const { secret, timestamp, nonce, signature, body, toleranceSeconds = 300 } = options;
+  if (!timestamp || !nonce || !signature) return 'missing_signature_headers';
+
+  const sentAt = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(sentAt)) return 'invalid_timestamp';
+  if (Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) return 'stale_timestamp';
+
+  const expected = createWebhookSignature(secret, timestamp, nonce, body);
+  return safeCompare(signature, expected) ? null : 'invalid_signature';
+}
+
 /**
  * Validate API key from request headers
  * @param request The incoming request
@@ -0,0 +1,515 @@
+import { and, desc, eq, gt, inArray, isNull, lte, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  enrollments,
+  notificationPreferences,
+  quizAttempts,
+  quizzes,
+  studentNotifications,
+  studentNotificationTypeEnum,
+  user,
+} from "@/lib/schema";
+import { sendEmail, emailTemplates } from "@/lib/email-service";
+import { enqueueEmail } from "@/lib/email-queue";
+import type { RenderedEmail } from "@/lib/email-templates";
+import { logger } from "@/lib/logger";
+
+/**
+ * Student notification center.
+ *
+ * Every event (a quiz assigned, starting soon, results in, ...) is recorded in the
+ * student's inbox and, if they want it and the sender offered an email, emailed on its
+ * own. Students can also get a daily digest of what they haven't read yet.
+ */
+
+export type StudentNotification = typeof studentNotifications.$inferSelect;
+export type StudentNotificationType = (typeof studentNotificationTypeEnum.enumValues)[number];
+
+export const STUDENT_NOTIFICATION_TYPES = studentNotificationTypeEnum.enumValues;
+
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+}
+
+export interface NotificationPreferences {
+  channels: Record<StudentNotificationType, NotificationChannels>;
+  dailyDigest: boolean;
+}
+
+export const NOTIFICATION_TYPE_INFO: Record<
+  StudentNotificationType,
+  { label: string; description: string; defaults: NotificationChannels }
+> = {
+  quiz_assigned: {
+    label: "New quiz assigned",
+    description: "An educator enrolls you in a quiz",
+    defaults: { inApp: true, email: true },
+  },
+  group_added: {
+    label: "Quiz assigned to your group",
+    description: "A quiz is assigned to a group you belong to",
+    defaults: { inApp: true, email: true },
+  },
+  quiz_reassigned: {
+    label: "Quiz reopened",
+    description: "An educator gives you another attempt at a quiz",
+    defaults: { inApp: true, email: true },
+  },
+  quiz_starting: {
+    label: "Quiz starting soon",
+    description: "About an hour before a scheduled quiz starts",
+    defaults: { inApp: true, email: true },
+  },
+  results_available: {
+    label: "Results available",
+    description: "Your results can be viewed, once the time for the quiz is up",
+    defaults: { inApp: true, email: true },
+  },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+// A digest is skipped if the last one went out more recently than this, so a cron that
+// runs twice doesn't send two
+const DIGEST_MIN_INTERVAL_MS = 20 * HOUR_MS;
+// Results of attempts whose window closed longer ago than this aren't announced, so the first
+// run doesn't notify students about every quiz they've ever taken
+const RESULTS_LOOKBACK_MS = 24 * HOUR_MS;
+
+const ChannelsSchema = z.object({
+  inApp: z.boolean(),
+  email: z.boolean(),
+});
+
+export const NotificationPreferencesSchema = z.object({
+  channels: z.partialRecord(z.enum(STUDENT_NOTIFICATION_TYPES), ChannelsSchema),
+  dailyDigest: z.boolean(),
+});
+
+/**
+ * Id of the notification about one thing, e.g. `notificationId("quiz_assigned", enrollmentId)`.
+ * Recording the same id again does nothing.
+ */
+export function notificationId(type: StudentNotificationType, sourceId: string): string {
+  return `${type}:${sourceId}`;
+}
+
+// ---------------------------------------------------------------------------
+// Preferences
+// ---------------------------------------------------------------------------
+
+function resolvePreferences(
+  row: Pick<typeof notificationPreferences.$inferSelect, "channels" | "dailyDigest"> | undefined
+): NotificationPreferences {
+  const channels = {} as Record<StudentNotificationType, NotificationChannels>;
+  for (const type of STUDENT_NOTIFICATION_TYPES) {
+    channels[type] = { ...NOTIFICATION_TYPE_INFO[type].defaults, ...row?.channels?.[type] };
+  }
+  return { channels, dailyDigest: row?.dailyDigest ?? false };
+}
+
+async function loadPreferences(studentIds: string[]): Promise<Map<string, NotificationPreferences>> {
+  const rows = studentIds.length > 0
+    ? await db
+        .select()
+        .from(notificationPreferences)
+        .where(inArray(notificationPreferences.studentId, studentIds))
+    : [];
+  const byStudent = new Map(rows.map(row => [row.studentId, row]));
+  return new Map(studentIds.map(id => [id, resolvePreferences(byStudent.get(id))]));
+}
+
+export async function getNotificationPreferences(studentId: string): Promise<NotificationPreferences> {
+  const preferences = await loadPreferences([studentId]);
+  return preferences.get(studentId)!;
+}
+
+/**
+ * Save a student's preferences; types left out keep their current setting
+ */
+export async function saveNotificationPreferences(
+  studentId: string,
+  input: z.infer<typeof NotificationPreferencesSchema>
+): Promise<NotificationPreferences> {
+  const current = await getNotificationPreferences(studentId);
+  const preferences: NotificationPreferences = {
+    channels: { ...current.channels, ...input.channels },
+    dailyDigest: input.dailyDigest,
+  };
+
+  await db
+    .insert(notificationPreferences)
+    .values({
+      studentId,
+      channels: preferences.channels,
+      dailyDigest: preferences.dailyDigest,
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: notificationPreferences.studentId,
+      set: {
+        channels: preferences.channels,
+        dailyDigest: preferences.dailyDigest,
+        updatedAt: new Date(),
+      },
+    });
+
+  return preferences;
+}
+
+function inboxTypes(preferences: NotificationPreferences): StudentNotificationType[] {
+  return STUDENT_NOTIFICATION_TYPES.filter(type => preferences.channels[type].inApp);
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+export interface StudentNotificationInput {
+  id: string; // See notificationId()
+  studentId: string;
+  type: StudentNotificationType;
+  title: string;
+  message: string;
+  link?: string | null;
+  quizId?: string | null;
+  email?: { to: string; render: () => Promise<RenderedEmail> } | null; // Leave out for inbox only
+}
+
+/**
+ * Record notifications and email the ones whose students want that type by email.
+ * Notifications already recorded are skipped, email included. Failures are logged rather
+ * than thrown so they never undo the enrollment that caused them.
+ *
+ * With `queueEmails` the emails are only added to the outbound queue and the email-queue
+ * cron sends them, so a request notifying a whole class doesn't wait on every send.
+ */
+export async function notifyStudents(
+  notifications: StudentNotificationInput[],
+  options: { queueEmails?: boolean } = {}
+): Promise<{ created: number; emailed: number }> {
+  let created = 0;
+  let emailed = 0;
+  if (notifications.length === 0) return { created, emailed };
+
+  try {
+    const preferences = await loadPreferences([...new Set(notifications.map(n => n.studentId))]);
+    const now = new Date();
+
+    const inserted = await db
+      .insert(studentNotifications)
+      .values(notifications.map(notification => ({
+        id: notification.id,
+        studentId: notification.studentId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        link: notification.link ?? null,
+        quizId: notification.quizId ?? null,
+        createdAt: now,
+      })))
+      .onConflictDoNothing()
+      .returning({ id: studentNotifications.id });
+    created = inserted.length;
+
+    const insertedIds = new Set(inserted.map(row => row.id));
+    for (const notification of notifications) {
+      if (!insertedIds.has(notification.id) || !notification.email) continue;
+      if (!preferences.get(notification.studentId)?.channels[notification.type].email) continue;
+
+      try {
+        const { subject, html, text } = await notification.email.render();
+        const email = { to: notification.email.to, subject, html, text, category: `notification_${notification.type}` };
+        const success = options.queueEmails
+          ? (await enqueueEmail(email)).status === "pending"
+          : (await sendEmail(email)).success;
+        if (success) {
+          emailed++;
+          await db
+            .update(studentNotifications)
+            .set({ emailedAt: new Date() })
+            .where(eq(studentNotifications.id, notification.id));
+        }
+      } catch (error) {
+        logger.error(`Failed to email notification ${notification.id}:`, error);
+      }
+    }
+  } catch (error) {
+    logger.error("Error recording student notifications:", error);
+  }
+
+  return { created, emailed };
+}
+
+// ---------------------------------------------------------------------------
+// Inbox
+// ---------------------------------------------------------------------------
+
+/**
+ * Newest first, only the types the student shows in their inbox
+ */
+export async function listNotifications(
+  studentId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ notifications: StudentNotification[]; unreadCount: number }> {
+  const types = inboxTypes(await getNotificationPreferences(studentId));
+  if (types.length === 0) return { notifications: [], unreadCount: 0 };
+
+  const [notifications, [{ count }]] = await Promise.all([
+    db
+      .select()
+      .from(studentNotifications)
+      .where(and(
+        eq(studentNotifications.studentId, studentId),
+        inArray(studentNotifications.type, types),
+        options.unreadOnly ? isNull(studentNotifications.readAt) : undefined
+      ))
+      .orderBy(desc(studentNotifications.createdAt))
+      .limit(options.limit ?? 50),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(studentNotifications)
+      .where(and(
+        eq(studentNotifications.studentId, studentId),
+        inArray(studentNotifications.type, types),
+        isNull(studentNotifications.readAt)
+      )),
+  ]);
+
+  return { notifications, unreadCount: count };
+}
+
+/**
+ * Mark the given notifications, or all of them, as read. Returns how many changed.
+ */
+export async function markNotificationsRead(studentId: string, ids?: string[]): Promise<number> {
+  if (ids && ids.length === 0) return 0;
+
+  const updated = await db
+    .update(studentNotifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(studentNotifications.studentId, studentId),
+      isNull(studentNotifications.readAt),
+      ids ? inArray(studentNotifications.id, ids) : undefined
+    ))
+    .returning({ id: studentNotifications.id });
+
+  return updated.length;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduled notifications
+// ---------------------------------------------------------------------------
+
+/**
+ * Remind students of published quizzes starting within the hour that they haven't
+ * started yet. Safe to run as often as you like; each enrollment is reminded once.
+ */
+export async function sendQuizStartingReminders(now: Date = new Date()): Promise<{ checked: number; notified: number; emailed: number }> {
+  const upcoming = await db
+    .select({
+      enrollmentId: enrollments.id,
+      studentId: enrollments.studentId,
+      quizId: quizzes.id,
+      title: quizzes.title,
+      startTime: quizzes.startTime,
+      duration: quizzes.duration,
+      totalQuestions: quizzes.totalQuestions,
+      name: user.name,
+      email: user.email,
+      timezone: user.timezone,
+      emailLanguage: user.emailLanguage,
+    })
+    .from(enrollments)
+    .innerJoin(quizzes, eq(enrollments.quizId, quizzes.id))
+    .innerJoin(user, eq(enrollments.studentId, user.id))
+    .where(and(
+      eq(enrollments.status, "enrolled"),
+      eq(quizzes.status, "published"),
+      gt(quizzes.startTime, now),
+      lte(quizzes.startTime, new Date(now.getTime() + HOUR_MS))
+    ));
+
+  const { created, emailed } = await notifyStudents(upcoming.map(row => {
+    const startTime = row.startTime!;
+    const link = `/student/quiz/${row.quizId}`;
+    const minutes = Math.max(1, Math.round((startTime.getTime() - now.getTime()) / 60000));
+
+    return {
+      id: notificationId("quiz_starting", row.enrollmentId),
+      studentId: row.studentId,
+      type: "quiz_starting" as const,
+      title: `"${row.title}" starts soon`,
+      message: `Your quiz starts in about ${minutes} minute${minutes === 1 ? "" : "s"}. Get ready!`,
+      link,
+      quizId: row.quizId,
+      email: {
+        to: row.email,
+        render: () => emailTemplates.quizStartingReminder(
+          row.name,
+          row.title,
+          startTime,
+          row.totalQuestions,
+          row.duration,
+          `${process.env.NEXT_PUBLIC_APP_URL}${link}`,
+          row.timezone,
+          row.emailLanguage
+        ),
+      },
+    };
+  }));
+
+  return { checked: upcoming.length, notified: created, emailed };
+}
+
+/**
+ * Tell students their exam results can be viewed. The results page holds them back until the
+ * attempt's start time plus the quiz duration, so that's when this notifies, with the score.
+ * Safe to run as often as you like; each attempt is announced once.
+ */
+export async function sendResultsAvailableNotifications(now: Date = new Date()): Promise<{ checked: number; notified: number; emailed: number }> {
+  const availableAt = sql`${quizAttempts.startTime} + make_interval(mins => coalesce(nullif(${quizzes.duration}, 0), 30))`;
+  const completed = await db
+    .select({
+      attemptId: quizAttempts.id,
+      studentId: quizAttempts.studentId,
+      score: quizAttempts.score,
+      forceSubmittedBy: quizAttempts.forceSubmittedBy,
+      quizId: quizzes.id,
+      title: quizzes.title,
+      name: user.name,
+      email: user.email,
+      emailLanguage: user.emailLanguage,
+    })
+    .from(quizAttempts)
+    .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+    .innerJoin(user, eq(quizAttempts.studentId, user.id))
+    .leftJoin(
+      studentNotifications,
+      eq(studentNotifications.id, sql`${notificationId("results_available", "")} || ${quizAttempts.id}`)
+    )
+    .where(and(
+      eq(quizAttempts.status, "completed"),
+      eq(quizAttempts.mode, "exam"),
+      lte(availableAt, now),
+      gt(availableAt, new Date(now.getTime() - RESULTS_LOOKBACK_MS)),
+      isNull(studentNotifications.id)
+    ));
+
+  const { created, emailed } = await notifyStudents(completed.map(row => {
+    const link = `/student/results/${row.attemptId}`;
+    const score = Math.round(row.score ?? 0);
+
+    return {
+      id: notificationId("results_available", row.attemptId),
+      studentId: row.studentId,
+      type: "results_available" as const,
+      title: `Results for "${row.title}"`,
+      message: row.forceSubmittedBy
+        ? `Your educator submitted your attempt. You scored ${score}%.`
+        : `You scored ${score}%.`,
+      link,
+      quizId: row.quizId,
+      email: {
+        to: row.email,
+        render: () => emailTemplates.quizResultsAvailable(
+          row.name,
+          row.title,
+          score,
+          `${process.env.NEXT_PUBLIC_APP_URL}${link}`,
+          row.emailLanguage
+        ),
+      },
+    };
+  }));
+
+  return { checked: completed.length, notified: created, emailed };
+}
+
+/**
+ * Email each student who turned on the daily digest a summary of the notifications they
+ * haven't read or been emailed since their last digest
+ */
+export async function sendNotificationDigests(now: Date = new Date()): Promise<{ students: number; sent: number }> {
+  const subscribers = await db
+    .select({
+      studentId: notificationPreferences.studentId,
+      channels: notificationPreferences.channels,
+      dailyDigest: notificationPreferences.dailyDigest,
+      lastDigestAt: notificationPreferences.lastDigestAt,
+      name: user.name,
+      email: user.email,
+      emailLanguage: user.emailLanguage,
+    })
+    .from(notificationPreferences)
+    .innerJoin(user, eq(notificationPreferences.studentId, user.id))
+    .where(eq(notificationPreferences.dailyDigest, true));
+
+  let sent = 0;
+  for (const subscriber of subscribers) {
+    if (subscriber.lastDigestAt && now.getTime() - subscriber.lastDigestAt.getTime() < DIGEST_MIN_INTERVAL_MS) {
+      continue;
+    }
+
+    try {
+      const types = inboxTypes(resolvePreferences(subscriber));
+      if (types.length === 0) continue;
+
+      const dayAgo = new Date(now.getTime() - 24 * HOUR_MS);
+      const since = subscriber.lastDigestAt && subscriber.lastDigestAt > dayAgo ? subscriber.lastDigestAt : dayAgo;
+      const unread = await db
+        .select({ type: studentNotifications.type, title: studentNotifications.title })
+        .from(studentNotifications)
+        .where(and(
+          eq(studentNotifications.studentId, subscriber.studentId),
+          inArray(studentNotifications.type, types),
+          isNull(studentNotifications.readAt),
+          isNull(studentNotifications.emailedAt),
+          gt(studentNotifications.createdAt, since)
+        ))
+        .orderBy(desc(studentNotifications.createdAt));
+
+      if (unread.length === 0) continue;
+
+      const countOf = (type: StudentNotificationType) => unread.filter(n => n.type === type).length;
+      const { subject, html, text } = await emailTemplates.studentNotificationDigest(
+        subscriber.name,
+        {
+          total: unread.length,
+          assigned: countOf("quiz_assigned"),
+          group: countOf("group_added"),
+          reassigned: countOf("quiz_reassigned"),
+          starting: countOf("quiz_starting"),
+          results: countOf("results_available"),
+        },
+        unread[0].title,
+        subscriber.emailLanguage
+      );
+
+      const result = await sendEmail({
+        to: subscriber.email,
+        subject,
+        html,
+        text,
+        category: "notification_digest",
+        track: true,
+      });
+      if (!result.success) {
+        logger.error(`Failed to send notification digest to ${subscriber.email}:`, result.error);
+        continue;
+      }
+
+      await db
+        .update(notificationPreferences)
+        .set({ lastDigestAt: now })
+        .where(eq(notificationPreferences.studentId, subscriber.studentId));
+      sent++;
+    } catch (error) {
+      logger.error(`Error sending notification digest to ${subscriber.email}:`, error);
+    }
+  }
+
+  return { students: subscribers.length, sent };
+}
@@ -1,13 +1,16 @@
 import { openai } from "@ai-sdk/openai";
 import { generateText } from "ai";
 import { logger } from "@/lib/logger";
+import type { LanguageDefinition } from "@/lib/languages";
 
 
 export interface TranslationRequest {
   questionText: string;
   options: string[];
   explanation?: string | null;
-  targetLanguage: SupportedLanguage;
+  matches?: string[]; // Right-hand column of a matching question
+  acceptedAnswers?: string[]; // Fill-in-the-blank answers
+  targetLanguage: LanguageDefinition; // From the language registry, see lib/language-registry.ts
   context?: {
     book?: string | null;
     chapter?: string | null;
@@ -19,45 +22,12 @@ export interface TranslatedContent {
   questionText: string;
   options: string[];
   explanation: string | null;
+  matches: string[];
+  acceptedAnswers: string[];
   language: string;
   translatedAt: Date;
 }
 
-export type SupportedLanguage = 'ml' | 'ta' | 'hi' | 'fr' | 'es';
-
-export const SUPPORTED_LANGUAGES = {
-  'ml': { 
-    name: 'Malayalam', 
-    code: 'ml', 
-    nativeName: 'മലയാളം',
-    direction: 'ltr' 
-  },
-  'ta': { 
-    name: 'Tamil', 
-    code: 'ta', 
-    nativeName: 'தமிழ்',
-    direction: 'ltr' 
-  },
-  'hi': { 
-    name: 'Hindi', 
-    code: 'hi', 
-    nativeName: 'हिन्दी',
-    direction: 'ltr' 
-  },
-  'fr': { 
-    name: 'French', 
-    code: 'fr', 
-    nativeName: 'Français',
-    direction: 'ltr' 
-  },
-  'es': { 
-    name: 'Spanish', 
-    code: 'es', 
-    nativeName: 'Español',
-    direction: 'ltr' 
-  }
-} as const;
-
 export class QuestionTranslationService {
   private model: string;
 
@@ -67,10 +37,7 @@ export class QuestionTranslationService {
 
   async translateQuestion(request: TranslationRequest): Promise<TranslatedContent> {
     try {
-      const targetLanguage = SUPPORTED_LANGUAGES[request.targetLanguage];
-      if (!targetLanguage) {
-        throw new Error(`Unsupported language: ${request.targetLanguage}`);
-      }
+      const targetLanguage = request.targetLanguage;
 
       // Build context-aware prompt
       const prompt = this.buildTranslationPrompt(request, targetLanguage);
@@ -86,7 +53,7 @@ export class QuestionTranslationService {
       // Parse the response
       const translatedContent = this.parseTranslationResponse(
         response.text,
-        request.targetLanguage
+        request
       );
 
       logger.log("Translation completed successfully", {
@@ -103,7 +70,7 @@ export class QuestionTranslationService {
 
   private buildTranslationPrompt(
     request: TranslationRequest,
-    targetLanguage: typeof SUPPORTED_LANGUAGES[SupportedLanguage]
+    targetLanguage: LanguageDefinition
   ): string {
     const contextInfo = request.context
       ? `\nBiblical Context:
@@ -125,7 +92,8 @@ IMPORTANT GUIDELINES:
 7. DO NOT include any HTML tags, markdown formatting, or special characters
 8. Translate ONLY the text content, no formatting or artifacts
 9. Ensure proper Unicode characters for the target language
-10. Do not add any emojis or decorative characters
+10. Do not add any emojis or decorative characters${targetLanguage.direction === 'rtl' ? `
+11. ${targetLanguage.name} is written right to left: write the text in logical order and do not add bidirectional control characters or reverse the text` : ''}
 ${contextInfo}
 
 CONTENT TO TRANSLATE:
@@ -135,16 +103,23 @@ Options:
 ${request.options.map((opt, i) => `${i + 1}. ${opt}`).join('\n')}
 
 ${request.explanation ? `Explanation: ${request.explanation}` : ''}
+${request.matches?.length ? `\nMatches:\n${request.matches.map((m, i) => `${i + 1}. ${m}`).join('\n')}\n` : ''}
+${request.acceptedAnswers?.length ? `\nAccepted answers:\n${request.acceptedAnswers.map((a, i) => `${i + 1}. ${a}`).join('\n')}\n` : ''}
 
 REQUIRED OUTPUT FORMAT (JSON):
 Return ONLY a valid JSON object with this exact structure:
 {
   "questionText": "translated question text without any formatting",
-  "options": ["option1 text only", "option2 text only", "option3 text only", "option4 text only"],
-  "explanation": "translated explanation text only or null if not provided"
+  "options": ["option1 text only", "option2 text only", ...],
+  "explanation": "translated explanation text only or null if not provided",
+  "matches": ["match1 text only", ...],
+  "acceptedAnswers": ["answer1 text only", ...]
 }
 
 CRITICAL:
+- "options" must have exactly ${request.options.length} entries, in the same order as above
+- "matches" must have exactly ${request.matches?.length ?? 0} entries, in the same order as above
+- "acceptedAnswers" must have exactly ${request.acceptedAnswers?.length ?? 0} entries, in the same order as above
 - Return ONLY plain text in each field
 - NO HTML tags or entities (no <br>, &nbsp;, etc.)
 - NO markdown formatting (no **, __, etc.)
@@ -155,7 +130,7 @@ CRITICAL:
 
   private parseTranslationResponse(
     responseText: string,
-    language: SupportedLanguage
+    request: TranslationRequest
   ): TranslatedContent {
     try {
       // Clean the response text to extract JSON
@@ -171,17 +146,22 @@ CRITICAL:
         throw new Error("Invalid translation response structure");
       }
 
-      // Ensure we have exactly 4 options (pad or trim if necessary)
-      const options = parsed.options.slice(0, 4);
-      while (options.length < 4) {
-        options.push(""); // This shouldn't happen with proper translation
-      }
+      // Translations are matched back to the originals by position, so a missing entry can't be guessed
+      const options = this.parseTextList(parsed.options, request.options.length, "options");
+      const matches = this.parseTextList(parsed.matches, request.matches?.length ?? 0, "matches");
+      const acceptedAnswers = this.parseTextList(
+        parsed.acceptedAnswers,
+        request.acceptedAnswers?.length ?? 0,
+        "acceptedAnswers"
+      );
 
       return {
         questionText: parsed.questionText,
-        options: options,
+        options,
         explanation: parsed.explanation || null,
-        language: language,
+        matches,
+        acceptedAnswers,
+        language: request.targetLanguage.code,
         translatedAt: new Date()
       };
     } catch (error) {
@@ -191,6 +171,14 @@ CRITICAL:
     }
   }
 
+  private parseTextList(value: unknown, expected: number, field: string): string[] {
+    if (expected === 0) return [];
+    if (!Array.isArray(value) || value.length !== expected || value.some(item => typeof item !== "string" || !item.trim())) {
+      throw new Error(`Expected ${expected} translated ${field}`);
+    }
+    return value.map(item => item.trim());
+  }
+
   // Method to validate if translation is needed
   static needsTranslation(currentLanguage?: string | null): boolean {
     return !currentLanguage || currentLanguage === 'en';
@@ -200,12 +188,22 @@ CRITICAL:
   static async detectLanguage(text: string): Promise<string> {
     // Simple heuristic - check for non-Latin scripts
     const hasDevanagari = /[\u0900-\u097F]/.test(text); // Hindi
+    const hasBengali = /[\u0980-\u09FF]/.test(text); // Bengali
     const hasTamil = /[\u0B80-\u0BFF]/.test(text); // Tamil
+    const hasTelugu = /[\u0C00-\u0C7F]/.test(text); // Telugu
+    const hasKannada = /[\u0C80-\u0CFF]/.test(text); // Kannada
     const hasMalayalam = /[\u0D00-\u0D7F]/.test(text); // Malayalam
+    const hasHebrew = /[\u0590-\u05FF]/.test(text); // Hebrew
+    const hasArabic = /[\u0600-\u06FF]/.test(text); // Arabic
     
     if (hasDevanagari) return 'hi';
+    if (hasBengali) return 'bn';
     if (hasTamil) return 'ta';
+    if (hasTelugu) return 'te';
+    if (hasKannada) return 'kn';
     if (hasMalayalam) return 'ml';
+    if (hasHebrew) return 'he';
+    if (hasArabic) return 'ar';
     
     // For Latin scripts, would need more sophisticated detection
     return 'en';
@@ -1,45 +1,117 @@
 import { logger } from "@/lib/logger";
-import { jobStore } from "@/lib/quiz-generation-jobs";
+import { jobStore, type QuizGenerationJob, type GenerationJobUpdate } from "@/lib/quiz-generation-jobs";
 
 
-// Server-side WebSocket message sender
-// This would integrate with your WebSocket server implementation
-// For now, we'll use a polling-to-WebSocket bridge
+// Server-side real-time message sender.
+// Messages go out over Server-Sent Events by default; another transport can be
+// plugged in with setBroadcaster().
 
-interface WebSocketBroadcaster {
+export interface WebSocketBroadcaster {
   sendToUser(userId: string, message: unknown): void;
   sendToAll(message: unknown): void;
 }
 
-// Mock broadcaster that would be replaced with actual WebSocket server
-class MockBroadcaster implements WebSocketBroadcaster {
+const SSE_HEARTBEAT_INTERVAL = 15000; // Keeps proxies from closing idle streams
+
+// Broadcaster over Server-Sent Events. Streams are held in memory, so a message only
+// reaches clients connected to the same server process.
+export class SseBroadcaster implements WebSocketBroadcaster {
+  private streams: Map<string, Set<ReadableStreamDefaultController<Uint8Array>>> = new Map();
+  private encoder = new TextEncoder();
+
+  // Open an event stream for a user; it's dropped when the request is aborted
+  connect(userId: string, signal: AbortSignal): ReadableStream<Uint8Array> {
+    let controller: ReadableStreamDefaultController<Uint8Array>;
+    let heartbeat: NodeJS.Timeout;
+
+    const close = () => {
+      clearInterval(heartbeat);
+      const userStreams = this.streams.get(userId);
+      userStreams?.delete(controller);
+      if (userStreams?.size === 0) this.streams.delete(userId);
+      try {
+        controller.close();
+      } catch {
+        // Already closed
+      }
+    };
+
+    return new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c;
+        if (!this.streams.has(userId)) this.streams.set(userId, new Set());
+        this.streams.get(userId)!.add(controller);
+        controller.enqueue(this.encoder.encode(": connected\n\n"));
+        heartbeat = setInterval(() => this.write(controller, ": ping\n\n", close), SSE_HEARTBEAT_INTERVAL);
+        signal.addEventListener("abort", close);
+      },
+      cancel: close,
+    });
+  }
+
   sendToUser(userId: string, message: unknown) {
-    logger.debug(`[WS] Would send to user ${userId}:`, message);
+    const userStreams = this.streams.get(userId);
+    if (!userStreams) return;
+    const event = `data: ${JSON.stringify(message)}\n\n`;
+    for (const controller of Array.from(userStreams)) {
+      this.write(controller, event, () => userStreams.delete(controller));
+    }
   }
-  
+
   sendToAll(message: unknown) {
-    logger.debug(`[WS] Would broadcast:`, message);
+    for (const userId of Array.from(this.streams.keys())) {
+      this.sendToUser(userId, message);
+    }
+  }
+
+  isConnected(userId: string): boolean {
+    return (this.streams.get(userId)?.size ?? 0) > 0;
+  }
+
+  private write(controller: ReadableStreamDefaultController<Uint8Array>, chunk: string, onError: () => void) {
+    try {
+      controller.enqueue(this.encoder.encode(chunk));
+    } catch (error) {
+      logger.debug("[SSE] Dropping closed stream:", error);
+      onError();
+    }
   }
 }
 
-let broadcaster: WebSocketBroadcaster = new MockBroadcaster();
+// Next.js can load this module more than once per process (one copy per route bundle),
+// so the live connections are kept on globalThis to be shared by all of them
+const globalForSse = globalThis as unknown as { sseBroadcaster?: SseBroadcaster };
+export const sseBroadcaster = globalForSse.sseBroadcaster ?? (globalForSse.sseBroadcaster = new SseBroadcaster());
+
+let broadcaster: WebSocketBroadcaster = sseBroadcaster;
 
 export function setBroadcaster(b: WebSocketBroadcaster) {
   broadcaster = b;
 }
 
+export function getBroadcaster(): WebSocketBroadcaster {
+  return broadcaster;
+}
+
 // Job status monitor that sends WebSocket updates
 export function startJobMonitor() {
   // Monitor job status changes and send WebSocket updates
-  setInterval(() => {
-    const jobs = jobStore.getAllJobs();
-    
-    for (const [jobId, job] of jobs) {
+  // Jobs live in the database, so poll less often than the old in-memory store allowed
+  setInterval(async () => {
+    let jobs: QuizGenerationJob[];
+    try {
+      jobs = await jobStore.listActive();
+    } catch (error) {
+      logger.error("[WS] Failed to load active generation jobs:", error);
+      return;
+    }
+
+    for (const job of jobs) {
       // Send status update via WebSocket
       const message = {
         type: 'quiz_status',
         data: {
-          jobId,
+          jobId: job.jobId,
           quizId: job.quizId,
           questionId: job.questionId,
           status: job.status,
@@ -56,12 +128,12 @@ export function startJobMonitor() {
         broadcaster.sendToUser(job.educatorId, message);
       }
     }
-  }, 1000); // Check every second
+  }, 5000); // Check every 5 seconds
 }
 
 // Function to send immediate status update
-export function sendJobStatusUpdate(jobId: string) {
-  const job = jobStore.getJob(jobId);
+export async function sendJobStatusUpdate(jobId: string) {
+  const job = await jobStore.get(jobId);
   if (!job) return;
   
   const message = {
@@ -84,11 +156,10 @@ export function sendJobStatusUpdate(jobId: string) {
 }
 
 // Update job and send WebSocket notification
-export function updateJobWithNotification(
+export async function updateJobWithNotification(
   jobId: string,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  updates: Partial<any>
+  updates: GenerationJobUpdate
 ) {
-  jobStore.updateJob(jobId, updates);
-  sendJobStatusUpdate(jobId);
-}
\ No newline at end of file
+  await jobStore.update(jobId, updates);
+  await sendJobStatusUpdate(jobId);
+}